@@ -0,0 +1,7 @@
+/**
+ * KeeperHub Approval Decision API Route
+ *
+ * This is a thin wrapper that re-exports the actual implementation
+ * from the keeperhub directory to maintain clean separation.
+ */
+export { POST } from "@/keeperhub/api/approvals/[approvalId]/decide/route";
@@ -1,9 +1,34 @@
 // start custom keeperhub code //
+import { eq } from "drizzle-orm";
 import { NextResponse } from "next/server";
 
+import { matchesEventFilters } from "@/keeperhub/lib/event-filters";
+import { createTriggeredExecution } from "@/keeperhub/lib/execution-trigger";
 import { authenticateInternalService } from "@/keeperhub/lib/internal-service-auth";
+import { DUPLICATE_TRIGGER_ERROR } from "@/keeperhub/lib/trigger-dedupe";
 import { db } from "@/lib/db";
-import { workflowExecutions } from "@/lib/db/schema";
+import { workflows } from "@/lib/db/schema";
+import { deserializeEventTriggerData } from "@/lib/utils";
+
+const EVENT_FILTERED_OUT_ERROR = "Event does not match the trigger's filters";
+
+type TriggerNode = {
+  data?: { type?: string; config?: Record<string, unknown> };
+};
+
+// Logs the tracker could not filter by topic are checked against the
+// trigger's argument filters here
+function isFilteredOutEvent(
+  nodes: TriggerNode[],
+  input: Record<string, unknown>
+): boolean {
+  const config = nodes.find((node) => node?.data?.type === "trigger")?.data
+    ?.config;
+  if (config?.triggerType !== "Event") {
+    return false;
+  }
+  return !matchesEventFilters(config, deserializeEventTriggerData(input));
+}
 
 export async function POST(request: Request) {
   const auth = authenticateInternalService(request);
@@ -15,7 +40,7 @@ export async function POST(request: Request) {
   }
 
   const body = await request.json();
-  const { workflowId, userId, input } = body;
+  const { workflowId, userId, input, dedupeKey } = body;
 
   // Validate required fields
   if (!(workflowId && userId)) {
@@ -25,16 +50,53 @@ export async function POST(request: Request) {
     );
   }
 
-  const [execution] = await db
-    .insert(workflowExecutions)
-    .values({
-      workflowId,
-      userId,
-      status: "running",
-      input: input || {},
-    })
-    .returning({ id: workflowExecutions.id });
-
-  return NextResponse.json({ executionId: execution.id }, { status: 201 });
+  const workflow = await db.query.workflows.findFirst({
+    where: eq(workflows.id, workflowId),
+    columns: { id: true, nodes: true, concurrencyPolicy: true },
+  });
+  if (!workflow) {
+    return NextResponse.json({ error: "Workflow not found" }, { status: 404 });
+  }
+
+  if (isFilteredOutEvent(workflow.nodes, input || {})) {
+    return NextResponse.json(
+      { error: EVENT_FILTERED_OUT_ERROR, skipped: true },
+      { status: 409 }
+    );
+  }
+
+  // A trigger delivered twice (e.g. replayed after a worker restart) is
+  // rejected; the key is the one sent by the worker or derived from the log.
+  // Skipped triggers are reported to the worker instead of creating a run
+  const triggered = await createTriggeredExecution(
+    db,
+    workflow,
+    { providedKey: dedupeKey, input: input || {} },
+    { userId, status: "running", input: input || {} }
+  );
+  if (triggered.created) {
+    return NextResponse.json(
+      { executionId: triggered.executionId },
+      { status: 201 }
+    );
+  }
+  if (triggered.duplicate) {
+    return NextResponse.json(
+      {
+        error: DUPLICATE_TRIGGER_ERROR,
+        duplicate: true,
+        executionId: triggered.execution.id,
+      },
+      { status: 409 }
+    );
+  }
+  return NextResponse.json(
+    {
+      error: triggered.error,
+      skipped: true,
+      activeExecutionIds: triggered.activeExecutionIds,
+    },
+    { status: 409 }
+  );
 }
 // end keeperhub code //
@@ -3,6 +3,7 @@ import { NextResponse } from "next/server";
 import { start } from "workflow/api";
 // start custom keeperhub code //
 import { authenticateApiKey } from "@/keeperhub/lib/api-key-auth";
+import { createTriggeredExecution } from "@/keeperhub/lib/execution-trigger";
 import { authenticateInternalService } from "@/keeperhub/lib/internal-service-auth";
 import {
   getMetricsCollector,
@@ -10,6 +11,16 @@ import {
   MetricNames,
 } from "@/keeperhub/lib/metrics";
 import { getOrgContext } from "@/keeperhub/lib/middleware/org-context";
+import {
+  formatInvalidDedupeKeyError,
+  IDEMPOTENCY_KEY_HEADER,
+  normalizeDedupeKey,
+} from "@/keeperhub/lib/trigger-dedupe";
+import {
+  formatMissingVariablesError,
+  getMissingVariables,
+  type WorkflowVariable,
+} from "@/keeperhub/lib/workflow-variables";
 // end keeperhub code //
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
@@ -23,7 +34,12 @@ async function executeWorkflowBackground(
   workflowId: string,
   nodes: WorkflowNode[],
   edges: WorkflowEdge[],
-  input: Record<string, unknown>
+  input: Record<string, unknown>,
+  // start custom keeperhub code //
+  dryRun = false,
+  variables: WorkflowVariable[] = [],
+  concurrencyPolicy?: string
+  // end keeperhub code //
 ) {
   try {
     console.log("[Workflow Execute] Starting execution:", executionId);
@@ -46,6 +62,11 @@ async function executeWorkflowBackground(
         triggerInput: input,
         executionId,
         workflowId,
+        // start custom keeperhub code //
+        dryRun,
+        variables,
+        concurrencyPolicy,
+        // end keeperhub code //
       },
     ]);
 
@@ -202,14 +223,84 @@ export async function POST(
       );
     }
 
+    // start custom keeperhub code //
+    // Internal callers may have created the execution record already; the
+    // executor fails those runs with the same message instead
+    const missingVariables = getMissingVariables(workflow.variables);
+    if (!isInternalExecution && missingVariables.length > 0) {
+      return NextResponse.json(
+        {
+          error: formatMissingVariablesError(missingVariables),
+          missingVariables,
+        },
+        { status: 400 }
+      );
+    }
+    // end keeperhub code //
+
     // Parse request body
     const body = await request.json().catch(() => ({}));
     const input = body.input || {};
+    // start custom keeperhub code //
+    // Dry run: simulate writes and render notifications without sending
+    const dryRun = body.dryRun === true;
+    // end keeperhub code //
 
     // Check if executionId was provided (for scheduled executions)
     // This allows the executor to pre-create the execution record
     let executionId = body.executionId;
 
+    // start custom keeperhub code //
+    // Records created by an internal caller were de-duplicated and had the
+    // workflow's concurrency policy applied there; dry runs never block,
+    // cancel or de-duplicate real runs
+    const precreated =
+      executionId &&
+      (await db.query.workflowExecutions.findFirst({
+        where: eq(workflowExecutions.id, executionId),
+      }));
+    // Otherwise the record is created here, in one transaction with the
+    // duplicate check and the policy, and picked up as existing below
+    if (!(precreated || dryRun)) {
+      const providedKey = request.headers.get(IDEMPOTENCY_KEY_HEADER);
+      if (providedKey !== null && !normalizeDedupeKey(providedKey)) {
+        return NextResponse.json(
+          { error: formatInvalidDedupeKeyError(IDEMPOTENCY_KEY_HEADER) },
+          { status: 400 }
+        );
+      }
+      const triggered = await createTriggeredExecution(
+        db,
+        workflow,
+        {
+          providedKey,
+          // Keys are derived from the input of triggers fired by a service,
+          // never from a manual run's sample input
+          input: isInternalExecution ? input : undefined,
+        },
+        { id: executionId, userId, status: "running", input, dryRun }
+      );
+      if (!triggered.created && triggered.duplicate) {
+        return NextResponse.json({
+          executionId: triggered.execution.id,
+          status: triggered.execution.status,
+          duplicate: true,
+        });
+      }
+      if (!triggered.created) {
+        return NextResponse.json(
+          {
+            error: triggered.error,
+            skipped: true,
+            activeExecutionIds: triggered.activeExecutionIds,
+          },
+          { status: 409 }
+        );
+      }
+      executionId = triggered.executionId;
+    }
+    // end keeperhub code //
+
     if (executionId) {
       // Verify execution exists and is in running state
       const existingExecution = await db.query.workflowExecutions.findFirst({
@@ -219,6 +310,15 @@ export async function POST(
       if (existingExecution) {
         // Use existing execution
         console.log("[API] Using existing execution:", executionId);
+        // start custom keeperhub code //
+        // A record created by an internal caller is marked by the run it gets
+        if (existingExecution.dryRun !== dryRun) {
+          await db
+            .update(workflowExecutions)
+            .set({ dryRun })
+            .where(eq(workflowExecutions.id, executionId));
+        }
+        // end keeperhub code //
       } else {
         // Create new execution with provided ID
         await db.insert(workflowExecutions).values({
@@ -227,6 +327,9 @@ export async function POST(
           userId,
           status: "running",
           input,
+          // start custom keeperhub code //
+          dryRun,
+          // end keeperhub code //
         });
         console.log("[API] Created execution with provided ID:", executionId);
       }
@@ -239,6 +342,9 @@ export async function POST(
           userId,
           status: "running",
           input,
+          // start custom keeperhub code //
+          dryRun,
+          // end keeperhub code //
         })
         .returning();
 
@@ -262,13 +368,21 @@ export async function POST(
       workflowId,
       workflow.nodes as WorkflowNode[],
       workflow.edges as WorkflowEdge[],
-      input
+      input,
+      // start custom keeperhub code //
+      dryRun,
+      workflow.variables,
+      workflow.concurrencyPolicy
+      // end keeperhub code //
     );
 
     // Return immediately with the execution ID
     return NextResponse.json({
       executionId,
       status: "running",
+      // start custom keeperhub code //
+      dryRun,
+      // end keeperhub code //
     });
   } catch (error) {
     console.error("Failed to start workflow execution:", error);
@@ -61,7 +61,7 @@ function remapTemplateRefsInConfig(
   return result;
 }
 
-/** Duplicate nodes with new IDs, strip integration IDs, and remap template refs in config */
+/** Duplicate nodes with new IDs, strip integration IDs and webhook paths, and remap template refs in config */
 function duplicateNodes(
   oldNodes: WorkflowNodeLike[],
   idMap: Map<string, string>
@@ -72,7 +72,12 @@ function duplicateNodes(
     if (newNode.data) {
       const data = { ...newNode.data };
       if (data.config) {
-        const { integrationId: _, ...configWithoutIntegration } = data.config;
+        // A webhook path is unique within the organization, so copies drop it
+        const {
+          integrationId: _,
+          webhookPath: _webhookPath,
+          ...configWithoutIntegration
+        } = data.config;
         data.config = remapTemplateRefsInConfig(
           configWithoutIntegration,
           idMap
@@ -217,6 +222,8 @@ export async function POST(
         // start custom keeperhub code //
         organizationId,
         isAnonymous,
+        // Required variables a template left blank are for the copier to fill in
+        variables: sourceWorkflow.variables,
         // end keeperhub code //
         visibility: "private", // Duplicated workflows are always private
       })
@@ -1,4 +1,4 @@
-import { desc, eq } from "drizzle-orm";
+import { desc, eq, inArray } from "drizzle-orm";
 import { NextResponse } from "next/server";
 // start custom keeperhub code //
 import { ErrorCategory, logSystemError } from "@/keeperhub/lib/logging";
@@ -57,7 +57,45 @@ export async function GET(
       limit: 50,
     });
 
-    return NextResponse.json(executions);
+    // start custom keeperhub code //
+    // Attach sub-workflow runs started by these executions so the runs panel
+    // can show them nested under their parent run
+    const childExecutions =
+      executions.length > 0
+        ? await db
+            .select({
+              id: workflowExecutions.id,
+              workflowId: workflowExecutions.workflowId,
+              workflowName: workflows.name,
+              parentExecutionId: workflowExecutions.parentExecutionId,
+              status: workflowExecutions.status,
+              startedAt: workflowExecutions.startedAt,
+              duration: workflowExecutions.duration,
+              error: workflowExecutions.error,
+            })
+            .from(workflowExecutions)
+            .innerJoin(
+              workflows,
+              eq(workflowExecutions.workflowId, workflows.id)
+            )
+            .where(
+              inArray(
+                workflowExecutions.parentExecutionId,
+                executions.map((execution) => execution.id)
+              )
+            )
+            .orderBy(workflowExecutions.startedAt)
+        : [];
+
+    return NextResponse.json(
+      executions.map((execution) => ({
+        ...execution,
+        childExecutions: childExecutions.filter(
+          (child) => child.parentExecutionId === execution.id
+        ),
+      }))
+    );
+    // end keeperhub code //
   } catch (error) {
     logSystemError(ErrorCategory.DATABASE, "Failed to get executions", error, {
       endpoint: "/api/workflows/[workflowId]/executions",
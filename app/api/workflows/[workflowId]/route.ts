@@ -2,8 +2,15 @@ import { eq } from "drizzle-orm";
 import { NextResponse } from "next/server";
 // start custom keeperhub code //
 import { authenticateApiKey } from "@/keeperhub/lib/api-key-auth";
+import { isConcurrencyPolicy } from "@/keeperhub/lib/concurrency-policy";
 import { ErrorCategory, logSystemError } from "@/keeperhub/lib/logging";
 import { getOrgContext } from "@/keeperhub/lib/middleware/org-context";
+import { checkTemplateReferences } from "@/keeperhub/lib/template-type-check";
+import {
+  checkWebhookPath,
+  syncWebhookPath,
+} from "@/keeperhub/lib/webhook-paths";
+import { validateWorkflowVariables } from "@/keeperhub/lib/workflow-variables";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { validateWorkflowIntegrations } from "@/lib/db/integrations";
@@ -207,6 +214,8 @@ function buildUpdateData(
     "enabled", // keeperhub custom field //
     "projectId", // keeperhub custom field //
     "tagId", // keeperhub custom field //
+    "variables", // keeperhub custom field //
+    "concurrencyPolicy", // keeperhub custom field //
   ];
   for (const field of fields) {
     if (body[field] !== undefined) {
@@ -256,6 +265,51 @@ async function validateWorkflowAccess(
 }
 
 // start custom keeperhub code //
+type WorkflowUpdateResult =
+  | { workflow: typeof workflows.$inferSelect | undefined }
+  | { error: string; status: number };
+
+/**
+ * Save the update and claim the webhook path of its trigger in one
+ * transaction, so a path another save claimed first is answered with a 409
+ * and leaves the workflow unchanged.
+ */
+async function updateWorkflowWithWebhookPath(
+  workflowId: string,
+  organizationId: string | null,
+  body: Record<string, unknown>
+): Promise<WorkflowUpdateResult> {
+  return await db.transaction(async (tx) => {
+    if (Array.isArray(body.nodes)) {
+      const pathCheck = await checkWebhookPath(
+        tx,
+        workflowId,
+        organizationId,
+        body.nodes
+      );
+      if ("error" in pathCheck) {
+        return pathCheck;
+      }
+    }
+
+    const [workflow] = await tx
+      .update(workflows)
+      .set(buildUpdateData(body))
+      .where(eq(workflows.id, workflowId))
+      .returning();
+
+    if (workflow && Array.isArray(body.nodes)) {
+      await syncWebhookPath(
+        tx,
+        workflowId,
+        workflow.organizationId,
+        body.nodes
+      );
+    }
+    return { workflow };
+  });
+}
+
 async function handlePostUpdateSideEffects(
   workflowId: string,
   body: Record<string, unknown>
@@ -334,13 +388,44 @@ export async function PATCH(
       );
     }
 
-    const updateData = buildUpdateData(body);
+    // start custom keeperhub code //
+    if (body.variables !== undefined) {
+      const variablesValidation = validateWorkflowVariables(body.variables);
+      if (!variablesValidation.valid) {
+        return NextResponse.json(
+          { error: variablesValidation.error },
+          { status: 400 }
+        );
+      }
+      body.variables = variablesValidation.variables;
+    }
+
+    if (
+      body.concurrencyPolicy !== undefined &&
+      !isConcurrencyPolicy(body.concurrencyPolicy)
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            "Invalid concurrency policy. Must be 'allow', 'skip', 'queue' or 'cancel-previous'",
+        },
+        { status: 400 }
+      );
+    }
 
-    const [updatedWorkflow] = await db
-      .update(workflows)
-      .set(updateData)
-      .where(eq(workflows.id, workflowId))
-      .returning();
+    const updated = await updateWorkflowWithWebhookPath(
+      workflowId,
+      existingWorkflow.organizationId,
+      body
+    );
+    if ("error" in updated) {
+      return NextResponse.json(
+        { error: updated.error },
+        { status: updated.status }
+      );
+    }
+    const updatedWorkflow = updated.workflow;
+    // end keeperhub code //
 
     if (!updatedWorkflow) {
       return NextResponse.json(
@@ -351,6 +436,10 @@ export async function PATCH(
 
     // start custom keeperhub code //
     await handlePostUpdateSideEffects(workflowId, body);
+
+    // Invalid template references do not block the save; they are returned
+    // so API and MCP clients see what the editor flags
+    const graphChanged = Array.isArray(body.nodes) || Array.isArray(body.edges);
     // end keeperhub code //
 
     return NextResponse.json({
@@ -358,6 +447,14 @@ export async function PATCH(
       createdAt: updatedWorkflow.createdAt.toISOString(),
       updatedAt: updatedWorkflow.updatedAt.toISOString(),
       isOwner: true,
+      // start custom keeperhub code //
+      ...(graphChanged && {
+        referenceIssues: checkTemplateReferences(
+          updatedWorkflow.nodes,
+          updatedWorkflow.edges
+        ),
+      }),
+      // end keeperhub code //
     });
   } catch (error) {
     logSystemError(ErrorCategory.DATABASE, "Failed to update workflow", error, {
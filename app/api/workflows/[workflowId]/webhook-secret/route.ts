@@ -0,0 +1,5 @@
+export {
+  DELETE,
+  GET,
+  POST,
+} from "@/keeperhub/api/workflows/[workflowId]/webhook-secret/route";
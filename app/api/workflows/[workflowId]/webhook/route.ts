@@ -9,7 +9,39 @@ import {
   MetricNames,
 } from "@/keeperhub/lib/metrics";
 // start custom keeperhub code //
+import { createTriggeredExecution } from "@/keeperhub/lib/execution-trigger";
 import { recordWebhookMetrics } from "@/keeperhub/lib/metrics/instrumentation/api";
+import {
+  getWebhookPayloadSchema,
+  isWebhookPayloadValidationEnabled,
+  validatePayload,
+} from "@/keeperhub/lib/payload-schema";
+import {
+  formatInvalidDedupeKeyError,
+  getDedupeHeader,
+  normalizeDedupeKey,
+} from "@/keeperhub/lib/trigger-dedupe";
+import {
+  buildWebhookTriggerInput,
+  getWebhookAllowedHeaders,
+  getWebhookMethods,
+  getWebhookPayload,
+  isWebhookMethodAllowed,
+} from "@/keeperhub/lib/webhook-endpoint";
+import { verifyWebhookSignature } from "@/keeperhub/lib/webhook-hmac";
+import {
+  buildPendingResponse,
+  buildWebhookResponse,
+  getWebhookResponseSettings,
+  type WebhookResponse,
+  type WebhookResponseSettings,
+} from "@/keeperhub/lib/webhook-response";
+import { getActiveWebhookSecrets } from "@/keeperhub/lib/webhook-secrets";
+import {
+  getWebhookAuthMode,
+  getWebhookSignatureSettings,
+} from "@/keeperhub/lib/webhook-signature";
+import type { WorkflowVariable } from "@/keeperhub/lib/workflow-variables";
 import { db } from "@/lib/db";
 import { validateWorkflowIntegrations } from "@/lib/db/integrations";
 import { apiKeys, workflowExecutions, workflows } from "@/lib/db/schema";
@@ -72,9 +104,50 @@ async function validateApiKey(
   return { valid: true };
 }
 
+// start custom keeperhub code //
+// Validate the HMAC signature of a request to a trigger set to signed requests
+async function validateSignature(
+  workflowId: string,
+  request: Request,
+  rawBody: string,
+  triggerConfig: Record<string, unknown> | undefined
+): Promise<{ valid: boolean; error?: string; statusCode?: number }> {
+  const secrets = await getActiveWebhookSecrets(workflowId);
+  if (secrets.length === 0) {
+    return {
+      valid: false,
+      error: "This workflow has no webhook signing secret",
+      statusCode: 401,
+    };
+  }
+  const verification = verifyWebhookSignature({
+    rawBody,
+    method: request.method,
+    search: new URL(request.url).search,
+    headers: request.headers,
+    settings: getWebhookSignatureSettings(triggerConfig),
+    secrets,
+  });
+  return verification.valid
+    ? { valid: true }
+    : { valid: false, error: verification.error, statusCode: 401 };
+}
+
+function parseWebhookBody(rawBody: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(rawBody);
+    return typeof parsed === "object" && parsed !== null
+      ? (parsed as Record<string, unknown>)
+      : {};
+  } catch {
+    return {};
+  }
+}
+// end keeperhub code //
+
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, OPTIONS", // keeperhub custom field //
   "Access-Control-Allow-Headers": "Content-Type, Authorization",
 };
 
@@ -83,7 +156,11 @@ async function executeWorkflowBackground(
   workflowId: string,
   nodes: WorkflowNode[],
   edges: WorkflowEdge[],
-  input: Record<string, unknown>
+  input: Record<string, unknown>,
+  // start custom keeperhub code //
+  variables: WorkflowVariable[] = [],
+  concurrencyPolicy?: string
+  // end keeperhub code //
 ) {
   try {
     console.log("[Webhook] Starting execution:", executionId);
@@ -102,6 +179,10 @@ async function executeWorkflowBackground(
         triggerInput: input,
         executionId,
         workflowId,
+        // start custom keeperhub code //
+        variables,
+        concurrencyPolicy,
+        // end keeperhub code //
       },
     ]);
 
@@ -112,6 +193,7 @@ async function executeWorkflowBackground(
       .update(workflowExecutions)
       .set({ runId: run.runId })
       .where(eq(workflowExecutions.id, executionId));
+    return run;
     // end keeperhub code //
   } catch (error) {
     console.error("[Webhook] Error during execution:", error);
@@ -128,12 +210,83 @@ async function executeWorkflowBackground(
         completedAt: new Date(),
       })
       .where(eq(workflowExecutions.id, executionId));
+    return; // keeperhub custom field //
   }
 }
 
-export function OPTIONS() {
-  return NextResponse.json({}, { headers: corsHeaders });
+// start custom keeperhub code //
+type StartedRun = Awaited<ReturnType<typeof executeWorkflowBackground>>;
+
+// Wait for a run up to the trigger's max wait and build its response
+async function waitForWebhookResponse(
+  run: StartedRun,
+  executionId: string,
+  settings: WebhookResponseSettings
+): Promise<WebhookResponse> {
+  if (!run) {
+    return buildWebhookResponse(settings, executionId, {
+      success: false,
+      results: {},
+      error: "Failed to start workflow execution",
+    });
+  }
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<undefined>((resolve) => {
+    timeoutId = setTimeout(
+      () => resolve(undefined),
+      settings.maxWaitSeconds * 1000
+    );
+  });
+  try {
+    const result = await Promise.race([run.returnValue, timeout]);
+    return result
+      ? buildWebhookResponse(settings, executionId, result)
+      : buildPendingResponse(executionId);
+  } catch (error) {
+    return buildWebhookResponse(settings, executionId, {
+      success: false,
+      results: {},
+      error: error instanceof Error ? error.message : "Workflow failed",
+    });
+  } finally {
+    clearTimeout(timeoutId);
+  }
 }
+// end keeperhub code //
+
+// start custom keeperhub code //
+// Preflight requests are answered with the request headers the trigger reads
+export async function OPTIONS(
+  _request: Request,
+  context: { params: Promise<{ workflowId: string }> }
+) {
+  const { workflowId } = await context.params;
+  const workflow = await db.query.workflows.findFirst({
+    where: eq(workflows.id, workflowId),
+    columns: { nodes: true },
+  });
+  const triggerNode = (workflow?.nodes as WorkflowNode[] | undefined)?.find(
+    (node) => node.data.type === "trigger"
+  );
+  return NextResponse.json(
+    {},
+    {
+      headers: {
+        ...corsHeaders,
+        "Access-Control-Allow-Headers": getWebhookAllowedHeaders(
+          triggerNode?.data.config
+        ).join(", "),
+      },
+    }
+  );
+}
+// end keeperhub code //
+
+// start custom keeperhub code //
+// Triggers may also accept GET (e.g. monitoring pings) and PUT; the method is
+// checked against the trigger's config once the workflow is loaded
+export { POST as GET, POST as PUT };
+// end keeperhub code //
 
 export async function POST(
   request: Request,
@@ -166,9 +319,28 @@ export async function POST(
       );
     }
 
+    // start custom keeperhub code //
+    const triggerNode = (workflow.nodes as WorkflowNode[]).find(
+      (node) => node.data.type === "trigger"
+    );
+    // Signatures are computed over the body exactly as sent
+    const rawBody = await request.text();
+    // end keeperhub code //
+
     // Validate API key - must belong to the workflow owner
+    // start custom keeperhub code //
+    // (or the HMAC signature, when the trigger expects signed requests)
     const authHeader = request.headers.get("Authorization");
-    const apiKeyValidation = await validateApiKey(authHeader, workflow.userId);
+    const apiKeyValidation =
+      getWebhookAuthMode(triggerNode?.data.config) === "hmac"
+        ? await validateSignature(
+            workflowId,
+            request,
+            rawBody,
+            triggerNode?.data.config
+          )
+        : await validateApiKey(authHeader, workflow.userId);
+    // end keeperhub code //
 
     if (!apiKeyValidation.valid) {
       const statusCode = apiKeyValidation.statusCode || 401;
@@ -187,10 +359,6 @@ export async function POST(
     }
 
     // Verify this is a webhook-triggered workflow
-    const triggerNode = (workflow.nodes as WorkflowNode[]).find(
-      (node) => node.data.type === "trigger"
-    );
-
     if (!triggerNode || triggerNode.data.config?.triggerType !== "Webhook") {
       // start custom keeperhub code //
       recordWebhookMetrics({
@@ -206,6 +374,24 @@ export async function POST(
       );
     }
 
+    // start custom keeperhub code //
+    // GET and PUT are accepted only by triggers that allow them
+    if (!isWebhookMethodAllowed(triggerNode.data.config, request.method)) {
+      const allowed = getWebhookMethods(triggerNode.data.config).join(", ");
+      const error = `This webhook does not accept ${request.method} requests`;
+      recordWebhookMetrics({
+        workflowId,
+        durationMs: timer(),
+        statusCode: 405,
+        error,
+      });
+      return NextResponse.json(
+        { error },
+        { status: 405, headers: { ...corsHeaders, Allow: allowed } }
+      );
+    }
+    // end keeperhub code //
+
     // Validate that all integrationIds in workflow nodes belong to the workflow owner
     const validation = await validateWorkflowIntegrations(
       workflow.nodes as WorkflowNode[],
@@ -231,18 +417,101 @@ export async function POST(
     }
 
     // Parse request body
-    const body = await request.json().catch(() => ({}));
+    // start custom keeperhub code //
+    // A GET request's query parameters stand in for its body
+    const requestParts = {
+      method: request.method,
+      body: parseWebhookBody(rawBody),
+      searchParams: new URL(request.url).searchParams,
+      headers: request.headers,
+    };
+    const body = buildWebhookTriggerInput(requestParts);
+
+    // Payloads must match the trigger's declared schema when it opts in
+    const violations = isWebhookPayloadValidationEnabled(
+      triggerNode.data.config
+    )
+      ? validatePayload(
+          getWebhookPayloadSchema(triggerNode.data.config),
+          getWebhookPayload(requestParts)
+        )
+      : [];
+    if (violations.length > 0) {
+      const error = "Request body does not match the webhook schema";
+      recordWebhookMetrics({
+        workflowId,
+        durationMs: timer(),
+        statusCode: 400,
+        error,
+      });
+      return NextResponse.json(
+        { error, violations },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+
+    // A repeated delivery returns the execution the first one started
+    const dedupeHeader = getDedupeHeader(triggerNode.data.config);
+    const providedKey = request.headers.get(dedupeHeader);
+    if (providedKey !== null && !normalizeDedupeKey(providedKey)) {
+      const error = formatInvalidDedupeKeyError(dedupeHeader);
+      recordWebhookMetrics({
+        workflowId,
+        durationMs: timer(),
+        statusCode: 400,
+        error,
+      });
+      return NextResponse.json(
+        { error },
+        { status: 400, headers: corsHeaders }
+      );
+    }
+    // end keeperhub code //
 
     // Create execution record
-    const [execution] = await db
-      .insert(workflowExecutions)
-      .values({
+    // start custom keeperhub code //
+    // Created in one transaction with the duplicate check and the workflow's
+    // concurrency policy, so concurrent deliveries cannot both start a run
+    const triggered = await createTriggeredExecution(
+      db,
+      workflow,
+      { providedKey },
+      { userId: workflow.userId, status: "running", input: body }
+    );
+    if (!triggered.created && triggered.duplicate) {
+      recordWebhookMetrics({
         workflowId,
-        userId: workflow.userId,
-        status: "running",
-        input: body,
-      })
-      .returning();
+        executionId: triggered.execution.id,
+        durationMs: timer(),
+        statusCode: 200,
+      });
+      return NextResponse.json(
+        {
+          executionId: triggered.execution.id,
+          status: triggered.execution.status,
+          duplicate: true,
+        },
+        { headers: corsHeaders }
+      );
+    }
+    if (!triggered.created) {
+      recordWebhookMetrics({
+        workflowId,
+        durationMs: timer(),
+        statusCode: 409,
+        error: triggered.error,
+      });
+      return NextResponse.json(
+        {
+          error: triggered.error,
+          skipped: true,
+          activeExecutionIds: triggered.activeExecutionIds,
+        },
+        { status: 409, headers: corsHeaders }
+      );
+    }
+    const execution = { id: triggered.executionId };
+    // end keeperhub code //
 
     console.log("[Webhook] Created execution:", execution.id);
 
@@ -256,15 +525,49 @@ export async function POST(
     // end keeperhub code //
 
     // Execute the workflow in the background (don't await)
-    executeWorkflowBackground(
+    // keeperhub custom field // (awaited by triggers that respond with output)
+    const started = executeWorkflowBackground(
       execution.id,
       workflowId,
       workflow.nodes as WorkflowNode[],
       workflow.edges as WorkflowEdge[],
-      body
+      body,
+      // start custom keeperhub code //
+      workflow.variables,
+      workflow.concurrencyPolicy
+      // end keeperhub code //
     );
 
     // start custom keeperhub code //
+    // Triggers that respond with a node's output hold the request open
+    const responseSettings = getWebhookResponseSettings(
+      triggerNode.data.config
+    );
+    if (responseSettings) {
+      const response = await waitForWebhookResponse(
+        await started,
+        execution.id,
+        responseSettings
+      );
+      recordWebhookMetrics({
+        workflowId,
+        executionId: execution.id,
+        durationMs: timer(),
+        statusCode: response.status,
+      });
+      // Browsers calling the endpoint may read the configured headers
+      return new NextResponse(response.body, {
+        status: response.status,
+        headers: {
+          ...corsHeaders,
+          "Access-Control-Expose-Headers": Object.keys(response.headers).join(
+            ", "
+          ),
+          ...response.headers,
+        },
+      });
+    }
+
     recordWebhookMetrics({
       workflowId,
       executionId: execution.id,
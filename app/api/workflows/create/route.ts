@@ -5,6 +5,11 @@ import { NextResponse } from "next/server";
 import { authenticateApiKey } from "@/keeperhub/lib/api-key-auth";
 import { ErrorCategory, logSystemError } from "@/keeperhub/lib/logging";
 import { getOrgContext } from "@/keeperhub/lib/middleware/org-context";
+import {
+  checkWebhookPath,
+  syncWebhookPath,
+} from "@/keeperhub/lib/webhook-paths";
+import { validateWorkflowVariables } from "@/keeperhub/lib/workflow-variables";
 import { auth } from "@/lib/auth";
 import { db } from "@/lib/db";
 import { validateWorkflowIntegrations } from "@/lib/db/integrations";
@@ -157,6 +162,16 @@ export async function POST(request: Request) {
       );
     }
 
+    // start custom keeperhub code //
+    const variablesValidation = validateWorkflowVariables(body.variables ?? []);
+    if (!variablesValidation.valid) {
+      return NextResponse.json(
+        { error: variablesValidation.error },
+        { status: 400 }
+      );
+    }
+    // end keeperhub code //
+
     // start custom keeperhub code //
     // Ensure there are always default nodes (trigger + action) if nodes array is empty
     let nodes = body.nodes;
@@ -180,22 +195,52 @@ export async function POST(request: Request) {
     // Generate workflow ID first
     const workflowId = generateId();
 
-    const [newWorkflow] = await db
-      .insert(workflows)
-      .values({
-        id: workflowId,
-        name: workflowName,
-        description: body.description,
-        nodes,
-        edges,
-        userId,
-        // start custom keeperhub code //
+    // start custom keeperhub code //
+    // The webhook path is checked and claimed in the transaction that inserts
+    // the workflow, so a path another save claimed first is answered with a
+    // 409 and nothing is created
+    const created = await db.transaction(async (tx) => {
+      const pathCheck = await checkWebhookPath(
+        tx,
+        workflowId,
         organizationId,
-        isAnonymous,
-        projectId: body.projectId || null,
-        // end keeperhub code //
-      })
-      .returning();
+        nodes
+      );
+      if ("error" in pathCheck) {
+        return pathCheck;
+      }
+      // end keeperhub code //
+
+      const [insertedWorkflow] = await tx
+        .insert(workflows)
+        .values({
+          id: workflowId,
+          name: workflowName,
+          description: body.description,
+          nodes,
+          edges,
+          userId,
+          // start custom keeperhub code //
+          organizationId,
+          isAnonymous,
+          projectId: body.projectId || null,
+          variables: variablesValidation.variables,
+          // end keeperhub code //
+        })
+        .returning();
+
+      // start custom keeperhub code //
+      await syncWebhookPath(tx, workflowId, organizationId, nodes);
+      return { workflow: insertedWorkflow };
+    });
+    if ("error" in created) {
+      return NextResponse.json(
+        { error: created.error },
+        { status: created.status }
+      );
+    }
+    const newWorkflow = created.workflow;
+    // end keeperhub code //
 
     return NextResponse.json({
       ...newWorkflow,
@@ -1,6 +1,7 @@
 // start custom keeperhub code //
 import { eq } from "drizzle-orm";
 import { NextResponse } from "next/server";
+import { buildEventLogFilters } from "@/keeperhub/lib/event-filters";
 import { ErrorCategory, logSystemError } from "@/keeperhub/lib/logging";
 import { db } from "@/lib/db";
 import { type Chain, chains, workflows } from "@/lib/db/schema";
@@ -11,6 +12,10 @@ import { WorkflowTriggerEnum } from "@/lib/workflow-store";
  * Internal endpoint for workers to fetch active Event-type workflows
  * Returns only enabled workflows with Event trigger type
  * Requires X-Internal-Token header for authentication
+ *
+ * Each workflow carries `logFilters`: one log subscription per watched event,
+ * over all watched addresses, with indexed-argument filters already in the
+ * topics (see keeperhub/lib/event-filters.ts)
  */
 export async function GET(request: Request) {
   try {
@@ -92,6 +97,7 @@ export async function GET(request: Request) {
             organizationId: workflow.organizationId,
             enabled: workflow.enabled,
             nodes: [triggerNode],
+            logFilters: buildEventLogFilters(triggerNode.data?.config ?? {}),
           };
         } catch {
           // If parsing fails, exclude this workflow
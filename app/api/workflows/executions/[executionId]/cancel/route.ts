@@ -0,0 +1 @@
+export { POST } from "@/keeperhub/api/workflows/executions/[executionId]/cancel/route";
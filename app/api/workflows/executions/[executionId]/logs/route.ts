@@ -59,11 +59,16 @@ export async function GET(
 
     // Apply an additional layer of redaction to ensure no sensitive data is exposed
     // Even though data should already be redacted when stored, this provides defense in depth
-    const redactedLogs = logs.map((log) => ({
-      ...log,
-      input: redactSensitiveData(log.input),
-      output: redactSensitiveData(log.output),
-    }));
+    // start custom keeperhub code //
+    // The unredacted output kept for resumes never leaves the server
+    const redactedLogs = logs.map(
+      ({ replayOutput: _replayOutput, ...log }) => ({
+        ...log,
+        input: redactSensitiveData(log.input),
+        output: redactSensitiveData(log.output),
+      })
+    );
+    // end keeperhub code //
 
     return NextResponse.json({
       execution,
@@ -1,4 +1,4 @@
-import { eq } from "drizzle-orm";
+import { asc, eq } from "drizzle-orm";
 import { NextResponse } from "next/server";
 // start custom keeperhub code //
 import { ErrorCategory, logSystemError } from "@/keeperhub/lib/logging";
@@ -84,12 +84,19 @@ export async function GET(
     // Get logs for all nodes
     const logs = await db.query.workflowExecutionLogs.findMany({
       where: eq(workflowExecutionLogs.executionId, executionId),
+      // start custom keeperhub code //
+      // Oldest first so a retried node's latest attempt is applied last
+      orderBy: [asc(workflowExecutionLogs.timestamp)],
+      // end keeperhub code //
     });
 
     // Map logs to node statuses
     const nodeStatuses: NodeStatus[] = logs.map((log) => ({
       nodeId: log.nodeId,
-      status: log.status,
+      // start custom keeperhub code //
+      // The canvas has no timeout state; a timed-out node is shown as failed
+      status: log.status === "timeout" ? "error" : log.status,
+      // end keeperhub code //
     }));
 
     // Calculate running count for parallel execution visibility
@@ -112,7 +119,7 @@ export async function GET(
 
     // Build error context (only when failed)
     const errorContext =
-      execution.status === "error"
+      execution.status === "error" || execution.status === "timeout"
         ? {
             failedNodeId: execution.currentNodeId,
             lastSuccessfulNodeId: execution.lastSuccessfulNodeId,
@@ -97,6 +97,7 @@ export async function GET(request: Request): Promise<NextResponse> {
         tagId: workflows.tagId,
         nodes: workflows.nodes,
         edges: workflows.edges,
+        variables: workflows.variables,
         visibility: workflows.visibility,
         enabled: workflows.enabled,
         createdAt: workflows.createdAt,
@@ -0,0 +1,6 @@
+export {
+  GET,
+  OPTIONS,
+  POST,
+  PUT,
+} from "@/keeperhub/api/hooks/[orgSlug]/[...path]/route";
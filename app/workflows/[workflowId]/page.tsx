@@ -11,6 +11,7 @@ import { NodeConfigPanel } from "@/components/workflow/node-config-panel";
 import { useIsMobile } from "@/hooks/use-mobile";
 // start custom keeperhub code //
 import { FeaturedOverlay } from "@/keeperhub/components/overlays/featured-overlay";
+import { getConcurrencyPolicy } from "@/keeperhub/lib/concurrency-policy";
 import {
   getPendingClaim,
   useClaimWorkflow,
@@ -25,12 +26,14 @@ import {
 } from "@/lib/integrations-store";
 import type { IntegrationType } from "@/lib/types/integration";
 import {
+  currentWorkflowConcurrencyPolicyAtom,
   currentWorkflowDescriptionAtom,
   currentWorkflowIdAtom,
   currentWorkflowNameAtom,
   currentWorkflowProjectIdAtom,
   currentWorkflowPublicTagsAtom,
   currentWorkflowTagIdAtom,
+  currentWorkflowVariablesAtom,
   currentWorkflowVisibilityAtom,
   edgesAtom,
   hasSidebarBeenShownAtom,
@@ -150,6 +153,12 @@ const WorkflowEditor = ({ params }: WorkflowPageProps) => {
   );
   const setCurrentWorkflowProjectId = useSetAtom(currentWorkflowProjectIdAtom);
   const setCurrentWorkflowTagId = useSetAtom(currentWorkflowTagIdAtom);
+  const setCurrentWorkflowVariables = useSetAtom(currentWorkflowVariablesAtom); // keeperhub custom field //
+  // start custom keeperhub code //
+  const setCurrentWorkflowConcurrencyPolicy = useSetAtom(
+    currentWorkflowConcurrencyPolicyAtom
+  );
+  // end keeperhub code //
   const updateNodeData = useSetAtom(updateNodeDataAtom);
   const setHasUnsavedChanges = useSetAtom(hasUnsavedChangesAtom);
   const [workflowNotFound, setWorkflowNotFound] = useAtom(workflowNotFoundAtom);
@@ -419,6 +428,12 @@ const WorkflowEditor = ({ params }: WorkflowPageProps) => {
       setIsWorkflowEnabled(workflow.enabled ?? false); // keeperhub custom field //
       setCurrentWorkflowProjectId(workflow.projectId ?? null);
       setCurrentWorkflowTagId(workflow.tagId ?? null);
+      setCurrentWorkflowVariables(workflow.variables ?? []); // keeperhub custom field //
+      // start custom keeperhub code //
+      setCurrentWorkflowConcurrencyPolicy(
+        getConcurrencyPolicy(workflow.concurrencyPolicy)
+      );
+      // end keeperhub code //
       setCurrentWorkflowPublicTags(workflow.publicTags ?? []);
       setHasUnsavedChanges(false);
       setWorkflowNotFound(false);
@@ -457,6 +472,8 @@ const WorkflowEditor = ({ params }: WorkflowPageProps) => {
     setCurrentWorkflowProjectId,
     setCurrentWorkflowPublicTags,
     setCurrentWorkflowTagId,
+    setCurrentWorkflowVariables, // keeperhub custom field //
+    setCurrentWorkflowConcurrencyPolicy, // keeperhub custom field //
     setHasUnsavedChanges,
     setWorkflowNotFound,
     setCurrentWorkflowDescription,
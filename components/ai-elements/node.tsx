@@ -13,6 +13,7 @@ import type { ComponentProps } from "react";
 import { AnimatedBorder } from "@/components/ui/animated-border";
 // start custom keeperhub code //
 import { AddStepButton } from "@/keeperhub/components/workflow/add-step-button";
+import { ERROR_HANDLE } from "@/keeperhub/lib/error-handler-edges";
 // end keeperhub code //
 
 // start custom keeperhub code //
@@ -29,6 +30,8 @@ export type NodeProps = ComponentProps<typeof Card> & {
     source: boolean;
     // start custom keeperhub code //
     sourceHandles?: SourceHandleConfig[];
+    /** Render the "on failure" source handle at the bottom of the node */
+    errorHandle?: boolean;
     // end keeperhub code //
   };
   status?: "idle" | "running" | "success" | "error";
@@ -90,6 +93,19 @@ export const Node = ({ handles, className, status, nodeId, ...props }: NodeProps
         {handles.source && nodeId && <AddStepButton sourceNodeId={nodeId} />}
       </>
     )}
+    {handles.errorHandle && (
+      <>
+        <Handle
+          className="bg-red-500!"
+          id={ERROR_HANDLE}
+          position={Position.Bottom}
+          type="source"
+        />
+        <span className="pointer-events-none absolute bottom-3 left-1/2 -translate-x-1/2 text-[10px] text-muted-foreground">
+          on failure
+        </span>
+      </>
+    )}
     {/* end keeperhub code */}
     {props.children}
   </Card>
@@ -25,6 +25,19 @@ type BrokenReference = {
   }[];
 };
 
+// start custom keeperhub code //
+type InvalidReference = {
+  nodeId: string;
+  nodeLabel: string;
+  invalidReferences: {
+    fieldKey: string;
+    fieldLabel: string;
+    displayText: string;
+    message: string;
+  }[];
+};
+// end keeperhub code //
+
 type MissingRequiredField = {
   nodeId: string;
   nodeLabel: string;
@@ -44,6 +57,9 @@ type WorkflowIssues = {
   brokenReferences: BrokenReference[];
   missingRequiredFields: MissingRequiredField[];
   missingIntegrations: MissingIntegration[];
+  // start custom keeperhub code //
+  invalidReferences: InvalidReference[];
+  // end keeperhub code //
 };
 
 type WorkflowIssuesOverlayProps = OverlayComponentProps<{
@@ -71,11 +87,17 @@ export function WorkflowIssuesOverlay({
 
   const { brokenReferences, missingRequiredFields, missingIntegrations } =
     issues;
+  // start custom keeperhub code //
+  const { invalidReferences } = issues;
+  // end keeperhub code //
 
   const totalIssues =
     brokenReferences.length +
     missingRequiredFields.length +
-    missingIntegrations.length;
+    missingIntegrations.length +
+    // start custom keeperhub code //
+    invalidReferences.length;
+  // end keeperhub code //
 
   const handleGoToStep = (nodeId: string, fieldKey?: string) => {
     // Select the node and set tab (this is handled by onGoToStep)
@@ -213,6 +235,49 @@ export function WorkflowIssuesOverlay({
           </div>
         )}
 
+        {/* start custom keeperhub code */}
+        {/* Invalid References Section */}
+        {invalidReferences.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-medium text-muted-foreground text-xs uppercase tracking-wide">
+              Invalid References
+            </h4>
+            {invalidReferences.map((invalid) => (
+              <div key={invalid.nodeId}>
+                <p className="font-medium text-sm">{invalid.nodeLabel}</p>
+                <div className="mt-1 space-y-0.5">
+                  {invalid.invalidReferences.map((ref, idx) => (
+                    <div
+                      className="flex items-center gap-3 py-0.5 pl-3"
+                      key={`${invalid.nodeId}-${ref.fieldKey}-${idx}`}
+                    >
+                      <div className="min-w-0 flex-1 text-sm">
+                        <p className="text-muted-foreground">
+                          <span className="font-mono">{ref.displayText}</span>
+                          {" in "}
+                          {ref.fieldLabel}
+                        </p>
+                        <p className="text-orange-500 text-xs">{ref.message}</p>
+                      </div>
+                      <Button
+                        className="shrink-0"
+                        onClick={() =>
+                          handleGoToStep(invalid.nodeId, ref.fieldKey)
+                        }
+                        size="sm"
+                        variant="outline"
+                      >
+                        Fix
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {/* end keeperhub code */}
+
         {/* Missing Required Fields Section */}
         {missingRequiredFields.length > 0 && (
           <div className="space-y-2">
@@ -13,6 +13,7 @@ import {
 } from "@/lib/utils/template";
 import {
   currentWorkflowIdAtom,
+  currentWorkflowVariablesAtom,
   edgesAtom,
   executionLogsAtom,
   type ExecutionLogEntry,
@@ -23,18 +24,26 @@ import {
 } from "@/lib/workflow-store";
 import { findActionById } from "@/plugins";
 // start custom keeperhub code //
-import { getReadContractOutputFields } from "@/keeperhub/lib/action-output-fields";
+import { ERROR_OUTPUT_FIELDS, getErrorSources } from "@/keeperhub/lib/error-handler-edges";
+import {
+  getReadContractOutputFields,
+  getSystemActionOutputFields,
+} from "@/keeperhub/lib/action-output-fields";
 import { resolveForEachSyntheticOutput } from "@/keeperhub/lib/for-each-utils";
 import {
-  type ExecutionLogsByNodeId,
   type SchemaField,
+  schemaToFields,
+} from "@/keeperhub/lib/payload-schema";
+import {
+  type ExecutionLogsByNodeId,
   buildExecutionLogsMap,
   getNodeDisplayName,
   isActionType,
   sanitizeNodeId,
-  schemaToFields,
 } from "@/keeperhub/lib/template-helpers";
+import { TEMPLATE_FILTERS } from "@/keeperhub/lib/template-filters";
 import { getTriggerOutputFields } from "@/keeperhub/lib/trigger-output-fields";
+import { VARIABLES_NODE_ID, VARIABLES_NODE_LABEL } from "@/keeperhub/lib/workflow-variables";
 // end custom keeperhub code //
 
 type TemplateAutocompleteProps = {
@@ -44,6 +53,10 @@ type TemplateAutocompleteProps = {
   onClose: () => void;
   currentNodeId?: string;
   filter?: string;
+  // start custom keeperhub code //
+  /** "filters" lists pipe filters (after a "|") instead of node outputs */
+  mode?: "references" | "filters";
+  // end keeperhub code //
 };
 
 
@@ -107,28 +120,9 @@ const getCommonFields = (node: WorkflowNode) => {
     }
   }
 
-  if (actionType === "For Each") {
-    return [
-      {
-        field: "currentItem",
-        description: "Current array element (inside loop body)",
-      },
-      { field: "index", description: "Current iteration index (0-based)" },
-      {
-        field: "totalItems",
-        description: "Total number of items in array",
-      },
-    ];
-  }
-
-  if (actionType === "Collect") {
-    return [
-      {
-        field: "results",
-        description: "Array of outputs from each iteration",
-      },
-      { field: "count", description: "Number of completed iterations" },
-    ];
+  const systemFields = getSystemActionOutputFields(actionType);
+  if (systemFields) {
+    return systemFields;
   }
   // end keeperhub code //
 
@@ -146,8 +140,12 @@ const getCommonFields = (node: WorkflowNode) => {
     const webhookSchema = node.data.config?.webhookSchema as string | undefined;
 
     // start custom keeperhub code //
-    // Use keeperhub trigger output fields function for Event triggers
-    if (triggerType === WorkflowTriggerEnum.EVENT) {
+    // Use keeperhub trigger output fields function for Event triggers, and for
+    // Webhook triggers whose outputs follow the declared payload schema
+    if (
+      triggerType === WorkflowTriggerEnum.EVENT ||
+      triggerType === "Webhook"
+    ) {
       const outputFields = getTriggerOutputFields(
         triggerType,
         node.data.config || {}
@@ -200,6 +198,7 @@ export function TemplateAutocomplete({
   onClose,
   currentNodeId,
   filter = "",
+  mode = "references",
 }: TemplateAutocompleteProps) {
   const [nodes] = useAtom(nodesAtom);
   const [edges] = useAtom(edgesAtom);
@@ -207,6 +206,7 @@ export function TemplateAutocomplete({
   const executionLogs = useAtomValue(executionLogsAtom);
   const currentWorkflowId = useAtomValue(currentWorkflowIdAtom);
   const lastExecutionLogs = useAtomValue(lastExecutionLogsAtom);
+  const workflowVariables = useAtomValue(currentWorkflowVariablesAtom);
   const setLastExecutionLogs = useSetAtom(lastExecutionLogsAtom);
   const currentWorkflowIdRef = useRef<string | null>(null);
   const lastFetchWorkflowIdRef = useRef<string | null>(null);
@@ -323,7 +323,7 @@ export function TemplateAutocomplete({
 
   // Build list of all available options (nodes + their fields)
   const options: Array<{
-    type: "node" | "field";
+    type: "node" | "field" | "filter";
     nodeId: string;
     nodeName: string;
     field?: string;
@@ -331,9 +331,37 @@ export function TemplateAutocomplete({
     template: string;
   }> = [];
 
+  // start custom keeperhub code //
+  // Nodes whose failure path leads here expose their error details instead
+  const errorSourceIds = new Set(
+    currentNodeId ? getErrorSources(currentNodeId, edges) : []
+  );
+  // end keeperhub code //
+
   for (const node of upstreamNodes) {
     const nodeName = getNodeDisplayName(node);
     // start custom keeperhub code //
+    if (errorSourceIds.has(node.id)) {
+      options.push({
+        type: "node",
+        nodeId: node.id,
+        nodeName,
+        template: `{{@${node.id}:${nodeName}}}`,
+      });
+      for (const field of ERROR_OUTPUT_FIELDS) {
+        options.push({
+          type: "field",
+          nodeId: node.id,
+          nodeName,
+          field: field.field,
+          description: field.description,
+          template: `{{@${node.id}:${nodeName}.${field.field}}}`,
+        });
+      }
+      continue;
+    }
+    // end keeperhub code //
+    // start custom keeperhub code //
     // 1) Prefer current execution in runtime; 2) else last execution output; 3) else getCommonFields
     const runtimeOutput = executionLogs[node.id]?.output;
     const hasRuntimeOutput =
@@ -414,7 +442,9 @@ export function TemplateAutocomplete({
       continue;
     }
 
-    if (outputToUse !== null) {
+    // While nodes log only their start; their state and iteration come from
+    // the static output fields
+    if (outputToUse !== null && actionType !== "While") {
       const sanitizedId = sanitizeNodeId(node.id);
       const nodeOutputs: NodeOutputs = {
         [sanitizedId]: {
@@ -483,10 +513,22 @@ export function TemplateAutocomplete({
       template: `{{@${BUILTIN_NODE_ID}:${BUILTIN_NODE_LABEL}.${field.field}}}`,
     });
   }
+
+  // Workflow variables (declared in the workflow properties panel)
+  for (const variable of workflowVariables) {
+    options.push({
+      type: "field",
+      nodeId: VARIABLES_NODE_ID,
+      nodeName: VARIABLES_NODE_LABEL,
+      field: variable.name,
+      description: variable.description ?? variable.type,
+      template: `{{@${VARIABLES_NODE_ID}:${VARIABLES_NODE_LABEL}.${variable.name}}}`,
+    });
+  }
   // end keeperhub code //
 
   // Filter options based on search term
-  const filteredOptions = filter
+  let filteredOptions = filter
     ? options.filter(
         (opt) =>
           opt.nodeName.toLowerCase().includes(filter.toLowerCase()) ||
@@ -494,6 +536,22 @@ export function TemplateAutocomplete({
       )
     : options;
 
+  // start custom keeperhub code //
+  // Pipe filters; selecting one hands its snippet (e.g. "formatUnits:18") to onSelect
+  if (mode === "filters") {
+    filteredOptions = TEMPLATE_FILTERS.filter((templateFilter) =>
+      templateFilter.name.toLowerCase().startsWith(filter.toLowerCase())
+    ).map((templateFilter) => ({
+      type: "filter" as const,
+      nodeId: "filter",
+      nodeName: "",
+      field: templateFilter.name,
+      description: templateFilter.description,
+      template: templateFilter.snippet,
+    }));
+  }
+  // end keeperhub code //
+
   // Reset selection when filter changes
   useEffect(() => {
     setSelectedIndex(0);
@@ -578,9 +636,16 @@ export function TemplateAutocomplete({
           >
             <div className="flex-1">
               <div className="font-medium">
-                {option.type === "node" ? (
-                  option.nodeName
-                ) : (
+                {/* start custom keeperhub code */}
+                {option.type === "filter" && (
+                  <span className="font-mono">
+                    <span className="text-muted-foreground">| </span>
+                    {option.template}
+                  </span>
+                )}
+                {/* end keeperhub code */}
+                {option.type === "node" && option.nodeName}
+                {option.type === "field" && (
                   <>
                     <span className="text-muted-foreground">
                       {option.nodeName}.
@@ -3,6 +3,11 @@
 import { useAtom } from "jotai";
 import { useEffect, useRef, useState } from "react";
 // start custom keeperhub code //
+import {
+  appendTemplateFilter,
+  findTemplateFilterTrigger,
+  getTemplateFilterError,
+} from "@/keeperhub/lib/template-filters";
 import { doesNodeExist, getDisplayTextForTemplate } from "@/keeperhub/lib/template-utils";
 // end keeperhub code //
 import { cn } from "@/lib/utils";
@@ -114,6 +119,13 @@ export function TemplateBadgeInput({
   const [autocompletePosition, setAutocompletePosition] = useState({ top: 0, left: 0 });
   const [autocompleteFilter, setAutocompleteFilter] = useState("");
   const [atSignPosition, setAtSignPosition] = useState<number | null>(null);
+  // start custom keeperhub code //
+  // Set while the menu lists filters for the badge right before a typed "|"
+  const [filterTrigger, setFilterTrigger] = useState<{
+    templateStart: number;
+    template: string;
+  } | null>(null);
+  // end keeperhub code //
   const pendingCursorPosition = useRef<number | null>(null);
 
   // Update internal value when prop changes from outside
@@ -288,7 +300,13 @@ export function TemplateBadgeInput({
       // Create badge for template
       const badge = document.createElement("span");
       const nodeExists = doesNodeExist(fullMatch, nodes);
-      badge.className = nodeExists
+      // start custom keeperhub code //
+      const filterError = getTemplateFilterError(fullMatch);
+      if (filterError) {
+        badge.title = filterError;
+      }
+      // end keeperhub code //
+      badge.className = nodeExists && !filterError
         ? "inline-flex items-center gap-1 rounded bg-blue-500/10 px-1.5 py-0.5 text-blue-600 dark:text-blue-400 font-mono text-xs border border-blue-500/20 mx-0.5"
         : "inline-flex items-center gap-1 rounded bg-red-500/10 px-1.5 py-0.5 text-red-600 dark:text-red-400 font-mono text-xs border border-red-500/20 mx-0.5";
       badge.contentEditable = "false";
@@ -375,6 +393,32 @@ export function TemplateBadgeInput({
     // Count templates in old and new values
     const oldTemplates = (internalValue.match(/\{\{@([^:]+):([^}]+)\}\}/g) || []).length;
     const newTemplates = (newValue.match(/\{\{@([^:]+):([^}]+)\}\}/g) || []).length;
+
+    // start custom keeperhub code //
+    // "|" typed right after a badge opens the filter menu for that badge
+    const trigger =
+      newTemplates === oldTemplates
+        ? findTemplateFilterTrigger(
+            newValue,
+            saveCursorPosition()?.offset ?? newValue.length
+          )
+        : undefined;
+    setFilterTrigger(trigger ?? null);
+    if (trigger) {
+      setInternalValue(newValue);
+      onChange?.(newValue);
+      setAutocompleteFilter(trigger.query);
+      if (contentRef.current) {
+        const inputRect = contentRef.current.getBoundingClientRect();
+        setAutocompletePosition({
+          top: inputRect.bottom + window.scrollY + 4,
+          left: inputRect.left + window.scrollX,
+        });
+      }
+      setShowAutocomplete(true);
+      return;
+    }
+    // end keeperhub code //
     
     if (newTemplates > oldTemplates) {
       // A new template was added, update display to show badge
@@ -523,6 +567,29 @@ export function TemplateBadgeInput({
   };
 
   const handleAutocompleteSelect = (template: string) => {
+    // start custom keeperhub code //
+    // A filter was picked: move it into the badge before the "|"
+    if (contentRef.current && filterTrigger) {
+      const currentText = extractValue();
+      const filteredTemplate = appendTemplateFilter(filterTrigger.template, template);
+      const afterQuery = currentText.slice(
+        filterTrigger.templateStart +
+          filterTrigger.template.length +
+          1 +
+          autocompleteFilter.length
+      );
+      const newText =
+        currentText.slice(0, filterTrigger.templateStart) + filteredTemplate + afterQuery;
+      setInternalValue(newText);
+      onChange?.(newText);
+      shouldUpdateDisplay.current = true;
+      setShowAutocomplete(false);
+      setFilterTrigger(null);
+      pendingCursorPosition.current = filterTrigger.templateStart + filteredTemplate.length;
+      contentRef.current.focus();
+      return;
+    }
+    // end keeperhub code //
     if (!contentRef.current || atSignPosition === null) return;
     
     // Get current text
@@ -618,6 +685,7 @@ export function TemplateBadgeInput({
         currentNodeId={selectedNodeId || undefined}
         filter={autocompleteFilter}
         isOpen={showAutocomplete}
+        mode={filterTrigger ? "filters" : "references"}
         onClose={() => setShowAutocomplete(false)}
         onSelect={handleAutocompleteSelect}
         position={autocompletePosition}
@@ -28,6 +28,15 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { SqlTemplateEditor } from "@/keeperhub/components/ui/sql-template-editor";
+// start custom keeperhub code //
+import { ApprovalFields } from "@/keeperhub/components/workflow/config/approval-fields";
+import { DelayFields } from "@/keeperhub/components/workflow/config/delay-fields";
+import { ExecuteWorkflowFields } from "@/keeperhub/components/workflow/config/execute-workflow-fields";
+import { SwitchFields } from "@/keeperhub/components/workflow/config/switch-fields";
+import { WaitUntilFields } from "@/keeperhub/components/workflow/config/wait-until-fields";
+import { WhileFields } from "@/keeperhub/components/workflow/config/while-fields";
+import { isLoopAction } from "@/keeperhub/lib/while-loop";
+// end keeperhub code //
 // start keeperhub
 import { actionRequiresCredentials } from "@/keeperhub/lib/integration-helpers";
 // end keeperhub
@@ -487,11 +496,17 @@ function SystemActionFields({
   config,
   onUpdateConfig,
   disabled,
+  // start custom keeperhub code //
+  nodeId,
+  // end keeperhub code //
 }: {
   actionType: string;
   config: Record<string, unknown>;
   onUpdateConfig: (key: string, value: string) => void;
   disabled: boolean;
+  // start custom keeperhub code //
+  nodeId?: string;
+  // end keeperhub code //
 }) {
   switch (actionType) {
     case "HTTP Request":
@@ -529,6 +544,69 @@ function SystemActionFields({
       );
     case "Collect":
       return <CollectFields />;
+    case "Switch":
+      return (
+        <SwitchFields
+          config={config}
+          disabled={disabled}
+          nodeId={nodeId}
+          onUpdateConfig={onUpdateConfig}
+        />
+      );
+    case "Delay":
+      return (
+        <DelayFields
+          config={config}
+          disabled={disabled}
+          onUpdateConfig={onUpdateConfig}
+        />
+      );
+    case "Wait Until":
+      return (
+        <WaitUntilFields
+          config={config}
+          disabled={disabled}
+          nodeId={nodeId}
+          onUpdateConfig={onUpdateConfig}
+        >
+          <ConditionFields
+            config={config}
+            disabled={disabled}
+            onUpdateConfig={onUpdateConfig}
+          />
+        </WaitUntilFields>
+      );
+    case "While":
+      return (
+        <WhileFields
+          config={config}
+          disabled={disabled}
+          onUpdateConfig={onUpdateConfig}
+        >
+          <ConditionFields
+            config={config}
+            disabled={disabled}
+            onUpdateConfig={onUpdateConfig}
+          />
+        </WhileFields>
+      );
+    case "Approval":
+      return (
+        <ApprovalFields
+          config={config}
+          disabled={disabled}
+          nodeId={nodeId}
+          onUpdateConfig={onUpdateConfig}
+        />
+      );
+    case "Execute Workflow":
+      return (
+        <ExecuteWorkflowFields
+          config={config}
+          disabled={disabled}
+          onUpdateConfig={onUpdateConfig}
+        />
+      );
     // end keeperhub code //
     default:
       return null;
@@ -542,7 +620,13 @@ const SYSTEM_ACTIONS: Array<{ id: string; label: string }> = [
   { id: "Condition", label: "Condition" },
   // start custom keeperhub code //
   { id: "For Each", label: "For Each" },
+  { id: "While", label: "While" },
   { id: "Collect", label: "Collect" },
+  { id: "Switch", label: "Switch" },
+  { id: "Delay", label: "Delay" },
+  { id: "Wait Until", label: "Wait Until" },
+  { id: "Approval", label: "Approval" },
+  { id: "Execute Workflow", label: "Execute Workflow" },
   // end keeperhub code //
 ];
 
@@ -557,8 +641,8 @@ const SYSTEM_ACTION_INTEGRATIONS: Record<string, IntegrationType> = {
 function useCategoryData() {
   // start custom keeperhub code //
   const nodes = useAtomValue(nodesAtom);
-  const hasForEach = nodes.some(
-    (n) => n.data?.config?.actionType === "For Each"
+  const hasLoop = nodes.some((n) =>
+    isLoopAction(n.data?.config?.actionType as string | undefined)
   );
   // end keeperhub code //
 
@@ -566,7 +650,7 @@ function useCategoryData() {
     const pluginCategories = getActionsByCategory();
 
     // start custom keeperhub code //
-    const systemActions = hasForEach
+    const systemActions = hasLoop
       ? SYSTEM_ACTIONS
       : SYSTEM_ACTIONS.filter((a) => a.id !== "Collect");
     // end keeperhub code //
@@ -587,7 +671,7 @@ function useCategoryData() {
     }
 
     return allCategories;
-  }, [hasForEach]);
+  }, [hasLoop]);
 }
 
 // Get category for an action type (supports both new IDs, labels, and legacy labels)
@@ -872,6 +956,9 @@ export function ActionConfig({
         actionType={(config?.actionType as string) || ""}
         config={config}
         disabled={disabled}
+        // start custom keeperhub code //
+        nodeId={nodeId}
+        // end keeperhub code //
         onUpdateConfig={onUpdateConfig}
       />
 
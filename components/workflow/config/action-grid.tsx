@@ -31,6 +31,7 @@ import {
 import { useIsTouch } from "@/hooks/use-touch";
 import { cn } from "@/lib/utils";
 // start custom keeperhub code //
+import { isLoopAction } from "@/keeperhub/lib/while-loop";
 import { nodesAtom } from "@/lib/workflow-store";
 // end keeperhub code //
 import { getAllActions } from "@/plugins";
@@ -70,10 +71,46 @@ const SYSTEM_ACTIONS: ActionType[] = [
     description: "Loop over an array from a previous step",
     category: "System",
   },
+  {
+    id: "While",
+    label: "While",
+    description: "Repeat steps while a condition holds, e.g. to page an API",
+    category: "System",
+  },
   {
     id: "Collect",
     label: "Collect",
-    description: "Gather results from a For Each loop",
+    description: "Gather results from a For Each or While loop",
+    category: "System",
+  },
+  {
+    id: "Switch",
+    label: "Switch",
+    description: "Route to one of several named cases",
+    category: "System",
+  },
+  {
+    id: "Delay",
+    label: "Delay",
+    description: "Wait for a duration or until a point in time",
+    category: "System",
+  },
+  {
+    id: "Wait Until",
+    label: "Wait Until",
+    description: "Repeat a read until a condition is met",
+    category: "System",
+  },
+  {
+    id: "Approval",
+    label: "Approval",
+    description: "Pause until an organization member approves or rejects",
+    category: "System",
+  },
+  {
+    id: "Execute Workflow",
+    label: "Execute Workflow",
+    description: "Run another workflow and use its output",
     category: "System",
   },
   // end keeperhub code //
@@ -83,8 +120,8 @@ const SYSTEM_ACTIONS: ActionType[] = [
 function useAllActions(): ActionType[] {
   // start custom keeperhub code //
   const nodes = useAtomValue(nodesAtom);
-  const hasForEach = nodes.some(
-    (n) => n.data?.config?.actionType === "For Each"
+  const hasLoop = nodes.some((n) =>
+    isLoopAction(n.data?.config?.actionType as string | undefined)
   );
   // end keeperhub code //
 
@@ -100,13 +137,13 @@ function useAllActions(): ActionType[] {
     }));
 
     // start custom keeperhub code //
-    const systemActions = hasForEach
+    const systemActions = hasLoop
       ? SYSTEM_ACTIONS
       : SYSTEM_ACTIONS.filter((a) => a.id !== "Collect");
     // end keeperhub code //
 
     return [...systemActions, ...mappedPluginActions];
-  }, [hasForEach]);
+  }, [hasLoop]);
 }
 
 type ActionGridProps = {
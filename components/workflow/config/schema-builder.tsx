@@ -3,6 +3,7 @@
 import { Plus, Trash2 } from "lucide-react";
 import { nanoid } from "nanoid";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox"; // keeperhub custom field //
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import {
@@ -20,6 +21,7 @@ export type SchemaField = {
   itemType?: "string" | "number" | "boolean" | "object";
   fields?: SchemaField[];
   description?: string;
+  optional?: boolean; // keeperhub custom field //
 };
 
 type SchemaBuilderProps = {
@@ -27,6 +29,10 @@ type SchemaBuilderProps = {
   onChange: (schema: SchemaField[]) => void;
   disabled?: boolean;
   level?: number;
+  // start custom keeperhub code //
+  /** Show the "Optional" toggle of schemas that validate payloads */
+  showOptional?: boolean;
+  // end keeperhub code //
 };
 
 export function SchemaBuilder({
@@ -34,6 +40,9 @@ export function SchemaBuilder({
   onChange,
   disabled,
   level = 0,
+  // start custom keeperhub code //
+  showOptional = false,
+  // end keeperhub code //
 }: SchemaBuilderProps) {
   const addField = () => {
     onChange([...schema, { id: nanoid(), name: "", type: "string" }]);
@@ -191,6 +200,9 @@ export function SchemaBuilder({
                   level={level + 1}
                   onChange={(fields) => updateNestedFields(index, fields)}
                   schema={field.fields || []}
+                  // start custom keeperhub code //
+                  showOptional={showOptional}
+                  // end keeperhub code //
                 />
               </div>
             )}
@@ -203,6 +215,9 @@ export function SchemaBuilder({
                   level={level + 1}
                   onChange={(fields) => updateNestedFields(index, fields)}
                   schema={field.fields || []}
+                  // start custom keeperhub code //
+                  showOptional={showOptional}
+                  // end keeperhub code //
                 />
               </div>
             )}
@@ -221,6 +236,27 @@ export function SchemaBuilder({
                 value={field.description || ""}
               />
             </div>
+
+            {/* start custom keeperhub code */}
+            {showOptional && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  checked={field.optional === true}
+                  disabled={disabled}
+                  id={`field-optional-${level}-${index}`}
+                  onCheckedChange={(checked) =>
+                    updateField(index, { optional: checked === true })
+                  }
+                />
+                <Label
+                  className="font-normal"
+                  htmlFor={`field-optional-${level}-${index}`}
+                >
+                  Optional (may be missing or null)
+                </Label>
+              </div>
+            )}
+            {/* end keeperhub code */}
           </div>
         );
       })}
@@ -3,6 +3,7 @@
 import { Box, Boxes, Clock, Copy, Play, Webhook } from "lucide-react";
 import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox"; // keeperhub custom field //
 import { CodeEditor } from "@/components/ui/code-editor";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -14,6 +15,17 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { TimezoneSelect } from "@/components/ui/timezone-select";
+import { DedupeFields } from "@/keeperhub/components/workflow/config/dedupe-fields";
+import { EventFiltersField } from "@/keeperhub/components/workflow/config/event-filters-field";
+import { TimeoutField } from "@/keeperhub/components/workflow/config/timeout-field";
+import { WebhookAuthFields } from "@/keeperhub/components/workflow/config/webhook-auth-fields";
+import { WebhookEndpointFields } from "@/keeperhub/components/workflow/config/webhook-endpoint-fields";
+import { WebhookResponseFields } from "@/keeperhub/components/workflow/config/webhook-response-fields";
+import {
+  generatePayloadExample,
+  getWebhookPayloadSchema,
+  isWebhookPayloadValidationEnabled,
+} from "@/keeperhub/lib/payload-schema";
 import type { ActionConfigField } from "@/plugins";
 import { ActionConfigRenderer } from "./action-config-renderer";
 import { SchemaBuilder, type SchemaField } from "./schema-builder";
@@ -128,6 +140,24 @@ export function TriggerConfig({
               </Button>
             </div>
           </div>
+          {/* start custom keeperhub code */}
+          <WebhookEndpointFields
+            config={config}
+            disabled={disabled}
+            onUpdateConfig={onUpdateConfig}
+          />
+          <WebhookAuthFields
+            config={config}
+            disabled={disabled}
+            onUpdateConfig={onUpdateConfig}
+            workflowId={workflowId}
+          />
+          <WebhookResponseFields
+            config={config}
+            disabled={disabled}
+            onUpdateConfig={onUpdateConfig}
+          />
+          {/* end keeperhub code */}
           <div className="space-y-2">
             <Label>Request Schema (Optional)</Label>
             <SchemaBuilder
@@ -147,13 +177,65 @@ export function TriggerConfig({
                   return [];
                 }
               })()}
+              // start custom keeperhub code //
+              showOptional
+              // end keeperhub code //
             />
             <p className="text-muted-foreground text-xs">
               Define the expected structure of the incoming webhook payload.
             </p>
+            {/* start custom keeperhub code */}
+            <div className="flex items-center gap-2">
+              <Checkbox
+                checked={isWebhookPayloadValidationEnabled(config)}
+                disabled={disabled}
+                id="webhookValidatePayload"
+                onCheckedChange={(checked) =>
+                  onUpdateConfig(
+                    "webhookValidatePayload",
+                    checked === true ? "true" : ""
+                  )
+                }
+              />
+              <Label className="font-normal" htmlFor="webhookValidatePayload">
+                Reject requests that do not match the schema
+              </Label>
+            </div>
+            {isWebhookPayloadValidationEnabled(config) && (
+              <p className="text-muted-foreground text-xs">
+                Requests missing a required property or sending the wrong type
+                are rejected with a 400 before the workflow runs.
+              </p>
+            )}
+            {/* end keeperhub code */}
           </div>
           <div className="space-y-2">
-            <Label htmlFor="webhookMockRequest">Mock Request (Optional)</Label>
+            {/* start custom keeperhub code */}
+            <div className="flex items-center justify-between">
+              <Label htmlFor="webhookMockRequest">
+                Mock Request (Optional)
+              </Label>
+              <Button
+                disabled={
+                  disabled || getWebhookPayloadSchema(config).length === 0
+                }
+                onClick={() =>
+                  onUpdateConfig(
+                    "webhookMockRequest",
+                    JSON.stringify(
+                      generatePayloadExample(getWebhookPayloadSchema(config)),
+                      null,
+                      2
+                    )
+                  )
+                }
+                size="sm"
+                variant="ghost"
+              >
+                Generate from Schema
+              </Button>
+            </div>
+            {/* end keeperhub code */}
             <div className="overflow-hidden rounded-md border">
               <CodeEditor
                 defaultLanguage="json"
@@ -174,6 +256,9 @@ export function TriggerConfig({
             </div>
             <p className="text-muted-foreground text-xs">
               Enter a sample JSON payload to test the webhook trigger.
+              {/* start custom keeperhub code */} Left empty, test runs use an
+              example generated from the schema.
+              {/* end keeperhub code */}
             </p>
           </div>
         </>
@@ -240,23 +325,39 @@ export function TriggerConfig({
               rows: 6,
               required: true,
             },
+            {
+              key: "additionalAddresses",
+              label: "Additional Addresses (optional)",
+              type: "template-textarea",
+              placeholder:
+                "Other contracts sharing this ABI, one address per line",
+              rows: 3,
+            },
             {
               key: "eventName",
-              label: "Event Name",
+              label: "Events",
               type: "abi-event-select",
               abiField: "contractABI",
+              multiple: true,
               placeholder: "Select an event",
               required: true,
             },
           ];
 
           return (
-            <ActionConfigRenderer
-              config={config}
-              disabled={disabled}
-              fields={eventFields}
-              onUpdateConfig={handleConfigValue}
-            />
+            <>
+              <ActionConfigRenderer
+                config={config}
+                disabled={disabled}
+                fields={eventFields}
+                onUpdateConfig={handleConfigValue}
+              />
+              <EventFiltersField
+                config={config}
+                disabled={disabled}
+                onUpdateConfig={handleConfigValue}
+              />
+            </>
           );
         })()}
       {/* Block fields */}
@@ -311,6 +412,18 @@ export function TriggerConfig({
             </>
           );
         })()}
+
+      <DedupeFields
+        config={config}
+        disabled={disabled}
+        onUpdateConfig={onUpdateConfig}
+      />
+      <TimeoutField
+        config={config}
+        disabled={disabled}
+        onUpdateConfig={onUpdateConfig}
+        scope="workflow"
+      />
       {/* end custom keeperhub code // */}
     </>
   );
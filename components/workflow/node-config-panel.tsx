@@ -29,7 +29,21 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { ProjectSelect } from "@/keeperhub/components/projects/project-select";
 import { TagSelect } from "@/keeperhub/components/tags/tag-select";
+import { ConcurrencyPolicySelect } from "@/keeperhub/components/workflow/concurrency-policy-select";
+import { JoinModeField } from "@/keeperhub/components/workflow/config/join-mode-field";
+import { RecoverFailureField } from "@/keeperhub/components/workflow/config/recover-failure-field";
+import { RetryPolicyFields } from "@/keeperhub/components/workflow/config/retry-policy-fields";
+import { TimeoutField } from "@/keeperhub/components/workflow/config/timeout-field";
+import { WorkflowVariablesPanel } from "@/keeperhub/components/workflow/workflow-variables-panel";
 import { refetchSidebar } from "@/keeperhub/lib/refetch-sidebar";
+import type { ConcurrencyPolicy } from "@/keeperhub/lib/concurrency-policy";
+import { getErrorSources } from "@/keeperhub/lib/error-handler-edges";
+import { getIncomingSources } from "@/keeperhub/lib/join-semantics";
+import { isControlFlowAction } from "@/keeperhub/lib/retry-policy";
+import {
+  validateWorkflowVariables,
+  type WorkflowVariable,
+} from "@/keeperhub/lib/workflow-variables";
 import { api } from "@/lib/api-client";
 import { integrationsAtom } from "@/lib/integrations-store";
 import type { IntegrationType } from "@/lib/types/integration";
@@ -37,11 +51,13 @@ import { generateWorkflowCode } from "@/lib/workflow-codegen";
 import {
   clearNodeStatusesAtom,
   clearWorkflowAtom,
+  currentWorkflowConcurrencyPolicyAtom,
   currentWorkflowDescriptionAtom,
   currentWorkflowIdAtom,
   currentWorkflowNameAtom,
   currentWorkflowProjectIdAtom,
   currentWorkflowTagIdAtom,
+  currentWorkflowVariablesAtom,
   deleteEdgeAtom,
   deleteNodeAtom,
   deleteSelectedItemsAtom,
@@ -176,6 +192,13 @@ export const PanelInner = () => {
   const [currentWorkflowTagId, setCurrentWorkflowTagId] = useAtom(
     currentWorkflowTagIdAtom
   );
+  const [currentWorkflowVariables, setCurrentWorkflowVariables] = useAtom(
+    currentWorkflowVariablesAtom
+  );
+  const [
+    currentWorkflowConcurrencyPolicy,
+    setCurrentWorkflowConcurrencyPolicy,
+  ] = useAtom(currentWorkflowConcurrencyPolicyAtom);
   const isOwner = useAtomValue(isWorkflowOwnerAtom);
   const workflowNotFound = useAtomValue(workflowNotFoundAtom);
   const updateNodeData = useSetAtom(updateNodeDataAtom);
@@ -315,6 +338,11 @@ export const PanelInner = () => {
   // end keeperhub code //
   const selectedNode = nodes.find((node) => node.id === selectedNodeId);
   const selectedEdge = edges.find((edge) => edge.id === selectedEdgeId);
+  // start custom keeperhub code //
+  const joinSourceCount = selectedNode
+    ? getIncomingSources(selectedNode.id, edges).length
+    : 0;
+  // end keeperhub code //
 
   // Count multiple selections
   const selectedNodes = nodes.filter((node) => node.selected);
@@ -335,7 +363,13 @@ export const PanelInner = () => {
     // start custom keeperhub code //
     const isForEachOrCollect =
       selectedNode.data.config?.actionType === "For Each" ||
-      selectedNode.data.config?.actionType === "Collect";
+      selectedNode.data.config?.actionType === "While" ||
+      selectedNode.data.config?.actionType === "Collect" ||
+      selectedNode.data.config?.actionType === "Switch" ||
+      selectedNode.data.config?.actionType === "Delay" ||
+      selectedNode.data.config?.actionType === "Wait Until" ||
+      selectedNode.data.config?.actionType === "Approval" ||
+      selectedNode.data.config?.actionType === "Execute Workflow";
     // end keeperhub code //
 
     if (isConditionAction || isManualTrigger || isForEachOrCollect) {
@@ -678,6 +712,39 @@ export const PanelInner = () => {
       }
     }
   };
+
+  const handleUpdateWorkflowVariables = async (
+    newVariables: WorkflowVariable[]
+  ): Promise<void> => {
+    setCurrentWorkflowVariables(newVariables);
+    // A half-typed value (e.g. an address) is shown as invalid but not saved
+    if (currentWorkflowId && validateWorkflowVariables(newVariables).valid) {
+      try {
+        await api.workflow.update(currentWorkflowId, {
+          variables: newVariables,
+        });
+      } catch (error) {
+        console.error("Failed to update workflow variables:", error);
+        toast.error("Failed to update workflow variables");
+      }
+    }
+  };
+
+  const handleUpdateConcurrencyPolicy = async (
+    newPolicy: ConcurrencyPolicy
+  ): Promise<void> => {
+    setCurrentWorkflowConcurrencyPolicy(newPolicy);
+    if (currentWorkflowId) {
+      try {
+        await api.workflow.update(currentWorkflowId, {
+          concurrencyPolicy: newPolicy,
+        });
+      } catch (error) {
+        console.error("Failed to update concurrency policy:", error);
+        toast.error("Failed to update concurrency policy");
+      }
+    }
+  };
   // end keeperhub code //
 
   const handleRefreshRuns = async () => {
@@ -856,6 +923,22 @@ export const PanelInner = () => {
                   value={currentWorkflowTagId}
                 />
               </div>
+              <div className="space-y-2">
+                <Label className="ml-1">Variables</Label>
+                <WorkflowVariablesPanel
+                  disabled={!isOwner}
+                  onChange={handleUpdateWorkflowVariables}
+                  variables={currentWorkflowVariables}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="ml-1">Overlapping runs</Label>
+                <ConcurrencyPolicySelect
+                  disabled={!isOwner}
+                  onChange={handleUpdateConcurrencyPolicy}
+                  value={currentWorkflowConcurrencyPolicy}
+                />
+              </div>
               {/* end keeperhub code */}
               <div className="space-y-2">
                 <Label className="ml-1" htmlFor="workflow-id">
@@ -1030,7 +1113,13 @@ export const PanelInner = () => {
           selectedNode.data.config?.actionType !== "Condition" &&
           // start custom keeperhub code //
           selectedNode.data.config?.actionType !== "For Each" &&
-          selectedNode.data.config?.actionType !== "Collect" ? (
+          selectedNode.data.config?.actionType !== "While" &&
+          selectedNode.data.config?.actionType !== "Collect" &&
+          selectedNode.data.config?.actionType !== "Switch" &&
+          selectedNode.data.config?.actionType !== "Delay" &&
+          selectedNode.data.config?.actionType !== "Wait Until" &&
+          selectedNode.data.config?.actionType !== "Approval" &&
+          selectedNode.data.config?.actionType !== "Execute Workflow" ? (
             // end keeperhub code //
             <TabsTrigger
               className="bg-transparent text-muted-foreground data-[state=active]:text-foreground data-[state=active]:shadow-none"
@@ -1140,6 +1229,43 @@ export const PanelInner = () => {
                 </>
               ) : null}
 
+              {/* start custom keeperhub code */}
+              {selectedNode.data.type === "action" &&
+                !isControlFlowAction(
+                  selectedNode.data.config?.actionType as string | undefined
+                ) && (
+                  <>
+                    <TimeoutField
+                      config={selectedNode.data.config || {}}
+                      disabled={isGenerating || !isOwner}
+                      onUpdateConfig={handleUpdateConfig}
+                      scope="node"
+                    />
+                    <RetryPolicyFields
+                      config={selectedNode.data.config || {}}
+                      disabled={isGenerating || !isOwner}
+                      onUpdateConfig={handleUpdateConfig}
+                    />
+                  </>
+                )}
+              {selectedNode.data.type === "action" &&
+                getErrorSources(selectedNode.id, edges).length > 0 && (
+                  <RecoverFailureField
+                    config={selectedNode.data.config || {}}
+                    disabled={isGenerating || !isOwner}
+                    onUpdateConfig={handleUpdateConfig}
+                  />
+                )}
+              {selectedNode.data.type === "action" && joinSourceCount > 1 && (
+                <JoinModeField
+                  config={selectedNode.data.config || {}}
+                  disabled={isGenerating || !isOwner}
+                  onUpdateConfig={handleUpdateConfig}
+                  sourceCount={joinSourceCount}
+                />
+              )}
+              {/* end keeperhub code */}
+
               {!isOwner && (
                 <div className="rounded-lg border border-muted bg-muted/30 p-3">
                   <p className="text-muted-foreground text-sm">
@@ -9,8 +9,15 @@ import {
   Database,
   EyeOff,
   GitBranch,
+  Hourglass,
+  IterationCw,
   ListEnd,
+  Merge,
+  RefreshCw,
   Repeat,
+  Split,
+  UserCheck,
+  Workflow,
   XCircle,
   Zap,
 } from "lucide-react";
@@ -27,8 +34,31 @@ import {
   integrationIdsAtom,
   integrationsLoadedAtom,
 } from "@/lib/integrations-store";
+// start custom keeperhub code //
+import {
+  APPROVAL_APPROVED_HANDLE,
+  APPROVAL_REJECTED_HANDLE,
+} from "@/keeperhub/lib/approvals";
+import {
+  CONDITION_FALSE_HANDLE,
+  CONDITION_TRUE_HANDLE,
+} from "@/keeperhub/lib/condition-branches";
+import {
+  getIncomingSources,
+  getJoinMode,
+  JOIN_MODE_LABELS,
+  type JoinMode,
+} from "@/keeperhub/lib/join-semantics";
+import { isControlFlowAction } from "@/keeperhub/lib/retry-policy";
+import {
+  parseSwitchCases,
+  SWITCH_DEFAULT_HANDLE,
+} from "@/keeperhub/lib/switch-cases";
+import { isLoopAction } from "@/keeperhub/lib/while-loop";
+// end keeperhub code //
 import { cn } from "@/lib/utils";
 import {
+  edgesAtom,
   executionLogsAtom,
   pendingIntegrationNodesAtom,
   selectedExecutionIdAtom,
@@ -74,10 +104,38 @@ const getModelDisplayName = (modelId: string): string => {
 };
 
 // start custom keeperhub code //
-const FOR_EACH_SOURCE_HANDLES: SourceHandleConfig[] = [
+const LOOP_SOURCE_HANDLES: SourceHandleConfig[] = [
   { id: "done", label: "done", topPercent: 30 },
   { id: "loop", label: "loop", topPercent: 70 },
 ];
+
+const CONDITION_SOURCE_HANDLES: SourceHandleConfig[] = [
+  { id: CONDITION_TRUE_HANDLE, label: "true", topPercent: 30 },
+  { id: CONDITION_FALSE_HANDLE, label: "false", topPercent: 70 },
+];
+
+const APPROVAL_SOURCE_HANDLES: SourceHandleConfig[] = [
+  { id: APPROVAL_APPROVED_HANDLE, label: "approved", topPercent: 30 },
+  { id: APPROVAL_REJECTED_HANDLE, label: "rejected", topPercent: 70 },
+];
+
+/** One handle per Switch case (in order) plus the trailing default handle */
+function getSwitchSourceHandles(cases: unknown): SourceHandleConfig[] {
+  let parsed: ReturnType<typeof parseSwitchCases> = [];
+  try {
+    parsed = parseSwitchCases(cases);
+  } catch {
+    // Malformed cases: only the default branch is routable
+  }
+  const handles = [
+    ...parsed.map((c) => ({ id: c.id, label: c.label || c.id })),
+    { id: SWITCH_DEFAULT_HANDLE, label: "default" },
+  ];
+  return handles.map((h, index) => ({
+    ...h,
+    topPercent: Math.round(((index + 1) / (handles.length + 1)) * 100),
+  }));
+}
 // end keeperhub code //
 
 // System action labels (non-plugin actions)
@@ -88,10 +146,36 @@ const SYSTEM_ACTION_LABELS: Record<string, string> = {
   "Execute Code": "System",
   // start custom keeperhub code //
   "For Each": "Loop",
+  While: "Loop",
   Collect: "Loop",
+  Switch: "Router",
+  Delay: "Delay",
+  "Wait Until": "Delay",
+  Approval: "Approval",
+  "Execute Workflow": "Workflow",
   // end keeperhub code //
 };
 
+// start custom keeperhub code //
+// Control-flow actions that can still fail in ways worth handling: a Wait Until
+// whose condition is never met, or a sub-workflow run that fails
+const HANDLED_CONTROL_FLOW_ACTIONS = new Set([
+  "Wait Until",
+  "Execute Workflow",
+]);
+
+// Shown on nodes with more than one incoming edge
+const JoinBadge = ({ mode }: { mode: JoinMode }) => (
+  <div
+    className="absolute bottom-2 left-2 flex items-center gap-1 rounded-full bg-muted px-1.5 py-0.5 text-[10px] text-muted-foreground"
+    title={`Join: ${JOIN_MODE_LABELS[mode]}`}
+  >
+    <Merge className="size-3" />
+    {mode}
+  </div>
+);
+// end keeperhub code //
+
 // Helper to get integration name from action type
 const getIntegrationFromActionType = (actionType: string): string => {
   // Check if it's a system action first
@@ -154,8 +238,30 @@ const getProviderLogo = (actionType: string) => {
     // start custom keeperhub code //
     case "For Each":
       return <Repeat className="size-12 text-purple-300" strokeWidth={1.5} />;
+    case "While":
+      return (
+        <IterationCw className="size-12 text-purple-300" strokeWidth={1.5} />
+      );
     case "Collect":
       return <ListEnd className="size-12 text-purple-300" strokeWidth={1.5} />;
+    case "Switch":
+      return <Split className="size-12 text-pink-300" strokeWidth={1.5} />;
+    case "Delay":
+      return (
+        <Hourglass className="size-12 text-slate-300" strokeWidth={1.5} />
+      );
+    case "Wait Until":
+      return (
+        <RefreshCw className="size-12 text-slate-300" strokeWidth={1.5} />
+      );
+    case "Approval":
+      return (
+        <UserCheck className="size-12 text-emerald-300" strokeWidth={1.5} />
+      );
+    case "Execute Workflow":
+      return (
+        <Workflow className="size-12 text-indigo-300" strokeWidth={1.5} />
+      );
     // end keeperhub code //
     default:
       // Not a system action, continue to check plugin registry
@@ -273,6 +379,9 @@ export const ActionNode = memo(({ data, selected, id }: ActionNodeProps) => {
   const pendingIntegrationNodes = useAtomValue(pendingIntegrationNodesAtom);
   const availableIntegrationIds = useAtomValue(integrationIdsAtom);
   const integrationsLoaded = useAtomValue(integrationsLoadedAtom);
+  // start custom keeperhub code //
+  const edges = useAtomValue(edgesAtom);
+  // end keeperhub code //
 
   if (!data) {
     return null;
@@ -364,10 +473,45 @@ export const ActionNode = memo(({ data, selected, id }: ActionNodeProps) => {
   const isDisabled = data.enabled === false;
 
   // start custom keeperhub code //
-  const isForEach = actionType === "For Each";
-  const handles = isForEach
-    ? { target: true, source: false, sourceHandles: FOR_EACH_SOURCE_HANDLES }
-    : { target: true, source: true };
+  const getHandles = () => {
+    if (isLoopAction(actionType)) {
+      return {
+        target: true,
+        source: false,
+        sourceHandles: LOOP_SOURCE_HANDLES,
+      };
+    }
+    if (actionType === "Condition") {
+      return {
+        target: true,
+        source: false,
+        sourceHandles: CONDITION_SOURCE_HANDLES,
+      };
+    }
+    if (actionType === "Switch") {
+      return {
+        target: true,
+        source: false,
+        sourceHandles: getSwitchSourceHandles(data.config?.cases),
+      };
+    }
+    if (actionType === "Approval") {
+      return {
+        target: true,
+        source: false,
+        sourceHandles: APPROVAL_SOURCE_HANDLES,
+      };
+    }
+    return {
+      target: true,
+      source: true,
+      errorHandle:
+        !isControlFlowAction(actionType) ||
+        HANDLED_CONTROL_FLOW_ACTIONS.has(actionType),
+    };
+  };
+  const handles = getHandles();
+  const isJoin = getIncomingSources(id, edges).length > 1;
   // end keeperhub code //
 
   return (
@@ -399,6 +543,10 @@ export const ActionNode = memo(({ data, selected, id }: ActionNodeProps) => {
       {/* Status indicator badge in top right */}
       <StatusBadge status={status} />
 
+      {/* start custom keeperhub code */}
+      {isJoin && <JoinBadge mode={getJoinMode(data.config)} />}
+      {/* end keeperhub code */}
+
       <div className="flex flex-col items-center justify-center gap-3 p-6">
         {hasGeneratedImage ? (
           <GeneratedImageThumbnail
@@ -22,6 +22,15 @@ import "@xyflow/react/dist/style.css";
 
 import { PlayCircle, Zap } from "lucide-react";
 import { nanoid } from "nanoid";
+// start custom keeperhub code //
+import { APPROVAL_APPROVED_HANDLE } from "@/keeperhub/lib/approvals";
+import {
+  CONDITION_FALSE_HANDLE,
+  CONDITION_TRUE_HANDLE,
+} from "@/keeperhub/lib/condition-branches";
+import { SWITCH_DEFAULT_HANDLE } from "@/keeperhub/lib/switch-cases";
+import { isLoopAction } from "@/keeperhub/lib/while-loop";
+// end keeperhub code //
 import {
   addNodeAtom,
   autosaveAtom,
@@ -237,24 +246,39 @@ export function WorkflowCanvas() {
   );
 
   // start custom keeperhub code //
-  // Auto-assign sourceHandle on For Each edges that lack one.
+  // Auto-assign sourceHandle on loop (For Each / While) and Condition edges
+  // that lack one.
   // Runs once when edges load and whenever nodes change type.
   // Uses functional setEdges to avoid overwriting concurrent edge additions.
   useEffect(() => {
-    const forEachNodeIds = new Set(
+    const loopNodeIds = new Set(
+      nodes.filter((n) => isLoopAction(getActionType(n))).map((n) => n.id)
+    );
+    const conditionNodeIds = new Set(
       nodes
-        .filter((n) => getActionType(n) === "For Each")
+        .filter((n) => getActionType(n) === "Condition")
         .map((n) => n.id)
     );
 
-    if (forEachNodeIds.size === 0) {
+    if (loopNodeIds.size === 0 && conditionNodeIds.size === 0) {
       return;
     }
 
     setEdges((currentEdges) => {
       let changed = false;
       const updated = currentEdges.map((edge) => {
-        if (!forEachNodeIds.has(edge.source)) {
+        // Untagged Condition edges predate branching and acted as the gate
+        if (conditionNodeIds.has(edge.source)) {
+          if (
+            edge.sourceHandle === CONDITION_TRUE_HANDLE ||
+            edge.sourceHandle === CONDITION_FALSE_HANDLE
+          ) {
+            return edge;
+          }
+          changed = true;
+          return { ...edge, sourceHandle: CONDITION_TRUE_HANDLE };
+        }
+        if (!loopNodeIds.has(edge.source)) {
           return edge;
         }
         if (edge.sourceHandle === "done" || edge.sourceHandle === "loop") {
@@ -294,17 +318,17 @@ export function WorkflowCanvas() {
       const targetIsCollect =
         targetNode !== undefined && getActionType(targetNode) === "Collect";
 
-      // Collect nodes can only be targets of a For Each "done" handle
+      // Collect nodes can only be targets of a loop "done" handle
       if (targetIsCollect && sourceHandle !== "done") {
         return false;
       }
 
-      // For Each "done" handle only connects to Collect nodes
+      // Loop "done" handle only connects to Collect nodes
       if (sourceHandle === "done" && !targetIsCollect) {
         return false;
       }
 
-      // For Each "loop" handle cannot connect to Collect nodes
+      // Loop "loop" handle cannot connect to Collect nodes
       if (sourceHandle === "loop" && targetIsCollect) {
         return false;
       }
@@ -318,16 +342,26 @@ export function WorkflowCanvas() {
   const onConnect: OnConnect = useCallback(
     (connection: XYFlowConnection) => {
       // start custom keeperhub code //
-      // Auto-assign sourceHandle for For Each connections when not already set
+      // Auto-assign sourceHandle for loop and Condition connections when not
+      // already set
       let { sourceHandle } = connection;
       if (!sourceHandle) {
         const sourceNode = nodes.find((n) => n.id === connection.source);
-        if (sourceNode && getActionType(sourceNode) === "For Each") {
+        const sourceActionType = sourceNode
+          ? getActionType(sourceNode)
+          : undefined;
+        if (isLoopAction(sourceActionType)) {
           const targetNode = nodes.find((n) => n.id === connection.target);
           sourceHandle =
             targetNode && getActionType(targetNode) === "Collect"
               ? "done"
               : "loop";
+        } else if (sourceActionType === "Condition") {
+          sourceHandle = CONDITION_TRUE_HANDLE;
+        } else if (sourceActionType === "Switch") {
+          sourceHandle = SWITCH_DEFAULT_HANDLE;
+        } else if (sourceActionType === "Approval") {
+          sourceHandle = APPROVAL_APPROVED_HANDLE;
         }
       }
       // end keeperhub code //
@@ -2,6 +2,7 @@
 
 import { useAtom } from "jotai";
 import {
+  Ban,
   Check,
   ChevronDown,
   ChevronRight,
@@ -10,6 +11,7 @@ import {
   ExternalLink,
   Loader2,
   Play,
+  Timer,
   X,
 } from "lucide-react";
 import Image from "next/image";
@@ -17,6 +19,19 @@ import type { JSX } from "react";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { toChecksumAddress } from "@/keeperhub/lib/address-utils";
 // start custom keeperhub code //
+import { CancelRunButton } from "@/keeperhub/components/workflow/cancel-run-button";
+import { ResumeRunButton } from "@/keeperhub/components/workflow/resume-run-button";
+import { SimulationSummary } from "@/keeperhub/components/workflow/simulation-summary";
+import {
+  type ChildExecution,
+  SubWorkflowRuns,
+} from "@/keeperhub/components/workflow/sub-workflow-runs";
+import {
+  isSideEffectPreview,
+  isSimulatedResult,
+} from "@/keeperhub/lib/dry-run";
+import { isCancellableStatus } from "@/keeperhub/lib/execution-cancel";
+import { isResumableStatus } from "@/keeperhub/lib/execution-resume";
 import {
   FOR_EACH_GROUP_TYPE,
   buildChildLogsLookup,
@@ -45,7 +60,7 @@ type ExecutionLog = {
   nodeId: string;
   nodeName: string;
   nodeType: string;
-  status: "pending" | "running" | "success" | "error";
+  status: "pending" | "running" | "success" | "error" | "timeout";
   startedAt: Date;
   completedAt: Date | null;
   duration: string | null;
@@ -55,13 +70,20 @@ type ExecutionLog = {
   // start custom keeperhub code //
   iterationIndex: number | null;
   forEachNodeId: string | null;
+  attempt: number | null;
   // end keeperhub code //
 };
 
 type WorkflowExecution = {
   id: string;
   workflowId: string;
-  status: "pending" | "running" | "success" | "error" | "cancelled";
+  status:
+    | "pending"
+    | "running"
+    | "success"
+    | "error"
+    | "cancelled"
+    | "timeout";
   startedAt: Date;
   completedAt: Date | null;
   duration: string | null;
@@ -74,6 +96,13 @@ type WorkflowExecution = {
   lastSuccessfulNodeId: string | null;
   lastSuccessfulNodeName: string | null;
   executionTrace: string[] | null;
+  // start custom keeperhub code //
+  waitingUntil: Date | string | null;
+  parentExecutionId: string | null;
+  resumedFromExecutionId: string | null;
+  dryRun: boolean;
+  childExecutions?: ChildExecution[];
+  // end keeperhub code //
 };
 
 type WorkflowRunsProps = {
@@ -123,7 +152,7 @@ function createExecutionLogsMap(logs: ExecutionLog[]): Record<
     nodeId: string;
     nodeName: string;
     nodeType: string;
-    status: "pending" | "running" | "success" | "error";
+    status: "pending" | "running" | "success" | "error" | "timeout";
     output?: unknown;
   }
 > {
@@ -133,11 +162,22 @@ function createExecutionLogsMap(logs: ExecutionLog[]): Record<
       nodeId: string;
       nodeName: string;
       nodeType: string;
-      status: "pending" | "running" | "success" | "error";
+      status: "pending" | "running" | "success" | "error" | "timeout";
       output?: unknown;
     }
   > = {};
+  // start custom keeperhub code //
+  const latestAttempts = new Map<string, number>();
+  // end keeperhub code //
   for (const log of logs) {
+    // start custom keeperhub code //
+    // Retried nodes have one log per attempt; the latest attempt wins
+    const attempt = log.attempt ?? 0;
+    if ((latestAttempts.get(log.nodeId) ?? -1) > attempt) {
+      continue;
+    }
+    latestAttempts.set(log.nodeId, attempt);
+    // end keeperhub code //
     logsMap[log.nodeId] = {
       nodeId: log.nodeId,
       nodeName: log.nodeName,
@@ -532,6 +572,11 @@ function getProgressBarColor(status: WorkflowExecution["status"]): string {
   if (status === "success") {
     return "bg-green-500";
   }
+  // start custom keeperhub code //
+  if (status === "cancelled") {
+    return "bg-zinc-400";
+  }
+  // end keeperhub code //
   return "bg-red-500";
 }
 
@@ -541,7 +586,8 @@ function ExecutionProgress({ execution }: { execution: WorkflowExecution }) {
   const percentage =
     totalSteps > 0 ? Math.round((completedSteps / totalSteps) * 100) : 0;
   const isRunning = execution.status === "running";
-  const isError = execution.status === "error";
+  const isError =
+    execution.status === "error" || execution.status === "timeout";
 
   if (totalSteps === 0) {
     return null;
@@ -563,11 +609,21 @@ function ExecutionProgress({ execution }: { execution: WorkflowExecution }) {
       <div className="flex items-center justify-between text-xs">
         <span className="text-muted-foreground">
           {completedSteps} of {totalSteps} steps
-          {isRunning && execution.currentNodeName && (
+          {/* start custom keeperhub code */}
+          {isRunning && execution.waitingUntil && (
             <span className="ml-2 text-blue-500">
-              Running: {execution.currentNodeName}
+              Waiting until{" "}
+              {new Date(execution.waitingUntil).toLocaleString()}
             </span>
           )}
+          {/* end keeperhub code */}
+          {isRunning &&
+            execution.currentNodeName &&
+            !execution.waitingUntil && (
+              <span className="ml-2 text-blue-500">
+                Running: {execution.currentNodeName}
+              </span>
+            )}
           {isError && execution.lastSuccessfulNodeName && (
             <span className="ml-2 text-muted-foreground">
               Last success: {execution.lastSuccessfulNodeName}
@@ -720,7 +776,9 @@ function ForEachLogGroup({
               <div key={iteration.iterationIndex}>
                 <IterationHeader
                   durationMs={computeIterationDuration(iteration.logs)}
-                  hasError={iteration.logs.some((l) => l.status === "error")}
+                  hasError={iteration.logs.some(
+                    (l) => l.status === "error" || l.status === "timeout"
+                  )}
                   isExpanded={isIterExpanded}
                   iterationIndex={iteration.iterationIndex}
                   onToggle={() => toggleIteration(iteration.iterationIndex)}
@@ -843,6 +901,25 @@ function ExecutionLogEntry({
                 <span className="truncate font-medium text-sm transition-colors group-hover:text-foreground">
                   {log.nodeName || log.nodeType}
                 </span>
+                {/* start custom keeperhub code */}
+                {log.attempt !== null && (
+                  <span
+                    className={cn(
+                      "shrink-0 rounded px-1.5 py-0.5 font-medium text-[10px]",
+                      log.attempt > 1
+                        ? "bg-amber-500/10 text-amber-600"
+                        : "bg-muted text-muted-foreground"
+                    )}
+                  >
+                    Attempt {log.attempt}
+                  </span>
+                )}
+                {isSimulatedResult(log.output) && (
+                  <span className="shrink-0 rounded bg-sky-500/10 px-1.5 py-0.5 font-medium text-[10px] text-sky-600">
+                    {isSideEffectPreview(log.output) ? "Skipped" : "Simulated"}
+                  </span>
+                )}
+                {/* end keeperhub code */}
               </div>
             </div>
 
@@ -865,6 +942,9 @@ function ExecutionLogEntry({
                 </pre>
               </CollapsibleSection>
             )}
+            {/* start custom keeperhub code */}
+            <SimulationSummary output={log.output} />
+            {/* end keeperhub code */}
             {log.output !== null && log.output !== undefined && (
               <OutputDisplay input={log.input} output={log.output} />
             )}
@@ -962,7 +1042,7 @@ export function WorkflowRuns({
         nodeId: string;
         nodeName: string;
         nodeType: string;
-        status: "pending" | "running" | "success" | "error";
+        status: "pending" | "running" | "success" | "error" | "timeout";
         input: unknown;
         output: unknown;
         error: string | null;
@@ -972,6 +1052,7 @@ export function WorkflowRuns({
         // start custom keeperhub code //
         iterationIndex?: number | null;
         forEachNodeId?: string | null;
+        attempt?: number | null;
         // end keeperhub code //
       }>,
       _workflow?: {
@@ -993,6 +1074,7 @@ export function WorkflowRuns({
         // start custom keeperhub code //
         iterationIndex: log.iterationIndex ?? null,
         forEachNodeId: log.forEachNodeId ?? null,
+        attempt: log.attempt ?? null,
         // end keeperhub code //
       })),
     []
@@ -1154,6 +1236,12 @@ export function WorkflowRuns({
         return <X className="h-3 w-3 text-white" />;
       case "running":
         return <Loader2 className="h-3 w-3 animate-spin text-white" />;
+      // start custom keeperhub code //
+      case "timeout":
+        return <Timer className="h-3 w-3 text-white" />;
+      case "cancelled":
+        return <Ban className="h-3 w-3 text-white" />;
+      // end keeperhub code //
       default:
         return <Clock className="h-3 w-3 text-white" />;
     }
@@ -1167,6 +1255,12 @@ export function WorkflowRuns({
         return "bg-red-600";
       case "running":
         return "bg-blue-600";
+      // start custom keeperhub code //
+      case "timeout":
+        return "bg-orange-600";
+      case "cancelled":
+        return "bg-zinc-500";
+      // end keeperhub code //
       default:
         return "bg-muted-foreground";
     }
@@ -1240,6 +1334,23 @@ export function WorkflowRuns({
                   <span className="font-semibold text-sm">
                     Run #{executions.length - index}
                   </span>
+                  {/* start custom keeperhub code */}
+                  {execution.parentExecutionId && (
+                    <span className="rounded bg-muted px-1.5 py-0.5 text-muted-foreground text-xs">
+                      Sub-workflow
+                    </span>
+                  )}
+                  {execution.dryRun && (
+                    <span className="rounded bg-sky-500/10 px-1.5 py-0.5 font-medium text-sky-600 text-xs">
+                      Dry run
+                    </span>
+                  )}
+                  {execution.resumedFromExecutionId && (
+                    <span className="rounded bg-muted px-1.5 py-0.5 text-muted-foreground text-xs">
+                      Resumed
+                    </span>
+                  )}
+                  {/* end keeperhub code */}
                 </div>
                 <div className="flex items-center gap-2 font-mono text-muted-foreground text-xs">
                   <span>{getRelativeTime(execution.startedAt)}</span>
@@ -1265,6 +1376,22 @@ export function WorkflowRuns({
                 </div>
               </button>
 
+              {/* start custom keeperhub code */}
+              {isCancellableStatus(execution.status) && (
+                <CancelRunButton
+                  executionId={execution.id}
+                  onCancelled={() => loadExecutions(false)}
+                />
+              )}
+              {isResumableStatus(execution.status) &&
+                !execution.parentExecutionId && (
+                  <ResumeRunButton
+                    executionId={execution.id}
+                    onResumed={() => loadExecutions(false)}
+                  />
+                )}
+              {/* end keeperhub code */}
+
               <button
                 className="flex shrink-0 items-center justify-center rounded p-1 transition-colors hover:bg-muted"
                 onClick={() => toggleRun(execution.id)}
@@ -1335,6 +1462,13 @@ export function WorkflowRuns({
                     {/* end keeperhub code */}
                   </div>
                 )}
+                {/* start custom keeperhub code */}
+                <SubWorkflowRuns
+                  childExecutions={execution.childExecutions ?? []}
+                  getStatusDotClass={getStatusDotClass}
+                  getStatusIcon={getStatusIcon}
+                />
+                {/* end keeperhub code */}
               </div>
             )}
           </div>
@@ -6,6 +6,7 @@ import {
   Check,
   Copy,
   Download,
+  FlaskConical,
   Globe,
   Loader2,
   Lock,
@@ -37,6 +38,8 @@ import { GoLiveOverlay } from "@/keeperhub/components/overlays/go-live-overlay";
 import { Switch } from "@/keeperhub/components/ui/switch";
 // start custom keeperhub code //
 import { BUILTIN_NODE_ID } from "@/keeperhub/lib/builtin-variables";
+import { checkTemplateReferences } from "@/keeperhub/lib/template-type-check";
+import { VARIABLES_NODE_ID } from "@/keeperhub/lib/workflow-variables";
 import { api, type Project, type Tag } from "@/lib/api-client";
 import { authClient, useSession } from "@/lib/auth-client";
 import { getCustomLogo } from "@/lib/extension-registry";
@@ -215,7 +218,10 @@ function getBrokenTemplateReferences(
     const allRefs = extractAllTemplateReferences(config);
     // start custom keeperhub code //
     const brokenRefs = allRefs.filter(
-      (ref) => ref.nodeId !== BUILTIN_NODE_ID && !nodeIds.has(ref.nodeId)
+      (ref) =>
+        ref.nodeId !== BUILTIN_NODE_ID &&
+        ref.nodeId !== VARIABLES_NODE_ID &&
+        !nodeIds.has(ref.nodeId)
     );
     // end keeperhub code //
 
@@ -245,6 +251,58 @@ function getBrokenTemplateReferences(
   return brokenByNode;
 }
 
+// start custom keeperhub code //
+// Type for template references that point at unknown fields, nodes that do
+// not run first, non-arrays or mismatched types
+type InvalidTemplateReferenceInfo = {
+  nodeId: string;
+  nodeLabel: string;
+  invalidReferences: Array<{
+    fieldKey: string;
+    fieldLabel: string;
+    displayText: string;
+    message: string;
+  }>;
+};
+
+// Get template references that fail the save-time type checks, per node
+function getInvalidTemplateReferences(
+  nodes: WorkflowNode[],
+  edges: WorkflowEdge[]
+): InvalidTemplateReferenceInfo[] {
+  const invalidByNode = new Map<string, InvalidTemplateReferenceInfo>();
+
+  for (const issue of checkTemplateReferences(nodes, edges)) {
+    const node = nodes.find((n) => n.id === issue.nodeId);
+    const actionType = node?.data.config?.actionType as string | undefined;
+    const action = actionType ? findActionById(actionType) : undefined;
+    const configField = action
+      ? flattenConfigFields(action.configFields).find(
+          (f) => f.key === issue.fieldKey
+        )
+      : undefined;
+
+    let info = invalidByNode.get(issue.nodeId);
+    if (!info) {
+      info = {
+        nodeId: issue.nodeId,
+        nodeLabel: node?.data.label || action?.label || "Unnamed Step",
+        invalidReferences: [],
+      };
+      invalidByNode.set(issue.nodeId, info);
+    }
+    info.invalidReferences.push({
+      fieldKey: issue.fieldKey,
+      fieldLabel: configField?.label || issue.fieldKey,
+      displayText: issue.displayText,
+      message: issue.message,
+    });
+  }
+
+  return [...invalidByNode.values()];
+}
+// end keeperhub code //
+
 // Type for missing required fields info
 type MissingRequiredFieldInfo = {
   nodeId: string;
@@ -427,6 +485,9 @@ type ExecuteTestWorkflowParams = {
   pollingIntervalRef: React.MutableRefObject<NodeJS.Timeout | null>;
   setIsExecuting: (value: boolean) => void;
   setSelectedExecutionId: (value: string | null) => void;
+  // start custom keeperhub code //
+  dryRun?: boolean;
+  // end keeperhub code //
 };
 
 async function executeTestWorkflow({
@@ -436,6 +497,9 @@ async function executeTestWorkflow({
   pollingIntervalRef,
   setIsExecuting,
   setSelectedExecutionId,
+  // start custom keeperhub code //
+  dryRun = false,
+  // end keeperhub code //
 }: ExecuteTestWorkflowParams) {
   // Set all nodes to idle first
   updateNodesStatus(nodes, updateNodeData, "idle");
@@ -454,7 +518,7 @@ async function executeTestWorkflow({
       headers: {
         "Content-Type": "application/json",
       },
-      body: JSON.stringify({ input: {} }),
+      body: JSON.stringify({ input: {}, dryRun }),
     });
 
     if (!response.ok) {
@@ -574,6 +638,15 @@ function useWorkflowHandlers({
     try {
       await api.workflow.update(currentWorkflowId, { nodes, edges });
       setHasUnsavedChanges(false);
+      // start custom keeperhub code //
+      const referenceIssues = checkTemplateReferences(nodes, edges);
+      if (referenceIssues.length > 0) {
+        toast.warning(
+          `Saved with ${referenceIssues.length} invalid template reference${referenceIssues.length === 1 ? "" : "s"}`,
+          { description: referenceIssues[0].message }
+        );
+      }
+      // end keeperhub code //
     } catch (error) {
       console.error("Failed to save workflow:", error);
       toast.error("Failed to save workflow. Please try again.");
@@ -582,7 +655,7 @@ function useWorkflowHandlers({
     }
   };
 
-  const executeWorkflow = async () => {
+  const executeWorkflow = async (dryRun = false) => {
     if (!currentWorkflowId) {
       toast.error("Please save the workflow before executing");
       return;
@@ -604,6 +677,9 @@ function useWorkflowHandlers({
       pollingIntervalRef,
       setIsExecuting,
       setSelectedExecutionId,
+      // start custom keeperhub code //
+      dryRun,
+      // end keeperhub code //
     });
     // Don't set executing to false here - let polling handle it
   };
@@ -632,16 +708,25 @@ function useWorkflowHandlers({
     const brokenRefs = getBrokenTemplateReferences(nodes);
     const missingFields = getMissingRequiredFields(nodes);
     const missingIntegrations = getMissingIntegrations(nodes, userIntegrations);
+    // start custom keeperhub code //
+    const invalidRefs = getInvalidTemplateReferences(nodes, edges);
+    // end keeperhub code //
 
     if (
       brokenRefs.length > 0 ||
       missingFields.length > 0 ||
-      missingIntegrations.length > 0
+      missingIntegrations.length > 0 ||
+      // start custom keeperhub code //
+      invalidRefs.length > 0
+      // end keeperhub code //
     ) {
       return {
         brokenReferences: brokenRefs,
         missingRequiredFields: missingFields,
         missingIntegrations,
+        // start custom keeperhub code //
+        invalidReferences: invalidRefs,
+        // end keeperhub code //
       };
     }
     return null;
@@ -672,16 +757,19 @@ function useWorkflowHandlers({
     return true;
   };
 
-  const handleExecute = async () => {
+  // start custom keeperhub code //
+  const handleExecute = async (options?: { dryRun?: boolean }) => {
     // Guard against concurrent executions
     if (isExecuting) {
       return;
     }
 
-    if (validateAndProceed(executeWorkflow)) {
-      await executeWorkflow();
+    const dryRun = options?.dryRun === true;
+    if (validateAndProceed(() => executeWorkflow(dryRun))) {
+      await executeWorkflow(dryRun);
     }
   };
+  // end keeperhub code //
 
   return {
     handleSave,
@@ -1556,7 +1644,7 @@ function RunButtonGroup({
     isNonManualTrigger;
   // end custom keeperhub code //
 
-  const button = (
+  const runButton = (
     <Button
       className="min-w-20 bg-keeperhub-green hover:bg-keeperhub-green-dark disabled:opacity-70 disabled:[&>svg]:text-muted-foreground"
       disabled={disabled}
@@ -1573,6 +1661,23 @@ function RunButtonGroup({
     </Button>
   );
 
+  // start custom keeperhub code //
+  // Dry run: writes are simulated and notifications are not sent
+  const button = (
+    <div className="flex items-center gap-2">
+      <Button
+        disabled={disabled}
+        onClick={() => actions.handleExecute({ dryRun: true })}
+        title="Simulate the workflow without sending transactions or notifications"
+        variant="outline"
+      >
+        <FlaskConical className="size-4" /> Dry run
+      </Button>
+      {runButton}
+    </div>
+  );
+  // end keeperhub code //
+
   // start custom keeperhub code //
   if (isNonManualTrigger) {
     return (
@@ -0,0 +1 @@
+ALTER TABLE "workflow_execution_logs" ADD COLUMN "attempt" integer;
\ No newline at end of file
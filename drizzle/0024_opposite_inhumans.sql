@@ -0,0 +1 @@
+ALTER TABLE "workflow_executions" ADD COLUMN "waiting_until" timestamp;
\ No newline at end of file
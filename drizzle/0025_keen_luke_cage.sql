@@ -0,0 +1,2 @@
+ALTER TABLE "workflow_executions" ADD COLUMN "parent_execution_id" text;--> statement-breakpoint
+CREATE INDEX "idx_workflow_executions_parent" ON "workflow_executions" USING btree ("parent_execution_id");
\ No newline at end of file
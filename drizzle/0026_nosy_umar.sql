@@ -0,0 +1,2 @@
+ALTER TABLE "workflow_executions" ADD COLUMN "resumed_from_execution_id" text;--> statement-breakpoint
+CREATE INDEX "idx_workflow_executions_resumed_from" ON "workflow_executions" USING btree ("resumed_from_execution_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "workflows" ADD COLUMN "variables" jsonb DEFAULT '[]'::jsonb NOT NULL;
\ No newline at end of file
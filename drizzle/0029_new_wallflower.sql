@@ -0,0 +1 @@
+ALTER TABLE "workflows" ADD COLUMN "concurrency_policy" text DEFAULT 'allow' NOT NULL;
\ No newline at end of file
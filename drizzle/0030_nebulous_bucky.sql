@@ -0,0 +1,2 @@
+ALTER TABLE "workflow_executions" ADD COLUMN "dedupe_key" text;--> statement-breakpoint
+CREATE INDEX "idx_workflow_executions_dedupe" ON "workflow_executions" USING btree ("workflow_id","dedupe_key");
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "workflow_approvals" (
+	"id" text PRIMARY KEY NOT NULL,
+	"execution_id" text NOT NULL,
+	"workflow_id" text NOT NULL,
+	"organization_id" text NOT NULL,
+	"node_id" text NOT NULL,
+	"node_name" text NOT NULL,
+	"message" text NOT NULL,
+	"approver_role" text DEFAULT 'admin' NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"decided_by" text,
+	"decided_at" timestamp,
+	"comment" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "workflow_approvals" ADD CONSTRAINT "workflow_approvals_execution_id_workflow_executions_id_fk" FOREIGN KEY ("execution_id") REFERENCES "public"."workflow_executions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_approvals" ADD CONSTRAINT "workflow_approvals_workflow_id_workflows_id_fk" FOREIGN KEY ("workflow_id") REFERENCES "public"."workflows"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_approvals" ADD CONSTRAINT "workflow_approvals_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_approvals" ADD CONSTRAINT "workflow_approvals_decided_by_users_id_fk" FOREIGN KEY ("decided_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_workflow_approvals_org_status" ON "workflow_approvals" USING btree ("organization_id","status");--> statement-breakpoint
+CREATE INDEX "idx_workflow_approvals_execution" ON "workflow_approvals" USING btree ("execution_id");
\ No newline at end of file
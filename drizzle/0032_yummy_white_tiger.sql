@@ -0,0 +1,10 @@
+CREATE TABLE "workflow_webhook_secrets" (
+	"workflow_id" text PRIMARY KEY NOT NULL,
+	"secret" text NOT NULL,
+	"previous_secret" text,
+	"previous_secret_expires_at" timestamp,
+	"rotated_at" timestamp DEFAULT now() NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "workflow_webhook_secrets" ADD CONSTRAINT "workflow_webhook_secrets_workflow_id_workflows_id_fk" FOREIGN KEY ("workflow_id") REFERENCES "public"."workflows"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
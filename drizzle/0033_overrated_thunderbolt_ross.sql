@@ -0,0 +1,11 @@
+CREATE TABLE "workflow_webhook_paths" (
+	"workflow_id" text PRIMARY KEY NOT NULL,
+	"organization_id" text NOT NULL,
+	"path" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "workflow_webhook_paths_org_path" UNIQUE("organization_id","path")
+);
+--> statement-breakpoint
+ALTER TABLE "workflow_webhook_paths" ADD CONSTRAINT "workflow_webhook_paths_workflow_id_workflows_id_fk" FOREIGN KEY ("workflow_id") REFERENCES "public"."workflows"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workflow_webhook_paths" ADD CONSTRAINT "workflow_webhook_paths_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
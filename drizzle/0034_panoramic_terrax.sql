@@ -0,0 +1 @@
+ALTER TABLE "workflow_execution_logs" ADD COLUMN "replay_output" jsonb;
\ No newline at end of file
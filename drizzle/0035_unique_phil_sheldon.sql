@@ -0,0 +1,2 @@
+ALTER TABLE "workflow_executions" ADD COLUMN "suspended_at" timestamp;--> statement-breakpoint
+CREATE INDEX "idx_workflow_executions_suspended" ON "workflow_executions" USING btree ("suspended_at","waiting_until");
\ No newline at end of file
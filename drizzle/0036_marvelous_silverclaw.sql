@@ -0,0 +1 @@
+ALTER TABLE "pending_transactions" ADD COLUMN "node_id" text;
\ No newline at end of file
@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import {
+  isApprovalDecision,
+  MAX_APPROVAL_COMMENT_LENGTH,
+} from "@/keeperhub/lib/approvals";
+import { decideApproval } from "@/keeperhub/lib/execution-approvals";
+import { wakeApprovalExecution } from "@/keeperhub/lib/execution-suspend";
+import { ErrorCategory, logSystemError } from "@/keeperhub/lib/logging";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+
+type DecideBody = {
+  decision?: unknown;
+  comment?: unknown;
+};
+
+/**
+ * Approve or reject a pending approval request. Only signed-in members of the
+ * workflow's organization with at least the approval's role may decide, and
+ * the decision is recorded with who made it. The waiting execution picks it
+ * up on its next check; a run the K8s runner suspended is continued now.
+ */
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ approvalId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { approvalId } = await context.params;
+
+    const session = await auth.api.getSession({
+      headers: request.headers,
+    });
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await request.json().catch(() => ({}))) as DecideBody;
+    if (!isApprovalDecision(body.decision)) {
+      return NextResponse.json(
+        { error: 'decision must be "approved" or "rejected"' },
+        { status: 400 }
+      );
+    }
+    if (
+      body.comment !== undefined &&
+      body.comment !== null &&
+      (typeof body.comment !== "string" ||
+        body.comment.length > MAX_APPROVAL_COMMENT_LENGTH)
+    ) {
+      return NextResponse.json(
+        {
+          error: `comment must be a string of at most ${MAX_APPROVAL_COMMENT_LENGTH} characters`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const result = await decideApproval(db, {
+      approvalId,
+      userId: session.user.id,
+      decision: body.decision,
+      comment: body.comment,
+    });
+    if (!result.ok) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.status }
+      );
+    }
+    await wakeApprovalExecution(db, approvalId);
+
+    return NextResponse.json({
+      ...result.approval,
+      decidedAt: result.approval.decidedAt?.toISOString() ?? null,
+    });
+  } catch (error) {
+    logSystemError(ErrorCategory.DATABASE, "Failed to decide approval", error, {
+      endpoint: "/api/approvals/[approvalId]/decide",
+      operation: "post",
+    });
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to decide approval",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,151 @@
+import { and, desc, eq, gt, lte, or, type SQL } from "drizzle-orm";
+import { NextResponse } from "next/server";
+import { authenticateApiKey } from "@/keeperhub/lib/api-key-auth";
+import {
+  APPROVAL_STATUSES,
+  type ApprovalStatus,
+  getEffectiveApprovalStatus,
+} from "@/keeperhub/lib/approvals";
+import { ErrorCategory, logSystemError } from "@/keeperhub/lib/logging";
+import { getOrgContext } from "@/keeperhub/lib/middleware/org-context";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { users, workflowApprovals, workflows } from "@/lib/db/schema";
+
+const MAX_APPROVALS = 100;
+
+/**
+ * Filter for an effective status: a pending approval past its expiry counts
+ * as expired, whether or not its execution has closed it yet.
+ */
+function statusFilter(status: ApprovalStatus): SQL | undefined {
+  const now = new Date();
+  if (status === "pending") {
+    return and(
+      eq(workflowApprovals.status, "pending"),
+      gt(workflowApprovals.expiresAt, now)
+    );
+  }
+  if (status === "expired") {
+    return or(
+      eq(workflowApprovals.status, "expired"),
+      and(
+        eq(workflowApprovals.status, "pending"),
+        lte(workflowApprovals.expiresAt, now)
+      )
+    );
+  }
+  return eq(workflowApprovals.status, status);
+}
+
+/**
+ * List the approval requests of the active organization, newest first.
+ * Optional filters: status, workflowId and executionId.
+ */
+export async function GET(request: Request): Promise<NextResponse> {
+  try {
+    const apiKeyAuth = await authenticateApiKey(request);
+    let organizationId: string | null;
+
+    if (apiKeyAuth.authenticated) {
+      organizationId = apiKeyAuth.organizationId || null;
+    } else {
+      const session = await auth.api.getSession({
+        headers: request.headers,
+      });
+
+      if (!session?.user) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+      }
+
+      const context = await getOrgContext();
+      organizationId = context.organization?.id || null;
+    }
+
+    if (!organizationId) {
+      return NextResponse.json(
+        { error: "No active organization" },
+        { status: 400 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get("status");
+    const workflowId = searchParams.get("workflowId");
+    const executionId = searchParams.get("executionId");
+
+    if (
+      status !== null &&
+      !(APPROVAL_STATUSES as readonly string[]).includes(status)
+    ) {
+      return NextResponse.json(
+        {
+          error: `Invalid status. Must be one of: ${APPROVAL_STATUSES.join(", ")}`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const rows = await db
+      .select({
+        id: workflowApprovals.id,
+        executionId: workflowApprovals.executionId,
+        workflowId: workflowApprovals.workflowId,
+        workflowName: workflows.name,
+        nodeId: workflowApprovals.nodeId,
+        nodeName: workflowApprovals.nodeName,
+        message: workflowApprovals.message,
+        approverRole: workflowApprovals.approverRole,
+        status: workflowApprovals.status,
+        expiresAt: workflowApprovals.expiresAt,
+        decidedAt: workflowApprovals.decidedAt,
+        comment: workflowApprovals.comment,
+        createdAt: workflowApprovals.createdAt,
+        deciderId: users.id,
+        deciderName: users.name,
+        deciderEmail: users.email,
+      })
+      .from(workflowApprovals)
+      .innerJoin(workflows, eq(workflows.id, workflowApprovals.workflowId))
+      .leftJoin(users, eq(users.id, workflowApprovals.decidedBy))
+      .where(
+        and(
+          eq(workflowApprovals.organizationId, organizationId),
+          status ? statusFilter(status as ApprovalStatus) : undefined,
+          workflowId ? eq(workflowApprovals.workflowId, workflowId) : undefined,
+          executionId
+            ? eq(workflowApprovals.executionId, executionId)
+            : undefined
+        )
+      )
+      .orderBy(desc(workflowApprovals.createdAt))
+      .limit(MAX_APPROVALS);
+
+    const response = rows.map(
+      ({ deciderId, deciderName, deciderEmail, ...approval }) => ({
+        ...approval,
+        status: getEffectiveApprovalStatus(approval),
+        decidedBy: deciderId
+          ? { id: deciderId, name: deciderName, email: deciderEmail }
+          : null,
+        expiresAt: approval.expiresAt.toISOString(),
+        decidedAt: approval.decidedAt?.toISOString() ?? null,
+        createdAt: approval.createdAt.toISOString(),
+      })
+    );
+
+    return NextResponse.json(response);
+  } catch (error) {
+    logSystemError(ErrorCategory.DATABASE, "Failed to list approvals", error, {
+      endpoint: "/api/approvals",
+      operation: "get",
+    });
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to list approvals",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import {
+  POST as handleWebhook,
+  OPTIONS as handleWebhookPreflight,
+} from "@/app/api/workflows/[workflowId]/webhook/route";
+import { resolveWebhookPath } from "@/keeperhub/lib/webhook-paths";
+
+type RouteContext = { params: Promise<{ orgSlug: string; path: string[] }> };
+
+/**
+ * A Webhook trigger at its vanity path, /hooks/{orgSlug}/{path}. The request
+ * is handled as if sent to /api/workflows/{workflowId}/webhook.
+ */
+async function handleVanityWebhook(
+  request: Request,
+  context: RouteContext
+): Promise<Response> {
+  const { orgSlug, path } = await context.params;
+  const workflowId = await resolveWebhookPath(orgSlug, path.join("/"));
+  if (!workflowId) {
+    return NextResponse.json(
+      { error: "Webhook not found" },
+      { status: 404, headers: { "Access-Control-Allow-Origin": "*" } }
+    );
+  }
+  return handleWebhook(request, { params: Promise.resolve({ workflowId }) });
+}
+
+/** CORS preflight, answered with the headers of the trigger at the path */
+export async function OPTIONS(
+  request: Request,
+  context: RouteContext
+): Promise<Response> {
+  const { orgSlug, path } = await context.params;
+  const workflowId = await resolveWebhookPath(orgSlug, path.join("/"));
+  return handleWebhookPreflight(request, {
+    params: Promise.resolve({ workflowId: workflowId ?? "" }),
+  });
+}
+
+export {
+  handleVanityWebhook as GET,
+  handleVanityWebhook as POST,
+  handleVanityWebhook as PUT,
+};
@@ -7,6 +7,17 @@ import {
   BUILTIN_NODE_ID,
   BUILTIN_NODE_LABEL,
 } from "@/keeperhub/lib/builtin-variables";
+import { CONCURRENCY_POLICY_OPTIONS } from "@/keeperhub/lib/concurrency-policy";
+import { TEMPLATE_FILTERS } from "@/keeperhub/lib/template-filters";
+import {
+  DEFAULT_DEDUPE_WINDOW_SECONDS,
+  IDEMPOTENCY_KEY_HEADER,
+} from "@/keeperhub/lib/trigger-dedupe";
+import {
+  VARIABLES_NODE_ID,
+  VARIABLES_NODE_LABEL,
+  WORKFLOW_VARIABLE_TYPES,
+} from "@/keeperhub/lib/workflow-variables";
 
 import { db } from "@/lib/db";
 import { chains, explorerConfigs } from "@/lib/db/schema";
@@ -28,7 +39,7 @@ const SYSTEM_ACTIONS = {
     actionType: "Condition",
     label: "Condition",
     description:
-      "Conditional gate - only continues to connected nodes if condition evaluates to true. For if/else logic, create TWO separate Condition nodes from the same source with opposite conditions.",
+      'If/else branch - evaluates the expression and continues down the "true" or "false" output. Connect downstream nodes with sourceHandle "true" or "false" on the edge.',
     category: "System",
     requiredFields: {
       condition:
@@ -36,10 +47,14 @@ const SYSTEM_ACTIONS = {
     },
     optionalFields: {},
     outputFields: {
-      result: "boolean - Whether the condition evaluated to true",
+      condition: "boolean - Whether the condition evaluated to true",
+    },
+    sourceHandles: {
+      true: 'Edges with sourceHandle "true" run when the condition is true',
+      false: 'Edges with sourceHandle "false" run when the condition is false',
     },
     behavior:
-      "GATE (not branch) - execution only continues if condition is TRUE. No false branch exists.",
+      'BRANCH - only the edges of the taken branch run. Edges without a sourceHandle are treated as the "true" branch, so a Condition with no "false" edges acts as a gate.',
   },
   "HTTP Request": {
     actionType: "HTTP Request",
@@ -108,11 +123,39 @@ const SYSTEM_ACTIONS = {
     behavior:
       "LOOP - executes all downstream nodes once per array element. Optionally end with a Collect node to aggregate results. Without Collect, all downstream nodes run as fire-and-forget.",
   },
+  While: {
+    actionType: "While",
+    label: "While",
+    description:
+      "Repeat the connected body nodes while a condition holds, carrying a state object from one iteration to the next. Use to page through APIs (cursor / next page), Safe transaction service results or block ranges in chunks, where the items are not known up front.",
+    category: "System",
+    requiredFields: {
+      condition:
+        'string - Expression checked before every iteration against the current state, e.g., "{{@while-1:While.state.hasMore}} === true"',
+    },
+    optionalFields: {
+      initialState:
+        'string - JSON object the first iteration starts with, may use templates, e.g., \'{"page": 1, "hasMore": true}\' (default {})',
+      nextState:
+        'string - JSON object resolved after every iteration against its outputs and used as the next state, e.g., \'{"page": {{@http-1:Fetch Page.data.nextPage}}, "hasMore": {{@http-1:Fetch Page.data.hasMore}}}\'. Empty keeps the state.',
+      maxIterations:
+        "string - Fail once the condition still holds after this many iterations (default 100, max 1000)",
+    },
+    outputFields: {
+      state:
+        "object - Current state inside the loop body ({{@while-1:While.state.page}}), the final state after it",
+      iteration:
+        "number - Current zero-based iteration index (available inside loop body only)",
+      iterations: "number - Number of iterations that ran (after the loop)",
+    },
+    behavior:
+      'LOOP - like For Each, body nodes hang off the "loop" handle and a Collect on the "done" handle gathers one result per iteration. Iterations run one at a time.',
+  },
   Collect: {
     actionType: "Collect",
     label: "Collect",
     description:
-      "Gathers results from a preceding For Each loop into an array. Place downstream of a For Each node to mark the end of the loop body and enable result aggregation.",
+      "Gathers results from a preceding For Each or While loop into an array. Place downstream of a For Each or While node to mark the end of the loop body and enable result aggregation.",
     category: "System",
     requiredFields: {},
     optionalFields: {},
@@ -122,19 +165,158 @@ const SYSTEM_ACTIONS = {
       count: "number - Number of iterations completed",
     },
   },
+  Switch: {
+    actionType: "Switch",
+    label: "Switch",
+    description:
+      'Multi-way router - matches a value against ordered cases and continues down the output of the first matching case, or "default" when none match.',
+    category: "System",
+    requiredFields: {
+      switchValue:
+        'string - Value to route on, e.g., "{{@assess-1:Assess Risk.riskLevel}}"',
+      cases:
+        'string - JSON array of cases, checked in order: [{"id":"case-high","label":"High","type":"equals","value":"high"},{"id":"case-big","label":"Big","type":"range","min":"100","max":"1000"},{"id":"case-hex","label":"Hex","type":"regex","value":"^0x"}]. type is "equals" | "range" (min inclusive, max exclusive, either optional) | "regex". ids must be unique and not "default".',
+    },
+    optionalFields: {},
+    outputFields: {
+      value: "unknown - The value that was routed on",
+      matchedCase: 'string - id of the matched case, or "default"',
+      matchedLabel: "string - label of the matched case",
+    },
+    sourceHandles: {
+      "<case id>":
+        "Edges with sourceHandle set to a case id run when that case matches",
+      default: 'Edges with sourceHandle "default" run when no case matches',
+    },
+    behavior:
+      'BRANCH - only the edges of the first matching case run. Edges without a sourceHandle are treated as the "default" branch.',
+  },
+  Delay: {
+    actionType: "Delay",
+    label: "Delay",
+    description:
+      "Pause the execution for a fixed duration or until a point in time (e.g., a governance proposal's ETA), then continue. Uses a durable timer, so no worker is held while waiting.",
+    category: "System",
+    requiredFields: {},
+    optionalFields: {
+      delayMode: '"duration" (default) | "until"',
+      delayAmount: 'string - Amount to wait when delayMode is "duration"',
+      delayUnit:
+        '"seconds" (default) | "minutes" | "hours" | "days" - Unit of delayAmount',
+      delayUntil:
+        'string - When delayMode is "until": ISO date or unix timestamp (seconds or ms), e.g., "{{@read-1:Read Proposal.eta}}". Past times resume immediately.',
+    },
+    outputFields: {
+      resumeAt: "string - Scheduled resume time (ISO)",
+      resumedAt: "string - Actual resume time (ISO)",
+      waitedMs: "number - Time spent waiting in milliseconds",
+    },
+    behavior: "WAIT - delays are limited to 30 days",
+  },
+  "Wait Until": {
+    actionType: "Wait Until",
+    label: "Wait Until",
+    description:
+      "Repeat an earlier read step on an interval until a condition holds, then continue. Use instead of a frequent schedule plus a Condition gate (e.g., wait until an auction is kickable, then call kick).",
+    category: "System",
+    requiredFields: {
+      pollNodeId:
+        "string - id of the read node to repeat (web3/read-contract, web3/check-balance or HTTP Request); it must run before this node",
+      condition:
+        'string - Expression re-evaluated after every read, e.g., "{{@read-1:Read Auction.result}} === true"',
+    },
+    optionalFields: {
+      pollIntervalSeconds: "string - Seconds between reads (default 60, min 5)",
+      maxWaitSeconds:
+        "string - Fail once the condition is still false after this long (default 3600, max 604800)",
+    },
+    outputFields: {
+      result: "unknown - Output of the final read",
+      polls: "number - Number of reads performed, including the first",
+      elapsedMs: "number - Time spent waiting in milliseconds",
+    },
+    behavior:
+      "WAIT - the read node's output is replaced by each new read, so later nodes see the final values",
+  },
+  Approval: {
+    actionType: "Approval",
+    label: "Approval",
+    description:
+      "Pause the execution until an organization member approves or rejects it in the app (or via POST /api/approvals/{id}/decide), then continue down the matching branch. Use before risky writes such as large transfers.",
+    category: "System",
+    requiredFields: {},
+    optionalFields: {
+      approvalMessage:
+        'string - What the approvers are asked, may use templates, e.g., "Send {{@check-1:Check Balance.balance}} ETH to treasury?"',
+      approverRole:
+        '"member" | "admin" (default) | "owner" - Lowest organization role allowed to decide',
+      expiresInHours:
+        'string - Hours before an undecided approval expires and takes the "rejected" branch (default 24, max 720)',
+      notifyEmail: '"true" (default) | "false" - Email the eligible approvers',
+      discordIntegrationId:
+        "string - Discord integration id to post the approval link to",
+      telegramIntegrationId:
+        "string - Telegram integration id to post the approval link to (requires telegramChatId)",
+      telegramChatId: "string - Telegram chat id to post to",
+    },
+    outputFields: {
+      decision: '"approved" | "rejected" | "expired"',
+      approved: "boolean - Whether the request was approved",
+      decidedBy:
+        "object | null - Member who decided: { id, name, email } (audit trail)",
+      decidedAt: "string | null - Decision time (ISO)",
+      comment: "string | null - Comment left with the decision",
+      waitedMs: "number - Time spent waiting in milliseconds",
+      approvalId: "string - id of the approval request",
+    },
+    sourceHandles: {
+      approved: 'Edges with sourceHandle "approved" run once approved',
+      rejected:
+        'Edges with sourceHandle "rejected" run when rejected or expired',
+    },
+    behavior:
+      'WAIT/BRANCH - edges without a sourceHandle are treated as the "approved" branch. Dry runs take the approved branch without asking anyone.',
+  },
+  "Execute Workflow": {
+    actionType: "Execute Workflow",
+    label: "Execute Workflow",
+    description:
+      "Run another workflow of the same organization as a sub-workflow, wait for it to finish and use its final output. Use it to share common tails (e.g., notify on-call across Discord, Telegram and email) between workflows.",
+    category: "System",
+    requiredFields: {
+      subWorkflowId: "string - id of the workflow to run",
+    },
+    optionalFields: {
+      subWorkflowInput:
+        'string - JSON object passed to the sub-workflow as its trigger output, e.g., {"message": "{{@check-1:Check Balance.balance}}"}',
+    },
+    outputFields: {
+      output: "unknown - Final output of the sub-workflow (its last step)",
+      executionId: "string - Execution id of the sub-workflow run",
+      workflowId: "string - id of the workflow that ran",
+    },
+    behavior:
+      "WAIT - fails when the sub-workflow fails. A workflow cannot call itself (directly or through others) and sub-workflows nest at most 5 levels deep.",
+  },
 } as const;
 
 // =============================================================================
 // TRIGGERS (inline - these rarely change)
 // To add a new trigger: add entry here and implement in trigger-config.tsx
 // =============================================================================
+// start custom keeperhub code //
+const DEDUPE_WINDOW_FIELD = `string - Seconds a trigger's de-duplication key is remembered; a repeated key does not start another run (default "${DEFAULT_DEDUPE_WINDOW_SECONDS}", "0" turns it off)`;
+// end keeperhub code //
+
 const TRIGGERS = {
   Manual: {
     triggerType: "Manual",
     label: "Manual",
     description: "Manually triggered workflow via UI or API",
     requiredFields: {},
-    optionalFields: {},
+    optionalFields: {
+      dedupeWindowSeconds: `${DEDUPE_WINDOW_FIELD}. Key: the ${IDEMPOTENCY_KEY_HEADER} header of API runs`,
+    },
     outputFields: {
       triggeredAt:
         "string - ISO timestamp when the workflow was triggered (available on all trigger types)",
@@ -150,6 +332,7 @@ const TRIGGERS = {
     },
     optionalFields: {
       scheduleTimezone: 'string - Timezone (e.g., "America/New_York", "UTC")',
+      dedupeWindowSeconds: `${DEDUPE_WINDOW_FIELD}. Key: the scheduled time`,
     },
     outputFields: {
       triggeredAt:
@@ -163,14 +346,46 @@ const TRIGGERS = {
       "HTTP webhook trigger - workflow executes when webhook URL receives a request",
     requiredFields: {},
     optionalFields: {
-      webhookSchema: "string - JSON schema for expected payload validation",
-      webhookMockRequest: "string - Sample JSON payload for testing",
+      webhookSchema:
+        'string - JSON array of payload fields ({ name, type: "string"|"number"|"boolean"|"array"|"object", itemType?, fields?, optional? }). The fields become the trigger outputs',
+      webhookValidatePayload:
+        'string - "true" to reject requests missing a required webhookSchema field or sending the wrong type with 400 (default: not validated)',
+      webhookMockRequest:
+        "string - Sample JSON payload for test runs (default: an example generated from webhookSchema)",
+      webhookMethods:
+        'string - Comma-separated HTTP methods the webhook accepts: "POST" (default), "GET", "PUT". GET query parameters stand in for the body',
+      webhookPath:
+        'string - Vanity path, unique within the organization, e.g. "alerts/uptime". The webhook is then also reachable at /hooks/{orgSlug}/{path}',
+      dedupeWindowSeconds: `${DEDUPE_WINDOW_FIELD}. Key: the idempotency header`,
+      dedupeHeader: `string - Request header carrying the idempotency key (default "${IDEMPOTENCY_KEY_HEADER}")`,
+      webhookAuth:
+        'string - "apiKey" (default, Authorization: Bearer wfb_...) or "hmac" (signature made with the workflow\'s webhook secret over the body; a GET request signs "GET <query string>")',
+      webhookSignatureHeader:
+        'string - Header carrying the HMAC signature (default "X-Signature")',
+      webhookSignatureAlgorithm: "string - sha256 (default), sha1 or sha512",
+      webhookTimestampHeader:
+        'string - Header carrying the send time. When set, the signed payload is "<timestamp>.<body>"',
+      webhookSignatureTolerance:
+        "string - Max age of a signed timestamp in seconds (default 300)",
+      webhookResponseMode:
+        'string - "async" (default, respond at once with the execution id) or "sync" (hold the request open and respond with a step output)',
+      webhookResponseNodeId:
+        "string - Sync mode: node whose output is the response body (default: the last step run)",
+      webhookResponseField:
+        'string - Sync mode: dot path into the response node output, e.g. "result"',
+      webhookResponseStatus:
+        "string - Sync mode: HTTP status of a successful run (default 200)",
+      webhookResponseHeaders:
+        'string - Sync mode: JSON object of response headers, e.g. {"Cache-Control":"no-store"}',
+      webhookResponseMaxWait:
+        "string - Sync mode: seconds to wait before answering 202 with the execution id (default 30, max 300)",
     },
     outputFields: {
-      body: "object - Webhook request body",
-      headers: "object - Webhook request headers",
-      method: "string - HTTP method (GET, POST, etc.)",
-      query: "object - Query parameters",
+      body: "object - Webhook request body (query parameters for GET requests)",
+      query: "object - Query parameters; repeated parameters are arrays",
+      headers:
+        "object - Request headers with lowercase names, without Authorization and Cookie",
+      method: "string - HTTP method (GET, POST or PUT)",
       triggeredAt:
         "string - ISO timestamp when the webhook was received (available on all trigger types)",
     },
@@ -187,9 +402,15 @@ const TRIGGERS = {
       contractABI:
         "string - Contract ABI JSON (auto-fetched if contract is verified)",
       eventName:
-        'string - Event name to listen for (e.g., "Transfer", "Approval")',
+        'string - Event name to listen for (e.g., "Transfer"), or several comma-separated names from the same ABI (e.g., "Transfer,Approval")',
+    },
+    optionalFields: {
+      additionalAddresses:
+        "string - More contract addresses sharing contractABI to watch, newline or comma separated",
+      eventFilters:
+        'string - JSON array of argument filters that must all match: { event?, arg, operator: "eq"|"neq"|"gt"|"gte"|"lt"|"lte"|"in", value }, e.g. [{"arg":"to","operator":"eq","value":"0x..."},{"arg":"value","operator":"gt","value":"1e24"}]. "in" takes comma-separated values; indexed args with eq/in are filtered by topic',
+      dedupeWindowSeconds: `${DEDUPE_WINDOW_FIELD}. Key: transactionHash:logIndex`,
     },
-    optionalFields: {},
     outputFields: {
       eventName: "string - Name of the event that was emitted",
       args: "object - Event arguments (decoded parameters from ABI)",
@@ -211,7 +432,9 @@ const TRIGGERS = {
       blockInterval:
         'string - Fire every N blocks (e.g., "1" for every block, "10" for every 10th)',
     },
-    optionalFields: {},
+    optionalFields: {
+      dedupeWindowSeconds: `${DEDUPE_WINDOW_FIELD}. Key: the block number`,
+    },
     outputFields: {
       blockNumber: "number - The block height",
       blockHash: "string - Hash of the block",
@@ -250,13 +473,40 @@ const TEMPLATE_SYNTAX = {
       description:
         "Current Unix timestamp in seconds (built-in, evaluated at execution time)",
     },
+    {
+      template: `{{@${VARIABLES_NODE_ID}:${VARIABLES_NODE_LABEL}.vaultAddress}}`,
+      description: "Value of the workflow variable 'vaultAddress'",
+    },
+    {
+      template:
+        "{{@check-balance:Check Balance.balanceWei | formatUnits:18 | toFixed:4}}",
+      description:
+        "Wei balance as ETH rounded to 4 decimals, e.g. for a Discord message",
+    },
   ],
+  filters: Object.fromEntries(
+    TEMPLATE_FILTERS.map((filter) => [filter.snippet, filter.description])
+  ),
   notes: [
     "nodeId is the unique identifier of the node (visible in node settings)",
     "Label is the human-readable name shown on the node",
     "Nested fields use dot notation (e.g., data.nested.value)",
     "Templates are resolved at runtime before each step executes",
+    'Pipe filters transform the value left to right: {{@id:Label.field | filter:arg}}. Quote text arguments, e.g. default:"0". Missing values pass through every filter except default',
   ],
+  referenceChecks: {
+    description:
+      "PATCH /api/workflows/:id with nodes or edges returns referenceIssues: [{ kind, nodeId, fieldKey, displayText, referencedNodeId, message }]. The workflow is still saved; fix each issue and save again. Fields are checked for actions with declared outputs, Read Contract (from the ABI), Database Query (from dbSchema) and Block and Event triggers; other outputs (HTTP, webhook, manual) are only checked for order.",
+    kinds: {
+      "unknown-field": "The referenced node does not output this field",
+      "not-upstream":
+        "The referenced node does not run before the node using it (no path of edges)",
+      "not-array":
+        "An index like [0] is read from a value that is not an array",
+      "type-mismatch":
+        'A Condition, Wait Until or While compares a number with a string, e.g. blockNumber === "100"',
+    },
+  },
 };
 
 // =============================================================================
@@ -278,7 +528,9 @@ function mapFieldType(field: ActionConfigFieldBase): string {
     case "abi-with-auto-fetch":
       return "string (JSON ABI - auto-fetched for verified contracts)";
     case "abi-event-select":
-      return "string (event name from ABI)";
+      return field.multiple
+        ? "string (comma-separated event names from ABI)"
+        : "string (event name from ABI)";
     case "select":
       return `string (${field.options?.map((o) => `"${o.value}"`).join(" | ") || "select"})`;
     case "template-input":
@@ -523,6 +775,34 @@ export async function GET(request: Request) {
         },
       },
     },
+
+    // Workflow-level variables (set on the workflow's "variables" field)
+    workflowVariables: {
+      description: `Named values declared once per workflow and referenced from any node as {{@${VARIABLES_NODE_ID}:${VARIABLES_NODE_LABEL}.name}}. Use them for values shared by several nodes (addresses, thresholds, chain, token) and for the values a template user must fill in.`,
+      nodeId: VARIABLES_NODE_ID,
+      nodeLabel: VARIABLES_NODE_LABEL,
+      variableStructure: {
+        name: "string - Letters, digits and underscores, not starting with a digit",
+        type: `"${WORKFLOW_VARIABLE_TYPES.join('" | "')}" - Value is converted to this type at run time`,
+        value: 'string - The value, or "" if not set yet',
+        description: "string - Optional help text",
+        required:
+          "boolean - Optional; the workflow cannot run until the variable has a value",
+      },
+    },
+
+    // Workflow-level setting (the workflow's "concurrencyPolicy" field)
+    concurrencyPolicy: {
+      description:
+        "What happens when the workflow is triggered while a previous run is still in progress. Applies to every trigger type. Use skip or queue for block and event triggers that send transactions.",
+      default: "allow",
+      values: Object.fromEntries(
+        CONCURRENCY_POLICY_OPTIONS.map((option) => [
+          option.value,
+          option.description,
+        ])
+      ),
+    },
     // end keeperhub code //
 
     // Workflow structure hints for AI
@@ -544,7 +824,38 @@ export async function GET(request: Request) {
         id: "string - Unique edge identifier",
         source: "string - Source node ID",
         target: "string - Target node ID",
-        note: "Do NOT use sourceHandle or targetHandle - KeeperHub uses simple handles",
+        sourceHandle:
+          'string - Condition ("true" | "false"), Switch (case id | "default"), Approval ("approved" | "rejected") and For Each / While ("loop" | "done") sources; "error" on any other action node for its on-failure path; omit otherwise',
+        note: "Do NOT use targetHandle - KeeperHub uses simple target handles",
+      },
+      retryPolicy: {
+        description:
+          "Optional keys on any action node's config (except Condition, Switch, Approval, For Each, While, Collect) to retry failed attempts. Write actions only retry when no transaction was broadcast.",
+        retryMaxAttempts:
+          'string - Total attempts including the first, 1-10 (default "1" = no retries)',
+        retryBackoff: '"exponential" (default) | "fixed"',
+        retryDelaySeconds:
+          'string - Delay before the first retry in seconds, doubled per attempt when exponential, capped at 300 (default "5")',
+        retryOn:
+          'string - Comma-separated error kinds: network, timeout, rate-limit, server (default: all four), or "any" to retry every error',
+      },
+      errorHandling: {
+        description:
+          'An edge with sourceHandle "error" runs only when its source action fails; other edges from that node run only on success. The failed node\'s output becomes { success: false, error, nodeName }, so handlers can use {{@nodeId:Label.error}} and {{@nodeId:Label.nodeName}}. The run is still marked failed unless a node directly on the failure path has recoverFailure "true" in its config and succeeds.',
+      },
+      timeouts: {
+        description:
+          'Optional limits; a run or step that exceeds them ends with status "timeout"',
+        timeoutSeconds:
+          "string - On an action node's config (except Condition, Switch, Approval, For Each, While, Collect): max seconds per attempt, up to 3600",
+        workflowTimeoutSeconds:
+          "string - On the trigger node's config: max seconds for the whole run, up to 86400",
+      },
+      joins: {
+        description:
+          "A node with edges from several nodes is a join. By default it runs once, after every incoming branch has finished, and can read all of their outputs; it is skipped when an incoming branch fails or none of them leads to it (e.g. Conditions that went the other way). Use this to run reads in parallel and then compare them.",
+        joinMode:
+          '"all" (default) | "any" - On the join node\'s config: "any" runs it as soon as the first incoming branch reaches it',
       },
     },
 
@@ -567,14 +878,43 @@ export async function GET(request: Request) {
       },
     },
 
+    // Validation - checking a workflow before enabling it
+    validation: {
+      description:
+        'Checks a workflow for cycles, unreachable nodes, a missing trigger, missing or unknown actionType, empty required fields, missing or foreign integrations, unknown or disabled chains, invalid conditions and template references that do not match. Returns { valid, errorCount, warningCount, diagnostics: [{ code, severity, message, nodeId?, fieldKey? }] }; valid is true when no diagnostic has severity "error".',
+      endpoints: {
+        saved: "POST /api/workflows/:id/validate - Validate a saved workflow",
+        unsaved:
+          "POST /api/workflows/validate with { nodes, edges } - Validate a graph before creating or updating a workflow",
+      },
+    },
+
+    // Executions - monitoring and stopping runs
+    executions: {
+      description:
+        'Runs of a workflow. A cancelled run finishes the step in progress, runs no further steps or loop iterations, and ends with status "cancelled". Resuming a failed, timed out or cancelled run starts a new run that reuses the outputs of the steps that completed instead of running them again.',
+      endpoints: {
+        dryRun:
+          'POST /api/workflow/:id/execute with {"dryRun": true} - Run the workflow with write steps simulated (eth_call + estimateGas), notifications not sent, and non-GET HTTP requests, non-SELECT queries and Clerk, Webflow and v0 writes skipped; simulated step outputs have "simulated": true. GET requests, SELECT queries and Run Code still run',
+        status:
+          "GET /api/workflows/executions/:id/status - Status and progress of a run",
+        cancel:
+          "POST /api/workflows/executions/:id/cancel - Stop a pending or running run and the sub-workflow runs it started (409 if it already finished)",
+        resume:
+          "POST /api/workflows/executions/:id/resume - Start a new run that continues a failed, timed out or cancelled run from the step(s) that did not complete (409 for other statuses)",
+      },
+    },
+
     // Tips for AI workflow generation
     tips: [
       "actionType must match exactly (e.g., 'web3/check-balance', not 'Get Wallet Balance')",
+      "Validate a workflow with POST /api/workflows/:id/validate before enabling it, and fix every error diagnostic",
       "Use {{@nodeId:Label.field}} syntax to reference outputs from previous nodes",
       "network should be chain ID as string (e.g., '1' for mainnet, '11155111' for sepolia)",
-      "Edges only need id, source, and target - do NOT use sourceHandle or targetHandle",
+      'Edges only need id, source, and target - add sourceHandle only on edges leaving a Condition ("true" / "false"), Switch (case id / "default"), Approval ("approved" / "rejected") or For Each / While ("loop" / "done") node',
       "For verified contracts, ABI is auto-fetched. For unverified contracts, provide ABI manually.",
-      "Condition nodes act as GATES, not branches. For if/else, create TWO condition nodes with opposite expressions.",
+      'For if/else, use ONE Condition node: connect the "then" nodes with sourceHandle "true" and the "else" nodes with sourceHandle "false". Do not duplicate a Condition with the opposite expression.',
+      "For three or more branches on one value, use a Switch node instead of chaining Conditions",
       "integrationId is required for actions that need credentials (discord, sendgrid, database)",
       "web3 read actions (check-balance, read-contract) don't require wallet integration",
       "web3 write actions (transfer-funds, write-contract) require wallet integration",
@@ -0,0 +1,69 @@
+import { eq } from "drizzle-orm";
+import { NextResponse } from "next/server";
+import {
+  getValidationCaller,
+  validateWorkflowDefinition,
+} from "@/keeperhub/api/workflows/_lib/validate";
+import { ErrorCategory, logSystemError } from "@/keeperhub/lib/logging";
+import { db } from "@/lib/db";
+import { workflows } from "@/lib/db/schema";
+
+/** Validate a saved workflow, e.g. before enabling it */
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ workflowId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { workflowId } = await context.params;
+
+    const caller = await getValidationCaller(request);
+    if ("error" in caller) {
+      return NextResponse.json(
+        { error: caller.error },
+        { status: caller.status }
+      );
+    }
+
+    const workflow = await db.query.workflows.findFirst({
+      where: eq(workflows.id, workflowId),
+    });
+    const isOwner = workflow?.userId === caller.userId;
+    const isSameOrg =
+      !workflow?.isAnonymous &&
+      workflow?.organizationId &&
+      workflow.organizationId === caller.organizationId;
+
+    if (!(workflow && (isOwner || isSameOrg))) {
+      return NextResponse.json(
+        { error: "Workflow not found" },
+        { status: 404 }
+      );
+    }
+
+    const result = await validateWorkflowDefinition(
+      workflow.nodes,
+      workflow.edges,
+      { userId: workflow.userId, organizationId: workflow.organizationId }
+    );
+    return NextResponse.json(result);
+  } catch (error) {
+    logSystemError(
+      ErrorCategory.DATABASE,
+      "Failed to validate workflow",
+      error,
+      {
+        endpoint: "/api/workflows/[workflowId]/validate",
+        operation: "post",
+      }
+    );
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to validate workflow",
+      },
+      { status: 500 }
+    );
+  }
+}
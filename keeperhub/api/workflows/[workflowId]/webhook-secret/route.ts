@@ -0,0 +1,101 @@
+import { eq } from "drizzle-orm";
+import { NextResponse } from "next/server";
+import { getOrgContext } from "@/keeperhub/lib/middleware/org-context";
+import {
+  deleteWebhookSecret,
+  getWebhookSecretInfo,
+  rotateWebhookSecret,
+} from "@/keeperhub/lib/webhook-secrets";
+import { db } from "@/lib/db";
+import { workflows } from "@/lib/db/schema";
+
+type RouteContext = { params: Promise<{ workflowId: string }> };
+
+/** Signed-in members of the workflow's organization (or its owner) only */
+async function authorize(
+  context: RouteContext
+): Promise<{ workflowId: string } | NextResponse> {
+  const { workflowId } = await context.params;
+  const orgContext = await getOrgContext();
+  if (!orgContext.user?.id) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const workflow = await db.query.workflows.findFirst({
+    where: eq(workflows.id, workflowId),
+  });
+  const isOwner = workflow?.userId === orgContext.user.id;
+  const isSameOrg =
+    !workflow?.isAnonymous &&
+    workflow?.organizationId &&
+    orgContext.organization?.id === workflow.organizationId;
+
+  if (!(workflow && (isOwner || isSameOrg))) {
+    return NextResponse.json({ error: "Workflow not found" }, { status: 404 });
+  }
+  return { workflowId };
+}
+
+function errorResponse(error: unknown, fallback: string): NextResponse {
+  console.error(`[Webhook Secret] ${fallback}:`, error);
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : fallback },
+    { status: 500 }
+  );
+}
+
+/** The workflow's webhook signing secret, or { secret: null } when none exists */
+export async function GET(
+  _request: Request,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    const access = await authorize(context);
+    if (access instanceof NextResponse) {
+      return access;
+    }
+    const info = await getWebhookSecretInfo(access.workflowId);
+    return NextResponse.json(info ?? { secret: null });
+  } catch (error) {
+    return errorResponse(error, "Failed to load webhook secret");
+  }
+}
+
+/**
+ * Create or rotate the secret. The previous secret keeps verifying for a
+ * grace period unless { "revokePrevious": true } is sent.
+ */
+export async function POST(
+  request: Request,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    const access = await authorize(context);
+    if (access instanceof NextResponse) {
+      return access;
+    }
+    const body = await request.json().catch(() => ({}));
+    const info = await rotateWebhookSecret(access.workflowId, {
+      revokePrevious: body.revokePrevious === true,
+    });
+    return NextResponse.json(info);
+  } catch (error) {
+    return errorResponse(error, "Failed to rotate webhook secret");
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  context: RouteContext
+): Promise<NextResponse> {
+  try {
+    const access = await authorize(context);
+    if (access instanceof NextResponse) {
+      return access;
+    }
+    await deleteWebhookSecret(access.workflowId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, "Failed to delete webhook secret");
+  }
+}
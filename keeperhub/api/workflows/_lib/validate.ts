@@ -0,0 +1,91 @@
+import "server-only";
+
+import { eq } from "drizzle-orm";
+import { authenticateApiKey } from "@/keeperhub/lib/api-key-auth";
+import { getOrgContext } from "@/keeperhub/lib/middleware/org-context";
+import {
+  isWellFormedNode,
+  summarizeDiagnostics,
+  validateWorkflowGraph,
+  type WorkflowDiagnostic,
+  type WorkflowValidationResult,
+} from "@/keeperhub/lib/workflow-validation";
+import { auth } from "@/lib/auth";
+import { db } from "@/lib/db";
+import { validateWorkflowIntegrations } from "@/lib/db/integrations";
+import { chains } from "@/lib/db/schema";
+
+export type ValidationCaller =
+  | { userId: string | null; organizationId: string | null }
+  | { error: string; status: number };
+
+/** API key callers act for their organization, signed-in users for themselves */
+export async function getValidationCaller(
+  request: Request
+): Promise<ValidationCaller> {
+  const apiKeyAuth = await authenticateApiKey(request);
+  if (apiKeyAuth.authenticated) {
+    return {
+      userId: null,
+      organizationId: apiKeyAuth.organizationId || null,
+    };
+  }
+
+  const session = await auth.api.getSession({
+    headers: request.headers,
+  });
+  if (!session?.user) {
+    return { error: "Unauthorized", status: 401 };
+  }
+
+  const orgContext = await getOrgContext();
+  return {
+    userId: session.user.id,
+    organizationId: orgContext.organization?.id || null,
+  };
+}
+
+async function getEnabledChainIds(): Promise<Set<number>> {
+  const rows = await db
+    .select({ chainId: chains.chainId })
+    .from(chains)
+    .where(eq(chains.isEnabled, true));
+  return new Set(rows.map((row) => row.chainId));
+}
+
+/**
+ * Run the graph checks plus the ones that need the database: chains must be
+ * enabled, and integrations must belong to the user or organization.
+ * Malformed nodes are reported by the graph checks and skipped here.
+ */
+export async function validateWorkflowDefinition(
+  rawNodes: unknown[],
+  edges: unknown[],
+  owner: { userId: string; organizationId: string | null }
+): Promise<WorkflowValidationResult> {
+  const diagnostics = validateWorkflowGraph(rawNodes, edges, {
+    enabledChainIds: await getEnabledChainIds(),
+  });
+
+  const nodes = rawNodes.filter(isWellFormedNode);
+  const integrations = await validateWorkflowIntegrations(
+    nodes,
+    owner.userId,
+    owner.organizationId
+  );
+  for (const integrationId of integrations.invalidIds ?? []) {
+    const node = nodes.find(
+      (item) => item.data.config?.integrationId === integrationId
+    );
+    const diagnostic: WorkflowDiagnostic = {
+      code: "invalid-integration",
+      severity: "error",
+      message: `Integration ${integrationId} does not belong to this workflow's owner`,
+      nodeId: node?.id,
+      fieldKey: "integrationId",
+    };
+    diagnostics.push(diagnostic);
+  }
+
+  return summarizeDiagnostics(diagnostics);
+}
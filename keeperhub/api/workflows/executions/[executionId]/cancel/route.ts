@@ -0,0 +1,85 @@
+import { eq } from "drizzle-orm";
+import { NextResponse } from "next/server";
+import { authorizeExecutionAccess } from "@/keeperhub/api/workflows/executions/_lib/access";
+import { isCancellableStatus } from "@/keeperhub/lib/execution-cancel";
+import { cancelExecutions } from "@/keeperhub/lib/execution-concurrency";
+import { ErrorCategory, logSystemError } from "@/keeperhub/lib/logging";
+import { db } from "@/lib/db";
+import { workflowExecutions } from "@/lib/db/schema";
+
+/**
+ * Cancel a pending or running execution. The executor finishes the step in
+ * progress, runs no further steps and records the run as cancelled.
+ */
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ executionId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { executionId } = await context.params;
+
+    const execution = await db.query.workflowExecutions.findFirst({
+      where: eq(workflowExecutions.id, executionId),
+      with: {
+        workflow: true,
+      },
+    });
+
+    if (!execution) {
+      return NextResponse.json(
+        { error: "Execution not found" },
+        { status: 404 }
+      );
+    }
+
+    const access = await authorizeExecutionAccess(request, execution.workflow);
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    if (!isCancellableStatus(execution.status)) {
+      return NextResponse.json(
+        {
+          error: `Execution is not running (status: ${execution.status})`,
+          status: execution.status,
+        },
+        { status: 409 }
+      );
+    }
+
+    const cancelled = await cancelExecutions(db, [executionId]);
+    if (!cancelled.includes(executionId)) {
+      // It finished between the lookup and the update
+      return NextResponse.json(
+        { error: "Execution is not running" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      executionId,
+      status: "cancelled",
+      cancelledExecutionIds: cancelled,
+    });
+  } catch (error) {
+    logSystemError(
+      ErrorCategory.DATABASE,
+      "Failed to cancel execution",
+      error,
+      {
+        endpoint: "/api/workflows/executions/[executionId]/cancel",
+        operation: "post",
+      }
+    );
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to cancel execution",
+      },
+      { status: 500 }
+    );
+  }
+}
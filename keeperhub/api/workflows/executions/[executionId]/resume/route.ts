@@ -0,0 +1,222 @@
+import { eq } from "drizzle-orm";
+import { NextResponse } from "next/server";
+import { start } from "workflow/api";
+import { authorizeExecutionAccess } from "@/keeperhub/api/workflows/executions/_lib/access";
+import { applyConcurrencyPolicy } from "@/keeperhub/lib/execution-concurrency";
+import { isResumableStatus } from "@/keeperhub/lib/execution-resume";
+import { ErrorCategory, logSystemError } from "@/keeperhub/lib/logging";
+import { getResumeBlocker } from "@/keeperhub/lib/steps/execution-resume";
+import type { WorkflowVariable } from "@/keeperhub/lib/workflow-variables";
+import { db } from "@/lib/db";
+import { validateWorkflowIntegrations } from "@/lib/db/integrations";
+import { workflowExecutions } from "@/lib/db/schema";
+import { executeWorkflow } from "@/lib/workflow-executor.workflow";
+import { initializeProgress } from "@/lib/workflow-logging";
+import { calculateTotalSteps } from "@/lib/workflow-progress";
+import type { WorkflowEdge, WorkflowNode } from "@/lib/workflow-store";
+
+type ResumedRun = {
+  executionId: string;
+  resumeFromExecutionId: string;
+  workflowId: string;
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  variables: WorkflowVariable[];
+  concurrencyPolicy: string;
+  input: Record<string, unknown>;
+  dryRun: boolean;
+};
+
+async function startResumedExecution(run: ResumedRun): Promise<void> {
+  try {
+    const handle = await start(executeWorkflow, [
+      {
+        nodes: run.nodes,
+        edges: run.edges,
+        triggerInput: run.input,
+        executionId: run.executionId,
+        workflowId: run.workflowId,
+        resumeFromExecutionId: run.resumeFromExecutionId,
+        dryRun: run.dryRun,
+        variables: run.variables,
+        concurrencyPolicy: run.concurrencyPolicy,
+      },
+    ]);
+    await db
+      .update(workflowExecutions)
+      .set({ runId: handle.runId })
+      .where(eq(workflowExecutions.id, run.executionId));
+  } catch (error) {
+    logSystemError(
+      ErrorCategory.WORKFLOW_ENGINE,
+      "[Execution Resume] Failed to start resumed execution",
+      error,
+      {
+        workflow_id: run.workflowId,
+        execution_id: run.executionId,
+      }
+    );
+    await db
+      .update(workflowExecutions)
+      .set({
+        status: "error",
+        error: error instanceof Error ? error.message : "Unknown error",
+        completedAt: new Date(),
+      })
+      .where(eq(workflowExecutions.id, run.executionId));
+  }
+}
+
+/**
+ * Resume a failed, timed out or cancelled execution. A new execution of the
+ * workflow is started that replays the nodes which completed in the original
+ * and runs the rest, starting at the node(s) that did not complete.
+ */
+export async function POST(
+  request: Request,
+  context: { params: Promise<{ executionId: string }> }
+): Promise<NextResponse> {
+  try {
+    const { executionId } = await context.params;
+
+    const execution = await db.query.workflowExecutions.findFirst({
+      where: eq(workflowExecutions.id, executionId),
+      with: {
+        workflow: true,
+      },
+    });
+
+    if (!execution) {
+      return NextResponse.json(
+        { error: "Execution not found" },
+        { status: 404 }
+      );
+    }
+
+    const access = await authorizeExecutionAccess(request, execution.workflow);
+    if ("error" in access) {
+      return NextResponse.json(
+        { error: access.error },
+        { status: access.status }
+      );
+    }
+
+    if (!isResumableStatus(execution.status)) {
+      return NextResponse.json(
+        {
+          error: `Only failed, timed out or cancelled executions can be resumed (status: ${execution.status})`,
+          status: execution.status,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (execution.parentExecutionId) {
+      return NextResponse.json(
+        {
+          error:
+            "Sub-workflow runs are resumed by resuming the execution that started them",
+        },
+        { status: 400 }
+      );
+    }
+
+    const { workflow } = execution;
+    const nodes = workflow.nodes as WorkflowNode[];
+    const edges = workflow.edges as WorkflowEdge[];
+    const validation = await validateWorkflowIntegrations(
+      nodes,
+      access.userId,
+      workflow.organizationId
+    );
+    if (!validation.valid) {
+      return NextResponse.json(
+        { error: "Workflow contains invalid integration references" },
+        { status: 403 }
+      );
+    }
+
+    // Writes of a dry run were only simulated
+    const blocker = execution.dryRun
+      ? undefined
+      : await getResumeBlocker(executionId, nodes);
+    if (blocker) {
+      return NextResponse.json({ error: blocker }, { status: 409 });
+    }
+
+    // The policy is applied in the transaction that creates the new run, so
+    // concurrent triggers cannot both get past it
+    const input = (execution.input ?? {}) as Record<string, unknown>;
+    const created = await db.transaction(async (tx) => {
+      const concurrency = execution.dryRun
+        ? undefined
+        : await applyConcurrencyPolicy(tx, workflow);
+      if (concurrency && !concurrency.allowed) {
+        return { skipped: concurrency };
+      }
+      const [row] = await tx
+        .insert(workflowExecutions)
+        .values({
+          workflowId: workflow.id,
+          userId: access.userId,
+          status: "running",
+          input,
+          resumedFromExecutionId: executionId,
+          dryRun: execution.dryRun,
+        })
+        .returning({ id: workflowExecutions.id });
+      return { resumed: row };
+    });
+    if (created.skipped) {
+      return NextResponse.json(
+        {
+          error: created.skipped.error,
+          skipped: true,
+          activeExecutionIds: created.skipped.activeExecutionIds,
+        },
+        { status: 409 }
+      );
+    }
+    const { resumed } = created;
+    await initializeProgress({
+      executionId: resumed.id,
+      totalSteps: calculateTotalSteps(nodes, edges),
+    });
+
+    // Runs in the background, like a regular execution
+    startResumedExecution({
+      executionId: resumed.id,
+      resumeFromExecutionId: executionId,
+      workflowId: workflow.id,
+      nodes,
+      edges,
+      variables: workflow.variables,
+      concurrencyPolicy: workflow.concurrencyPolicy,
+      input,
+      dryRun: execution.dryRun,
+    });
+
+    return NextResponse.json({
+      executionId: resumed.id,
+      resumedFromExecutionId: executionId,
+      status: "running",
+    });
+  } catch (error) {
+    logSystemError(
+      ErrorCategory.DATABASE,
+      "Failed to resume execution",
+      error,
+      {
+        endpoint: "/api/workflows/executions/[executionId]/resume",
+        operation: "post",
+      }
+    );
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error ? error.message : "Failed to resume execution",
+      },
+      { status: 500 }
+    );
+  }
+}
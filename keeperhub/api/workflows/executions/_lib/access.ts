@@ -0,0 +1,49 @@
+import "server-only";
+
+import { authenticateApiKey } from "@/keeperhub/lib/api-key-auth";
+import { getOrgContext } from "@/keeperhub/lib/middleware/org-context";
+import { auth } from "@/lib/auth";
+import type { workflows } from "@/lib/db/schema";
+
+export type ExecutionAccess =
+  | { userId: string }
+  | { error: string; status: number };
+
+/**
+ * API key callers may manage runs of their organization's workflows;
+ * signed-in users runs of workflows they own or share an organization with.
+ * Returns the user a new run is started as: the signed-in user, or the
+ * workflow owner for API key callers.
+ */
+export async function authorizeExecutionAccess(
+  request: Request,
+  workflow: typeof workflows.$inferSelect
+): Promise<ExecutionAccess> {
+  const apiKeyAuth = await authenticateApiKey(request);
+  if (apiKeyAuth.authenticated) {
+    const isSameOrg =
+      !workflow.isAnonymous &&
+      workflow.organizationId !== null &&
+      workflow.organizationId === apiKeyAuth.organizationId;
+    return isSameOrg
+      ? { userId: workflow.userId }
+      : { error: "Forbidden", status: 403 };
+  }
+
+  const session = await auth.api.getSession({
+    headers: request.headers,
+  });
+  if (!session?.user) {
+    return { error: "Unauthorized", status: 401 };
+  }
+
+  const orgContext = await getOrgContext();
+  const isOwner = workflow.userId === session.user.id;
+  const isSameOrg =
+    !workflow.isAnonymous &&
+    workflow.organizationId !== null &&
+    orgContext.organization?.id === workflow.organizationId;
+  return isOwner || isSameOrg
+    ? { userId: session.user.id }
+    : { error: "Forbidden", status: 403 };
+}
@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import {
+  getValidationCaller,
+  validateWorkflowDefinition,
+} from "@/keeperhub/api/workflows/_lib/validate";
+import { ErrorCategory, logSystemError } from "@/keeperhub/lib/logging";
+
+/**
+ * Validate an unsaved workflow graph sent as { nodes, edges }, so a workflow
+ * can be checked before it is created or updated.
+ */
+export async function POST(request: Request): Promise<NextResponse> {
+  try {
+    const caller = await getValidationCaller(request);
+    if ("error" in caller) {
+      return NextResponse.json(
+        { error: caller.error },
+        { status: caller.status }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (!(Array.isArray(body.nodes) && Array.isArray(body.edges))) {
+      return NextResponse.json(
+        { error: "nodes and edges arrays are required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await validateWorkflowDefinition(body.nodes, body.edges, {
+      userId: caller.userId ?? "",
+      organizationId: caller.organizationId,
+    });
+    return NextResponse.json(result);
+  } catch (error) {
+    logSystemError(
+      ErrorCategory.DATABASE,
+      "Failed to validate workflow",
+      error,
+      {
+        endpoint: "/api/workflows/validate",
+        operation: "post",
+      }
+    );
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to validate workflow",
+      },
+      { status: 500 }
+    );
+  }
+}
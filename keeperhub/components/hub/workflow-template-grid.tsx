@@ -17,6 +17,7 @@ import {
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import { getMissingVariables } from "@/keeperhub/lib/workflow-variables";
 import { api, type SavedWorkflow } from "@/lib/api-client";
 import { authClient, useSession } from "@/lib/auth-client";
 import { WorkflowMiniMap } from "./workflow-mini-map";
@@ -75,6 +76,7 @@ export function WorkflowTemplateGrid({ workflows }: WorkflowTemplateGridProps) {
     <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
       {workflows.map((workflow) => {
         const isDuplicating = duplicatingIds.has(workflow.id);
+        const variablesToFill = getMissingVariables(workflow.variables);
 
         return (
           <Card
@@ -126,6 +128,14 @@ export function WorkflowTemplateGrid({ workflows }: WorkflowTemplateGridProps) {
                 </CardDescription>
               )}
               <WorkflowNodeIcons nodes={workflow.nodes} />
+              {variablesToFill.length > 0 && (
+                <p className="line-clamp-1 text-muted-foreground text-xs">
+                  You fill in:{" "}
+                  <span className="font-mono">
+                    {variablesToFill.join(", ")}
+                  </span>
+                </p>
+              )}
             </CardHeader>
             <div className="flex-1" />
             <CardFooter className="gap-2 pb-3">
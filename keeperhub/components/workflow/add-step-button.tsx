@@ -12,6 +12,7 @@ import { useSetAtom } from "jotai";
 import { Plus } from "lucide-react";
 import { nanoid } from "nanoid";
 import { useCallback, useMemo } from "react";
+import { isErrorEdge } from "@/keeperhub/lib/error-handler-edges";
 import {
   addNodeAtom,
   autosaveAtom,
@@ -64,7 +65,9 @@ export function AddStepButton({
       edges.filter(
         (e) =>
           e.source === sourceNodeId &&
-          (sourceHandleId === undefined || e.sourceHandle === sourceHandleId)
+          (sourceHandleId === undefined
+            ? !isErrorEdge(e)
+            : e.sourceHandle === sourceHandleId)
       ),
     [edges, sourceNodeId, sourceHandleId]
   );
@@ -0,0 +1,58 @@
+"use client";
+
+import { Loader2, Square } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { api } from "@/lib/api-client";
+
+type CancelRunButtonProps = {
+  executionId: string;
+  /** Called once the execution is marked as cancelled */
+  onCancelled: () => void;
+};
+
+/**
+ * Stop button shown on pending and running runs. The run finishes the step
+ * in progress and then stops.
+ */
+export function CancelRunButton({
+  executionId,
+  onCancelled,
+}: CancelRunButtonProps): React.ReactNode {
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  const handleCancel = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsCancelling(true);
+    try {
+      await api.workflow.cancelExecution(executionId);
+      toast.success("Run cancelled. The step in progress will finish first.");
+      onCancelled();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to cancel run"
+      );
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <Button
+      className="h-7 shrink-0 gap-1.5 px-2 text-xs"
+      disabled={isCancelling}
+      onClick={handleCancel}
+      size="sm"
+      title="Stop this run"
+      variant="outline"
+    >
+      {isCancelling ? (
+        <Loader2 className="h-3 w-3 animate-spin" />
+      ) : (
+        <Square className="h-3 w-3 fill-current" />
+      )}
+      Stop
+    </Button>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  CONCURRENCY_POLICY_OPTIONS,
+  type ConcurrencyPolicy,
+} from "@/keeperhub/lib/concurrency-policy";
+
+type ConcurrencyPolicySelectProps = {
+  value: ConcurrencyPolicy;
+  onChange: (policy: ConcurrencyPolicy) => void;
+  disabled?: boolean;
+};
+
+/** What happens when the workflow is triggered while a run is in progress */
+export function ConcurrencyPolicySelect({
+  value,
+  onChange,
+  disabled,
+}: ConcurrencyPolicySelectProps): React.ReactNode {
+  const selected = CONCURRENCY_POLICY_OPTIONS.find(
+    (option) => option.value === value
+  );
+
+  return (
+    <div className="space-y-1.5">
+      <Select
+        disabled={disabled}
+        onValueChange={(policy) => onChange(policy as ConcurrencyPolicy)}
+        value={value}
+      >
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {CONCURRENCY_POLICY_OPTIONS.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {selected && (
+        <p className="ml-1 text-muted-foreground text-xs">
+          {selected.description}
+        </p>
+      )}
+    </div>
+  );
+}
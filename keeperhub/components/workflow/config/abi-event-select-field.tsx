@@ -2,6 +2,8 @@
 
 // start custom keeperhub code //
 import React from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import {
   Select,
   SelectContent,
@@ -9,6 +11,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { getEventNames } from "@/keeperhub/lib/event-filters";
 import type { ActionConfigFieldBase } from "@/plugins";
 
 type FieldProps = {
@@ -22,6 +25,55 @@ type AbiEventSelectProps = FieldProps & {
   abiValue: string;
 };
 
+type AbiEventOption = { name: string; label: string };
+
+/** Checkbox list for fields that accept several events, stored comma-separated */
+function AbiEventMultiSelect({
+  field,
+  value,
+  onChange,
+  disabled,
+  events,
+}: FieldProps & { events: AbiEventOption[] }) {
+  const selected = getEventNames({ eventName: value });
+
+  const handleToggle = (name: string, checked: boolean) => {
+    const next = checked
+      ? [...selected, name]
+      : selected.filter((existing) => existing !== name);
+    // Keep ABI order so the stored value is stable
+    onChange(
+      events
+        .map((event) => event.name)
+        .filter((eventName) => next.includes(eventName))
+        .join(",")
+    );
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border p-3" id={field.key}>
+      {events.map((event) => (
+        <div className="flex items-start gap-2" key={event.name}>
+          <Checkbox
+            checked={selected.includes(event.name)}
+            disabled={disabled}
+            id={`${field.key}-${event.name}`}
+            onCheckedChange={(checked) =>
+              handleToggle(event.name, checked === true)
+            }
+          />
+          <Label
+            className="break-all font-mono text-xs"
+            htmlFor={`${field.key}-${event.name}`}
+          >
+            {event.label}
+          </Label>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export function AbiEventSelectField({
   field,
   value,
@@ -30,7 +82,7 @@ export function AbiEventSelectField({
   abiValue,
 }: AbiEventSelectProps) {
   // Parse ABI and extract events
-  const events = React.useMemo(() => {
+  const events = React.useMemo((): AbiEventOption[] => {
     if (!abiValue || abiValue.trim() === "") {
       return [];
     }
@@ -72,6 +124,18 @@ export function AbiEventSelectField({
     );
   }
 
+  if (field.multiple) {
+    return (
+      <AbiEventMultiSelect
+        disabled={disabled}
+        events={events}
+        field={field}
+        onChange={onChange}
+        value={value}
+      />
+    );
+  }
+
   return (
     <Select disabled={disabled} onValueChange={onChange} value={value}>
       <SelectTrigger className="w-full" id={field.key}>
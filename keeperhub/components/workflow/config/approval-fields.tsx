@@ -0,0 +1,151 @@
+"use client";
+
+import { useAtomValue } from "jotai";
+import { Input } from "@/components/ui/input";
+import { IntegrationSelector } from "@/components/ui/integration-selector";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TemplateBadgeTextarea } from "@/components/ui/template-badge-textarea";
+import { PendingApprovals } from "@/keeperhub/components/workflow/pending-approvals";
+import {
+  APPROVER_ROLE_OPTIONS,
+  DEFAULT_APPROVAL_EXPIRY_HOURS,
+  DEFAULT_APPROVER_ROLE,
+  MAX_APPROVAL_EXPIRY_HOURS,
+} from "@/keeperhub/lib/approvals";
+import { currentWorkflowIdAtom } from "@/lib/workflow-store";
+
+type ApprovalFieldsProps = {
+  config: Record<string, unknown>;
+  onUpdateConfig: (key: string, value: string) => void;
+  disabled: boolean;
+  nodeId?: string;
+};
+
+export function ApprovalFields({
+  config,
+  onUpdateConfig,
+  disabled,
+  nodeId,
+}: ApprovalFieldsProps): React.ReactNode {
+  const workflowId = useAtomValue(currentWorkflowIdAtom);
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label className="ml-1" htmlFor="approvalMessage">
+          Message
+        </Label>
+        <TemplateBadgeTextarea
+          disabled={disabled}
+          id="approvalMessage"
+          onChange={(value) => onUpdateConfig("approvalMessage", value)}
+          placeholder="e.g., Withdraw {{Check Balance.balance}} ETH to cold storage?"
+          rows={3}
+          value={(config?.approvalMessage as string) || ""}
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label className="ml-1" htmlFor="approverRole">
+            Who Can Decide
+          </Label>
+          <Select
+            disabled={disabled}
+            onValueChange={(value) => onUpdateConfig("approverRole", value)}
+            value={(config?.approverRole as string) || DEFAULT_APPROVER_ROLE}
+          >
+            <SelectTrigger className="w-full" id="approverRole">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {APPROVER_ROLE_OPTIONS.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label className="ml-1" htmlFor="expiresInHours">
+            Expires After (hours)
+          </Label>
+          <Input
+            disabled={disabled}
+            id="expiresInHours"
+            max={MAX_APPROVAL_EXPIRY_HOURS}
+            min={0}
+            onChange={(e) => onUpdateConfig("expiresInHours", e.target.value)}
+            placeholder={String(DEFAULT_APPROVAL_EXPIRY_HOURS)}
+            type="number"
+            value={(config?.expiresInHours as string) || ""}
+          />
+        </div>
+      </div>
+      <p className="ml-1 text-muted-foreground text-xs">
+        The run continues on the approved or the rejected path. A request nobody
+        decides before it expires takes the rejected path.
+      </p>
+
+      <div className="space-y-2">
+        <Label className="ml-1" htmlFor="notifyEmail">
+          Email Approvers
+        </Label>
+        <Select
+          disabled={disabled}
+          onValueChange={(value) => onUpdateConfig("notifyEmail", value)}
+          value={config?.notifyEmail === "false" ? "false" : "true"}
+        >
+          <SelectTrigger className="w-full" id="notifyEmail">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">Yes</SelectItem>
+            <SelectItem value="false">No</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="ml-1">Post Link to Discord (Optional)</Label>
+        <IntegrationSelector
+          disabled={disabled}
+          integrationType="discord"
+          onChange={(id) => onUpdateConfig("discordIntegrationId", id)}
+          value={(config?.discordIntegrationId as string) || ""}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label className="ml-1">Post Link to Telegram (Optional)</Label>
+        <IntegrationSelector
+          disabled={disabled}
+          integrationType="telegram"
+          onChange={(id) => onUpdateConfig("telegramIntegrationId", id)}
+          value={(config?.telegramIntegrationId as string) || ""}
+        />
+        {Boolean(config?.telegramIntegrationId) && (
+          <Input
+            disabled={disabled}
+            id="telegramChatId"
+            onChange={(e) => onUpdateConfig("telegramChatId", e.target.value)}
+            placeholder="Chat ID, e.g., -1001234567890"
+            value={(config?.telegramChatId as string) || ""}
+          />
+        )}
+      </div>
+
+      {workflowId && nodeId && (
+        <PendingApprovals nodeId={nodeId} workflowId={workflowId} />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DEFAULT_DEDUPE_WINDOW_SECONDS,
+  IDEMPOTENCY_KEY_HEADER,
+  MAX_DEDUPE_WINDOW_SECONDS,
+} from "@/keeperhub/lib/trigger-dedupe";
+
+type DedupeFieldsProps = {
+  config: Record<string, unknown>;
+  onUpdateConfig: (key: string, value: string) => void;
+  disabled: boolean;
+};
+
+const KEY_SOURCES: Record<string, string> = {
+  Webhook: "the request header below",
+  Event: "the log's transaction hash and log index",
+  Block: "the block number",
+  Schedule: "the scheduled time",
+};
+
+/**
+ * De-duplication settings of the trigger: how long a key is remembered and,
+ * for webhooks, which request header carries it.
+ */
+export function DedupeFields({
+  config,
+  onUpdateConfig,
+  disabled,
+}: DedupeFieldsProps): React.ReactNode {
+  const triggerType = (config.triggerType as string) || "Manual";
+  const keySource = KEY_SOURCES[triggerType] ?? "the Idempotency-Key header";
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label className="ml-1" htmlFor="dedupeWindowSeconds">
+          De-duplication Window (seconds)
+        </Label>
+        <Input
+          disabled={disabled}
+          id="dedupeWindowSeconds"
+          max={MAX_DEDUPE_WINDOW_SECONDS}
+          min={0}
+          onChange={(e) =>
+            onUpdateConfig("dedupeWindowSeconds", e.target.value)
+          }
+          placeholder={String(DEFAULT_DEDUPE_WINDOW_SECONDS)}
+          type="number"
+          value={(config.dedupeWindowSeconds as string) || ""}
+        />
+        <p className="text-muted-foreground text-xs">
+          A trigger with the same key as one seen within this window does not
+          start another run. The key is {keySource}. Enter 0 to turn this off.
+        </p>
+      </div>
+      {triggerType === "Webhook" && (
+        <div className="space-y-2">
+          <Label className="ml-1" htmlFor="dedupeHeader">
+            Idempotency Header
+          </Label>
+          <Input
+            disabled={disabled}
+            id="dedupeHeader"
+            onChange={(e) => onUpdateConfig("dedupeHeader", e.target.value)}
+            placeholder={IDEMPOTENCY_KEY_HEADER}
+            value={(config.dedupeHeader as string) || ""}
+          />
+        </div>
+      )}
+    </>
+  );
+}
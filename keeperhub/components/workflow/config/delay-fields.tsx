@@ -0,0 +1,117 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TemplateBadgeInput } from "@/components/ui/template-badge-input";
+import {
+  DELAY_UNITS,
+  type DelayMode,
+  MAX_DELAY_DAYS,
+} from "@/keeperhub/lib/delay";
+
+type DelayFieldsProps = {
+  config: Record<string, unknown>;
+  onUpdateConfig: (key: string, value: string) => void;
+  disabled: boolean;
+};
+
+const UNIT_LABELS: Record<string, string> = {
+  seconds: "Seconds",
+  minutes: "Minutes",
+  hours: "Hours",
+  days: "Days",
+};
+
+export function DelayFields({
+  config,
+  onUpdateConfig,
+  disabled,
+}: DelayFieldsProps): React.ReactNode {
+  const mode: DelayMode = config?.delayMode === "until" ? "until" : "duration";
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label className="ml-1" htmlFor="delayMode">
+          Wait
+        </Label>
+        <Select
+          disabled={disabled}
+          onValueChange={(value) => onUpdateConfig("delayMode", value)}
+          value={mode}
+        >
+          <SelectTrigger className="w-full" id="delayMode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="duration">For a fixed duration</SelectItem>
+            <SelectItem value="until">Until a point in time</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {mode === "duration" ? (
+        <div className="space-y-2">
+          <Label className="ml-1" htmlFor="delayAmount">
+            Duration
+          </Label>
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              disabled={disabled}
+              id="delayAmount"
+              min={0}
+              onChange={(e) => onUpdateConfig("delayAmount", e.target.value)}
+              placeholder="e.g., 10"
+              type="number"
+              value={(config?.delayAmount as string) || ""}
+            />
+            <Select
+              disabled={disabled}
+              onValueChange={(value) => onUpdateConfig("delayUnit", value)}
+              value={(config?.delayUnit as string) || "seconds"}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DELAY_UNITS.map((unit) => (
+                  <SelectItem key={unit} value={unit}>
+                    {UNIT_LABELS[unit]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label className="ml-1" htmlFor="delayUntil">
+            Resume At
+          </Label>
+          <TemplateBadgeInput
+            disabled={disabled}
+            id="delayUntil"
+            onChange={(value) => onUpdateConfig("delayUntil", value)}
+            placeholder="e.g., {{Read Proposal.eta}}"
+            value={(config?.delayUntil as string) || ""}
+          />
+          <p className="text-muted-foreground text-xs">
+            An ISO date or a unix timestamp in seconds or milliseconds. Times in
+            the past resume immediately.
+          </p>
+        </div>
+      )}
+
+      <p className="ml-1 text-muted-foreground text-xs">
+        Delays are limited to {MAX_DELAY_DAYS} days.
+      </p>
+    </>
+  );
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import { Plus, Trash2 } from "lucide-react";
+import { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  EVENT_FILTER_OPERATOR_LABELS,
+  EVENT_FILTER_OPERATORS,
+  type EventArgFilter,
+  type EventFilterOperator,
+  getAbiEvents,
+  getEventNames,
+  getFilterableArgs,
+  parseEventFilters,
+  validateEventFilters,
+} from "@/keeperhub/lib/event-filters";
+
+type EventFiltersFieldProps = {
+  config: Record<string, unknown>;
+  onUpdateConfig: (key: string, value: string) => void;
+  disabled: boolean;
+};
+
+const ANY_EVENT_VALUE = "__any__";
+
+/**
+ * Filters on the decoded arguments of an Event trigger's events. Only events
+ * passing every filter start a run.
+ */
+export function EventFiltersField({
+  config,
+  onUpdateConfig,
+  disabled,
+}: EventFiltersFieldProps): React.ReactNode {
+  const filters = parseEventFilters(config?.eventFilters);
+  const events = useMemo(
+    () =>
+      getAbiEvents(
+        config?.contractABI,
+        getEventNames({ eventName: config?.eventName })
+      ),
+    [config?.contractABI, config?.eventName]
+  );
+  const errors = validateEventFilters(config ?? {});
+
+  const saveFilters = (next: EventArgFilter[]) => {
+    onUpdateConfig("eventFilters", next.length > 0 ? JSON.stringify(next) : "");
+  };
+
+  const updateFilter = (index: number, update: Partial<EventArgFilter>) => {
+    saveFilters(
+      filters.map((filter, i) =>
+        i === index ? { ...filter, ...update } : filter
+      )
+    );
+  };
+
+  const addFilter = () => {
+    const [firstArg] = getFilterableArgs(events);
+    saveFilters([
+      ...filters,
+      { arg: firstArg?.name ?? "", operator: "eq", value: "" },
+    ]);
+  };
+
+  if (events.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label className="ml-1">Argument Filters (optional)</Label>
+      {filters.map((filter, index) => {
+        const targets = filter.event
+          ? events.filter((event) => event.name === filter.event)
+          : events;
+        const args = getFilterableArgs(targets);
+        return (
+          <div
+            className="space-y-2 rounded-md border p-2"
+            key={`${index}-${filter.arg}`}
+          >
+            <div className="flex gap-2">
+              {events.length > 1 && (
+                <Select
+                  disabled={disabled}
+                  onValueChange={(value) =>
+                    updateFilter(index, {
+                      event: value === ANY_EVENT_VALUE ? undefined : value,
+                    })
+                  }
+                  value={filter.event ?? ANY_EVENT_VALUE}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_EVENT_VALUE}>Any event</SelectItem>
+                    {events.map((event) => (
+                      <SelectItem key={event.name} value={event.name}>
+                        {event.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Select
+                disabled={disabled}
+                onValueChange={(value) => updateFilter(index, { arg: value })}
+                value={filter.arg}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Argument" />
+                </SelectTrigger>
+                <SelectContent>
+                  {args.map((arg) => (
+                    <SelectItem key={arg.name} value={arg.name as string}>
+                      {arg.name} ({arg.type}
+                      {arg.indexed ? ", indexed" : ""})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                disabled={disabled}
+                onClick={() =>
+                  saveFilters(filters.filter((_, i) => i !== index))
+                }
+                size="icon"
+                variant="ghost"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex gap-2">
+              <Select
+                disabled={disabled}
+                onValueChange={(value) =>
+                  updateFilter(index, {
+                    operator: value as EventFilterOperator,
+                  })
+                }
+                value={filter.operator}
+              >
+                <SelectTrigger className="w-24 shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EVENT_FILTER_OPERATORS.map((operator) => (
+                    <SelectItem key={operator} value={operator}>
+                      {EVENT_FILTER_OPERATOR_LABELS[operator]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                className="font-mono text-xs"
+                disabled={disabled}
+                onChange={(e) => updateFilter(index, { value: e.target.value })}
+                placeholder={
+                  filter.operator === "in" ? "0xabc..., 0xdef..." : "1e24"
+                }
+                value={filter.value}
+              />
+            </div>
+          </div>
+        );
+      })}
+      {errors.map((error) => (
+        <p className="text-destructive text-xs" key={error}>
+          {error}
+        </p>
+      ))}
+      <Button
+        className="w-full"
+        disabled={disabled}
+        onClick={addFilter}
+        type="button"
+        variant="outline"
+      >
+        <Plus className="size-4" />
+        Add Filter
+      </Button>
+      <p className="ml-1 text-muted-foreground text-xs">
+        Only events passing every filter start a run. Filters on indexed
+        arguments with == or in are applied by the event listener itself.
+      </p>
+    </div>
+  );
+}
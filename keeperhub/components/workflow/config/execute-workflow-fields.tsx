@@ -0,0 +1,113 @@
+"use client";
+
+import { useAtomValue } from "jotai";
+import { useEffect, useState } from "react";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TemplateBadgeTextarea } from "@/components/ui/template-badge-textarea";
+import {
+  MAX_SUB_WORKFLOW_DEPTH,
+  parseSubWorkflowInput,
+} from "@/keeperhub/lib/sub-workflow";
+import { api, type SavedWorkflow } from "@/lib/api-client";
+import { currentWorkflowIdAtom } from "@/lib/workflow-store";
+
+type ExecuteWorkflowFieldsProps = {
+  config: Record<string, unknown>;
+  onUpdateConfig: (key: string, value: string) => void;
+  disabled: boolean;
+};
+
+const TEMPLATE_PATTERN = /\{\{[^}]*\}\}/g;
+
+/**
+ * Check the input mapping is a JSON object, with templates swapped for a
+ * placeholder value since they only resolve at run time.
+ */
+function getInputError(raw: string): string | null {
+  if (!raw.trim()) {
+    return null;
+  }
+  const result = parseSubWorkflowInput(raw.replace(TEMPLATE_PATTERN, "0"));
+  return "error" in result ? result.error : null;
+}
+
+export function ExecuteWorkflowFields({
+  config,
+  onUpdateConfig,
+  disabled,
+}: ExecuteWorkflowFieldsProps): React.ReactNode {
+  const currentWorkflowId = useAtomValue(currentWorkflowIdAtom);
+  const [workflows, setWorkflows] = useState<SavedWorkflow[]>([]);
+  const inputValue = (config?.subWorkflowInput as string) || "";
+  const inputError = getInputError(inputValue);
+
+  useEffect(() => {
+    api.workflow
+      .getAll()
+      .then(setWorkflows)
+      .catch((error: unknown) => {
+        console.error("Failed to load workflows:", error);
+      });
+  }, []);
+
+  const selectable = workflows.filter(
+    (workflow) => workflow.id !== currentWorkflowId
+  );
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label className="ml-1" htmlFor="subWorkflowId">
+          Workflow
+        </Label>
+        <Select
+          disabled={disabled}
+          onValueChange={(value) => onUpdateConfig("subWorkflowId", value)}
+          value={(config?.subWorkflowId as string) || undefined}
+        >
+          <SelectTrigger className="w-full" id="subWorkflowId">
+            <SelectValue placeholder="Select a workflow" />
+          </SelectTrigger>
+          <SelectContent>
+            {selectable.map((workflow) => (
+              <SelectItem key={workflow.id} value={workflow.id}>
+                {workflow.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-muted-foreground text-xs">
+          Runs the workflow and waits for it to finish. Sub-workflows can be
+          nested up to {MAX_SUB_WORKFLOW_DEPTH} levels and cannot call
+          themselves.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="ml-1" htmlFor="subWorkflowInput">
+          Input (JSON)
+        </Label>
+        <TemplateBadgeTextarea
+          disabled={disabled}
+          id="subWorkflowInput"
+          onChange={(value) => onUpdateConfig("subWorkflowInput", value)}
+          placeholder='e.g., {"message": "{{Check Balance.balance}}"}'
+          rows={4}
+          value={inputValue}
+        />
+        {inputError && <p className="text-xs text-yellow-600">{inputError}</p>}
+        <p className="text-muted-foreground text-xs">
+          Passed to the workflow as its trigger output. Use @ to reference
+          previous node outputs.
+        </p>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,67 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getJoinMode,
+  JOIN_MODE_LABELS,
+  type JoinMode,
+} from "@/keeperhub/lib/join-semantics";
+
+type JoinModeFieldProps = {
+  config: Record<string, unknown>;
+  onUpdateConfig: (key: string, value: string) => void;
+  disabled: boolean;
+  /** Number of distinct nodes with an edge into this one */
+  sourceCount: number;
+};
+
+const JOIN_MODE_HELP: Record<JoinMode, string> = {
+  all: "Runs once every incoming branch has finished, with all of their outputs available. Skipped if one of them fails.",
+  any: "Runs as soon as the first incoming branch reaches it. Later branches do not run it again.",
+};
+
+/**
+ * Shown on nodes with more than one incoming edge.
+ */
+export function JoinModeField({
+  config,
+  onUpdateConfig,
+  disabled,
+  sourceCount,
+}: JoinModeFieldProps): React.ReactNode {
+  const mode = getJoinMode(config);
+
+  return (
+    <div className="space-y-2">
+      <Label className="ml-1" htmlFor="joinMode">
+        Join ({sourceCount} incoming branches)
+      </Label>
+      <Select
+        disabled={disabled}
+        onValueChange={(value) => onUpdateConfig("joinMode", value)}
+        value={mode}
+      >
+        <SelectTrigger className="w-full" id="joinMode">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(JOIN_MODE_LABELS) as JoinMode[]).map((value) => (
+            <SelectItem key={value} value={value}>
+              {JOIN_MODE_LABELS[value]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="ml-1 text-muted-foreground text-xs">
+        {JOIN_MODE_HELP[mode]}
+      </p>
+    </div>
+  );
+}
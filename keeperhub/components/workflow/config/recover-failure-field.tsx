@@ -0,0 +1,42 @@
+"use client";
+
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { isRecoveryHandler } from "@/keeperhub/lib/error-handler-edges";
+
+type RecoverFailureFieldProps = {
+  config: Record<string, unknown>;
+  onUpdateConfig: (key: string, value: string) => void;
+  disabled: boolean;
+};
+
+/**
+ * Shown on nodes connected to another node's "on failure" output.
+ */
+export function RecoverFailureField({
+  config,
+  onUpdateConfig,
+  disabled,
+}: RecoverFailureFieldProps): React.ReactNode {
+  return (
+    <div className="space-y-2">
+      <div className="ml-1 flex items-center gap-2">
+        <Checkbox
+          checked={isRecoveryHandler(config)}
+          disabled={disabled}
+          id="recoverFailure"
+          onCheckedChange={(checked) =>
+            onUpdateConfig("recoverFailure", checked === true ? "true" : "")
+          }
+        />
+        <Label className="font-normal" htmlFor="recoverFailure">
+          Mark failure as recovered
+        </Label>
+      </div>
+      <p className="ml-1 text-muted-foreground text-xs">
+        When this error handler succeeds, the run is no longer marked failed
+        because of the step it handles.
+      </p>
+    </div>
+  );
+}
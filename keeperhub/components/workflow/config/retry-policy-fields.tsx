@@ -0,0 +1,179 @@
+"use client";
+
+import { ChevronDown } from "lucide-react";
+import { useState } from "react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  MAX_RETRY_ATTEMPTS,
+  MAX_RETRY_DELAY_SECONDS,
+  parseRetryPolicy,
+  RETRYABLE_ERROR_KINDS,
+  type RetryableErrorKind,
+} from "@/keeperhub/lib/retry-policy";
+
+type RetryPolicyFieldsProps = {
+  config: Record<string, unknown>;
+  onUpdateConfig: (key: string, value: string) => void;
+  disabled: boolean;
+};
+
+const ERROR_KIND_LABELS: Record<RetryableErrorKind, string> = {
+  network: "Network errors",
+  timeout: "Timeouts",
+  "rate-limit": "Rate limits (429)",
+  server: "Server errors (5xx)",
+};
+
+export function RetryPolicyFields({
+  config,
+  onUpdateConfig,
+  disabled,
+}: RetryPolicyFieldsProps): React.ReactNode {
+  const policy = parseRetryPolicy(config);
+  const [isExpanded, setIsExpanded] = useState(policy !== null);
+  const retryAny = config.retryOn === "any";
+  const selectedKinds = policy?.retryOn ?? RETRYABLE_ERROR_KINDS;
+
+  function toggleKind(kind: RetryableErrorKind, checked: boolean): void {
+    const next = RETRYABLE_ERROR_KINDS.filter((k) =>
+      k === kind ? checked : selectedKinds.includes(k)
+    );
+    // Unchecking everything falls back to the default transient set
+    onUpdateConfig("retryOn", next.join(","));
+  }
+
+  return (
+    <div className="space-y-2">
+      <button
+        className="ml-1 flex items-center gap-1 text-left"
+        onClick={() => setIsExpanded(!isExpanded)}
+        type="button"
+      >
+        <span className="font-medium text-sm">Retry on failure</span>
+        {policy && (
+          <span className="text-muted-foreground text-xs">
+            ({policy.maxAttempts} attempts)
+          </span>
+        )}
+        <ChevronDown
+          className={`h-3.5 w-3.5 text-muted-foreground transition-transform duration-200 ${
+            isExpanded ? "" : "-rotate-90"
+          }`}
+        />
+      </button>
+      {isExpanded && (
+        <div className="ml-1 space-y-4 border-primary/50 border-l-2 py-2 pl-3">
+          <div className="space-y-2">
+            <Label htmlFor="retryMaxAttempts">Max attempts</Label>
+            <Input
+              disabled={disabled}
+              id="retryMaxAttempts"
+              max={MAX_RETRY_ATTEMPTS}
+              min={1}
+              onChange={(e) =>
+                onUpdateConfig("retryMaxAttempts", e.target.value)
+              }
+              placeholder="1"
+              type="number"
+              value={(config.retryMaxAttempts as string) || ""}
+            />
+            <p className="text-muted-foreground text-xs">
+              Total attempts including the first. 1 disables retries (max{" "}
+              {MAX_RETRY_ATTEMPTS}).
+            </p>
+          </div>
+
+          {policy && (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="retryBackoff">Backoff</Label>
+                  <Select
+                    disabled={disabled}
+                    onValueChange={(value) =>
+                      onUpdateConfig("retryBackoff", value)
+                    }
+                    value={policy.backoff}
+                  >
+                    <SelectTrigger id="retryBackoff">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="exponential">Exponential</SelectItem>
+                      <SelectItem value="fixed">Fixed</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="retryDelaySeconds">Delay (seconds)</Label>
+                  <Input
+                    disabled={disabled}
+                    id="retryDelaySeconds"
+                    max={MAX_RETRY_DELAY_SECONDS}
+                    min={0}
+                    onChange={(e) =>
+                      onUpdateConfig("retryDelaySeconds", e.target.value)
+                    }
+                    placeholder={String(policy.delaySeconds)}
+                    type="number"
+                    value={(config.retryDelaySeconds as string) || ""}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Retry on</Label>
+                <div className="flex items-center gap-2">
+                  <Checkbox
+                    checked={retryAny}
+                    disabled={disabled}
+                    id="retryOn-any"
+                    onCheckedChange={(checked) =>
+                      onUpdateConfig("retryOn", checked === true ? "any" : "")
+                    }
+                  />
+                  <Label className="font-normal" htmlFor="retryOn-any">
+                    Any error
+                  </Label>
+                </div>
+                {!retryAny &&
+                  RETRYABLE_ERROR_KINDS.map((kind) => (
+                    <div className="flex items-center gap-2" key={kind}>
+                      <Checkbox
+                        checked={selectedKinds.includes(kind)}
+                        disabled={disabled}
+                        id={`retryOn-${kind}`}
+                        onCheckedChange={(checked) =>
+                          toggleKind(kind, checked === true)
+                        }
+                      />
+                      <Label
+                        className="font-normal"
+                        htmlFor={`retryOn-${kind}`}
+                      >
+                        {ERROR_KIND_LABELS[kind]}
+                      </Label>
+                    </div>
+                  ))}
+              </div>
+
+              <p className="text-muted-foreground text-xs">
+                Transaction-sending actions are only retried when no transaction
+                was broadcast during the failed attempt.
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
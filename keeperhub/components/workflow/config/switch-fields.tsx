@@ -0,0 +1,225 @@
+"use client";
+
+import { useSetAtom } from "jotai";
+import { Plus, Trash2 } from "lucide-react";
+import { nanoid } from "nanoid";
+import { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { TemplateBadgeInput } from "@/components/ui/template-badge-input";
+import {
+  parseSwitchCases,
+  type SwitchCase,
+  type SwitchCaseType,
+} from "@/keeperhub/lib/switch-cases";
+import { validateSwitchCases } from "@/lib/condition-validator";
+import { autosaveAtom, edgesAtom } from "@/lib/workflow-store";
+
+type SwitchFieldsProps = {
+  config: Record<string, unknown>;
+  onUpdateConfig: (key: string, value: string) => void;
+  disabled: boolean;
+  nodeId?: string;
+};
+
+function safeParseCases(raw: unknown): SwitchCase[] {
+  try {
+    return parseSwitchCases(raw);
+  } catch {
+    return [];
+  }
+}
+
+function CaseValueInputs({
+  switchCase,
+  disabled,
+  onChange,
+}: {
+  switchCase: SwitchCase;
+  disabled: boolean;
+  onChange: (patch: Partial<SwitchCase>) => void;
+}): React.ReactNode {
+  if (switchCase.type === "range") {
+    return (
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          disabled={disabled}
+          onChange={(e) => onChange({ min: e.target.value })}
+          placeholder="Min (inclusive)"
+          value={switchCase.min ?? ""}
+        />
+        <Input
+          disabled={disabled}
+          onChange={(e) => onChange({ max: e.target.value })}
+          placeholder="Max (exclusive)"
+          value={switchCase.max ?? ""}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <Input
+      className={switchCase.type === "regex" ? "font-mono" : undefined}
+      disabled={disabled}
+      onChange={(e) => onChange({ value: e.target.value })}
+      placeholder={
+        switchCase.type === "regex" ? "e.g., ^0x[a-f0-9]+$" : "e.g., high"
+      }
+      value={switchCase.value ?? ""}
+    />
+  );
+}
+
+export function SwitchFields({
+  config,
+  onUpdateConfig,
+  disabled,
+  nodeId,
+}: SwitchFieldsProps): React.ReactNode {
+  const setEdges = useSetAtom(edgesAtom);
+  const triggerAutosave = useSetAtom(autosaveAtom);
+  const cases = useMemo(() => safeParseCases(config?.cases), [config?.cases]);
+  const validation = useMemo(
+    () => (cases.length > 0 ? validateSwitchCases(cases) : null),
+    [cases]
+  );
+
+  function updateCases(updated: SwitchCase[]): void {
+    onUpdateConfig("cases", updated.length > 0 ? JSON.stringify(updated) : "");
+  }
+
+  function addCase(): void {
+    updateCases([
+      ...cases,
+      {
+        id: `case-${nanoid(6)}`,
+        label: `Case ${cases.length + 1}`,
+        type: "equals",
+        value: "",
+      },
+    ]);
+  }
+
+  function updateCase(id: string, patch: Partial<SwitchCase>): void {
+    updateCases(cases.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+  }
+
+  function removeCase(id: string): void {
+    updateCases(cases.filter((c) => c.id !== id));
+    // Drop edges that left the removed case's handle so they don't dangle
+    if (nodeId) {
+      setEdges((currentEdges) =>
+        currentEdges.filter(
+          (edge) => !(edge.source === nodeId && edge.sourceHandle === id)
+        )
+      );
+      triggerAutosave({ immediate: true });
+    }
+  }
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="switchValue">Value</Label>
+        <TemplateBadgeInput
+          disabled={disabled}
+          id="switchValue"
+          onChange={(value) => onUpdateConfig("switchValue", value)}
+          placeholder="e.g., {{Assess Risk.riskLevel}}"
+          value={(config?.switchValue as string) || ""}
+        />
+        <p className="text-muted-foreground text-xs">
+          The value to route on. Use @ to reference previous node outputs.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Cases</Label>
+        {cases.map((switchCase, index) => (
+          <div
+            className="space-y-2 rounded-md border border-border p-3"
+            key={switchCase.id}
+          >
+            <div className="flex items-center gap-2">
+              <span className="text-muted-foreground text-xs">
+                {index + 1}.
+              </span>
+              <Input
+                className="h-8"
+                disabled={disabled}
+                onChange={(e) =>
+                  updateCase(switchCase.id, { label: e.target.value })
+                }
+                placeholder="Case name"
+                value={switchCase.label}
+              />
+              <Button
+                className="h-6 w-6 shrink-0 text-muted-foreground hover:text-destructive"
+                disabled={disabled}
+                onClick={() => removeCase(switchCase.id)}
+                size="icon"
+                type="button"
+                variant="ghost"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+            <Select
+              disabled={disabled}
+              onValueChange={(value) =>
+                updateCase(switchCase.id, { type: value as SwitchCaseType })
+              }
+              value={switchCase.type}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="equals">Equals</SelectItem>
+                <SelectItem value="range">Number range</SelectItem>
+                <SelectItem value="regex">Matches regex</SelectItem>
+              </SelectContent>
+            </Select>
+            <CaseValueInputs
+              disabled={disabled}
+              onChange={(patch) => updateCase(switchCase.id, patch)}
+              switchCase={switchCase}
+            />
+          </div>
+        ))}
+        <Button
+          className="w-full"
+          disabled={disabled}
+          onClick={addCase}
+          size="sm"
+          type="button"
+          variant="outline"
+        >
+          <Plus className="mr-1 h-3.5 w-3.5" />
+          Add case
+        </Button>
+        {validation && !validation.valid && (
+          <p className="text-xs text-yellow-600">{validation.error}</p>
+        )}
+      </div>
+
+      <div className="rounded-lg border bg-muted/30 p-3">
+        <p className="text-muted-foreground text-sm">
+          Cases are checked in order and only the first match runs. Each case
+          has its own output on the node; the{" "}
+          <code className="text-xs">default</code> output runs when no case
+          matches.
+        </p>
+      </div>
+    </>
+  );
+}
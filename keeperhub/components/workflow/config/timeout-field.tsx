@@ -0,0 +1,61 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  MAX_NODE_TIMEOUT_SECONDS,
+  MAX_WORKFLOW_TIMEOUT_SECONDS,
+} from "@/keeperhub/lib/execution-timeouts";
+
+type TimeoutFieldProps = {
+  config: Record<string, unknown>;
+  onUpdateConfig: (key: string, value: string) => void;
+  disabled: boolean;
+  /** "node" edits `timeoutSeconds`, "workflow" edits `workflowTimeoutSeconds` */
+  scope: "node" | "workflow";
+};
+
+const SCOPE_SETTINGS = {
+  node: {
+    configKey: "timeoutSeconds",
+    label: "Timeout (seconds)",
+    max: MAX_NODE_TIMEOUT_SECONDS,
+    help: "Fail this step when a single attempt runs longer than this. Leave empty for no limit.",
+  },
+  workflow: {
+    configKey: "workflowTimeoutSeconds",
+    label: "Workflow Timeout (seconds)",
+    max: MAX_WORKFLOW_TIMEOUT_SECONDS,
+    help: "Stop the whole run when it takes longer than this. Leave empty for no limit.",
+  },
+} as const;
+
+export function TimeoutField({
+  config,
+  onUpdateConfig,
+  disabled,
+  scope,
+}: TimeoutFieldProps): React.ReactNode {
+  const { configKey, label, max, help } = SCOPE_SETTINGS[scope];
+
+  return (
+    <div className="space-y-2">
+      <Label className="ml-1" htmlFor={configKey}>
+        {label}
+      </Label>
+      <Input
+        disabled={disabled}
+        id={configKey}
+        max={max}
+        min={1}
+        onChange={(e) => onUpdateConfig(configKey, e.target.value)}
+        placeholder="No limit"
+        type="number"
+        value={(config[configKey] as string) || ""}
+      />
+      <p className="text-muted-foreground text-xs">
+        {help} (max {max})
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useAtomValue } from "jotai";
+import { useMemo } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DEFAULT_MAX_WAIT_SECONDS,
+  DEFAULT_POLL_INTERVAL_SECONDS,
+  isPollableAction,
+  MAX_WAIT_SECONDS,
+  MIN_POLL_INTERVAL_SECONDS,
+} from "@/keeperhub/lib/wait-until";
+import { nodesAtom } from "@/lib/workflow-store";
+
+type WaitUntilFieldsProps = {
+  config: Record<string, unknown>;
+  onUpdateConfig: (key: string, value: string) => void;
+  disabled: boolean;
+  nodeId?: string;
+  /** Condition expression field, rendered between the read and the timing */
+  children: React.ReactNode;
+};
+
+export function WaitUntilFields({
+  config,
+  onUpdateConfig,
+  disabled,
+  nodeId,
+  children,
+}: WaitUntilFieldsProps): React.ReactNode {
+  const nodes = useAtomValue(nodesAtom);
+  const readNodes = useMemo(
+    () =>
+      nodes.filter(
+        (node) =>
+          node.id !== nodeId &&
+          isPollableAction(node.data.config?.actionType as string | undefined)
+      ),
+    [nodes, nodeId]
+  );
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label className="ml-1" htmlFor="pollNodeId">
+          Read to Repeat
+        </Label>
+        <Select
+          disabled={disabled}
+          onValueChange={(value) => onUpdateConfig("pollNodeId", value)}
+          value={(config?.pollNodeId as string) || undefined}
+        >
+          <SelectTrigger className="w-full" id="pollNodeId">
+            <SelectValue placeholder="Select a read step" />
+          </SelectTrigger>
+          <SelectContent>
+            {readNodes.map((node) => (
+              <SelectItem key={node.id} value={node.id}>
+                {node.data.label || (node.data.config?.actionType as string)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-muted-foreground text-xs">
+          A Read Contract, Check Balance or HTTP Request step that runs before
+          this one. It is repeated until the condition holds; later steps see
+          its final output.
+        </p>
+      </div>
+
+      {children}
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label className="ml-1" htmlFor="pollIntervalSeconds">
+            Interval (seconds)
+          </Label>
+          <Input
+            disabled={disabled}
+            id="pollIntervalSeconds"
+            min={MIN_POLL_INTERVAL_SECONDS}
+            onChange={(e) =>
+              onUpdateConfig("pollIntervalSeconds", e.target.value)
+            }
+            placeholder={String(DEFAULT_POLL_INTERVAL_SECONDS)}
+            type="number"
+            value={(config?.pollIntervalSeconds as string) || ""}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="ml-1" htmlFor="maxWaitSeconds">
+            Max Wait (seconds)
+          </Label>
+          <Input
+            disabled={disabled}
+            id="maxWaitSeconds"
+            max={MAX_WAIT_SECONDS}
+            min={MIN_POLL_INTERVAL_SECONDS}
+            onChange={(e) => onUpdateConfig("maxWaitSeconds", e.target.value)}
+            placeholder={String(DEFAULT_MAX_WAIT_SECONDS)}
+            type="number"
+            value={(config?.maxWaitSeconds as string) || ""}
+          />
+        </div>
+      </div>
+      <p className="ml-1 text-muted-foreground text-xs">
+        The step fails when the condition is still false after the max wait (up
+        to {MAX_WAIT_SECONDS / 86_400} days).
+      </p>
+    </>
+  );
+}
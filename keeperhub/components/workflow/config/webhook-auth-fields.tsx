@@ -0,0 +1,272 @@
+"use client";
+
+import { Copy, Eye, EyeOff, RefreshCw } from "lucide-react";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DEFAULT_SIGNATURE_HEADER,
+  DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+  getWebhookAuthMode,
+  MAX_SIGNATURE_TOLERANCE_SECONDS,
+  WEBHOOK_SECRET_ROTATION_GRACE_SECONDS,
+  WEBHOOK_SIGNATURE_ALGORITHMS,
+} from "@/keeperhub/lib/webhook-signature";
+import { api, type WebhookSecretResponse } from "@/lib/api-client";
+
+type WebhookAuthFieldsProps = {
+  config: Record<string, unknown>;
+  onUpdateConfig: (key: string, value: string) => void;
+  disabled: boolean;
+  workflowId?: string;
+};
+
+/** Signing secret of the workflow, with reveal, copy and rotate */
+function WebhookSecretField({
+  disabled,
+  workflowId,
+}: {
+  disabled: boolean;
+  workflowId?: string;
+}): React.ReactNode {
+  const [secret, setSecret] = useState<WebhookSecretResponse | null>(null);
+  const [revealed, setRevealed] = useState(false);
+  const [rotating, setRotating] = useState(false);
+
+  useEffect(() => {
+    if (!workflowId) {
+      return;
+    }
+    api.workflow
+      .getWebhookSecret(workflowId)
+      .then(setSecret)
+      .catch((error: unknown) => {
+        console.error("Failed to load webhook secret:", error);
+      });
+  }, [workflowId]);
+
+  const handleRotate = async (): Promise<void> => {
+    if (!workflowId) {
+      return;
+    }
+    setRotating(true);
+    try {
+      setSecret(await api.workflow.rotateWebhookSecret(workflowId));
+      setRevealed(true);
+      toast.success("Webhook secret generated");
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to rotate secret"
+      );
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  const handleCopy = (): void => {
+    if (secret?.secret) {
+      navigator.clipboard.writeText(secret.secret);
+      toast.success("Webhook secret copied to clipboard");
+    }
+  };
+
+  const hasSecret = Boolean(secret?.secret);
+  let secretDisplay = "No secret yet";
+  if (!workflowId) {
+    secretDisplay = "Save workflow to generate a secret";
+  } else if (secret?.secret) {
+    secretDisplay = revealed ? secret.secret : "•".repeat(32);
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label className="ml-1">Signing Secret</Label>
+      <div className="flex gap-2">
+        <Input className="font-mono text-xs" disabled value={secretDisplay} />
+        <Button
+          disabled={!hasSecret}
+          onClick={() => setRevealed(!revealed)}
+          size="icon"
+          variant="outline"
+        >
+          {revealed ? (
+            <EyeOff className="h-4 w-4" />
+          ) : (
+            <Eye className="h-4 w-4" />
+          )}
+        </Button>
+        <Button
+          disabled={!hasSecret}
+          onClick={handleCopy}
+          size="icon"
+          variant="outline"
+        >
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+      <Button
+        disabled={disabled || !workflowId || rotating}
+        onClick={handleRotate}
+        size="sm"
+        variant="outline"
+      >
+        <RefreshCw className="mr-2 h-3 w-3" />
+        {hasSecret ? "Rotate Secret" : "Generate Secret"}
+      </Button>
+      {secret?.secret && secret.previousSecretExpiresAt && (
+        <p className="text-muted-foreground text-xs">
+          The previous secret is accepted until{" "}
+          {new Date(secret.previousSecretExpiresAt).toLocaleString()}.
+        </p>
+      )}
+      <p className="text-muted-foreground text-xs">
+        Paste this secret into the sender&apos;s webhook settings. After a
+        rotation the old secret keeps working for{" "}
+        {WEBHOOK_SECRET_ROTATION_GRACE_SECONDS / 3600} hours.
+      </p>
+    </div>
+  );
+}
+
+/**
+ * How a Webhook trigger authenticates requests: a KeeperHub API key, or an
+ * HMAC signature made with the workflow's signing secret.
+ */
+export function WebhookAuthFields({
+  config,
+  onUpdateConfig,
+  disabled,
+  workflowId,
+}: WebhookAuthFieldsProps): React.ReactNode {
+  const mode = getWebhookAuthMode(config);
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label className="ml-1" htmlFor="webhookAuth">
+          Authentication
+        </Label>
+        <Select
+          disabled={disabled}
+          onValueChange={(value) => onUpdateConfig("webhookAuth", value)}
+          value={mode}
+        >
+          <SelectTrigger className="w-full" id="webhookAuth">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="apiKey">
+              API key (Authorization header)
+            </SelectItem>
+            <SelectItem value="hmac">HMAC signature</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-muted-foreground text-xs">
+          {mode === "hmac"
+            ? "Requests must be signed with the secret below, as sent by GitHub, Alchemy Notify or Stripe-style providers."
+            : "Requests must send an API key of the workflow owner as a Bearer token."}
+        </p>
+      </div>
+
+      {mode === "hmac" && (
+        <>
+          <WebhookSecretField disabled={disabled} workflowId={workflowId} />
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label className="ml-1" htmlFor="webhookSignatureHeader">
+                Signature Header
+              </Label>
+              <Input
+                disabled={disabled}
+                id="webhookSignatureHeader"
+                onChange={(e) =>
+                  onUpdateConfig("webhookSignatureHeader", e.target.value)
+                }
+                placeholder={DEFAULT_SIGNATURE_HEADER}
+                value={(config.webhookSignatureHeader as string) || ""}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="ml-1" htmlFor="webhookSignatureAlgorithm">
+                Algorithm
+              </Label>
+              <Select
+                disabled={disabled}
+                onValueChange={(value) =>
+                  onUpdateConfig("webhookSignatureAlgorithm", value)
+                }
+                value={(config.webhookSignatureAlgorithm as string) || "sha256"}
+              >
+                <SelectTrigger
+                  className="w-full"
+                  id="webhookSignatureAlgorithm"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WEBHOOK_SIGNATURE_ALGORITHMS.map((algorithm) => (
+                    <SelectItem key={algorithm} value={algorithm}>
+                      HMAC-{algorithm.toUpperCase()}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label className="ml-1" htmlFor="webhookTimestampHeader">
+                Timestamp Header
+              </Label>
+              <Input
+                disabled={disabled}
+                id="webhookTimestampHeader"
+                onChange={(e) =>
+                  onUpdateConfig("webhookTimestampHeader", e.target.value)
+                }
+                placeholder="None"
+                value={(config.webhookTimestampHeader as string) || ""}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="ml-1" htmlFor="webhookSignatureTolerance">
+                Tolerance (seconds)
+              </Label>
+              <Input
+                disabled={disabled}
+                id="webhookSignatureTolerance"
+                max={MAX_SIGNATURE_TOLERANCE_SECONDS}
+                min={1}
+                onChange={(e) =>
+                  onUpdateConfig("webhookSignatureTolerance", e.target.value)
+                }
+                placeholder={String(DEFAULT_SIGNATURE_TOLERANCE_SECONDS)}
+                type="number"
+                value={(config.webhookSignatureTolerance as string) || ""}
+              />
+            </div>
+          </div>
+          <p className="ml-1 text-muted-foreground text-xs">
+            The signature is the hex or base64 HMAC of the raw body, optionally
+            prefixed with the algorithm (sha256=...). With a timestamp header,
+            the signed payload is &quot;timestamp.body&quot; and requests older
+            than the tolerance are rejected; a t=...,v1=... signature carries
+            its own timestamp. A GET request signs &quot;GET ?query&quot; in
+            place of the body.
+          </p>
+        </>
+      )}
+    </>
+  );
+}
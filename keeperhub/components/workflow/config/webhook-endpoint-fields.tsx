@@ -0,0 +1,123 @@
+"use client";
+
+import { Copy } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useOrganization } from "@/keeperhub/lib/hooks/use-organization";
+import {
+  buildWebhookPathUrl,
+  formatWebhookMethods,
+  getWebhookMethods,
+  getWebhookPath,
+  WEBHOOK_METHODS,
+  type WebhookMethod,
+} from "@/keeperhub/lib/webhook-endpoint";
+
+type WebhookEndpointFieldsProps = {
+  config: Record<string, unknown>;
+  onUpdateConfig: (key: string, value: string) => void;
+  disabled: boolean;
+};
+
+/** HTTP methods a Webhook trigger accepts and its org-scoped vanity path */
+export function WebhookEndpointFields({
+  config,
+  onUpdateConfig,
+  disabled,
+}: WebhookEndpointFieldsProps): React.ReactNode {
+  const { organization } = useOrganization();
+  const methods = getWebhookMethods(config);
+  const pathResult = getWebhookPath(config);
+  const orgSlug = organization?.slug;
+  const origin = typeof window !== "undefined" ? window.location.origin : "";
+  const vanityUrl =
+    orgSlug && "path" in pathResult && pathResult.path
+      ? buildWebhookPathUrl(origin, orgSlug, pathResult.path)
+      : "";
+
+  const handleToggleMethod = (method: WebhookMethod, checked: boolean) => {
+    const next = checked
+      ? [...methods, method]
+      : methods.filter((existing) => existing !== method);
+    // At least one method stays selected
+    if (next.length > 0) {
+      onUpdateConfig("webhookMethods", formatWebhookMethods(next));
+    }
+  };
+
+  const handleCopyVanityUrl = () => {
+    if (vanityUrl) {
+      navigator.clipboard.writeText(vanityUrl);
+      toast.success("Webhook URL copied to clipboard");
+    }
+  };
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label className="ml-1">Methods</Label>
+        <div className="flex gap-4">
+          {WEBHOOK_METHODS.map((method) => (
+            <div className="flex items-center gap-2" key={method}>
+              <Checkbox
+                checked={methods.includes(method)}
+                disabled={disabled}
+                id={`webhookMethod-${method}`}
+                onCheckedChange={(checked) =>
+                  handleToggleMethod(method, checked === true)
+                }
+              />
+              <Label
+                className="font-mono text-xs"
+                htmlFor={`webhookMethod-${method}`}
+              >
+                {method}
+              </Label>
+            </div>
+          ))}
+        </div>
+        <p className="text-muted-foreground text-xs">
+          A GET request's query parameters stand in for its body.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="ml-1" htmlFor="webhookPath">
+          Custom Path (optional)
+        </Label>
+        <div className="flex items-center gap-1">
+          <span className="shrink-0 font-mono text-muted-foreground text-xs">
+            /hooks/{orgSlug ?? "{organization}"}/
+          </span>
+          <Input
+            className="font-mono text-xs"
+            disabled={disabled || !orgSlug}
+            id="webhookPath"
+            onChange={(e) => onUpdateConfig("webhookPath", e.target.value)}
+            placeholder="alerts/uptime"
+            value={(config?.webhookPath as string) || ""}
+          />
+        </div>
+        {"error" in pathResult && (
+          <p className="text-destructive text-xs">{pathResult.error}</p>
+        )}
+        {vanityUrl && (
+          <div className="flex gap-2">
+            <Input className="font-mono text-xs" disabled value={vanityUrl} />
+            <Button onClick={handleCopyVanityUrl} size="icon" variant="outline">
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+        <p className="text-muted-foreground text-xs">
+          {orgSlug
+            ? "Share this URL instead of the one with the workflow ID. It takes effect once the workflow is saved."
+            : "Custom paths are available to workflows of an organization."}
+        </p>
+      </div>
+    </>
+  );
+}
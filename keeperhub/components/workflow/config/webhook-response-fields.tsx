@@ -0,0 +1,190 @@
+"use client";
+
+import { useAtomValue } from "jotai";
+import { useMemo } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  DEFAULT_RESPONSE_MAX_WAIT_SECONDS,
+  DEFAULT_RESPONSE_STATUS,
+  MAX_RESPONSE_MAX_WAIT_SECONDS,
+  parseResponseHeaders,
+} from "@/keeperhub/lib/webhook-response";
+import { nodesAtom } from "@/lib/workflow-store";
+
+type WebhookResponseFieldsProps = {
+  config: Record<string, unknown>;
+  onUpdateConfig: (key: string, value: string) => void;
+  disabled: boolean;
+};
+
+const LAST_STEP_VALUE = "__last__";
+
+/**
+ * What a Webhook trigger answers: the execution id at once, or a step's
+ * output once the workflow finishes.
+ */
+export function WebhookResponseFields({
+  config,
+  onUpdateConfig,
+  disabled,
+}: WebhookResponseFieldsProps): React.ReactNode {
+  const nodes = useAtomValue(nodesAtom);
+  const actionNodes = useMemo(
+    () => nodes.filter((node) => node.data.type === "action"),
+    [nodes]
+  );
+  const isSync = config?.webhookResponseMode === "sync";
+  const headersResult = parseResponseHeaders(config?.webhookResponseHeaders);
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label className="ml-1" htmlFor="webhookResponseMode">
+          Response
+        </Label>
+        <Select
+          disabled={disabled}
+          onValueChange={(value) =>
+            onUpdateConfig("webhookResponseMode", value)
+          }
+          value={isSync ? "sync" : "async"}
+        >
+          <SelectTrigger className="w-full" id="webhookResponseMode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="async">Execution ID, immediately</SelectItem>
+            <SelectItem value="sync">Step output, when finished</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-muted-foreground text-xs">
+          {isSync
+            ? "The request is held open until the workflow finishes and answered with a step's output."
+            : "The request is answered at once with the execution ID; the workflow runs in the background."}
+        </p>
+      </div>
+
+      {isSync && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label className="ml-1" htmlFor="webhookResponseNodeId">
+                Response Step
+              </Label>
+              <Select
+                disabled={disabled}
+                onValueChange={(value) =>
+                  onUpdateConfig(
+                    "webhookResponseNodeId",
+                    value === LAST_STEP_VALUE ? "" : value
+                  )
+                }
+                value={
+                  (config?.webhookResponseNodeId as string) || LAST_STEP_VALUE
+                }
+              >
+                <SelectTrigger className="w-full" id="webhookResponseNodeId">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={LAST_STEP_VALUE}>Last step run</SelectItem>
+                  {actionNodes.map((node) => (
+                    <SelectItem key={node.id} value={node.id}>
+                      {node.data.label ||
+                        (node.data.config?.actionType as string)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="ml-1" htmlFor="webhookResponseField">
+                Field (optional)
+              </Label>
+              <Input
+                disabled={disabled}
+                id="webhookResponseField"
+                onChange={(e) =>
+                  onUpdateConfig("webhookResponseField", e.target.value)
+                }
+                placeholder="result"
+                value={(config?.webhookResponseField as string) || ""}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-2">
+              <Label className="ml-1" htmlFor="webhookResponseStatus">
+                Status Code
+              </Label>
+              <Input
+                disabled={disabled}
+                id="webhookResponseStatus"
+                max={599}
+                min={200}
+                onChange={(e) =>
+                  onUpdateConfig("webhookResponseStatus", e.target.value)
+                }
+                placeholder={String(DEFAULT_RESPONSE_STATUS)}
+                type="number"
+                value={(config?.webhookResponseStatus as string) || ""}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label className="ml-1" htmlFor="webhookResponseMaxWait">
+                Max Wait (seconds)
+              </Label>
+              <Input
+                disabled={disabled}
+                id="webhookResponseMaxWait"
+                max={MAX_RESPONSE_MAX_WAIT_SECONDS}
+                min={1}
+                onChange={(e) =>
+                  onUpdateConfig("webhookResponseMaxWait", e.target.value)
+                }
+                placeholder={String(DEFAULT_RESPONSE_MAX_WAIT_SECONDS)}
+                type="number"
+                value={(config?.webhookResponseMaxWait as string) || ""}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="ml-1" htmlFor="webhookResponseHeaders">
+              Response Headers (optional)
+            </Label>
+            <Textarea
+              className="font-mono text-xs"
+              disabled={disabled}
+              id="webhookResponseHeaders"
+              onChange={(e) =>
+                onUpdateConfig("webhookResponseHeaders", e.target.value)
+              }
+              placeholder={'{ "Cache-Control": "no-store" }'}
+              rows={3}
+              value={(config?.webhookResponseHeaders as string) || ""}
+            />
+            {"error" in headersResult && (
+              <p className="text-destructive text-xs">{headersResult.error}</p>
+            )}
+          </div>
+          <p className="ml-1 text-muted-foreground text-xs">
+            A failed run answers 500 with its error. A run still going after the
+            max wait (up to {MAX_RESPONSE_MAX_WAIT_SECONDS} seconds) answers 202
+            with the execution ID and carries on.
+          </p>
+        </>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,124 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { TemplateBadgeTextarea } from "@/components/ui/template-badge-textarea";
+import {
+  DEFAULT_WHILE_MAX_ITERATIONS,
+  MAX_WHILE_ITERATIONS,
+  parseWhileState,
+} from "@/keeperhub/lib/while-loop";
+
+type WhileFieldsProps = {
+  config: Record<string, unknown>;
+  onUpdateConfig: (key: string, value: string) => void;
+  disabled: boolean;
+  /** Condition expression field, rendered above the state mappings */
+  children: React.ReactNode;
+};
+
+const TEMPLATE_PATTERN = /\{\{[^}]*\}\}/g;
+
+/**
+ * Check a state mapping is a JSON object, with templates swapped for a
+ * placeholder value since they only resolve at run time.
+ */
+function getStateError(raw: string, name: string): string | null {
+  if (!raw.trim()) {
+    return null;
+  }
+  const result = parseWhileState(raw.replace(TEMPLATE_PATTERN, "0"), name);
+  return "error" in result ? result.error : null;
+}
+
+export function WhileFields({
+  config,
+  onUpdateConfig,
+  disabled,
+  children,
+}: WhileFieldsProps): React.ReactNode {
+  const initialState = (config?.initialState as string) || "";
+  const nextState = (config?.nextState as string) || "";
+  const initialStateError = getStateError(initialState, "Initial state");
+  const nextStateError = getStateError(nextState, "Next state");
+
+  return (
+    <>
+      {children}
+
+      <div className="space-y-2">
+        <Label className="ml-1" htmlFor="initialState">
+          Initial State (JSON)
+        </Label>
+        <TemplateBadgeTextarea
+          disabled={disabled}
+          id="initialState"
+          onChange={(value) => onUpdateConfig("initialState", value)}
+          placeholder='e.g., {"cursor": "", "fromBlock": "{{Get Block.number}}"}'
+          rows={3}
+          value={initialState}
+        />
+        {initialStateError && (
+          <p className="text-xs text-yellow-600">{initialStateError}</p>
+        )}
+        <p className="text-muted-foreground text-xs">
+          The state of the first iteration. Inside the loop, use @ to reference
+          <code className="text-xs"> While.state</code> and{" "}
+          <code className="text-xs">While.iteration</code> (starting at 0).
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="ml-1" htmlFor="nextState">
+          Next State (JSON)
+        </Label>
+        <TemplateBadgeTextarea
+          disabled={disabled}
+          id="nextState"
+          onChange={(value) => onUpdateConfig("nextState", value)}
+          placeholder='e.g., {"cursor": "{{Fetch Page.data.next}}"}'
+          rows={3}
+          value={nextState}
+        />
+        {nextStateError && (
+          <p className="text-xs text-yellow-600">{nextStateError}</p>
+        )}
+        <p className="text-muted-foreground text-xs">
+          Resolved after every iteration against that iteration&apos;s outputs
+          and passed to the next one. Leave empty to keep the state as is.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label className="ml-1" htmlFor="maxIterations">
+          Max Iterations
+        </Label>
+        <Input
+          disabled={disabled}
+          id="maxIterations"
+          max={MAX_WHILE_ITERATIONS}
+          min={1}
+          onChange={(e) => {
+            const raw = e.target.value.replace(/[^0-9]/g, "");
+            onUpdateConfig("maxIterations", raw);
+          }}
+          placeholder={String(DEFAULT_WHILE_MAX_ITERATIONS)}
+          type="number"
+          value={(config?.maxIterations as string) || ""}
+        />
+        <p className="text-muted-foreground text-xs">
+          The step fails when the condition still holds after this many
+          iterations (up to {MAX_WHILE_ITERATIONS}).
+        </p>
+      </div>
+
+      <div className="rounded-lg border bg-muted/30 p-3">
+        <p className="text-muted-foreground text-sm">
+          The condition is checked before every iteration. Connect the loop body
+          to the loop handle and end it with a Collect node on the done handle,
+          as with For Each. Iterations run one at a time.
+        </p>
+      </div>
+    </>
+  );
+}
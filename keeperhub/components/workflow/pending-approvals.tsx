@@ -0,0 +1,116 @@
+"use client";
+
+import { Check, RefreshCw, X } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { type Approval, api } from "@/lib/api-client";
+
+type PendingApprovalsProps = {
+  workflowId: string;
+  nodeId: string;
+};
+
+/**
+ * Approval requests of one Approval node that are waiting for a decision,
+ * with buttons to approve or reject them.
+ */
+export function PendingApprovals({
+  workflowId,
+  nodeId,
+}: PendingApprovalsProps): React.ReactNode {
+  const [approvals, setApprovals] = useState<Approval[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const pending = await api.approval.getAll({
+        status: "pending",
+        workflowId,
+      });
+      setApprovals(pending.filter((approval) => approval.nodeId === nodeId));
+    } catch (error) {
+      console.error("Failed to load approvals:", error);
+    } finally {
+      setLoading(false);
+    }
+  }, [workflowId, nodeId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const decide = async (
+    approval: Approval,
+    decision: "approved" | "rejected"
+  ): Promise<void> => {
+    setDecidingId(approval.id);
+    try {
+      await api.approval.decide(approval.id, { decision });
+      toast.success(
+        decision === "approved" ? "Request approved" : "Request rejected"
+      );
+      await load();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to decide request"
+      );
+    } finally {
+      setDecidingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="ml-1">Waiting for Approval</Label>
+        <Button
+          disabled={loading}
+          onClick={load}
+          size="icon"
+          title="Refresh"
+          variant="ghost"
+        >
+          <RefreshCw className="h-4 w-4" />
+        </Button>
+      </div>
+      {approvals.length === 0 ? (
+        <p className="ml-1 text-muted-foreground text-xs">
+          No runs are waiting at this step.
+        </p>
+      ) : (
+        approvals.map((approval) => (
+          <div className="space-y-2 rounded-md border p-3" key={approval.id}>
+            <p className="whitespace-pre-wrap text-sm">{approval.message}</p>
+            <p className="text-muted-foreground text-xs">
+              Run {approval.executionId} - expires{" "}
+              {new Date(approval.expiresAt).toLocaleString()}
+            </p>
+            <div className="flex gap-2">
+              <Button
+                disabled={decidingId === approval.id}
+                onClick={() => decide(approval, "approved")}
+                size="sm"
+              >
+                <Check className="h-4 w-4" />
+                Approve
+              </Button>
+              <Button
+                disabled={decidingId === approval.id}
+                onClick={() => decide(approval, "rejected")}
+                size="sm"
+                variant="outline"
+              >
+                <X className="h-4 w-4" />
+                Reject
+              </Button>
+            </div>
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
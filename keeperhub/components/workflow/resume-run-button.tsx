@@ -0,0 +1,58 @@
+"use client";
+
+import { Loader2, RotateCcw } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { api } from "@/lib/api-client";
+
+type ResumeRunButtonProps = {
+  executionId: string;
+  /** Called once the resumed run has started */
+  onResumed: () => void;
+};
+
+/**
+ * Resume button shown on failed, timed out and cancelled runs. Starts a new
+ * run that skips the steps which completed and continues from the failure.
+ */
+export function ResumeRunButton({
+  executionId,
+  onResumed,
+}: ResumeRunButtonProps): React.ReactNode {
+  const [isResuming, setIsResuming] = useState(false);
+
+  const handleResume = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setIsResuming(true);
+    try {
+      await api.workflow.resumeExecution(executionId);
+      toast.success("Run resumed. Completed steps will not run again.");
+      onResumed();
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : "Failed to resume run"
+      );
+    } finally {
+      setIsResuming(false);
+    }
+  };
+
+  return (
+    <Button
+      className="h-7 shrink-0 gap-1.5 px-2 text-xs"
+      disabled={isResuming}
+      onClick={handleResume}
+      size="sm"
+      title="Resume this run from the step that failed"
+      variant="outline"
+    >
+      {isResuming ? (
+        <Loader2 className="h-3 w-3 animate-spin" />
+      ) : (
+        <RotateCcw className="h-3 w-3" />
+      )}
+      Resume
+    </Button>
+  );
+}
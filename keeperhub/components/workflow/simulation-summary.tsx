@@ -0,0 +1,106 @@
+"use client";
+
+import { ethers } from "ethers";
+import {
+  isSideEffectPreview,
+  isSimulatedResult,
+  isSimulatedWrite,
+  type SimulatedTransaction,
+} from "@/keeperhub/lib/dry-run";
+
+function formatArg(arg: unknown): string {
+  return typeof arg === "string" ? arg : JSON.stringify(arg);
+}
+
+function SummaryRow({
+  label,
+  children,
+}: {
+  label: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="flex gap-2">
+      <span className="w-24 shrink-0 text-muted-foreground">{label}</span>
+      <span className="min-w-0 break-all font-mono">{children}</span>
+    </div>
+  );
+}
+
+function TransactionSummary({
+  simulation,
+}: {
+  simulation: SimulatedTransaction;
+}) {
+  return (
+    <>
+      <SummaryRow label="To">{simulation.to}</SummaryRow>
+      {simulation.signature && (
+        <SummaryRow label="Function">{simulation.signature}</SummaryRow>
+      )}
+      {simulation.args && simulation.args.length > 0 && (
+        <SummaryRow label="Arguments">
+          {simulation.args.map(formatArg).join(", ")}
+        </SummaryRow>
+      )}
+      <SummaryRow label="Value">
+        {ethers.formatEther(simulation.value)} (native)
+      </SummaryRow>
+      <SummaryRow label="Estimated gas">{simulation.estimatedGas}</SummaryRow>
+    </>
+  );
+}
+
+function SummaryBox({
+  title,
+  children,
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="space-y-1 rounded-lg border border-sky-500/20 bg-sky-500/5 p-3 text-xs">
+      <div className="mb-2 font-medium text-sky-600">{title}</div>
+      {children}
+    </div>
+  );
+}
+
+/**
+ * What a step of a dry run would have done: the decoded transaction a write
+ * would have sent, the message a notification would have delivered, or the
+ * request a side-effect step would have made.
+ */
+export function SimulationSummary({
+  output,
+}: {
+  output: unknown;
+}): React.ReactNode {
+  if (!isSimulatedResult(output)) {
+    return null;
+  }
+
+  if (isSimulatedWrite(output)) {
+    return (
+      <SummaryBox title="Simulated - transaction not sent">
+        <TransactionSummary simulation={output.simulation} />
+      </SummaryBox>
+    );
+  }
+
+  const preview = isSideEffectPreview(output)
+    ? { title: "Skipped - request not sent", payload: output.request.payload }
+    : {
+        title: "Simulated - notification not sent",
+        payload: output.notification.payload,
+      };
+  return (
+    <SummaryBox title={preview.title}>
+      {Object.entries(preview.payload).map(([key, value]) => (
+        <SummaryRow key={key} label={key}>
+          {formatArg(value)}
+        </SummaryRow>
+      ))}
+    </SummaryBox>
+  );
+}
@@ -0,0 +1,76 @@
+"use client";
+
+import { ExternalLink } from "lucide-react";
+import Link from "next/link";
+import type { JSX } from "react";
+import { cn } from "@/lib/utils";
+import { getRelativeTime } from "@/lib/utils/time";
+
+export type ChildExecution = {
+  id: string;
+  workflowId: string;
+  workflowName: string;
+  status: string;
+  startedAt: Date | string;
+  duration: string | null;
+  error: string | null;
+};
+
+type SubWorkflowRunsProps = {
+  childExecutions: ChildExecution[];
+  getStatusDotClass: (status: string) => string;
+  getStatusIcon: (status: string) => JSX.Element;
+};
+
+function formatDuration(duration: string | null): string | null {
+  if (!duration) {
+    return null;
+  }
+  const ms = Number.parseInt(duration, 10);
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(2)}s`;
+}
+
+/**
+ * Sub-workflow runs started by a run's Execute Workflow nodes, listed under
+ * the parent run in the runs panel.
+ */
+export function SubWorkflowRuns({
+  childExecutions,
+  getStatusDotClass,
+  getStatusIcon,
+}: SubWorkflowRunsProps): React.ReactNode {
+  if (childExecutions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 border-t px-4 py-3">
+      <div className="font-medium text-muted-foreground text-xs">
+        Sub-workflow runs
+      </div>
+      {childExecutions.map((child) => (
+        <Link
+          className="flex items-center gap-2 rounded-md px-2 py-1.5 text-xs transition-colors hover:bg-muted"
+          href={`/workflows/${child.workflowId}`}
+          key={child.id}
+        >
+          <div
+            className={cn(
+              "flex size-4 shrink-0 items-center justify-center rounded-full",
+              getStatusDotClass(child.status)
+            )}
+          >
+            {getStatusIcon(child.status)}
+          </div>
+          <span className="min-w-0 flex-1 truncate font-medium">
+            {child.workflowName}
+          </span>
+          <span className="font-mono text-muted-foreground tabular-nums">
+            {formatDuration(child.duration) ?? getRelativeTime(child.startedAt)}
+          </span>
+          <ExternalLink className="h-3 w-3 text-muted-foreground" />
+        </Link>
+      ))}
+    </div>
+  );
+}
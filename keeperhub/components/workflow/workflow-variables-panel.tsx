@@ -0,0 +1,227 @@
+"use client";
+
+import { Plus, Trash2 } from "lucide-react";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getVariableValueError,
+  isValidVariableName,
+  VARIABLES_NODE_LABEL,
+  WORKFLOW_VARIABLE_TYPES,
+  type WorkflowVariable,
+  type WorkflowVariableType,
+} from "@/keeperhub/lib/workflow-variables";
+
+const VALUE_PLACEHOLDERS: Record<WorkflowVariableType, string> = {
+  text: "Value",
+  number: "0",
+  address: "0x...",
+  boolean: "true or false",
+};
+
+type WorkflowVariablesPanelProps = {
+  variables: WorkflowVariable[];
+  onChange: (variables: WorkflowVariable[]) => void;
+  disabled: boolean;
+};
+
+function VariableRow({
+  variable,
+  onChange,
+  onRemove,
+  disabled,
+}: {
+  variable: WorkflowVariable;
+  onChange: (variable: WorkflowVariable) => void;
+  onRemove: () => void;
+  disabled: boolean;
+}) {
+  const valueError = getVariableValueError(variable.type, variable.value);
+  const isMissing = variable.required && variable.value.trim() === "";
+  const inputId = `workflow-variable-${variable.name}`;
+
+  return (
+    <div className="space-y-1.5 rounded-md border p-2">
+      <div className="flex items-center gap-2">
+        <Label className="min-w-0 flex-1 truncate font-mono" htmlFor={inputId}>
+          {VARIABLES_NODE_LABEL}.{variable.name}
+        </Label>
+        <span className="text-muted-foreground text-xs">{variable.type}</span>
+        {!disabled && (
+          <Button
+            className="size-6 text-muted-foreground"
+            onClick={onRemove}
+            size="icon"
+            title="Remove variable"
+            variant="ghost"
+          >
+            <Trash2 className="size-3.5" />
+          </Button>
+        )}
+      </div>
+      {variable.description && (
+        <p className="text-muted-foreground text-xs">{variable.description}</p>
+      )}
+      <Input
+        aria-invalid={Boolean(valueError) || isMissing}
+        className="font-mono text-xs"
+        disabled={disabled}
+        id={inputId}
+        onChange={(e) => onChange({ ...variable, value: e.target.value })}
+        placeholder={VALUE_PLACEHOLDERS[variable.type]}
+        value={variable.value}
+      />
+      {valueError && <p className="text-destructive text-xs">{valueError}</p>}
+      {!valueError && isMissing && (
+        <p className="text-amber-600 text-xs">
+          Required: fill this in before running the workflow
+        </p>
+      )}
+      <div className="flex items-center gap-2">
+        <Checkbox
+          checked={variable.required === true}
+          disabled={disabled}
+          id={`${inputId}-required`}
+          onCheckedChange={(checked) =>
+            onChange({ ...variable, required: checked === true })
+          }
+        />
+        <Label
+          className="font-normal text-muted-foreground text-xs"
+          htmlFor={`${inputId}-required`}
+        >
+          Required
+        </Label>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Editor for the workflow's variables. Each one is referenced from any
+ * template field as {{Vars.name}}, so a shared value is changed in one place.
+ */
+export function WorkflowVariablesPanel({
+  variables,
+  onChange,
+  disabled,
+}: WorkflowVariablesPanelProps): React.ReactNode {
+  const [newName, setNewName] = useState("");
+  const [newType, setNewType] = useState<WorkflowVariableType>("text");
+  const [newDescription, setNewDescription] = useState("");
+
+  const trimmedName = newName.trim();
+  let nameError: string | undefined;
+  if (trimmedName !== "" && !isValidVariableName(trimmedName)) {
+    nameError =
+      "Use letters, digits and underscores, not starting with a digit";
+  } else if (variables.some((variable) => variable.name === trimmedName)) {
+    nameError = `A variable named "${trimmedName}" already exists`;
+  }
+
+  const handleAdd = () => {
+    if (trimmedName === "" || nameError) {
+      return;
+    }
+    onChange([
+      ...variables,
+      {
+        name: trimmedName,
+        type: newType,
+        value: "",
+        ...(newDescription.trim() === ""
+          ? {}
+          : { description: newDescription.trim() }),
+      },
+    ]);
+    setNewName("");
+    setNewDescription("");
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="ml-1 text-muted-foreground text-xs">
+        Values shared by the steps of this workflow. Reference them as{" "}
+        <code className="font-mono">{`{{${VARIABLES_NODE_LABEL}.name}}`}</code>{" "}
+        in any field.
+      </p>
+      {variables.map((variable) => (
+        <VariableRow
+          disabled={disabled}
+          key={variable.name}
+          onChange={(updated) =>
+            onChange(
+              variables.map((v) => (v.name === variable.name ? updated : v))
+            )
+          }
+          onRemove={() =>
+            onChange(variables.filter((v) => v.name !== variable.name))
+          }
+          variable={variable}
+        />
+      ))}
+      {!disabled && (
+        <div className="space-y-1.5 rounded-md border border-dashed p-2">
+          <div className="flex gap-2">
+            <Input
+              aria-invalid={Boolean(nameError)}
+              className="flex-1 font-mono text-xs"
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  handleAdd();
+                }
+              }}
+              placeholder="variableName"
+              value={newName}
+            />
+            <Select
+              onValueChange={(value) =>
+                setNewType(value as WorkflowVariableType)
+              }
+              value={newType}
+            >
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WORKFLOW_VARIABLE_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Input
+            className="text-xs"
+            onChange={(e) => setNewDescription(e.target.value)}
+            placeholder="Description (optional)"
+            value={newDescription}
+          />
+          {nameError && <p className="text-destructive text-xs">{nameError}</p>}
+          <Button
+            className="w-full"
+            disabled={trimmedName === "" || Boolean(nameError)}
+            onClick={handleAdd}
+            size="sm"
+            variant="outline"
+          >
+            <Plus className="mr-2 size-4" />
+            Add variable
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,6 +11,9 @@
  * - supportedTokens: System-wide default tokens (stablecoins) available on each chain
  * - directExecutions: Audit log for direct API execution requests (transfer, contract-call, check-and-execute)
  * - organizationSpendCaps: Per-organization daily spending limits for direct execution API
+ * - workflowApprovals: Approval requests raised by Approval nodes and who decided them
+ * - workflowWebhookSecrets: Signing secrets of webhook triggers that verify HMAC signatures
+ * - workflowWebhookPaths: Org-scoped vanity paths that webhook triggers are reachable at
  */
 
 import {
@@ -26,7 +29,12 @@ import {
   unique,
 } from "drizzle-orm/pg-core";
 // Note: Using relative paths instead of @/ aliases for drizzle-kit compatibility
-import { organization, users, workflows } from "../../lib/db/schema";
+import {
+  organization,
+  users,
+  workflowExecutions,
+  workflows,
+} from "../../lib/db/schema";
 import { generateId } from "../../lib/utils/id";
 
 /**
@@ -209,6 +217,8 @@ export type NewWalletLock = typeof walletLocks.$inferInsert;
  * - Provide observability into transaction state
  *
  * Status lifecycle: pending -> confirmed | dropped | replaced
+ * A nonce consumed by a send that threw after broadcast is stored as
+ * "unrecorded", with an empty tx hash.
  */
 export const pendingTransactions = pgTable(
   "pending_transactions",
@@ -219,11 +229,12 @@ export const pendingTransactions = pgTable(
     nonce: integer("nonce").notNull(),
     txHash: text("tx_hash").notNull(),
     executionId: text("execution_id").notNull(),
+    nodeId: text("node_id"), // workflow node that sent it, for resuming
     workflowId: text("workflow_id"),
     gasPrice: text("gas_price"), // for stuck tx analysis
     submittedAt: timestamp("submitted_at", { withTimezone: true }).defaultNow(),
     confirmedAt: timestamp("confirmed_at", { withTimezone: true }),
-    status: text("status").default("pending"), // pending, confirmed, dropped, replaced
+    status: text("status").default("pending"), // pending, confirmed, dropped, replaced, unrecorded
   },
   (table) => [
     unique("pending_tx_wallet_chain_nonce").on(
@@ -359,3 +370,114 @@ export const organizationSpendCaps = pgTable("organization_spend_caps", {
 // Type exports for Organization Spend Caps table
 export type OrganizationSpendCap = typeof organizationSpendCaps.$inferSelect;
 export type NewOrganizationSpendCap = typeof organizationSpendCaps.$inferInsert;
+
+/**
+ * Workflow Approvals table
+ *
+ * One row per Approval node reached by an execution. The execution waits
+ * while the row is pending; an org member with at least approverRole decides
+ * it through the approvals API, or it expires at expiresAt.
+ *
+ * NOTE: decidedBy is kept (set null) if the user is deleted so the decision
+ * itself stays on record.
+ */
+export const workflowApprovals = pgTable(
+  "workflow_approvals",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => generateId()),
+    executionId: text("execution_id")
+      .notNull()
+      .references(() => workflowExecutions.id, { onDelete: "cascade" }),
+    workflowId: text("workflow_id")
+      .notNull()
+      .references(() => workflows.id, { onDelete: "cascade" }),
+    organizationId: text("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    nodeId: text("node_id").notNull(),
+    nodeName: text("node_name").notNull(),
+    message: text("message").notNull(),
+    approverRole: text("approver_role").notNull().default("admin"), // member | admin | owner
+    status: text("status").notNull().default("pending"), // pending | approved | rejected | expired | cancelled
+    expiresAt: timestamp("expires_at").notNull(),
+    decidedBy: text("decided_by").references(() => users.id, {
+      onDelete: "set null",
+    }),
+    decidedAt: timestamp("decided_at"),
+    comment: text("comment"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("idx_workflow_approvals_org_status").on(
+      table.organizationId,
+      table.status
+    ),
+    index("idx_workflow_approvals_execution").on(table.executionId),
+  ]
+);
+
+// Type exports for Workflow Approvals table
+export type WorkflowApproval = typeof workflowApprovals.$inferSelect;
+export type NewWorkflowApproval = typeof workflowApprovals.$inferInsert;
+
+/**
+ * Workflow Webhook Secrets table
+ *
+ * The signing secret a Webhook trigger verifies HMAC signatures with, one
+ * per workflow. Secrets are encrypted before storage since they have to be
+ * shown again to configure the sender.
+ *
+ * NOTE: On rotation the old secret moves to previousSecret and keeps
+ * verifying until previousSecretExpiresAt, so senders can be updated
+ * without dropping deliveries.
+ */
+export const workflowWebhookSecrets = pgTable("workflow_webhook_secrets", {
+  workflowId: text("workflow_id")
+    .primaryKey()
+    .references(() => workflows.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(),
+  previousSecret: text("previous_secret"),
+  previousSecretExpiresAt: timestamp("previous_secret_expires_at"),
+  rotatedAt: timestamp("rotated_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Type exports for Workflow Webhook Secrets table
+export type WorkflowWebhookSecret = typeof workflowWebhookSecrets.$inferSelect;
+export type NewWorkflowWebhookSecret =
+  typeof workflowWebhookSecrets.$inferInsert;
+
+/**
+ * Workflow Webhook Paths table
+ *
+ * The vanity path a Webhook trigger is reachable at, as
+ * /hooks/{orgSlug}/{path}, so shared URLs do not expose workflow ids. Synced
+ * from the trigger config when the workflow is saved; a path is unique
+ * within its organization.
+ */
+export const workflowWebhookPaths = pgTable(
+  "workflow_webhook_paths",
+  {
+    workflowId: text("workflow_id")
+      .primaryKey()
+      .references(() => workflows.id, { onDelete: "cascade" }),
+    organizationId: text("organization_id")
+      .notNull()
+      .references(() => organization.id, { onDelete: "cascade" }),
+    path: text("path").notNull(),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [
+    unique("workflow_webhook_paths_org_path").on(
+      table.organizationId,
+      table.path
+    ),
+  ]
+);
+
+// Type exports for Workflow Webhook Paths table
+export type WorkflowWebhookPath = typeof workflowWebhookPaths.$inferSelect;
+export type NewWorkflowWebhookPath = typeof workflowWebhookPaths.$inferInsert;
@@ -3,7 +3,7 @@
  * Defines dynamic output fields for plugin actions based on their configuration
  */
 
-import type { OutputField } from "@/plugins/registry";
+import type { OutputField, OutputFieldType } from "@/plugins/registry";
 
 /**
  * Get output fields for Read Contract action based on ABI and selected function
@@ -60,9 +60,12 @@ export function getReadContractOutputFields(
         outputFields.push({
           field: `result.${outputName}`,
           description: `Return value: ${output.type} (${getDeserializedType(output.type)})`,
+          type: getSolidityValueType(output.type),
         });
+      } else {
+        // Unnamed single output: result is the value itself
+        outputFields[1].type = getSolidityValueType(output.type);
       }
-      // Unnamed single output: just use result directly (already added)
     } else if (outputs.length > 1) {
       // Multiple outputs: result is an object with named fields
       outputs.forEach((output, index) => {
@@ -70,6 +73,7 @@ export function getReadContractOutputFields(
         outputFields.push({
           field: `result.${fieldName}`,
           description: `Return value: ${output.type} (${getDeserializedType(output.type)})`,
+          type: getSolidityValueType(output.type),
         });
       });
     }
@@ -99,3 +103,175 @@ function getDeserializedType(solidityType: string): string {
   }
   return "string";
 }
+
+/**
+ * Get the value type a Solidity type deserializes to, or undefined when it
+ * is not known (tuples)
+ */
+export function getSolidityValueType(
+  solidityType: string
+): OutputFieldType | undefined {
+  if (solidityType.endsWith("]")) {
+    return "array";
+  }
+  if (solidityType.includes("int")) {
+    return "number";
+  }
+  if (solidityType === "bool") {
+    return "boolean";
+  }
+  if (
+    solidityType === "address" ||
+    solidityType === "string" ||
+    solidityType.startsWith("bytes")
+  ) {
+    return "string";
+  }
+  return;
+}
+
+/**
+ * Output fields of the built-in system actions whose output does not depend
+ * on their configuration
+ */
+const SYSTEM_ACTION_OUTPUT_FIELDS: Record<string, OutputField[]> = {
+  "For Each": [
+    {
+      field: "currentItem",
+      description: "Current array element (inside loop body)",
+    },
+    {
+      field: "index",
+      description: "Current iteration index (0-based)",
+      type: "number",
+    },
+    {
+      field: "totalItems",
+      description: "Total number of items in array",
+      type: "number",
+    },
+  ],
+  While: [
+    {
+      field: "state",
+      description:
+        "Current state (inside loop body), or the final state after the loop",
+      type: "object",
+    },
+    {
+      field: "iteration",
+      description: "Current iteration index (0-based, inside loop body)",
+      type: "number",
+    },
+    {
+      field: "iterations",
+      description: "Number of iterations that ran (after the loop)",
+      type: "number",
+    },
+  ],
+  Collect: [
+    {
+      field: "results",
+      description: "Array of outputs from each iteration",
+      type: "array",
+    },
+    {
+      field: "count",
+      description: "Number of completed iterations",
+      type: "number",
+    },
+  ],
+  Switch: [
+    { field: "value", description: "The value that was routed on" },
+    {
+      field: "matchedCase",
+      description: 'Id of the matched case, or "default"',
+      type: "string",
+    },
+    {
+      field: "matchedLabel",
+      description: "Name of the matched case",
+      type: "string",
+    },
+  ],
+  Delay: [
+    {
+      field: "resumeAt",
+      description: "Scheduled resume time (ISO)",
+      type: "string",
+    },
+    {
+      field: "resumedAt",
+      description: "Actual resume time (ISO)",
+      type: "string",
+    },
+    {
+      field: "waitedMs",
+      description: "Time spent waiting in ms",
+      type: "number",
+    },
+  ],
+  "Wait Until": [
+    { field: "result", description: "Output of the final read" },
+    {
+      field: "polls",
+      description: "Number of reads performed",
+      type: "number",
+    },
+    {
+      field: "elapsedMs",
+      description: "Time spent waiting in ms",
+      type: "number",
+    },
+  ],
+  Approval: [
+    {
+      field: "decision",
+      description: '"approved", "rejected" or "expired"',
+      type: "string",
+    },
+    {
+      field: "approved",
+      description: "Whether the request was approved",
+      type: "boolean",
+    },
+    {
+      field: "decidedBy",
+      description: "Member who decided (id, name, email)",
+      type: "object",
+    },
+    { field: "decidedAt", description: "Decision time (ISO)" },
+    { field: "comment", description: "Comment left with the decision" },
+    {
+      field: "waitedMs",
+      description: "Time spent waiting in ms",
+      type: "number",
+    },
+  ],
+  "Execute Workflow": [
+    { field: "output", description: "Final output of the sub-workflow" },
+    {
+      field: "executionId",
+      description: "Execution id of the sub-workflow run",
+      type: "string",
+    },
+    {
+      field: "workflowId",
+      description: "Id of the workflow that ran",
+      type: "string",
+    },
+  ],
+};
+
+/**
+ * Get output fields for a system action (For Each, While, Collect, Switch,
+ * Delay, Wait Until, Approval, Execute Workflow), or undefined for other
+ * actions
+ */
+export function getSystemActionOutputFields(
+  actionType: string | undefined
+): OutputField[] | undefined {
+  return actionType && Object.hasOwn(SYSTEM_ACTION_OUTPUT_FIELDS, actionType)
+    ? SYSTEM_ACTION_OUTPUT_FIELDS[actionType]
+    : undefined;
+}
@@ -0,0 +1,174 @@
+/**
+ * Notifications sent when an execution reaches an Approval node.
+ *
+ * Approvers are emailed through SendGrid, and a link to the workflow is posted
+ * to the Discord and Telegram channels the node names. Every channel is best
+ * effort: a failed notification is logged but does not fail the node, since
+ * the request can still be decided in the app.
+ */
+import "server-only";
+
+import { eq } from "drizzle-orm";
+import {
+  type ApprovalSettings,
+  hasApproverRole,
+} from "@/keeperhub/lib/approvals";
+import { sendApprovalRequestEmail } from "@/keeperhub/lib/email";
+import { ErrorCategory, logUserError } from "@/keeperhub/lib/logging";
+import { fetchCredentials } from "@/lib/credential-fetcher";
+import { db } from "@/lib/db";
+import { member, users } from "@/lib/db/schema";
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL ?? "https://app.keeperhub.com";
+
+export type ApprovalRequest = {
+  organizationId: string;
+  workflowId: string;
+  workflowName: string;
+  stepName: string;
+  expiresAt: Date;
+  settings: ApprovalSettings;
+};
+
+export type ApprovalNotifications = {
+  emailed: number;
+  discord: boolean;
+  telegram: boolean;
+};
+
+export function getApprovalLink(workflowId: string): string {
+  return `${APP_URL}/workflows/${workflowId}`;
+}
+
+function formatChannelMessage(request: ApprovalRequest): string {
+  return [
+    `Approval needed for "${request.workflowName}" at step "${request.stepName}":`,
+    request.settings.message,
+    `Approve or reject before ${request.expiresAt.toUTCString()}: ${getApprovalLink(request.workflowId)}`,
+  ].join("\n\n");
+}
+
+async function emailApprovers(request: ApprovalRequest): Promise<number> {
+  const members = await db
+    .select({ role: member.role, email: users.email })
+    .from(member)
+    .innerJoin(users, eq(users.id, member.userId))
+    .where(eq(member.organizationId, request.organizationId));
+
+  let emailed = 0;
+  for (const approver of members) {
+    if (
+      !(
+        approver.email &&
+        hasApproverRole(approver.role, request.settings.approverRole)
+      )
+    ) {
+      continue;
+    }
+    const sent = await sendApprovalRequestEmail({
+      approverEmail: approver.email,
+      workflowName: request.workflowName,
+      stepName: request.stepName,
+      message: request.settings.message,
+      approvalLink: getApprovalLink(request.workflowId),
+      expiresAt: request.expiresAt,
+    });
+    if (sent) {
+      emailed += 1;
+    }
+  }
+  return emailed;
+}
+
+async function postToDiscord(
+  integrationId: string,
+  content: string
+): Promise<boolean> {
+  const credentials = await fetchCredentials(integrationId);
+  if (!credentials.webhookUrl) {
+    throw new Error("Discord integration has no webhook URL");
+  }
+  const response = await fetch(credentials.webhookUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ content }),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: Failed to send Discord message`);
+  }
+  return true;
+}
+
+async function postToTelegram(
+  integrationId: string,
+  chatId: string,
+  text: string
+): Promise<boolean> {
+  const credentials = await fetchCredentials(integrationId);
+  if (!credentials.TELEGRAM_BOT_TOKEN) {
+    throw new Error("Telegram integration has no bot token");
+  }
+  const response = await fetch(
+    `https://api.telegram.org/bot${credentials.TELEGRAM_BOT_TOKEN}/sendMessage`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({ chat_id: chatId, text }).toString(),
+    }
+  );
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: Failed to send Telegram message`);
+  }
+  return true;
+}
+
+/** Run one channel, logging (not throwing) when it fails */
+async function attempt<T>(
+  channel: string,
+  fallback: T,
+  send: () => Promise<T>
+): Promise<T> {
+  try {
+    return await send();
+  } catch (error) {
+    logUserError(
+      ErrorCategory.EXTERNAL_SERVICE,
+      `[Approval] Failed to notify approvers via ${channel}`,
+      error,
+      { service: channel }
+    );
+    return fallback;
+  }
+}
+
+/**
+ * Notify the approvers of a new approval request on every channel the node
+ * has configured. Returns what was sent, for the node's log.
+ */
+export async function notifyApprovers(
+  request: ApprovalRequest
+): Promise<ApprovalNotifications> {
+  const { settings } = request;
+  const channelMessage = formatChannelMessage(request);
+
+  const emailed = settings.notifyEmail
+    ? await attempt("sendgrid", 0, () => emailApprovers(request))
+    : 0;
+  const discord = settings.discordIntegrationId
+    ? await attempt("discord", false, () =>
+        postToDiscord(settings.discordIntegrationId as string, channelMessage)
+      )
+    : false;
+  const telegram =
+    settings.telegramIntegrationId && settings.telegramChatId
+      ? await attempt("telegram", false, () =>
+          postToTelegram(
+            settings.telegramIntegrationId as string,
+            settings.telegramChatId as string,
+            channelMessage
+          )
+        )
+      : false;
+
+  return { emailed, discord, telegram };
+}
@@ -0,0 +1,205 @@
+/**
+ * Approval node helpers.
+ *
+ * An Approval node pauses the execution until an organization member with a
+ * high enough role approves or rejects it, or until it expires:
+ *   - approvalMessage: what the approvers are asked, may use templates
+ *   - approverRole: lowest organization role allowed to decide
+ *   - expiresInHours: the approval expires (and takes the rejected path)
+ *     once this much time passed without a decision
+ *   - notifyEmail: email the eligible approvers (default on)
+ *   - discordIntegrationId / telegramIntegrationId + telegramChatId: also
+ *     post a link to the approval to a Discord or Telegram channel
+ *
+ * The node exposes two source handles, "approved" and "rejected". Edges
+ * without a handle belong to the approved path.
+ *
+ * NOTE: This module has zero dependencies so it can be safely imported in both
+ * server-side code and "use client" components.
+ */
+
+export const APPROVAL_APPROVED_HANDLE = "approved";
+export const APPROVAL_REJECTED_HANDLE = "rejected";
+
+export const APPROVAL_STATUSES = [
+  "pending",
+  "approved",
+  "rejected",
+  "expired",
+  "cancelled",
+] as const;
+
+export type ApprovalStatus = (typeof APPROVAL_STATUSES)[number];
+
+export type ApprovalDecision = "approved" | "rejected";
+
+/** Organization roles, lowest first */
+export const APPROVER_ROLES = ["member", "admin", "owner"] as const;
+
+export type ApproverRole = (typeof APPROVER_ROLES)[number];
+
+export const DEFAULT_APPROVER_ROLE: ApproverRole = "admin";
+
+export const APPROVER_ROLE_OPTIONS: Array<{
+  value: ApproverRole;
+  label: string;
+}> = [
+  { value: "member", label: "Any member" },
+  { value: "admin", label: "Admins and owners" },
+  { value: "owner", label: "Owners only" },
+];
+
+export const DEFAULT_APPROVAL_EXPIRY_HOURS = 24;
+export const MAX_APPROVAL_EXPIRY_HOURS = 30 * 24;
+export const MAX_APPROVAL_COMMENT_LENGTH = 1000;
+
+/** How often a waiting execution checks for a decision */
+export const APPROVAL_POLL_INTERVAL_MS = 30_000;
+
+export const APPROVAL_NOT_FOUND_ERROR = "Approval not found";
+
+export type ApprovalSettings = {
+  message: string;
+  approverRole: ApproverRole;
+  expiresInSeconds: number;
+  notifyEmail: boolean;
+  discordIntegrationId?: string;
+  telegramIntegrationId?: string;
+  telegramChatId?: string;
+};
+
+export type ApprovalDecider = {
+  id: string;
+  name: string | null;
+  email: string | null;
+};
+
+export type ApprovalOutput = {
+  approvalId: string;
+  decision: "approved" | "rejected" | "expired";
+  approved: boolean;
+  decidedBy: ApprovalDecider | null;
+  decidedAt: string | null;
+  comment: string | null;
+  waitedMs: number;
+};
+
+type BranchEdge = {
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+};
+
+export function isApproverRole(value: unknown): value is ApproverRole {
+  return (
+    typeof value === "string" &&
+    (APPROVER_ROLES as readonly string[]).includes(value)
+  );
+}
+
+/** Whether a member's role is at least the role an approval requires */
+export function hasApproverRole(
+  memberRole: string,
+  requiredRole: ApproverRole
+): boolean {
+  if (!isApproverRole(memberRole)) {
+    return false;
+  }
+  return (
+    APPROVER_ROLES.indexOf(memberRole) >= APPROVER_ROLES.indexOf(requiredRole)
+  );
+}
+
+export function isApprovalDecision(value: unknown): value is ApprovalDecision {
+  return value === "approved" || value === "rejected";
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() !== ""
+    ? value.trim()
+    : undefined;
+}
+
+/**
+ * Read the approval settings from an Approval node's config. The expiry is
+ * clamped to sane bounds; a Telegram channel without a chat id is an error.
+ */
+export function parseApprovalConfig(
+  config: Record<string, unknown>
+): ApprovalSettings | { error: string } {
+  const telegramIntegrationId = optionalString(config.telegramIntegrationId);
+  const telegramChatId = optionalString(config.telegramChatId);
+  if (telegramIntegrationId && !telegramChatId) {
+    return { error: "Approval needs a Telegram chat id to post to" };
+  }
+
+  const hours = Number(config.expiresInHours);
+  const expiresInHours =
+    config.expiresInHours === undefined ||
+    config.expiresInHours === "" ||
+    !Number.isFinite(hours) ||
+    hours <= 0
+      ? DEFAULT_APPROVAL_EXPIRY_HOURS
+      : Math.min(hours, MAX_APPROVAL_EXPIRY_HOURS);
+
+  return {
+    message:
+      optionalString(config.approvalMessage) ??
+      "A workflow is waiting for your approval",
+    approverRole: isApproverRole(config.approverRole)
+      ? config.approverRole
+      : DEFAULT_APPROVER_ROLE,
+    expiresInSeconds: Math.round(expiresInHours * 3600),
+    notifyEmail: config.notifyEmail !== "false" && config.notifyEmail !== false,
+    discordIntegrationId: optionalString(config.discordIntegrationId),
+    telegramIntegrationId,
+    telegramChatId,
+  };
+}
+
+/**
+ * Status of an approval as of `now`: a pending approval past its expiry is
+ * expired even before the waiting execution has noticed.
+ */
+export function getEffectiveApprovalStatus(
+  approval: { status: string; expiresAt: Date },
+  now: number = Date.now()
+): ApprovalStatus {
+  if (approval.status === "pending" && approval.expiresAt.getTime() <= now) {
+    return "expired";
+  }
+  return approval.status as ApprovalStatus;
+}
+
+export function formatApproverRoleError(requiredRole: ApproverRole): string {
+  return requiredRole === "member"
+    ? "Only members of the workflow's organization can decide this approval"
+    : `Deciding this approval requires the ${requiredRole} role or higher`;
+}
+
+export function formatApprovalClosedError(status: ApprovalStatus): string {
+  return `Approval is already ${status}`;
+}
+
+/**
+ * Narrow a list of candidate next nodes to the ones on the taken path.
+ * Untagged edges are on the approved path; error-handler edges on neither.
+ */
+export function selectApprovalTargets(
+  nodeId: string,
+  candidates: string[],
+  approved: boolean,
+  edges: BranchEdge[]
+): string[] {
+  const handle = approved ? APPROVAL_APPROVED_HANDLE : APPROVAL_REJECTED_HANDLE;
+  const taken = new Set(
+    edges
+      .filter(
+        (edge) =>
+          edge.source === nodeId &&
+          (edge.sourceHandle || APPROVAL_APPROVED_HANDLE) === handle
+      )
+      .map((edge) => edge.target)
+  );
+  return candidates.filter((id) => taken.has(id));
+}
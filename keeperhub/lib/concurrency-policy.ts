@@ -0,0 +1,82 @@
+/**
+ * Execution Concurrency Policy
+ * What happens when a workflow is triggered while a previous run of it is
+ * still pending or running:
+ *   - allow: both run in parallel (the default)
+ *   - skip: the new trigger does not start a run
+ *   - queue: the new run waits until the earlier runs have finished
+ *   - cancel-previous: the earlier runs are cancelled and the new one starts
+ *
+ * Skip and cancel-previous are applied where executions are created; queued
+ * runs wait for their turn in the executor. Only runs started by a trigger
+ * count: sub-workflow runs never block or wait for the workflow's own runs.
+ *
+ * NOTE: This module has zero dependencies so it can be safely imported in both
+ * server-side code and "use client" components.
+ */
+
+export const CONCURRENCY_POLICIES = [
+  "allow",
+  "skip",
+  "queue",
+  "cancel-previous",
+] as const;
+
+export type ConcurrencyPolicy = (typeof CONCURRENCY_POLICIES)[number];
+
+export const DEFAULT_CONCURRENCY_POLICY: ConcurrencyPolicy = "allow";
+
+export const CONCURRENCY_POLICY_OPTIONS: ReadonlyArray<{
+  value: ConcurrencyPolicy;
+  label: string;
+  description: string;
+}> = [
+  {
+    value: "allow",
+    label: "Run in parallel",
+    description: "Every trigger starts a run, even while others are running.",
+  },
+  {
+    value: "skip",
+    label: "Skip if running",
+    description: "Triggers are ignored while a run is in progress.",
+  },
+  {
+    value: "queue",
+    label: "Queue",
+    description: "Runs wait for the previous ones to finish, in trigger order.",
+  },
+  {
+    value: "cancel-previous",
+    label: "Cancel previous run",
+    description: "A new trigger cancels the run in progress and starts over.",
+  },
+];
+
+/** How often a queued run checks whether the runs ahead of it have finished */
+export const QUEUE_POLL_INTERVAL_MS = 5000;
+
+/** A queued run gives up after waiting this long */
+export const QUEUE_MAX_WAIT_MS = 60 * 60 * 1000;
+
+/** How long a queued run the K8s runner suspended waits before checking again */
+export const QUEUE_SUSPEND_MS = 5 * 60 * 1000;
+
+export const SKIPPED_RUN_ERROR =
+  "Skipped: a previous run of this workflow is still in progress";
+
+export const QUEUE_TIMEOUT_ERROR =
+  "Timed out waiting for the previous runs of this workflow to finish";
+
+export function isConcurrencyPolicy(
+  value: unknown
+): value is ConcurrencyPolicy {
+  return CONCURRENCY_POLICIES.includes(value as ConcurrencyPolicy);
+}
+
+/** The stored setting, falling back to the default for unknown values */
+export function getConcurrencyPolicy(
+  value: string | null | undefined
+): ConcurrencyPolicy {
+  return isConcurrencyPolicy(value) ? value : DEFAULT_CONCURRENCY_POLICY;
+}
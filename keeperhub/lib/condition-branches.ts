@@ -0,0 +1,78 @@
+/**
+ * Condition node branch helpers.
+ *
+ * A Condition node exposes two source handles, "true" and "false". Edges are
+ * tagged with the handle they leave from via `sourceHandle`. Edges without a
+ * handle (workflows saved before branching existed) are treated as "true" so
+ * the node keeps its old gate semantics.
+ *
+ * NOTE: This module has zero dependencies so it can be safely imported in both
+ * server-side code and "use client" components.
+ */
+
+export const CONDITION_TRUE_HANDLE = "true";
+export const CONDITION_FALSE_HANDLE = "false";
+
+export type ConditionBranch =
+  | typeof CONDITION_TRUE_HANDLE
+  | typeof CONDITION_FALSE_HANDLE;
+
+type BranchEdge = {
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+};
+
+export type ConditionBranchTargets = Record<ConditionBranch, string[]>;
+
+/**
+ * Which branch an edge leaving a Condition node belongs to.
+ * Anything other than an explicit "false" handle is the true branch.
+ */
+export function getConditionEdgeBranch(edge: BranchEdge): ConditionBranch {
+  return edge.sourceHandle === CONDITION_FALSE_HANDLE
+    ? CONDITION_FALSE_HANDLE
+    : CONDITION_TRUE_HANDLE;
+}
+
+/**
+ * Split the outgoing edges of a node into true / false target lists,
+ * preserving edge order within each branch.
+ */
+export function getConditionBranchTargets(
+  nodeId: string,
+  edges: BranchEdge[]
+): ConditionBranchTargets {
+  const targets: ConditionBranchTargets = {
+    [CONDITION_TRUE_HANDLE]: [],
+    [CONDITION_FALSE_HANDLE]: [],
+  };
+  for (const edge of edges) {
+    if (edge.source !== nodeId) {
+      continue;
+    }
+    const branch = getConditionEdgeBranch(edge);
+    if (!targets[branch].includes(edge.target)) {
+      targets[branch].push(edge.target);
+    }
+  }
+  return targets;
+}
+
+/**
+ * Narrow a list of candidate next nodes to the ones on the taken branch.
+ * `candidates` is usually the (possibly loop-scoped) adjacency list for the
+ * node, so only targets present there are returned.
+ */
+export function selectConditionTargets(
+  nodeId: string,
+  candidates: string[],
+  conditionResult: boolean,
+  edges: BranchEdge[]
+): string[] {
+  const branchTargets = getConditionBranchTargets(nodeId, edges);
+  const taken = conditionResult
+    ? branchTargets[CONDITION_TRUE_HANDLE]
+    : branchTargets[CONDITION_FALSE_HANDLE];
+  return candidates.filter((id) => taken.includes(id));
+}
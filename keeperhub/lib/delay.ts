@@ -0,0 +1,105 @@
+/**
+ * Delay node helpers.
+ *
+ * A Delay node pauses the execution either:
+ *   - for a fixed duration: delayMode "duration" with delayAmount + delayUnit
+ *   - until an absolute time: delayMode "until" with delayUntil, which may be
+ *     an ISO date string, unix seconds (e.g. a governance proposal's `eta`) or
+ *     unix milliseconds, usually resolved from a template
+ *
+ * A resume time in the past resumes immediately.
+ */
+
+export type DelayMode = "duration" | "until";
+
+export type DelayUnit = "seconds" | "minutes" | "hours" | "days";
+
+export const DELAY_UNITS: DelayUnit[] = ["seconds", "minutes", "hours", "days"];
+
+const UNIT_MS: Record<DelayUnit, number> = {
+  seconds: 1000,
+  minutes: 60_000,
+  hours: 3_600_000,
+  days: 86_400_000,
+};
+
+export const MAX_DELAY_DAYS = 30;
+const MAX_DELAY_MS = MAX_DELAY_DAYS * UNIT_MS.days;
+
+/** Numbers below this are unix seconds, at or above it unix milliseconds */
+const UNIX_MS_THRESHOLD = 100_000_000_000;
+
+const NUMERIC_PATTERN = /^\d+(\.\d+)?$/;
+
+export type DelayResolution =
+  | { resumeAt: number; error?: undefined }
+  | { resumeAt?: undefined; error: string };
+
+/**
+ * Parse an absolute timestamp (ISO string, unix seconds or unix ms) into
+ * epoch milliseconds, or null when it is not a recognizable time.
+ */
+export function parseDelayTimestamp(value: unknown): number | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.getTime();
+  }
+  const raw = String(value ?? "").trim();
+  if (raw === "") {
+    return null;
+  }
+  if (NUMERIC_PATTERN.test(raw)) {
+    const numeric = Number(raw);
+    return numeric < UNIX_MS_THRESHOLD ? numeric * 1000 : numeric;
+  }
+  const parsed = Date.parse(raw);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+function resolveDuration(
+  config: Record<string, unknown>,
+  now: number
+): DelayResolution {
+  const amount = Number(config.delayAmount);
+  if (!Number.isFinite(amount) || amount < 0) {
+    return { error: "Delay amount must be a non-negative number" };
+  }
+  const unit = DELAY_UNITS.includes(config.delayUnit as DelayUnit)
+    ? (config.delayUnit as DelayUnit)
+    : "seconds";
+  const delayMs = amount * UNIT_MS[unit];
+  if (delayMs > MAX_DELAY_MS) {
+    return { error: `Delay cannot exceed ${MAX_DELAY_DAYS} days` };
+  }
+  return { resumeAt: now + delayMs };
+}
+
+function resolveUntil(
+  config: Record<string, unknown>,
+  now: number
+): DelayResolution {
+  const resumeAt = parseDelayTimestamp(config.delayUntil);
+  if (resumeAt === null) {
+    return {
+      error: `Cannot parse "${String(config.delayUntil ?? "")}" as a date or unix timestamp`,
+    };
+  }
+  if (resumeAt - now > MAX_DELAY_MS) {
+    return {
+      error: `Delay target ${new Date(resumeAt).toISOString()} is more than ${MAX_DELAY_DAYS} days away`,
+    };
+  }
+  return { resumeAt: Math.max(resumeAt, now) };
+}
+
+/**
+ * Work out when a Delay node should resume, from its (template-resolved)
+ * config.
+ */
+export function resolveDelayResumeAt(
+  config: Record<string, unknown>,
+  now: number
+): DelayResolution {
+  return config.delayMode === "until"
+    ? resolveUntil(config, now)
+    : resolveDuration(config, now);
+}
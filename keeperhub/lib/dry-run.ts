@@ -0,0 +1,194 @@
+/**
+ * Dry-run executions.
+ *
+ * A dry run executes the whole workflow without sending transactions or
+ * writing to other services. Write steps (write-contract, transfer-funds,
+ * transfer-token and protocol writes) are simulated with `eth_call` and
+ * `estimateGas` from the organization wallet instead of being signed and
+ * sent, notification steps return the payload they would have sent, and
+ * other steps that change something outside KeeperHub (HTTP requests other
+ * than GET, Database Queries other than SELECT, Clerk, Webflow and v0 writes)
+ * return the request they would have made.
+ *
+ * Triggers, reads and control flow run as usual, so a dry run takes the same
+ * path a live run would. That still reaches outside KeeperHub: GET requests
+ * and SELECT queries are sent, and Run Code steps run with network access.
+ *
+ * NOTE: This module has zero dependencies so it can be safely imported in both
+ * server-side code and "use client" components.
+ */
+
+/** Steps that only deliver a message; a dry run renders it without sending */
+const NOTIFICATION_STEP_FUNCTIONS = new Set([
+  "sendSlackMessageStep",
+  "sendDiscordMessageStep",
+  "sendEmailStep",
+  "sendTelegramMessageStep",
+  "sendWebhookStep",
+]);
+
+/** Plugin steps that create, change or delete something in another service */
+const SIDE_EFFECT_STEP_FUNCTIONS = new Set([
+  "clerkCreateUserStep",
+  "clerkUpdateUserStep",
+  "clerkDeleteUserStep",
+  "publishSiteStep",
+  "createChatStep",
+  "sendMessageStep",
+]);
+
+const READ_HTTP_METHODS = new Set(["GET", "HEAD"]);
+
+const SELECT_QUERY_PATTERN = /^\s*select\b/i;
+
+/** Config keys that point at credentials rather than describe the message */
+const NON_PAYLOAD_KEYS = new Set(["integrationId", "actionType"]);
+
+export function isNotificationStepFunction(
+  stepFunction: string | undefined
+): boolean {
+  return (
+    stepFunction !== undefined && NOTIFICATION_STEP_FUNCTIONS.has(stepFunction)
+  );
+}
+
+/**
+ * Whether a dry run skips the step because it changes something outside
+ * KeeperHub. HTTP Requests and Database Queries are skipped unless they only
+ * read (GET or HEAD, SELECT).
+ */
+export function isSideEffectStep(
+  actionType: string,
+  stepFunction: string | undefined,
+  config: Record<string, unknown>
+): boolean {
+  if (actionType === "HTTP Request") {
+    const method = String(config.httpMethod ?? "GET").toUpperCase();
+    return !READ_HTTP_METHODS.has(method);
+  }
+  if (actionType === "Database Query") {
+    return !SELECT_QUERY_PATTERN.test(String(config.dbQuery ?? ""));
+  }
+  return (
+    stepFunction !== undefined && SIDE_EFFECT_STEP_FUNCTIONS.has(stepFunction)
+  );
+}
+
+/** What a write step would have sent, decoded for the runs panel */
+export type SimulatedTransaction = {
+  chainId: number;
+  from: string;
+  to: string;
+  /** Native value in wei */
+  value: string;
+  /** Encoded calldata ("0x" for plain transfers) */
+  data: string;
+  /** Decoded calldata, present for contract calls */
+  functionName?: string;
+  signature?: string;
+  args?: unknown[];
+  estimatedGas: string;
+  /** Raw `eth_call` return data */
+  returnData: string;
+};
+
+/**
+ * Output of a simulated write. Nothing was sent, so the transaction fields
+ * are empty, but templates that reference them still resolve.
+ */
+export type SimulatedWriteResult = {
+  success: true;
+  simulated: true;
+  transactionHash: "";
+  transactionLink: "";
+  simulation: SimulatedTransaction;
+};
+
+export type NotificationPreview = {
+  success: true;
+  simulated: true;
+  notification: {
+    actionType: string;
+    payload: Record<string, unknown>;
+  };
+};
+
+export type SideEffectPreview = {
+  success: true;
+  simulated: true;
+  request: {
+    actionType: string;
+    payload: Record<string, unknown>;
+  };
+};
+
+export type SimulatedResult =
+  | SimulatedWriteResult
+  | NotificationPreview
+  | SideEffectPreview;
+
+/**
+ * A step's resolved config without the integration reference and internal
+ * (`_`-prefixed) fields
+ */
+function buildPayload(
+  config: Record<string, unknown>
+): Record<string, unknown> {
+  const payload: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(config)) {
+    if (!(NON_PAYLOAD_KEYS.has(key) || key.startsWith("_"))) {
+      payload[key] = value;
+    }
+  }
+  return payload;
+}
+
+/** The message a notification step would have sent */
+export function buildNotificationPreview(
+  actionType: string,
+  config: Record<string, unknown>
+): NotificationPreview {
+  return {
+    success: true,
+    simulated: true,
+    notification: { actionType, payload: buildPayload(config) },
+  };
+}
+
+/** The request a skipped side-effect step would have made */
+export function buildSideEffectPreview(
+  actionType: string,
+  config: Record<string, unknown>
+): SideEffectPreview {
+  return {
+    success: true,
+    simulated: true,
+    request: { actionType, payload: buildPayload(config) },
+  };
+}
+
+export function isSimulatedResult(output: unknown): output is SimulatedResult {
+  return (
+    typeof output === "object" &&
+    output !== null &&
+    (output as { simulated?: unknown }).simulated === true
+  );
+}
+
+export function isSideEffectPreview(
+  output: unknown
+): output is SideEffectPreview {
+  return (
+    isSimulatedResult(output) &&
+    typeof (output as { request?: unknown }).request === "object"
+  );
+}
+
+export function isSimulatedWrite(
+  output: unknown
+): output is SimulatedWriteResult {
+  return (
+    isSimulatedResult(output) &&
+    typeof (output as { simulation?: unknown }).simulation === "object"
+  );
+}
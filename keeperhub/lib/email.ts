@@ -420,3 +420,121 @@ KeeperHub - Blockchain Workflow Automation
 
   return success;
 }
+
+type ApprovalRequestEmailData = {
+  approverEmail: string;
+  workflowName: string;
+  stepName: string;
+  message: string;
+  approvalLink: string;
+  expiresAt: Date;
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Ask an approver to approve or reject a paused workflow execution
+ */
+export async function sendApprovalRequestEmail(
+  data: ApprovalRequestEmailData
+): Promise<boolean> {
+  const {
+    approverEmail,
+    workflowName,
+    stepName,
+    message,
+    approvalLink,
+    expiresAt,
+  } = data;
+
+  const logoUrl =
+    "https://raw.githubusercontent.com/techops-services/keeperhub/staging/public/keeperhub_logo.png";
+
+  const subject = `Approval needed: ${workflowName} - KeeperHub`;
+  const expiry = expiresAt.toUTCString();
+
+  const text = `
+Hi there,
+
+The workflow "${workflowName}" is waiting for your approval at step "${stepName}":
+
+${message}
+
+Open the workflow to approve or reject it:
+
+${approvalLink}
+
+If nobody decides by ${expiry}, the request expires and the workflow takes its rejected path.
+
+---
+KeeperHub - Blockchain Workflow Automation
+`.trim();
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #1a1a2e 0%, #16213e 100%); padding: 30px; border-radius: 12px 12px 0 0; text-align: center;">
+    <img src="${logoUrl}" alt="KeeperHub" style="max-width: 200px; height: auto;" />
+  </div>
+
+  <div style="background: #ffffff; padding: 30px; border: 1px solid #e5e5e5; border-top: none; border-radius: 0 0 12px 12px;">
+    <h2 style="color: #1a1a2e; margin-top: 0;">Approval Needed</h2>
+
+    <p>The workflow <strong>${escapeHtml(workflowName)}</strong> is waiting for your approval at step <strong>${escapeHtml(stepName)}</strong>:</p>
+
+    <div style="background: #f5f5f5; border-radius: 8px; padding: 20px; margin: 20px 0; white-space: pre-wrap;">${escapeHtml(message)}</div>
+
+    <div style="text-align: center; margin: 30px 0;">
+      <a href="${approvalLink}" style="display: inline-block; background: #3b82f6; color: #ffffff; padding: 14px 28px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">Review Request</a>
+    </div>
+
+    <p style="color: #666; font-size: 14px;">Or copy and paste this link into your browser:</p>
+    <p style="color: #3b82f6; font-size: 14px; word-break: break-all;">${approvalLink}</p>
+
+    <hr style="border: none; border-top: 1px solid #e5e5e5; margin: 30px 0;">
+
+    <p style="color: #999; font-size: 12px; margin-bottom: 0;">
+      If nobody decides by ${expiry}, the request expires and the workflow takes its rejected path.
+    </p>
+  </div>
+
+  <div style="text-align: center; padding: 20px; color: #999; font-size: 12px;">
+    <p style="margin: 0;">KeeperHub - Blockchain Workflow Automation</p>
+  </div>
+</body>
+</html>
+`.trim();
+
+  const success = await sendEmail({
+    to: approverEmail,
+    subject,
+    text,
+    html,
+  });
+
+  if (success) {
+    console.log(`[Email] Approval request sent to ${approverEmail}`);
+  } else {
+    logUserError(
+      ErrorCategory.EXTERNAL_SERVICE,
+      `[Email] Failed to send approval request to ${approverEmail}`,
+      new Error("Failed to send approval request email"),
+      {
+        service: "sendgrid",
+      }
+    );
+  }
+
+  return success;
+}
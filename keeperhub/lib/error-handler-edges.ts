@@ -0,0 +1,99 @@
+/**
+ * Error-handler ("on failure") edge helpers.
+ *
+ * Action nodes expose an extra "error" source handle. Edges leaving it form
+ * the node's failure path: they only run when the node fails, and receive
+ * the failure details as the node's output:
+ *   {{FailedNode.error}}    - the error message
+ *   {{FailedNode.nodeName}} - the name of the node that failed
+ *
+ * All other edges leaving the node only run when it succeeds.
+ *
+ * A failure stays a failure for the run unless a node directly on the
+ * failure path has `recoverFailure` enabled and completes successfully, in
+ * which case the failure is recorded as recovered.
+ *
+ * NOTE: This module has zero dependencies so it can be safely imported in both
+ * server-side code and "use client" components.
+ */
+
+export const ERROR_HANDLE = "error";
+
+type HandlerEdge = {
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+};
+
+export type ErrorOutput = {
+  success: false;
+  error: string;
+  nodeName: string;
+};
+
+export const ERROR_OUTPUT_FIELDS = [
+  { field: "error", description: "Error message of the failed step" },
+  { field: "nodeName", description: "Name of the node that failed" },
+];
+
+export function isErrorEdge(edge: HandlerEdge): boolean {
+  return edge.sourceHandle === ERROR_HANDLE;
+}
+
+function getTargets(
+  nodeId: string,
+  edges: HandlerEdge[],
+  onErrorPath: boolean
+): Set<string> {
+  return new Set(
+    edges
+      .filter(
+        (edge) => edge.source === nodeId && isErrorEdge(edge) === onErrorPath
+      )
+      .map((edge) => edge.target)
+  );
+}
+
+/**
+ * Narrow candidate next nodes to the ones on the node's success path.
+ */
+export function selectSuccessTargets(
+  nodeId: string,
+  candidates: string[],
+  edges: HandlerEdge[]
+): string[] {
+  const taken = getTargets(nodeId, edges, false);
+  return candidates.filter((id) => taken.has(id));
+}
+
+/**
+ * Narrow candidate next nodes to the ones on the node's failure path.
+ */
+export function selectErrorTargets(
+  nodeId: string,
+  candidates: string[],
+  edges: HandlerEdge[]
+): string[] {
+  const taken = getTargets(nodeId, edges, true);
+  return candidates.filter((id) => taken.has(id));
+}
+
+/**
+ * Ids of the nodes whose failure path leads directly into `nodeId`.
+ */
+export function getErrorSources(
+  nodeId: string,
+  edges: HandlerEdge[]
+): string[] {
+  return edges
+    .filter((edge) => edge.target === nodeId && isErrorEdge(edge))
+    .map((edge) => edge.source);
+}
+
+export function buildErrorOutput(nodeName: string, error: string): ErrorOutput {
+  return { success: false, error, nodeName };
+}
+
+export function isRecoveryHandler(config: Record<string, unknown>): boolean {
+  return config.recoverFailure === true || config.recoverFailure === "true";
+}
@@ -0,0 +1,536 @@
+/**
+ * Event trigger filters.
+ *
+ * One Event trigger may watch several contracts and events sharing an ABI,
+ * and fire only for events whose decoded arguments match its filters:
+ *   - contractAddress: the contract whose ABI is used (as before)
+ *   - additionalAddresses: more contracts to watch, one per line or comma
+ *     separated
+ *   - eventName: one or more event names, comma separated
+ *   - eventFilters: JSON array of { event?, arg, operator, value }; all
+ *     filters must match. A filter without `event` applies to every watched
+ *     event that has the argument.
+ *
+ * Numeric values accept scientific notation ("1e24"); addresses and hex
+ * values compare case-insensitively. Filters on indexed arguments with
+ * "eq" or "in" are also pushed down into the topics of the log filters
+ * served to the event tracker, so most non-matching logs are never
+ * delivered; the rest are dropped before an execution is created.
+ */
+import { ethers } from "ethers";
+
+export const EVENT_FILTER_OPERATORS = [
+  "eq",
+  "neq",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "in",
+] as const;
+export type EventFilterOperator = (typeof EVENT_FILTER_OPERATORS)[number];
+
+export const EVENT_FILTER_OPERATOR_LABELS: Record<EventFilterOperator, string> =
+  {
+    eq: "==",
+    neq: "!=",
+    gt: ">",
+    gte: ">=",
+    lt: "<",
+    lte: "<=",
+    in: "in",
+  };
+
+export type EventArgFilter = {
+  /** Event the filter applies to; every watched event with the arg when unset */
+  event?: string;
+  arg: string;
+  operator: EventFilterOperator;
+  /** Comma separated values for "in" */
+  value: string;
+};
+
+export type AbiEventInput = {
+  name?: string;
+  type: string;
+  indexed?: boolean;
+  components?: AbiEventInput[];
+};
+
+export type AbiEvent = {
+  type: "event";
+  name: string;
+  inputs: AbiEventInput[];
+  anonymous?: boolean;
+};
+
+/** A log subscription: addresses and topics as in eth_getLogs */
+export type EventLogFilter = {
+  eventName: string;
+  address: string[];
+  topics: (string | string[] | null)[];
+};
+
+type ArgKind = "integer" | "address" | "bool" | "hex" | "string";
+
+const LIST_SEPARATOR_PATTERN = /[\s,]+/;
+const SCIENTIFIC_PATTERN = /^(-?)(\d+)(?:\.(\d+))?e\+?(\d+)$/i;
+const INTEGER_PATTERN = /^-?\d+$/;
+const HEX_PATTERN = /^0x[0-9a-f]*$/i;
+const HEX_INTEGER_PATTERN = /^0x[0-9a-f]+$/i;
+const ZEROS_PATTERN = /^0*$/;
+/** Digits of the largest uint256, beyond which exponents are rejected */
+const MAX_INTEGER_DIGITS = 78;
+const ORDERED_OPERATORS = new Set<EventFilterOperator>([
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+]);
+
+function splitList(raw: unknown): string[] {
+  if (typeof raw !== "string") {
+    return [];
+  }
+  return raw
+    .split(LIST_SEPARATOR_PATTERN)
+    .map((part) => part.trim())
+    .filter((part) => part !== "");
+}
+
+/** Names of the events the trigger watches */
+export function getEventNames(config: Record<string, unknown>): string[] {
+  return [...new Set(splitList(config.eventName))];
+}
+
+/** Contracts the trigger watches: the ABI's contract first, then the rest */
+export function getEventAddresses(config: Record<string, unknown>): string[] {
+  const addresses = [
+    ...splitList(config.contractAddress),
+    ...splitList(config.additionalAddresses),
+  ];
+  const seen = new Set<string>();
+  return addresses.filter((address) => {
+    const key = address.toLowerCase();
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+function isEventFilterOperator(value: unknown): value is EventFilterOperator {
+  return (EVENT_FILTER_OPERATORS as readonly unknown[]).includes(value);
+}
+
+/** Filters of a stored config; entries without an argument are ignored */
+export function parseEventFilters(raw: unknown): EventArgFilter[] {
+  if (typeof raw !== "string" || raw.trim() === "") {
+    return [];
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(parsed)) {
+    return [];
+  }
+  return parsed
+    .filter(
+      (item): item is Record<string, unknown> =>
+        typeof item === "object" &&
+        item !== null &&
+        typeof item.arg === "string" &&
+        item.arg.trim() !== ""
+    )
+    .map((item) => ({
+      ...(typeof item.event === "string" && item.event.trim() !== ""
+        ? { event: item.event.trim() }
+        : {}),
+      arg: (item.arg as string).trim(),
+      operator: isEventFilterOperator(item.operator) ? item.operator : "eq",
+      value: typeof item.value === "string" ? item.value.trim() : "",
+    }));
+}
+
+/** Events of an ABI with the given names, in ABI order */
+export function getAbiEvents(abi: unknown, names: string[]): AbiEvent[] {
+  if (typeof abi !== "string" || abi.trim() === "") {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(abi);
+    if (!Array.isArray(parsed)) {
+      return [];
+    }
+    return parsed.filter(
+      (item): item is AbiEvent =>
+        item?.type === "event" &&
+        names.includes(item.name) &&
+        Array.isArray(item.inputs)
+    );
+  } catch {
+    return [];
+  }
+}
+
+function getArgKind(type: string): ArgKind | null {
+  if (type.endsWith("]") || type.startsWith("tuple")) {
+    return null;
+  }
+  if (type.startsWith("uint") || type.startsWith("int")) {
+    return "integer";
+  }
+  if (type === "address") {
+    return "address";
+  }
+  if (type === "bool") {
+    return "bool";
+  }
+  return type.startsWith("bytes") ? "hex" : "string";
+}
+
+/** Arguments of the events that filters can compare, each listed once */
+export function getFilterableArgs(events: AbiEvent[]): AbiEventInput[] {
+  const seen = new Set<string>();
+  return events
+    .flatMap((event) => event.inputs)
+    .filter((input): input is AbiEventInput & { name: string } => {
+      if (!input.name || seen.has(input.name) || !getArgKind(input.type)) {
+        return false;
+      }
+      seen.add(input.name);
+      return true;
+    });
+}
+
+/** Indexed strings, bytes, arrays and tuples are logged as their hash */
+function isHashedIndexedType(type: string): boolean {
+  return (
+    type === "string" ||
+    type === "bytes" ||
+    type.endsWith("]") ||
+    type.startsWith("tuple")
+  );
+}
+
+/**
+ * An integer written as decimal, hex or scientific notation ("1e24",
+ * "1.5e18"). Returns null when the value is not a whole number.
+ */
+export function parseIntegerValue(raw: string): bigint | null {
+  const text = raw.trim().replaceAll("_", "");
+  if (INTEGER_PATTERN.test(text) || HEX_INTEGER_PATTERN.test(text)) {
+    return text.startsWith("-") ? -BigInt(text.slice(1)) : BigInt(text);
+  }
+  const match = SCIENTIFIC_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+  const [, sign, whole, fraction = "", exponentText] = match;
+  const exponent = Number(exponentText);
+  if (exponent > MAX_INTEGER_DIGITS) {
+    return null;
+  }
+  if (fraction.length > exponent) {
+    const dropped = fraction.slice(exponent);
+    if (!ZEROS_PATTERN.test(dropped)) {
+      return null;
+    }
+  }
+  const digits = `${whole}${fraction.slice(0, exponent).padEnd(exponent, "0")}`;
+  const value = BigInt(digits);
+  return sign === "-" ? -value : value;
+}
+
+function getFilterValues(filter: EventArgFilter): string[] {
+  return filter.operator === "in"
+    ? filter.value
+        .split(",")
+        .map((value) => value.trim())
+        .filter((value) => value !== "")
+    : [filter.value];
+}
+
+function checkValue(kind: ArgKind, value: string): string | null {
+  switch (kind) {
+    case "integer":
+      return parseIntegerValue(value) === null ? "a whole number" : null;
+    case "address":
+      return ethers.isAddress(value) ? null : "an address";
+    case "bool":
+      return value === "true" || value === "false" ? null : "true or false";
+    case "hex":
+      return HEX_PATTERN.test(value) ? null : "a 0x-prefixed hex value";
+    default:
+      return null;
+  }
+}
+
+function checkFilterAgainstInput(
+  filter: EventArgFilter,
+  input: AbiEventInput
+): string | null {
+  const kind = getArgKind(input.type);
+  if (!kind) {
+    return `${filter.arg} (${input.type}) cannot be filtered`;
+  }
+  if (ORDERED_OPERATORS.has(filter.operator) && kind !== "integer") {
+    return `${filter.arg} (${input.type}) can only be compared with eq, neq or in`;
+  }
+  const values = getFilterValues(filter);
+  if (values.length === 0 || values.some((value) => value === "")) {
+    return `${filter.arg} filter has no value`;
+  }
+  for (const value of values) {
+    const expected = checkValue(kind, value);
+    if (expected) {
+      return `${filter.arg} filter value "${value}" must be ${expected}`;
+    }
+  }
+  return null;
+}
+
+function findInput(event: AbiEvent, arg: string): AbiEventInput | undefined {
+  return event.inputs.find((input) => input.name === arg);
+}
+
+function getTargetEvents(
+  filter: EventArgFilter,
+  events: AbiEvent[]
+): AbiEvent[] {
+  return filter.event
+    ? events.filter((event) => event.name === filter.event)
+    : events;
+}
+
+function checkFilter(filter: EventArgFilter, events: AbiEvent[]): string[] {
+  const targets = getTargetEvents(filter, events);
+  if (filter.event && targets.length === 0) {
+    return [`Filter on ${filter.arg}: ${filter.event} is not a watched event`];
+  }
+  const withArg = targets.filter((event) => findInput(event, filter.arg));
+  if (withArg.length === 0) {
+    return [`No watched event has an argument named ${filter.arg}`];
+  }
+  const errors = withArg
+    .map((event) => {
+      const input = findInput(event, filter.arg) as AbiEventInput;
+      return checkFilterAgainstInput(filter, input);
+    })
+    .filter((error): error is string => error !== null);
+  return [...new Set(errors)];
+}
+
+/**
+ * Problems with an Event trigger's filters, as messages. Empty when the
+ * filters are valid or the ABI cannot be read yet.
+ */
+export function validateEventFilters(
+  config: Record<string, unknown>
+): string[] {
+  const filters = parseEventFilters(config.eventFilters);
+  const events = getAbiEvents(config.contractABI, getEventNames(config));
+  if (filters.length === 0 || events.length === 0) {
+    return [];
+  }
+  return filters.flatMap((filter) => checkFilter(filter, events));
+}
+
+function encodeTopicValue(input: AbiEventInput, value: string): string {
+  if (input.type === "string") {
+    return ethers.id(value);
+  }
+  if (input.type === "bytes") {
+    return ethers.keccak256(value);
+  }
+  const kind = getArgKind(input.type);
+  let typed: unknown = value;
+  if (kind === "integer") {
+    typed = parseIntegerValue(value);
+  } else if (kind === "bool") {
+    typed = value === "true";
+  }
+  return ethers.AbiCoder.defaultAbiCoder().encode([input.type], [typed]);
+}
+
+/** Topic of a pushed-down filter, or null when it cannot be pushed down */
+function getFilterTopic(
+  filter: EventArgFilter,
+  input: AbiEventInput
+): string | string[] | null {
+  if (
+    !(filter.operator === "eq" || filter.operator === "in") ||
+    checkFilterAgainstInput(filter, input) !== null
+  ) {
+    return null;
+  }
+  try {
+    const topics = getFilterValues(filter).map((value) =>
+      encodeTopicValue(input, value)
+    );
+    return topics.length === 1 ? topics[0] : topics;
+  } catch {
+    return null;
+  }
+}
+
+function buildEventTopics(
+  event: AbiEvent,
+  filters: EventArgFilter[]
+): (string | string[] | null)[] {
+  const indexedInputs = event.inputs.filter((input) => input.indexed);
+  const topics: (string | string[] | null)[] = [
+    ethers.EventFragment.from(event).topicHash,
+    ...indexedInputs.map(() => null),
+  ];
+  for (const filter of filters) {
+    const position = indexedInputs.findIndex(
+      (input) => input.name === filter.arg
+    );
+    const applies = !filter.event || filter.event === event.name;
+    // The first filter on a topic wins; the rest are checked on delivery
+    if (applies && position !== -1 && topics[position + 1] === null) {
+      topics[position + 1] = getFilterTopic(filter, indexedInputs[position]);
+    }
+  }
+  while (topics.length > 1 && topics.at(-1) === null) {
+    topics.pop();
+  }
+  return topics;
+}
+
+/**
+ * The log subscriptions of an Event trigger: one per watched event, over all
+ * watched addresses, with indexed-argument filters in the topics.
+ */
+export function buildEventLogFilters(
+  config: Record<string, unknown>
+): EventLogFilter[] {
+  const address = getEventAddresses(config);
+  const filters = parseEventFilters(config.eventFilters);
+  return getAbiEvents(config.contractABI, getEventNames(config))
+    .filter((event) => !event.anonymous)
+    .map((event) => ({
+      eventName: event.name,
+      address,
+      topics: buildEventTopics(event, filters),
+    }));
+}
+
+function toComparable(
+  kind: ArgKind,
+  input: AbiEventInput,
+  value: unknown
+): bigint | string | null {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (kind === "integer") {
+    return typeof value === "bigint" ? value : parseIntegerValue(String(value));
+  }
+  if (input.indexed && isHashedIndexedType(input.type)) {
+    // Decoded as the hash of the value, possibly wrapped in an object
+    const hash =
+      typeof value === "object" && "hash" in value ? value.hash : value;
+    return String(hash).toLowerCase();
+  }
+  return kind === "string" ? String(value) : String(value).toLowerCase();
+}
+
+function toExpected(
+  kind: ArgKind,
+  input: AbiEventInput,
+  value: string
+): bigint | string | null {
+  if (kind === "integer") {
+    return parseIntegerValue(value);
+  }
+  if (input.indexed && isHashedIndexedType(input.type)) {
+    return encodeTopicValue(input, value).toLowerCase();
+  }
+  return kind === "string" ? value : value.toLowerCase();
+}
+
+function compare(
+  operator: EventFilterOperator,
+  actual: bigint | string,
+  expected: bigint | string
+): boolean {
+  switch (operator) {
+    case "neq":
+      return actual !== expected;
+    case "gt":
+      return actual > expected;
+    case "gte":
+      return actual >= expected;
+    case "lt":
+      return actual < expected;
+    case "lte":
+      return actual <= expected;
+    default:
+      return actual === expected;
+  }
+}
+
+function matchesFilter(
+  filter: EventArgFilter,
+  input: AbiEventInput,
+  value: unknown
+): boolean {
+  const kind = getArgKind(input.type);
+  const actual = kind ? toComparable(kind, input, value) : null;
+  if (!kind || actual === null) {
+    return false;
+  }
+  const expectedValues = getFilterValues(filter).map((raw) => {
+    try {
+      return toExpected(kind, input, raw);
+    } catch {
+      return null;
+    }
+  });
+  if (filter.operator === "in") {
+    return expectedValues.some((candidate) => candidate === actual);
+  }
+  const [expected] = expectedValues;
+  return (
+    expected !== null &&
+    expected !== undefined &&
+    typeof expected === typeof actual &&
+    compare(filter.operator, actual, expected)
+  );
+}
+
+/**
+ * Whether a decoded event passes the trigger's filters. Events the trigger
+ * does not watch never match; without filters every watched event does.
+ */
+export function matchesEventFilters(
+  config: Record<string, unknown>,
+  event: { eventName?: unknown; args?: unknown }
+): boolean {
+  const names = getEventNames(config);
+  if (typeof event.eventName !== "string") {
+    return true;
+  }
+  if (names.length > 0 && !names.includes(event.eventName)) {
+    return false;
+  }
+  const filters = parseEventFilters(config.eventFilters);
+  const [abiEvent] = getAbiEvents(config.contractABI, [event.eventName]);
+  if (filters.length === 0 || !abiEvent) {
+    return true;
+  }
+  const args = (
+    typeof event.args === "object" && event.args !== null ? event.args : {}
+  ) as Record<string, unknown>;
+  return filters.every((filter) => {
+    const input = findInput(abiEvent, filter.arg);
+    const applies = input && (!filter.event || filter.event === abiEvent.name);
+    return !applies || matchesFilter(filter, input, args[filter.arg]);
+  });
+}
@@ -0,0 +1,204 @@
+/**
+ * Database side of Approval nodes (see keeperhub/lib/approvals.ts).
+ *
+ * Functions take the database to use, like the other execution helpers, so
+ * the same checks run from the approval steps and the approvals API.
+ */
+import { and, eq } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { member, users, workflowApprovals } from "@/lib/db/schema";
+import {
+  APPROVAL_NOT_FOUND_ERROR,
+  type ApprovalDecider,
+  type ApprovalDecision,
+  type ApprovalStatus,
+  type ApproverRole,
+  formatApprovalClosedError,
+  formatApproverRoleError,
+  getEffectiveApprovalStatus,
+  hasApproverRole,
+} from "./approvals";
+
+type ApprovalsDatabase = Pick<PostgresJsDatabase, "select" | "update">;
+
+export type ApprovalState = {
+  status: ApprovalStatus;
+  decidedBy: ApprovalDecider | null;
+  decidedAt: Date | null;
+  comment: string | null;
+};
+
+export type DecideApprovalInput = {
+  approvalId: string;
+  userId: string;
+  decision: ApprovalDecision;
+  comment?: string | null;
+};
+
+export type DecideApprovalResult =
+  | { ok: true; approval: { id: string } & ApprovalState }
+  | { ok: false; status: 403 | 404 | 409; error: string };
+
+/**
+ * Mark a pending approval with a final status. Returns false when it was no
+ * longer pending, e.g. because someone else decided it first.
+ */
+async function closeApproval(
+  database: ApprovalsDatabase,
+  approvalId: string,
+  values: {
+    status: Exclude<ApprovalStatus, "pending">;
+    decidedBy?: string;
+    decidedAt?: Date;
+    comment?: string | null;
+  }
+): Promise<boolean> {
+  const rows = await database
+    .update(workflowApprovals)
+    .set(values)
+    .where(
+      and(
+        eq(workflowApprovals.id, approvalId),
+        eq(workflowApprovals.status, "pending")
+      )
+    )
+    .returning({ id: workflowApprovals.id });
+  return rows.length > 0;
+}
+
+/**
+ * Current state of an approval, with its decider. A pending approval past its
+ * expiry is marked expired here, so the waiting execution sees it on its next
+ * check.
+ */
+export async function getApprovalState(
+  database: ApprovalsDatabase,
+  approvalId: string
+): Promise<ApprovalState | undefined> {
+  const [row] = await database
+    .select({
+      status: workflowApprovals.status,
+      expiresAt: workflowApprovals.expiresAt,
+      decidedAt: workflowApprovals.decidedAt,
+      comment: workflowApprovals.comment,
+      deciderId: users.id,
+      deciderName: users.name,
+      deciderEmail: users.email,
+    })
+    .from(workflowApprovals)
+    .leftJoin(users, eq(users.id, workflowApprovals.decidedBy))
+    .where(eq(workflowApprovals.id, approvalId))
+    .limit(1);
+  if (!row) {
+    return;
+  }
+
+  const status = getEffectiveApprovalStatus(row);
+  if (status === "expired" && row.status === "pending") {
+    await closeApproval(database, approvalId, { status });
+  }
+  return {
+    status,
+    decidedBy: row.deciderId
+      ? { id: row.deciderId, name: row.deciderName, email: row.deciderEmail }
+      : null,
+    decidedAt: row.decidedAt,
+    comment: row.comment,
+  };
+}
+
+/** Close a pending approval whose execution was cancelled while it waited */
+export async function cancelApproval(
+  database: ApprovalsDatabase,
+  approvalId: string
+): Promise<void> {
+  await closeApproval(database, approvalId, { status: "cancelled" });
+}
+
+/**
+ * Record a member's decision on a pending approval. The member must belong
+ * to the approval's organization with at least its approver role; approvals
+ * of other organizations are reported as not found.
+ */
+export async function decideApproval(
+  database: ApprovalsDatabase,
+  input: DecideApprovalInput
+): Promise<DecideApprovalResult> {
+  const [approval] = await database
+    .select({
+      id: workflowApprovals.id,
+      organizationId: workflowApprovals.organizationId,
+      approverRole: workflowApprovals.approverRole,
+      status: workflowApprovals.status,
+      expiresAt: workflowApprovals.expiresAt,
+    })
+    .from(workflowApprovals)
+    .where(eq(workflowApprovals.id, input.approvalId))
+    .limit(1);
+  if (!approval) {
+    return { ok: false, status: 404, error: APPROVAL_NOT_FOUND_ERROR };
+  }
+
+  const [membership] = await database
+    .select({ role: member.role })
+    .from(member)
+    .where(
+      and(
+        eq(member.organizationId, approval.organizationId),
+        eq(member.userId, input.userId)
+      )
+    )
+    .limit(1);
+  if (!membership) {
+    return { ok: false, status: 404, error: APPROVAL_NOT_FOUND_ERROR };
+  }
+  const requiredRole = approval.approverRole as ApproverRole;
+  if (!hasApproverRole(membership.role, requiredRole)) {
+    return {
+      ok: false,
+      status: 403,
+      error: formatApproverRoleError(requiredRole),
+    };
+  }
+
+  const status = getEffectiveApprovalStatus(approval);
+  if (status !== "pending") {
+    if (approval.status === "pending") {
+      await closeApproval(database, approval.id, { status });
+    }
+    return { ok: false, status: 409, error: formatApprovalClosedError(status) };
+  }
+
+  const decidedAt = new Date();
+  const comment = input.comment?.trim() || null;
+  const decided = await closeApproval(database, approval.id, {
+    status: input.decision,
+    decidedBy: input.userId,
+    decidedAt,
+    comment,
+  });
+  if (!decided) {
+    const current = await getApprovalState(database, approval.id);
+    return {
+      ok: false,
+      status: 409,
+      error: formatApprovalClosedError(current?.status ?? "cancelled"),
+    };
+  }
+
+  const [decider] = await database
+    .select({ id: users.id, name: users.name, email: users.email })
+    .from(users)
+    .where(eq(users.id, input.userId))
+    .limit(1);
+  return {
+    ok: true,
+    approval: {
+      id: approval.id,
+      status: input.decision,
+      decidedBy: decider ?? null,
+      decidedAt,
+      comment,
+    },
+  };
+}
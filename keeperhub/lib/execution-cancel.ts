@@ -0,0 +1,46 @@
+/**
+ * Cancelling a running execution.
+ *
+ * Cancellation is cooperative: the cancel endpoint marks the execution row as
+ * "cancelled", and every step checks that status before it starts. A step of
+ * a cancelled execution does not run and returns a cancelled result instead;
+ * the executor then stops scheduling further nodes (and For Each iterations)
+ * and records the run as cancelled. A step already running when the
+ * execution is cancelled is allowed to finish, so a transaction is never
+ * abandoned half-sent.
+ *
+ * NOTE: This module has zero dependencies so it can be safely imported in both
+ * server-side code and "use client" components.
+ */
+
+export const EXECUTION_CANCELLED_ERROR = "Execution cancelled";
+
+export type CancelledStepResult = {
+  success: false;
+  error: string;
+  cancelled: true;
+};
+
+/** Only executions that have not finished yet can be cancelled */
+export const CANCELLABLE_STATUSES: ("pending" | "running")[] = [
+  "pending",
+  "running",
+];
+
+export function isCancellableStatus(status: string): boolean {
+  return (CANCELLABLE_STATUSES as string[]).includes(status);
+}
+
+export function createCancelledResult(): CancelledStepResult {
+  return { success: false, error: EXECUTION_CANCELLED_ERROR, cancelled: true };
+}
+
+export function isCancelledResult(
+  result: unknown
+): result is CancelledStepResult {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    (result as { cancelled?: unknown }).cancelled === true
+  );
+}
@@ -0,0 +1,168 @@
+/**
+ * Database side of the execution concurrency policy
+ * (see keeperhub/lib/concurrency-policy.ts).
+ *
+ * Functions take the database to use so the standalone job spawner, which
+ * has its own connection, applies the policy the same way as the API routes.
+ */
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { workflowExecutions } from "@/lib/db/schema";
+import { getConcurrencyPolicy, SKIPPED_RUN_ERROR } from "./concurrency-policy";
+import {
+  CANCELLABLE_STATUSES,
+  EXECUTION_CANCELLED_ERROR,
+} from "./execution-cancel";
+
+type ExecutionsDatabase = Pick<
+  PostgresJsDatabase,
+  "select" | "update" | "execute"
+>;
+
+export type ConcurrencyCheck =
+  | { allowed: true; cancelledExecutionIds: string[] }
+  | { allowed: false; error: string; activeExecutionIds: string[] };
+
+export type QueueTurn = "ready" | "waiting" | "cancelled" | "expired";
+
+/**
+ * Mark the executions as cancelled, together with the sub-workflow runs they
+ * started. Returns the ids that were still pending or running.
+ */
+export async function cancelExecutions(
+  database: ExecutionsDatabase,
+  executionIds: string[]
+): Promise<string[]> {
+  const cancelled: string[] = [];
+  let pending = executionIds;
+  while (pending.length > 0) {
+    const rows = await database
+      .update(workflowExecutions)
+      .set({
+        status: "cancelled",
+        error: EXECUTION_CANCELLED_ERROR,
+        completedAt: new Date(),
+        waitingUntil: null,
+      })
+      .where(
+        and(
+          inArray(workflowExecutions.id, pending),
+          inArray(workflowExecutions.status, CANCELLABLE_STATUSES)
+        )
+      )
+      .returning({ id: workflowExecutions.id });
+    cancelled.push(...rows.map((row) => row.id));
+
+    const children = await database
+      .select({ id: workflowExecutions.id })
+      .from(workflowExecutions)
+      .where(
+        and(
+          inArray(workflowExecutions.parentExecutionId, pending),
+          inArray(workflowExecutions.status, CANCELLABLE_STATUSES)
+        )
+      );
+    pending = children.map((child) => child.id);
+  }
+  return cancelled;
+}
+
+/**
+ * Triggered runs of the workflow that have not finished. Sub-workflow runs and
+ * dry runs do not count.
+ */
+async function findActiveRuns(
+  database: ExecutionsDatabase,
+  workflowId: string
+): Promise<{ id: string; startedAt: Date }[]> {
+  return await database
+    .select({
+      id: workflowExecutions.id,
+      startedAt: workflowExecutions.startedAt,
+    })
+    .from(workflowExecutions)
+    .where(
+      and(
+        eq(workflowExecutions.workflowId, workflowId),
+        isNull(workflowExecutions.parentExecutionId),
+        eq(workflowExecutions.dryRun, false),
+        inArray(workflowExecutions.status, CANCELLABLE_STATUSES)
+      )
+    );
+}
+
+/**
+ * Apply the workflow's policy before a new run is created: skip refuses the
+ * run while another is in progress, cancel-previous cancels the runs in
+ * progress. Queued runs are created as usual and wait in the executor.
+ *
+ * Skip and cancel-previous take a transaction-scoped advisory lock on the
+ * workflow first, so this must run in the transaction that inserts the new
+ * run: two triggers arriving together are then decided one after the other,
+ * and the second one sees the run the first one created.
+ */
+export async function applyConcurrencyPolicy(
+  database: ExecutionsDatabase,
+  workflow: { id: string; concurrencyPolicy: string | null }
+): Promise<ConcurrencyCheck> {
+  const policy = getConcurrencyPolicy(workflow.concurrencyPolicy);
+  if (policy === "allow" || policy === "queue") {
+    return { allowed: true, cancelledExecutionIds: [] };
+  }
+
+  await database.execute(
+    sql`select pg_advisory_xact_lock(hashtext(${workflow.id}))`
+  );
+  const activeExecutionIds = (await findActiveRuns(database, workflow.id)).map(
+    (run) => run.id
+  );
+  if (activeExecutionIds.length === 0) {
+    return { allowed: true, cancelledExecutionIds: [] };
+  }
+  if (policy === "skip") {
+    return { allowed: false, error: SKIPPED_RUN_ERROR, activeExecutionIds };
+  }
+  return {
+    allowed: true,
+    cancelledExecutionIds: await cancelExecutions(database, activeExecutionIds),
+  };
+}
+
+/**
+ * Whether a queued run may start: every run of the workflow triggered before
+ * it has finished. Runs triggered at the same instant go in id order. With
+ * `maxWaitMs`, a run still waiting that long after it was triggered has
+ * expired.
+ */
+export async function getQueueTurn(
+  database: ExecutionsDatabase,
+  executionId: string,
+  workflowId: string,
+  maxWaitMs?: number
+): Promise<QueueTurn> {
+  const [own] = await database
+    .select({
+      status: workflowExecutions.status,
+      startedAt: workflowExecutions.startedAt,
+    })
+    .from(workflowExecutions)
+    .where(eq(workflowExecutions.id, executionId));
+  if (!own || own.status === "cancelled") {
+    return "cancelled";
+  }
+
+  const ahead = (await findActiveRuns(database, workflowId)).filter(
+    (run) =>
+      run.id !== executionId &&
+      (run.startedAt < own.startedAt ||
+        (run.startedAt.getTime() === own.startedAt.getTime() &&
+          run.id < executionId))
+  );
+  if (ahead.length === 0) {
+    return "ready";
+  }
+  return maxWaitMs !== undefined &&
+    Date.now() - own.startedAt.getTime() >= maxWaitMs
+    ? "expired"
+    : "waiting";
+}
@@ -0,0 +1,95 @@
+/**
+ * Database side of trigger de-duplication (see keeperhub/lib/trigger-dedupe.ts).
+ *
+ * Functions take the database to use so the standalone job spawner, which
+ * has its own connection, checks keys the same way as the API routes.
+ */
+import { and, desc, eq, gte, sql } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { workflowExecutions } from "@/lib/db/schema";
+import type { WorkflowNode } from "@/lib/workflow-store";
+import {
+  getDedupeWindowSeconds,
+  getTriggerDedupeKey,
+  normalizeDedupeKey,
+} from "./trigger-dedupe";
+
+type ExecutionsDatabase = Pick<PostgresJsDatabase, "select" | "execute">;
+
+export type DedupeWorkflow = {
+  id: string;
+  nodes: WorkflowNode[];
+};
+
+export type DedupeCheck =
+  | { duplicate: false; dedupeKey?: string }
+  | {
+      duplicate: true;
+      dedupeKey: string;
+      execution: { id: string; status: string };
+    };
+
+export type DedupeOptions = {
+  /** Key sent by the caller, e.g. in the Idempotency-Key header */
+  providedKey?: string | null;
+  /**
+   * Trigger input to derive a key from when none is provided. Omitted for
+   * manual runs, whose input may be a sample event replayed on purpose.
+   */
+  input?: Record<string, unknown>;
+};
+
+/**
+ * Work out the trigger's de-duplication key (the one provided by the caller,
+ * or one derived from the trigger input) and look for an execution of the
+ * workflow with the same key inside the trigger's window.
+ *
+ * Takes a transaction-scoped advisory lock on the workflow and key first, so
+ * it must run in the transaction that inserts the new execution (see
+ * createTriggeredExecution): a second delivery of the trigger then waits
+ * until the first one's execution is committed and finds it.
+ */
+export async function checkDuplicateTrigger(
+  database: ExecutionsDatabase,
+  workflow: DedupeWorkflow,
+  options: DedupeOptions
+): Promise<DedupeCheck> {
+  const trigger = workflow.nodes.find((node) => node?.data?.type === "trigger");
+  const config = trigger?.data?.config as Record<string, unknown> | undefined;
+  const dedupeKey =
+    normalizeDedupeKey(options.providedKey) ??
+    (options.input
+      ? getTriggerDedupeKey(
+          config?.triggerType as string | undefined,
+          options.input
+        )
+      : undefined);
+  const windowSeconds = getDedupeWindowSeconds(config);
+  if (!dedupeKey || windowSeconds === 0) {
+    return { duplicate: false, dedupeKey };
+  }
+
+  await database.execute(
+    sql`select pg_advisory_xact_lock(hashtext(${workflow.id}), hashtext(${dedupeKey}))`
+  );
+
+  const [execution] = await database
+    .select({ id: workflowExecutions.id, status: workflowExecutions.status })
+    .from(workflowExecutions)
+    .where(
+      and(
+        eq(workflowExecutions.workflowId, workflow.id),
+        eq(workflowExecutions.dedupeKey, dedupeKey),
+        gte(
+          workflowExecutions.startedAt,
+          new Date(Date.now() - windowSeconds * 1000)
+        )
+      )
+    )
+    .orderBy(desc(workflowExecutions.startedAt))
+    .limit(1);
+
+  return execution
+    ? { duplicate: true, dedupeKey, execution }
+    : { duplicate: false, dedupeKey };
+}
@@ -0,0 +1,205 @@
+/**
+ * Resuming a failed execution from the failing node.
+ *
+ * A resume starts a new execution of the workflow, linked to the failed one
+ * through `resumedFromExecutionId`. Nodes that completed in the failed run are
+ * not run again: the executor takes their output as the node's result and
+ * continues from there, so only the node(s) that failed, and whatever never
+ * got to run, are executed. Outputs are replayed unredacted, from the copy
+ * kept next to the redacted log output.
+ *
+ * Only nodes with exactly one successful log entry are replayed. A node with
+ * several (a read repeated by a Wait Until node, a node joined into more than
+ * once) cannot be matched to a single output and runs again, as does every
+ * node inside a loop that is itself inside a loop, since its log entries only
+ * record the innermost iteration. Running a write again could send its
+ * transaction twice, so a run with such a write, with a write that timed
+ * out or was interrupted while running, or with a write that sent more
+ * transactions than it has replayed successes, cannot be resumed at all.
+ *
+ * A run the K8s runner suspended is continued the same way, replaying the
+ * nodes that completed in its own logs.
+ *
+ * NOTE: This module has zero dependencies so it can be safely imported in both
+ * server-side code and "use client" components.
+ */
+
+/** Only executions that did not finish successfully can be resumed */
+export const RESUMABLE_STATUSES = ["error", "timeout", "cancelled"] as const;
+
+export function isResumableStatus(status: string): boolean {
+  return (RESUMABLE_STATUSES as readonly string[]).includes(status);
+}
+
+/** The parts of a `workflow_execution_logs` row a resume needs */
+export type ResumeLogEntry = {
+  nodeId: string;
+  nodeName: string;
+  status: string;
+  output: unknown;
+  replayOutput: unknown;
+  iterationIndex: number | null;
+  forEachNodeId: string | null;
+};
+
+/** Logged output of every replayed node, keyed by `getReplayKey` */
+export type ResumeState = Record<string, { output: unknown }>;
+
+/**
+ * A node outside a loop is identified by its id, a node inside a For Each
+ * body by its id and the iteration it ran in.
+ */
+export function getReplayKey(nodeId: string, iterationIndex?: number): string {
+  return iterationIndex === undefined ? nodeId : `${nodeId}#${iterationIndex}`;
+}
+
+function toReplayKey(entry: ResumeLogEntry): string {
+  return getReplayKey(entry.nodeId, entry.iterationIndex ?? undefined);
+}
+
+/**
+ * For Each nodes that ran inside another loop's body. Their body nodes log
+ * the same iteration index once per outer iteration.
+ */
+function findNestedLoops(entries: ResumeLogEntry[]): Set<string> {
+  const loopIds = new Set(
+    entries.flatMap((entry) =>
+      entry.forEachNodeId ? [entry.forEachNodeId] : []
+    )
+  );
+  const nested = new Set<string>();
+  for (const entry of entries) {
+    if (loopIds.has(entry.nodeId) && entry.iterationIndex !== null) {
+      nested.add(entry.nodeId);
+    }
+  }
+  return nested;
+}
+
+/**
+ * Successful log entries grouped by replay key. Entries of nested loops are
+ * returned separately: they cannot be told apart by their key.
+ */
+function groupSuccesses(entries: ResumeLogEntry[]): {
+  successes: Map<string, ResumeLogEntry[]>;
+  nested: ResumeLogEntry[];
+} {
+  const nestedLoops = findNestedLoops(entries);
+  const successes = new Map<string, ResumeLogEntry[]>();
+  const nested: ResumeLogEntry[] = [];
+  for (const entry of entries) {
+    if (entry.status !== "success") {
+      continue;
+    }
+    if (entry.forEachNodeId && nestedLoops.has(entry.forEachNodeId)) {
+      nested.push(entry);
+      continue;
+    }
+    const key = toReplayKey(entry);
+    successes.set(key, [...(successes.get(key) ?? []), entry]);
+  }
+  return { successes, nested };
+}
+
+/**
+ * Build the outputs a resumed execution replays from the logs of the failed
+ * one. Entries whose node succeeded more than once are left out.
+ */
+export function buildResumeState(entries: ResumeLogEntry[]): ResumeState {
+  const { successes } = groupSuccesses(entries);
+  const state: ResumeState = {};
+  for (const [key, matches] of successes) {
+    if (matches.length === 1) {
+      const [match] = matches;
+      state[key] = { output: match.replayOutput ?? match.output };
+    }
+  }
+  return state;
+}
+
+/**
+ * Write nodes that recorded more transactions than the resume replays
+ * successes for, whatever their logged status: a write logged "error" after
+ * its transaction was broadcast would otherwise run again.
+ */
+function findUnreplayedSends(
+  entries: ResumeLogEntry[],
+  successes: Map<string, ResumeLogEntry[]>,
+  sentNodeIds: string[]
+): string[] {
+  const replayed = new Map<string, number>();
+  for (const matches of successes.values()) {
+    if (matches.length === 1) {
+      const { nodeId } = matches[0];
+      replayed.set(nodeId, (replayed.get(nodeId) ?? 0) + 1);
+    }
+  }
+  const sent = new Map<string, number>();
+  for (const nodeId of sentNodeIds) {
+    sent.set(nodeId, (sent.get(nodeId) ?? 0) + 1);
+  }
+  const names: string[] = [];
+  for (const [nodeId, count] of sent) {
+    if (count > (replayed.get(nodeId) ?? 0)) {
+      names.push(
+        entries.find((entry) => entry.nodeId === nodeId)?.nodeName ?? nodeId
+      );
+    }
+  }
+  return names;
+}
+
+/**
+ * Names of the write nodes a resume would run again although they may already
+ * have sent their transaction: writes that succeeded more than once or inside
+ * a nested loop, writes that timed out or never finished without a later
+ * success, and writes with recorded transactions that are not all replayed.
+ * `sentNodeIds` holds the node id of every transaction the nonce manager
+ * recorded for the execution.
+ */
+export function findUnmatchedWrites(
+  entries: ResumeLogEntry[],
+  writeNodeIds: string[],
+  sentNodeIds: string[] = []
+): string[] {
+  const writes = new Set(writeNodeIds);
+  const { successes, nested } = groupSuccesses(entries);
+  const unmatched = new Set<string>();
+  for (const entry of nested) {
+    if (writes.has(entry.nodeId)) {
+      unmatched.add(entry.nodeName);
+    }
+  }
+  for (const matches of successes.values()) {
+    if (matches.length > 1 && writes.has(matches[0].nodeId)) {
+      unmatched.add(matches[0].nodeName);
+    }
+  }
+  for (const entry of entries) {
+    if (
+      (entry.status === "timeout" || entry.status === "running") &&
+      writes.has(entry.nodeId) &&
+      !successes.has(toReplayKey(entry))
+    ) {
+      unmatched.add(entry.nodeName);
+    }
+  }
+  for (const name of findUnreplayedSends(entries, successes, sentNodeIds)) {
+    unmatched.add(name);
+  }
+  return [...unmatched];
+}
+
+export function formatUnmatchedWritesError(nodeNames: string[]): string {
+  const names = nodeNames.map((name) => `"${name}"`).join(", ");
+  return `Execution cannot be resumed: ${names} may already have sent a transaction that cannot be matched to a single completed step, so resuming could send it twice`;
+}
+
+/** The logged output of a node that completed in the failed run, if any */
+export function getReplayedOutput(
+  state: ResumeState,
+  nodeId: string,
+  iterationIndex?: number
+): { output: unknown } | undefined {
+  return state[getReplayKey(nodeId, iterationIndex)];
+}
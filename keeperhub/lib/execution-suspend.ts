@@ -0,0 +1,94 @@
+/**
+ * Executions the K8s runner suspended during a long wait
+ * (see keeperhub/lib/workflow-sleep.ts).
+ *
+ * A suspended execution stays "running" with `suspendedAt` and `waitingUntil`
+ * set. The job spawner claims it once `waitingUntil` has passed and starts a
+ * runner that continues it; an approval decision brings the wake-up forward.
+ *
+ * Functions take the database to use so the standalone job spawner and
+ * runner, which have their own connection, share them with the API routes.
+ */
+import { and, eq, inArray, isNotNull, lte } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { workflowApprovals, workflowExecutions } from "@/lib/db/schema";
+
+type ExecutionsDatabase = Pick<PostgresJsDatabase, "select" | "update">;
+
+export type DueExecution = {
+  id: string;
+  workflowId: string;
+  // biome-ignore lint/suspicious/noExplicitAny: JSONB type - structure validated at application level
+  input: Record<string, any> | null;
+};
+
+/**
+ * Record that the run stopped waiting in-process and continues at `resumeAt`.
+ * Only a running execution is suspended; a cancelled one stays cancelled.
+ */
+export async function suspendExecution(
+  database: ExecutionsDatabase,
+  executionId: string,
+  resumeAt: Date
+): Promise<boolean> {
+  const rows = await database
+    .update(workflowExecutions)
+    .set({ suspendedAt: new Date(), waitingUntil: resumeAt })
+    .where(
+      and(
+        eq(workflowExecutions.id, executionId),
+        eq(workflowExecutions.status, "running")
+      )
+    )
+    .returning({ id: workflowExecutions.id });
+  return rows.length > 0;
+}
+
+/**
+ * Make the execution waiting on an approval due now, once the approval is
+ * decided. Does nothing to a run that is not suspended.
+ */
+export async function wakeApprovalExecution(
+  database: ExecutionsDatabase,
+  approvalId: string
+): Promise<void> {
+  await database
+    .update(workflowExecutions)
+    .set({ waitingUntil: new Date() })
+    .where(
+      and(
+        inArray(
+          workflowExecutions.id,
+          database
+            .select({ id: workflowApprovals.executionId })
+            .from(workflowApprovals)
+            .where(eq(workflowApprovals.id, approvalId))
+        ),
+        isNotNull(workflowExecutions.suspendedAt)
+      )
+    );
+}
+
+/**
+ * Claim the suspended executions whose wait is over. Claiming clears
+ * `suspendedAt` in the same statement, so each one is handed out once.
+ */
+export async function claimDueExecutions(
+  database: ExecutionsDatabase
+): Promise<DueExecution[]> {
+  return await database
+    .update(workflowExecutions)
+    .set({ suspendedAt: null })
+    .where(
+      and(
+        eq(workflowExecutions.status, "running"),
+        isNotNull(workflowExecutions.suspendedAt),
+        lte(workflowExecutions.waitingUntil, new Date())
+      )
+    )
+    .returning({
+      id: workflowExecutions.id,
+      workflowId: workflowExecutions.workflowId,
+      input: workflowExecutions.input,
+    });
+}
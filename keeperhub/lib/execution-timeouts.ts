@@ -0,0 +1,51 @@
+/**
+ * Node and workflow execution timeout helpers.
+ *
+ * - Action nodes carry `timeoutSeconds` in their config; each attempt of the
+ *   node is abandoned once it runs longer than that.
+ * - The trigger node carries `workflowTimeoutSeconds`; the whole execution is
+ *   stopped once it runs longer than that.
+ *
+ * Timed-out nodes and executions are recorded with the "timeout" status.
+ */
+
+export const MAX_NODE_TIMEOUT_SECONDS = 3600;
+export const MAX_WORKFLOW_TIMEOUT_SECONDS = 86_400;
+
+function parseTimeoutSeconds(value: unknown, max: number): number | null {
+  const parsed = Number.parseInt(String(value ?? ""), 10);
+  if (Number.isNaN(parsed) || parsed <= 0) {
+    return null;
+  }
+  return Math.min(parsed, max);
+}
+
+/**
+ * Timeout for a single node attempt in seconds, or null when unlimited.
+ */
+export function getNodeTimeoutSeconds(
+  config: Record<string, unknown>
+): number | null {
+  return parseTimeoutSeconds(config.timeoutSeconds, MAX_NODE_TIMEOUT_SECONDS);
+}
+
+/**
+ * Timeout for a whole execution in seconds (read from the trigger node's
+ * config), or null when unlimited.
+ */
+export function getWorkflowTimeoutSeconds(
+  triggerConfig: Record<string, unknown> | undefined
+): number | null {
+  return parseTimeoutSeconds(
+    triggerConfig?.workflowTimeoutSeconds,
+    MAX_WORKFLOW_TIMEOUT_SECONDS
+  );
+}
+
+export function formatNodeTimeoutError(timeoutSeconds: number): string {
+  return `Step timed out after ${timeoutSeconds}s`;
+}
+
+export function formatWorkflowTimeoutError(timeoutSeconds: number): string {
+  return `Workflow timed out after ${timeoutSeconds}s`;
+}
@@ -0,0 +1,89 @@
+/**
+ * Creating the execution a trigger starts.
+ *
+ * The duplicate check, the workflow's concurrency policy and the insert of
+ * the new execution run in one transaction, so a trigger delivered twice at
+ * the same time cannot pass the duplicate check twice: the second delivery
+ * waits on the first one's lock and then finds its execution.
+ *
+ * Functions take the database to use so the standalone job spawner, which
+ * has its own connection, creates executions the same way as the API routes.
+ */
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import { workflowExecutions } from "@/lib/db/schema";
+import { applyConcurrencyPolicy } from "./execution-concurrency";
+import {
+  checkDuplicateTrigger,
+  type DedupeOptions,
+  type DedupeWorkflow,
+} from "./execution-dedupe";
+
+type TriggerWorkflow = DedupeWorkflow & { concurrencyPolicy: string | null };
+
+/** Columns of the new execution; the workflow and key are filled in */
+export type TriggeredExecutionValues = Omit<
+  typeof workflowExecutions.$inferInsert,
+  "workflowId" | "dedupeKey"
+>;
+
+export type TriggeredExecution =
+  | { created: true; executionId: string; cancelledExecutionIds: string[] }
+  | {
+      created: false;
+      duplicate: true;
+      execution: { id: string; status: string };
+    }
+  | {
+      created: false;
+      duplicate: false;
+      error: string;
+      activeExecutionIds: string[];
+    };
+
+/**
+ * Create the execution for a trigger unless it repeats an earlier delivery
+ * or the workflow's concurrency policy skips it.
+ */
+export async function createTriggeredExecution<
+  TSchema extends Record<string, unknown>,
+>(
+  database: Pick<PostgresJsDatabase<TSchema>, "transaction">,
+  workflow: TriggerWorkflow,
+  options: DedupeOptions,
+  values: TriggeredExecutionValues
+): Promise<TriggeredExecution> {
+  return await database.transaction(async (tx) => {
+    const dedupe = await checkDuplicateTrigger(tx, workflow, options);
+    if (dedupe.duplicate) {
+      return {
+        created: false,
+        duplicate: true,
+        execution: dedupe.execution,
+      };
+    }
+
+    const concurrency = await applyConcurrencyPolicy(tx, workflow);
+    if (!concurrency.allowed) {
+      return {
+        created: false,
+        duplicate: false,
+        error: concurrency.error,
+        activeExecutionIds: concurrency.activeExecutionIds,
+      };
+    }
+
+    const [execution] = await tx
+      .insert(workflowExecutions)
+      .values({
+        ...values,
+        workflowId: workflow.id,
+        dedupeKey: dedupe.dedupeKey,
+      })
+      .returning({ id: workflowExecutions.id });
+    return {
+      created: true,
+      executionId: execution.id,
+      cancelledExecutionIds: concurrency.cancelledExecutionIds,
+    };
+  });
+}
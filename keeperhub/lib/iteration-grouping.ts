@@ -1,5 +1,6 @@
 /**
- * Pure helper functions for grouping For Each execution logs by iteration.
+ * Pure helper functions for grouping loop (For Each / While) execution logs by
+ * iteration.
  *
  * Shared by:
  *   - components/workflow/workflow-runs.tsx (UI rendering)
@@ -9,6 +10,8 @@
  * upstream ExecutionLog) without this module redefining it.
  */
 
+import { isLoopAction } from "@/keeperhub/lib/while-loop";
+
 /** Discriminant value for For Each group entries in grouped log output. */
 export const FOR_EACH_GROUP_TYPE = "for-each-group" as const;
 
@@ -73,7 +76,7 @@ export function buildChildLogsLookup<T extends IterationLogFields>(
       collectLogs.set(log.forEachNodeId, existing);
     }
 
-    if (log.nodeType === "For Each") {
+    if (isLoopAction(log.nodeType)) {
       const existing = invocations.get(log.nodeId) ?? [];
       existing.push(log);
       invocations.set(log.nodeId, existing);
@@ -167,7 +170,7 @@ export function groupLogsByIteration<T extends IterationLogFields>(
     }
 
     // For Each parent with child logs: build iteration groups
-    if (log.nodeType === "For Each" && forEachChildLogs.has(log.nodeId)) {
+    if (isLoopAction(log.nodeType) && forEachChildLogs.has(log.nodeId)) {
       const allChildren = forEachChildLogs.get(log.nodeId) ?? [];
       const invocs = forEachInvocations.get(log.nodeId) ?? [];
       const allCollects = forEachCollectLogs.get(log.nodeId) ?? [];
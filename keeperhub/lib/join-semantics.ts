@@ -0,0 +1,270 @@
+/**
+ * Join semantics for nodes with more than one incoming edge.
+ *
+ * A node fed by several upstream nodes is a join. Its `joinMode` config
+ * decides when it runs:
+ *   - "all" (default): once every upstream branch has finished, so it sees
+ *     all of their outputs. It is skipped when an upstream branch failed, or
+ *     when none of them actually led to it (e.g. every Condition went the
+ *     other way).
+ *   - "any": as soon as the first upstream branch reaches it; later arrivals
+ *     are ignored.
+ *
+ * Branches that are not taken (the other side of a Condition, the success
+ * path of a failed node, ...) still report to the nodes they lead to as
+ * skipped, and a skipped node passes that on downstream, so a join never
+ * waits for a branch that will not come. Error handler edges count as
+ * incoming edges too, but a handler is never skipped for a failure it is
+ * there to handle.
+ *
+ * NOTE: This module has zero dependencies so it can be safely imported in both
+ * server-side code and "use client" components.
+ */
+
+export type JoinMode = "all" | "any";
+
+export const DEFAULT_JOIN_MODE: JoinMode = "all";
+
+export const JOIN_MODE_LABELS: Record<JoinMode, string> = {
+  all: "Wait for all",
+  any: "Wait for any",
+};
+
+/**
+ * How an upstream node ended, as seen by one of the nodes it leads to:
+ *   - taken: it finished and the edge to this node was followed
+ *   - skipped: it did not run, or finished on another branch
+ *   - failed: it failed (or was skipped because of a failure upstream)
+ */
+export type ArrivalKind = "taken" | "skipped" | "failed";
+
+/**
+ * What to do with a node after an arrival:
+ *   - run: execute it now
+ *   - wait: other upstream branches are still running
+ *   - skip: it will not run; report it as skipped downstream
+ *   - ignore: it was already run or skipped
+ */
+export type JoinDecision = "run" | "wait" | "skip" | "ignore";
+
+export type JoinTracker = {
+  arrive: (nodeId: string, sourceId: string, kind: ArrivalKind) => JoinDecision;
+  /** How a skipped node reports to the nodes after it */
+  skipKind: (nodeId: string) => ArrivalKind;
+};
+
+type JoinEdge = {
+  source: string;
+  target: string;
+};
+
+export function getJoinMode(
+  config: Record<string, unknown> | undefined
+): JoinMode {
+  return config?.joinMode === "any" ? "any" : DEFAULT_JOIN_MODE;
+}
+
+/**
+ * Distinct nodes with an edge into `nodeId`.
+ */
+export function getIncomingSources(
+  nodeId: string,
+  edges: JoinEdge[]
+): string[] {
+  return [
+    ...new Set(
+      edges.filter((edge) => edge.target === nodeId).map((edge) => edge.source)
+    ),
+  ];
+}
+
+export function isJoinNode(nodeId: string, edges: JoinEdge[]): boolean {
+  return getIncomingSources(nodeId, edges).length > 1;
+}
+
+function decide(
+  mode: JoinMode,
+  sourceCount: number,
+  arrivals: Map<string, ArrivalKind>,
+  kind: ArrivalKind
+): JoinDecision {
+  const kinds = [...arrivals.values()];
+  if (mode === "any" && kind === "taken") {
+    return "run";
+  }
+  if (arrivals.size < sourceCount) {
+    return "wait";
+  }
+  if (mode === "any" || kinds.includes("failed")) {
+    return "skip";
+  }
+  return kinds.includes("taken") ? "run" : "skip";
+}
+
+function getReachable(roots: string[], edges: JoinEdge[]): Set<string> {
+  const reachable = new Set(roots);
+  const queue = [...roots];
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    for (const edge of edges) {
+      if (edge.source === current && !reachable.has(edge.target)) {
+        reachable.add(edge.target);
+        queue.push(edge.target);
+      }
+    }
+  }
+  return reachable;
+}
+
+/**
+ * Track arrivals at every node of one traversal starting at `roots`. Edges
+ * from nodes the traversal can never reach are not waited for. Each node gets
+ * at most one "run" or "skip" decision; anything after that is "ignore".
+ */
+export function createJoinTracker(
+  roots: string[],
+  edges: JoinEdge[],
+  getMode: (nodeId: string) => JoinMode
+): JoinTracker {
+  const reachable = getReachable(roots, edges);
+  const liveEdges = edges.filter((edge) => reachable.has(edge.source));
+  const sourceCounts = new Map<string, number>();
+  for (const edge of liveEdges) {
+    if (!sourceCounts.has(edge.target)) {
+      sourceCounts.set(
+        edge.target,
+        getIncomingSources(edge.target, liveEdges).length
+      );
+    }
+  }
+  const arrivalsByNode = new Map<string, Map<string, ArrivalKind>>();
+  const decided = new Set<string>();
+
+  return {
+    arrive(nodeId, sourceId, kind) {
+      if (decided.has(nodeId)) {
+        return "ignore";
+      }
+      const arrivals = arrivalsByNode.get(nodeId) ?? new Map();
+      arrivals.set(sourceId, kind);
+      arrivalsByNode.set(nodeId, arrivals);
+
+      const decision = decide(
+        getMode(nodeId),
+        sourceCounts.get(nodeId) ?? 1,
+        arrivals,
+        kind
+      );
+      if (decision !== "wait") {
+        decided.add(nodeId);
+      }
+      return decision;
+    },
+    skipKind(nodeId) {
+      const kinds = [...(arrivalsByNode.get(nodeId)?.values() ?? [])];
+      return kinds.includes("failed") ? "failed" : "skipped";
+    },
+  };
+}
+
+export type JoinPlacement = {
+  /** Enter a block of generated code (parallel group, if/else branch, ...) */
+  open: () => void;
+  /**
+   * Leave the innermost block and return the "all" joins to emit right after
+   * it: those whose upstream nodes were all generated before the block ends.
+   * The others move out to the enclosing block; the outermost block takes
+   * everything.
+   */
+  close: () => string[];
+  /**
+   * Called when generation reaches a node. Returns true when no code should
+   * be generated for it here: an "all" join waiting for its block to close,
+   * or a join already generated elsewhere.
+   */
+  defer: (nodeId: string) => boolean;
+  /** Record that code for `nodeId` was generated in the current block */
+  generated: (nodeId: string) => void;
+};
+
+type PlacementScope = {
+  pending: Set<string>;
+  generated: Set<string>;
+  /** Number of nodes generated before the block was opened */
+  openedAt: number;
+};
+
+/**
+ * Decide where code generators put join nodes. Generated code reaches a join
+ * once per upstream branch; an "all" join is emitted once, after the block
+ * holding every one of those branches, and an "any" join at its first reach.
+ */
+export function createJoinPlacement(
+  edges: JoinEdge[],
+  getMode: (nodeId: string) => JoinMode
+): JoinPlacement {
+  const scopes: PlacementScope[] = [];
+  const handled = new Set<string>();
+  const released = new Set<string>();
+  // Generation order, so a block knows which nodes precede it
+  const order = new Map<string, number>();
+
+  const isGeneratedBy = (scope: PlacementScope, nodeId: string): boolean =>
+    scope.generated.has(nodeId) ||
+    (order.get(nodeId) ?? Number.POSITIVE_INFINITY) < scope.openedAt;
+
+  return {
+    open() {
+      scopes.push({
+        pending: new Set(),
+        generated: new Set(),
+        openedAt: order.size,
+      });
+    },
+    close() {
+      const scope = scopes.pop();
+      if (!scope) {
+        return [];
+      }
+      const outer = scopes.at(-1);
+      for (const nodeId of scope.generated) {
+        outer?.generated.add(nodeId);
+      }
+      const ready: string[] = [];
+      for (const joinId of scope.pending) {
+        const sources = getIncomingSources(joinId, edges);
+        if (outer && !sources.every((id) => isGeneratedBy(scope, id))) {
+          outer.pending.add(joinId);
+        } else {
+          released.add(joinId);
+          ready.push(joinId);
+        }
+      }
+      return ready;
+    },
+    defer(nodeId) {
+      if (!isJoinNode(nodeId, edges)) {
+        return false;
+      }
+      if (released.delete(nodeId)) {
+        return false;
+      }
+      if (handled.has(nodeId)) {
+        return true;
+      }
+      handled.add(nodeId);
+      const scope = scopes.at(-1);
+      if (getMode(nodeId) === "any" || !scope) {
+        return false;
+      }
+      scope.pending.add(nodeId);
+      return true;
+    },
+    generated(nodeId) {
+      if (!order.has(nodeId)) {
+        order.set(nodeId, order.size);
+      }
+      scopes.at(-1)?.generated.add(nodeId);
+    },
+  };
+}
@@ -782,6 +782,10 @@ export async function updateDbMetrics(): Promise<void> {
       { status: "cancelled" },
       workflowStats.totalCancelled
     );
+    workflowExecutionsTotal.set(
+      { status: "timeout" },
+      workflowStats.totalTimeout
+    );
 
     // Update workflow errors total (convenience gauge for alerting)
     workflowErrorsTotal.set(workflowStats.totalError);
@@ -817,6 +821,10 @@ export async function updateDbMetrics(): Promise<void> {
         { step_type: stepType, status: "error" },
         counts.error
       );
+      stepExecutionsTotal.set(
+        { step_type: stepType, status: "timeout" },
+        counts.timeout
+      );
       // Update step errors for this type
       stepErrorsTotal.set({ step_type: stepType }, counts.error);
     }
@@ -40,6 +40,7 @@ export type WorkflowStats = {
   totalRunning: number;
   totalPending: number;
   totalCancelled: number;
+  totalTimeout: number;
 
   // Duration histogram data (count of executions in each bucket)
   durationBuckets: number[];
@@ -70,6 +71,7 @@ export async function getWorkflowStatsFromDb(): Promise<WorkflowStats> {
       totalRunning: 0,
       totalPending: 0,
       totalCancelled: 0,
+      totalTimeout: 0,
       durationBuckets: new Array(WORKFLOW_DURATION_BUCKETS.length + 1).fill(0),
       durationSum: 0,
       durationCount: 0,
@@ -92,6 +94,9 @@ export async function getWorkflowStatsFromDb(): Promise<WorkflowStats> {
         case "cancelled":
           stats.totalCancelled = row.count;
           break;
+        case "timeout":
+          stats.totalTimeout = row.count;
+          break;
         default:
           // Ignore unknown status values
           break;
@@ -117,7 +122,7 @@ export async function getWorkflowStatsFromDb(): Promise<WorkflowStats> {
       .from(workflowExecutions)
       .where(
         and(
-          sql`${workflowExecutions.status} IN ('success', 'error')`,
+          sql`${workflowExecutions.status} IN ('success', 'error', 'timeout')`,
           sql`${workflowExecutions.duration} IS NOT NULL`
         )
       );
@@ -149,6 +154,7 @@ export async function getWorkflowStatsFromDb(): Promise<WorkflowStats> {
       totalRunning: 0,
       totalPending: 0,
       totalCancelled: 0,
+      totalTimeout: 0,
       durationBuckets: new Array(WORKFLOW_DURATION_BUCKETS.length + 1).fill(0),
       durationSum: 0,
       durationCount: 0,
@@ -158,7 +164,10 @@ export async function getWorkflowStatsFromDb(): Promise<WorkflowStats> {
 
 export type StepStats = {
   // Counts by step type and status
-  countsByType: Record<string, { success: number; error: number }>;
+  countsByType: Record<
+    string,
+    { success: number; error: number; timeout: number }
+  >;
 
   // Duration histogram data (count of steps in each bucket)
   durationBuckets: number[];
@@ -211,7 +220,9 @@ export async function getStepStatsFromDb(): Promise<StepStats> {
         count: count(),
       })
       .from(workflowExecutionLogs)
-      .where(sql`${workflowExecutionLogs.status} IN ('success', 'error')`)
+      .where(
+        sql`${workflowExecutionLogs.status} IN ('success', 'error', 'timeout')`
+      )
       .groupBy(workflowExecutionLogs.nodeType, workflowExecutionLogs.status);
 
     const stats: StepStats = {
@@ -223,12 +234,18 @@ export async function getStepStatsFromDb(): Promise<StepStats> {
 
     for (const row of typeCounts) {
       if (!stats.countsByType[row.nodeType]) {
-        stats.countsByType[row.nodeType] = { success: 0, error: 0 };
+        stats.countsByType[row.nodeType] = {
+          success: 0,
+          error: 0,
+          timeout: 0,
+        };
       }
       if (row.status === "success") {
         stats.countsByType[row.nodeType].success = row.count;
       } else if (row.status === "error") {
         stats.countsByType[row.nodeType].error = row.count;
+      } else if (row.status === "timeout") {
+        stats.countsByType[row.nodeType].timeout = row.count;
       }
     }
 
@@ -249,7 +266,7 @@ export async function getStepStatsFromDb(): Promise<StepStats> {
       .from(workflowExecutionLogs)
       .where(
         and(
-          sql`${workflowExecutionLogs.status} IN ('success', 'error')`,
+          sql`${workflowExecutionLogs.status} IN ('success', 'error', 'timeout')`,
           sql`${workflowExecutionLogs.duration} IS NOT NULL`
         )
       );
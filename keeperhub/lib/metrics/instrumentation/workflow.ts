@@ -6,6 +6,7 @@
 
 import {
   createTimer,
+  type ExecutionStatus,
   getMetricsCollector,
   LabelKeys,
   MetricNames,
@@ -55,12 +56,20 @@ export function recordWorkflowComplete(options: {
   triggerType?: TriggerType;
   durationMs: number;
   success: boolean;
+  timedOut?: boolean;
+  cancelled?: boolean;
   error?: Error | string;
 }): void {
   const metrics = getMetricsCollector();
 
+  let status: ExecutionStatus = options.success ? "success" : "failure";
+  if (options.timedOut) {
+    status = "timeout";
+  } else if (options.cancelled) {
+    status = "cancelled";
+  }
   const labels: Record<string, string> = {
-    [LabelKeys.STATUS]: options.success ? "success" : "failure",
+    [LabelKeys.STATUS]: status,
   };
   if (options.workflowId) {
     labels[LabelKeys.WORKFLOW_ID] = options.workflowId;
@@ -79,8 +88,8 @@ export function recordWorkflowComplete(options: {
     labels
   );
 
-  // Record error if failed
-  if (!options.success && options.error) {
+  // Record error if failed (a cancelled run did not fail)
+  if (!(options.success || options.cancelled) && options.error) {
     const errorObj =
       typeof options.error === "string"
         ? { message: options.error }
@@ -0,0 +1,261 @@
+/**
+ * Payload Schemas
+ * The field lists built with the schema builder (webhook payloads, database
+ * rows, AI structured output) turned into template fields, request
+ * validation and example payloads.
+ *
+ * A Webhook trigger's `webhookSchema` drives the trigger's output fields and,
+ * when no mock request is typed, the sample payload of test runs. The webhook
+ * route enforces it only when the trigger opts in with
+ * `webhookValidatePayload`: declared fields must then be present with the
+ * declared type unless marked optional; undeclared fields are allowed.
+ *
+ * NOTE: This module has zero dependencies so it can be safely imported in both
+ * server-side code and "use client" components.
+ */
+
+export type SchemaField = {
+  name: string;
+  type: "string" | "number" | "boolean" | "array" | "object";
+  itemType?: "string" | "number" | "boolean" | "object";
+  fields?: SchemaField[];
+  description?: string;
+  /** Payload validation accepts the field being absent or null */
+  optional?: boolean;
+};
+
+export type SchemaOutputField = {
+  field: string;
+  description: string;
+  type?: SchemaField["type"];
+};
+
+/** Violations listed in a rejected request, beyond which the rest are counted */
+export const MAX_PAYLOAD_VIOLATIONS = 20;
+
+const EXAMPLE_VALUES = {
+  string: "example",
+  number: 0,
+  boolean: false,
+} as const;
+
+export function schemaToFields(
+  schema: SchemaField[],
+  prefix = ""
+): SchemaOutputField[] {
+  const fields: SchemaOutputField[] = [];
+  for (const f of schema) {
+    const fieldPath = prefix ? `${prefix}.${f.name}` : f.name;
+    const typeLabel = f.type === "array" ? `${f.itemType}[]` : f.type;
+    fields.push({
+      field: fieldPath,
+      description: f.description || typeLabel,
+      type: f.type,
+    });
+    if (f.type === "object" && f.fields && f.fields.length > 0) {
+      fields.push(...schemaToFields(f.fields, fieldPath));
+    }
+    if (
+      f.type === "array" &&
+      f.itemType === "object" &&
+      f.fields &&
+      f.fields.length > 0
+    ) {
+      fields.push(...schemaToFields(f.fields, `${fieldPath}[0]`));
+    }
+  }
+  return fields;
+}
+
+/** Named fields of a stored schema; empty when unset or invalid */
+export function parsePayloadSchema(raw: unknown): SchemaField[] {
+  if (typeof raw !== "string" || raw.trim() === "") {
+    return [];
+  }
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? (parsed as SchemaField[]).filter((field) => field?.name?.trim())
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function getWebhookPayloadSchema(
+  config: Record<string, unknown> | undefined
+): SchemaField[] {
+  return parsePayloadSchema(config?.webhookSchema);
+}
+
+/**
+ * Whether the webhook route rejects payloads that do not match the schema.
+ * Off by default, so schemas saved before enforcement existed keep accepting
+ * the requests they always did.
+ */
+export function isWebhookPayloadValidationEnabled(
+  config: Record<string, unknown> | undefined
+): boolean {
+  const flag = config?.webhookValidatePayload;
+  return flag === true || flag === "true";
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  return Array.isArray(value) ? "array" : typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function formatTypeMismatch(
+  path: string,
+  type: SchemaField["type"],
+  value: unknown
+): string {
+  const article = type === "array" || type === "object" ? "an" : "a";
+  return `${path} must be ${article} ${type}, received ${describeValue(value)}`;
+}
+
+function matchesType(value: unknown, type: SchemaField["type"]): boolean {
+  switch (type) {
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isPlainObject(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function collectFieldViolations(
+  field: SchemaField,
+  value: unknown,
+  path: string,
+  violations: string[]
+): void {
+  if (value === undefined || value === null) {
+    if (!field.optional) {
+      violations.push(`${path} is required`);
+    }
+  } else if (!matchesType(value, field.type)) {
+    violations.push(formatTypeMismatch(path, field.type, value));
+  } else if (field.type === "object" && field.fields?.length) {
+    collectViolations(
+      field.fields,
+      value as Record<string, unknown>,
+      path,
+      violations
+    );
+  } else if (field.type === "array") {
+    collectItemViolations(field, value as unknown[], path, violations);
+  }
+}
+
+function collectViolations(
+  schema: SchemaField[],
+  value: Record<string, unknown>,
+  prefix: string,
+  violations: string[]
+): void {
+  for (const field of schema) {
+    const path = prefix ? `${prefix}.${field.name}` : field.name;
+    collectFieldViolations(field, value[field.name], path, violations);
+  }
+}
+
+function collectItemViolations(
+  field: SchemaField,
+  items: unknown[],
+  path: string,
+  violations: string[]
+): void {
+  const itemType = field.itemType ?? "string";
+  for (const [index, item] of items.entries()) {
+    const itemPath = `${path}[${index}]`;
+    if (!matchesType(item, itemType)) {
+      violations.push(formatTypeMismatch(itemPath, itemType, item));
+    } else if (itemType === "object" && field.fields?.length) {
+      collectViolations(
+        field.fields,
+        item as Record<string, unknown>,
+        itemPath,
+        violations
+      );
+    }
+  }
+}
+
+/**
+ * Where a payload does not match its schema, as "path message" strings.
+ * Empty when the payload conforms or no schema is declared.
+ */
+export function validatePayload(
+  schema: SchemaField[],
+  payload: unknown
+): string[] {
+  if (schema.length === 0) {
+    return [];
+  }
+  if (!isPlainObject(payload)) {
+    return [
+      `Payload must be a JSON object, received ${describeValue(payload)}`,
+    ];
+  }
+  const violations: string[] = [];
+  collectViolations(schema, payload, "", violations);
+  if (violations.length > MAX_PAYLOAD_VIOLATIONS) {
+    const remaining = violations.length - MAX_PAYLOAD_VIOLATIONS;
+    return [
+      ...violations.slice(0, MAX_PAYLOAD_VIOLATIONS),
+      `...and ${remaining} more`,
+    ];
+  }
+  return violations;
+}
+
+function exampleValue(
+  type: SchemaField["type"],
+  fields: SchemaField[] | undefined
+): unknown {
+  if (type === "object") {
+    return generatePayloadExample(fields ?? []);
+  }
+  return EXAMPLE_VALUES[type as keyof typeof EXAMPLE_VALUES];
+}
+
+/** A payload that conforms to the schema, with one item per array */
+export function generatePayloadExample(
+  schema: SchemaField[]
+): Record<string, unknown> {
+  const example: Record<string, unknown> = {};
+  for (const field of schema) {
+    example[field.name] =
+      field.type === "array"
+        ? [exampleValue(field.itemType ?? "string", field.fields)]
+        : exampleValue(field.type, field.fields);
+  }
+  return example;
+}
+
+/**
+ * The mock request of a Webhook trigger's test runs: the typed sample, or an
+ * example generated from the payload schema.
+ */
+export function getWebhookMockRequest(
+  config: Record<string, unknown>
+): string | undefined {
+  const typed = config.webhookMockRequest;
+  if (typeof typed === "string" && typed.trim() !== "") {
+    return typed;
+  }
+  const schema = getWebhookPayloadSchema(config);
+  return schema.length > 0
+    ? JSON.stringify(generatePayloadExample(schema), null, 2)
+    : undefined;
+}
@@ -0,0 +1,187 @@
+/**
+ * Per-node retry policy helpers.
+ *
+ * An action node opts into retries through its config:
+ *   - retryMaxAttempts: total attempts including the first (1 = no retries)
+ *   - retryBackoff: "fixed" | "exponential"
+ *   - retryDelaySeconds: delay before the first retry (doubles per attempt
+ *     with exponential backoff)
+ *   - retryOn: comma-separated error kinds that may be retried, or "any"
+ *
+ * Config values come from the node editor as strings, so everything is parsed
+ * defensively and clamped to sane bounds.
+ *
+ * NOTE: This module has zero dependencies so it can be safely imported in both
+ * server-side code and "use client" components.
+ */
+
+export type RetryBackoff = "fixed" | "exponential";
+
+export type RetryableErrorKind =
+  | "network"
+  | "timeout"
+  | "rate-limit"
+  | "server";
+
+export type RetryPolicy = {
+  maxAttempts: number;
+  backoff: RetryBackoff;
+  delaySeconds: number;
+  /** Error kinds that may be retried; null retries any error */
+  retryOn: RetryableErrorKind[] | null;
+};
+
+export const RETRYABLE_ERROR_KINDS: RetryableErrorKind[] = [
+  "network",
+  "timeout",
+  "rate-limit",
+  "server",
+];
+
+export const MAX_RETRY_ATTEMPTS = 10;
+export const MAX_RETRY_DELAY_SECONDS = 300;
+const DEFAULT_RETRY_DELAY_SECONDS = 5;
+
+/**
+ * Step functions that broadcast transactions. A failed attempt of one of these
+ * is only retried when the nonce manager shows no transaction was recorded
+ * for the execution during the attempt.
+ */
+const WRITE_STEP_FUNCTIONS = new Set([
+  "transferFundsStep",
+  "transferTokenStep",
+  "writeContractStep",
+  "protocolWriteStep",
+]);
+
+/**
+ * Control-flow system actions only route data or wait; they never call out to
+ * a service themselves, so retry and timeout policies do not apply to them.
+ * (Wait Until and Execute Workflow run other nodes, which keep their own
+ * policies; an Approval waits up to its own expiry.)
+ */
+const CONTROL_FLOW_ACTIONS = new Set([
+  "Condition",
+  "Switch",
+  "For Each",
+  "While",
+  "Collect",
+  "Delay",
+  "Wait Until",
+  "Approval",
+  "Execute Workflow",
+]);
+
+const ERROR_KIND_PATTERNS: Record<RetryableErrorKind, RegExp> = {
+  "rate-limit": /\b429\b|rate.?limit|too many requests/i,
+  timeout: /timed? ?out|timeout|ETIMEDOUT|ESOCKETTIMEDOUT/i,
+  network:
+    /ECONNRESET|ECONNREFUSED|ENOTFOUND|EAI_AGAIN|EPIPE|socket hang up|network error|fetch failed|could not detect network|missing response/i,
+  server:
+    /\b50[0234]\b|bad gateway|service unavailable|internal server error|SERVER_ERROR/i,
+};
+
+function parseInteger(value: unknown, fallback: number): number {
+  const parsed = Number.parseInt(String(value ?? ""), 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+function parseRetryOn(value: unknown): RetryableErrorKind[] | null {
+  const raw = String(value ?? "").trim();
+  if (raw === "") {
+    return RETRYABLE_ERROR_KINDS;
+  }
+  if (raw === "any") {
+    return null;
+  }
+  const kinds = raw
+    .split(",")
+    .map((kind) => kind.trim())
+    .filter((kind): kind is RetryableErrorKind =>
+      RETRYABLE_ERROR_KINDS.includes(kind as RetryableErrorKind)
+    );
+  return kinds.length > 0 ? kinds : RETRYABLE_ERROR_KINDS;
+}
+
+/**
+ * Read the retry policy from a node's config. Returns null when the node does
+ * not retry (no policy, or a single attempt).
+ */
+export function parseRetryPolicy(
+  config: Record<string, unknown>
+): RetryPolicy | null {
+  const maxAttempts = Math.min(
+    parseInteger(config.retryMaxAttempts, 1),
+    MAX_RETRY_ATTEMPTS
+  );
+  if (maxAttempts <= 1) {
+    return null;
+  }
+
+  const delaySeconds = Math.min(
+    Math.max(
+      parseInteger(config.retryDelaySeconds, DEFAULT_RETRY_DELAY_SECONDS),
+      0
+    ),
+    MAX_RETRY_DELAY_SECONDS
+  );
+
+  return {
+    maxAttempts,
+    backoff: config.retryBackoff === "fixed" ? "fixed" : "exponential",
+    delaySeconds,
+    retryOn: parseRetryOn(config.retryOn),
+  };
+}
+
+/**
+ * Delay in milliseconds before the attempt that follows `failedAttempt`
+ * (1-based). Exponential backoff doubles the base delay each time, capped at
+ * MAX_RETRY_DELAY_SECONDS.
+ */
+export function getRetryDelayMs(
+  policy: RetryPolicy,
+  failedAttempt: number
+): number {
+  const multiplier =
+    policy.backoff === "exponential" ? 2 ** (failedAttempt - 1) : 1;
+  return (
+    Math.min(policy.delaySeconds * multiplier, MAX_RETRY_DELAY_SECONDS) * 1000
+  );
+}
+
+/**
+ * Classify an error message into a retryable kind, or null when it does not
+ * look transient.
+ */
+export function classifyRetryableError(
+  message: string
+): RetryableErrorKind | null {
+  for (const kind of RETRYABLE_ERROR_KINDS) {
+    if (ERROR_KIND_PATTERNS[kind].test(message)) {
+      return kind;
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a failed attempt's error message is one the policy retries.
+ */
+export function isRetryableError(
+  policy: RetryPolicy,
+  message: string
+): boolean {
+  if (policy.retryOn === null) {
+    return true;
+  }
+  return policy.retryOn.some((kind) => ERROR_KIND_PATTERNS[kind].test(message));
+}
+
+export function isWriteStepFunction(stepFunction: string | undefined): boolean {
+  return stepFunction !== undefined && WRITE_STEP_FUNCTIONS.has(stepFunction);
+}
+
+export function isControlFlowAction(actionType: string | undefined): boolean {
+  return actionType === undefined || CONTROL_FLOW_ACTIONS.has(actionType);
+}
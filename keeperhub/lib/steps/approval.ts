@@ -0,0 +1,312 @@
+/**
+ * Step functions for the Approval action.
+ *
+ * Steps cannot sleep, so an Approval is split around the executor's wait:
+ *   1. startApprovalStep records the approval request, notifies the
+ *      approvers, opens the node's log row and marks the execution as waiting
+ *   2. the executor polls checkApprovalStep, sleeping in between (a durable
+ *      timer under the workflow runtime, so no worker is held while waiting)
+ *   3. completeApprovalStep closes the log row with the decision
+ *
+ * When the K8s runner suspends the run instead of polling, the log row stays
+ * open; the continuing run's startApprovalStep picks the request up again
+ * instead of recording and notifying a new one.
+ */
+import "server-only";
+
+import { eq } from "drizzle-orm";
+import { notifyApprovers } from "@/keeperhub/lib/approval-notifications";
+import {
+  type ApprovalDecider,
+  type ApprovalOutput,
+  type ApprovalStatus,
+  parseApprovalConfig,
+} from "@/keeperhub/lib/approvals";
+import {
+  cancelApproval,
+  getApprovalState,
+} from "@/keeperhub/lib/execution-approvals";
+import {
+  type CancelledStepResult,
+  createCancelledResult,
+} from "@/keeperhub/lib/execution-cancel";
+import { recordStepMetrics } from "@/keeperhub/lib/metrics/instrumentation/workflow";
+import { db } from "@/lib/db";
+import {
+  workflowApprovals,
+  workflowExecutions,
+  workflows,
+} from "@/lib/db/schema";
+import {
+  isExecutionCancelled,
+  type StepContext,
+  type StepInput,
+  withStepLogging,
+} from "@/lib/steps/step-handler";
+import { generateId } from "@/lib/utils/id";
+import {
+  findRunningStepDb,
+  incrementCompletedSteps,
+  logStepCompleteDb,
+  logStepStartDb,
+  setExecutionWaitingDb,
+  updateCurrentStep,
+} from "@/lib/workflow-logging";
+
+export type StartApprovalInput = StepInput & Record<string, unknown>;
+
+export type ApprovalStarted = {
+  approvalId: string;
+  /** ISO timestamp after which the request expires */
+  expiresAt: string;
+  logId: string;
+  startTime: number;
+};
+
+type ApprovalErrorResult = {
+  success: false;
+  error: string;
+};
+
+function failApproval(
+  input: StartApprovalInput,
+  error: string
+): Promise<ApprovalErrorResult> {
+  return withStepLogging(input, () =>
+    Promise.resolve({ success: false as const, error })
+  );
+}
+
+/** The open request of an Approval whose run was suspended while it waited */
+async function findSuspendedApproval(
+  executionId: string,
+  context: StepContext
+): Promise<ApprovalStarted | undefined> {
+  if (context.iterationIndex !== undefined) {
+    return;
+  }
+  const running = await findRunningStepDb({
+    executionId,
+    nodeId: context.nodeId,
+  });
+  const { approvalId, expiresAt } =
+    (running?.input as { approvalId?: unknown; expiresAt?: unknown }) ?? {};
+  return running &&
+    typeof approvalId === "string" &&
+    typeof expiresAt === "string"
+    ? {
+        approvalId,
+        expiresAt,
+        logId: running.logId,
+        startTime: running.startTime,
+      }
+    : undefined;
+}
+
+export async function startApprovalStep(
+  input: StartApprovalInput
+): Promise<
+  ApprovalStarted | ApprovalOutput | ApprovalErrorResult | CancelledStepResult
+> {
+  "use step";
+  const { _context: context, ...config } = input;
+  if (await isExecutionCancelled(context)) {
+    return createCancelledResult();
+  }
+  const settings = parseApprovalConfig(config);
+  if ("error" in settings) {
+    return await failApproval(input, settings.error);
+  }
+
+  // A dry run does not wait for anyone: it takes the approved path
+  if (context?.dryRun) {
+    return await withStepLogging(input, () =>
+      Promise.resolve<ApprovalOutput>({
+        approvalId: "",
+        decision: "approved",
+        approved: true,
+        decidedBy: null,
+        decidedAt: null,
+        comment: null,
+        waitedMs: 0,
+      })
+    );
+  }
+  if (!context?.executionId) {
+    return await failApproval(
+      input,
+      "Approval needs a recorded execution to wait on"
+    );
+  }
+  const suspended = await findSuspendedApproval(context.executionId, context);
+  if (suspended) {
+    return suspended;
+  }
+
+  const [execution] = await db
+    .select({
+      workflowId: workflows.id,
+      workflowName: workflows.name,
+      organizationId: workflows.organizationId,
+    })
+    .from(workflowExecutions)
+    .innerJoin(workflows, eq(workflows.id, workflowExecutions.workflowId))
+    .where(eq(workflowExecutions.id, context.executionId))
+    .limit(1);
+  if (!execution?.organizationId) {
+    return await failApproval(
+      input,
+      "Approval needs a workflow that belongs to an organization"
+    );
+  }
+
+  const expiresAt = new Date(Date.now() + settings.expiresInSeconds * 1000);
+  const approvalId = generateId();
+  await db.insert(workflowApprovals).values({
+    id: approvalId,
+    executionId: context.executionId,
+    workflowId: execution.workflowId,
+    organizationId: execution.organizationId,
+    nodeId: context.nodeId,
+    nodeName: context.nodeName,
+    message: settings.message,
+    approverRole: settings.approverRole,
+    expiresAt,
+  });
+  const notified = await notifyApprovers({
+    organizationId: execution.organizationId,
+    workflowId: execution.workflowId,
+    workflowName: execution.workflowName,
+    stepName: context.nodeName,
+    expiresAt,
+    settings,
+  });
+
+  await updateCurrentStep({
+    executionId: context.executionId,
+    currentNodeId: context.nodeId,
+    currentNodeName: context.nodeName,
+  });
+  const { logId, startTime } = await logStepStartDb({
+    executionId: context.executionId,
+    nodeId: context.nodeId,
+    nodeName: context.nodeName,
+    nodeType: context.nodeType,
+    input: {
+      ...config,
+      approvalId,
+      expiresAt: expiresAt.toISOString(),
+      notified,
+    },
+    iterationIndex: context.iterationIndex,
+    forEachNodeId: context.forEachNodeId,
+  });
+  await setExecutionWaitingDb({
+    executionId: context.executionId,
+    waitingUntil: expiresAt,
+  });
+
+  return { approvalId, expiresAt: expiresAt.toISOString(), logId, startTime };
+}
+startApprovalStep.maxRetries = 0;
+
+export type CheckApprovalInput = StepInput & {
+  approvalId: string;
+};
+
+export type ApprovalCheck = {
+  status: ApprovalStatus;
+  decidedBy: ApprovalDecider | null;
+  decidedAt: string | null;
+  comment: string | null;
+};
+
+/**
+ * Look up the approval's decision. An approval whose execution was cancelled
+ * while it waited is closed as cancelled.
+ */
+export async function checkApprovalStep(
+  input: CheckApprovalInput
+): Promise<ApprovalCheck> {
+  "use step";
+  if (await isExecutionCancelled(input._context)) {
+    await cancelApproval(db, input.approvalId);
+    return {
+      status: "cancelled",
+      decidedBy: null,
+      decidedAt: null,
+      comment: null,
+    };
+  }
+  const state = await getApprovalState(db, input.approvalId);
+  return {
+    status: state?.status ?? "cancelled",
+    decidedBy: state?.decidedBy ?? null,
+    decidedAt: state?.decidedAt?.toISOString() ?? null,
+    comment: state?.comment ?? null,
+  };
+}
+checkApprovalStep.maxRetries = 0;
+
+/** Decision a closed approval ends the node with */
+function getDecision(status: ApprovalStatus): ApprovalOutput["decision"] {
+  return status === "approved" || status === "rejected" ? status : "expired";
+}
+
+export type CompleteApprovalInput = StepInput &
+  ApprovalStarted &
+  ({ check: ApprovalCheck; error?: undefined } | { error: string });
+
+export async function completeApprovalStep(
+  input: CompleteApprovalInput
+): Promise<ApprovalOutput | ApprovalErrorResult> {
+  "use step";
+  const { _context: context, approvalId, logId, startTime } = input;
+  const result: ApprovalOutput | ApprovalErrorResult =
+    input.error === undefined
+      ? {
+          approvalId,
+          decision: getDecision(input.check.status),
+          approved: input.check.status === "approved",
+          decidedBy: input.check.decidedBy,
+          decidedAt: input.check.decidedAt,
+          comment: input.check.comment,
+          waitedMs: Date.now() - startTime,
+        }
+      : { success: false, error: input.error };
+
+  if (!(context?.executionId && logId)) {
+    return result;
+  }
+
+  const success = input.error === undefined;
+  await setExecutionWaitingDb({
+    executionId: context.executionId,
+    waitingUntil: null,
+  });
+  await logStepCompleteDb({
+    logId,
+    startTime,
+    status: success ? "success" : "error",
+    output: result,
+    error: input.error,
+  });
+  await incrementCompletedSteps({
+    executionId: context.executionId,
+    nodeId: context.nodeId,
+    nodeName: context.nodeName,
+    success,
+  });
+  recordStepMetrics({
+    executionId: context.executionId,
+    nodeId: context.nodeId,
+    nodeName: context.nodeName,
+    stepType: context.nodeType,
+    durationMs: Date.now() - startTime,
+    success,
+    error: input.error,
+  });
+
+  return result;
+}
+completeApprovalStep.maxRetries = 0;
@@ -0,0 +1,176 @@
+/**
+ * Step functions for the Delay action.
+ *
+ * Steps cannot sleep, so a Delay is split around the executor's sleep:
+ *   1. startDelayStep resolves the resume time, opens the node's log row and
+ *      marks the execution as waiting
+ *   2. the executor sleeps until the resume time (a durable timer under the
+ *      workflow runtime, so no worker is held while waiting)
+ *   3. completeDelayStep closes the log row and clears the waiting marker
+ *
+ * When the K8s runner suspends the run instead of sleeping, the log row stays
+ * open; the continuing run's startDelayStep picks it up with its resume time.
+ */
+import "server-only";
+
+import { resolveDelayResumeAt } from "@/keeperhub/lib/delay";
+import {
+  type CancelledStepResult,
+  createCancelledResult,
+} from "@/keeperhub/lib/execution-cancel";
+import { recordStepMetrics } from "@/keeperhub/lib/metrics/instrumentation/workflow";
+import {
+  isExecutionCancelled,
+  type StepContext,
+  type StepInput,
+  withStepLogging,
+} from "@/lib/steps/step-handler";
+import {
+  findRunningStepDb,
+  incrementCompletedSteps,
+  logStepCompleteDb,
+  logStepStartDb,
+  setExecutionWaitingDb,
+  updateCurrentStep,
+} from "@/lib/workflow-logging";
+
+export type DelayInput = StepInput & {
+  delayMode?: string;
+  delayAmount?: string | number;
+  delayUnit?: string;
+  /** Absolute resume time, already resolved from templates by the executor */
+  delayUntil?: unknown;
+};
+
+export type DelayStarted = {
+  /** ISO timestamp the executor sleeps until */
+  resumeAt: string;
+  logId: string;
+  startTime: number;
+};
+
+type DelayErrorResult = {
+  success: false;
+  error: string;
+};
+
+type DelayResult = {
+  resumeAt: string;
+  resumedAt: string;
+  waitedMs: number;
+};
+
+/** The open log row of a Delay whose run was suspended while it waited */
+async function findSuspendedDelay(
+  context: StepContext | undefined
+): Promise<DelayStarted | undefined> {
+  if (!context?.executionId || context.iterationIndex !== undefined) {
+    return;
+  }
+  const running = await findRunningStepDb({
+    executionId: context.executionId,
+    nodeId: context.nodeId,
+  });
+  const resumeAt = (running?.input as { resumeAt?: unknown } | undefined)
+    ?.resumeAt;
+  return running && typeof resumeAt === "string"
+    ? { resumeAt, logId: running.logId, startTime: running.startTime }
+    : undefined;
+}
+
+export async function startDelayStep(
+  input: DelayInput
+): Promise<DelayStarted | DelayErrorResult | CancelledStepResult> {
+  "use step";
+  const { _context: context, ...config } = input;
+  if (await isExecutionCancelled(context)) {
+    return createCancelledResult();
+  }
+  const suspended = await findSuspendedDelay(context);
+  if (suspended) {
+    return suspended;
+  }
+  const now = Date.now();
+  const resolution = resolveDelayResumeAt(config, now);
+
+  if (resolution.error !== undefined) {
+    const error = resolution.error;
+    return await withStepLogging(input, () =>
+      Promise.resolve({ success: false as const, error })
+    );
+  }
+
+  const resumeAt = new Date(resolution.resumeAt);
+  if (!context?.executionId) {
+    return { resumeAt: resumeAt.toISOString(), logId: "", startTime: now };
+  }
+
+  await updateCurrentStep({
+    executionId: context.executionId,
+    currentNodeId: context.nodeId,
+    currentNodeName: context.nodeName,
+  });
+  const { logId, startTime } = await logStepStartDb({
+    executionId: context.executionId,
+    nodeId: context.nodeId,
+    nodeName: context.nodeName,
+    nodeType: context.nodeType,
+    input: { ...config, resumeAt: resumeAt.toISOString() },
+    iterationIndex: context.iterationIndex,
+    forEachNodeId: context.forEachNodeId,
+  });
+  await setExecutionWaitingDb({
+    executionId: context.executionId,
+    waitingUntil: resumeAt,
+  });
+
+  return { resumeAt: resumeAt.toISOString(), logId, startTime };
+}
+startDelayStep.maxRetries = 0;
+
+export type CompleteDelayInput = StepInput & DelayStarted;
+
+export async function completeDelayStep(
+  input: CompleteDelayInput
+): Promise<DelayResult> {
+  "use step";
+  const { _context: context, resumeAt, logId, startTime } = input;
+  const resumedAt = Date.now();
+  const result: DelayResult = {
+    resumeAt,
+    resumedAt: new Date(resumedAt).toISOString(),
+    waitedMs: resumedAt - startTime,
+  };
+
+  if (!(context?.executionId && logId)) {
+    return result;
+  }
+
+  await setExecutionWaitingDb({
+    executionId: context.executionId,
+    waitingUntil: null,
+  });
+  await logStepCompleteDb({
+    logId,
+    startTime,
+    status: "success",
+    output: result,
+  });
+  await incrementCompletedSteps({
+    executionId: context.executionId,
+    nodeId: context.nodeId,
+    nodeName: context.nodeName,
+    success: true,
+  });
+  recordStepMetrics({
+    executionId: context.executionId,
+    nodeId: context.nodeId,
+    nodeName: context.nodeName,
+    stepType: context.nodeType,
+    durationMs: result.waitedMs,
+    success: true,
+  });
+
+  return result;
+}
+completeDelayStep.maxRetries = 0;
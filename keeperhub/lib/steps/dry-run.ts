@@ -0,0 +1,43 @@
+/**
+ * Step functions standing in for notification and side-effect steps during a
+ * dry run. They are logged like the real step, with the message or request
+ * it would have sent as output.
+ */
+import "server-only";
+
+import {
+  buildNotificationPreview,
+  buildSideEffectPreview,
+  type NotificationPreview,
+  type SideEffectPreview,
+} from "@/keeperhub/lib/dry-run";
+import { type StepInput, withStepLogging } from "@/lib/steps/step-handler";
+
+export type PreviewStepInput = StepInput &
+  Record<string, unknown> & {
+    _actionType: string;
+  };
+
+export async function previewNotificationStep(
+  input: PreviewStepInput
+): Promise<NotificationPreview> {
+  "use step";
+  const { _actionType: actionType, ...stepInput } = input;
+  const { _context: _, ...config } = stepInput;
+  return await withStepLogging(stepInput, () =>
+    Promise.resolve(buildNotificationPreview(actionType, config))
+  );
+}
+previewNotificationStep.maxRetries = 0;
+
+export async function previewSideEffectStep(
+  input: PreviewStepInput
+): Promise<SideEffectPreview> {
+  "use step";
+  const { _actionType: actionType, ...stepInput } = input;
+  const { _context: _, ...config } = stepInput;
+  return await withStepLogging(stepInput, () =>
+    Promise.resolve(buildSideEffectPreview(actionType, config))
+  );
+}
+previewSideEffectStep.maxRetries = 0;
@@ -0,0 +1,270 @@
+/**
+ * Step functions for the Execute Workflow (sub-workflow) action.
+ *
+ * The child workflow runs inline in the caller's executor (so it is durable
+ * together with the parent run); these steps wrap it:
+ *   1. startSubWorkflowStep checks access, cycles and depth, opens the
+ *      caller node's log row and creates the child's execution row
+ *   2. the executor runs the child with executeWorkflow
+ *   3. completeSubWorkflowStep closes the caller node's log row with the
+ *      child's final output
+ */
+import "server-only";
+
+import { eq } from "drizzle-orm";
+import {
+  type CancelledStepResult,
+  createCancelledResult,
+} from "@/keeperhub/lib/execution-cancel";
+import { recordStepMetrics } from "@/keeperhub/lib/metrics/instrumentation/workflow";
+import {
+  checkSubWorkflowCall,
+  parseSubWorkflowInput,
+  type SubWorkflowOutput,
+} from "@/keeperhub/lib/sub-workflow";
+import type { WorkflowVariable } from "@/keeperhub/lib/workflow-variables";
+import { db } from "@/lib/db";
+import { validateWorkflowIntegrations } from "@/lib/db/integrations";
+import { workflowExecutions, workflows } from "@/lib/db/schema";
+import {
+  isExecutionCancelled,
+  type StepInput,
+  withStepLogging,
+} from "@/lib/steps/step-handler";
+import {
+  incrementCompletedSteps,
+  initializeProgress,
+  logStepCompleteDb,
+  logStepStartDb,
+  updateCurrentStep,
+} from "@/lib/workflow-logging";
+import { calculateTotalSteps } from "@/lib/workflow-progress";
+import type { WorkflowEdge, WorkflowNode } from "@/lib/workflow-store";
+
+export type StartSubWorkflowInput = StepInput & {
+  subWorkflowId?: string;
+  /** Input mapping, already resolved from templates by the executor */
+  subWorkflowInput?: unknown;
+  /** Workflow the calling node belongs to */
+  parentWorkflowId?: string;
+  /** Workflows above the caller, outermost first */
+  callStack: string[];
+};
+
+export type SubWorkflowStarted = {
+  executionId: string;
+  workflowId: string;
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+  /** The child's own variables; a sub-workflow does not see its caller's */
+  variables: WorkflowVariable[];
+  input: Record<string, unknown>;
+  logId: string;
+  startTime: number;
+};
+
+type SubWorkflowErrorResult = {
+  success: false;
+  error: string;
+};
+
+type ResolvedChild = Omit<SubWorkflowStarted, "logId" | "startTime"> & {
+  userId: string;
+};
+
+/**
+ * Load the child workflow and make sure the caller may run it: same
+ * organization (or same owner), not a cycle, not too deep, and every
+ * integration it references belongs to the organization.
+ */
+async function resolveChild(
+  input: StartSubWorkflowInput
+): Promise<ResolvedChild | SubWorkflowErrorResult> {
+  const childId = input.subWorkflowId?.trim();
+  if (!childId) {
+    return { success: false, error: "No workflow selected to execute" };
+  }
+  if (!input.parentWorkflowId) {
+    return {
+      success: false,
+      error: "Sub-workflows can only be executed from a saved workflow",
+    };
+  }
+
+  const callError = checkSubWorkflowCall(
+    [...input.callStack, input.parentWorkflowId],
+    childId
+  );
+  if (callError) {
+    return { success: false, error: callError };
+  }
+
+  const parsedInput = parseSubWorkflowInput(input.subWorkflowInput);
+  if ("error" in parsedInput) {
+    return { success: false, error: parsedInput.error };
+  }
+
+  const [parent, child] = await Promise.all([
+    db.query.workflows.findFirst({
+      where: eq(workflows.id, input.parentWorkflowId),
+    }),
+    db.query.workflows.findFirst({ where: eq(workflows.id, childId) }),
+  ]);
+  // Only workflows of the parent's organization can be run; a workflow
+  // without one (e.g. an anonymous user's) cannot run sub-workflows
+  const isSameOrg =
+    !child?.isAnonymous &&
+    child?.organizationId &&
+    child.organizationId === parent?.organizationId;
+  if (!(parent && child && isSameOrg)) {
+    return { success: false, error: `Workflow not found: ${childId}` };
+  }
+
+  const nodes = child.nodes as WorkflowNode[];
+  const validation = await validateWorkflowIntegrations(
+    nodes,
+    parent.userId,
+    parent.organizationId
+  );
+  if (!validation.valid) {
+    return {
+      success: false,
+      error: `Workflow "${child.name}" contains invalid integration references`,
+    };
+  }
+
+  return {
+    executionId: "",
+    workflowId: child.id,
+    nodes,
+    edges: child.edges as WorkflowEdge[],
+    variables: child.variables,
+    input: parsedInput.input,
+    userId: parent.userId,
+  };
+}
+
+export async function startSubWorkflowStep(
+  input: StartSubWorkflowInput
+): Promise<SubWorkflowStarted | SubWorkflowErrorResult | CancelledStepResult> {
+  "use step";
+  const context = input._context;
+  if (await isExecutionCancelled(context)) {
+    return createCancelledResult();
+  }
+  const resolved = await resolveChild(input);
+  if ("error" in resolved) {
+    return await withStepLogging(input, () => Promise.resolve(resolved));
+  }
+
+  const { userId, ...child } = resolved;
+  const parentExecutionId = context?.executionId;
+  const [execution] = await db
+    .insert(workflowExecutions)
+    .values({
+      workflowId: child.workflowId,
+      userId,
+      status: "running",
+      input: child.input,
+      parentExecutionId,
+      dryRun: context?.dryRun === true,
+    })
+    .returning({ id: workflowExecutions.id });
+  await initializeProgress({
+    executionId: execution.id,
+    totalSteps: calculateTotalSteps(child.nodes, child.edges),
+  });
+
+  if (!parentExecutionId) {
+    return {
+      ...child,
+      executionId: execution.id,
+      logId: "",
+      startTime: Date.now(),
+    };
+  }
+
+  await updateCurrentStep({
+    executionId: parentExecutionId,
+    currentNodeId: context.nodeId,
+    currentNodeName: context.nodeName,
+  });
+  const { logId, startTime } = await logStepStartDb({
+    executionId: parentExecutionId,
+    nodeId: context.nodeId,
+    nodeName: context.nodeName,
+    nodeType: context.nodeType,
+    input: {
+      subWorkflowId: child.workflowId,
+      subWorkflowInput: child.input,
+      executionId: execution.id,
+    },
+    iterationIndex: context.iterationIndex,
+    forEachNodeId: context.forEachNodeId,
+  });
+
+  return { ...child, executionId: execution.id, logId, startTime };
+}
+startSubWorkflowStep.maxRetries = 0;
+
+export type CompleteSubWorkflowInput = StepInput & {
+  logId: string;
+  startTime: number;
+  executionId: string;
+  workflowId: string;
+  success: boolean;
+  error?: string;
+};
+
+export async function completeSubWorkflowStep(
+  input: CompleteSubWorkflowInput
+): Promise<SubWorkflowOutput | SubWorkflowErrorResult> {
+  "use step";
+  const { _context: context, logId, startTime, executionId } = input;
+
+  // The child's final output is what its executor stored on its execution
+  const execution = await db.query.workflowExecutions.findFirst({
+    where: eq(workflowExecutions.id, executionId),
+    columns: { output: true },
+  });
+  const result: SubWorkflowOutput | SubWorkflowErrorResult = input.success
+    ? {
+        executionId,
+        workflowId: input.workflowId,
+        output: execution?.output ?? null,
+      }
+    : {
+        success: false,
+        error: `Sub-workflow failed: ${input.error || "unknown error"}`,
+      };
+
+  if (!(context?.executionId && logId)) {
+    return result;
+  }
+
+  await logStepCompleteDb({
+    logId,
+    startTime,
+    status: input.success ? "success" : "error",
+    output: input.success ? result : { executionId },
+    error: "error" in result ? result.error : undefined,
+  });
+  await incrementCompletedSteps({
+    executionId: context.executionId,
+    nodeId: context.nodeId,
+    nodeName: context.nodeName,
+    success: input.success,
+  });
+  recordStepMetrics({
+    executionId: context.executionId,
+    nodeId: context.nodeId,
+    nodeName: context.nodeName,
+    stepType: context.nodeType,
+    durationMs: Date.now() - startTime,
+    success: input.success,
+    error: "error" in result ? result.error : undefined,
+  });
+
+  return result;
+}
+completeSubWorkflowStep.maxRetries = 0;
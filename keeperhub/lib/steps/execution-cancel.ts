@@ -0,0 +1,26 @@
+/**
+ * Step function run once a cancelled execution has stopped.
+ *
+ * Every write step ends its nonce session when it finishes, so normally
+ * nothing is left to release; this clears whatever a step or a dead process
+ * left behind, so the cancelled execution never keeps a wallet locked.
+ */
+import "server-only";
+
+import { getNonceManager } from "@/keeperhub/lib/web3/nonce-manager";
+
+export type ReleaseCancelledExecutionInput = {
+  executionId: string;
+};
+
+export async function releaseCancelledExecutionStep(
+  input: ReleaseCancelledExecutionInput
+): Promise<void> {
+  "use step";
+  try {
+    await getNonceManager().releaseExecutionLocks(input.executionId);
+  } catch (error) {
+    console.error("[Execution Cancel] Failed to release wallet locks:", error);
+  }
+}
+releaseCancelledExecutionStep.maxRetries = 0;
@@ -0,0 +1,34 @@
+/**
+ * Step function for workflows with the "queue" concurrency policy.
+ *
+ * A queued run polls this step until the runs of its workflow triggered
+ * before it have finished, or until QUEUE_MAX_WAIT_MS after it was triggered.
+ * The wait itself happens in the executor, so that it is a durable timer
+ * under the workflow runtime.
+ */
+import "server-only";
+
+import { QUEUE_MAX_WAIT_MS } from "@/keeperhub/lib/concurrency-policy";
+import {
+  getQueueTurn,
+  type QueueTurn,
+} from "@/keeperhub/lib/execution-concurrency";
+import { db } from "@/lib/db";
+
+export type CheckQueueTurnInput = {
+  executionId: string;
+  workflowId: string;
+};
+
+export async function checkQueueTurnStep(
+  input: CheckQueueTurnInput
+): Promise<QueueTurn> {
+  "use step";
+  return await getQueueTurn(
+    db,
+    input.executionId,
+    input.workflowId,
+    QUEUE_MAX_WAIT_MS
+  );
+}
+checkQueueTurnStep.maxRetries = 0;
@@ -0,0 +1,133 @@
+/**
+ * Step function run at the start of a resumed execution.
+ *
+ * Reads the logs of the failed execution, works out which nodes are replayed
+ * and copies their log rows into the new execution, so its run history and
+ * progress show the whole workflow and a resumed run that fails again can be
+ * resumed in turn. A run whose writes cannot all be matched is not resumed.
+ */
+import "server-only";
+
+import { and, asc, eq, isNotNull } from "drizzle-orm";
+import { pendingTransactions } from "@/keeperhub/db/schema-extensions";
+import {
+  buildResumeState,
+  findUnmatchedWrites,
+  formatUnmatchedWritesError,
+  getReplayKey,
+  type ResumeState,
+} from "@/keeperhub/lib/execution-resume";
+import { isWriteStepFunction } from "@/keeperhub/lib/retry-policy";
+import { db } from "@/lib/db";
+import { workflowExecutionLogs, workflowExecutions } from "@/lib/db/schema";
+import { getStepImporter } from "@/lib/step-registry";
+import type { WorkflowNode } from "@/lib/workflow-store";
+
+/** Ids of the nodes whose action sends a transaction */
+export function getWriteNodeIds(nodes: WorkflowNode[]): string[] {
+  return nodes
+    .filter((node) => {
+      const actionType = node.data.config?.actionType;
+      return (
+        node.data.type === "action" &&
+        typeof actionType === "string" &&
+        isWriteStepFunction(getStepImporter(actionType)?.stepFunction)
+      );
+    })
+    .map((node) => node.id);
+}
+
+function loadExecutionLogs(executionId: string) {
+  return db
+    .select()
+    .from(workflowExecutionLogs)
+    .where(eq(workflowExecutionLogs.executionId, executionId))
+    .orderBy(asc(workflowExecutionLogs.timestamp));
+}
+
+/** Node id of every transaction the nonce manager recorded for the execution */
+async function loadSentNodeIds(executionId: string): Promise<string[]> {
+  const rows = await db
+    .select({ nodeId: pendingTransactions.nodeId })
+    .from(pendingTransactions)
+    .where(
+      and(
+        eq(pendingTransactions.executionId, executionId),
+        isNotNull(pendingTransactions.nodeId)
+      )
+    );
+  return rows.flatMap((row) => (row.nodeId ? [row.nodeId] : []));
+}
+
+/**
+ * Why the execution cannot be resumed without risking a second transaction,
+ * or undefined when it can
+ */
+export async function getResumeBlocker(
+  executionId: string,
+  nodes: WorkflowNode[]
+): Promise<string | undefined> {
+  const logs = await loadExecutionLogs(executionId);
+  const unmatched = findUnmatchedWrites(
+    logs,
+    getWriteNodeIds(nodes),
+    await loadSentNodeIds(executionId)
+  );
+  return unmatched.length > 0
+    ? formatUnmatchedWritesError(unmatched)
+    : undefined;
+}
+
+export type LoadResumeStateInput = {
+  /** The failed execution being resumed */
+  resumeFromExecutionId: string;
+  /** The new execution that resumes it */
+  executionId?: string;
+  /** Write nodes of the workflow; see getWriteNodeIds */
+  writeNodeIds?: string[];
+};
+
+export async function loadResumeStateStep(
+  input: LoadResumeStateInput
+): Promise<ResumeState> {
+  "use step";
+  const logs = await loadExecutionLogs(input.resumeFromExecutionId);
+  const unmatched = findUnmatchedWrites(
+    logs,
+    input.writeNodeIds ?? [],
+    await loadSentNodeIds(input.resumeFromExecutionId)
+  );
+  if (unmatched.length > 0) {
+    throw new Error(formatUnmatchedWritesError(unmatched));
+  }
+
+  const state = buildResumeState(logs);
+  const replayed = logs.filter(
+    (log) =>
+      log.status === "success" &&
+      getReplayKey(log.nodeId, log.iterationIndex ?? undefined) in state
+  );
+  if (!input.executionId || replayed.length === 0) {
+    return state;
+  }
+
+  await db.insert(workflowExecutionLogs).values(
+    replayed.map(({ id: _id, executionId: _executionId, ...log }) => ({
+      ...log,
+      executionId: input.executionId as string,
+    }))
+  );
+  const last = replayed.at(-1);
+  await db
+    .update(workflowExecutions)
+    .set({
+      completedSteps: replayed.length.toString(),
+      executionTrace: replayed.map((log) => log.nodeId),
+      lastSuccessfulNodeId: last?.nodeId,
+      lastSuccessfulNodeName: last?.nodeName,
+    })
+    .where(eq(workflowExecutions.id, input.executionId));
+
+  return state;
+}
+loadResumeStateStep.maxRetries = 0;
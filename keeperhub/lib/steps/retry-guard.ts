@@ -0,0 +1,51 @@
+/**
+ * Step functions backing the executor's retry loop.
+ *
+ * The executor runs in the workflow sandbox and cannot query the database
+ * directly, so it reads the nonce manager's transaction count for the
+ * execution through these steps before and after each write attempt, and
+ * records a failed step's completion when it stops retrying early.
+ * Not logged to workflow_execution_logs - it is bookkeeping, not a node.
+ */
+import "server-only";
+
+import { getNonceManager } from "@/keeperhub/lib/web3/nonce-manager";
+import type { StepContext } from "@/lib/steps/step-handler";
+import { incrementCompletedSteps } from "@/lib/workflow-logging";
+
+export type CountExecutionTransactionsInput = {
+  executionId: string;
+};
+
+export async function countExecutionTransactionsStep(
+  input: CountExecutionTransactionsInput
+): Promise<number> {
+  "use step";
+  return await getNonceManager().countExecutionTransactions(input.executionId);
+}
+countExecutionTransactionsStep.maxRetries = 0;
+
+export type RecordFailedStepInput = {
+  context: StepContext;
+};
+
+/**
+ * A failed attempt that was not marked final skipped progress tracking in
+ * withStepLogging; count it once the executor decides not to retry.
+ */
+export async function recordFailedStepStep(
+  input: RecordFailedStepInput
+): Promise<void> {
+  "use step";
+  const { context } = input;
+  if (!context.executionId) {
+    return;
+  }
+  await incrementCompletedSteps({
+    executionId: context.executionId,
+    nodeId: context.nodeId,
+    nodeName: context.nodeName,
+    success: false,
+  });
+}
+recordFailedStepStep.maxRetries = 0;
@@ -0,0 +1,68 @@
+/**
+ * Executable step function for Switch (router) action.
+ *
+ * Matches the resolved switch value against the node's ordered cases and
+ * reports which branch to take. The executor reads `matchedCase` to follow
+ * only the edges leaving that case's handle.
+ */
+import "server-only";
+
+import {
+  matchSwitchCase,
+  parseSwitchCases,
+  SWITCH_DEFAULT_HANDLE,
+} from "@/keeperhub/lib/switch-cases";
+import { validateSwitchCases } from "@/lib/condition-validator";
+import { type StepInput, withStepLogging } from "@/lib/steps/step-handler";
+
+export type SwitchInput = StepInput & {
+  /** Value to route on, already resolved from templates by the executor */
+  switchValue?: unknown;
+  /** Ordered case list (JSON string as stored by the editor) */
+  cases?: unknown;
+};
+
+type SwitchResult = {
+  value: unknown;
+  /** Handle id of the taken branch: a case id or "default" */
+  matchedCase: string;
+  matchedLabel: string;
+};
+
+type SwitchErrorResult = {
+  success: false;
+  error: string;
+};
+
+function evaluateSwitch(input: SwitchInput): SwitchResult | SwitchErrorResult {
+  let cases: ReturnType<typeof parseSwitchCases>;
+  try {
+    cases = parseSwitchCases(input.cases);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const validation = validateSwitchCases(cases);
+  if (!validation.valid) {
+    return { success: false, error: validation.error };
+  }
+
+  const matched = matchSwitchCase(input.switchValue, cases);
+  return {
+    value: input.switchValue ?? null,
+    matchedCase: matched?.id ?? SWITCH_DEFAULT_HANDLE,
+    matchedLabel: matched?.label || matched?.id || SWITCH_DEFAULT_HANDLE,
+  };
+}
+
+// biome-ignore lint/suspicious/useAwait: workflow "use step" requires async
+export async function switchStep(
+  input: SwitchInput
+): Promise<SwitchResult | SwitchErrorResult> {
+  "use step";
+  return withStepLogging(input, () => Promise.resolve(evaluateSwitch(input)));
+}
+switchStep.maxRetries = 0;
@@ -0,0 +1,54 @@
+/**
+ * Step functions that record node and workflow timeouts.
+ *
+ * The executor enforces timeouts by racing work against a durable sleep. When
+ * the sleep wins, the abandoned step never completes its log row, so these
+ * steps mark it (or every running row, for a workflow timeout) with the
+ * "timeout" status.
+ */
+import "server-only";
+
+import type { StepContext } from "@/lib/steps/step-handler";
+import {
+  logStepTimeoutDb,
+  timeoutRunningStepsDb,
+} from "@/lib/workflow-logging";
+
+export type RecordNodeTimeoutInput = {
+  context: StepContext;
+  error: string;
+};
+
+export async function recordNodeTimeoutStep(
+  input: RecordNodeTimeoutInput
+): Promise<void> {
+  "use step";
+  const { context, error } = input;
+  if (!context.executionId) {
+    return;
+  }
+  await logStepTimeoutDb({
+    executionId: context.executionId,
+    nodeId: context.nodeId,
+    nodeName: context.nodeName,
+    nodeType: context.nodeType,
+    error,
+    iterationIndex: context.iterationIndex,
+    forEachNodeId: context.forEachNodeId,
+    attempt: context.attempt,
+  });
+}
+recordNodeTimeoutStep.maxRetries = 0;
+
+export type RecordWorkflowTimeoutInput = {
+  executionId: string;
+  error: string;
+};
+
+export async function recordWorkflowTimeoutStep(
+  input: RecordWorkflowTimeoutInput
+): Promise<void> {
+  "use step";
+  await timeoutRunningStepsDb(input);
+}
+recordWorkflowTimeoutStep.maxRetries = 0;
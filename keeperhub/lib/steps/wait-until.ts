@@ -0,0 +1,97 @@
+/**
+ * Step functions for the Wait Until action.
+ *
+ * The poll loop lives in the executor (it sleeps between reads and re-runs
+ * the read node through the normal step path), so the Wait Until node's own
+ * log row is opened and closed by these two steps around it.
+ */
+import "server-only";
+
+import { recordStepMetrics } from "@/keeperhub/lib/metrics/instrumentation/workflow";
+import type { WaitUntilOutput } from "@/keeperhub/lib/wait-until";
+import type { StepInput } from "@/lib/steps/step-handler";
+import {
+  incrementCompletedSteps,
+  logStepCompleteDb,
+  logStepStartDb,
+  updateCurrentStep,
+} from "@/lib/workflow-logging";
+
+export type StartWaitUntilInput = StepInput & Record<string, unknown>;
+
+export type WaitUntilStarted = {
+  logId: string;
+  startTime: number;
+};
+
+export async function startWaitUntilStep(
+  input: StartWaitUntilInput
+): Promise<WaitUntilStarted> {
+  "use step";
+  const { _context: context, ...config } = input;
+  if (!context?.executionId) {
+    return { logId: "", startTime: Date.now() };
+  }
+
+  await updateCurrentStep({
+    executionId: context.executionId,
+    currentNodeId: context.nodeId,
+    currentNodeName: context.nodeName,
+  });
+  return await logStepStartDb({
+    executionId: context.executionId,
+    nodeId: context.nodeId,
+    nodeName: context.nodeName,
+    nodeType: context.nodeType,
+    input: config,
+    iterationIndex: context.iterationIndex,
+    forEachNodeId: context.forEachNodeId,
+  });
+}
+startWaitUntilStep.maxRetries = 0;
+
+export type CompleteWaitUntilInput = StepInput &
+  WaitUntilStarted &
+  ({ output: WaitUntilOutput; error?: undefined } | { error: string });
+
+export async function completeWaitUntilStep(
+  input: CompleteWaitUntilInput
+): Promise<WaitUntilOutput | { success: false; error: string }> {
+  "use step";
+  const { _context: context, logId, startTime } = input;
+  const result =
+    input.error === undefined
+      ? input.output
+      : { success: false as const, error: input.error };
+
+  if (!(context?.executionId && logId)) {
+    return result;
+  }
+
+  const success = input.error === undefined;
+  await logStepCompleteDb({
+    logId,
+    startTime,
+    status: success ? "success" : "error",
+    output: result,
+    error: input.error,
+  });
+  await incrementCompletedSteps({
+    executionId: context.executionId,
+    nodeId: context.nodeId,
+    nodeName: context.nodeName,
+    success,
+  });
+  recordStepMetrics({
+    executionId: context.executionId,
+    nodeId: context.nodeId,
+    nodeName: context.nodeName,
+    stepType: context.nodeType,
+    durationMs: Date.now() - startTime,
+    success,
+    error: input.error,
+  });
+
+  return result;
+}
+completeWaitUntilStep.maxRetries = 0;
@@ -0,0 +1,32 @@
+/**
+ * Executable step function for While (loop) action.
+ *
+ * This step logs the start of a While loop. The iterations run in the
+ * workflow executor, like For Each, because it checks the condition and
+ * orchestrates the body nodes between iterations.
+ */
+import "server-only";
+
+import { parseWhileMaxIterations } from "@/keeperhub/lib/while-loop";
+import { type StepInput, withStepLogging } from "@/lib/steps/step-handler";
+
+export type WhileInput = StepInput & {
+  maxIterations?: unknown;
+};
+
+type WhileResult = {
+  success: true;
+  maxIterations: number;
+};
+
+// biome-ignore lint/suspicious/useAwait: workflow "use step" requires async
+export async function whileStep(input: WhileInput): Promise<WhileResult> {
+  "use step";
+  return withStepLogging(input, () =>
+    Promise.resolve({
+      success: true as const,
+      maxIterations: parseWhileMaxIterations(input.maxIterations),
+    })
+  );
+}
+whileStep.maxRetries = 0;
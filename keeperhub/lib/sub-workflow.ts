@@ -0,0 +1,78 @@
+/**
+ * Execute Workflow (sub-workflow) helpers.
+ *
+ * An Execute Workflow node runs another workflow of the same organization
+ * inline, waits for it and exposes its final output:
+ *   - subWorkflowId: the workflow to run
+ *   - subWorkflowInput: JSON object passed as the child's trigger input,
+ *     usually built from templates
+ *
+ * The child gets its own workflow_executions row linked to the caller through
+ * parent_execution_id. Every run carries the ids of the workflows above it
+ * (its call stack), so a workflow can never call itself, directly or through
+ * others, and nesting stops at MAX_SUB_WORKFLOW_DEPTH.
+ */
+
+/** Deepest allowed nesting: a top-level run plus this many sub-workflows */
+export const MAX_SUB_WORKFLOW_DEPTH = 5;
+
+export type SubWorkflowOutput = {
+  executionId: string;
+  workflowId: string;
+  /** Output of the child's last step, as stored on its execution */
+  output: unknown;
+};
+
+/**
+ * Check whether a run whose call stack is `callStack` (ancestors first, the
+ * calling workflow last) may start `childWorkflowId`. Returns an error
+ * message, or null when the call is allowed.
+ */
+export function checkSubWorkflowCall(
+  callStack: string[],
+  childWorkflowId: string
+): string | null {
+  if (callStack.includes(childWorkflowId)) {
+    const cycle = [
+      ...callStack.slice(callStack.indexOf(childWorkflowId)),
+      childWorkflowId,
+    ];
+    return `Sub-workflow cycle detected: ${cycle.join(" -> ")}`;
+  }
+  if (callStack.length >= MAX_SUB_WORKFLOW_DEPTH) {
+    return `Sub-workflows cannot be nested more than ${MAX_SUB_WORKFLOW_DEPTH} levels deep`;
+  }
+  return null;
+}
+
+/**
+ * Parse the (template-resolved) input mapping into the child's trigger input.
+ * An empty mapping is an empty object.
+ */
+export function parseSubWorkflowInput(
+  raw: unknown
+): { input: Record<string, unknown> } | { error: string } {
+  if (raw === undefined || raw === null || raw === "") {
+    return { input: {} };
+  }
+  if (typeof raw === "object") {
+    return Array.isArray(raw)
+      ? { error: "Sub-workflow input must be a JSON object" }
+      : { input: raw as Record<string, unknown> };
+  }
+  try {
+    const parsed: unknown = JSON.parse(String(raw));
+    if (
+      parsed === null ||
+      typeof parsed !== "object" ||
+      Array.isArray(parsed)
+    ) {
+      return { error: "Sub-workflow input must be a JSON object" };
+    }
+    return { input: parsed as Record<string, unknown> };
+  } catch (error) {
+    return {
+      error: `Sub-workflow input is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
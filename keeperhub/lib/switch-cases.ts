@@ -0,0 +1,191 @@
+/**
+ * Switch node case helpers.
+ *
+ * A Switch node evaluates one value against an ordered list of cases and
+ * routes execution down the source handle of the first matching case, or the
+ * "default" handle when nothing matches. Each case's handle id is its `id`,
+ * so renaming a case keeps its edges. Edges without a handle are treated as
+ * the default branch.
+ *
+ * NOTE: This module has zero dependencies so it can be safely imported in both
+ * server-side code and "use client" components.
+ */
+
+export const SWITCH_DEFAULT_HANDLE = "default";
+
+export type SwitchCaseType = "equals" | "range" | "regex";
+
+export type SwitchCase = {
+  id: string;
+  label: string;
+  type: SwitchCaseType;
+  /** Compared value for "equals", pattern for "regex" */
+  value?: string;
+  /** Inclusive lower bound for "range" (optional) */
+  min?: string;
+  /** Exclusive upper bound for "range" (optional) */
+  max?: string;
+};
+
+type BranchEdge = {
+  source: string;
+  target: string;
+  sourceHandle?: string | null;
+};
+
+const INTEGER_PATTERN = /^-?\d+$/;
+const SWITCH_CASE_TYPES = new Set<string>(["equals", "range", "regex"]);
+
+/**
+ * Parse the `cases` config value (a JSON string as stored by the editor, or an
+ * already-parsed array). Empty values yield no cases. Throws on malformed
+ * JSON or entries that are not case objects.
+ */
+export function parseSwitchCases(raw: unknown): SwitchCase[] {
+  if (raw === undefined || raw === null || raw === "") {
+    return [];
+  }
+
+  let parsed: unknown = raw;
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new Error("Switch cases must be a JSON array of case objects");
+    }
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error("Switch cases must be a JSON array of case objects");
+  }
+
+  return parsed.map((entry, index) => {
+    if (typeof entry !== "object" || entry === null) {
+      throw new Error(`Switch case #${index + 1} is not an object`);
+    }
+    const item = entry as Record<string, unknown>;
+    const type = String(item.type ?? "equals");
+    if (!SWITCH_CASE_TYPES.has(type)) {
+      throw new Error(
+        `Switch case #${index + 1} has unknown type "${type}". Use equals, range or regex.`
+      );
+    }
+    return {
+      id: String(item.id ?? ""),
+      label: String(item.label ?? ""),
+      type: type as SwitchCaseType,
+      ...(item.value === undefined ? {} : { value: String(item.value) }),
+      ...(item.min === undefined ? {} : { min: String(item.min) }),
+      ...(item.max === undefined ? {} : { max: String(item.max) }),
+    };
+  });
+}
+
+/**
+ * Numeric comparison that keeps full precision for integer strings (wei
+ * amounts exceed Number.MAX_SAFE_INTEGER). Returns null when either side is
+ * not numeric.
+ */
+export function compareNumeric(a: string, b: string): number | null {
+  const left = a.trim();
+  const right = b.trim();
+  if (left === "" || right === "") {
+    return null;
+  }
+
+  if (INTEGER_PATTERN.test(left) && INTEGER_PATTERN.test(right)) {
+    const x = BigInt(left);
+    const y = BigInt(right);
+    if (x === y) {
+      return 0;
+    }
+    return x < y ? -1 : 1;
+  }
+
+  const x = Number(left);
+  const y = Number(right);
+  if (Number.isNaN(x) || Number.isNaN(y)) {
+    return null;
+  }
+  return Math.sign(x - y);
+}
+
+function stringifySwitchValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (typeof value === "object") {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function matchesRange(value: string, switchCase: SwitchCase): boolean {
+  const hasMin = switchCase.min !== undefined && switchCase.min.trim() !== "";
+  const hasMax = switchCase.max !== undefined && switchCase.max.trim() !== "";
+  if (hasMin) {
+    const cmp = compareNumeric(value, switchCase.min as string);
+    if (cmp === null || cmp < 0) {
+      return false;
+    }
+  }
+  if (hasMax) {
+    const cmp = compareNumeric(value, switchCase.max as string);
+    if (cmp === null || cmp >= 0) {
+      return false;
+    }
+  }
+  return hasMin || hasMax;
+}
+
+function matchesCase(value: string, switchCase: SwitchCase): boolean {
+  switch (switchCase.type) {
+    case "equals": {
+      const expected = switchCase.value ?? "";
+      return (
+        value.trim() === expected.trim() ||
+        compareNumeric(value, expected) === 0
+      );
+    }
+    case "range":
+      return matchesRange(value, switchCase);
+    case "regex":
+      return new RegExp(switchCase.value ?? "").test(value);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Return the first case (in order) that matches the value, or undefined when
+ * execution should take the default branch.
+ */
+export function matchSwitchCase(
+  value: unknown,
+  cases: SwitchCase[]
+): SwitchCase | undefined {
+  const stringValue = stringifySwitchValue(value);
+  return cases.find((switchCase) => matchesCase(stringValue, switchCase));
+}
+
+/**
+ * Narrow a list of candidate next nodes to the ones connected to the given
+ * Switch handle. Untagged edges belong to the default branch.
+ */
+export function selectSwitchTargets(
+  nodeId: string,
+  candidates: string[],
+  handleId: string,
+  edges: BranchEdge[]
+): string[] {
+  const taken = new Set(
+    edges
+      .filter(
+        (edge) =>
+          edge.source === nodeId &&
+          (edge.sourceHandle || SWITCH_DEFAULT_HANDLE) === handleId
+      )
+      .map((edge) => edge.target)
+  );
+  return candidates.filter((id) => taken.has(id));
+}
@@ -0,0 +1,355 @@
+/**
+ * Pipe filters for template references.
+ *
+ * A reference can be followed by filters that transform the resolved value
+ * before it is inserted, applied left to right:
+ *   {{@nodeId:Check Balance.balance | formatUnits:18 | toFixed:2}}
+ *
+ * Filter arguments follow a colon and may be quoted: default:"0". A missing
+ * value (unknown node or field) passes through every filter except default,
+ * so `| formatUnits:18 | default:"0"` still falls back to "0".
+ */
+import { formatUnits, getAddress, parseUnits } from "ethers";
+
+export type TemplateFilter = {
+  name: string;
+  /** Unquoted argument, undefined when the filter has none */
+  arg?: string;
+};
+
+type FilterArgument = "none" | "optional" | "required";
+
+export type TemplateFilterDefinition = {
+  name: string;
+  description: string;
+  /** Text inserted by autocomplete */
+  snippet: string;
+  argument: FilterArgument;
+};
+
+export const TEMPLATE_FILTERS: TemplateFilterDefinition[] = [
+  {
+    name: "formatUnits",
+    description: "Integer amount to a decimal, e.g. wei to ETH (default 18)",
+    snippet: "formatUnits:18",
+    argument: "optional",
+  },
+  {
+    name: "parseUnits",
+    description: "Decimal to an integer amount, e.g. 1.5 USDC to 1500000",
+    snippet: "parseUnits:6",
+    argument: "optional",
+  },
+  {
+    name: "checksum",
+    description: "Address in checksum case",
+    snippet: "checksum",
+    argument: "none",
+  },
+  {
+    name: "toFixed",
+    description: "Number rounded to a number of decimals",
+    snippet: "toFixed:2",
+    argument: "optional",
+  },
+  {
+    name: "default",
+    description: "Fallback when the value is missing or empty",
+    snippet: 'default:"0"',
+    argument: "required",
+  },
+  {
+    name: "json",
+    description: "Value as JSON",
+    snippet: "json",
+    argument: "none",
+  },
+  {
+    name: "lower",
+    description: "Text in lower case",
+    snippet: "lower",
+    argument: "none",
+  },
+  {
+    name: "upper",
+    description: "Text in upper case",
+    snippet: "upper",
+    argument: "none",
+  },
+];
+
+const DEFAULT_UNIT_DECIMALS = 18;
+/** uint256 values have at most 78 digits */
+const MAX_UNIT_DECIMALS = 77;
+const MAX_FIXED_DIGITS = 100;
+
+const INTEGER_PATTERN = /^-?\d+$/;
+const HEX_PATTERN = /^0x[0-9a-f]+$/i;
+const TEMPLATE_PATTERN = /^\{\{@([^:]+):([^}]+)\}\}$/;
+const FILTER_TRIGGER_PATTERN = /(\{\{@[^}]+\}\})\|([a-zA-Z]*)$/;
+
+function getDefinition(name: string): TemplateFilterDefinition | undefined {
+  return TEMPLATE_FILTERS.find((filter) => filter.name === name);
+}
+
+function unquote(value: string): string {
+  const quote = value[0];
+  if (
+    value.length >= 2 &&
+    (quote === '"' || quote === "'") &&
+    value.at(-1) === quote
+  ) {
+    return value.slice(1, -1);
+  }
+  return value;
+}
+
+/** Split on "|" outside of quoted arguments */
+function splitPipes(expression: string): string[] {
+  const parts: string[] = [];
+  let current = "";
+  let quote: string | undefined;
+  for (const char of expression) {
+    if (quote) {
+      quote = char === quote ? undefined : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === "|") {
+      parts.push(current);
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseFilter(part: string): TemplateFilter {
+  const trimmed = part.trim();
+  const colonIndex = trimmed.indexOf(":");
+  if (colonIndex === -1) {
+    return { name: trimmed };
+  }
+  return {
+    name: trimmed.slice(0, colonIndex).trim(),
+    arg: unquote(trimmed.slice(colonIndex + 1).trim()),
+  };
+}
+
+/**
+ * Split the inside of a template ("Label.field | formatUnits:18") into the
+ * reference and its filters. Without a pipe the reference is unchanged.
+ */
+export function splitTemplateFilters(expression: string): {
+  reference: string;
+  filters: TemplateFilter[];
+} {
+  const [reference, ...parts] = splitPipes(expression);
+  if (parts.length === 0) {
+    return { reference: expression, filters: [] };
+  }
+  return { reference: reference.trim(), filters: parts.map(parseFilter) };
+}
+
+function getIntegerArgError(
+  filter: TemplateFilter,
+  max: number
+): string | undefined {
+  if (filter.arg === undefined) {
+    return;
+  }
+  const value = Number(filter.arg);
+  if (!(INTEGER_PATTERN.test(filter.arg) && value >= 0 && value <= max)) {
+    return `Filter "${filter.name}" expects a whole number from 0 to ${max}, got "${filter.arg}"`;
+  }
+}
+
+function getFilterError(filter: TemplateFilter): string | undefined {
+  if (!filter.name) {
+    return "Empty template filter after |";
+  }
+  const definition = getDefinition(filter.name);
+  if (!definition) {
+    return `Unknown template filter "${filter.name}"`;
+  }
+  if (definition.argument === "none" && filter.arg !== undefined) {
+    return `Filter "${filter.name}" does not take an argument`;
+  }
+  if (definition.argument === "required" && filter.arg === undefined) {
+    return `Filter "${filter.name}" needs an argument, e.g. ${definition.snippet}`;
+  }
+  if (filter.name === "formatUnits" || filter.name === "parseUnits") {
+    return getIntegerArgError(filter, MAX_UNIT_DECIMALS);
+  }
+  if (filter.name === "toFixed") {
+    return getIntegerArgError(filter, MAX_FIXED_DIGITS);
+  }
+}
+
+/** First problem with a list of filters, if any */
+export function getTemplateFiltersError(
+  filters: TemplateFilter[]
+): string | undefined {
+  for (const filter of filters) {
+    const error = getFilterError(filter);
+    if (error) {
+      return error;
+    }
+  }
+}
+
+/**
+ * First problem with the filters of a stored template
+ * ({{@nodeId:Label.field | filter}}), for the badge inputs.
+ */
+export function getTemplateFilterError(template: string): string | undefined {
+  const match = template.match(TEMPLATE_PATTERN);
+  if (!match) {
+    return;
+  }
+  return getTemplateFiltersError(splitTemplateFilters(match[2]).filters);
+}
+
+function describeValue(value: unknown): string {
+  return typeof value === "string" ? `"${value}"` : JSON.stringify(value);
+}
+
+function toBigInt(value: unknown, filterName: string): bigint {
+  if (typeof value === "bigint") {
+    return value;
+  }
+  if (typeof value === "number" && Number.isSafeInteger(value)) {
+    return BigInt(value);
+  }
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    if (INTEGER_PATTERN.test(trimmed) || HEX_PATTERN.test(trimmed)) {
+      return BigInt(trimmed);
+    }
+  }
+  throw new Error(
+    `Filter "${filterName}" expects an integer amount, got ${describeValue(value)}`
+  );
+}
+
+function getDecimals(filter: TemplateFilter): number {
+  return filter.arg === undefined ? DEFAULT_UNIT_DECIMALS : Number(filter.arg);
+}
+
+function applyParseUnits(value: unknown, filter: TemplateFilter): string {
+  const text = String(value).trim();
+  try {
+    return parseUnits(text, getDecimals(filter)).toString();
+  } catch {
+    throw new Error(
+      `Filter "parseUnits" expects a decimal amount with at most ${getDecimals(filter)} decimals, got ${describeValue(value)}`
+    );
+  }
+}
+
+function applyChecksum(value: unknown): string {
+  try {
+    return getAddress(String(value).trim());
+  } catch {
+    throw new Error(
+      `Filter "checksum" expects an address, got ${describeValue(value)}`
+    );
+  }
+}
+
+function applyToFixed(value: unknown, filter: TemplateFilter): string {
+  const number = Number(value);
+  if (value === "" || typeof value === "boolean" || !Number.isFinite(number)) {
+    throw new Error(
+      `Filter "toFixed" expects a number, got ${describeValue(value)}`
+    );
+  }
+  return number.toFixed(filter.arg === undefined ? 0 : Number(filter.arg));
+}
+
+function changeCase(value: unknown, upper: boolean): unknown {
+  if (typeof value !== "string") {
+    return value;
+  }
+  return upper ? value.toUpperCase() : value.toLowerCase();
+}
+
+function applyFilter(value: unknown, filter: TemplateFilter): unknown {
+  if (filter.name === "default") {
+    return value === null || value === undefined || value === ""
+      ? filter.arg
+      : value;
+  }
+  if (value === null || value === undefined) {
+    return value;
+  }
+  switch (filter.name) {
+    case "formatUnits":
+      return formatUnits(toBigInt(value, filter.name), getDecimals(filter));
+    case "parseUnits":
+      return applyParseUnits(value, filter);
+    case "checksum":
+      return applyChecksum(value);
+    case "toFixed":
+      return applyToFixed(value, filter);
+    case "json":
+      return JSON.stringify(value, (_key, item) =>
+        typeof item === "bigint" ? item.toString() : item
+      );
+    case "lower":
+      return changeCase(value, false);
+    case "upper":
+      return changeCase(value, true);
+    default:
+      return value;
+  }
+}
+
+/** Whether a default filter makes a missing value fall back instead of failing */
+export function hasDefaultFilter(filters: TemplateFilter[]): boolean {
+  return filters.some((filter) => filter.name === "default");
+}
+
+/**
+ * Run a resolved value through a template's filters. Throws with a message
+ * naming the filter when a filter is invalid or cannot convert the value.
+ */
+export function applyTemplateFilters(
+  value: unknown,
+  filters: TemplateFilter[]
+): unknown {
+  const error = getTemplateFiltersError(filters);
+  if (error) {
+    throw new Error(error);
+  }
+  let current = value;
+  for (const filter of filters) {
+    current = applyFilter(current, filter);
+  }
+  return current;
+}
+
+/** Add a filter to the end of a stored template */
+export function appendTemplateFilter(
+  template: string,
+  snippet: string
+): string {
+  return `${template.slice(0, -2).trimEnd()} | ${snippet}}}`;
+}
+
+/**
+ * When the text before the cursor is a template directly followed by "|"
+ * (and possibly the start of a filter name), return where that template is
+ * and what was typed after the pipe, so a filter menu can be shown.
+ */
+export function findTemplateFilterTrigger(
+  text: string,
+  cursorOffset: number
+): { templateStart: number; template: string; query: string } | undefined {
+  const match = text.slice(0, cursorOffset).match(FILTER_TRIGGER_PATTERN);
+  if (!match || match.index === undefined) {
+    return;
+  }
+  return { templateStart: match.index, template: match[1], query: match[2] };
+}
@@ -1,4 +1,8 @@
 import { getReadContractOutputFields } from "@/keeperhub/lib/action-output-fields";
+import {
+  type SchemaField,
+  schemaToFields,
+} from "@/keeperhub/lib/payload-schema";
 import { getTriggerOutputFields } from "@/keeperhub/lib/trigger-output-fields";
 import type { ExecutionLogEntry, WorkflowNode } from "@/lib/workflow-store";
 import { WorkflowTriggerEnum } from "@/lib/workflow-store";
@@ -10,16 +14,12 @@ import { findActionById } from "@/plugins";
 
 export type ExecutionLogsByNodeId = Record<string, ExecutionLogEntry>;
 
-export type SchemaField = {
-  name: string;
-  type: "string" | "number" | "boolean" | "array" | "object";
-  itemType?: "string" | "number" | "boolean" | "object";
-  fields?: SchemaField[];
-  description?: string;
+export type FieldEntry = {
+  field: string;
+  description: string;
+  type?: SchemaField["type"];
 };
 
-export type FieldEntry = { field: string; description: string };
-
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -29,7 +29,7 @@ export function buildExecutionLogsMap(
     nodeId: string;
     nodeName: string;
     nodeType: string;
-    status: "pending" | "running" | "success" | "error";
+    status: "pending" | "running" | "success" | "error" | "timeout";
     output?: unknown;
   }>
 ): ExecutionLogsByNodeId {
@@ -98,30 +98,6 @@ export function findDuplicateTemplateLabels(
   return [...warnings];
 }
 
-export function schemaToFields(
-  schema: SchemaField[],
-  prefix = ""
-): FieldEntry[] {
-  const fields: FieldEntry[] = [];
-  for (const f of schema) {
-    const fieldPath = prefix ? `${prefix}.${f.name}` : f.name;
-    const typeLabel = f.type === "array" ? `${f.itemType}[]` : f.type;
-    fields.push({ field: fieldPath, description: f.description || typeLabel });
-    if (f.type === "object" && f.fields && f.fields.length > 0) {
-      fields.push(...schemaToFields(f.fields, fieldPath));
-    }
-    if (
-      f.type === "array" &&
-      f.itemType === "object" &&
-      f.fields &&
-      f.fields.length > 0
-    ) {
-      fields.push(...schemaToFields(f.fields, `${fieldPath}[0]`));
-    }
-  }
-  return fields;
-}
-
 export function isActionType(
   actionType: string | undefined,
   ...matches: string[]
@@ -208,7 +184,6 @@ export function getActionFields(node: WorkflowNode): FieldEntry[] | null {
 
 export function getTriggerFields(node: WorkflowNode): FieldEntry[] {
   const triggerType = node.data.config?.triggerType as string | undefined;
-  const webhookSchema = node.data.config?.webhookSchema as string | undefined;
   const config = node.data.config || {};
 
   if (triggerType === WorkflowTriggerEnum.EVENT) {
@@ -218,13 +193,6 @@ export function getTriggerFields(node: WorkflowNode): FieldEntry[] {
     }
   }
 
-  if (triggerType === "Webhook") {
-    const parsed = tryParseSchemaFields(webhookSchema);
-    if (parsed) {
-      return parsed;
-    }
-  }
-
   if (triggerType) {
     const fields = getTriggerOutputFields(triggerType, config);
     if (fields.length > 0) {
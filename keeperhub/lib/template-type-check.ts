@@ -0,0 +1,556 @@
+/**
+ * Save-time checks for template references ({{@nodeId:Label.field}}).
+ *
+ * Each reference is checked against what the referenced node is known to
+ * output: the plugin action's outputFields, Read Contract's ABI outputs, the
+ * Database Query dbSchema, the system actions' fixed outputs, and the Block
+ * and Event trigger fields from trigger-output-fields.ts. Reported problems:
+ *   - unknown-field: the node does not output the field
+ *   - not-upstream: the node does not run before the step using it
+ *   - not-array: an index ([0]) is taken on a value that is not an array
+ *   - type-mismatch: a condition compares a number with a string
+ *
+ * Without these checks the same mistakes only surface as runtime errors
+ * from replaceTemplateVariable. Nodes whose output is not known ahead of
+ * time (HTTP responses, webhook and manual input, Condition) are only
+ * checked for order.
+ */
+import {
+  getReadContractOutputFields,
+  getSystemActionOutputFields,
+} from "@/keeperhub/lib/action-output-fields";
+import { BUILTIN_NODE_ID } from "@/keeperhub/lib/builtin-variables";
+import { ERROR_OUTPUT_FIELDS } from "@/keeperhub/lib/error-handler-edges";
+import { splitTemplateFilters } from "@/keeperhub/lib/template-filters";
+import {
+  isActionType,
+  tryParseSchemaFields,
+} from "@/keeperhub/lib/template-helpers";
+import { getTriggerOutputFields } from "@/keeperhub/lib/trigger-output-fields";
+import { isLoopAction } from "@/keeperhub/lib/while-loop";
+import { VARIABLES_NODE_ID } from "@/keeperhub/lib/workflow-variables";
+import type { WorkflowNode } from "@/lib/workflow-store";
+import { findActionById } from "@/plugins";
+import type { OutputField, OutputFieldType } from "@/plugins/registry";
+
+export type TemplateReferenceIssueKind =
+  | "unknown-field"
+  | "not-upstream"
+  | "not-array"
+  | "type-mismatch";
+
+export type TemplateReferenceIssue = {
+  kind: TemplateReferenceIssueKind;
+  /** Node whose config holds the reference */
+  nodeId: string;
+  /** Config key holding the reference, dotted for nested config */
+  fieldKey: string;
+  /** The reference after the node id, e.g. "Check Balance.balance" */
+  displayText: string;
+  referencedNodeId: string;
+  message: string;
+};
+
+type CheckedNode = Pick<WorkflowNode, "id" | "data">;
+type CheckedEdge = { source: string; target: string };
+
+type TemplateReference = {
+  fieldKey: string;
+  nodeId: string;
+  displayText: string;
+};
+
+/** Known shape of an output value. A value without fields accepts any path */
+type FieldShape = {
+  type?: OutputFieldType;
+  fields?: Map<string, FieldShape>;
+  item?: FieldShape;
+};
+
+const TEMPLATE_PATTERN = /\{\{@([^:]+):([^}]+)\}\}/g;
+const ARRAY_ACCESS_PATTERN = /^([^[]+)\[(\d+)\]$/;
+const SCALAR_TYPES = new Set<OutputFieldType>(["string", "number", "boolean"]);
+const COMPARISON_OPERAND = String.raw`__ref\d+__|"[^"]*"|'[^']*'|-?\d+(?:\.\d+)?`;
+const COMPARISON_PATTERN = new RegExp(
+  `(${COMPARISON_OPERAND})\\s*(===|!==|==|!=|>=|<=|>|<)\\s*(${COMPARISON_OPERAND})`,
+  "g"
+);
+const PLACEHOLDER_PATTERN = /^__ref(\d+)__$/;
+const NUMERIC_PATTERN = /^\s*-?\d+(\.\d+)?\s*$/;
+
+/** Trigger types whose output is fully described by trigger-output-fields */
+const CHECKED_TRIGGER_TYPES = new Set(["Block", "Event"]);
+
+const TRIGGER_STATUS_FIELDS: OutputField[] = [
+  { field: "triggered", description: "Trigger status", type: "boolean" },
+  { field: "timestamp", description: "Trigger timestamp", type: "number" },
+];
+
+/** Fields every action result can have, including its failure output */
+const STEP_RESULT_FIELDS: OutputField[] = [
+  { field: "success", description: "Whether the step succeeded" },
+  ...ERROR_OUTPUT_FIELDS,
+];
+
+const DATABASE_QUERY_FIELDS: OutputField[] = [
+  { field: "rows", description: "Query result rows", type: "array" },
+  { field: "count", description: "Number of rows", type: "number" },
+];
+
+/** Actions whose condition is evaluated with replaceTemplateVariable */
+const CONDITION_ACTION_TYPES = new Set(["Condition", "Wait Until", "While"]);
+
+function extractReferences(
+  config: Record<string, unknown>,
+  prefix = ""
+): TemplateReference[] {
+  const references: TemplateReference[] = [];
+  for (const [key, value] of Object.entries(config)) {
+    const fieldKey = prefix ? `${prefix}.${key}` : key;
+    if (typeof value === "string") {
+      for (const match of value.matchAll(TEMPLATE_PATTERN)) {
+        references.push({ fieldKey, nodeId: match[1], displayText: match[2] });
+      }
+    } else if (value && typeof value === "object" && !Array.isArray(value)) {
+      references.push(
+        ...extractReferences(value as Record<string, unknown>, fieldKey)
+      );
+    }
+  }
+  return references;
+}
+
+function getActionOutputFields(
+  actionType: string,
+  config: Record<string, unknown>
+): OutputField[] | undefined {
+  if (actionType === "Database Query") {
+    const schemaFields =
+      tryParseSchemaFields(config.dbSchema as string | undefined) ?? [];
+    return [...schemaFields, ...DATABASE_QUERY_FIELDS];
+  }
+  if (isActionType(actionType, "Read Contract", "web3/read-contract")) {
+    return getReadContractOutputFields(
+      config.abi as string | undefined,
+      config.abiFunction as string | undefined
+    );
+  }
+  const systemFields = getSystemActionOutputFields(actionType);
+  if (systemFields) {
+    return systemFields;
+  }
+  const outputFields = findActionById(actionType)?.outputFields;
+  return outputFields && outputFields.length > 0 ? outputFields : undefined;
+}
+
+/** Output fields of a node, or undefined when its output is not known */
+function getKnownOutputFields(node: CheckedNode): OutputField[] | undefined {
+  const config = node.data.config ?? {};
+  if (node.data.type === "trigger") {
+    const triggerType = config.triggerType as string | undefined;
+    if (!(triggerType && CHECKED_TRIGGER_TYPES.has(triggerType))) {
+      return;
+    }
+    return [
+      ...getTriggerOutputFields(triggerType, config),
+      ...TRIGGER_STATUS_FIELDS,
+    ];
+  }
+  const actionType = config.actionType as string | undefined;
+  // Loops output their loop variables inside the loop and a summary after
+  if (!actionType || isLoopAction(actionType)) {
+    return;
+  }
+  const fields = getActionOutputFields(actionType, config);
+  return fields && [...fields, ...STEP_RESULT_FIELDS];
+}
+
+function addField(root: FieldShape, path: string, type?: OutputFieldType) {
+  let current = root;
+  for (const segment of path.split(".")) {
+    const arrayMatch = segment.match(ARRAY_ACCESS_PATTERN);
+    const key = arrayMatch ? arrayMatch[1] : segment;
+    current.fields ??= new Map();
+    let next = current.fields.get(key);
+    if (!next) {
+      next = {};
+      current.fields.set(key, next);
+    }
+    if (arrayMatch) {
+      next.type = "array";
+      next.item ??= {};
+      next = next.item;
+    }
+    current = next;
+  }
+  current.type ??= type;
+}
+
+function buildShape(node: CheckedNode): FieldShape | undefined {
+  const fields = getKnownOutputFields(node);
+  if (!fields) {
+    return;
+  }
+  const root: FieldShape = { type: "object" };
+  for (const field of fields) {
+    addField(root, field.field, field.type);
+  }
+  if (node.data.type === "trigger" && root.fields && !root.fields.has("data")) {
+    // Trigger fields are also reachable under data (e.g. data.triggeredAt)
+    root.fields.set("data", root);
+  }
+  return root;
+}
+
+type PathCheck =
+  | { type?: OutputFieldType }
+  | { kind: "unknown-field" | "not-array"; message: string };
+
+function describeUnknownField(
+  shape: FieldShape,
+  path: string,
+  key: string
+): string {
+  const target = path ? `"${path}"` : "the output";
+  const available = [...(shape.fields?.keys() ?? [])].filter(
+    (name) => name !== "data" || shape.fields?.get(name) !== shape
+  );
+  return `${target} has no field "${key}". Available fields: ${available.join(", ")}`;
+}
+
+function describeType(shape: FieldShape): string {
+  return shape.fields || shape.type === "object"
+    ? "an object"
+    : `a ${shape.type}`;
+}
+
+/** Step into the item of an array value for a key[index] segment */
+function readIndex(
+  shape: FieldShape,
+  path: string,
+  index: string
+): { item: FieldShape } | PathCheck {
+  if (shape.type === "array") {
+    return { item: shape.item ?? {} };
+  }
+  if (!(shape.type || shape.fields)) {
+    return {};
+  }
+  return {
+    kind: "not-array",
+    message: `"${path}" is ${describeType(shape)}, not an array, so [${index}] cannot be read`,
+  };
+}
+
+/** Step into a field of a value with known fields */
+function readField(
+  shape: FieldShape,
+  path: string,
+  key: string
+): { field: FieldShape } | PathCheck {
+  if (!shape.fields) {
+    return shape.type && SCALAR_TYPES.has(shape.type)
+      ? {
+          kind: "unknown-field",
+          message: `"${path}" is a ${shape.type} and has no field "${key}"`,
+        }
+      : {};
+  }
+  const field = shape.fields.get(key);
+  if (!field) {
+    return {
+      kind: "unknown-field",
+      message: describeUnknownField(shape, path, key),
+    };
+  }
+  return { field };
+}
+
+/** Walk a field path through a node's known output */
+function checkFieldPath(root: FieldShape, fieldPath: string): PathCheck {
+  let current = root;
+  let path = "";
+  for (const part of fieldPath.split(".")) {
+    const segment = part.trim();
+    if (!segment) {
+      continue;
+    }
+    const arrayMatch = segment.match(ARRAY_ACCESS_PATTERN);
+    const key = arrayMatch ? arrayMatch[1] : segment;
+    const read = readField(current, path, key);
+    if (!("field" in read)) {
+      return read;
+    }
+    path = path ? `${path}.${key}` : key;
+    current = read.field;
+    if (arrayMatch) {
+      const indexed = readIndex(current, path, arrayMatch[2]);
+      if (!("item" in indexed)) {
+        return indexed;
+      }
+      path = `${path}[${arrayMatch[2]}]`;
+      current = indexed.item;
+    }
+  }
+  return { type: current.type };
+}
+
+/** Every node with a path of edges to nodeId */
+function getUpstreamNodeIds(nodeId: string, edges: CheckedEdge[]): Set<string> {
+  const upstream = new Set<string>();
+  const queue = [nodeId];
+  while (queue.length > 0) {
+    const target = queue.shift();
+    for (const edge of edges) {
+      if (edge.target === target && !upstream.has(edge.source)) {
+        upstream.add(edge.source);
+        queue.push(edge.source);
+      }
+    }
+  }
+  return upstream;
+}
+
+/**
+ * Nodes a While node's own config can reference: itself (its state and
+ * iteration) and everything after it, since the loop body runs before the
+ * next state is resolved
+ */
+function getWhileScopeNodeIds(
+  nodeId: string,
+  edges: CheckedEdge[]
+): Set<string> {
+  const scope = new Set<string>([nodeId]);
+  const queue = [nodeId];
+  while (queue.length > 0) {
+    const source = queue.shift();
+    for (const edge of edges) {
+      if (edge.source === source && !scope.has(edge.target)) {
+        scope.add(edge.target);
+        queue.push(edge.target);
+      }
+    }
+  }
+  return scope;
+}
+
+type ReferenceContext = {
+  nodesById: Map<string, CheckedNode>;
+  shapes: Map<string, FieldShape | undefined>;
+};
+
+function getShape(
+  nodeId: string,
+  context: ReferenceContext
+): FieldShape | undefined {
+  if (!context.shapes.has(nodeId)) {
+    const node = context.nodesById.get(nodeId);
+    context.shapes.set(nodeId, node && buildShape(node));
+  }
+  return context.shapes.get(nodeId);
+}
+
+/** Type of a reference's value after its filters, when known */
+function getReferenceType(
+  reference: TemplateReference,
+  context: ReferenceContext
+): OutputFieldType | undefined {
+  const shape = getShape(reference.nodeId, context);
+  const { reference: target, filters } = splitTemplateFilters(
+    reference.displayText
+  );
+  if (filters.length > 0) {
+    // Every filter but default turns the value into text
+    return filters.at(-1)?.name === "default" ? undefined : "string";
+  }
+  if (!shape) {
+    return;
+  }
+  const dotIndex = target.indexOf(".");
+  const check = checkFieldPath(
+    shape,
+    dotIndex === -1 ? "" : target.slice(dotIndex + 1)
+  );
+  return "type" in check ? check.type : undefined;
+}
+
+function checkReference(
+  node: CheckedNode,
+  reference: TemplateReference,
+  upstream: Set<string>,
+  context: ReferenceContext
+): TemplateReferenceIssue | undefined {
+  const issue = {
+    nodeId: node.id,
+    fieldKey: reference.fieldKey,
+    displayText: reference.displayText,
+    referencedNodeId: reference.nodeId,
+  };
+  const { reference: target } = splitTemplateFilters(reference.displayText);
+  const label = target.split(".")[0].trim();
+  if (!upstream.has(reference.nodeId)) {
+    return {
+      ...issue,
+      kind: "not-upstream",
+      message: `"${label}" does not run before this step, so its output is not available`,
+    };
+  }
+  const shape = getShape(reference.nodeId, context);
+  const dotIndex = target.indexOf(".");
+  if (!shape || dotIndex === -1) {
+    return;
+  }
+  const check = checkFieldPath(shape, target.slice(dotIndex + 1));
+  if ("kind" in check) {
+    return {
+      ...issue,
+      kind: check.kind,
+      message: `${label}: ${check.message}`,
+    };
+  }
+}
+
+type Operand = {
+  text: string;
+  type?: OutputFieldType;
+  /** Set when the operand is a template reference rather than a literal */
+  reference?: TemplateReference;
+};
+
+function toOperand(
+  token: string,
+  references: TemplateReference[],
+  context: ReferenceContext
+): Operand {
+  const refMatch = token.match(PLACEHOLDER_PATTERN);
+  if (refMatch) {
+    const reference = references[Number(refMatch[1])];
+    return {
+      text: `{{${reference.displayText}}}`,
+      type: getReferenceType(reference, context),
+      reference,
+    };
+  }
+  const quote = token[0];
+  return {
+    text: token,
+    type: quote === '"' || quote === "'" ? "string" : "number",
+  };
+}
+
+/**
+ * Why comparing these operands does not work, or undefined when it does (or
+ * a type is not known). Strict comparisons of a number and a string are
+ * never equal; loose ones convert the string, which only works for numeric
+ * text.
+ */
+function getMismatch(
+  left: Operand,
+  right: Operand,
+  operator: string
+): string | undefined {
+  const number = left.type === "number" ? left : right;
+  const text = left.type === "string" ? left : right;
+  if (!(number.type === "number" && text.type === "string")) {
+    return;
+  }
+  const prefix = `${number.text} is a number and ${text.text} is a string`;
+  if (operator === "===" || operator === "!==") {
+    return `${prefix}, so ${operator} is always ${operator === "!=="}`;
+  }
+  if (!(text.reference || NUMERIC_PATTERN.test(text.text.slice(1, -1)))) {
+    return `${prefix} that is not a number, so ${operator} is always ${operator === "!="}`;
+  }
+}
+
+/** Number-vs-string comparisons in a Condition or Wait Until expression */
+function checkCondition(
+  node: CheckedNode,
+  expression: string,
+  context: ReferenceContext
+): TemplateReferenceIssue[] {
+  const references: TemplateReference[] = [];
+  const withPlaceholders = expression.replace(
+    TEMPLATE_PATTERN,
+    (_match, nodeId: string, displayText: string) => {
+      references.push({ fieldKey: "condition", nodeId, displayText });
+      return `__ref${references.length - 1}__`;
+    }
+  );
+  const issues: TemplateReferenceIssue[] = [];
+  for (const match of withPlaceholders.matchAll(COMPARISON_PATTERN)) {
+    const [, leftToken, operator, rightToken] = match;
+    const left = toOperand(leftToken, references, context);
+    const right = toOperand(rightToken, references, context);
+    const mismatch = getMismatch(left, right, operator);
+    const reference = left.reference ?? right.reference;
+    if (mismatch && reference) {
+      issues.push({
+        kind: "type-mismatch",
+        nodeId: node.id,
+        fieldKey: "condition",
+        displayText: reference.displayText,
+        referencedNodeId: reference.nodeId,
+        message: mismatch,
+      });
+    }
+  }
+  return issues;
+}
+
+function checkNode(
+  node: CheckedNode,
+  edges: CheckedEdge[],
+  context: ReferenceContext
+): TemplateReferenceIssue[] {
+  const config = node.data.config;
+  if (node.data.enabled === false || !config) {
+    return [];
+  }
+  const upstream = getUpstreamNodeIds(node.id, edges);
+  const actionType = config.actionType as string | undefined;
+  if (actionType === "While") {
+    for (const id of getWhileScopeNodeIds(node.id, edges)) {
+      upstream.add(id);
+    }
+  }
+  const issues: TemplateReferenceIssue[] = [];
+  for (const reference of extractReferences(config)) {
+    // Built-in values, workflow variables and deleted nodes are not checked
+    // here; the last are reported as broken references
+    if (
+      reference.nodeId === BUILTIN_NODE_ID ||
+      reference.nodeId === VARIABLES_NODE_ID ||
+      !context.nodesById.has(reference.nodeId)
+    ) {
+      continue;
+    }
+    const issue = checkReference(node, reference, upstream, context);
+    if (issue) {
+      issues.push(issue);
+    }
+  }
+  if (
+    actionType &&
+    CONDITION_ACTION_TYPES.has(actionType) &&
+    typeof config.condition === "string"
+  ) {
+    issues.push(...checkCondition(node, config.condition, context));
+  }
+  return issues;
+}
+
+/**
+ * Check every template reference in the workflow's node configs against the
+ * graph and the referenced nodes' known outputs.
+ */
+export function checkTemplateReferences(
+  nodes: CheckedNode[],
+  edges: CheckedEdge[]
+): TemplateReferenceIssue[] {
+  const context: ReferenceContext = {
+    nodesById: new Map(nodes.map((node) => [node.id, node])),
+    shapes: new Map(),
+  };
+  return nodes.flatMap((node) => checkNode(node, edges, context));
+}
@@ -1,5 +1,6 @@
 import { findActionById } from "@/plugins";
 import { BUILTIN_NODE_ID } from "./builtin-variables";
+import { VARIABLES_NODE_ID } from "./workflow-variables";
 
 const TEMPLATE_REF_PATTERN = /\{\{@([^:]+):([^}]+)\}\}/;
 
@@ -16,7 +17,7 @@ export type TemplateNode = {
 /**
  * Checks whether a template reference like {{@nodeId:Label.field}}
  * points to a node that exists in the workflow (or is the built-in
- * __system pseudo-node).
+ * __system or __vars pseudo-node).
  */
 export function doesNodeExist(
   template: string,
@@ -28,7 +29,7 @@ export function doesNodeExist(
   }
 
   const nodeId = match[1];
-  if (nodeId === BUILTIN_NODE_ID) {
+  if (nodeId === BUILTIN_NODE_ID || nodeId === VARIABLES_NODE_ID) {
     return true;
   }
   return nodes.some((n) => n.id === nodeId);
@@ -36,7 +37,8 @@ export function doesNodeExist(
 
 /**
  * Gets display text for a template badge by looking up the current node label.
- * Resolves {{@nodeId:OldLabel.field}} to "CurrentLabel.field".
+ * Resolves {{@nodeId:OldLabel.field}} to "CurrentLabel.field". Pipe filters
+ * are kept: "CurrentLabel.field | formatUnits:18".
  */
 export function getDisplayTextForTemplate(
   template: string,
@@ -49,6 +51,11 @@ export function getDisplayTextForTemplate(
 
   const nodeId = match[1];
   const rest = match[2];
+  const pipeIndex = rest.indexOf("|");
+  const filters =
+    pipeIndex === -1 ? "" : ` ${rest.substring(pipeIndex).trim()}`;
+  const reference =
+    pipeIndex === -1 ? rest : rest.substring(0, pipeIndex).trim();
 
   const node = nodes.find((n) => n.id === nodeId);
   if (!node) {
@@ -64,17 +71,17 @@ export function getDisplayTextForTemplate(
     }
   }
 
-  const dotIndex = rest.indexOf(".");
+  const dotIndex = reference.indexOf(".");
 
   if (dotIndex === -1) {
-    return displayLabel ?? rest;
+    return displayLabel ? `${displayLabel}${filters}` : rest;
   }
 
-  const field = rest.substring(dotIndex + 1);
+  const field = reference.substring(dotIndex + 1);
 
   if (!displayLabel) {
     return rest;
   }
 
-  return `${displayLabel}.${field}`;
+  return `${displayLabel}.${field}${filters}`;
 }
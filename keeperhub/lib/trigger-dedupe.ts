@@ -0,0 +1,105 @@
+/**
+ * Trigger De-duplication
+ * A trigger can carry a de-duplication key identifying what fired it. An
+ * execution whose key was already seen for the same workflow within the
+ * de-duplication window is not created again:
+ *   - Webhook: the Idempotency-Key header (or the header set on the trigger)
+ *   - Manual / API: the Idempotency-Key header
+ *   - Event: transactionHash:logIndex of the log, unless the worker sends a key
+ *   - Block: the block number
+ *   - Schedule: the schedule's trigger time
+ *
+ * The window is the trigger's `dedupeWindowSeconds` setting, 24 hours when
+ * empty; 0 turns de-duplication off for the workflow.
+ */
+
+export const IDEMPOTENCY_KEY_HEADER = "Idempotency-Key";
+
+export const DEFAULT_DEDUPE_WINDOW_SECONDS = 24 * 60 * 60;
+
+export const MAX_DEDUPE_WINDOW_SECONDS = 30 * 24 * 60 * 60;
+
+/** Longer keys are rejected rather than truncated, so they never collide */
+export const MAX_DEDUPE_KEY_LENGTH = 255;
+
+export const DUPLICATE_TRIGGER_ERROR =
+  "Duplicate trigger: an execution with this de-duplication key already exists";
+
+export function formatInvalidDedupeKeyError(header: string): string {
+  return `${header} must be between 1 and ${MAX_DEDUPE_KEY_LENGTH} characters`;
+}
+
+/**
+ * The de-duplication window configured on the trigger, in seconds. Returns 0
+ * when de-duplication is turned off.
+ */
+export function getDedupeWindowSeconds(
+  config: Record<string, unknown> | undefined
+): number {
+  const raw = config?.dedupeWindowSeconds;
+  if (raw === undefined || raw === null || raw === "") {
+    return DEFAULT_DEDUPE_WINDOW_SECONDS;
+  }
+  const seconds = Number(raw);
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    return DEFAULT_DEDUPE_WINDOW_SECONDS;
+  }
+  return Math.min(Math.floor(seconds), MAX_DEDUPE_WINDOW_SECONDS);
+}
+
+/** Header a webhook trigger reads its key from */
+export function getDedupeHeader(
+  config: Record<string, unknown> | undefined
+): string {
+  const header = config?.dedupeHeader;
+  return typeof header === "string" && header.trim() !== ""
+    ? header.trim()
+    : IDEMPOTENCY_KEY_HEADER;
+}
+
+/** A usable key, or undefined for missing, empty or over-long values */
+export function normalizeDedupeKey(value: unknown): string | undefined {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return;
+  }
+  const key = String(value).trim();
+  if (key === "" || key.length > MAX_DEDUPE_KEY_LENGTH) {
+    return;
+  }
+  return key;
+}
+
+/** Event log fields arrive either as plain values or serialized as { value } */
+function readLogField(input: Record<string, unknown>, key: string): unknown {
+  const value = input[key];
+  if (typeof value === "object" && value !== null && "value" in value) {
+    return (value as { value: unknown }).value;
+  }
+  return value;
+}
+
+/**
+ * The key that identifies what fired an event, block or schedule trigger,
+ * derived from the trigger input. Undefined when the input lacks the fields.
+ */
+export function getTriggerDedupeKey(
+  triggerType: string | undefined,
+  input: Record<string, unknown>
+): string | undefined {
+  if (triggerType === "Event") {
+    const transactionHash = normalizeDedupeKey(
+      readLogField(input, "transactionHash")
+    );
+    const logIndex = normalizeDedupeKey(readLogField(input, "logIndex"));
+    return transactionHash && logIndex
+      ? `${transactionHash}:${logIndex}`
+      : undefined;
+  }
+  if (triggerType === "Block") {
+    return normalizeDedupeKey(readLogField(input, "blockNumber"));
+  }
+  if (triggerType === "Schedule") {
+    return normalizeDedupeKey(input.triggerTime);
+  }
+  return;
+}
@@ -3,6 +3,12 @@
  * Defines output fields for different trigger types to enable template autocomplete
  */
 
+import { getSolidityValueType } from "@/keeperhub/lib/action-output-fields";
+import { getEventNames } from "@/keeperhub/lib/event-filters";
+import {
+  getWebhookPayloadSchema,
+  schemaToFields,
+} from "@/keeperhub/lib/payload-schema";
 import type { OutputField } from "@/plugins/registry";
 
 /** Common field available on every trigger type */
@@ -11,8 +17,54 @@ const TRIGGERED_AT_FIELD: OutputField = {
   description: "ISO timestamp when the workflow was triggered",
 };
 
+/** Fields of every webhook request, alongside the body's own fields */
+const WEBHOOK_REQUEST_FIELDS: OutputField[] = [
+  {
+    field: "body",
+    description: "Webhook request body (query parameters for GET requests)",
+  },
+  {
+    field: "query",
+    description: "Query parameters; repeated parameters are arrays",
+  },
+  {
+    field: "headers",
+    description: "Request headers, lowercase, without credentials",
+  },
+  {
+    field: "method",
+    description: "HTTP method (GET, POST or PUT)",
+  },
+];
+
+/** Value type of a deserialized event argument; arrays are left as is */
+function getEventArgType(solidityType: string): OutputField["type"] {
+  return solidityType.endsWith("]")
+    ? undefined
+    : getSolidityValueType(solidityType);
+}
+
+type EventInput = { name?: string; type: string; indexed?: boolean };
+
+/** Inputs of the watched events; arguments shared by several are listed once */
+function getUniqueEventInputs(
+  events: { inputs: EventInput[] }[]
+): EventInput[] {
+  const seen = new Set<string>();
+  return events
+    .flatMap((event) => event.inputs)
+    .filter((input) => {
+      const name = input.name || "unnamed";
+      if (seen.has(name)) {
+        return false;
+      }
+      seen.add(name);
+      return true;
+    });
+}
+
 /**
- * Get output fields for Event trigger based on ABI and selected event
+ * Get output fields for Event trigger based on ABI and selected event(s)
  */
 export function getEventTriggerOutputFields(
   abi: string | undefined,
@@ -51,13 +103,16 @@ export function getEventTriggerOutputFields(
       return getEventTriggerOutputFields(undefined, undefined);
     }
 
-    // Find the event in the ABI
-    const event = abiArray.find(
-      (item: { type: string; name?: string }) =>
-        item.type === "event" && item.name === eventName
+    // Find the events in the ABI; a trigger may watch several
+    const eventNames = getEventNames({ eventName });
+    const events = abiArray.filter(
+      (item: { type: string; name?: string; inputs?: unknown }) =>
+        item.type === "event" &&
+        eventNames.includes(item.name ?? "") &&
+        Array.isArray(item.inputs)
     );
 
-    if (!event?.inputs) {
+    if (events.length === 0) {
       return getEventTriggerOutputFields(undefined, undefined);
     }
 
@@ -71,7 +126,7 @@ export function getEventTriggerOutputFields(
 
     // Add each event parameter as an output field
     // Args are deserialized: uint/int types are BigInt, bool is boolean, strings/addresses are strings
-    for (const input of event.inputs) {
+    for (const input of getUniqueEventInputs(events)) {
       const paramName = input.name || "unnamed";
       const indexed = input.indexed ? " (indexed)" : "";
       let deserializedType: string;
@@ -85,6 +140,7 @@ export function getEventTriggerOutputFields(
       outputFields.push({
         field: `args.${paramName}`,
         description: `Event parameter: ${input.type}${indexed} (deserialized: ${deserializedType})`,
+        type: getEventArgType(input.type),
       });
     }
 
@@ -93,6 +149,7 @@ export function getEventTriggerOutputFields(
       {
         field: "blockNumber",
         description: "Block number where the event was emitted",
+        type: "number",
       },
       {
         field: "transactionHash",
@@ -109,10 +166,12 @@ export function getEventTriggerOutputFields(
       {
         field: "logIndex",
         description: "Index of the log in the block",
+        type: "number",
       },
       {
         field: "transactionIndex",
         description: "Index of the transaction in the block",
+        type: "number",
       },
       TRIGGERED_AT_FIELD
     );
@@ -132,6 +191,7 @@ export function getBlockTriggerOutputFields(): OutputField[] {
     {
       field: "blockNumber",
       description: "The block height",
+      type: "number",
     },
     {
       field: "blockHash",
@@ -140,6 +200,7 @@ export function getBlockTriggerOutputFields(): OutputField[] {
     {
       field: "blockTimestamp",
       description: "Unix timestamp of the block",
+      type: "number",
     },
     {
       field: "parentHash",
@@ -167,25 +228,11 @@ export function getTriggerOutputFields(
   }
 
   if (triggerType === "Webhook") {
-    // Webhook outputs are dynamic based on webhookSchema
-    // For now, return common webhook fields
+    // The declared payload schema's fields come first, then the request's
+    const schema = getWebhookPayloadSchema(config);
     return [
-      {
-        field: "body",
-        description: "Webhook request body",
-      },
-      {
-        field: "headers",
-        description: "Webhook request headers",
-      },
-      {
-        field: "method",
-        description: "HTTP method (GET, POST, etc.)",
-      },
-      {
-        field: "query",
-        description: "Query parameters",
-      },
+      ...schemaToFields(schema),
+      ...WEBHOOK_REQUEST_FIELDS,
       TRIGGERED_AT_FIELD,
     ];
   }
@@ -0,0 +1,92 @@
+/**
+ * Wait Until node helpers.
+ *
+ * A Wait Until node repeats a read that ran earlier in the workflow until its
+ * condition expression holds:
+ *   - pollNodeId: the read node to repeat (read-contract, check-balance or
+ *     HTTP Request)
+ *   - condition: expression over previous node outputs, re-evaluated after
+ *     every read, e.g. {{Read Auction.result}} === true
+ *   - pollIntervalSeconds: time between reads
+ *   - maxWaitSeconds: give up (and fail the node) once this much time passed
+ *
+ * The condition is checked against the read's first output before any
+ * re-read, so a condition that already holds continues immediately.
+ */
+
+/** Action types a Wait Until node may repeat; all of them only read */
+export const POLLABLE_ACTION_TYPES = [
+  "web3/read-contract",
+  "web3/check-balance",
+  "HTTP Request",
+];
+
+export const MIN_POLL_INTERVAL_SECONDS = 5;
+export const DEFAULT_POLL_INTERVAL_SECONDS = 60;
+export const DEFAULT_MAX_WAIT_SECONDS = 3600;
+export const MAX_WAIT_SECONDS = 7 * 86_400;
+
+export type WaitUntilSettings = {
+  pollNodeId: string;
+  intervalSeconds: number;
+  maxWaitSeconds: number;
+};
+
+export type WaitUntilOutput = {
+  /** Output of the final read, the one that satisfied the condition */
+  result: unknown;
+  /** Number of reads including the first one */
+  polls: number;
+  elapsedMs: number;
+};
+
+export function isPollableAction(actionType: string | undefined): boolean {
+  return actionType !== undefined && POLLABLE_ACTION_TYPES.includes(actionType);
+}
+
+function parseSeconds(
+  raw: unknown,
+  fallback: number,
+  min: number,
+  max: number
+): number {
+  const value = Number(raw);
+  if (raw === undefined || raw === "" || !Number.isFinite(value)) {
+    return fallback;
+  }
+  return Math.min(Math.max(Math.floor(value), min), max);
+}
+
+/**
+ * Read the poll settings from a Wait Until node's config. Intervals and the
+ * max wait are clamped to sane bounds; a missing read node is an error.
+ */
+export function parseWaitUntilConfig(
+  config: Record<string, unknown>
+): WaitUntilSettings | { error: string } {
+  const pollNodeId =
+    typeof config.pollNodeId === "string" ? config.pollNodeId.trim() : "";
+  if (!pollNodeId) {
+    return { error: "Wait Until has no read step selected to repeat" };
+  }
+  const maxWaitSeconds = parseSeconds(
+    config.maxWaitSeconds,
+    DEFAULT_MAX_WAIT_SECONDS,
+    MIN_POLL_INTERVAL_SECONDS,
+    MAX_WAIT_SECONDS
+  );
+  const intervalSeconds = parseSeconds(
+    config.pollIntervalSeconds,
+    DEFAULT_POLL_INTERVAL_SECONDS,
+    MIN_POLL_INTERVAL_SECONDS,
+    maxWaitSeconds
+  );
+  return { pollNodeId, intervalSeconds, maxWaitSeconds };
+}
+
+export function formatWaitUntilTimeoutError(
+  maxWaitSeconds: number,
+  polls: number
+): string {
+  return `Condition not met after waiting ${maxWaitSeconds}s (${polls} reads)`;
+}
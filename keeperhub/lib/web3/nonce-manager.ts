@@ -18,7 +18,7 @@
  * @see docs/keeperhub/KEEP-1240/nonce.md for full specification
  */
 
-import { and, eq, sql } from "drizzle-orm";
+import { and, eq, gte, lt, sql } from "drizzle-orm";
 import type { ethers } from "ethers";
 import postgres from "postgres";
 import {
@@ -32,6 +32,10 @@ export type NonceSession = {
   walletAddress: string;
   chainId: number;
   executionId: string;
+  /** Workflow node sending the session's transactions */
+  nodeId?: string;
+  /** Chain nonce when the session started */
+  startNonce: number;
   currentNonce: number;
   startedAt: Date;
   /** Internal: dedicated connection for this session's advisory lock */
@@ -64,6 +68,8 @@ export class NonceManager {
   private readonly lockTimeoutMs: number;
   private readonly maxLockRetries: number;
   private readonly lockRetryDelayMs: number;
+  /** Sessions started in this process and not yet ended */
+  private readonly activeSessions = new Set<NonceSession>();
 
   constructor(options: NonceManagerOptions = {}) {
     this.lockTimeoutMs = options.lockTimeoutMs ?? DEFAULT_OPTIONS.lockTimeoutMs;
@@ -83,7 +89,8 @@ export class NonceManager {
     walletAddress: string,
     chainId: number,
     executionId: string,
-    provider: ethers.Provider
+    provider: ethers.Provider,
+    nodeId?: string
   ): Promise<{ session: NonceSession; validation: ValidationResult }> {
     const normalizedAddress = walletAddress.toLowerCase();
 
@@ -114,10 +121,13 @@ export class NonceManager {
         walletAddress: normalizedAddress,
         chainId,
         executionId,
+        nodeId,
+        startNonce: chainNonce,
         currentNonce: chainNonce,
         startedAt: new Date(),
         _lockConnection: lockConnection,
       };
+      this.activeSessions.add(session);
 
       console.log(
         `[NonceManager] Session started for ${normalizedAddress}:${chainId}, ` +
@@ -273,6 +283,7 @@ export class NonceManager {
         nonce,
         txHash,
         executionId: session.executionId,
+        nodeId: session.nodeId,
         workflowId,
         gasPrice,
         status: "pending",
@@ -286,6 +297,7 @@ export class NonceManager {
         set: {
           txHash,
           executionId: session.executionId,
+          nodeId: session.nodeId,
           workflowId,
           gasPrice,
           status: "pending",
@@ -311,12 +323,114 @@ export class NonceManager {
       .where(eq(pendingTransactions.txHash, txHash));
   }
 
+  /**
+   * Record nonces the chain consumed during the session that have no recorded
+   * transaction: the send threw after the transaction was broadcast. Call
+   * before ending the session, while the lock still keeps other executions
+   * off the wallet. When the chain cannot be reached every nonce handed out
+   * is assumed to be sent.
+   * The rows get the "unrecorded" status, so reconciliation leaves them alone.
+   */
+  async recordUnrecordedBroadcasts(
+    session: NonceSession,
+    provider: ethers.Provider
+  ): Promise<number> {
+    if (session.currentNonce === session.startNonce) {
+      return 0;
+    }
+
+    let sentUpTo = session.currentNonce;
+    try {
+      const chainNonce = await provider.getTransactionCount(
+        session.walletAddress,
+        "pending"
+      );
+      sentUpTo = Math.min(chainNonce, session.currentNonce);
+    } catch (error) {
+      console.warn(
+        "[NonceManager] Failed to fetch chain nonce, assuming sent:",
+        error
+      );
+    }
+    if (sentUpTo <= session.startNonce) {
+      return 0;
+    }
+
+    const recorded = await db
+      .select({ nonce: pendingTransactions.nonce })
+      .from(pendingTransactions)
+      .where(
+        and(
+          eq(pendingTransactions.walletAddress, session.walletAddress),
+          eq(pendingTransactions.chainId, session.chainId),
+          eq(pendingTransactions.executionId, session.executionId),
+          gte(pendingTransactions.nonce, session.startNonce),
+          lt(pendingTransactions.nonce, sentUpTo)
+        )
+      );
+    const recordedNonces = new Set(recorded.map((row) => row.nonce));
+    const unrecorded: number[] = [];
+    for (let nonce = session.startNonce; nonce < sentUpTo; nonce++) {
+      if (!recordedNonces.has(nonce)) {
+        unrecorded.push(nonce);
+      }
+    }
+
+    for (const nonce of unrecorded) {
+      await db
+        .insert(pendingTransactions)
+        .values({
+          walletAddress: session.walletAddress,
+          chainId: session.chainId,
+          nonce,
+          txHash: "",
+          executionId: session.executionId,
+          nodeId: session.nodeId,
+          status: "unrecorded",
+        })
+        .onConflictDoUpdate({
+          target: [
+            pendingTransactions.walletAddress,
+            pendingTransactions.chainId,
+            pendingTransactions.nonce,
+          ],
+          set: {
+            txHash: "",
+            executionId: session.executionId,
+            nodeId: session.nodeId,
+            status: "unrecorded",
+            submittedAt: new Date(),
+            confirmedAt: null,
+          },
+        });
+      console.warn(
+        `[NonceManager] Recorded unrecorded broadcast: nonce=${nonce}, ` +
+          `execution=${session.executionId}`
+      );
+    }
+    return unrecorded.length;
+  }
+
+  /**
+   * Count transactions recorded for an execution.
+   * Used by the executor's retry loop: if the count grew during a failed
+   * attempt, a transaction was broadcast and the step must not be retried.
+   */
+  async countExecutionTransactions(executionId: string): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(pendingTransactions)
+      .where(eq(pendingTransactions.executionId, executionId));
+    return row?.count ?? 0;
+  }
+
   /**
    * End the session and release the lock.
    * Call when workflow execution completes (success or failure).
    * Closes the dedicated connection, which automatically releases the advisory lock.
    */
   async endSession(session: NonceSession): Promise<void> {
+    this.activeSessions.delete(session);
     if (session._lockConnection) {
       await this.releaseLockConnection(
         session._lockConnection,
@@ -333,6 +447,25 @@ export class NonceManager {
     );
   }
 
+  /**
+   * Release everything an execution still holds on wallets.
+   * Call when a cancelled execution stops: ends any session it left open in
+   * this process (closing the connection releases the advisory lock) and
+   * clears lock metadata still naming it, e.g. from a process that died.
+   */
+  async releaseExecutionLocks(executionId: string): Promise<void> {
+    for (const session of [...this.activeSessions]) {
+      if (session.executionId === executionId) {
+        await this.endSession(session);
+      }
+    }
+
+    await db
+      .update(walletLocks)
+      .set({ lockedBy: null, lockedAt: null })
+      .where(eq(walletLocks.lockedBy, executionId));
+  }
+
   /**
    * Acquire distributed lock using PostgreSQL advisory lock.
    *
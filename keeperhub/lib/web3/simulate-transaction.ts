@@ -0,0 +1,112 @@
+import "server-only";
+
+import { ethers } from "ethers";
+import type { SimulatedWriteResult } from "@/keeperhub/lib/dry-run";
+import { getErrorMessage } from "@/lib/utils";
+
+export type SimulateTransactionInput = {
+  rpcUrl: string;
+  chainId: number;
+  /** The organization wallet the transaction would be sent from */
+  from: string;
+  to: string;
+  value?: bigint;
+  /** Contract call to encode; omitted for plain native transfers */
+  call?: {
+    abi: ethers.InterfaceAbi;
+    functionName: string;
+    args: unknown[];
+  };
+};
+
+type EncodedCall = {
+  data: string;
+  functionName: string;
+  signature: string;
+  args: unknown[];
+};
+
+/** bigint is not JSON-serializable; logged outputs show it as a string */
+function toJsonSafe(value: unknown): unknown {
+  if (typeof value === "bigint") {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJsonSafe);
+  }
+  return value;
+}
+
+function encodeCall(call: NonNullable<SimulateTransactionInput["call"]>) {
+  const iface = new ethers.Interface(call.abi);
+  const fragment = iface.getFunction(call.functionName);
+  if (!fragment) {
+    throw new Error(`Function '${call.functionName}' not found in ABI`);
+  }
+  const data = iface.encodeFunctionData(fragment, call.args);
+  return {
+    data,
+    functionName: fragment.name,
+    signature: fragment.format(),
+    // Decode what was encoded so the args show as the chain will see them
+    args: toJsonSafe(
+      iface.decodeFunctionData(fragment, data).toArray(true)
+    ) as unknown[],
+  } satisfies EncodedCall;
+}
+
+/**
+ * Simulate a write with `eth_call` and `estimateGas` from the organization
+ * wallet instead of signing and sending it. A call that would revert fails
+ * the step with the revert reason, as the real transaction would.
+ */
+export async function simulateTransaction(
+  input: SimulateTransactionInput
+): Promise<SimulatedWriteResult | { success: false; error: string }> {
+  let encoded: EncodedCall | undefined;
+  try {
+    encoded = input.call ? encodeCall(input.call) : undefined;
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to encode contract call: ${getErrorMessage(error)}`,
+    };
+  }
+
+  const request = {
+    from: input.from,
+    to: input.to,
+    value: input.value ?? BigInt(0),
+    data: encoded?.data ?? "0x",
+  };
+  try {
+    const provider = new ethers.JsonRpcProvider(input.rpcUrl);
+    const [returnData, estimatedGas] = await Promise.all([
+      provider.call(request),
+      provider.estimateGas(request),
+    ]);
+    return {
+      success: true,
+      simulated: true,
+      transactionHash: "",
+      transactionLink: "",
+      simulation: {
+        chainId: input.chainId,
+        from: input.from,
+        to: input.to,
+        value: request.value.toString(),
+        data: request.data,
+        functionName: encoded?.functionName,
+        signature: encoded?.signature,
+        args: encoded?.args,
+        estimatedGas: estimatedGas.toString(),
+        returnData,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      error: `Simulation failed: ${getErrorMessage(error)}`,
+    };
+  }
+}
@@ -25,6 +25,8 @@ export type TransactionContext = {
   organizationId: string;
   executionId: string;
   workflowId?: string;
+  /** Workflow node sending the transaction, for resuming the execution */
+  nodeId?: string;
   chainId: number;
   rpcUrl: string;
   triggerType?: TriggerType;
@@ -278,7 +280,8 @@ export async function withNonceSession<T>(
     walletAddress,
     context.chainId,
     context.executionId,
-    provider
+    provider,
+    context.nodeId
   );
 
   // Log validation results
@@ -292,6 +295,16 @@ export async function withNonceSession<T>(
   try {
     return await fn(session);
   } finally {
+    // A send that threw after broadcasting left no record; the executor's
+    // retry guard must still see it
+    try {
+      await nonceManager.recordUnrecordedBroadcasts(session, provider);
+    } catch (error) {
+      console.error(
+        "[TransactionManager] Failed to record unrecorded broadcasts:",
+        error
+      );
+    }
     // Always release session
     await nonceManager.endSession(session);
   }
@@ -0,0 +1,189 @@
+/**
+ * Webhook endpoint helpers.
+ *
+ * Where and how a Webhook trigger is called, and what it hands the workflow:
+ *   - webhookMethods: comma-separated HTTP methods the trigger accepts out of
+ *     POST, GET and PUT (default: POST)
+ *   - webhookPath: optional vanity path; the trigger is then also reachable at
+ *     /hooks/{orgSlug}/{path}, so shared URLs do not expose the workflow id
+ *
+ * The trigger's outputs are the JSON body's top-level fields (as before),
+ * plus `body`, `query` (repeated parameters become arrays), `headers`
+ * (credentials removed) and `method`. A GET request has no body, so its query
+ * parameters stand in for it.
+ */
+
+import { getDedupeHeader } from "@/keeperhub/lib/trigger-dedupe";
+import {
+  getWebhookAuthMode,
+  getWebhookSignatureSettings,
+} from "@/keeperhub/lib/webhook-signature";
+
+export const WEBHOOK_METHODS = ["POST", "GET", "PUT"] as const;
+export type WebhookMethod = (typeof WEBHOOK_METHODS)[number];
+
+export const DEFAULT_WEBHOOK_METHODS: WebhookMethod[] = ["POST"];
+export const MAX_WEBHOOK_PATH_LENGTH = 100;
+
+/** Headers carrying credentials, left out of the trigger's outputs */
+const REDACTED_HEADERS = new Set([
+  "authorization",
+  "cookie",
+  "proxy-authorization",
+]);
+
+const PATH_SEGMENT_PATTERN = /^[a-z0-9][a-z0-9_-]*$/;
+const EDGE_SLASHES_PATTERN = /^\/+|\/+$/g;
+
+export type WebhookPathResult = { path: string | null } | { error: string };
+
+export type WebhookRequestParts = {
+  method: string;
+  body: Record<string, unknown>;
+  searchParams: URLSearchParams;
+  headers: Headers;
+};
+
+/** Methods a Webhook trigger accepts; POST unless configured otherwise */
+export function getWebhookMethods(
+  config: Record<string, unknown> | undefined
+): WebhookMethod[] {
+  const raw = config?.webhookMethods;
+  if (typeof raw !== "string") {
+    return DEFAULT_WEBHOOK_METHODS;
+  }
+  const methods = WEBHOOK_METHODS.filter((method) =>
+    raw
+      .split(",")
+      .map((part) => part.trim().toUpperCase())
+      .includes(method)
+  );
+  return methods.length > 0 ? methods : DEFAULT_WEBHOOK_METHODS;
+}
+
+export function isWebhookMethodAllowed(
+  config: Record<string, unknown> | undefined,
+  method: string
+): boolean {
+  return (getWebhookMethods(config) as string[]).includes(method);
+}
+
+export function formatWebhookMethods(methods: WebhookMethod[]): string {
+  return WEBHOOK_METHODS.filter((method) => methods.includes(method)).join(",");
+}
+
+/**
+ * Request headers a browser may send to the trigger, for CORS preflight
+ * responses: its idempotency header and, for signed requests, the signature
+ * and timestamp headers
+ */
+export function getWebhookAllowedHeaders(
+  config: Record<string, unknown> | undefined
+): string[] {
+  const headers = ["Content-Type", "Authorization", getDedupeHeader(config)];
+  if (getWebhookAuthMode(config) === "hmac") {
+    const settings = getWebhookSignatureSettings(config);
+    headers.push(settings.header);
+    if (settings.timestampHeader) {
+      headers.push(settings.timestampHeader);
+    }
+  }
+  return headers;
+}
+
+/**
+ * A vanity path in its stored form: lowercase, without leading or trailing
+ * slashes. Segments are letters, digits, "-" and "_", starting with a letter
+ * or digit. Returns null for an empty path.
+ */
+export function normalizeWebhookPath(raw: unknown): WebhookPathResult {
+  if (raw === undefined || raw === null) {
+    return { path: null };
+  }
+  if (typeof raw !== "string") {
+    return { error: "Webhook path must be a string" };
+  }
+  const path = raw.trim().toLowerCase().replace(EDGE_SLASHES_PATTERN, "");
+  if (path === "") {
+    return { path: null };
+  }
+  if (path.length > MAX_WEBHOOK_PATH_LENGTH) {
+    return {
+      error: `Webhook path must be at most ${MAX_WEBHOOK_PATH_LENGTH} characters`,
+    };
+  }
+  const validSegments = path
+    .split("/")
+    .every((segment) => PATH_SEGMENT_PATTERN.test(segment));
+  if (!validSegments) {
+    return {
+      error:
+        'Webhook path segments may only contain letters, digits, "-" and "_", and must start with a letter or digit',
+    };
+  }
+  return { path };
+}
+
+export function getWebhookPath(
+  config: Record<string, unknown> | undefined
+): WebhookPathResult {
+  return normalizeWebhookPath(config?.webhookPath);
+}
+
+/** The vanity URL of a path, e.g. https://app.example.com/hooks/acme/alerts */
+export function buildWebhookPathUrl(
+  origin: string,
+  orgSlug: string,
+  path: string
+): string {
+  return `${origin}/hooks/${encodeURIComponent(orgSlug)}/${path}`;
+}
+
+/** Query parameters as an object; repeated parameters become arrays */
+export function searchParamsToObject(
+  searchParams: URLSearchParams
+): Record<string, string | string[]> {
+  const query: Record<string, string | string[]> = {};
+  for (const key of new Set(searchParams.keys())) {
+    const values = searchParams.getAll(key);
+    query[key] = values.length === 1 ? values[0] : values;
+  }
+  return query;
+}
+
+/** Request headers as an object with lowercase names, credentials removed */
+export function headersToObject(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of headers.entries()) {
+    if (!REDACTED_HEADERS.has(name)) {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+/** The payload of a request: its JSON body, or the query of a GET request */
+export function getWebhookPayload(
+  request: Omit<WebhookRequestParts, "headers">
+): Record<string, unknown> {
+  return request.method === "GET"
+    ? searchParamsToObject(request.searchParams)
+    : request.body;
+}
+
+/**
+ * The trigger input of a webhook request. Body fields stay at the top level so
+ * existing templates keep resolving, and win over the request fields.
+ */
+export function buildWebhookTriggerInput(
+  request: WebhookRequestParts
+): Record<string, unknown> {
+  const body = getWebhookPayload(request);
+  return {
+    body,
+    query: searchParamsToObject(request.searchParams),
+    headers: headersToObject(request.headers),
+    method: request.method,
+    ...body,
+  };
+}
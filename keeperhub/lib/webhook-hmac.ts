@@ -0,0 +1,172 @@
+/**
+ * HMAC verification of signed webhook requests. See webhook-signature.ts for
+ * the settings and the accepted signature formats.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import type { WebhookSignatureSettings } from "@/keeperhub/lib/webhook-signature";
+
+export const WEBHOOK_SECRET_PREFIX = "whsec_";
+
+const HEX_PATTERN = /^[0-9a-f]+$/i;
+const STRIPE_STYLE_PATTERN = /(^|,)\s*t=/;
+const MS_TIMESTAMP_THRESHOLD = 1e12;
+
+export type SignatureVerification =
+  | { valid: true }
+  | { valid: false; error: string };
+
+export function generateWebhookSecret(): string {
+  return `${WEBHOOK_SECRET_PREFIX}${randomBytes(32).toString("hex")}`;
+}
+
+/** Unix seconds from a seconds, milliseconds or ISO date timestamp */
+function parseTimestampSeconds(raw: string): number | undefined {
+  const numeric = Number(raw);
+  if (raw.trim() !== "" && Number.isFinite(numeric)) {
+    return numeric > MS_TIMESTAMP_THRESHOLD ? numeric / 1000 : numeric;
+  }
+  const parsed = Date.parse(raw);
+  return Number.isNaN(parsed) ? undefined : parsed / 1000;
+}
+
+/** Signatures and timestamp carried by the signature header value */
+function parseSignatureHeader(
+  value: string,
+  algorithm: string
+): { signatures: string[]; timestamp?: string } {
+  if (STRIPE_STYLE_PATTERN.test(value)) {
+    const signatures: string[] = [];
+    let timestamp: string | undefined;
+    for (const part of value.split(",")) {
+      const separator = part.indexOf("=");
+      const key = part.slice(0, separator).trim();
+      const partValue = part.slice(separator + 1).trim();
+      if (key === "t") {
+        timestamp = partValue;
+      } else if (key === "v1") {
+        signatures.push(partValue);
+      }
+    }
+    return { signatures, timestamp };
+  }
+  const prefix = `${algorithm}=`;
+  const trimmed = value.trim();
+  return {
+    signatures: [
+      trimmed.toLowerCase().startsWith(prefix)
+        ? trimmed.slice(prefix.length)
+        : trimmed,
+    ],
+  };
+}
+
+function decodeSignature(signature: string, digestLength: number): Buffer {
+  return HEX_PATTERN.test(signature) && signature.length === digestLength * 2
+    ? Buffer.from(signature, "hex")
+    : Buffer.from(signature, "base64");
+}
+
+/** Error when the timestamp is unreadable or outside the tolerance */
+function checkTimestamp(
+  timestamp: string,
+  toleranceSeconds: number,
+  now: number
+): string | undefined {
+  const seconds = parseTimestampSeconds(timestamp);
+  if (seconds === undefined) {
+    return "Invalid webhook timestamp";
+  }
+  if (Math.abs(now / 1000 - seconds) > toleranceSeconds) {
+    return `Webhook timestamp is outside the allowed tolerance of ${toleranceSeconds} seconds`;
+  }
+  return;
+}
+
+function matchesAnySecret(
+  payload: string,
+  signatures: string[],
+  secrets: string[],
+  algorithm: string
+): boolean {
+  for (const secret of secrets) {
+    const digest = createHmac(algorithm, secret).update(payload).digest();
+    for (const signature of signatures) {
+      const provided = decodeSignature(signature, digest.length);
+      if (
+        provided.length === digest.length &&
+        timingSafeEqual(provided, digest)
+      ) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * What a request signs: its body, or for a GET request, whose query
+ * parameters become the trigger's input, "GET <query string>"
+ */
+export function getSignedContent(params: {
+  method?: string;
+  rawBody: string;
+  search?: string;
+}): string {
+  return params.method === "GET"
+    ? `GET ${params.search ?? ""}`
+    : params.rawBody;
+}
+
+/**
+ * Check a request's signature against the workflow's secrets (the current
+ * one and, during a rotation, the previous one).
+ */
+export function verifyWebhookSignature(params: {
+  rawBody: string;
+  /** The request method; a GET request signs its query string */
+  method?: string;
+  /** The query string of the request URL, including the leading "?" */
+  search?: string;
+  headers: Headers;
+  settings: WebhookSignatureSettings;
+  secrets: string[];
+  now?: number;
+}): SignatureVerification {
+  const { headers, settings, secrets, now = Date.now() } = params;
+  const content = getSignedContent(params);
+
+  const headerValue = headers.get(settings.header);
+  if (!headerValue) {
+    return { valid: false, error: `Missing ${settings.header} header` };
+  }
+  const parsed = parseSignatureHeader(headerValue, settings.algorithm);
+
+  let timestamp = parsed.timestamp;
+  if (timestamp === undefined && settings.timestampHeader) {
+    timestamp = headers.get(settings.timestampHeader) ?? undefined;
+    if (timestamp === undefined) {
+      return {
+        valid: false,
+        error: `Missing ${settings.timestampHeader} header`,
+      };
+    }
+  }
+
+  if (timestamp !== undefined) {
+    const error = checkTimestamp(timestamp, settings.toleranceSeconds, now);
+    if (error) {
+      return { valid: false, error };
+    }
+  }
+
+  const payload = timestamp === undefined ? content : `${timestamp}.${content}`;
+  return matchesAnySecret(
+    payload,
+    parsed.signatures,
+    secrets,
+    settings.algorithm
+  )
+    ? { valid: true }
+    : { valid: false, error: "Invalid webhook signature" };
+}
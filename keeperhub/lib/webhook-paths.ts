@@ -0,0 +1,140 @@
+/**
+ * Storage of the org-scoped vanity paths of Webhook triggers (see
+ * keeperhub/lib/webhook-endpoint.ts). A path is claimed when the workflow is
+ * saved and resolved by the /hooks/{orgSlug}/{path} route.
+ *
+ * Check and claim a path in the transaction that saves the workflow: the
+ * check locks the path until that transaction ends, so two concurrent saves
+ * claiming the same path cannot both pass it.
+ */
+import "server-only";
+
+import { and, eq, ne, sql } from "drizzle-orm";
+import type { PostgresJsDatabase } from "drizzle-orm/postgres-js";
+import {
+  getWebhookPath,
+  normalizeWebhookPath,
+} from "@/keeperhub/lib/webhook-endpoint";
+import { db } from "@/lib/db";
+import { organization, workflowWebhookPaths } from "@/lib/db/schema";
+
+type WebhookPathsDatabase = Pick<
+  PostgresJsDatabase,
+  "select" | "insert" | "delete" | "execute"
+>;
+
+type WorkflowNodeLike = {
+  data?: { type?: string; config?: Record<string, unknown> };
+};
+
+export type WebhookPathCheck =
+  | { path: string | null }
+  | { error: string; status: number };
+
+/** The path configured on the workflow's Webhook trigger, if any */
+function getTriggerWebhookPath(
+  nodes: WorkflowNodeLike[]
+): ReturnType<typeof getWebhookPath> {
+  const trigger = nodes.find((node) => node.data?.type === "trigger");
+  if (trigger?.data?.config?.triggerType !== "Webhook") {
+    return { path: null };
+  }
+  return getWebhookPath(trigger.data.config);
+}
+
+/**
+ * Whether the workflow may claim the path on its trigger: it must be valid,
+ * the workflow must belong to an organization, and no other workflow of the
+ * organization may use it.
+ */
+export async function checkWebhookPath(
+  database: WebhookPathsDatabase,
+  workflowId: string,
+  organizationId: string | null,
+  nodes: WorkflowNodeLike[]
+): Promise<WebhookPathCheck> {
+  const result = getTriggerWebhookPath(nodes);
+  if ("error" in result) {
+    return { error: result.error, status: 400 };
+  }
+  if (result.path === null) {
+    return result;
+  }
+  if (!organizationId) {
+    return {
+      error: "Webhook paths are only available to workflows of an organization",
+      status: 400,
+    };
+  }
+  await database.execute(
+    sql`SELECT pg_advisory_xact_lock(hashtext(${organizationId}), hashtext(${result.path}))`
+  );
+  const rows = await database
+    .select({ workflowId: workflowWebhookPaths.workflowId })
+    .from(workflowWebhookPaths)
+    .where(
+      and(
+        eq(workflowWebhookPaths.organizationId, organizationId),
+        eq(workflowWebhookPaths.path, result.path),
+        ne(workflowWebhookPaths.workflowId, workflowId)
+      )
+    )
+    .limit(1);
+  if (rows.length > 0) {
+    return {
+      error: `Webhook path "${result.path}" is already used by another workflow`,
+      status: 409,
+    };
+  }
+  return result;
+}
+
+/** Claim the path on the workflow's trigger, or release it when unset */
+export async function syncWebhookPath(
+  database: WebhookPathsDatabase,
+  workflowId: string,
+  organizationId: string | null,
+  nodes: WorkflowNodeLike[]
+): Promise<void> {
+  const result = getTriggerWebhookPath(nodes);
+  if (!organizationId || "error" in result || result.path === null) {
+    await database
+      .delete(workflowWebhookPaths)
+      .where(eq(workflowWebhookPaths.workflowId, workflowId));
+    return;
+  }
+  const values = { organizationId, path: result.path, updatedAt: new Date() };
+  await database
+    .insert(workflowWebhookPaths)
+    .values({ workflowId, ...values })
+    .onConflictDoUpdate({
+      target: workflowWebhookPaths.workflowId,
+      set: values,
+    });
+}
+
+/** The workflow reachable at /hooks/{orgSlug}/{path}, if any */
+export async function resolveWebhookPath(
+  orgSlug: string,
+  path: string
+): Promise<string | null> {
+  const normalized = normalizeWebhookPath(path);
+  if (!("path" in normalized) || normalized.path === null) {
+    return null;
+  }
+  const rows = await db
+    .select({ workflowId: workflowWebhookPaths.workflowId })
+    .from(workflowWebhookPaths)
+    .innerJoin(
+      organization,
+      eq(workflowWebhookPaths.organizationId, organization.id)
+    )
+    .where(
+      and(
+        eq(organization.slug, orgSlug),
+        eq(workflowWebhookPaths.path, normalized.path)
+      )
+    )
+    .limit(1);
+  return rows[0]?.workflowId ?? null;
+}
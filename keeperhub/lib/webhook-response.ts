@@ -0,0 +1,207 @@
+/**
+ * Webhook response helpers.
+ *
+ * By default a Webhook trigger answers at once with the execution id. With
+ * `webhookResponseMode: "sync"` the request is held open until the workflow
+ * finishes and answered with a node's output, turning the workflow into a
+ * callable endpoint:
+ *   - webhookResponseNodeId: node whose output is the response body (default:
+ *     the last node that ran)
+ *   - webhookResponseField: optional dot path into that output, e.g. "result"
+ *   - webhookResponseStatus: HTTP status of a successful run (200)
+ *   - webhookResponseHeaders: JSON object of extra response headers
+ *   - webhookResponseMaxWait: seconds to wait before answering 202 with the
+ *     execution id, while the run carries on
+ *
+ * A failed run answers 500 with its error; a response node that did not run
+ * (e.g. on a branch not taken) answers 500 as well.
+ */
+
+export const DEFAULT_RESPONSE_MAX_WAIT_SECONDS = 30;
+export const MAX_RESPONSE_MAX_WAIT_SECONDS = 300;
+export const DEFAULT_RESPONSE_STATUS = 200;
+
+const MIN_STATUS = 200;
+const MAX_STATUS = 599;
+const CONTENT_TYPE_HEADER = "content-type";
+
+export type WebhookResponseSettings = {
+  nodeId?: string;
+  field?: string;
+  status: number;
+  headers: Record<string, string>;
+  maxWaitSeconds: number;
+};
+
+/** What the run returned; the shape of executeWorkflow's return value */
+export type WebhookRunResult = {
+  success: boolean;
+  results: Record<
+    string,
+    { success: boolean; data?: unknown; error?: string; recovered?: boolean }
+  >;
+  /** How the run ended; a failed run without one is reported as "error" */
+  status?: "success" | "error" | "timeout" | "cancelled";
+  error?: string;
+};
+
+export type WebhookResponse = {
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+};
+
+function getTrimmed(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() !== ""
+    ? value.trim()
+    : undefined;
+}
+
+function parseStatus(raw: unknown): number {
+  const value = Number(raw);
+  return Number.isInteger(value) && value >= MIN_STATUS && value <= MAX_STATUS
+    ? value
+    : DEFAULT_RESPONSE_STATUS;
+}
+
+function parseMaxWaitSeconds(raw: unknown): number {
+  const value = Number(raw);
+  if (raw === undefined || raw === "" || !Number.isFinite(value)) {
+    return DEFAULT_RESPONSE_MAX_WAIT_SECONDS;
+  }
+  return Math.min(
+    Math.max(Math.floor(value), 1),
+    MAX_RESPONSE_MAX_WAIT_SECONDS
+  );
+}
+
+/**
+ * Extra response headers from their JSON object config. Returns an error for
+ * anything but an object of string values.
+ */
+export function parseResponseHeaders(
+  raw: unknown
+): { headers: Record<string, string> } | { error: string } {
+  const text = getTrimmed(raw);
+  if (!text) {
+    return { headers: {} };
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { error: "Response headers must be valid JSON" };
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    return { error: "Response headers must be a JSON object" };
+  }
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(parsed)) {
+    if (typeof value !== "string") {
+      return { error: `Response header "${name}" must be a string` };
+    }
+    headers[name] = value;
+  }
+  return { headers };
+}
+
+/** Response settings of a Webhook trigger, or null when it answers at once */
+export function getWebhookResponseSettings(
+  config: Record<string, unknown> | undefined
+): WebhookResponseSettings | null {
+  if (config?.webhookResponseMode !== "sync") {
+    return null;
+  }
+  const parsedHeaders = parseResponseHeaders(config.webhookResponseHeaders);
+  return {
+    nodeId: getTrimmed(config.webhookResponseNodeId),
+    field: getTrimmed(config.webhookResponseField),
+    status: parseStatus(config.webhookResponseStatus),
+    headers: "headers" in parsedHeaders ? parsedHeaders.headers : {},
+    maxWaitSeconds: parseMaxWaitSeconds(config.webhookResponseMaxWait),
+  };
+}
+
+function getPath(root: unknown, path: string): unknown {
+  let current = root;
+  for (const part of path.split(".")) {
+    if (typeof current !== "object" || current === null) {
+      return;
+    }
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+function serializeBody(value: unknown): { body: string; contentType: string } {
+  if (typeof value === "string") {
+    return { body: value, contentType: "text/plain; charset=utf-8" };
+  }
+  return {
+    body:
+      JSON.stringify(value ?? null, (_, v) =>
+        typeof v === "bigint" ? v.toString() : v
+      ) ?? "null",
+    contentType: "application/json",
+  };
+}
+
+function jsonResponse(
+  status: number,
+  payload: Record<string, unknown>
+): WebhookResponse {
+  return {
+    status,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  };
+}
+
+/** A run still going after the max wait: its id, to look it up later */
+export function buildPendingResponse(executionId: string): WebhookResponse {
+  return jsonResponse(202, { executionId, status: "running" });
+}
+
+/** The HTTP response of a finished run */
+export function buildWebhookResponse(
+  settings: WebhookResponseSettings,
+  executionId: string,
+  run: WebhookRunResult
+): WebhookResponse {
+  if (!run.success) {
+    const failedStep = Object.values(run.results).find(
+      (step) => !(step.success || step.recovered) && step.error
+    );
+    return jsonResponse(500, {
+      executionId,
+      status: run.status && run.status !== "success" ? run.status : "error",
+      error: run.error ?? failedStep?.error ?? "Workflow execution failed",
+    });
+  }
+
+  const result = settings.nodeId
+    ? run.results[settings.nodeId]
+    : Object.values(run.results).at(-1);
+  if (!result) {
+    return jsonResponse(500, {
+      executionId,
+      status: "error",
+      error: "The response step did not run",
+    });
+  }
+
+  const value = settings.field
+    ? getPath(result.data, settings.field)
+    : result.data;
+  const { body, contentType } = serializeBody(value);
+  const hasContentType = Object.keys(settings.headers).some(
+    (name) => name.toLowerCase() === CONTENT_TYPE_HEADER
+  );
+  return {
+    status: settings.status,
+    headers: hasContentType
+      ? settings.headers
+      : { "Content-Type": contentType, ...settings.headers },
+    body,
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Storage of the per-workflow webhook signing secrets (see
+ * keeperhub/lib/webhook-signature.ts). Secrets are encrypted at rest with the
+ * integration encryption key.
+ */
+import "server-only";
+
+import { eq } from "drizzle-orm";
+import { generateWebhookSecret } from "@/keeperhub/lib/webhook-hmac";
+import { WEBHOOK_SECRET_ROTATION_GRACE_SECONDS } from "@/keeperhub/lib/webhook-signature";
+import { db } from "@/lib/db";
+import { decrypt, encrypt } from "@/lib/db/integrations";
+import {
+  type WorkflowWebhookSecret,
+  workflowWebhookSecrets,
+} from "@/lib/db/schema";
+
+export type WebhookSecretInfo = {
+  secret: string;
+  rotatedAt: Date;
+  /** Set while the previous secret still verifies after a rotation */
+  previousSecretExpiresAt: Date | null;
+};
+
+async function findSecretRow(
+  workflowId: string
+): Promise<WorkflowWebhookSecret | undefined> {
+  const rows = await db
+    .select()
+    .from(workflowWebhookSecrets)
+    .where(eq(workflowWebhookSecrets.workflowId, workflowId))
+    .limit(1);
+  return rows[0];
+}
+
+function isPreviousSecretActive(
+  expiresAt: Date | null,
+  now: Date
+): expiresAt is Date {
+  return expiresAt !== null && expiresAt > now;
+}
+
+export async function getWebhookSecretInfo(
+  workflowId: string
+): Promise<WebhookSecretInfo | null> {
+  const row = await findSecretRow(workflowId);
+  if (!row) {
+    return null;
+  }
+  return {
+    secret: decrypt(row.secret),
+    rotatedAt: row.rotatedAt,
+    previousSecretExpiresAt: isPreviousSecretActive(
+      row.previousSecretExpiresAt,
+      new Date()
+    )
+      ? row.previousSecretExpiresAt
+      : null,
+  };
+}
+
+/** Secrets a signature may be made with: the current and, during a rotation, the previous one */
+export async function getActiveWebhookSecrets(
+  workflowId: string
+): Promise<string[]> {
+  const row = await findSecretRow(workflowId);
+  if (!row) {
+    return [];
+  }
+  const secrets = [decrypt(row.secret)];
+  if (
+    row.previousSecret &&
+    isPreviousSecretActive(row.previousSecretExpiresAt, new Date())
+  ) {
+    secrets.push(decrypt(row.previousSecret));
+  }
+  return secrets;
+}
+
+/**
+ * Create the workflow's secret, or replace it. The replaced secret keeps
+ * verifying for the rotation grace period unless `revokePrevious` is set.
+ */
+export async function rotateWebhookSecret(
+  workflowId: string,
+  options: { revokePrevious?: boolean } = {}
+): Promise<WebhookSecretInfo> {
+  const existing = await findSecretRow(workflowId);
+  const secret = generateWebhookSecret();
+  const now = new Date();
+  const keepPrevious = existing !== undefined && !options.revokePrevious;
+  const previousSecretExpiresAt = keepPrevious
+    ? new Date(now.getTime() + WEBHOOK_SECRET_ROTATION_GRACE_SECONDS * 1000)
+    : null;
+  const values = {
+    secret: encrypt(secret),
+    previousSecret: keepPrevious ? existing.secret : null,
+    previousSecretExpiresAt,
+    rotatedAt: now,
+  };
+
+  await db
+    .insert(workflowWebhookSecrets)
+    .values({ workflowId, ...values })
+    .onConflictDoUpdate({
+      target: workflowWebhookSecrets.workflowId,
+      set: values,
+    });
+
+  return { secret, rotatedAt: now, previousSecretExpiresAt };
+}
+
+export async function deleteWebhookSecret(workflowId: string): Promise<void> {
+  await db
+    .delete(workflowWebhookSecrets)
+    .where(eq(workflowWebhookSecrets.workflowId, workflowId));
+}
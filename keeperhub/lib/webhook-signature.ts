@@ -0,0 +1,81 @@
+/**
+ * Webhook Signature Settings
+ * A Webhook trigger authenticates requests either with a wfb_ API key of the
+ * workflow owner (the default) or with an HMAC signature made with the
+ * workflow's webhook secret, which third-party senders (GitHub, Alchemy
+ * Notify, Stripe-style providers) can produce:
+ *   - webhookAuth: "apiKey" | "hmac"
+ *   - webhookSignatureHeader: header carrying the signature (X-Signature)
+ *   - webhookSignatureAlgorithm: sha256 (default), sha1 or sha512
+ *   - webhookTimestampHeader: header carrying the send time; when set, the
+ *     signed payload is "<timestamp>.<body>" and old requests are rejected
+ *   - webhookSignatureTolerance: max age of a timestamp in seconds (300)
+ *
+ * A GET request has no body; its query parameters become the trigger's input,
+ * so it signs "GET <query string>" instead, e.g. "GET ?amount=1&to=0xabc".
+ *
+ * The signature may be hex or base64 and may carry an "<algorithm>=" prefix
+ * (GitHub). A "t=<timestamp>,v1=<signature>" value (Stripe) brings its own
+ * timestamp, so replay protection applies without a timestamp header.
+ */
+
+export type WebhookAuthMode = "apiKey" | "hmac";
+
+export const WEBHOOK_SIGNATURE_ALGORITHMS = ["sha256", "sha1", "sha512"];
+
+export const DEFAULT_SIGNATURE_HEADER = "X-Signature";
+
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export const MAX_SIGNATURE_TOLERANCE_SECONDS = 24 * 60 * 60;
+
+/** How long a rotated-out secret keeps verifying */
+export const WEBHOOK_SECRET_ROTATION_GRACE_SECONDS = 24 * 60 * 60;
+
+export type WebhookSignatureSettings = {
+  header: string;
+  algorithm: string;
+  /** Unset: the body alone is signed and timestamps are not checked */
+  timestampHeader?: string;
+  toleranceSeconds: number;
+};
+
+export function getWebhookAuthMode(
+  config: Record<string, unknown> | undefined
+): WebhookAuthMode {
+  return config?.webhookAuth === "hmac" ? "hmac" : "apiKey";
+}
+
+function getHeaderSetting(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() !== ""
+    ? value.trim()
+    : undefined;
+}
+
+/** Signature settings of a Webhook trigger, with defaults for empty fields */
+export function getWebhookSignatureSettings(
+  config: Record<string, unknown> | undefined
+): WebhookSignatureSettings {
+  const algorithm = config?.webhookSignatureAlgorithm;
+  const tolerance = Number(config?.webhookSignatureTolerance);
+  const hasTolerance =
+    config?.webhookSignatureTolerance !== undefined &&
+    config.webhookSignatureTolerance !== "" &&
+    Number.isFinite(tolerance) &&
+    tolerance > 0;
+
+  return {
+    header:
+      getHeaderSetting(config?.webhookSignatureHeader) ??
+      DEFAULT_SIGNATURE_HEADER,
+    algorithm:
+      typeof algorithm === "string" &&
+      WEBHOOK_SIGNATURE_ALGORITHMS.includes(algorithm)
+        ? algorithm
+        : "sha256",
+    timestampHeader: getHeaderSetting(config?.webhookTimestampHeader),
+    toleranceSeconds: hasTolerance
+      ? Math.min(Math.floor(tolerance), MAX_SIGNATURE_TOLERANCE_SECONDS)
+      : DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * While loop helpers.
+ *
+ * A While node repeats its loop body (the nodes on its "loop" handle, up to
+ * the Collect on its "done" handle, as with For Each) for as long as its
+ * condition holds, carrying a state object from one iteration to the next:
+ *   - condition: expression checked before every iteration, e.g.
+ *     {{@loop:While.iteration}} === 0 || {{@loop:While.state.cursor}} !== ""
+ *   - initialState: JSON object the first iteration starts with, usually
+ *     built from templates
+ *   - nextState: JSON object resolved after every iteration against that
+ *     iteration's outputs, e.g. {"cursor": "{{@fetch:Fetch Page.data.next}}"};
+ *     it becomes the state of the next iteration. Empty keeps the state.
+ *   - maxIterations: the node fails when the condition still holds after
+ *     this many iterations
+ *
+ * Inside the body the node outputs { state, iteration }; once the loop ends,
+ * { state, iterations } with the final state.
+ *
+ * NOTE: This module has zero dependencies so it can be safely imported in both
+ * server-side code and "use client" components.
+ */
+
+/** Actions whose body runs once per iteration, up to a Collect node */
+export const LOOP_ACTION_TYPES = ["For Each", "While"];
+
+export const DEFAULT_WHILE_MAX_ITERATIONS = 100;
+export const MAX_WHILE_ITERATIONS = 1000;
+
+export type WhileState = Record<string, unknown>;
+
+export type WhileOutput = {
+  /** State after the last iteration */
+  state: WhileState;
+  /** Number of iterations that ran */
+  iterations: number;
+};
+
+export function isLoopAction(actionType: string | undefined): boolean {
+  return actionType !== undefined && LOOP_ACTION_TYPES.includes(actionType);
+}
+
+/** Max iterations from the editor's string value, clamped to the hard cap */
+export function parseWhileMaxIterations(raw: unknown): number {
+  const value = Number(raw);
+  if (raw === undefined || raw === "" || !Number.isFinite(value)) {
+    return DEFAULT_WHILE_MAX_ITERATIONS;
+  }
+  return Math.min(Math.max(Math.floor(value), 1), MAX_WHILE_ITERATIONS);
+}
+
+/**
+ * Parse a (template-resolved) state mapping. `name` is used in the error,
+ * e.g. "Initial state". An empty mapping is an empty object.
+ */
+export function parseWhileState(
+  raw: unknown,
+  name: string
+): { state: WhileState } | { error: string } {
+  if (raw === undefined || raw === null || raw === "") {
+    return { state: {} };
+  }
+  if (typeof raw === "object") {
+    return Array.isArray(raw)
+      ? { error: `${name} must be a JSON object` }
+      : { state: raw as WhileState };
+  }
+  try {
+    const parsed: unknown = JSON.parse(String(raw));
+    if (
+      parsed === null ||
+      typeof parsed !== "object" ||
+      Array.isArray(parsed)
+    ) {
+      return { error: `${name} must be a JSON object` };
+    }
+    return { state: parsed as WhileState };
+  } catch (error) {
+    return {
+      error: `${name} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
+
+export function formatWhileLimitError(maxIterations: number): string {
+  return `While condition still held after ${maxIterations} iterations (max iterations)`;
+}
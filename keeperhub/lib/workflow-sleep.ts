@@ -0,0 +1,90 @@
+/**
+ * Sleep that works in both places the executor runs.
+ *
+ * Under the workflow runtime (API-triggered and webhook runs), `sleep` from
+ * "workflow" is a durable timer: the run is suspended, no worker is held while
+ * waiting, and the wait survives worker and deployment restarts.
+ *
+ * The K8s workflow-runner (scripts/workflow-runner.ts) calls executeWorkflow
+ * directly, outside the workflow VM, where the durable `sleep` throws. Short
+ * waits fall back to an in-process timer. Once the runner enables run
+ * suspension, a top-level Delay, Approval or queue wait longer than
+ * MAX_IN_PROCESS_WAIT_MS suspends the run instead: the executor returns a
+ * suspended result, the runner records `waitingUntil` and exits, and the job
+ * spawner starts a new runner for the execution once the wait is over.
+ */
+import { sleep } from "workflow";
+
+const WORKFLOW_SLEEP = Symbol.for("WORKFLOW_SLEEP");
+
+/** Longest wait the K8s runner sleeps through instead of suspending */
+export const MAX_IN_PROCESS_WAIT_MS = 60_000;
+
+let runSuspension = false;
+
+function hasDurableSleep(): boolean {
+  return (
+    typeof (globalThis as Record<symbol, unknown>)[WORKFLOW_SLEEP] ===
+    "function"
+  );
+}
+
+/**
+ * Wait for a number of milliseconds or until a point in time.
+ */
+export async function workflowSleep(duration: number | Date): Promise<void> {
+  if (hasDurableSleep()) {
+    await (duration instanceof Date ? sleep(duration) : sleep(duration));
+    return;
+  }
+  const ms =
+    duration instanceof Date ? duration.getTime() - Date.now() : duration;
+  if (ms > 0) {
+    await new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * Let long waits suspend the run. Called once by the K8s runner, whose job
+ * spawner resumes suspended executions.
+ */
+export function enableRunSuspension(): void {
+  runSuspension = true;
+}
+
+/**
+ * Whether a wait until `resumeAt` should suspend the run rather than hold
+ * this process until then.
+ */
+export function shouldSuspendUntil(resumeAt: Date): boolean {
+  return (
+    runSuspension &&
+    !hasDurableSleep() &&
+    resumeAt.getTime() - Date.now() > MAX_IN_PROCESS_WAIT_MS
+  );
+}
+
+export type SuspendedStepResult = {
+  success: false;
+  error: string;
+  /** ISO timestamp the run continues at */
+  suspendedUntil: string;
+};
+
+export function createSuspendedResult(resumeAt: Date): SuspendedStepResult {
+  return {
+    success: false,
+    error: `Execution suspended until ${resumeAt.toISOString()}`,
+    suspendedUntil: resumeAt.toISOString(),
+  };
+}
+
+export function isSuspendedResult(
+  result: unknown
+): result is SuspendedStepResult {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    typeof (result as { suspendedUntil?: unknown }).suspendedUntil === "string"
+  );
+}
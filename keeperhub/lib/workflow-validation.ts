@@ -0,0 +1,526 @@
+/**
+ * Graph checks run by the workflow validation API, so callers (MCP agents in
+ * particular) can check a workflow before enabling it.
+ *
+ * validateWorkflowGraph covers everything that can be decided from the nodes
+ * and edges alone; the route adds the checks that need the database
+ * (integration ownership via validateWorkflowIntegrations, enabled chains).
+ * Nodes and edges are taken as sent, so a node without an id or data object
+ * is reported as malformed and left out of the other checks instead of
+ * failing the request. Each problem is returned as a diagnostic with a
+ * stable code:
+ *   errors   - the workflow cannot run as intended
+ *   warnings - it runs, but part of it will not work (unreachable steps,
+ *              template references that do not match their node)
+ */
+
+import { validateEventFilters } from "@/keeperhub/lib/event-filters";
+import {
+  actionRequiresCredentials,
+  integrationRequiresCredentials,
+} from "@/keeperhub/lib/integration-helpers";
+import { checkTemplateReferences } from "@/keeperhub/lib/template-type-check";
+import {
+  preValidateConditionExpression,
+  type ValidationResult,
+  validateConditionExpression,
+  validateConditionExpressionUI,
+} from "@/lib/condition-validator";
+import { getChainIdFromNetwork } from "@/lib/rpc/network-utils";
+import type { WorkflowNode } from "@/lib/workflow-store";
+import {
+  type ActionConfigFieldBase,
+  findActionById,
+  flattenConfigFields,
+} from "@/plugins";
+
+export type WorkflowDiagnosticCode =
+  | "malformed-node"
+  | "malformed-edge"
+  | "missing-trigger"
+  | "cycle"
+  | "unreachable-node"
+  | "missing-action-type"
+  | "unknown-action-type"
+  | "missing-required-field"
+  | "missing-integration"
+  | "invalid-integration"
+  | "unknown-chain"
+  | "invalid-condition"
+  | "invalid-event-filter"
+  | "invalid-reference";
+
+export type WorkflowDiagnostic = {
+  code: WorkflowDiagnosticCode;
+  severity: "error" | "warning";
+  message: string;
+  nodeId?: string;
+  /** Config key the diagnostic is about */
+  fieldKey?: string;
+};
+
+export type WorkflowValidationResult = {
+  /** True when there are no errors (warnings are allowed) */
+  valid: boolean;
+  errorCount: number;
+  warningCount: number;
+  diagnostics: WorkflowDiagnostic[];
+};
+
+type ValidatedNode = Pick<WorkflowNode, "id" | "data">;
+type ValidatedEdge = { source: string; target: string };
+
+export type GraphValidationOptions = {
+  /** Chain ids that are enabled; when omitted chains are only resolved */
+  enabledChainIds?: Set<number>;
+};
+
+/** Action types run by the executor without a plugin */
+const SYSTEM_ACTION_TYPES = new Set([
+  "Condition",
+  "HTTP Request",
+  "Database Query",
+  "For Each",
+  "While",
+  "Collect",
+  "Switch",
+  "Delay",
+  "Wait Until",
+  "Approval",
+  "Execute Workflow",
+]);
+
+/** Built-in actions that need an integration but aren't in the registry */
+const BUILTIN_ACTION_INTEGRATIONS: Record<string, string> = {
+  "Database Query": "database",
+};
+
+/** Actions whose condition is evaluated as an expression */
+const CONDITION_ACTION_TYPES = new Set(["Condition", "Wait Until", "While"]);
+
+/** Trigger types that watch a chain through their network config */
+const CHAIN_TRIGGER_TYPES = new Set(["Event", "Block"]);
+
+const TEMPLATE_PATTERN = /\{\{@([^:]+):([^}]+)\}\}/g;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** A node the checks can read: an id and a data object with an object config */
+export function isWellFormedNode(node: unknown): node is ValidatedNode {
+  return (
+    isPlainObject(node) &&
+    typeof node.id === "string" &&
+    isPlainObject(node.data) &&
+    (node.data.config === undefined || isPlainObject(node.data.config))
+  );
+}
+
+function isWellFormedEdge(edge: unknown): edge is ValidatedEdge {
+  return (
+    isPlainObject(edge) &&
+    typeof edge.source === "string" &&
+    typeof edge.target === "string"
+  );
+}
+
+function checkShape(nodes: unknown[], edges: unknown[]): WorkflowDiagnostic[] {
+  const diagnostics: WorkflowDiagnostic[] = [];
+  for (const [index, node] of nodes.entries()) {
+    if (!isWellFormedNode(node)) {
+      const id = isPlainObject(node) ? node.id : undefined;
+      diagnostics.push({
+        code: "malformed-node",
+        severity: "error",
+        message: `Node ${index} needs a string id and a data object`,
+        ...(typeof id === "string" ? { nodeId: id } : {}),
+      });
+    }
+  }
+  for (const [index, edge] of edges.entries()) {
+    if (!isWellFormedEdge(edge)) {
+      diagnostics.push({
+        code: "malformed-edge",
+        severity: "error",
+        message: `Edge ${index} needs a string source and target`,
+      });
+    }
+  }
+  return diagnostics;
+}
+
+function getNodeName(node: ValidatedNode): string {
+  return node.data.label || node.id;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === "string" && value.trim() === "")
+  );
+}
+
+function isFieldShown(
+  field: ActionConfigFieldBase,
+  config: Record<string, unknown>
+): boolean {
+  if (!field.showWhen) {
+    return true;
+  }
+  const dependentValue = config[field.showWhen.field];
+  if ("oneOf" in field.showWhen) {
+    return field.showWhen.oneOf.includes(dependentValue as string);
+  }
+  return dependentValue === field.showWhen.equals;
+}
+
+/** Ids of the nodes on a cycle, found by depth-first search */
+function findCycleNodeIds(
+  nodes: ValidatedNode[],
+  edges: ValidatedEdge[]
+): string[] {
+  const targetsBySource = new Map<string, string[]>();
+  for (const edge of edges) {
+    const targets = targetsBySource.get(edge.source) ?? [];
+    targets.push(edge.target);
+    targetsBySource.set(edge.source, targets);
+  }
+
+  const onCycle = new Set<string>();
+  const finished = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (nodeId: string) => {
+    path.push(nodeId);
+    for (const target of targetsBySource.get(nodeId) ?? []) {
+      const index = path.indexOf(target);
+      if (index !== -1) {
+        for (const id of path.slice(index)) {
+          onCycle.add(id);
+        }
+      } else if (!finished.has(target)) {
+        visit(target);
+      }
+    }
+    path.pop();
+    finished.add(nodeId);
+  };
+
+  for (const node of nodes) {
+    if (!finished.has(node.id)) {
+      visit(node.id);
+    }
+  }
+  return nodes.map((node) => node.id).filter((id) => onCycle.has(id));
+}
+
+function checkGraph(
+  nodes: ValidatedNode[],
+  edges: ValidatedEdge[]
+): WorkflowDiagnostic[] {
+  const diagnostics: WorkflowDiagnostic[] = [];
+  const triggers = nodes.filter((node) => node.data.type === "trigger");
+  if (triggers.length === 0) {
+    diagnostics.push({
+      code: "missing-trigger",
+      severity: "error",
+      message: "The workflow has no trigger node",
+    });
+  }
+
+  const cycle = findCycleNodeIds(nodes, edges);
+  if (cycle.length > 0) {
+    diagnostics.push({
+      code: "cycle",
+      severity: "error",
+      message: `The edges form a cycle through ${cycle.join(", ")}`,
+      nodeId: cycle[0],
+    });
+  }
+
+  const reachable = new Set(triggers.map((node) => node.id));
+  const queue = [...reachable];
+  while (queue.length > 0) {
+    const source = queue.shift();
+    for (const edge of edges) {
+      if (edge.source === source && !reachable.has(edge.target)) {
+        reachable.add(edge.target);
+        queue.push(edge.target);
+      }
+    }
+  }
+  for (const node of nodes) {
+    if (node.data.type === "action" && !reachable.has(node.id)) {
+      diagnostics.push({
+        code: "unreachable-node",
+        severity: "warning",
+        message: `"${getNodeName(node)}" is not connected to a trigger and never runs`,
+        nodeId: node.id,
+      });
+    }
+  }
+  return diagnostics;
+}
+
+function checkChain(
+  node: ValidatedNode,
+  fieldKey: string,
+  value: unknown,
+  options: GraphValidationOptions
+): WorkflowDiagnostic | undefined {
+  if (isEmptyValue(value) || String(value).includes("{{")) {
+    return;
+  }
+  const diagnostic = {
+    code: "unknown-chain" as const,
+    severity: "error" as const,
+    nodeId: node.id,
+    fieldKey,
+  };
+  let chainId: number;
+  try {
+    chainId = getChainIdFromNetwork(value as string | number);
+  } catch {
+    return {
+      ...diagnostic,
+      message: `"${getNodeName(node)}" uses an unknown network "${String(value)}"`,
+    };
+  }
+  if (options.enabledChainIds && !options.enabledChainIds.has(chainId)) {
+    return {
+      ...diagnostic,
+      message: `"${getNodeName(node)}" uses chain ${chainId}, which is not supported`,
+    };
+  }
+}
+
+function checkEventFilters(
+  node: ValidatedNode,
+  config: Record<string, unknown>
+): WorkflowDiagnostic[] {
+  if (config.triggerType !== "Event") {
+    return [];
+  }
+  return validateEventFilters(config).map((error) => ({
+    code: "invalid-event-filter",
+    severity: "error",
+    message: `"${getNodeName(node)}": ${error}`,
+    nodeId: node.id,
+    fieldKey: "eventFilters",
+  }));
+}
+
+/**
+ * Run the editor's syntax check and the executor's safety checks. The latter
+ * run with templates replaced by placeholders, as the executor does.
+ */
+function getConditionError(expression: string): ValidationResult {
+  const syntax = validateConditionExpressionUI(expression);
+  if (!syntax.valid) {
+    return syntax;
+  }
+  const preValidation = preValidateConditionExpression(expression);
+  if (!preValidation.valid) {
+    return preValidation;
+  }
+  let counter = 0;
+  return validateConditionExpression(
+    expression.replace(TEMPLATE_PATTERN, () => {
+      counter += 1;
+      return `__v${counter - 1}`;
+    })
+  );
+}
+
+function checkCondition(
+  node: ValidatedNode,
+  expression: unknown
+): WorkflowDiagnostic | undefined {
+  const diagnostic = {
+    code: "invalid-condition" as const,
+    severity: "error" as const,
+    nodeId: node.id,
+    fieldKey: "condition",
+  };
+  if (typeof expression === "boolean") {
+    return;
+  }
+  if (typeof expression !== "string" || expression.trim() === "") {
+    return {
+      ...diagnostic,
+      message: `"${getNodeName(node)}" has no condition expression`,
+    };
+  }
+  const validation = getConditionError(expression);
+  if (!validation.valid) {
+    return {
+      ...diagnostic,
+      message: `"${getNodeName(node)}" has an invalid condition: ${validation.error}`,
+    };
+  }
+}
+
+function checkIntegration(
+  node: ValidatedNode,
+  actionType: string
+): WorkflowDiagnostic | undefined {
+  const action = findActionById(actionType);
+  const integrationType = action
+    ? (action.credentialIntegrationType ?? action.integration)
+    : BUILTIN_ACTION_INTEGRATIONS[actionType];
+  const requiresCredentials = action
+    ? actionRequiresCredentials(actionType)
+    : integrationRequiresCredentials(integrationType);
+  if (!requiresCredentials) {
+    return;
+  }
+  if (isEmptyValue(node.data.config?.integrationId)) {
+    return {
+      code: "missing-integration",
+      severity: "error",
+      message: `"${getNodeName(node)}" needs a ${integrationType} connection (integrationId)`,
+      nodeId: node.id,
+      fieldKey: "integrationId",
+    };
+  }
+}
+
+function checkConfigFields(
+  node: ValidatedNode,
+  actionType: string,
+  options: GraphValidationOptions
+): WorkflowDiagnostic[] {
+  const config = node.data.config ?? {};
+  const action = findActionById(actionType);
+  const diagnostics: WorkflowDiagnostic[] = [];
+  for (const field of action ? flattenConfigFields(action.configFields) : []) {
+    if (!isFieldShown(field, config)) {
+      continue;
+    }
+    if (field.required && isEmptyValue(config[field.key])) {
+      diagnostics.push({
+        code: "missing-required-field",
+        severity: "error",
+        message: `"${getNodeName(node)}" is missing required field "${field.label}"`,
+        nodeId: node.id,
+        fieldKey: field.key,
+      });
+    } else if (field.type === "chain-select") {
+      const chain = checkChain(node, field.key, config[field.key], options);
+      if (chain) {
+        diagnostics.push(chain);
+      }
+    }
+  }
+  return diagnostics;
+}
+
+function checkActionConfig(
+  node: ValidatedNode,
+  actionType: string,
+  options: GraphValidationOptions
+): WorkflowDiagnostic[] {
+  const diagnostics = checkConfigFields(node, actionType, options);
+  const integration = checkIntegration(node, actionType);
+  if (integration) {
+    diagnostics.push(integration);
+  }
+  if (CONDITION_ACTION_TYPES.has(actionType)) {
+    const condition = checkCondition(node, node.data.config?.condition);
+    if (condition) {
+      diagnostics.push(condition);
+    }
+  }
+  return diagnostics;
+}
+
+function checkNode(
+  node: ValidatedNode,
+  options: GraphValidationOptions
+): WorkflowDiagnostic[] {
+  const config = node.data.config ?? {};
+  if (node.data.type === "trigger") {
+    const chain = CHAIN_TRIGGER_TYPES.has(config.triggerType as string)
+      ? checkChain(node, "network", config.network, options)
+      : undefined;
+    return [...(chain ? [chain] : []), ...checkEventFilters(node, config)];
+  }
+  if (node.data.type !== "action") {
+    return [];
+  }
+  const actionType = config.actionType as string | undefined;
+  if (isEmptyValue(actionType)) {
+    return [
+      {
+        code: "missing-action-type",
+        severity: "error",
+        message: `"${getNodeName(node)}" has no action type`,
+        nodeId: node.id,
+        fieldKey: "actionType",
+      },
+    ];
+  }
+  if (
+    !(
+      SYSTEM_ACTION_TYPES.has(actionType as string) ||
+      findActionById(actionType)
+    )
+  ) {
+    return [
+      {
+        code: "unknown-action-type",
+        severity: "error",
+        message: `"${getNodeName(node)}" has an unknown action type "${actionType}"`,
+        nodeId: node.id,
+        fieldKey: "actionType",
+      },
+    ];
+  }
+  return checkActionConfig(node, actionType as string, options);
+}
+
+/**
+ * Check a workflow graph. Disabled nodes are only checked for their place
+ * in the graph, as they are skipped when the workflow runs.
+ */
+export function validateWorkflowGraph(
+  rawNodes: unknown[],
+  rawEdges: unknown[],
+  options: GraphValidationOptions = {}
+): WorkflowDiagnostic[] {
+  const nodes = rawNodes.filter(isWellFormedNode);
+  const edges = rawEdges.filter(isWellFormedEdge);
+  const enabledNodes = nodes.filter((node) => node.data.enabled !== false);
+  const references = checkTemplateReferences(nodes, edges).map(
+    (issue): WorkflowDiagnostic => ({
+      code: "invalid-reference",
+      severity: "warning",
+      message: issue.message,
+      nodeId: issue.nodeId,
+      fieldKey: issue.fieldKey,
+    })
+  );
+  return [
+    ...checkShape(rawNodes, rawEdges),
+    ...checkGraph(nodes, edges),
+    ...enabledNodes.flatMap((node) => checkNode(node, options)),
+    ...references,
+  ];
+}
+
+/** Summarize diagnostics into the validation API's response */
+export function summarizeDiagnostics(
+  diagnostics: WorkflowDiagnostic[]
+): WorkflowValidationResult {
+  const errorCount = diagnostics.filter(
+    (diagnostic) => diagnostic.severity === "error"
+  ).length;
+  return {
+    valid: errorCount === 0,
+    errorCount,
+    warningCount: diagnostics.length - errorCount,
+    diagnostics,
+  };
+}
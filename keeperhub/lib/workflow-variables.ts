@@ -0,0 +1,186 @@
+/**
+ * Workflow Variables
+ * Named values (addresses, thresholds, chain, token) declared once on a
+ * workflow and referenced from any template field as {{Vars.name}}. Like the
+ * built-in system variables they are injected as a pseudo-node with a
+ * reserved ID into the outputs map, so every template resolver handles them
+ * without special cases.
+ *
+ * A variable marked `required` must have a value before the workflow can run.
+ * Hub templates use this to expose the values a user has to fill in after
+ * duplicating them.
+ *
+ * NOTE: This module has zero dependencies so it can be safely imported in both
+ * server-side code and "use client" components.
+ */
+
+/** Reserved node ID for workflow variables. Must not collide with user node IDs. */
+export const VARIABLES_NODE_ID = "__vars";
+
+/** Display label shown in autocomplete UI and template syntax */
+export const VARIABLES_NODE_LABEL = "Vars";
+
+export const WORKFLOW_VARIABLE_TYPES = [
+  "text",
+  "number",
+  "address",
+  "boolean",
+] as const;
+
+export type WorkflowVariableType = (typeof WORKFLOW_VARIABLE_TYPES)[number];
+
+export type WorkflowVariable = {
+  name: string;
+  type: WorkflowVariableType;
+  /** Stored as entered; converted to the variable's type at run time */
+  value: string;
+  description?: string;
+  /** The workflow cannot run until this variable has a value */
+  required?: boolean;
+};
+
+export type WorkflowVariablesValidation =
+  | { valid: true; variables: WorkflowVariable[] }
+  | { valid: false; error: string };
+
+/** Variable names are used as template paths, so they must be identifiers */
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+export function isValidVariableName(name: string): boolean {
+  return VARIABLE_NAME_PATTERN.test(name);
+}
+
+function isVariableType(type: unknown): type is WorkflowVariableType {
+  return WORKFLOW_VARIABLE_TYPES.includes(type as WorkflowVariableType);
+}
+
+/**
+ * Why `value` is not a valid value for a variable of `type`, or undefined if
+ * it is. An empty value is always allowed; `required` is enforced at run time.
+ */
+export function getVariableValueError(
+  type: WorkflowVariableType,
+  value: string
+): string | undefined {
+  const trimmed = value.trim();
+  if (trimmed === "") {
+    return;
+  }
+  if (type === "number" && !Number.isFinite(Number(trimmed))) {
+    return "must be a number";
+  }
+  if (type === "address" && !ADDRESS_PATTERN.test(trimmed)) {
+    return "must be a 0x-prefixed 20-byte address";
+  }
+  if (type === "boolean" && trimmed !== "true" && trimmed !== "false") {
+    return 'must be "true" or "false"';
+  }
+  return;
+}
+
+function validateVariable(
+  entry: unknown,
+  index: number
+): WorkflowVariable | string {
+  if (typeof entry !== "object" || entry === null) {
+    return `Variable ${index + 1} must be an object`;
+  }
+  const { name, type, value, description, required } = entry as Record<
+    string,
+    unknown
+  >;
+  if (typeof name !== "string" || !isValidVariableName(name)) {
+    return `Variable ${index + 1} has an invalid name: names must start with a letter or underscore and contain only letters, digits and underscores`;
+  }
+  if (!isVariableType(type)) {
+    return `Variable "${name}" has an invalid type. Must be one of: ${WORKFLOW_VARIABLE_TYPES.join(", ")}`;
+  }
+  if (typeof value !== "string") {
+    return `Variable "${name}" must have a string value`;
+  }
+  const valueError = getVariableValueError(type, value);
+  if (valueError) {
+    return `Variable "${name}" ${valueError}`;
+  }
+  return {
+    name,
+    type,
+    value,
+    ...(typeof description === "string" && description !== ""
+      ? { description }
+      : {}),
+    ...(required === true ? { required: true } : {}),
+  };
+}
+
+/**
+ * Validate a workflow's variables as sent by a client. Returns the variables
+ * with unknown keys dropped, or the first problem found.
+ */
+export function validateWorkflowVariables(
+  value: unknown
+): WorkflowVariablesValidation {
+  if (!Array.isArray(value)) {
+    return { valid: false, error: "Workflow variables must be an array" };
+  }
+
+  const variables: WorkflowVariable[] = [];
+  const names = new Set<string>();
+  for (const [index, entry] of value.entries()) {
+    const variable = validateVariable(entry, index);
+    if (typeof variable === "string") {
+      return { valid: false, error: variable };
+    }
+    if (names.has(variable.name)) {
+      return {
+        valid: false,
+        error: `Variable "${variable.name}" is declared more than once`,
+      };
+    }
+    names.add(variable.name);
+    variables.push(variable);
+  }
+  return { valid: true, variables };
+}
+
+/** Names of required variables that do not have a value yet */
+export function getMissingVariables(
+  variables: readonly WorkflowVariable[] | null | undefined
+): string[] {
+  return (variables ?? [])
+    .filter((variable) => variable.required && variable.value.trim() === "")
+    .map((variable) => variable.name);
+}
+
+export function formatMissingVariablesError(missing: string[]): string {
+  return `Workflow variables must be set before running: ${missing.join(", ")}`;
+}
+
+function convertValue(variable: WorkflowVariable): unknown {
+  const trimmed = variable.value.trim();
+  if (trimmed === "") {
+    return "";
+  }
+  if (variable.type === "number") {
+    return Number(trimmed);
+  }
+  if (variable.type === "boolean") {
+    return trimmed === "true";
+  }
+  return trimmed;
+}
+
+/**
+ * Variable values keyed by name, converted to their declared type, as the
+ * data of the Vars pseudo-node.
+ */
+export function getVariableValues(
+  variables: readonly WorkflowVariable[] | null | undefined
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const variable of variables ?? []) {
+    values[variable.name] = convertValue(variable);
+  }
+  return values;
+}
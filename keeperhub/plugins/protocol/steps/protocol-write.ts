@@ -124,6 +124,7 @@ export async function protocolWriteStep(
       ? {
           executionId: input._context.executionId,
           triggerType: input._context.triggerType,
+          dryRun: input._context.dryRun,
         }
       : undefined,
   };
@@ -9,6 +9,7 @@ import "server-only";
 
 import { and, eq, inArray } from "drizzle-orm";
 import { ethers } from "ethers";
+import type { SimulatedWriteResult } from "@/keeperhub/lib/dry-run";
 import { ErrorCategory, logUserError } from "@/keeperhub/lib/logging";
 import {
   getOrganizationWalletAddress,
@@ -18,6 +19,7 @@ import { resolveGasLimitOverrides } from "@/keeperhub/lib/web3/gas-defaults";
 import { getGasStrategy } from "@/keeperhub/lib/web3/gas-strategy";
 import { getNonceManager } from "@/keeperhub/lib/web3/nonce-manager";
 import { resolveOrganizationContext } from "@/keeperhub/lib/web3/resolve-org-context";
+import { simulateTransaction } from "@/keeperhub/lib/web3/simulate-transaction";
 import {
   type TransactionContext,
   withNonceSession,
@@ -42,8 +44,11 @@ export type TransferTokenCoreInput = {
   tokenAddress?: string;
   _context?: {
     executionId?: string;
+    nodeId?: string;
     triggerType?: string;
     organizationId?: string;
+    /** Simulate the transfer instead of signing and sending it */
+    dryRun?: boolean;
   };
 };
 
@@ -56,6 +61,11 @@ export type TransferTokenResult =
       symbol: string;
       recipient: string;
     }
+  | (SimulatedWriteResult & {
+      amount: string;
+      symbol: string;
+      recipient: string;
+    })
   | { success: false; error: string };
 
 /**
@@ -164,6 +174,72 @@ export async function parseTokenAddress(
   return null;
 }
 
+/**
+ * Dry-run counterpart of the transfer in transferTokenCore: reads the token's
+ * decimals and symbol, then simulates the `transfer` call from the
+ * organization wallet.
+ */
+async function simulateTokenTransfer(params: {
+  rpcUrl: string;
+  chainId: number;
+  walletAddress: string;
+  tokenAddress: string;
+  recipientAddress: string;
+  amount: string;
+}): Promise<TransferTokenResult> {
+  const provider = new ethers.JsonRpcProvider(params.rpcUrl);
+  const contract = new ethers.Contract(
+    params.tokenAddress,
+    ERC20_ABI,
+    provider
+  );
+
+  let decimals: bigint;
+  let symbol: string;
+  try {
+    [decimals, symbol] = await Promise.all([
+      contract.decimals() as Promise<bigint>,
+      contract.symbol() as Promise<string>,
+    ]);
+  } catch (error) {
+    return {
+      success: false,
+      error: `Failed to read token details: ${getErrorMessage(error)}`,
+    };
+  }
+
+  let amountRaw: bigint;
+  try {
+    amountRaw = ethers.parseUnits(params.amount, Number(decimals));
+  } catch (error) {
+    return {
+      success: false,
+      error: `Invalid amount format: ${getErrorMessage(error)}`,
+    };
+  }
+
+  const result = await simulateTransaction({
+    rpcUrl: params.rpcUrl,
+    chainId: params.chainId,
+    from: params.walletAddress,
+    to: params.tokenAddress,
+    call: {
+      abi: ERC20_ABI,
+      functionName: "transfer",
+      args: [params.recipientAddress, amountRaw],
+    },
+  });
+  if (!result.success) {
+    return result;
+  }
+  return {
+    ...result,
+    amount: params.amount,
+    symbol,
+    recipient: params.recipientAddress,
+  };
+}
+
 /**
  * Core transfer token logic
  *
@@ -272,6 +348,17 @@ export async function transferTokenCore(
     };
   }
 
+  if (_context.dryRun) {
+    return await simulateTokenTransfer({
+      rpcUrl,
+      chainId,
+      walletAddress,
+      tokenAddress,
+      recipientAddress,
+      amount,
+    });
+  }
+
   // Get workflow ID for transaction tracking (only for workflow executions)
   let workflowId: string | undefined;
   if (_context.executionId && !_context.organizationId) {
@@ -292,6 +379,7 @@ export async function transferTokenCore(
     organizationId,
     executionId: _context.executionId ?? "direct-execution",
     workflowId,
+    nodeId: _context.nodeId,
     chainId,
     rpcUrl,
     triggerType: _context.triggerType as TransactionContext["triggerType"],
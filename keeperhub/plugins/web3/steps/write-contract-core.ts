@@ -9,6 +9,7 @@ import "server-only";
 
 import { eq } from "drizzle-orm";
 import { ethers } from "ethers";
+import type { SimulatedWriteResult } from "@/keeperhub/lib/dry-run";
 import { ErrorCategory, logUserError } from "@/keeperhub/lib/logging";
 import {
   getOrganizationWalletAddress,
@@ -18,6 +19,7 @@ import { resolveGasLimitOverrides } from "@/keeperhub/lib/web3/gas-defaults";
 import { getGasStrategy } from "@/keeperhub/lib/web3/gas-strategy";
 import { getNonceManager } from "@/keeperhub/lib/web3/nonce-manager";
 import { resolveOrganizationContext } from "@/keeperhub/lib/web3/resolve-org-context";
+import { simulateTransaction } from "@/keeperhub/lib/web3/simulate-transaction";
 import {
   type TransactionContext,
   withNonceSession,
@@ -37,8 +39,11 @@ export type WriteContractCoreInput = {
   gasLimitMultiplier?: string;
   _context?: {
     executionId?: string;
+    nodeId?: string;
     triggerType?: string;
     organizationId?: string;
+    /** Simulate the transaction instead of signing and sending it */
+    dryRun?: boolean;
   };
 };
 
@@ -49,6 +54,7 @@ export type WriteContractResult =
       transactionLink: string;
       result?: unknown;
     }
+  | SimulatedWriteResult
   | { success: false; error: string };
 
 /**
@@ -199,6 +205,16 @@ export async function writeContractCore(
     };
   }
 
+  if (_context?.dryRun) {
+    return await simulateTransaction({
+      rpcUrl,
+      chainId,
+      from: walletAddress,
+      to: contractAddress,
+      call: { abi: parsedAbi, functionName: abiFunction, args },
+    });
+  }
+
   // Get workflow ID for transaction tracking (only for workflow executions)
   let workflowId: string | undefined;
   if (_context?.executionId && !_context?.organizationId) {
@@ -219,6 +235,7 @@ export async function writeContractCore(
     organizationId,
     executionId: _context?.executionId ?? "direct-execution",
     workflowId,
+    nodeId: _context?.nodeId,
     chainId,
     rpcUrl,
     triggerType: _context?.triggerType as TransactionContext["triggerType"],
@@ -3,6 +3,10 @@
  * Replaces server actions with API endpoints
  */
 
+// start custom keeperhub code //
+import type { ConcurrencyPolicy } from "@/keeperhub/lib/concurrency-policy";
+import type { WorkflowVariable } from "@/keeperhub/lib/workflow-variables";
+// end keeperhub code //
 import type { IntegrationConfig, IntegrationType } from "./types/integration";
 import type { WorkflowEdge, WorkflowNode } from "./workflow-store";
 
@@ -20,6 +24,8 @@ export type WorkflowData = {
   // start custom keeperhub code //
   projectId?: string | null;
   tagId?: string | null;
+  variables?: WorkflowVariable[];
+  concurrencyPolicy?: ConcurrencyPolicy;
   // end keeperhub code //
 };
 
@@ -31,6 +37,14 @@ export type PublicTag = {
   workflowCount?: number;
   createdAt?: string;
 };
+
+export type WebhookSecretResponse =
+  | {
+      secret: string;
+      rotatedAt: string;
+      previousSecretExpiresAt: string | null;
+    }
+  | { secret: null };
 // end keeperhub code //
 
 export type SavedWorkflow = WorkflowData & {
@@ -571,6 +585,15 @@ export const workflowApi = {
       method: "PUT",
       body: JSON.stringify(data),
     }),
+
+  // Webhook signing secret (for triggers that verify HMAC signatures)
+  getWebhookSecret: (id: string) =>
+    apiCall<WebhookSecretResponse>(`/api/workflows/${id}/webhook-secret`),
+  rotateWebhookSecret: (id: string, data: { revokePrevious?: boolean } = {}) =>
+    apiCall<WebhookSecretResponse>(`/api/workflows/${id}/webhook-secret`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    }),
   // end keeperhub code //
 
   // Get current workflow state
@@ -634,6 +657,21 @@ export const workflowApi = {
         lastSuccessfulNodeId: string | null;
         lastSuccessfulNodeName: string | null;
         executionTrace: string[] | null;
+        // start custom keeperhub code //
+        waitingUntil: Date | null;
+        parentExecutionId: string | null;
+        resumedFromExecutionId: string | null;
+        dryRun: boolean;
+        childExecutions: Array<{
+          id: string;
+          workflowId: string;
+          workflowName: string;
+          status: string;
+          startedAt: Date;
+          duration: string | null;
+          error: string | null;
+        }>;
+        // end keeperhub code //
       }>
     >(`/api/workflows/${id}/executions`),
 
@@ -673,7 +711,7 @@ export const workflowApi = {
         nodeId: string;
         nodeName: string;
         nodeType: string;
-        status: "pending" | "running" | "success" | "error";
+        status: "pending" | "running" | "success" | "error" | "timeout";
         input: unknown;
         output: unknown;
         error: string | null;
@@ -683,6 +721,7 @@ export const workflowApi = {
         // start custom keeperhub code //
         iterationIndex: number | null;
         forEachNodeId: string | null;
+        attempt: number | null;
         // end keeperhub code //
       }>;
     }>(`/api/workflows/executions/${executionId}/logs`),
@@ -697,6 +736,26 @@ export const workflowApi = {
       }>;
     }>(`/api/workflows/executions/${executionId}/status`),
 
+  // start custom keeperhub code //
+  // Cancel a pending or running execution (and its sub-workflow runs)
+  cancelExecution: (executionId: string) =>
+    apiCall<{
+      executionId: string;
+      status: "cancelled";
+      cancelledExecutionIds: string[];
+    }>(`/api/workflows/executions/${executionId}/cancel`, {
+      method: "POST",
+    }),
+  resumeExecution: (executionId: string) =>
+    apiCall<{
+      executionId: string;
+      resumedFromExecutionId: string;
+      status: "running";
+    }>(`/api/workflows/executions/${executionId}/resume`, {
+      method: "POST",
+    }),
+  // end keeperhub code //
+
   // Download workflow
   download: (id: string) =>
     apiCall<{
@@ -849,6 +908,50 @@ export const projectApi = {
     }),
 };
 
+export type Approval = {
+  id: string;
+  executionId: string;
+  workflowId: string;
+  workflowName: string;
+  nodeId: string;
+  nodeName: string;
+  message: string;
+  approverRole: "member" | "admin" | "owner";
+  status: "pending" | "approved" | "rejected" | "expired" | "cancelled";
+  expiresAt: string;
+  decidedBy: { id: string; name: string | null; email: string | null } | null;
+  decidedAt: string | null;
+  comment: string | null;
+  createdAt: string;
+};
+
+export const approvalApi = {
+  getAll: (filters: {
+    status?: Approval["status"];
+    workflowId?: string;
+    executionId?: string;
+  }) => {
+    const params = new URLSearchParams(
+      Object.entries(filters).filter(
+        (entry): entry is [string, string] => entry[1] !== undefined
+      )
+    );
+    return apiCall<Approval[]>(`/api/approvals?${params.toString()}`);
+  },
+
+  decide: (
+    id: string,
+    data: { decision: "approved" | "rejected"; comment?: string }
+  ) =>
+    apiCall<Pick<Approval, "id" | "status" | "decidedBy" | "decidedAt">>(
+      `/api/approvals/${id}/decide`,
+      {
+        method: "POST",
+        body: JSON.stringify(data),
+      }
+    ),
+};
+
 // end keeperhub code //
 
 // Export all APIs as a single object
@@ -858,6 +961,7 @@ export const api = {
   integration: integrationApi,
   organization: organizationApi,
   // start custom keeperhub code //
+  approval: approvalApi,
   project: projectApi,
   publicTag: publicTagApi,
   tag: tagApi,
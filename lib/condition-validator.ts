@@ -23,6 +23,15 @@
  * - Comments
  */
 
+// start custom keeperhub code
+import {
+  compareNumeric,
+  SWITCH_DEFAULT_HANDLE,
+  type SwitchCase,
+} from "@/keeperhub/lib/switch-cases";
+
+// end keeperhub code
+
 // Dangerous patterns that should never appear in conditions
 const DANGEROUS_PATTERNS = [
   // Assignment operators
@@ -972,3 +981,126 @@ export function validateConditionExpressionUI(
   return validateOperators(tokens);
 }
 // end keeperhub code
+
+// start custom keeperhub code
+/** Upper bound on regex case patterns to keep evaluation cheap */
+const MAX_SWITCH_PATTERN_LENGTH = 200;
+
+function validateSwitchRange(
+  name: string,
+  switchCase: SwitchCase
+): ValidationResult {
+  const min = switchCase.min?.trim() ?? "";
+  const max = switchCase.max?.trim() ?? "";
+  if (min === "" && max === "") {
+    return {
+      valid: false,
+      error: `Case "${name}" needs a minimum, a maximum, or both`,
+    };
+  }
+  if (min !== "" && compareNumeric(min, "0") === null) {
+    return { valid: false, error: `Case "${name}" minimum is not a number` };
+  }
+  if (max !== "" && compareNumeric(max, "0") === null) {
+    return { valid: false, error: `Case "${name}" maximum is not a number` };
+  }
+  if (min !== "" && max !== "" && (compareNumeric(min, max) ?? 0) >= 0) {
+    return {
+      valid: false,
+      error: `Case "${name}" minimum must be less than its maximum`,
+    };
+  }
+  return { valid: true };
+}
+
+function validateSwitchPattern(
+  name: string,
+  switchCase: SwitchCase
+): ValidationResult {
+  const pattern = switchCase.value ?? "";
+  if (pattern === "") {
+    return { valid: false, error: `Case "${name}" needs a pattern` };
+  }
+  if (pattern.length > MAX_SWITCH_PATTERN_LENGTH) {
+    return {
+      valid: false,
+      error: `Case "${name}" pattern is longer than ${MAX_SWITCH_PATTERN_LENGTH} characters`,
+    };
+  }
+  try {
+    new RegExp(pattern);
+  } catch (error) {
+    return {
+      valid: false,
+      error: `Case "${name}" pattern is invalid: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+  return { valid: true };
+}
+
+/**
+ * Validates a single Switch case definition
+ */
+function validateSwitchCase(switchCase: SwitchCase): ValidationResult {
+  const name = switchCase.label || switchCase.id;
+
+  switch (switchCase.type) {
+    case "equals":
+      if (switchCase.value === undefined) {
+        return {
+          valid: false,
+          error: `Case "${name}" needs a value to compare against`,
+        };
+      }
+      return { valid: true };
+    case "range":
+      return validateSwitchRange(name, switchCase);
+    case "regex":
+      return validateSwitchPattern(name, switchCase);
+    default:
+      return {
+        valid: false,
+        error: `Case "${name}" has an unknown type`,
+      };
+  }
+}
+
+/**
+ * Validates the ordered case list of a Switch node.
+ * Used both in the editor (informational) and by the Switch step before
+ * evaluation, so every case is checked once up front instead of failing
+ * mid-match.
+ */
+export function validateSwitchCases(cases: SwitchCase[]): ValidationResult {
+  if (cases.length === 0) {
+    return { valid: false, error: "Switch has no cases configured" };
+  }
+
+  const seenIds = new Set<string>();
+  for (const switchCase of cases) {
+    if (!switchCase.id) {
+      return { valid: false, error: "Every case needs an id" };
+    }
+    if (switchCase.id === SWITCH_DEFAULT_HANDLE) {
+      return {
+        valid: false,
+        error: `"${SWITCH_DEFAULT_HANDLE}" is reserved for the default branch`,
+      };
+    }
+    if (seenIds.has(switchCase.id)) {
+      return {
+        valid: false,
+        error: `Duplicate case id "${switchCase.id}"`,
+      };
+    }
+    seenIds.add(switchCase.id);
+
+    const caseCheck = validateSwitchCase(switchCase);
+    if (!caseCheck.valid) {
+      return caseCheck;
+    }
+  }
+
+  return { valid: true };
+}
+// end keeperhub code
@@ -392,10 +392,22 @@ type WorkflowNodeForValidation = {
     config?: {
       integrationId?: string;
       actionType?: string;
+      // start custom keeperhub code //
+      discordIntegrationId?: string;
+      telegramIntegrationId?: string;
+      // end keeperhub code //
     };
   };
 };
 
+// start custom keeperhub code //
+/** Config keys of the channels an Approval node posts its link to */
+const APPROVAL_CHANNEL_KEYS = [
+  "discordIntegrationId",
+  "telegramIntegrationId",
+] as const;
+// end keeperhub code //
+
 /**
  * Check if a node's integration ID should be included for validation
  */
@@ -430,6 +442,15 @@ export function extractIntegrationIds(
   const integrationIds: string[] = [];
 
   for (const node of nodes) {
+    // start custom keeperhub code //
+    for (const key of APPROVAL_CHANNEL_KEYS) {
+      const channelId = node.data?.config?.[key];
+      if (channelId && typeof channelId === "string") {
+        integrationIds.push(channelId);
+      }
+    }
+    // end keeperhub code //
+
     const integrationId = node.data?.config?.integrationId;
     if (!integrationId || typeof integrationId !== "string") {
       continue;
@@ -10,6 +10,10 @@ import {
   timestamp,
   uniqueIndex,
 } from "drizzle-orm/pg-core";
+// start custom keeperhub code //
+import type { ConcurrencyPolicy } from "../../keeperhub/lib/concurrency-policy";
+import type { WorkflowVariable } from "../../keeperhub/lib/workflow-variables";
+// end keeperhub code //
 import type { IntegrationType } from "../types/integration";
 import { generateId } from "../utils/id";
 
@@ -218,6 +222,14 @@ export const workflows = pgTable("workflows", {
   tagId: text("tag_id").references(() => tags.id, {
     onDelete: "set null",
   }),
+  variables: jsonb("variables")
+    .notNull()
+    .default([])
+    .$type<WorkflowVariable[]>(),
+  concurrencyPolicy: text("concurrency_policy")
+    .notNull()
+    .default("allow")
+    .$type<ConcurrencyPolicy>(),
   // end keeperhub code //
   // biome-ignore lint/suspicious/noExplicitAny: JSONB type - structure validated at application level
   nodes: jsonb("nodes").notNull().$type<any[]>(),
@@ -256,6 +268,9 @@ export const integrations = pgTable("integrations", {
 });
 
 // Workflow executions table to track workflow runs
+// start custom keeperhub code //
+// biome-ignore format: keeps the upstream table layout; the fork only adds columns and indexes
+// end keeperhub code //
 export const workflowExecutions = pgTable("workflow_executions", {
   id: text("id")
     .primaryKey()
@@ -268,7 +283,7 @@ export const workflowExecutions = pgTable("workflow_executions", {
     .references(() => users.id),
   status: text("status")
     .notNull()
-    .$type<"pending" | "running" | "success" | "error" | "cancelled">(),
+    .$type<"pending" | "running" | "success" | "error" | "cancelled" | "timeout">(),
   // biome-ignore lint/suspicious/noExplicitAny: JSONB type - structure validated at application level
   input: jsonb("input").$type<Record<string, any>>(),
   // biome-ignore lint/suspicious/noExplicitAny: JSONB type - structure validated at application level
@@ -287,8 +302,29 @@ export const workflowExecutions = pgTable("workflow_executions", {
   executionTrace: jsonb("execution_trace").$type<string[]>(),
   // start custom keeperhub code //
   runId: text("run_id"),
+  /** Set while a Delay node is waiting; cleared when it resumes */
+  waitingUntil: timestamp("waiting_until"),
+  /** Set while the K8s runner has suspended the run until `waitingUntil` */
+  suspendedAt: timestamp("suspended_at"),
+  /** Execution of the workflow whose Execute Workflow node started this run */
+  parentExecutionId: text("parent_execution_id"),
+  /** Failed execution this run resumes; its completed nodes were not re-run */
+  resumedFromExecutionId: text("resumed_from_execution_id"),
+  /** Dry run: writes were simulated and notifications were not sent */
+  dryRun: boolean("dry_run").notNull().default(false),
+  /** De-duplication key of the trigger that created this run */
+  dedupeKey: text("dedupe_key"),
   // end keeperhub code //
-});
+},
+// start custom keeperhub code //
+(table) => [
+  index("idx_workflow_executions_parent").on(table.parentExecutionId),
+  index("idx_workflow_executions_resumed_from").on(table.resumedFromExecutionId),
+  index("idx_workflow_executions_dedupe").on(table.workflowId, table.dedupeKey),
+  index("idx_workflow_executions_suspended").on(table.suspendedAt, table.waitingUntil),
+]
+// end keeperhub code //
+);
 
 // Workflow execution logs to track individual node executions
 export const workflowExecutionLogs = pgTable("workflow_execution_logs", {
@@ -303,7 +339,7 @@ export const workflowExecutionLogs = pgTable("workflow_execution_logs", {
   nodeType: text("node_type").notNull(),
   status: text("status")
     .notNull()
-    .$type<"pending" | "running" | "success" | "error">(),
+    .$type<"pending" | "running" | "success" | "error" | "timeout">(),
   // biome-ignore lint/suspicious/noExplicitAny: JSONB type - structure validated at application level
   input: jsonb("input").$type<any>(),
   // biome-ignore lint/suspicious/noExplicitAny: JSONB type - structure validated at application level
@@ -316,6 +352,10 @@ export const workflowExecutionLogs = pgTable("workflow_execution_logs", {
   // start custom keeperhub code //
   iterationIndex: integer("iteration_index"), // 0-based loop iteration (null for non-loop nodes)
   forEachNodeId: text("for_each_node_id"), // parent For Each node ID (null for non-loop nodes)
+  attempt: integer("attempt"), // 1-based retry attempt (null when the node has no retry policy)
+  /** Unredacted output of a successful step, replayed by resumed executions; never returned by the API */
+  // biome-ignore lint/suspicious/noExplicitAny: JSONB type - structure validated at application level
+  replayOutput: jsonb("replay_output").$type<any>(),
   // end keeperhub code //
 });
 
@@ -331,7 +371,10 @@ export {
   type NewParaWallet,
   type NewPublicTag,
   type NewSupportedToken,
+  type NewWorkflowApproval,
   type NewWorkflowPublicTag,
+  type NewWorkflowWebhookPath,
+  type NewWorkflowWebhookSecret,
   type OrganizationApiKey,
   type OrganizationSpendCap,
   type OrganizationToken,
@@ -347,9 +390,15 @@ export {
   type SupportedToken,
   supportedTokens,
   type WalletLock,
+  type WorkflowApproval,
   type WorkflowPublicTag,
+  type WorkflowWebhookPath,
+  type WorkflowWebhookSecret,
   walletLocks,
+  workflowApprovals,
   workflowPublicTags,
+  workflowWebhookPaths,
+  workflowWebhookSecrets,
 } from "../../keeperhub/db/schema-extensions";
 
 // API Keys table for webhook authentication
@@ -391,7 +440,11 @@ export const workflowSchedules = pgTable(
     timezone: text("timezone").notNull().default("UTC"),
     enabled: boolean("enabled").notNull().default(true),
     lastRunAt: timestamp("last_run_at", { withTimezone: true }),
-    lastStatus: text("last_status").$type<"success" | "error" | null>(),
+    // start custom keeperhub code //
+    lastStatus: text("last_status").$type<
+      "success" | "error" | "timeout" | null
+    >(),
+    // end keeperhub code //
     lastError: text("last_error"),
     nextRunAt: timestamp("next_run_at", { withTimezone: true }),
     runCount: text("run_count").default("0"),
@@ -6,10 +6,12 @@
 import "server-only";
 
 // start custom keeperhub code //
+import { createCancelledResult } from "@/keeperhub/lib/execution-cancel";
 import { recordStepMetrics } from "@/keeperhub/lib/metrics/instrumentation/workflow";
 import { redactSensitiveData } from "../utils/redact";
 import {
   incrementCompletedSteps,
+  isExecutionCancelledDb,
   logStepCompleteDb,
   logStepStartDb,
   logWorkflowCompleteDb,
@@ -26,6 +28,17 @@ export type StepContext = {
   triggerType?: string;
   iterationIndex?: number;
   forEachNodeId?: string;
+  /** 1-based attempt number when the node has a retry policy */
+  attempt?: number;
+  /**
+   * False while the executor may still retry a failed attempt. When it then
+   * gives up early it records the step's completion itself.
+   */
+  finalAttempt?: boolean;
+  /** Set when a Wait Until node re-runs this read; the read already counted */
+  pollAttempt?: number;
+  /** Dry run: writes are simulated and notifications are not sent */
+  dryRun?: boolean;
   // end keeperhub code //
 };
 
@@ -65,6 +78,7 @@ async function logStepStart(
       // start custom keeperhub code //
       iterationIndex: context.iterationIndex,
       forEachNodeId: context.forEachNodeId,
+      attempt: context.attempt,
       // end keeperhub code //
     });
 
@@ -97,12 +111,51 @@ async function logStepComplete(
       status,
       output: redactedOutput,
       error,
+      // start custom keeperhub code //
+      replayOutput: output,
+      // end keeperhub code //
     });
   } catch (err) {
     console.error("[stepHandler] Failed to log completion:", err);
   }
 }
 
+// start custom keeperhub code //
+/**
+ * A failed attempt that the executor may still retry is not a completed step;
+ * only the final attempt counts towards execution progress.
+ */
+function isFinalAttempt(context: StepContext | undefined): boolean {
+  return context?.finalAttempt !== false;
+}
+
+/**
+ * Reads repeated by a Wait Until node were counted towards progress on their
+ * first run.
+ */
+function isPollRerun(context: StepContext | undefined): boolean {
+  return context?.pollAttempt !== undefined;
+}
+
+/**
+ * Steps of a cancelled execution do not run. A failed lookup lets the step
+ * run rather than cancelling a healthy execution.
+ */
+export async function isExecutionCancelled(
+  context: StepContext | undefined
+): Promise<boolean> {
+  if (!context?.executionId) {
+    return false;
+  }
+  try {
+    return await isExecutionCancelledDb(context.executionId);
+  } catch (err) {
+    console.error("[stepHandler] Failed to check cancellation:", err);
+    return false;
+  }
+}
+// end keeperhub code //
+
 /**
  * Strip _context from input for logging (we don't want to log internal metadata)
  */
@@ -117,7 +170,7 @@ function stripContext<T extends StepInput>(input: T): Omit<T, "_context"> {
  */
 export async function logWorkflowComplete(options: {
   executionId: string;
-  status: "success" | "error";
+  status: "success" | "error" | "timeout" | "cancelled";
   output?: unknown;
   error?: string;
   startTime: number;
@@ -142,7 +195,7 @@ export async function logWorkflowComplete(options: {
  */
 export type StepContextWithWorkflow = StepContext & {
   _workflowComplete?: {
-    status: "success" | "error";
+    status: "success" | "error" | "timeout" | "cancelled";
     output?: unknown;
     error?: string;
     startTime: number;
@@ -179,6 +232,12 @@ export async function withStepLogging<TInput extends StepInput, TOutput>(
   const context = input._context as StepContextWithWorkflow | undefined;
   const loggedInput = stripContext(input);
 
+  // start custom keeperhub code //
+  if (await isExecutionCancelled(context)) {
+    return createCancelledResult() as TOutput;
+  }
+  // end keeperhub code //
+
   // Update progress: mark this step as currently running
   if (context?.executionId && context.nodeId) {
     try {
@@ -240,7 +299,14 @@ export async function withStepLogging<TInput extends StepInput, TOutput>(
     }
 
     // Update progress: increment completed steps
-    if (context?.executionId && context.nodeId) {
+    if (
+      context?.executionId &&
+      context.nodeId &&
+      // start custom keeperhub code //
+      (!isErrorResult || isFinalAttempt(context)) &&
+      !isPollRerun(context)
+      // end keeperhub code //
+    ) {
       try {
         await incrementCompletedSteps({
           executionId: context.executionId,
@@ -283,7 +349,14 @@ export async function withStepLogging<TInput extends StepInput, TOutput>(
     // end keeperhub code //
 
     // Update progress on error too
-    if (context?.executionId && context.nodeId) {
+    if (
+      context?.executionId &&
+      context.nodeId &&
+      // start custom keeperhub code //
+      isFinalAttempt(context) &&
+      !isPollRerun(context)
+      // end keeperhub code //
+    ) {
       try {
         await incrementCompletedSteps({
           executionId: context.executionId,
@@ -20,7 +20,7 @@ export type TriggerInput = StepInput & {
   /** If set, this call is just to log workflow completion (no trigger execution) */
   _workflowComplete?: {
     executionId: string;
-    status: "success" | "error";
+    status: "success" | "error" | "timeout" | "cancelled";
     output?: unknown;
     error?: string;
     startTime: number;
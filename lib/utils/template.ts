@@ -4,6 +4,14 @@
  * New format: {{@nodeId:DisplayName.field}} for ID-based references with display names
  */
 
+// start custom keeperhub code //
+import {
+  applyTemplateFilters,
+  splitTemplateFilters,
+} from "@/keeperhub/lib/template-filters";
+
+// end custom keeperhub code //
+
 // Regex constants for performance
 const TEMPLATE_PATTERN = /\{\{([^}]+)\}\}/g;
 const ARRAY_ACCESS_PATTERN = /^([^[]+)\[(\d+)\]$/;
@@ -114,6 +122,40 @@ function processLegacyLabelReference(
   return "";
 }
 
+// start custom keeperhub code //
+/**
+ * Resolve a reference to its raw value, for pipe filters. Mirrors the three
+ * reference formats handled by processTemplate.
+ */
+function resolveReferenceValue(
+  reference: string,
+  nodeOutputs: NodeOutputs
+): unknown {
+  if (reference.startsWith("@")) {
+    const colonIndex = reference.indexOf(":");
+    if (colonIndex === -1) {
+      return;
+    }
+    const nodeId = reference.substring(1, colonIndex);
+    const rest = reference.substring(colonIndex + 1);
+    const dotIndex = rest.indexOf(".");
+    const data = nodeOutputs[nodeId]?.data;
+    return dotIndex === -1
+      ? data
+      : resolveFieldPath(data, rest.substring(dotIndex + 1));
+  }
+  if (reference.startsWith("$")) {
+    const expression = reference.substring(1);
+    return expression.includes(".") || expression.includes("[")
+      ? resolveExpressionById(expression, nodeOutputs)
+      : nodeOutputs[expression]?.data;
+  }
+  return reference.includes(".") || reference.includes("[")
+    ? resolveExpression(reference, nodeOutputs)
+    : findNodeOutputByLabel(reference, nodeOutputs)?.data;
+}
+// end custom keeperhub code //
+
 /**
  * Replace template variables in a string with actual values from node outputs
  * Supports:
@@ -134,6 +176,18 @@ export function processTemplate(
   return template.replace(TEMPLATE_PATTERN, (match, expression) => {
     const trimmed = expression.trim();
 
+    // start custom keeperhub code //
+    const { reference, filters } = splitTemplateFilters(trimmed);
+    if (filters.length > 0) {
+      return formatValue(
+        applyTemplateFilters(
+          resolveReferenceValue(reference, nodeOutputs),
+          filters
+        )
+      );
+    }
+    // end custom keeperhub code //
+
     let result: string;
     if (trimmed.startsWith("@")) {
       result = processNewFormatReference(trimmed, nodeOutputs, match);
@@ -1,5 +1,17 @@
 import "server-only";
 
+// start custom keeperhub code //
+import {
+  CONDITION_FALSE_HANDLE,
+  CONDITION_TRUE_HANDLE,
+  getConditionBranchTargets,
+} from "@/keeperhub/lib/condition-branches";
+import { isErrorEdge } from "@/keeperhub/lib/error-handler-edges";
+import {
+  createJoinPlacement,
+  getJoinMode,
+} from "@/keeperhub/lib/join-semantics";
+// end keeperhub code //
 import { findActionById } from "@/plugins";
 // System action codegen templates (not in plugin registry)
 import conditionTemplate from "./codegen-templates/condition";
@@ -231,6 +243,20 @@ export function generateWorkflowSDKCode(
   // Find trigger nodes
   const triggerNodes = findTriggerNodes(nodes, edges);
 
+  // start custom keeperhub code //
+  // Join nodes are generated once, after every branch leading to them
+  const joinPlacement = createJoinPlacement(
+    edges.filter((edge) => !isErrorEdge(edge)),
+    (nodeId) => getJoinMode(nodeMap.get(nodeId)?.data.config)
+  );
+
+  function closeJoinScope(indent: string, visitedLocal: Set<string>): string[] {
+    return joinPlacement
+      .close()
+      .flatMap((joinId) => generateWorkflowBody(joinId, indent, visitedLocal));
+  }
+  // end keeperhub code //
+
   // Analyze which node outputs are actually used
   const usedNodeOutputs = analyzeNodeUsageSDK(nodes);
 
@@ -536,28 +562,46 @@ ${stepBody}
   ): string[] {
     const condition = (node.data.config?.condition as string) || "true";
     const convertedCondition = convertTemplateToJS(condition);
-    const nextNodes = edgesBySource.get(nodeId) || [];
+    // start custom keeperhub code //
+    const branchTargets = getConditionBranchTargets(nodeId, edges);
+    const trueNodes = branchTargets[CONDITION_TRUE_HANDLE];
+    const falseNodes = branchTargets[CONDITION_FALSE_HANDLE];
+    // end keeperhub code //
     const conditionVarName = `conditionValue_${sanitizeVarName(nodeId)}`;
     const lines: string[] = [];
 
-    if (nextNodes.length > 0) {
+    if (trueNodes.length > 0 || falseNodes.length > 0) {
       lines.push(`${indent}// ${node.data.label}`);
       lines.push(
         `${indent}const ${conditionVarName} = \`${escapeForTemplateLiteral(convertedCondition)}\`;`
       );
       lines.push(`${indent}if (${conditionVarName}) {`);
 
-      if (nextNodes[0]) {
+      // start custom keeperhub code //
+      joinPlacement.open();
+      // end keeperhub code //
+      for (const trueNode of trueNodes) {
         lines.push(
-          ...generateWorkflowBody(nextNodes[0], `${indent}  `, visitedLocal)
+          ...generateWorkflowBody(trueNode, `${indent}  `, visitedLocal)
         );
       }
+      // start custom keeperhub code //
+      lines.push(...closeJoinScope(`${indent}  `, visitedLocal));
+      // end keeperhub code //
 
-      if (nextNodes[1]) {
+      if (falseNodes.length > 0) {
         lines.push(`${indent}} else {`);
-        lines.push(
-          ...generateWorkflowBody(nextNodes[1], `${indent}  `, visitedLocal)
-        );
+        // start custom keeperhub code //
+        joinPlacement.open();
+        // end keeperhub code //
+        for (const falseNode of falseNodes) {
+          lines.push(
+            ...generateWorkflowBody(falseNode, `${indent}  `, visitedLocal)
+          );
+        }
+        // start custom keeperhub code //
+        lines.push(...closeJoinScope(`${indent}  `, visitedLocal));
+        // end keeperhub code //
       }
 
       lines.push(`${indent}}`);
@@ -575,12 +619,20 @@ ${stepBody}
     if (visitedLocal.has(nodeId)) {
       return [];
     }
+    // start custom keeperhub code //
+    if (joinPlacement.defer(nodeId)) {
+      return [];
+    }
+    // end keeperhub code //
 
     visitedLocal.add(nodeId);
     const node = nodeMap.get(nodeId);
     if (!node) {
       return [];
     }
+    // start custom keeperhub code //
+    joinPlacement.generated(nodeId);
+    // end keeperhub code //
 
     const lines: string[] = [];
 
@@ -638,9 +690,15 @@ ${stepBody}
     );
     workflowBody.push("");
 
+    // start custom keeperhub code //
+    joinPlacement.open();
+    // end keeperhub code //
     for (const trigger of triggerNodes) {
       workflowBody.push(...generateWorkflowBody(trigger.id));
     }
+    // start custom keeperhub code //
+    workflowBody.push(...closeJoinScope("  ", new Set()));
+    // end keeperhub code //
 
     // Find the last node to return its result
     const lastNode = nodes.at(-1);
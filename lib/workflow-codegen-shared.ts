@@ -1,3 +1,6 @@
+// start custom keeperhub code //
+import { isErrorEdge } from "@/keeperhub/lib/error-handler-edges";
+// end keeperhub code //
 import { findActionById } from "@/plugins";
 import type { WorkflowEdge, WorkflowNode } from "./workflow-store";
 
@@ -88,6 +91,13 @@ export function analyzeNodeUsage(nodes: WorkflowNode[]): Set<string> {
 export function buildEdgeMap(edges: WorkflowEdge[]): Map<string, string[]> {
   const edgesBySource = new Map<string, string[]>();
   for (const edge of edges) {
+    // start custom keeperhub code //
+    // Failure paths only run when a step fails; generated code has no
+    // equivalent, so they are left out rather than run unconditionally
+    if (isErrorEdge(edge)) {
+      continue;
+    }
+    // end keeperhub code //
     const targets = edgesBySource.get(edge.source) || [];
     targets.push(edge.target);
     edgesBySource.set(edge.source, targets);
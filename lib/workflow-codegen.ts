@@ -1,3 +1,15 @@
+// start custom keeperhub code //
+import {
+  CONDITION_FALSE_HANDLE,
+  CONDITION_TRUE_HANDLE,
+  getConditionBranchTargets,
+} from "@/keeperhub/lib/condition-branches";
+import { isErrorEdge } from "@/keeperhub/lib/error-handler-edges";
+import {
+  createJoinPlacement,
+  getJoinMode,
+} from "@/keeperhub/lib/join-semantics";
+// end keeperhub code //
 import { findActionById, flattenConfigFields } from "@/plugins";
 import {
   analyzeNodeUsage,
@@ -50,6 +62,12 @@ export function generateWorkflowCode(
   const nodeMap = new Map(nodes.map((n) => [n.id, n]));
   const edgesBySource = new Map<string, string[]>();
   for (const edge of edges) {
+    // start custom keeperhub code //
+    // Failure paths have no equivalent in generated code
+    if (isErrorEdge(edge)) {
+      continue;
+    }
+    // end keeperhub code //
     const targets = edgesBySource.get(edge.source) || [];
     targets.push(edge.target);
     edgesBySource.set(edge.source, targets);
@@ -61,6 +79,14 @@ export function generateWorkflowCode(
     (node) => node.data.type === "trigger" && !nodesWithIncoming.has(node.id)
   );
 
+  // start custom keeperhub code //
+  // Join nodes are generated once, after every branch leading to them
+  const joinPlacement = createJoinPlacement(
+    edges.filter((edge) => !isErrorEdge(edge)),
+    (nodeId) => getJoinMode(nodeMap.get(nodeId)?.data.config)
+  );
+  // end keeperhub code //
+
   // Check if any trigger's output is used (meaning input param is needed)
   const inputIsUsed = triggerNodes.some((trigger) =>
     usedNodeOutputs.has(trigger.id)
@@ -850,12 +876,13 @@ export function generateWorkflowCode(
     }
 
     const condition = node.data.config?.condition as string;
-    const nextNodes = edgesBySource.get(nodeId) || [];
-
-    if (nextNodes.length > 0) {
-      const trueNode = nextNodes[0];
-      const falseNode = nextNodes[1];
+    // start custom keeperhub code //
+    const branchTargets = getConditionBranchTargets(nodeId, edges);
+    const trueNodes = branchTargets[CONDITION_TRUE_HANDLE];
+    const falseNodes = branchTargets[CONDITION_FALSE_HANDLE];
+    // end keeperhub code //
 
+    if (trueNodes.length > 0 || falseNodes.length > 0) {
       // Convert template references in condition to JavaScript expressions (not template literal syntax)
       // KEEP-1284: Collect validation error when condition is empty/unconfigured.
       // Conditions must have an explicit expression to be valid.
@@ -869,15 +896,15 @@ export function generateWorkflowCode(
       }
 
       lines.push(`${indent}if (${convertedCondition}) {`);
-      if (trueNode) {
-        const trueNodeCode = generateNodeCode(trueNode, `${indent}  `);
-        lines.push(...trueNodeCode);
-      }
+      lines.push(
+        ...trueNodes.flatMap((id) => generateNodeCode(id, `${indent}  `))
+      );
 
-      if (falseNode) {
+      if (falseNodes.length > 0) {
         lines.push(`${indent}} else {`);
-        const falseNodeCode = generateNodeCode(falseNode, `${indent}  `);
-        lines.push(...falseNodeCode);
+        lines.push(
+          ...falseNodes.flatMap((id) => generateNodeCode(id, `${indent}  `))
+        );
       }
 
       lines.push(`${indent}}`);
@@ -919,20 +946,27 @@ export function generateWorkflowCode(
    * Generate code for a complete branch (node + all descendants)
    * Used inside async IIFEs for parallel branches
    */
+  // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: branch generation also places join nodes
   function generateBranchCode(
     nodeId: string,
     indent: string,
     branchVisited: Set<string>
   ): string[] {
-    if (branchVisited.has(nodeId)) {
+    // start custom keeperhub code //
+    // Joins are deferred until every branch leading to them is generated
+    if (branchVisited.has(nodeId) || joinPlacement.defer(nodeId)) {
       return [];
     }
+    // end keeperhub code //
     branchVisited.add(nodeId);
 
     const node = nodeMap.get(nodeId);
     if (!node) {
       return [];
     }
+    // start custom keeperhub code //
+    joinPlacement.generated(nodeId);
+    // end keeperhub code //
 
     const lines: string[] = [];
 
@@ -971,9 +1005,13 @@ export function generateWorkflowCode(
   ): string[] {
     const lines: string[] = [`${indent}// Condition: ${node.data.label}`];
     const condition = node.data.config?.condition as string;
-    const nextNodes = edgesBySource.get(nodeId) || [];
+    // start custom keeperhub code //
+    const branchTargets = getConditionBranchTargets(nodeId, edges);
+    const trueNodes = branchTargets[CONDITION_TRUE_HANDLE];
+    const falseNodes = branchTargets[CONDITION_FALSE_HANDLE];
+    // end keeperhub code //
 
-    if (nextNodes.length > 0) {
+    if (trueNodes.length > 0 || falseNodes.length > 0) {
       // KEEP-1284: Collect validation error when condition is empty/unconfigured.
       // Conditions must have an explicit expression to be valid.
       let convertedCondition: string;
@@ -986,16 +1024,34 @@ export function generateWorkflowCode(
       }
 
       lines.push(`${indent}if (${convertedCondition}) {`);
-      if (nextNodes[0]) {
-        lines.push(
-          ...generateBranchCode(nextNodes[0], `${indent}  `, branchVisited)
-        );
-      }
-      if (nextNodes[1]) {
+      // start custom keeperhub code //
+      joinPlacement.open();
+      // end keeperhub code //
+      lines.push(
+        ...generateChildrenCode(
+          trueNodes,
+          `${indent}  `,
+          new Set(branchVisited)
+        )
+      );
+      // start custom keeperhub code //
+      lines.push(...closeJoinScope(`${indent}  `, branchVisited));
+      // end keeperhub code //
+      if (falseNodes.length > 0) {
         lines.push(`${indent}} else {`);
+        // start custom keeperhub code //
+        joinPlacement.open();
+        // end keeperhub code //
         lines.push(
-          ...generateBranchCode(nextNodes[1], `${indent}  `, branchVisited)
+          ...generateChildrenCode(
+            falseNodes,
+            `${indent}  `,
+            new Set(branchVisited)
+          )
         );
+        // start custom keeperhub code //
+        lines.push(...closeJoinScope(`${indent}  `, branchVisited));
+        // end keeperhub code //
       }
       lines.push(`${indent}}`);
     }
@@ -1049,6 +1105,9 @@ export function generateWorkflowCode(
 
     // Multiple children - generate Promise.all with async IIFEs
     const lines: string[] = [`${indent}await Promise.all([`];
+    // start custom keeperhub code //
+    joinPlacement.open();
+    // end keeperhub code //
 
     for (let i = 0; i < unvisited.length; i++) {
       const childId = unvisited[i];
@@ -1071,8 +1130,35 @@ export function generateWorkflowCode(
     }
 
     lines.push(`${indent}]);`);
+    // start custom keeperhub code //
+    lines.push(...closeJoinScope(indent, branchVisited));
+    // end keeperhub code //
+    return lines;
+  }
+
+  // start custom keeperhub code //
+  /**
+   * Close the innermost join block and generate the joins that were waiting
+   * for it, right after its code.
+   */
+  function closeJoinScope(
+    indent: string,
+    branchVisited: Set<string>
+  ): string[] {
+    const lines: string[] = [];
+    for (const joinId of joinPlacement.close()) {
+      const joinVisited = new Set(branchVisited);
+      joinVisited.delete(joinId);
+      const joinCode = generateBranchCode(joinId, indent, joinVisited);
+      if (joinCode.length > 0) {
+        lines.push("");
+        lines.push(`${indent}// Join: runs after all incoming branches`);
+        lines.push(...joinCode);
+      }
+    }
     return lines;
   }
+  // end keeperhub code //
 
   /**
    * Generate a single async IIFE branch for Promise.all
@@ -1133,6 +1219,9 @@ export function generateWorkflowCode(
 
     // Multiple branches - wrap each in async IIFE
     const lines: string[] = [`${indent}await Promise.all([`];
+    // start custom keeperhub code //
+    joinPlacement.open();
+    // end keeperhub code //
     for (let i = 0; i < unvisited.length; i++) {
       lines.push(
         ...generateAsyncIIFEBranch(
@@ -1143,6 +1232,9 @@ export function generateWorkflowCode(
       );
     }
     lines.push(`${indent}]);`);
+    // start custom keeperhub code //
+    lines.push(...closeJoinScope(indent, visited));
+    // end keeperhub code //
 
     return lines;
   }
@@ -1249,6 +1341,9 @@ export function generateWorkflowCode(
     if (!node) {
       return [];
     }
+    // start custom keeperhub code //
+    joinPlacement.generated(nodeId);
+    // end keeperhub code //
 
     // Use friendly variable name from map, fallback to node type + id if not found
     const varName =
@@ -1293,10 +1388,16 @@ export function generateWorkflowCode(
   if (triggerNodes.length === 0) {
     codeLines.push("  // No trigger nodes found");
   } else {
+    // start custom keeperhub code //
+    joinPlacement.open();
+    // end keeperhub code //
     for (const trigger of triggerNodes) {
       const triggerCode = generateNodeCode(trigger.id, "  ");
       codeLines.push(...triggerCode);
     }
+    // start custom keeperhub code //
+    codeLines.push(...closeJoinScope("  ", visited));
+    // end keeperhub code //
   }
 
   codeLines.push("}");
@@ -4,11 +4,17 @@
  */
 
 // start custom keeperhub code //
+import {
+  APPROVAL_POLL_INTERVAL_MS,
+  type ApprovalOutput,
+  selectApprovalTargets,
+} from "@/keeperhub/lib/approvals";
 import {
   BUILTIN_NODE_ID,
   BUILTIN_NODE_LABEL,
   getBuiltinVariables,
 } from "@/keeperhub/lib/builtin-variables";
+import { selectConditionTargets } from "@/keeperhub/lib/condition-branches";
 import {
   ErrorCategory,
   logSystemError,
@@ -27,7 +33,92 @@ import {
   detectTriggerType,
   recordWorkflowComplete,
 } from "@/keeperhub/lib/metrics/instrumentation/workflow";
+import {
+  buildErrorOutput,
+  getErrorSources,
+  isRecoveryHandler,
+  selectErrorTargets,
+  selectSuccessTargets,
+} from "@/keeperhub/lib/error-handler-edges";
 import { ARRAY_SOURCE_RE } from "@/keeperhub/lib/for-each-utils";
+import {
+  isNotificationStepFunction,
+  isSideEffectStep,
+} from "@/keeperhub/lib/dry-run";
+import {
+  createCancelledResult,
+  EXECUTION_CANCELLED_ERROR,
+  isCancelledResult,
+} from "@/keeperhub/lib/execution-cancel";
+import {
+  getReplayedOutput,
+  type ResumeState,
+} from "@/keeperhub/lib/execution-resume";
+import {
+  formatNodeTimeoutError,
+  formatWorkflowTimeoutError,
+  getNodeTimeoutSeconds,
+  getWorkflowTimeoutSeconds,
+} from "@/keeperhub/lib/execution-timeouts";
+import { getWebhookMockRequest } from "@/keeperhub/lib/payload-schema";
+import {
+  getRetryDelayMs,
+  isControlFlowAction,
+  isRetryableError,
+  isWriteStepFunction,
+  parseRetryPolicy,
+} from "@/keeperhub/lib/retry-policy";
+import {
+  checkApprovalStep,
+  completeApprovalStep,
+  startApprovalStep,
+} from "@/keeperhub/lib/steps/approval";
+import {
+  completeDelayStep,
+  type DelayInput,
+  startDelayStep,
+} from "@/keeperhub/lib/steps/delay";
+import {
+  previewNotificationStep,
+  previewSideEffectStep,
+} from "@/keeperhub/lib/steps/dry-run";
+import {
+  completeSubWorkflowStep,
+  startSubWorkflowStep,
+} from "@/keeperhub/lib/steps/execute-workflow";
+import { releaseCancelledExecutionStep } from "@/keeperhub/lib/steps/execution-cancel";
+import { checkQueueTurnStep } from "@/keeperhub/lib/steps/execution-queue";
+import {
+  getWriteNodeIds,
+  loadResumeStateStep,
+} from "@/keeperhub/lib/steps/execution-resume";
+import {
+  countExecutionTransactionsStep,
+  recordFailedStepStep,
+} from "@/keeperhub/lib/steps/retry-guard";
+import {
+  recordNodeTimeoutStep,
+  recordWorkflowTimeoutStep,
+} from "@/keeperhub/lib/steps/timeouts";
+import {
+  completeWaitUntilStep,
+  startWaitUntilStep,
+} from "@/keeperhub/lib/steps/wait-until";
+import {
+  SWITCH_DEFAULT_HANDLE,
+  selectSwitchTargets,
+} from "@/keeperhub/lib/switch-cases";
+import {
+  applyTemplateFilters,
+  hasDefaultFilter,
+  splitTemplateFilters,
+} from "@/keeperhub/lib/template-filters";
+import {
+  formatWaitUntilTimeoutError,
+  isPollableAction,
+  parseWaitUntilConfig,
+  type WaitUntilOutput,
+} from "@/keeperhub/lib/wait-until";
 import {
   preValidateConditionExpression,
   validateConditionExpression,
@@ -41,6 +132,41 @@ import type { StepContext } from "./steps/step-handler";
 import { triggerStep } from "./steps/trigger";
 import { deserializeEventTriggerData, getErrorMessageAsync } from "./utils";
 import type { WorkflowEdge, WorkflowNode } from "./workflow-store";
+import {
+  createSuspendedResult,
+  isSuspendedResult,
+  MAX_IN_PROCESS_WAIT_MS,
+  shouldSuspendUntil,
+  workflowSleep,
+} from "@/keeperhub/lib/workflow-sleep";
+import {
+  type ArrivalKind,
+  createJoinTracker,
+  getJoinMode,
+  type JoinMode,
+  type JoinTracker,
+} from "@/keeperhub/lib/join-semantics";
+import {
+  getConcurrencyPolicy,
+  QUEUE_POLL_INTERVAL_MS,
+  QUEUE_SUSPEND_MS,
+  QUEUE_TIMEOUT_ERROR,
+} from "@/keeperhub/lib/concurrency-policy";
+import {
+  formatWhileLimitError,
+  isLoopAction,
+  parseWhileMaxIterations,
+  parseWhileState,
+  type WhileOutput,
+} from "@/keeperhub/lib/while-loop";
+import {
+  formatMissingVariablesError,
+  getMissingVariables,
+  getVariableValues,
+  VARIABLES_NODE_ID,
+  VARIABLES_NODE_LABEL,
+  type WorkflowVariable,
+} from "@/keeperhub/lib/workflow-variables";
 
 // end keeperhub code //
 
@@ -74,6 +200,18 @@ const SYSTEM_ACTIONS: Record<string, StepImporter> = {
       import("@/keeperhub/lib/steps/collect") as Promise<any>,
     stepFunction: "collectStep",
   },
+  While: {
+    importer: () =>
+      // biome-ignore lint/suspicious/noExplicitAny: Dynamic module import matches existing pattern
+      import("@/keeperhub/lib/steps/while") as Promise<any>,
+    stepFunction: "whileStep",
+  },
+  Switch: {
+    importer: () =>
+      // biome-ignore lint/suspicious/noExplicitAny: Dynamic module import matches existing pattern
+      import("@/keeperhub/lib/steps/switch") as Promise<any>,
+    stepFunction: "switchStep",
+  },
   // end keeperhub code //
 };
 
@@ -81,6 +219,10 @@ type ExecutionResult = {
   success: boolean;
   data?: unknown;
   error?: string;
+  // start custom keeperhub code //
+  /** A failure that a recovering error handler took care of */
+  recovered?: boolean;
+  // end keeperhub code //
 };
 
 type NodeOutputs = Record<string, { label: string; data: unknown }>;
@@ -94,20 +236,34 @@ export type WorkflowExecutionInput = {
   triggerInput?: Record<string, unknown>;
   executionId?: string;
   workflowId?: string; // Used by steps to fetch credentials
+  // start custom keeperhub code //
+  /** Workflows above this run when it is a sub-workflow, outermost first */
+  callStack?: string[];
+  /** Failed execution this run resumes; its completed nodes are replayed */
+  resumeFromExecutionId?: string;
+  /** Simulate writes and skip notifications instead of performing them */
+  dryRun?: boolean;
+  /** The workflow's variables, referenced in templates as {{Vars.name}} */
+  variables?: WorkflowVariable[];
+  /** The workflow's policy for overlapping runs; queued runs wait here */
+  concurrencyPolicy?: string;
+  /**
+   * Continue this execution after the K8s runner suspended it; the nodes
+   * that completed before are replayed from its own logs
+   */
+  continueExecution?: boolean;
+  // end keeperhub code //
 };
 
 /**
- * Helper to replace template variables in conditions
+ * Helper to resolve a template reference in a condition to its value
  */
 // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: KEEP-1284 validation requires checking multiple error conditions
-function replaceTemplateVariable(
-  _match: string,
+function resolveConditionReference(
   nodeId: string,
-  rest: string,
-  outputs: NodeOutputs,
-  evalContext: Record<string, unknown>,
-  varCounter: { value: number }
-): string {
+  reference: string,
+  outputs: NodeOutputs
+): unknown {
   const sanitizedNodeId = nodeId.replace(/[^a-zA-Z0-9]/g, "_");
   const output = outputs[sanitizedNodeId];
 
@@ -118,7 +274,7 @@ function replaceTemplateVariable(
     );
   }
 
-  const dotIndex = rest.indexOf(".");
+  const dotIndex = reference.indexOf(".");
   let value: unknown;
 
   if (dotIndex === -1) {
@@ -126,10 +282,10 @@ function replaceTemplateVariable(
   } else if (output.data === null || output.data === undefined) {
     // KEEP-1284: Throw error when node data is null/undefined
     throw new Error(
-      `Condition references "${rest}" but the node output data is ${output.data === null ? "null" : "undefined"}. Ensure the referenced node produces valid output.`
+      `Condition references "${reference}" but the node output data is ${output.data === null ? "null" : "undefined"}. Ensure the referenced node produces valid output.`
     );
   } else {
-    const fieldPath = rest.substring(dotIndex + 1);
+    const fieldPath = reference.substring(dotIndex + 1);
     const fields = fieldPath.split(".");
     // biome-ignore lint/suspicious/noExplicitAny: Dynamic data traversal
     let current: any = output.data;
@@ -179,9 +335,39 @@ function replaceTemplateVariable(
     value = current;
   }
 
+  return value;
+}
+
+/**
+ * Helper to replace template variables in conditions
+ */
+function replaceTemplateVariable(
+  _match: string,
+  nodeId: string,
+  rest: string,
+  outputs: NodeOutputs,
+  evalContext: Record<string, unknown>,
+  varCounter: { value: number }
+): string {
+  // start custom keeperhub code //
+  const { reference, filters } = splitTemplateFilters(rest);
+  let value: unknown;
+  try {
+    value = resolveConditionReference(nodeId, reference, outputs);
+  } catch (error) {
+    // A default filter stands in for a node or field that did not resolve
+    if (!hasDefaultFilter(filters)) {
+      throw error;
+    }
+    value = undefined;
+  }
+  // end keeperhub code //
+
   const varName = `__v${varCounter.value}`;
   varCounter.value += 1;
-  evalContext[varName] = value;
+  // start custom keeperhub code //
+  evalContext[varName] = applyTemplateFilters(value, filters);
+  // end keeperhub code //
   return varName;
 }
 
@@ -299,6 +485,54 @@ export function evaluateConditionExpression(
   );
 }
 
+// start custom keeperhub code //
+/**
+ * Execute a Delay node: resolve and record the resume time, sleep until it,
+ * then close the node's log row. The sleep happens here rather than in a
+ * step so that it is a durable timer under the workflow runtime. Where the
+ * run can be suspended, a long delay suspends it instead of sleeping; the
+ * continuing run picks the open log row up again.
+ */
+async function executeDelay(input: DelayInput, canSuspend: boolean) {
+  const started = await startDelayStep(input);
+  if ("error" in started) {
+    return started;
+  }
+  const resumeAt = new Date(started.resumeAt);
+  if (canSuspend && shouldSuspendUntil(resumeAt)) {
+    return createSuspendedResult(resumeAt);
+  }
+  await workflowSleep(resumeAt);
+  return await completeDelayStep({ ...started, _context: input._context });
+}
+
+/**
+ * Wait until the runs of the workflow triggered before this one have
+ * finished. Resolves to "cancelled" if this run was cancelled while it
+ * waited, or to the time to check again once the run should be suspended.
+ */
+async function waitForQueueTurn(
+  executionId: string,
+  workflowId: string
+): Promise<"ready" | "cancelled" | Date> {
+  const inProcessUntil = Date.now() + MAX_IN_PROCESS_WAIT_MS;
+  while (true) {
+    const turn = await checkQueueTurnStep({ executionId, workflowId });
+    if (turn === "expired") {
+      throw new Error(QUEUE_TIMEOUT_ERROR);
+    }
+    if (turn !== "waiting") {
+      return turn;
+    }
+    const recheckAt = new Date(Date.now() + QUEUE_SUSPEND_MS);
+    if (Date.now() >= inProcessUntil && shouldSuspendUntil(recheckAt)) {
+      return recheckAt;
+    }
+    await workflowSleep(QUEUE_POLL_INTERVAL_MS);
+  }
+}
+// end keeperhub code //
+
 /**
  * Execute a single action step with logging via stepHandler
  * IMPORTANT: Steps receive only the integration ID as a reference to fetch credentials.
@@ -309,6 +543,10 @@ async function executeActionStep(input: {
   config: Record<string, unknown>;
   outputs: NodeOutputs;
   context: StepContext;
+  // start custom keeperhub code //
+  /** Whether a long Delay may suspend the run; see executeDelay */
+  canSuspend?: boolean;
+  // end keeperhub code //
 }) {
   const { actionType, config, outputs, context } = input;
 
@@ -353,6 +591,33 @@ async function executeActionStep(input: {
     });
   }
 
+  // start custom keeperhub code //
+  if (actionType === "Delay") {
+    return await executeDelay(
+      { ...config, _context: context },
+      input.canSuspend === true
+    );
+  }
+
+  // A dry run renders notifications and other requests that change
+  // something outside KeeperHub instead of sending them; write steps simulate
+  // themselves when they see context.dryRun
+  if (context.dryRun) {
+    const stepFunction = getStepImporter(actionType)?.stepFunction;
+    const previewInput = {
+      ...config,
+      _actionType: actionType,
+      _context: context,
+    };
+    if (isNotificationStepFunction(stepFunction)) {
+      return await previewNotificationStep(previewInput);
+    }
+    if (isSideEffectStep(actionType, stepFunction, config)) {
+      return await previewSideEffectStep(previewInput);
+    }
+  }
+  // end keeperhub code //
+
   // Check system actions first (Database Query, HTTP Request)
   const systemAction = SYSTEM_ACTIONS[actionType];
   if (systemAction) {
@@ -384,6 +649,168 @@ async function executeActionStep(input: {
 }
 
 // start custom keeperhub code //
+/** Sentinel resolved by the timer side of a timeout race */
+const TIMED_OUT = Symbol("timed-out");
+
+type TimedOutStepResult = {
+  success: false;
+  error: string;
+  timedOut: true;
+};
+
+function isTimedOutResult(result: unknown): result is TimedOutStepResult {
+  return (
+    typeof result === "object" &&
+    result !== null &&
+    (result as { timedOut?: unknown }).timedOut === true
+  );
+}
+
+/**
+ * Execute one attempt of an action step, abandoning it once it runs longer
+ * than the node's `timeoutSeconds`. The abandoned step's log row is marked
+ * with the "timeout" status. The abandoned step is not stopped: it keeps
+ * running in the background, and whatever it returns later is discarded.
+ */
+async function executeActionStepWithTimeout(input: {
+  actionType: string;
+  config: Record<string, unknown>;
+  outputs: NodeOutputs;
+  context: StepContext;
+  canSuspend?: boolean;
+}) {
+  const timeoutSeconds = isControlFlowAction(input.actionType)
+    ? null
+    : getNodeTimeoutSeconds(input.config);
+  if (timeoutSeconds === null) {
+    return await executeActionStep(input);
+  }
+
+  const outcome = await Promise.race([
+    executeActionStep(input),
+    workflowSleep(timeoutSeconds * 1000).then(() => TIMED_OUT),
+  ]);
+  if (outcome !== TIMED_OUT) {
+    return outcome;
+  }
+
+  const error = formatNodeTimeoutError(timeoutSeconds);
+  console.warn(
+    `[Workflow Executor] Node "${input.context.nodeName}" timed out after ${timeoutSeconds}s`
+  );
+  await recordNodeTimeoutStep({ context: input.context, error });
+  const timedOutResult: TimedOutStepResult = {
+    success: false,
+    error,
+    timedOut: true,
+  };
+  return timedOutResult;
+}
+
+/**
+ * Execute an action step, retrying failed attempts according to the node's
+ * retry policy (retryMaxAttempts / retryBackoff / retryDelaySeconds / retryOn).
+ * Each attempt goes through withStepLogging, so it gets its own
+ * workflow_execution_logs row tagged with the attempt number.
+ *
+ * Write actions are only retried when the nonce manager recorded no
+ * transaction for this execution during the failed attempt, including a
+ * send that threw after broadcasting; a broadcast transaction must never be
+ * sent twice.
+ */
+async function executeActionStepWithRetry(input: {
+  actionType: string;
+  config: Record<string, unknown>;
+  outputs: NodeOutputs;
+  context: StepContext;
+  canSuspend?: boolean;
+}) {
+  const policy = isControlFlowAction(input.actionType)
+    ? null
+    : parseRetryPolicy(input.config);
+  if (!policy) {
+    return await executeActionStepWithTimeout(input);
+  }
+
+  const isWriteAction =
+    !SYSTEM_ACTIONS[input.actionType] &&
+    isWriteStepFunction(getStepImporter(input.actionType)?.stepFunction);
+  const executionId = input.context.executionId;
+
+  for (let attempt = 1; ; attempt++) {
+    const txCountBefore =
+      isWriteAction && executionId
+        ? await countExecutionTransactionsStep({ executionId })
+        : 0;
+
+    const attemptContext: StepContext = {
+      ...input.context,
+      attempt,
+      finalAttempt: attempt >= policy.maxAttempts,
+    };
+    let stepResult: unknown;
+    let thrownError: unknown;
+    let errorMessage = "";
+    try {
+      stepResult = await executeActionStepWithTimeout({
+        ...input,
+        context: attemptContext,
+      });
+      const isErrorResult =
+        stepResult &&
+        typeof stepResult === "object" &&
+        "success" in stepResult &&
+        (stepResult as { success: boolean }).success === false;
+      if (!isErrorResult) {
+        return stepResult;
+      }
+      errorMessage = (stepResult as { error?: string }).error || "";
+    } catch (error) {
+      thrownError = error;
+      errorMessage = await getErrorMessageAsync(error);
+    }
+
+    let canRetry =
+      attempt < policy.maxAttempts &&
+      !isCancelledResult(stepResult) &&
+      isRetryableError(policy, errorMessage);
+    if (canRetry && isWriteAction) {
+      // A timed-out write may still broadcast after we stop waiting, and
+      // without an execution id the nonce manager cannot confirm anything
+      canRetry =
+        !isTimedOutResult(stepResult) &&
+        executionId !== undefined &&
+        (await countExecutionTransactionsStep({ executionId })) ===
+          txCountBefore;
+      if (!canRetry) {
+        console.warn(
+          `[Workflow Executor] Not retrying "${input.context.nodeName}": a transaction may have been broadcast`
+        );
+      }
+    }
+
+    if (!canRetry) {
+      // The attempt was not marked final, so withStepLogging left it uncounted
+      if (!attemptContext.finalAttempt && !isCancelledResult(stepResult)) {
+        await recordFailedStepStep({ context: attemptContext });
+      }
+      if (thrownError !== undefined) {
+        throw thrownError;
+      }
+      return stepResult;
+    }
+
+    const delayMs = getRetryDelayMs(policy, attempt);
+    console.log(
+      `[Workflow Executor] Attempt ${attempt}/${policy.maxAttempts} of "${input.context.nodeName}" failed, retrying in ${delayMs}ms:`,
+      errorMessage
+    );
+    if (delayMs > 0) {
+      await workflowSleep(delayMs);
+    }
+  }
+}
+
 /**
  * Resolve a field path (e.g. "data.recipes[0].tags[0]") into a value.
  * Supports bracket notation for array indices.
@@ -470,6 +897,13 @@ function replaceConfigTemplate(
   rest: string,
   outputs: NodeOutputs
 ): string {
+  // start custom keeperhub code //
+  // Filtered references resolve through the raw value so filters see the
+  // native type (e.g. a bigint balance for formatUnits)
+  if (splitTemplateFilters(rest).filters.length > 0) {
+    return formatConfigValue(resolveTemplateToRawValue(nodeId, rest, outputs));
+  }
+  // end keeperhub code //
   const trimmedNodeId = nodeId.trim();
   const sanitizedNodeId = trimmedNodeId.replace(/[^a-zA-Z0-9]/g, "_");
   const output = outputs[sanitizedNodeId] ?? outputs[trimmedNodeId];
@@ -606,6 +1040,9 @@ function processCodeTemplates(code: string, outputs: NodeOutputs): string {
   const displayPattern = /\{\{([^@}][^}]*)\}\}/g;
 
   let result = code.replace(storedPattern, (full, nodeId: string, rest: string) => {
+    if (splitTemplateFilters(rest).filters.length > 0) {
+      return formatCodeValue(resolveTemplateToRawValue(nodeId, rest, outputs));
+    }
     const trimmedNodeId = nodeId.trim();
     const sanitizedNodeId = trimmedNodeId.replace(/[^a-zA-Z0-9]/g, "_");
     const output = outputs[sanitizedNodeId] ?? outputs[trimmedNodeId];
@@ -642,6 +1079,19 @@ export function resolveDisplayTemplate(
   displayRef: string,
   outputs: NodeOutputs
 ): unknown {
+  // start custom keeperhub code //
+  const { reference, filters } = splitTemplateFilters(displayRef);
+  return applyTemplateFilters(
+    resolveDisplayReference(reference, outputs),
+    filters
+  );
+}
+
+function resolveDisplayReference(
+  displayRef: string,
+  outputs: NodeOutputs
+): unknown {
+  // end keeperhub code //
   const dotIndex = displayRef.indexOf(".");
   const label =
     dotIndex === -1 ? displayRef : displayRef.substring(0, dotIndex);
@@ -729,13 +1179,28 @@ function findOutputByLabel(
  * type (number, string, boolean, etc.) for proper SQL parameterization.
  *
  * Falls back to case-insensitive label matching when the node ID lookup
- * fails, keeping parity with the display-format resolution path.
+ * fails, keeping parity with the display-format resolution path. Pipe
+ * filters ("Label.field | formatUnits:18") are applied to the result.
  */
 export function resolveTemplateToRawValue(
   nodeId: string,
   rest: string,
   outputs: NodeOutputs
 ): unknown {
+  // start custom keeperhub code //
+  const { reference, filters } = splitTemplateFilters(rest);
+  return applyTemplateFilters(
+    resolveReferenceToRawValue(nodeId, reference, outputs),
+    filters
+  );
+}
+
+function resolveReferenceToRawValue(
+  nodeId: string,
+  rest: string,
+  outputs: NodeOutputs
+): unknown {
+  // end keeperhub code //
   const trimmedNodeId = nodeId.trim();
   const sanitizedNodeId = trimmedNodeId.replace(/[^a-zA-Z0-9]/g, "_");
   const output = outputs[sanitizedNodeId] ?? outputs[trimmedNodeId];
@@ -781,14 +1246,14 @@ export type LoopBodyInfo = {
 
 /**
  * Compute the next BFS depth when traversing loop body nodes.
- * Inner For Each increments depth, inner Collect decrements it.
+ * Inner For Each / While increments depth, inner Collect decrements it.
  */
 function computeNextDepth(
-  isForEach: boolean,
+  isLoop: boolean,
   isCollect: boolean,
   currentDepth: number
 ): number {
-  if (isForEach) {
+  if (isLoop) {
     return currentDepth + 1;
   }
   if (isCollect) {
@@ -798,8 +1263,8 @@ function computeNextDepth(
 }
 
 /**
- * Identify the loop body subgraph between a For Each node and its paired
- * Collect node. Uses BFS with depth tracking so nested For Each / Collect
+ * Identify the loop body subgraph between a For Each (or While) node and its
+ * paired Collect node. Uses BFS with depth tracking so nested loop / Collect
  * pairs are correctly skipped.
  */
 // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: BFS with depth tracking requires multiple condition branches
@@ -845,7 +1310,9 @@ export function identifyLoopBody(
 
     const actionType = node.data.config?.actionType as string | undefined;
     const isCollect = node.data.type === "action" && actionType === "Collect";
-    const isForEach = node.data.type === "action" && actionType === "For Each";
+    // start custom keeperhub code //
+    const isLoop = node.data.type === "action" && isLoopAction(actionType);
+    // end keeperhub code //
 
     // Collect at depth 0 is OUR boundary
     if (isCollect && depth === 0) {
@@ -861,7 +1328,7 @@ export function identifyLoopBody(
 
     bodyNodeIds.push(nodeId);
 
-    const nextDepth = computeNextDepth(isForEach, isCollect, depth);
+    const nextDepth = computeNextDepth(isLoop, isCollect, depth);
     const nextIds = edgesBySource.get(nodeId) ?? [];
     for (const nextId of nextIds) {
       if (!bodyEdgesBySource.has(nodeId)) {
@@ -947,6 +1414,10 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
   console.log("[Workflow Executor] Starting workflow execution");
 
   const { nodes, edges, triggerInput = {}, executionId, workflowId } = input;
+  // start custom keeperhub code //
+  const callStack = input.callStack ?? [];
+  const dryRun = input.dryRun === true;
+  // end keeperhub code //
 
   console.log("[Workflow Executor] Input:", {
     nodeCount: nodes.length,
@@ -958,6 +1429,15 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
   const outputs: NodeOutputs = {};
   const results: Record<string, ExecutionResult> = {};
 
+  // start custom keeperhub code //
+  // Workflow variables do not change during a run, so they are injected once;
+  // loop bodies inherit them with the rest of the outputs
+  outputs[VARIABLES_NODE_ID.replace(/[^a-zA-Z0-9]/g, "_")] = {
+    label: VARIABLES_NODE_LABEL,
+    data: getVariableValues(input.variables),
+  };
+  // end keeperhub code //
+
   // Build node and edge maps
   const nodeMap = new Map(nodes.map((n) => [n.id, n]));
   const edgesBySource = new Map<string, string[]>();
@@ -1022,6 +1502,126 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
   }
 
   // start custom keeperhub code //
+  // Set once a step reports the execution was cancelled; from then on no
+  // further nodes or loop iterations are scheduled
+  let cancelled = false;
+
+  // Set once the workflow timeout fires. The run is already recorded as timed
+  // out by then, so nodes still running must not start any further nodes
+  let timedOut = false;
+
+  // Set once a top-level Delay, Approval or the queue wait suspends the run
+  // (K8s runner only). Like a cancel, no further nodes are started; the run
+  // is continued once the earliest of these times has passed
+  let suspendedUntil: Date | undefined;
+
+  // Outputs of the nodes that completed in the execution being resumed
+  let resumeState: ResumeState = {};
+
+  // Nodes with several incoming edges run when their join mode says so
+  const joinTracker = createJoinTracker(
+    triggerNodes.map((trigger) => trigger.id),
+    edges,
+    getNodeJoinMode
+  );
+  // Each For Each iteration tracks the joins inside its body separately
+  const bodyJoinTrackers = new WeakMap<Set<string>, JoinTracker>();
+
+  function getNodeJoinMode(nodeId: string): JoinMode {
+    return getJoinMode(nodeMap.get(nodeId)?.data.config);
+  }
+
+  /**
+   * How `nodeId` reports to one of its targets. A target on its failure path
+   * never depends on its output, so it is only told the node was skipped.
+   */
+  function getArrivalKind(
+    nodeId: string,
+    targetId: string,
+    taken: string[],
+    notTaken: ArrivalKind
+  ): ArrivalKind {
+    if (taken.includes(targetId)) {
+      return "taken";
+    }
+    return selectErrorTargets(nodeId, [targetId], edges).length > 0
+      ? "skipped"
+      : notTaken;
+  }
+
+  /**
+   * Report a finished node to every node it leads to: the `taken` ones are
+   * continued to, the rest see `notTaken`. Each target runs once its join
+   * condition holds; a skipped target passes the skip on downstream.
+   */
+  async function continueFrom(
+    nodeId: string,
+    taken: string[],
+    visited: Set<string>,
+    notTaken: ArrivalKind = "skipped"
+  ): Promise<void> {
+    if (cancelled || timedOut || suspendedUntil) {
+      return;
+    }
+    const targets = [...new Set(edgesBySource.get(nodeId) ?? [])];
+    await Promise.all(
+      targets.map((targetId) => {
+        const decision = joinTracker.arrive(
+          targetId,
+          nodeId,
+          getArrivalKind(nodeId, targetId, taken, notTaken)
+        );
+        if (decision === "run") {
+          return executeNode(targetId, visited);
+        }
+        if (decision === "skip") {
+          return continueFrom(
+            targetId,
+            [],
+            visited,
+            joinTracker.skipKind(targetId)
+          );
+        }
+        return Promise.resolve();
+      })
+    );
+  }
+
+  /**
+   * Body counterpart of continueFrom: For Each bodies run sequentially, so
+   * targets are handled one after another.
+   */
+  async function continueBodyFrom(
+    nodeId: string,
+    taken: string[],
+    notTaken: ArrivalKind,
+    bodyEdgesBySource: Map<string, string[]>,
+    tracker: JoinTracker,
+    runBodyNode: (targetId: string) => Promise<void>
+  ): Promise<void> {
+    for (const targetId of new Set(bodyEdgesBySource.get(nodeId) ?? [])) {
+      if (cancelled || timedOut) {
+        return;
+      }
+      const decision = tracker.arrive(
+        targetId,
+        nodeId,
+        getArrivalKind(nodeId, targetId, taken, notTaken)
+      );
+      if (decision === "run") {
+        await runBodyNode(targetId);
+      } else if (decision === "skip") {
+        await continueBodyFrom(
+          targetId,
+          [],
+          tracker.skipKind(targetId),
+          bodyEdgesBySource,
+          tracker,
+          runBodyNode
+        );
+      }
+    }
+  }
 
   /**
    * Process a node's config by resolving templates and handling special fields
@@ -1081,57 +1681,408 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
     return processedConfig;
   }
 
-  // -------------------------------------------------------------------
-  // For Each: body-node executor (scoped outputs, body-only edges)
-  // -------------------------------------------------------------------
-
   /**
-   * Execute a single body node within a For Each iteration.
-   * Uses scoped outputs so loop variable references resolve correctly
-   * and body-specific edges so traversal stays within the loop body.
+   * When a node on a failure path has `recoverFailure` enabled and succeeds,
+   * mark the failures that routed into it as recovered so they no longer fail
+   * the run (or the loop iteration).
    */
-  // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: Body execution mirrors main executeNode with loop-specific scoping
-  async function executeBodyNode(
-    nodeId: string,
-    bodyVisited: Set<string>,
-    scopedOutputs: NodeOutputs,
-    bodyResults: Record<string, ExecutionResult>,
-    bodyEdgesBySource: Map<string, string[]>,
-    collectNodeId: string | undefined,
-    iterationMeta?: { iterationIndex: number; forEachNodeId: string }
-  ): Promise<void> {
-    if (bodyVisited.has(nodeId)) {
+  function recoverHandledFailures(
+    handlerNode: WorkflowNode,
+    scopeResults: Record<string, ExecutionResult>
+  ): void {
+    if (!isRecoveryHandler(handlerNode.data.config ?? {})) {
       return;
     }
-    if (nodeId === collectNodeId) {
-      return; // Don't execute the Collect boundary
+    for (const sourceId of getErrorSources(handlerNode.id, edges)) {
+      const failed = scopeResults[sourceId];
+      if (failed && !failed.success) {
+        scopeResults[sourceId] = { ...failed, recovered: true };
+      }
     }
-    bodyVisited.add(nodeId);
+  }
 
-    const node = nodeMap.get(nodeId);
-    if (!node) {
-      return;
+  /**
+   * Expose the failure details as the failed node's output and return the
+   * nodes on its failure path (empty when no error edge is connected).
+   */
+  function routeFailure(
+    node: WorkflowNode,
+    error: string | undefined,
+    candidates: string[],
+    scopeOutputs: NodeOutputs
+  ): string[] {
+    const errorTargets = selectErrorTargets(node.id, candidates, edges);
+    if (errorTargets.length === 0) {
+      return [];
     }
+    const nodeName = getNodeName(node);
+    scopeOutputs[node.id.replace(/[^a-zA-Z0-9]/g, "_")] = {
+      label: nodeName,
+      data: buildErrorOutput(nodeName, error ?? "Step failed"),
+    };
+    console.log(
+      `[Workflow Executor] Node "${nodeName}" failed, following`,
+      errorTargets.length,
+      "error handler(s)"
+    );
+    return errorTargets;
+  }
 
-    // Skip disabled nodes
+  /**
+   * Resolve the read a Wait Until node repeats. It must be a pollable action
+   * that already ran in this scope, so its first output can be checked.
+   */
+  function getPollNode(
+    pollNodeId: string,
+    scopeOutputs: NodeOutputs
+  ): WorkflowNode | { error: string } {
+    const pollNode = nodeMap.get(pollNodeId);
+    const pollActionType = pollNode?.data.config?.actionType as
+      | string
+      | undefined;
+    if (!(pollNode && isPollableAction(pollActionType))) {
+      return {
+        error:
+          "Wait Until can only repeat a Read Contract, Check Balance or HTTP Request step",
+      };
+    }
+    if (!scopeOutputs[pollNodeId.replace(/[^a-zA-Z0-9]/g, "_")]) {
+      return {
+        error: `Wait Until must run after "${getNodeName(pollNode)}", the step it repeats`,
+      };
+    }
+    return pollNode;
+  }
+
+  /**
+   * Run a Wait Until node: check its condition against the read's latest
+   * output, and while it does not hold, sleep and repeat the read until the
+   * max wait elapses. The read node's output is replaced by each new read, so
+   * downstream nodes see the final values.
+   */
+  async function executeWaitUntil(
+    processedConfig: Record<string, unknown>,
+    scopeOutputs: NodeOutputs,
+    context: StepContext
+  ): Promise<WaitUntilOutput | { success: false; error: string }> {
+    const started = await startWaitUntilStep({
+      ...processedConfig,
+      _context: context,
+    });
+    const finish = (
+      outcome: { output: WaitUntilOutput } | { error: string }
+    ) => completeWaitUntilStep({ ...started, ...outcome, _context: context });
+
+    const settings = parseWaitUntilConfig(processedConfig);
+    if ("error" in settings) {
+      return await finish(settings);
+    }
+    const pollNode = getPollNode(settings.pollNodeId, scopeOutputs);
+    if ("error" in pollNode) {
+      return await finish(pollNode);
+    }
+
+    const pollOutputId = pollNode.id.replace(/[^a-zA-Z0-9]/g, "_");
+    const pollActionType = pollNode.data.config?.actionType as string;
+    const startedAt = Date.now();
+    for (let polls = 1; ; polls++) {
+      if (cancelled || timedOut) {
+        return await finish({ error: EXECUTION_CANCELLED_ERROR });
+      }
+      let conditionMet: boolean;
+      try {
+        conditionMet = evaluateConditionExpression(
+          processedConfig.condition,
+          scopeOutputs
+        ).result;
+      } catch (error) {
+        return await finish({ error: await getErrorMessageAsync(error) });
+      }
+      const elapsedMs = Date.now() - startedAt;
+      if (conditionMet) {
+        return await finish({
+          output: {
+            result: scopeOutputs[pollOutputId].data,
+            polls,
+            elapsedMs,
+          },
+        });
+      }
+      if (
+        elapsedMs + settings.intervalSeconds * 1000 >
+        settings.maxWaitSeconds * 1000
+      ) {
+        return await finish({
+          error: formatWaitUntilTimeoutError(settings.maxWaitSeconds, polls),
+        });
+      }
+
+      await workflowSleep(settings.intervalSeconds * 1000);
+
+      const readResult = await executeActionStepWithRetry({
+        actionType: pollActionType,
+        config: processActionConfig(
+          pollNode.data.config ?? {},
+          pollActionType,
+          scopeOutputs
+        ),
+        outputs: scopeOutputs,
+        context: {
+          ...context,
+          nodeId: pollNode.id,
+          nodeName: getNodeName(pollNode),
+          nodeType: pollActionType,
+          pollAttempt: polls + 1,
+        },
+      });
+      if (isCancelledResult(readResult)) {
+        cancelled = true;
+      }
+      if (
+        readResult &&
+        typeof readResult === "object" &&
+        "success" in readResult &&
+        (readResult as { success: boolean }).success === false
+      ) {
+        return await finish({
+          error: `Read "${getNodeName(pollNode)}" failed: ${(readResult as { error?: string }).error || "unknown error"}`,
+        });
+      }
+      scopeOutputs[pollOutputId] = {
+        label: getNodeName(pollNode),
+        data: readResult,
+      };
+    }
+  }
+
+  /**
+   * Run an Approval node: record the request and notify the approvers, then
+   * check for a decision on an interval until the request is decided,
+   * expires or the execution is cancelled. Where the run can be suspended,
+   * it is suspended until the request expires; a decision continues it
+   * sooner.
+   */
+  async function executeApproval(
+    processedConfig: Record<string, unknown>,
+    context: StepContext,
+    canSuspend: boolean
+  ): Promise<unknown> {
+    const started = await startApprovalStep({
+      ...processedConfig,
+      _context: context,
+    });
+    if (!("logId" in started)) {
+      return started;
+    }
+
+    while (true) {
+      const check = cancelled
+        ? undefined
+        : await checkApprovalStep({
+            approvalId: started.approvalId,
+            _context: context,
+          });
+      if (!check || check.status === "cancelled") {
+        cancelled = true;
+        return await completeApprovalStep({
+          ...started,
+          error: EXECUTION_CANCELLED_ERROR,
+          _context: context,
+        });
+      }
+      if (check.status !== "pending") {
+        return await completeApprovalStep({
+          ...started,
+          check,
+          _context: context,
+        });
+      }
+      const expiresAt = new Date(started.expiresAt);
+      if (canSuspend && shouldSuspendUntil(expiresAt)) {
+        return createSuspendedResult(expiresAt);
+      }
+      await workflowSleep(APPROVAL_POLL_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Run an Execute Workflow node: start the child workflow's execution, run
+   * it inline (it shares this run's durability) and expose its final output.
+   */
+  async function executeSubWorkflow(
+    processedConfig: Record<string, unknown>,
+    context: StepContext
+  ) {
+    const started = await startSubWorkflowStep({
+      subWorkflowId: processedConfig.subWorkflowId as string | undefined,
+      subWorkflowInput: processedConfig.subWorkflowInput,
+      parentWorkflowId: workflowId,
+      callStack,
+      _context: context,
+    });
+    if ("error" in started) {
+      return started;
+    }
+
+    console.log(
+      `[Workflow Executor] Executing sub-workflow ${started.workflowId} as execution ${started.executionId}`
+    );
+    const childResult = await executeWorkflow({
+      nodes: started.nodes,
+      edges: started.edges,
+      triggerInput: started.input,
+      executionId: started.executionId,
+      workflowId: started.workflowId,
+      callStack: workflowId ? [...callStack, workflowId] : callStack,
+      dryRun,
+      variables: started.variables,
+    });
+    // Cancelling a run cancels its sub-workflow runs, and cancelling a
+    // sub-workflow run stops the run that is waiting on it
+    if (childResult.cancelled) {
+      cancelled = true;
+    }
+    const childError =
+      childResult.error ??
+      Object.values(childResult.results).find(
+        (r) => !(r.success || r.recovered)
+      )?.error;
+
+    return await completeSubWorkflowStep({
+      logId: started.logId,
+      startTime: started.startTime,
+      executionId: started.executionId,
+      workflowId: started.workflowId,
+      success: childResult.success,
+      error: childError,
+      _context: context,
+    });
+  }
+
+  /**
+   * Run an action node's step. Wait Until, Approval and Execute Workflow wait
+   * or drive other nodes or workflows from the executor; everything else is a
+   * single step with the node's retry and timeout policies.
+   *
+   * Only a node outside loops and sub-workflows can suspend the run: a
+   * continuing run replays completed nodes, and a loop iteration or a child
+   * run cannot be picked up halfway. Those still wait in-process.
+   */
+  async function runActionNode(
+    actionType: string,
+    processedConfig: Record<string, unknown>,
+    scopeOutputs: NodeOutputs,
+    context: StepContext
+  ): Promise<unknown> {
+    const canSuspend =
+      !dryRun &&
+      callStack.length === 0 &&
+      context.iterationIndex === undefined;
+    let result: unknown;
+    if (actionType === "Wait Until") {
+      result = await executeWaitUntil(processedConfig, scopeOutputs, context);
+    } else if (actionType === "Approval") {
+      result = await executeApproval(processedConfig, context, canSuspend);
+    } else if (actionType === "Execute Workflow") {
+      result = await executeSubWorkflow(processedConfig, context);
+    } else {
+      result = await executeActionStepWithRetry({
+        actionType,
+        config: processedConfig,
+        outputs: scopeOutputs,
+        context,
+        canSuspend,
+      });
+    }
+    if (isCancelledResult(result)) {
+      cancelled = true;
+    }
+    if (isSuspendedResult(result)) {
+      const resumeAt = new Date(result.suspendedUntil);
+      if (!suspendedUntil || resumeAt < suspendedUntil) {
+        suspendedUntil = resumeAt;
+      }
+    }
+    return result;
+  }
+
+  // -------------------------------------------------------------------
+  // For Each: body-node executor (scoped outputs, body-only edges)
+  // -------------------------------------------------------------------
+
+  /**
+   * Execute a single body node within a For Each iteration.
+   * Uses scoped outputs so loop variable references resolve correctly
+   * and body-specific edges so traversal stays within the loop body.
+   */
+  // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: Body execution mirrors main executeNode with loop-specific scoping
+  async function executeBodyNode(
+    nodeId: string,
+    bodyVisited: Set<string>,
+    scopedOutputs: NodeOutputs,
+    bodyResults: Record<string, ExecutionResult>,
+    bodyEdgesBySource: Map<string, string[]>,
+    collectNodeId: string | undefined,
+    iterationMeta?: { iterationIndex: number; forEachNodeId: string }
+  ): Promise<void> {
+    // start custom keeperhub code //
+    if (timedOut) {
+      return;
+    }
+    // end keeperhub code //
+    if (bodyVisited.has(nodeId)) {
+      return;
+    }
+    if (nodeId === collectNodeId) {
+      return; // Don't execute the Collect boundary
+    }
+    bodyVisited.add(nodeId);
+
+    const node = nodeMap.get(nodeId);
+    if (!node) {
+      return;
+    }
+
+    const joins =
+      bodyJoinTrackers.get(bodyVisited) ??
+      createJoinTracker([nodeId], [], getNodeJoinMode);
+    const runBodyNode = (targetId: string) =>
+      executeBodyNode(
+        targetId,
+        bodyVisited,
+        scopedOutputs,
+        bodyResults,
+        bodyEdgesBySource,
+        collectNodeId,
+        iterationMeta
+      );
+    const continueWith = (
+      sourceId: string,
+      taken: string[],
+      notTaken: ArrivalKind = "skipped"
+    ) =>
+      continueBodyFrom(
+        sourceId,
+        taken,
+        notTaken,
+        bodyEdgesBySource,
+        joins,
+        runBodyNode
+      );
+
+    // Skip disabled nodes
     if (node.data.enabled === false) {
       const sanitizedId = nodeId.replace(/[^a-zA-Z0-9]/g, "_");
       scopedOutputs[sanitizedId] = {
         label: getNodeName(node),
         data: null,
       };
-      const nextNodes = bodyEdgesBySource.get(nodeId) ?? [];
-      for (const next of nextNodes) {
-        await executeBodyNode(
-          next,
-          bodyVisited,
-          scopedOutputs,
-          bodyResults,
-          bodyEdgesBySource,
-          collectNodeId,
-          iterationMeta
-        );
-      }
+      const nextNodes = selectSuccessTargets(
+        nodeId,
+        bodyEdgesBySource.get(nodeId) ?? [],
+        edges
+      );
+      await continueWith(nodeId, nextNodes);
       return;
     }
 
@@ -1167,14 +2118,22 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
         nodeType: actionType,
         iterationIndex: iterationMeta?.iterationIndex,
         forEachNodeId: iterationMeta?.forEachNodeId,
+        dryRun,
       };
 
-      const stepResult = await executeActionStep({
-        actionType,
-        config: processedConfig,
-        outputs: scopedOutputs,
-        context: stepContext,
-      });
+      const replayedStep = getReplayedOutput(
+        resumeState,
+        node.id,
+        iterationMeta?.iterationIndex
+      );
+      const stepResult = replayedStep
+        ? replayedStep.output
+        : await runActionNode(
+            actionType,
+            processedConfig,
+            scopedOutputs,
+            stepContext
+          );
 
       const isErrorResult =
         stepResult &&
@@ -1199,8 +2158,16 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
       };
 
       if (!result.success) {
+        const errorTargets = routeFailure(
+          node,
+          result.error,
+          bodyEdgesBySource.get(nodeId) ?? [],
+          scopedOutputs
+        );
+        await continueWith(nodeId, errorTargets, "failed");
         return;
       }
+      recoverHandledFailures(node, bodyResults);
 
       // Nested For Each inside the body
       if (actionType === "For Each") {
@@ -1212,45 +2179,238 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
           currentResults: bodyResults,
           currentVisited: bodyVisited,
           currentEdgesBySource: bodyEdgesBySource,
-          continueAfterCollect: async (collectId) => {
-            const nextNodes = bodyEdgesBySource.get(collectId) ?? [];
-            for (const next of nextNodes) {
-              await executeBodyNode(
-                next,
-                bodyVisited,
-                scopedOutputs,
-                bodyResults,
-                bodyEdgesBySource,
-                collectNodeId,
-                iterationMeta
-              );
-            }
-          },
+          continueAfterCollect: (collectId) =>
+            continueWith(collectId, bodyEdgesBySource.get(collectId) ?? []),
         });
-      } else if (actionType === "Condition") {
-        const conditionValue = (result.data as { condition?: boolean })
-          ?.condition;
-        if (conditionValue !== true) {
+      }
+
+      // Nested While inside the body
+      if (actionType === "While") {
+        const whileResult = await handleWhileExecution({
+          whileNodeId: nodeId,
+          whileNode: node,
+          currentOutputs: scopedOutputs,
+          currentResults: bodyResults,
+          currentVisited: bodyVisited,
+          currentEdgesBySource: bodyEdgesBySource,
+          continueAfterCollect: (collectId) =>
+            continueWith(collectId, bodyEdgesBySource.get(collectId) ?? []),
+        });
+        if ("error" in whileResult) {
+          bodyResults[nodeId] = { success: false, error: whileResult.error };
+          const errorTargets = routeFailure(
+            node,
+            whileResult.error,
+            bodyEdgesBySource.get(nodeId) ?? [],
+            scopedOutputs
+          );
+          await continueWith(nodeId, errorTargets, "failed");
           return;
         }
+        bodyResults[nodeId] = { success: true, data: whileResult };
+        scopedOutputs[sanitizedId] = {
+          label: getNodeName(node),
+          data: whileResult,
+        };
       }
 
-      // Continue to downstream body nodes
-      const nextNodes = bodyEdgesBySource.get(nodeId) ?? [];
-      for (const next of nextNodes) {
-        await executeBodyNode(
-          next,
+      // Continue to downstream body nodes (Condition / Switch: only the
+      // taken branch; anything else: only its success path)
+      let nextNodes = selectSuccessTargets(
+        nodeId,
+        bodyEdgesBySource.get(nodeId) ?? [],
+        edges
+      );
+      if (actionType === "Condition") {
+        const conditionValue = (result.data as { condition?: boolean })
+          ?.condition;
+        nextNodes = selectConditionTargets(
+          nodeId,
+          nextNodes,
+          conditionValue === true,
+          edges
+        );
+      } else if (actionType === "Switch") {
+        const matchedCase =
+          (result.data as { matchedCase?: string })?.matchedCase ??
+          SWITCH_DEFAULT_HANDLE;
+        nextNodes = selectSwitchTargets(nodeId, nextNodes, matchedCase, edges);
+      } else if (actionType === "Approval") {
+        const approved = (result.data as ApprovalOutput | undefined)?.approved;
+        nextNodes = selectApprovalTargets(
+          nodeId,
+          nextNodes,
+          approved === true,
+          edges
+        );
+      }
+      await continueWith(nodeId, nextNodes);
+    } catch (error) {
+      const errorMessage = await getErrorMessageAsync(error);
+      bodyResults[nodeId] = { success: false, error: errorMessage };
+      const errorTargets = routeFailure(
+        node,
+        errorMessage,
+        bodyEdgesBySource.get(nodeId) ?? [],
+        scopedOutputs
+      );
+      await continueWith(nodeId, errorTargets, "failed");
+    }
+  }
+
+  // -------------------------------------------------------------------
+  // Loop helpers shared by For Each and While
+  // -------------------------------------------------------------------
+
+  /**
+   * Run one iteration of a loop body, starting from the loop node's direct
+   * children. Body nodes are logged under the loop node with the iteration
+   * index; returns their results.
+   */
+  async function runLoopBody(
+    loopNodeId: string,
+    loopBody: LoopBodyInfo,
+    scopedOutputs: NodeOutputs,
+    iterationIndex: number
+  ): Promise<Record<string, ExecutionResult>> {
+    const { collectNodeId, bodyEdgesBySource } = loopBody;
+    const bodyResults: Record<string, ExecutionResult> = {};
+    const bodyVisited = new Set<string>();
+    const iterationMeta = { iterationIndex, forEachNodeId: loopNodeId };
+    const bodyJoins = createJoinTracker(
+      [loopNodeId],
+      [...bodyEdgesBySource].flatMap(([source, targets]) =>
+        targets.map((target) => ({ source, target }))
+      ),
+      getNodeJoinMode
+    );
+    bodyJoinTrackers.set(bodyVisited, bodyJoins);
+
+    await continueBodyFrom(
+      loopNodeId,
+      bodyEdgesBySource.get(loopNodeId) ?? [],
+      "skipped",
+      bodyEdgesBySource,
+      bodyJoins,
+      (bodyNodeId) =>
+        executeBodyNode(
+          bodyNodeId,
           bodyVisited,
           scopedOutputs,
           bodyResults,
           bodyEdgesBySource,
           collectNodeId,
           iterationMeta
-        );
+        )
+    );
+    return bodyResults;
+  }
+
+  /** The first body node failure no error handler recovered, if any */
+  function findBodyFailure(
+    bodyResults: Record<string, ExecutionResult>
+  ): [string, ExecutionResult] | undefined {
+    return Object.entries(bodyResults).find(
+      ([, r]) => !(r.success || r.recovered)
+    );
+  }
+
+  /**
+   * Capture the output an iteration passes to Collect: the last body node(s)
+   * that produced data. First check nodes directly before Collect; if those
+   * were skipped (e.g., a Condition that evaluated false), fall back to the
+   * last body node that actually produced output.
+   */
+  function captureIterationOutput(
+    loopBody: LoopBodyInfo,
+    scopedOutputs: NodeOutputs
+  ): unknown {
+    const { bodyNodeIds, collectNodeId, bodyEdgesBySource } = loopBody;
+    if (!collectNodeId) {
+      return;
+    }
+    let iterationOutput: unknown;
+
+    // Primary: nodes whose edges target Collect
+    for (const bodyNodeId of bodyNodeIds) {
+      const targets = bodyEdgesBySource.get(bodyNodeId) ?? [];
+      if (targets.includes(collectNodeId)) {
+        const sanitizedBodyId = bodyNodeId.replace(/[^a-zA-Z0-9]/g, "_");
+        const output = scopedOutputs[sanitizedBodyId];
+        if (output?.data !== undefined) {
+          iterationOutput = output.data;
+        }
+      }
+    }
+
+    // Fallback: last body node with output (handles skipped Conditions)
+    if (iterationOutput === undefined) {
+      for (const bodyNodeId of bodyNodeIds) {
+        const sanitizedBodyId = bodyNodeId.replace(/[^a-zA-Z0-9]/g, "_");
+        const output = scopedOutputs[sanitizedBodyId];
+        if (output?.data !== undefined) {
+          iterationOutput = output.data;
+        }
       }
-    } catch (error) {
-      const errorMessage = await getErrorMessageAsync(error);
-      bodyResults[nodeId] = { success: false, error: errorMessage };
+    }
+    return iterationOutput;
+  }
+
+  /**
+   * Store the iteration results as the Collect node's output, log the
+   * Collect step and continue downstream of it.
+   */
+  async function storeCollectOutput(params: {
+    loopNodeId: string;
+    collectNodeId: string;
+    iterationResults: unknown[];
+    currentOutputs: NodeOutputs;
+    currentResults: Record<string, ExecutionResult>;
+    currentVisited: Set<string>;
+    continueAfterCollect?: (collectNodeId: string) => Promise<void>;
+  }): Promise<void> {
+    const {
+      loopNodeId,
+      collectNodeId,
+      iterationResults,
+      currentOutputs,
+      currentResults,
+      currentVisited,
+      continueAfterCollect,
+    } = params;
+    const collectData = {
+      results: iterationResults,
+      count: iterationResults.length,
+    };
+    const sanitizedCollectId = collectNodeId.replace(/[^a-zA-Z0-9]/g, "_");
+    const collectNode = nodeMap.get(collectNodeId);
+    const collectLabel = collectNode ? getNodeName(collectNode) : "Collect";
+
+    // Execute Collect step for logging / observability
+    const collectAction = SYSTEM_ACTIONS.Collect;
+    if (collectAction) {
+      const mod = await collectAction.importer();
+      await mod[collectAction.stepFunction]({
+        ...collectData,
+        _context: {
+          executionId,
+          nodeId: collectNodeId,
+          nodeName: collectLabel,
+          nodeType: "Collect",
+          forEachNodeId: loopNodeId,
+        } satisfies StepContext,
+      });
+    }
+
+    currentOutputs[sanitizedCollectId] = {
+      label: collectLabel,
+      data: collectData,
+    };
+    currentResults[collectNodeId] = { success: true, data: collectData };
+    currentVisited.add(collectNodeId);
+
+    if (continueAfterCollect) {
+      await continueAfterCollect(collectNodeId);
     }
   }
 
@@ -1294,11 +2454,12 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
     const itemsToProcess = resolvedArray.slice(0, maxIterations);
 
     // 2. Identify body subgraph
-    const { bodyNodeIds, collectNodeId, bodyEdgesBySource } = identifyLoopBody(
+    const loopBody = identifyLoopBody(
       forEachNodeId,
       currentEdgesBySource,
       nodeMap
     );
+    const { bodyNodeIds, collectNodeId } = loopBody;
 
     const sanitizedForEachId = forEachNodeId.replace(/[^a-zA-Z0-9]/g, "_");
 
@@ -1310,8 +2471,10 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
       item: unknown,
       index: number
     ): Promise<unknown> {
+      if (cancelled || timedOut) {
+        return createCancelledResult();
+      }
       const scopedOutputs: NodeOutputs = structuredClone(currentOutputs);
-      const bodyResults: Record<string, ExecutionResult> = {};
 
       // Apply map expression to transform each item before body execution
       let currentItem: unknown = item;
@@ -1330,26 +2493,15 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
       };
 
       // Execute body starting from For Each's direct children
-      const bodyVisited = new Set<string>();
-      const firstBodyNodes = bodyEdgesBySource.get(forEachNodeId) ?? [];
-      const iterationMeta = { iterationIndex: index, forEachNodeId };
-
-      for (const bodyNodeId of firstBodyNodes) {
-        await executeBodyNode(
-          bodyNodeId,
-          bodyVisited,
-          scopedOutputs,
-          bodyResults,
-          bodyEdgesBySource,
-          collectNodeId,
-          iterationMeta
-        );
-      }
+      const bodyResults = await runLoopBody(
+        forEachNodeId,
+        loopBody,
+        scopedOutputs,
+        index
+      );
 
       // If any body node failed, surface the error in the iteration result
-      const bodyFailure = Object.entries(bodyResults).find(
-        ([, r]) => !r.success
-      );
+      const bodyFailure = findBodyFailure(bodyResults);
       if (bodyFailure) {
         return {
           success: false as const,
@@ -1358,35 +2510,7 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
         };
       }
 
-      // Capture output from the last body node(s) that produced data.
-      // First check nodes directly before Collect; if those were skipped
-      // (e.g., a Condition that evaluated false), fall back to the last
-      // body node that actually produced output.
-      let iterationOutput: unknown;
-      if (collectNodeId) {
-        // Primary: nodes whose edges target Collect
-        for (const bodyNodeId of bodyNodeIds) {
-          const targets = bodyEdgesBySource.get(bodyNodeId) ?? [];
-          if (targets.includes(collectNodeId)) {
-            const sanitizedBodyId = bodyNodeId.replace(/[^a-zA-Z0-9]/g, "_");
-            const output = scopedOutputs[sanitizedBodyId];
-            if (output?.data !== undefined) {
-              iterationOutput = output.data;
-            }
-          }
-        }
-
-        // Fallback: last body node with output (handles skipped Conditions)
-        if (iterationOutput === undefined) {
-          for (const bodyNodeId of bodyNodeIds) {
-            const sanitizedBodyId = bodyNodeId.replace(/[^a-zA-Z0-9]/g, "_");
-            const output = scopedOutputs[sanitizedBodyId];
-            if (output?.data !== undefined) {
-              iterationOutput = output.data;
-            }
-          }
-        }
-      }
+      let iterationOutput = captureIterationOutput(loopBody, scopedOutputs);
 
       // Final fallback: use the mapped item itself
       if (iterationOutput === undefined) {
@@ -1419,41 +2543,16 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
     }
 
     // 6. Store Collect output and continue downstream (only when Collect exists)
-    if (collectNodeId) {
-      const collectData = {
-        results: iterationResults,
-        count: iterationResults.length,
-      };
-      const sanitizedCollectId = collectNodeId.replace(/[^a-zA-Z0-9]/g, "_");
-      const collectNode = nodeMap.get(collectNodeId);
-      const collectLabel = collectNode ? getNodeName(collectNode) : "Collect";
-
-      // Execute Collect step for logging / observability
-      const collectAction = SYSTEM_ACTIONS.Collect;
-      if (collectAction) {
-        const mod = await collectAction.importer();
-        await mod[collectAction.stepFunction]({
-          ...collectData,
-          _context: {
-            executionId,
-            nodeId: collectNodeId,
-            nodeName: collectLabel,
-            nodeType: "Collect",
-            forEachNodeId,
-          } satisfies StepContext,
-        });
-      }
-
-      currentOutputs[sanitizedCollectId] = {
-        label: collectLabel,
-        data: collectData,
-      };
-      currentResults[collectNodeId] = { success: true, data: collectData };
-      currentVisited.add(collectNodeId);
-
-      if (continueAfterCollect) {
-        await continueAfterCollect(collectNodeId);
-      }
+    if (collectNodeId && !cancelled) {
+      await storeCollectOutput({
+        loopNodeId: forEachNodeId,
+        collectNodeId,
+        iterationResults,
+        currentOutputs,
+        currentResults,
+        currentVisited,
+        continueAfterCollect,
+      });
     }
 
     return {
@@ -1463,6 +2562,150 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
     };
   }
 
+  // -------------------------------------------------------------------
+  // While: iteration orchestrator
+  // -------------------------------------------------------------------
+
+  /**
+   * Run a While node: check its condition before every iteration, run the
+   * loop body while it holds and resolve the next state from the iteration's
+   * outputs. Iterations run sequentially since each one needs the state the
+   * previous one produced. Fails when the condition still holds after max
+   * iterations, when the state mapping is invalid or when the body fails.
+   */
+  // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: Orchestrates loop iteration with state threading, error handling and result collection
+  async function handleWhileExecution(params: {
+    whileNodeId: string;
+    whileNode: WorkflowNode;
+    currentOutputs: NodeOutputs;
+    currentResults: Record<string, ExecutionResult>;
+    currentVisited: Set<string>;
+    currentEdgesBySource: Map<string, string[]>;
+    continueAfterCollect?: (collectNodeId: string) => Promise<void>;
+  }): Promise<WhileOutput | { error: string }> {
+    const {
+      whileNodeId,
+      whileNode,
+      currentOutputs,
+      currentResults,
+      currentVisited,
+      currentEdgesBySource,
+      continueAfterCollect,
+    } = params;
+
+    // The condition and next state are resolved per iteration, so they are
+    // read from the raw config rather than resolved up front
+    const config = whileNode.data.config ?? {};
+    const { initialState, maxIterations: rawMaxIterations } = processTemplates(
+      {
+        initialState: config.initialState,
+        maxIterations: config.maxIterations,
+      },
+      currentOutputs
+    );
+    const maxIterations = parseWhileMaxIterations(rawMaxIterations);
+    const initial = parseWhileState(initialState, "Initial state");
+    if ("error" in initial) {
+      return initial;
+    }
+
+    const loopBody = identifyLoopBody(
+      whileNodeId,
+      currentEdgesBySource,
+      nodeMap
+    );
+    const { bodyNodeIds, collectNodeId } = loopBody;
+    const sanitizedWhileId = whileNodeId.replace(/[^a-zA-Z0-9]/g, "_");
+
+    let state = initial.state;
+    let iteration = 0;
+    const iterationResults: unknown[] = [];
+    const runIterations = async (): Promise<{ error: string } | undefined> => {
+      for (;;) {
+        if (cancelled || timedOut) {
+          return { error: EXECUTION_CANCELLED_ERROR };
+        }
+        const scopedOutputs: NodeOutputs = structuredClone(currentOutputs);
+        scopedOutputs[sanitizedWhileId] = {
+          label: getNodeName(whileNode),
+          data: { state, iteration },
+        };
+
+        try {
+          const { result } = evaluateConditionExpression(
+            config.condition,
+            scopedOutputs
+          );
+          if (!result) {
+            return;
+          }
+        } catch (error) {
+          return { error: await getErrorMessageAsync(error) };
+        }
+        if (iteration >= maxIterations) {
+          return { error: formatWhileLimitError(maxIterations) };
+        }
+
+        const bodyResults = await runLoopBody(
+          whileNodeId,
+          loopBody,
+          scopedOutputs,
+          iteration
+        );
+        const bodyFailure = findBodyFailure(bodyResults);
+        if (bodyFailure) {
+          const failedNode = nodeMap.get(bodyFailure[0]);
+          return {
+            error: `Iteration ${iteration} failed at "${failedNode ? getNodeName(failedNode) : bodyFailure[0]}": ${bodyFailure[1].error ?? "Body node failed"}`,
+          };
+        }
+        iterationResults.push(
+          captureIterationOutput(loopBody, scopedOutputs) ?? state
+        );
+
+        if (config.nextState !== undefined && config.nextState !== "") {
+          const { nextState } = processTemplates(
+            { nextState: config.nextState },
+            scopedOutputs
+          );
+          const next = parseWhileState(nextState, "Next state");
+          if ("error" in next) {
+            return next;
+          }
+          state = next.state;
+        }
+        iteration += 1;
+      }
+    };
+    const failure = await runIterations();
+
+    // Mark body nodes as visited in the parent scope
+    for (const bodyNodeId of bodyNodeIds) {
+      currentVisited.add(bodyNodeId);
+    }
+    if (failure) {
+      if (collectNodeId) {
+        currentVisited.add(collectNodeId);
+      }
+      return failure;
+    }
+
+    // Store Collect output and continue downstream (only when Collect exists)
+    if (collectNodeId && !cancelled) {
+      await storeCollectOutput({
+        loopNodeId: whileNodeId,
+        collectNodeId,
+        iterationResults,
+        currentOutputs,
+        currentResults,
+        currentVisited,
+        continueAfterCollect,
+      });
+    }
+
+    return { state, iterations: iteration };
+  }
+
   // end keeperhub code //
 
   // Helper to execute a single node
@@ -1470,6 +2713,17 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
   async function executeNode(nodeId: string, visited: Set<string> = new Set()) {
     console.log("[Workflow Executor] Executing node:", nodeId);
 
+    // start custom keeperhub code //
+    if (timedOut) {
+      console.log("[Workflow Executor] Workflow timed out, not starting node");
+      return;
+    }
+    if (suspendedUntil) {
+      console.log("[Workflow Executor] Workflow suspended, not starting node");
+      return;
+    }
+    // end keeperhub code //
+
     if (visited.has(nodeId)) {
       console.log("[Workflow Executor] Node already visited, skipping");
       return; // Prevent cycles
@@ -1493,10 +2747,14 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
         data: null,
       };
 
-      const nextNodes = edgesBySource.get(nodeId) || [];
-      await Promise.all(
-        nextNodes.map((nextNodeId) => executeNode(nextNodeId, visited))
+      // start custom keeperhub code //
+      const nextNodes = selectSuccessTargets(
+        nodeId,
+        edgesBySource.get(nodeId) || [],
+        edges
       );
+      await continueFrom(nodeId, nextNodes, visited);
+      // end keeperhub code //
       return;
     }
 
@@ -1526,13 +2784,18 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
         };
 
         // Handle webhook mock request for test runs
+        // start custom keeperhub code //
+        // Without a typed sample, an example generated from the payload schema
+        const webhookMockRequest =
+          triggerType === "Webhook" ? getWebhookMockRequest(config) : undefined;
+        // end keeperhub code //
         if (
           triggerType === "Webhook" &&
-          config.webhookMockRequest &&
+          webhookMockRequest && // keeperhub custom field //
           (!triggerInput || Object.keys(triggerInput).length === 0)
         ) {
           try {
-            const mockData = JSON.parse(config.webhookMockRequest as string);
+            const mockData = JSON.parse(webhookMockRequest); // keeperhub custom field //
             triggerData = { ...triggerData, ...mockData };
             console.log(
               "[Workflow Executor] Using webhook mock request data:",
@@ -1585,10 +2848,19 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
         };
 
         // Execute trigger step (handles logging internally)
-        const triggerResult = await triggerStep({
-          triggerData,
-          _context: triggerContext,
-        });
+        // start custom keeperhub code //
+        // A resumed execution replays the trigger data of the failed run
+        const replayedTrigger = getReplayedOutput(resumeState, node.id);
+        const triggerResult = replayedTrigger
+          ? (replayedTrigger.output as Awaited<ReturnType<typeof triggerStep>>)
+          : await triggerStep({
+              triggerData,
+              _context: triggerContext,
+            });
+        if (isCancelledResult(triggerResult)) {
+          cancelled = true;
+        }
+        // end keeperhub code //
 
         // Store the full trigger result (not unwrapped) so the shape
         // matches what withStepLogging writes to the execution log.
@@ -1628,6 +2900,7 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
           nodeType: actionType,
           // start custom keeperhub code //
           triggerType: workflowTriggerType,
+          dryRun,
           // end keeperhub code //
         };
 
@@ -1635,12 +2908,24 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
         // IMPORTANT: We pass integrationId via config, not actual credentials
         // Steps fetch credentials internally using fetchCredentials(integrationId)
         console.log("[Workflow Executor] Calling executeActionStep");
-        const stepResult = await executeActionStep({
-          actionType,
-          config: processedConfig,
-          outputs,
-          context: stepContext,
-        });
+        // start custom keeperhub code //
+        // A node that completed in the execution being resumed is not run
+        // again; a replayed For Each still runs its loop below
+        const replayedStep = getReplayedOutput(resumeState, node.id);
+        const stepResult = replayedStep
+          ? replayedStep.output
+          : await runActionNode(
+              actionType,
+              processedConfig,
+              outputs,
+              stepContext
+            );
+        // A suspended node has not finished: it runs again when the
+        // execution is continued
+        if (isSuspendedResult(stepResult)) {
+          return;
+        }
+        // end keeperhub code //
 
         console.log("[Workflow Executor] Step result received:", {
           hasResult: !!stepResult,
@@ -1691,6 +2976,20 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
         success: result.success,
       });
 
+      // start custom keeperhub code //
+      if (result.success) {
+        recoverHandledFailures(node, results);
+      } else {
+        const errorTargets = routeFailure(
+          node,
+          result.error,
+          edgesBySource.get(nodeId) || [],
+          outputs
+        );
+        await continueFrom(nodeId, errorTargets, visited, "failed");
+      }
+      // end keeperhub code //
+
       // Execute next nodes
       if (result.success) {
         const currentActionType =
@@ -1714,12 +3013,12 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
             currentResults: results,
             currentVisited: visited,
             currentEdgesBySource: edgesBySource,
-            continueAfterCollect: async (collectId) => {
-              const nextNodes = edgesBySource.get(collectId) ?? [];
-              await Promise.all(
-                nextNodes.map((nextNodeId) => executeNode(nextNodeId, visited))
-              );
-            },
+            continueAfterCollect: (collectId) =>
+              continueFrom(
+                collectId,
+                edgesBySource.get(collectId) ?? [],
+                visited
+              ),
           });
 
           // Update the For Each node's output with resolved iteration metadata
@@ -1729,9 +3028,48 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
             data: iterationSummary,
           };
           results[nodeId] = { success: true, data: iterationSummary };
+        } else if (currentActionType === "While") {
+          // While: repeat the body subgraph while the condition holds, then
+          // store results on Collect and continue from Collect downstream.
+          const whileResult = await handleWhileExecution({
+            whileNodeId: nodeId,
+            whileNode: node,
+            currentOutputs: outputs,
+            currentResults: results,
+            currentVisited: visited,
+            currentEdgesBySource: edgesBySource,
+            continueAfterCollect: (collectId) =>
+              continueFrom(
+                collectId,
+                edgesBySource.get(collectId) ?? [],
+                visited
+              ),
+          });
+
+          const sanitizedWhileId = nodeId.replace(/[^a-zA-Z0-9]/g, "_");
+          if ("error" in whileResult) {
+            outputs[sanitizedWhileId] = {
+              label: getNodeName(node),
+              data: undefined,
+            };
+            results[nodeId] = { success: false, error: whileResult.error };
+            const errorTargets = routeFailure(
+              node,
+              whileResult.error,
+              edgesBySource.get(nodeId) || [],
+              outputs
+            );
+            await continueFrom(nodeId, errorTargets, visited, "failed");
+          } else {
+            outputs[sanitizedWhileId] = {
+              label: getNodeName(node),
+              data: whileResult,
+            };
+            results[nodeId] = { success: true, data: whileResult };
+          }
         } else if (currentActionType === "Condition") {
           // end keeperhub code //
-          // For condition nodes, only execute next nodes if condition is true
+          // For condition nodes, only execute the nodes on the taken branch
           const conditionResult = (result.data as { condition?: boolean })
             ?.condition;
           console.log(
@@ -1739,32 +3077,72 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
             conditionResult
           );
 
-          if (conditionResult === true) {
-            const nextNodes = edgesBySource.get(nodeId) || [];
-            console.log(
-              "[Workflow Executor] Condition is true, executing",
-              nextNodes.length,
-              "next nodes in parallel"
-            );
-            await Promise.all(
-              nextNodes.map((nextNodeId) => executeNode(nextNodeId, visited))
-            );
-          } else {
-            console.log(
-              "[Workflow Executor] Condition is false, skipping next nodes"
-            );
-          }
+          // start custom keeperhub code //
+          // Edges are tagged with the "true" / "false" source handle; untagged
+          // edges belong to the true branch so legacy gate workflows still run.
+          const nextNodes = selectConditionTargets(
+            nodeId,
+            edgesBySource.get(nodeId) || [],
+            conditionResult === true,
+            edges
+          );
+          console.log(
+            `[Workflow Executor] Condition is ${conditionResult === true}, executing`,
+            nextNodes.length,
+            "next nodes in parallel"
+          );
+          await continueFrom(nodeId, nextNodes, visited);
+        } else if (currentActionType === "Switch") {
+          // Switch: follow only the edges leaving the matched case's handle
+          const matchedCase =
+            (result.data as { matchedCase?: string })?.matchedCase ??
+            SWITCH_DEFAULT_HANDLE;
+          const nextNodes = selectSwitchTargets(
+            nodeId,
+            edgesBySource.get(nodeId) || [],
+            matchedCase,
+            edges
+          );
+          console.log(
+            `[Workflow Executor] Switch matched "${matchedCase}", executing`,
+            nextNodes.length,
+            "next nodes in parallel"
+          );
+          await continueFrom(nodeId, nextNodes, visited);
+        } else if (currentActionType === "Approval") {
+          // Approval: follow the approved or the rejected (and expired) path
+          const approval = result.data as ApprovalOutput | undefined;
+          const nextNodes = selectApprovalTargets(
+            nodeId,
+            edgesBySource.get(nodeId) || [],
+            approval?.approved === true,
+            edges
+          );
+          console.log(
+            `[Workflow Executor] Approval ${approval?.decision ?? "approved"}, executing`,
+            nextNodes.length,
+            "next nodes in parallel"
+          );
+          await continueFrom(nodeId, nextNodes, visited);
+          // end keeperhub code //
         } else {
           // For non-condition nodes, execute all next nodes in parallel
-          const nextNodes = edgesBySource.get(nodeId) || [];
+          // start custom keeperhub code //
+          // Error-handler edges only run when the node fails
+          const nextNodes = selectSuccessTargets(
+            nodeId,
+            edgesBySource.get(nodeId) || [],
+            edges
+          );
+          // end keeperhub code //
           console.log(
             "[Workflow Executor] Executing",
             nextNodes.length,
             "next nodes in parallel"
           );
-          await Promise.all(
-            nextNodes.map((nextNodeId) => executeNode(nextNodeId, visited))
-          );
+          // start custom keeperhub code //
+          await continueFrom(nodeId, nextNodes, visited);
+          // end keeperhub code //
         }
       }
     } catch (error) {
@@ -1786,6 +3164,16 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
       results[nodeId] = errorResult;
       // Note: stepHandler already logged the error for action steps
       // Trigger steps don't throw, so this catch is mainly for unexpected errors
+
+      // start custom keeperhub code //
+      const errorTargets = routeFailure(
+        node,
+        errorMessage,
+        edgesBySource.get(nodeId) || [],
+        outputs
+      );
+      await continueFrom(nodeId, errorTargets, visited, "failed");
+      // end keeperhub code //
     }
   }
 
@@ -1804,19 +3192,125 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
     incrementConcurrentExecutions();
     // end keeperhub code //
 
-    await Promise.all(triggerNodes.map((trigger) => executeNode(trigger.id)));
+    // start custom keeperhub code //
+    const missingVariables = getMissingVariables(input.variables);
+    if (missingVariables.length > 0) {
+      throw new Error(formatMissingVariablesError(missingVariables));
+    }
 
-    const finalSuccess = Object.values(results).every((r) => r.success);
+    if (
+      getConcurrencyPolicy(input.concurrencyPolicy) === "queue" &&
+      !dryRun &&
+      executionId &&
+      workflowId
+    ) {
+      console.log("[Workflow Executor] Waiting for earlier runs to finish");
+      const turn = await waitForQueueTurn(executionId, workflowId);
+      cancelled = turn === "cancelled";
+      if (turn instanceof Date) {
+        suspendedUntil = turn;
+      }
+    }
+
+    // A continued run replays its own completed nodes; their log rows are
+    // already in place, so nothing is copied
+    const resumeFromExecutionId = input.continueExecution
+      ? executionId
+      : input.resumeFromExecutionId;
+    if (resumeFromExecutionId && !(cancelled || suspendedUntil)) {
+      resumeState = await loadResumeStateStep({
+        resumeFromExecutionId,
+        executionId: input.continueExecution ? undefined : executionId,
+        writeNodeIds: dryRun ? [] : getWriteNodeIds(nodes),
+      });
+      console.log(
+        "[Workflow Executor] Resuming execution",
+        resumeFromExecutionId,
+        "- replaying",
+        Object.keys(resumeState).length,
+        "completed nodes"
+      );
+    }
+
+    // Race the trigger fan-out against the workflow timeout (if configured)
+    const workflowTimeoutSeconds = getWorkflowTimeoutSeconds(
+      triggerNodes[0]?.data.config
+    );
+    const fanOut =
+      cancelled || suspendedUntil
+        ? Promise.resolve([])
+        : Promise.all(triggerNodes.map((trigger) => executeNode(trigger.id)));
+    const fanOutOutcome =
+      workflowTimeoutSeconds === null
+        ? await fanOut
+        : await Promise.race([
+            fanOut,
+            workflowSleep(workflowTimeoutSeconds * 1000).then(() => {
+              timedOut = true;
+              return TIMED_OUT;
+            }),
+          ]);
+    const workflowTimeoutError =
+      fanOutOutcome === TIMED_OUT && workflowTimeoutSeconds !== null
+        ? formatWorkflowTimeoutError(workflowTimeoutSeconds)
+        : undefined;
+    if (workflowTimeoutError && executionId) {
+      console.warn(`[Workflow Executor] ${workflowTimeoutError}`);
+      await recordWorkflowTimeoutStep({
+        executionId,
+        error: workflowTimeoutError,
+      });
+    }
+
+    // A suspended run is not finished: the execution stays running and the
+    // caller records when it continues
+    if (suspendedUntil && !(workflowTimeoutError || cancelled)) {
+      console.log(
+        "[Workflow Executor] Execution suspended until",
+        suspendedUntil.toISOString()
+      );
+      decrementConcurrentExecutions();
+      return {
+        success: false,
+        results,
+        outputs,
+        cancelled,
+        suspendedUntil: suspendedUntil.toISOString(),
+      };
+    }
+    // end keeperhub code //
+
+    const finalSuccess =
+      !(workflowTimeoutError || cancelled) &&
+      Object.values(results).every((r) => r.success || r.recovered);
     const duration = Date.now() - workflowStartTime;
 
     // start custom keeperhub code //
+    const finalError =
+      workflowTimeoutError ??
+      (cancelled ? EXECUTION_CANCELLED_ERROR : undefined) ??
+      Object.values(results).find((r) => !(r.success || r.recovered))?.error;
+    let finalStatus: "success" | "error" | "timeout" | "cancelled" =
+      finalSuccess ? "success" : "error";
+    if (workflowTimeoutError) {
+      finalStatus = "timeout";
+    } else if (cancelled) {
+      finalStatus = "cancelled";
+    }
+    if (cancelled && executionId) {
+      console.log("[Workflow Executor] Execution was cancelled");
+      await releaseCancelledExecutionStep({ executionId });
+    }
+
     recordWorkflowComplete({
       workflowId,
       executionId,
       triggerType,
       durationMs: duration,
       success: finalSuccess,
-      error: Object.values(results).find((r) => !r.success)?.error,
+      timedOut: workflowTimeoutError !== undefined,
+      cancelled,
+      error: finalError,
     });
     decrementConcurrentExecutions();
     // end keeperhub code //
@@ -1834,9 +3328,11 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
           triggerData: {},
           _workflowComplete: {
             executionId,
-            status: finalSuccess ? "success" : "error",
+            // start custom keeperhub code //
+            status: finalStatus,
             output: Object.values(results).at(-1)?.data,
-            error: Object.values(results).find((r) => !r.success)?.error,
+            error: finalError,
+            // end keeperhub code //
             startTime: workflowStartTime,
           },
         });
@@ -1858,6 +3354,11 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
       success: finalSuccess,
       results,
       outputs,
+      // start custom keeperhub code //
+      cancelled,
+      status: finalStatus,
+      error: finalError,
+      // end keeperhub code //
     };
   } catch (error) {
     logSystemError(
@@ -1914,6 +3415,9 @@ export async function executeWorkflow(input: WorkflowExecutionInput) {
       results,
       outputs,
       error: errorMessage,
+      // start custom keeperhub code //
+      status: "error" as const,
+      // end keeperhub code //
     };
   }
 }
@@ -4,7 +4,7 @@
  */
 import "server-only";
 
-import { eq } from "drizzle-orm";
+import { and, desc, eq, isNull, ne } from "drizzle-orm";
 import { db } from "@/lib/db";
 import { workflowExecutionLogs, workflowExecutions } from "@/lib/db/schema";
 
@@ -17,6 +17,7 @@ export type LogStepStartParams = {
   // start custom keeperhub code //
   iterationIndex?: number;
   forEachNodeId?: string;
+  attempt?: number;
   // end keeperhub code //
 };
 
@@ -44,6 +45,7 @@ export async function logStepStartDb(
       // start custom keeperhub code //
       iterationIndex: params.iterationIndex ?? null,
       forEachNodeId: params.forEachNodeId ?? null,
+      attempt: params.attempt ?? null,
       // end keeperhub code //
     })
     .returning();
@@ -60,6 +62,10 @@ export type LogStepCompleteParams = {
   status: "success" | "error";
   output?: unknown;
   error?: string;
+  // start custom keeperhub code //
+  /** Unredacted output kept for resumed executions (defaults to `output`) */
+  replayOutput?: unknown;
+  // end keeperhub code //
 };
 
 /**
@@ -78,13 +84,27 @@ export async function logStepCompleteDb(
       error: params.error,
       completedAt: new Date(),
       duration: duration.toString(),
+      // start custom keeperhub code //
+      replayOutput:
+        params.status === "success"
+          ? (params.replayOutput ?? params.output)
+          : null,
+      // end keeperhub code //
     })
-    .where(eq(workflowExecutionLogs.id, params.logId));
+    .where(
+      // start custom keeperhub code //
+      // A step that finishes after its node timed out keeps the timeout status
+      and(
+        eq(workflowExecutionLogs.id, params.logId),
+        eq(workflowExecutionLogs.status, "running")
+      )
+      // end keeperhub code //
+    );
 }
 
 export type LogWorkflowCompleteParams = {
   executionId: string;
-  status: "success" | "error";
+  status: "success" | "error" | "timeout" | "cancelled";
   output?: unknown;
   error?: string;
   startTime: number;
@@ -109,8 +129,21 @@ export async function logWorkflowCompleteDb(
       // Clear current step on completion
       currentNodeId: null,
       currentNodeName: null,
+      // start custom keeperhub code //
+      waitingUntil: null,
+      // end keeperhub code //
     })
-    .where(eq(workflowExecutions.id, params.executionId));
+    .where(
+      // start custom keeperhub code //
+      // A run cancelled while its last step was running stays cancelled
+      and(
+        eq(workflowExecutions.id, params.executionId),
+        params.status === "cancelled"
+          ? undefined
+          : ne(workflowExecutions.status, "cancelled")
+      )
+      // end keeperhub code //
+    );
 }
 
 // ============================================================================
@@ -209,3 +242,195 @@ export async function incrementCompletedSteps(
     })
     .where(eq(workflowExecutions.id, params.executionId));
 }
+
+// start custom keeperhub code //
+// ============================================================================
+// Timeout Recording
+// ============================================================================
+
+export type LogStepTimeoutParams = {
+  executionId: string;
+  nodeId: string;
+  nodeName: string;
+  nodeType: string;
+  error: string;
+  iterationIndex?: number;
+  forEachNodeId?: string;
+  attempt?: number;
+};
+
+function getLogDuration(startedAt: Date, completedAt: Date): string {
+  return String(Math.max(completedAt.getTime() - startedAt.getTime(), 0));
+}
+
+/**
+ * Mark a node attempt as timed out.
+ * Updates the attempt's running log row, or inserts a timeout row when the
+ * step never got as far as logging its start.
+ */
+export async function logStepTimeoutDb(
+  params: LogStepTimeoutParams
+): Promise<void> {
+  const conditions = [
+    eq(workflowExecutionLogs.executionId, params.executionId),
+    eq(workflowExecutionLogs.nodeId, params.nodeId),
+    eq(workflowExecutionLogs.status, "running"),
+  ];
+  if (params.iterationIndex !== undefined) {
+    conditions.push(
+      eq(workflowExecutionLogs.iterationIndex, params.iterationIndex)
+    );
+  }
+  if (params.attempt !== undefined) {
+    conditions.push(eq(workflowExecutionLogs.attempt, params.attempt));
+  }
+
+  const running = await db.query.workflowExecutionLogs.findFirst({
+    where: and(...conditions),
+    orderBy: [desc(workflowExecutionLogs.startedAt)],
+  });
+
+  const completedAt = new Date();
+  if (running) {
+    await db
+      .update(workflowExecutionLogs)
+      .set({
+        status: "timeout",
+        error: params.error,
+        completedAt,
+        duration: getLogDuration(running.startedAt, completedAt),
+      })
+      .where(
+        and(
+          eq(workflowExecutionLogs.id, running.id),
+          eq(workflowExecutionLogs.status, "running")
+        )
+      );
+    return;
+  }
+
+  await db.insert(workflowExecutionLogs).values({
+    executionId: params.executionId,
+    nodeId: params.nodeId,
+    nodeName: params.nodeName,
+    nodeType: params.nodeType,
+    status: "timeout",
+    error: params.error,
+    startedAt: completedAt,
+    completedAt,
+    duration: "0",
+    iterationIndex: params.iterationIndex ?? null,
+    forEachNodeId: params.forEachNodeId ?? null,
+    attempt: params.attempt ?? null,
+  });
+}
+
+/**
+ * Mark every step still running in an execution as timed out.
+ * Used when the workflow-level timeout stops the execution.
+ */
+export async function timeoutRunningStepsDb(params: {
+  executionId: string;
+  error: string;
+}): Promise<void> {
+  const running = await db.query.workflowExecutionLogs.findMany({
+    where: and(
+      eq(workflowExecutionLogs.executionId, params.executionId),
+      eq(workflowExecutionLogs.status, "running")
+    ),
+  });
+
+  const completedAt = new Date();
+  for (const log of running) {
+    await db
+      .update(workflowExecutionLogs)
+      .set({
+        status: "timeout",
+        error: params.error,
+        completedAt,
+        duration: getLogDuration(log.startedAt, completedAt),
+      })
+      .where(
+        and(
+          eq(workflowExecutionLogs.id, log.id),
+          eq(workflowExecutionLogs.status, "running")
+        )
+      );
+  }
+}
+
+// ============================================================================
+// Delay Tracking
+// ============================================================================
+
+export type SetExecutionWaitingParams = {
+  executionId: string;
+  /** When the execution resumes, or null once it has resumed */
+  waitingUntil: Date | null;
+};
+
+/**
+ * Record that an execution is paused by a Delay node (or has resumed).
+ */
+export async function setExecutionWaitingDb(
+  params: SetExecutionWaitingParams
+): Promise<void> {
+  await db
+    .update(workflowExecutions)
+    .set({ waitingUntil: params.waitingUntil })
+    .where(eq(workflowExecutions.id, params.executionId));
+}
+
+export type RunningStep = LogStepStartResult & {
+  input: unknown;
+};
+
+/**
+ * The open log row of a top-level node, left by a run the K8s runner
+ * suspended while the node waited. Lets the continuing run pick the wait up
+ * where it stopped instead of starting it over.
+ */
+export async function findRunningStepDb(params: {
+  executionId: string;
+  nodeId: string;
+}): Promise<RunningStep | undefined> {
+  const [log] = await db
+    .select({
+      id: workflowExecutionLogs.id,
+      input: workflowExecutionLogs.input,
+      startedAt: workflowExecutionLogs.startedAt,
+    })
+    .from(workflowExecutionLogs)
+    .where(
+      and(
+        eq(workflowExecutionLogs.executionId, params.executionId),
+        eq(workflowExecutionLogs.nodeId, params.nodeId),
+        eq(workflowExecutionLogs.status, "running"),
+        isNull(workflowExecutionLogs.iterationIndex)
+      )
+    )
+    .orderBy(desc(workflowExecutionLogs.startedAt))
+    .limit(1);
+  return log
+    ? { logId: log.id, startTime: log.startedAt.getTime(), input: log.input }
+    : undefined;
+}
+
+// ============================================================================
+// Cancellation
+// ============================================================================
+
+/**
+ * Whether the execution was cancelled through the cancel endpoint.
+ * Checked before every step so a cancelled execution runs no further steps.
+ */
+export async function isExecutionCancelledDb(
+  executionId: string
+): Promise<boolean> {
+  const execution = await db.query.workflowExecutions.findFirst({
+    where: eq(workflowExecutions.id, executionId),
+    columns: { status: true },
+  });
+  return execution?.status === "cancelled";
+}
+// end keeperhub code //
@@ -1,6 +1,13 @@
 import type { Edge, EdgeChange, Node, NodeChange } from "@xyflow/react";
 import { applyEdgeChanges, applyNodeChanges } from "@xyflow/react";
 import { atom } from "jotai";
+// start custom keeperhub code //
+import {
+  type ConcurrencyPolicy,
+  DEFAULT_CONCURRENCY_POLICY,
+} from "@/keeperhub/lib/concurrency-policy";
+import type { WorkflowVariable } from "@/keeperhub/lib/workflow-variables";
+// end keeperhub code //
 import { api } from "./api-client";
 
 // start custom keeperhub code //
@@ -48,6 +55,10 @@ export const currentWorkflowNameAtom = atom<string>("");
 export const currentWorkflowDescriptionAtom = atom<string>("");
 export const currentWorkflowProjectIdAtom = atom<string | null>(null);
 export const currentWorkflowTagIdAtom = atom<string | null>(null);
+export const currentWorkflowVariablesAtom = atom<WorkflowVariable[]>([]);
+export const currentWorkflowConcurrencyPolicyAtom = atom<ConcurrencyPolicy>(
+  DEFAULT_CONCURRENCY_POLICY
+);
 // end keeperhub code //
 export const currentWorkflowVisibilityAtom =
   atom<WorkflowVisibility>("private");
@@ -84,7 +95,7 @@ export type ExecutionLogEntry = {
   nodeId: string;
   nodeName: string;
   nodeType: string;
-  status: "pending" | "running" | "success" | "error";
+  status: "pending" | "running" | "success" | "error" | "timeout";
   output?: unknown;
 };
 
@@ -503,6 +514,8 @@ export const resetWorkflowStateForOrgSwitchAtom = atom(null, (_get, set) => {
   set(currentWorkflowDescriptionAtom, "");
   set(currentWorkflowProjectIdAtom, null);
   set(currentWorkflowTagIdAtom, null);
+  set(currentWorkflowVariablesAtom, []);
+  set(currentWorkflowConcurrencyPolicyAtom, DEFAULT_CONCURRENCY_POLICY);
   set(currentWorkflowVisibilityAtom, "private");
   set(currentWorkflowPublicTagsAtom, []);
   set(isWorkflowOwnerAtom, true);
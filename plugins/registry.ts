@@ -84,6 +84,11 @@ export type ActionConfigFieldBase = {
   // For abi-function-select and abi-event-select: which field contains the ABI JSON
   abiField?: string;
 
+  // start custom keeperhub code //
+  // For abi-event-select: allow several events, stored comma-separated
+  multiple?: boolean;
+  // end keeperhub code //
+
   // For abi-function-select: filter functions by type ("read" or "write")
   functionFilter?: "read" | "write";
 
@@ -139,8 +144,17 @@ export type ActionConfigField = ActionConfigFieldBase | ActionConfigFieldGroup;
 export type OutputField = {
   field: string;
   description: string;
+  // start custom keeperhub code //
+  /** Value type when known, used to check template references on save */
+  type?: OutputFieldType;
+  // end keeperhub code //
 };
 
+// start custom keeperhub code //
+/** "number" includes the bigints that uint/int values deserialize to */
+export type OutputFieldType = "string" | "number" | "boolean" | "array" | "object";
+// end keeperhub code //
+
 /**
  * Output Display Config
  * Specifies how to render step output in the workflow runs panel
@@ -3,6 +3,8 @@
  *
  * Polls SQS for scheduled workflow triggers and creates K8s Jobs to execute them.
  * Replaces the previous executor that called the KeeperHub API directly.
+ * Between polls it also starts a Job for every execution a runner suspended
+ * during a long wait whose wait is over, which continues the execution.
  *
  * Usage:
  *   tsx scripts/job-spawner.ts
@@ -27,12 +29,13 @@ import { BatchV1Api, KubeConfig, type V1Job } from "@kubernetes/client-node";
 import { eq } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
+import { claimDueExecutions } from "../keeperhub/lib/execution-suspend";
+import { createTriggeredExecution } from "../keeperhub/lib/execution-trigger";
 import {
   workflowExecutions,
   workflowSchedules,
   workflows,
 } from "../lib/db/schema";
-import { generateId } from "../lib/utils/id";
 
 // Configuration
 const CONFIG = {
@@ -96,13 +99,15 @@ type ScheduleMessage = {
 };
 
 /**
- * Create a K8s Job to execute a workflow
+ * Create a K8s Job to execute a workflow, or with `continueExecution` to
+ * continue a suspended execution
  */
 async function createWorkflowJob(
   workflowId: string,
   executionId: string,
   scheduleId: string,
-  input: Record<string, unknown>
+  input: Record<string, unknown>,
+  options: { continueExecution?: boolean } = {}
 ): Promise<V1Job> {
   const jobName = `workflow-${executionId.substring(0, 8)}-${Date.now()}`;
 
@@ -149,6 +154,9 @@ async function createWorkflowJob(
                   name: "INTEGRATION_ENCRYPTION_KEY",
                   value: process.env.INTEGRATION_ENCRYPTION_KEY || "",
                 },
+                ...(options.continueExecution
+                  ? [{ name: "CONTINUE_EXECUTION", value: "true" }]
+                  : []),
               ],
               resources: {
                 requests: {
@@ -216,29 +224,48 @@ async function processScheduledWorkflow(
     return;
   }
 
-  // Create execution record with 'pending' status
-  const executionId = generateId();
-  await db.insert(workflowExecutions).values({
-    id: executionId,
-    workflowId,
-    userId: workflow.userId,
-    status: "pending", // Will be updated to 'running' by the job
-    input: {
-      triggerType: "schedule",
-      scheduleId,
-      triggerTime,
-    },
-  });
+  // SQS delivers at least once: a message seen before does not run again.
+  // Skip, or cancel the previous run, per the workflow's concurrency policy
+  const input = {
+    triggerType: "schedule",
+    scheduleId,
+    triggerTime,
+  };
+  const triggered = await createTriggeredExecution(
+    db,
+    workflow,
+    { input },
+    {
+      userId: workflow.userId,
+      status: "pending", // Will be updated to 'running' by the job
+      input,
+    }
+  );
+  if (!triggered.created) {
+    console.log(
+      triggered.duplicate
+        ? `[JobSpawner] Duplicate trigger for ${workflowId}, already ran as ${triggered.execution.id}`
+        : `[JobSpawner] Previous run still in progress, skipping: ${workflowId}`
+    );
+    return;
+  }
+  if (triggered.cancelledExecutionIds.length > 0) {
+    console.log(
+      `[JobSpawner] Cancelled previous runs: ${triggered.cancelledExecutionIds.join(", ")}`
+    );
+  }
+  const { executionId } = triggered;
 
   console.log(`[JobSpawner] Created execution record: ${executionId}`);
 
   // Create K8s Job
   try {
-    const job = await createWorkflowJob(workflowId, executionId, scheduleId, {
-      triggerType: "schedule",
+    const job = await createWorkflowJob(
+      workflowId,
+      executionId,
       scheduleId,
-      triggerTime,
-    });
+      input
+    );
 
     console.log(
       `[JobSpawner] Created K8s Job: ${job.metadata?.name} for execution ${executionId}`
@@ -247,22 +274,54 @@ async function processScheduledWorkflow(
     console.error("[JobSpawner] Failed to create K8s Job:", error);
 
     // Update execution record with error
-    await db
-      .update(workflowExecutions)
-      .set({
-        status: "error",
-        error:
-          error instanceof Error
-            ? `Failed to create job: ${error.message}`
-            : "Failed to create job",
-        completedAt: new Date(),
-      })
-      .where(eq(workflowExecutions.id, executionId));
+    await failExecution(executionId, error);
 
     throw error;
   }
 }
 
+/**
+ * Record that a Job could not be created for an execution
+ */
+async function failExecution(executionId: string, error: unknown) {
+  await db
+    .update(workflowExecutions)
+    .set({
+      status: "error",
+      error:
+        error instanceof Error
+          ? `Failed to create job: ${error.message}`
+          : "Failed to create job",
+      completedAt: new Date(),
+    })
+    .where(eq(workflowExecutions.id, executionId));
+}
+
+/**
+ * Start a Job for every suspended execution whose wait is over
+ */
+async function continueDueExecutions(): Promise<void> {
+  const due = await claimDueExecutions(db);
+  for (const execution of due) {
+    const input = execution.input ?? {};
+    try {
+      const job = await createWorkflowJob(
+        execution.workflowId,
+        execution.id,
+        typeof input.scheduleId === "string" ? input.scheduleId : "",
+        input,
+        { continueExecution: true }
+      );
+      console.log(
+        `[JobSpawner] Created K8s Job: ${job.metadata?.name} to continue execution ${execution.id}`
+      );
+    } catch (error) {
+      console.error("[JobSpawner] Failed to create K8s Job:", error);
+      await failExecution(execution.id, error);
+    }
+  }
+}
+
 /**
  * Process a single SQS message
  */
@@ -326,6 +385,8 @@ async function listen(): Promise<void> {
           await processMessage(msg);
         }
       }
+
+      await continueDueExecutions();
     } catch (error) {
       console.error("[JobSpawner] Error receiving messages:", error);
       // Back off on error
@@ -20,12 +20,19 @@
  * Environment variables (optional):
  *   WORKFLOW_INPUT - JSON string of trigger input (default: {})
  *   SCHEDULE_ID - ID of the schedule (for scheduled executions)
+ *   CONTINUE_EXECUTION - "true" to continue an execution this runner
+ *     suspended during a long wait (set by the job spawner)
  */
 
 import { CronExpressionParser } from "cron-parser";
-import { eq } from "drizzle-orm";
+import { and, eq, ne } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
+// start custom keeperhub code //
+import { EXECUTION_CANCELLED_ERROR } from "../keeperhub/lib/execution-cancel";
+import { suspendExecution } from "../keeperhub/lib/execution-suspend";
+import { enableRunSuspension } from "../keeperhub/lib/workflow-sleep";
+// end keeperhub code //
 import { validateWorkflowIntegrations } from "../lib/db/integrations";
 import {
   workflowExecutions,
@@ -43,6 +50,7 @@ function validateEnv(): {
   executionId: string;
   input: Record<string, unknown>;
   scheduleId?: string;
+  continueExecution: boolean;
 } {
   const workflowId = process.env.WORKFLOW_ID;
   const executionId = process.env.EXECUTION_ID;
@@ -77,6 +85,7 @@ function validateEnv(): {
     executionId,
     input,
     scheduleId: process.env.SCHEDULE_ID,
+    continueExecution: process.env.CONTINUE_EXECUTION === "true",
   };
 }
 
@@ -121,8 +130,20 @@ async function handleGracefulShutdown(signal: string): Promise<void> {
   }, SHUTDOWN_TIMEOUT_MS);
 
   try {
-    // Update execution status if we have an active execution
-    if (currentExecutionId) {
+    // start custom keeperhub code //
+    // A run terminated while a Delay or Approval waits in-process is
+    // suspended until then, and the job spawner continues it
+    const waitingUntil = currentExecutionId
+      ? await getExecutionWaitingUntil(currentExecutionId)
+      : null;
+    if (currentExecutionId && waitingUntil) {
+      console.log(
+        `[Runner] Suspending execution ${currentExecutionId} until ${waitingUntil.toISOString()}`
+      );
+      await suspendExecution(db, currentExecutionId, waitingUntil);
+    } else if (currentExecutionId) {
+      // end keeperhub code //
+      // Update execution status if we have an active execution
       console.log(
         `[Runner] Updating execution ${currentExecutionId} status to error`
       );
@@ -161,7 +182,7 @@ process.on("SIGINT", () => handleGracefulShutdown("SIGINT"));
  */
 async function updateExecutionStatus(
   executionId: string,
-  status: "running" | "success" | "error" | "cancelled",
+  status: "running" | "success" | "error" | "timeout" | "cancelled",
   result?: {
     output?: unknown;
     error?: string;
@@ -174,7 +195,17 @@ async function updateExecutionStatus(
 
   if (status === "success" || status === "error") {
     updateData.completedAt = new Date();
+    // start custom keeperhub code //
+    updateData.waitingUntil = null;
+    // end keeperhub code //
+  }
+
+  // start custom keeperhub code //
+  if (status === "timeout" || status === "cancelled") {
+    updateData.completedAt = new Date();
+    updateData.waitingUntil = null;
   }
+  // end keeperhub code //
 
   if (result?.output !== undefined) {
     updateData.output = result.output;
@@ -187,9 +218,46 @@ async function updateExecutionStatus(
   await db
     .update(workflowExecutions)
     .set(updateData)
-    .where(eq(workflowExecutions.id, executionId));
+    .where(
+      // start custom keeperhub code //
+      // A run cancelled while its last step was running stays cancelled
+      and(
+        eq(workflowExecutions.id, executionId),
+        status === "cancelled"
+          ? undefined
+          : ne(workflowExecutions.status, "cancelled")
+      )
+      // end keeperhub code //
+    );
 }
 
+// start custom keeperhub code //
+/**
+ * When a Delay node is currently waiting, the time it would resume
+ */
+async function getExecutionWaitingUntil(
+  executionId: string
+): Promise<Date | null> {
+  const execution = await db.query.workflowExecutions.findFirst({
+    where: eq(workflowExecutions.id, executionId),
+    columns: { waitingUntil: true },
+  });
+  return execution?.waitingUntil ?? null;
+}
+
+/**
+ * Whether the execution was cancelled through the cancel endpoint (possibly
+ * before this runner picked it up)
+ */
+async function isExecutionCancelled(executionId: string): Promise<boolean> {
+  const execution = await db.query.workflowExecutions.findFirst({
+    where: eq(workflowExecutions.id, executionId),
+    columns: { status: true },
+  });
+  return execution?.status === "cancelled";
+}
+// end keeperhub code //
+
 /**
  * Compute next run time for a cron expression
  */
@@ -234,7 +302,7 @@ async function initializeExecutionProgress(
  */
 async function updateScheduleStatus(
   scheduleId: string,
-  status: "success" | "error",
+  status: "success" | "error" | "timeout",
   error?: string
 ): Promise<void> {
   const schedule = await db.query.workflowSchedules.findFirst({
@@ -260,7 +328,9 @@ async function updateScheduleStatus(
     .set({
       lastRunAt: new Date(),
       lastStatus: status,
-      lastError: status === "error" ? error : null,
+      // start custom keeperhub code //
+      lastError: status === "success" ? null : error,
+      // end keeperhub code //
       nextRunAt,
       runCount,
       updatedAt: new Date(),
@@ -274,7 +344,12 @@ async function updateScheduleStatus(
 // biome-ignore lint/complexity/noExcessiveCognitiveComplexity: Main runner orchestrates multiple phases of workflow execution
 async function main(): Promise<void> {
   const startTime = Date.now();
-  const { workflowId, executionId, input, scheduleId } = validateEnv();
+  const { workflowId, executionId, input, scheduleId, continueExecution } =
+    validateEnv();
+  // start custom keeperhub code //
+  // Long waits suspend the run; the job spawner starts a runner to continue it
+  enableRunSuspension();
+  // end keeperhub code //
 
   // Track execution IDs for graceful shutdown handler
   currentExecutionId = executionId;
@@ -284,6 +359,11 @@ async function main(): Promise<void> {
   console.log(`[Runner] Workflow ID: ${workflowId}`);
   console.log(`[Runner] Execution ID: ${executionId}`);
   console.log(`[Runner] Schedule ID: ${scheduleId || "none"}`);
+  // start custom keeperhub code //
+  if (continueExecution) {
+    console.log("[Runner] Continuing suspended execution");
+  }
+  // end keeperhub code //
 
   try {
     // Check if we're already shutting down
@@ -292,6 +372,14 @@ async function main(): Promise<void> {
       return;
     }
 
+    // start custom keeperhub code //
+    if (await isExecutionCancelled(executionId)) {
+      console.log("[Runner] Execution was cancelled before it started");
+      currentExecutionId = null;
+      return;
+    }
+    // end keeperhub code //
+
     // Update execution status to running
     await updateExecutionStatus(executionId, "running");
 
@@ -331,9 +419,14 @@ async function main(): Promise<void> {
     }
 
     // Initialize progress tracking
-    const totalSteps = calculateTotalSteps(nodes, edges);
-    console.log(`[Runner] Total steps: ${totalSteps}`);
-    await initializeExecutionProgress(executionId, totalSteps);
+    // start custom keeperhub code //
+    // A continued run keeps the progress recorded before it was suspended
+    if (!continueExecution) {
+      // end keeperhub code //
+      const totalSteps = calculateTotalSteps(nodes, edges);
+      console.log(`[Runner] Total steps: ${totalSteps}`);
+      await initializeExecutionProgress(executionId, totalSteps);
+    }
 
     // Check if shutdown was requested before starting long-running execution
     if (isShuttingDown) {
@@ -349,6 +442,11 @@ async function main(): Promise<void> {
       triggerInput: input,
       executionId,
       workflowId,
+      // start custom keeperhub code //
+      variables: workflow.variables,
+      concurrencyPolicy: workflow.concurrencyPolicy,
+      continueExecution,
+      // end keeperhub code //
     });
 
     const duration = Date.now() - startTime;
@@ -356,6 +454,30 @@ async function main(): Promise<void> {
     console.log(`[Runner] Success: ${result.success}`);
 
     // Update execution status
+    // start custom keeperhub code //
+    if (result.cancelled) {
+      await updateExecutionStatus(executionId, "cancelled", {
+        error: EXECUTION_CANCELLED_ERROR,
+        output: result.outputs,
+      });
+
+      // Clear execution ID so signal handler doesn't update cancelled execution
+      currentExecutionId = null;
+      console.log("[Runner] Execution was cancelled");
+      return;
+    }
+
+    // The execution stays running; the job spawner continues it once the
+    // wait is over, and the schedule is updated when it finishes
+    if (result.suspendedUntil) {
+      await suspendExecution(db, executionId, new Date(result.suspendedUntil));
+      currentExecutionId = null;
+      console.log(
+        `[Runner] Execution suspended until ${result.suspendedUntil}`
+      );
+      return;
+    }
+    // end keeperhub code //
     if (result.success) {
       await updateExecutionStatus(executionId, "success", {
         output: result.outputs,
@@ -374,15 +496,19 @@ async function main(): Promise<void> {
         result.error ||
         Object.values(result.results || {}).find((r) => !r.success)?.error ||
         "Unknown error";
+      // start custom keeperhub code //
+      // Keep the executor's "timeout" instead of folding it into "error"
+      const failedStatus = result.status === "timeout" ? "timeout" : "error";
+      // end keeperhub code //
 
-      await updateExecutionStatus(executionId, "error", {
+      await updateExecutionStatus(executionId, failedStatus, {
         error: errorMessage,
         output: result.outputs,
       });
 
       // Update schedule status if this was a scheduled execution
       if (scheduleId) {
-        await updateScheduleStatus(scheduleId, "error", errorMessage);
+        await updateScheduleStatus(scheduleId, failedStatus, errorMessage);
       }
 
       // Clear execution ID so signal handler doesn't update already-handled execution
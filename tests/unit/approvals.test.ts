@@ -0,0 +1,259 @@
+import { describe, expect, it } from "vitest";
+import {
+  APPROVAL_NOT_FOUND_ERROR,
+  DEFAULT_APPROVAL_EXPIRY_HOURS,
+  getEffectiveApprovalStatus,
+  hasApproverRole,
+  MAX_APPROVAL_EXPIRY_HOURS,
+  parseApprovalConfig,
+  selectApprovalTargets,
+} from "@/keeperhub/lib/approvals";
+import { decideApproval } from "@/keeperhub/lib/execution-approvals";
+
+type Database = Parameters<typeof decideApproval>[0];
+
+/**
+ * Minimal stand-in for the drizzle select and update builders. Selects
+ * return the queued row lists in order; updates return `updated` rows.
+ */
+function createDatabase(selects: unknown[][], updated: unknown[] = [{}]) {
+  const queue = [...selects];
+  const updates: unknown[] = [];
+  const where = () => ({
+    limit: () => Promise.resolve(queue.shift() ?? []),
+  });
+  const from = () => ({ where, leftJoin: () => ({ where }) });
+  const database = {
+    select: () => ({ from }),
+    update: () => ({
+      set: (values: unknown) => {
+        updates.push(values);
+        return {
+          where: () => ({ returning: () => Promise.resolve(updated) }),
+        };
+      },
+    }),
+  };
+  return { database: database as unknown as Database, updates };
+}
+
+const HOUR_MS = 3_600_000;
+
+function createApproval(overrides: Record<string, unknown> = {}) {
+  return {
+    id: "appr_1",
+    organizationId: "org_1",
+    approverRole: "admin",
+    status: "pending",
+    expiresAt: new Date(Date.now() + HOUR_MS),
+    ...overrides,
+  };
+}
+
+describe("parseApprovalConfig", () => {
+  it("fills in defaults", () => {
+    expect(parseApprovalConfig({})).toEqual({
+      message: "A workflow is waiting for your approval",
+      approverRole: "admin",
+      expiresInSeconds: DEFAULT_APPROVAL_EXPIRY_HOURS * 3600,
+      notifyEmail: true,
+      discordIntegrationId: undefined,
+      telegramIntegrationId: undefined,
+      telegramChatId: undefined,
+    });
+  });
+
+  it("reads the configured settings and caps the expiry", () => {
+    const settings = parseApprovalConfig({
+      approvalMessage: " Send 5 ETH? ",
+      approverRole: "owner",
+      expiresInHours: "100000",
+      notifyEmail: "false",
+      telegramIntegrationId: "int_1",
+      telegramChatId: "-100",
+    });
+    expect(settings).toMatchObject({
+      message: "Send 5 ETH?",
+      approverRole: "owner",
+      expiresInSeconds: MAX_APPROVAL_EXPIRY_HOURS * 3600,
+      notifyEmail: false,
+      telegramIntegrationId: "int_1",
+      telegramChatId: "-100",
+    });
+  });
+
+  it("ignores unknown roles and invalid expiries", () => {
+    expect(
+      parseApprovalConfig({ approverRole: "root", expiresInHours: "-1" })
+    ).toMatchObject({
+      approverRole: "admin",
+      expiresInSeconds: DEFAULT_APPROVAL_EXPIRY_HOURS * 3600,
+    });
+  });
+
+  it("requires a chat id for Telegram", () => {
+    expect(parseApprovalConfig({ telegramIntegrationId: "int_1" })).toEqual({
+      error: "Approval needs a Telegram chat id to post to",
+    });
+  });
+});
+
+describe("hasApproverRole", () => {
+  it("accepts the required role and higher", () => {
+    expect(hasApproverRole("admin", "admin")).toBe(true);
+    expect(hasApproverRole("owner", "admin")).toBe(true);
+    expect(hasApproverRole("member", "admin")).toBe(false);
+    expect(hasApproverRole("admin", "owner")).toBe(false);
+  });
+
+  it("rejects unknown roles", () => {
+    expect(hasApproverRole("guest", "member")).toBe(false);
+  });
+});
+
+describe("getEffectiveApprovalStatus", () => {
+  const now = Date.now();
+
+  it("treats a pending approval past its expiry as expired", () => {
+    expect(
+      getEffectiveApprovalStatus(
+        { status: "pending", expiresAt: new Date(now - 1) },
+        now
+      )
+    ).toBe("expired");
+    expect(
+      getEffectiveApprovalStatus(
+        { status: "pending", expiresAt: new Date(now + 1) },
+        now
+      )
+    ).toBe("pending");
+  });
+
+  it("keeps decided approvals as they are", () => {
+    expect(
+      getEffectiveApprovalStatus(
+        { status: "approved", expiresAt: new Date(now - 1) },
+        now
+      )
+    ).toBe("approved");
+  });
+});
+
+describe("selectApprovalTargets", () => {
+  const edges = [
+    { source: "approval", target: "send", sourceHandle: "approved" },
+    { source: "approval", target: "notify", sourceHandle: "rejected" },
+    { source: "approval", target: "log", sourceHandle: null },
+    { source: "approval", target: "alert", sourceHandle: "error" },
+  ];
+  const candidates = ["send", "notify", "log", "alert"];
+
+  it("follows the approved edges, including untagged ones", () => {
+    expect(selectApprovalTargets("approval", candidates, true, edges)).toEqual([
+      "send",
+      "log",
+    ]);
+  });
+
+  it("follows the rejected edges", () => {
+    expect(selectApprovalTargets("approval", candidates, false, edges)).toEqual(
+      ["notify"]
+    );
+  });
+});
+
+describe("decideApproval", () => {
+  const input = {
+    approvalId: "appr_1",
+    userId: "user_1",
+    decision: "approved" as const,
+    comment: "  looks good ",
+  };
+
+  it("records the decision with its decider", async () => {
+    const decider = { id: "user_1", name: "Alice", email: "alice@example.com" };
+    const { database, updates } = createDatabase([
+      [createApproval()],
+      [{ role: "owner" }],
+      [decider],
+    ]);
+    const result = await decideApproval(database, input);
+    expect(result).toMatchObject({
+      ok: true,
+      approval: {
+        id: "appr_1",
+        status: "approved",
+        decidedBy: decider,
+        comment: "looks good",
+      },
+    });
+    expect(updates).toEqual([
+      expect.objectContaining({
+        status: "approved",
+        decidedBy: "user_1",
+        comment: "looks good",
+      }),
+    ]);
+  });
+
+  it("hides approvals of other organizations", async () => {
+    const { database, updates } = createDatabase([[createApproval()], []]);
+    expect(await decideApproval(database, input)).toEqual({
+      ok: false,
+      status: 404,
+      error: APPROVAL_NOT_FOUND_ERROR,
+    });
+    expect(updates).toEqual([]);
+  });
+
+  it("requires the approver role", async () => {
+    const { database, updates } = createDatabase([
+      [createApproval()],
+      [{ role: "member" }],
+    ]);
+    expect(await decideApproval(database, input)).toMatchObject({
+      ok: false,
+      status: 403,
+    });
+    expect(updates).toEqual([]);
+  });
+
+  it("rejects decisions on expired approvals", async () => {
+    const { database, updates } = createDatabase([
+      [createApproval({ expiresAt: new Date(Date.now() - HOUR_MS) })],
+      [{ role: "admin" }],
+    ]);
+    expect(await decideApproval(database, input)).toEqual({
+      ok: false,
+      status: 409,
+      error: "Approval is already expired",
+    });
+    expect(updates).toEqual([{ status: "expired" }]);
+  });
+
+  it("reports a decision that lost the race", async () => {
+    const { database } = createDatabase(
+      [
+        [createApproval()],
+        [{ role: "admin" }],
+        [
+          {
+            status: "rejected",
+            expiresAt: new Date(Date.now() + HOUR_MS),
+            decidedAt: new Date(),
+            comment: null,
+            deciderId: "user_2",
+            deciderName: "Bob",
+            deciderEmail: null,
+          },
+        ],
+      ],
+      []
+    );
+    expect(await decideApproval(database, input)).toEqual({
+      ok: false,
+      status: 409,
+      error: "Approval is already rejected",
+    });
+  });
+});
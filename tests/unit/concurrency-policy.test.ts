@@ -0,0 +1,194 @@
+import { describe, expect, it } from "vitest";
+import {
+  getConcurrencyPolicy,
+  isConcurrencyPolicy,
+  SKIPPED_RUN_ERROR,
+} from "@/keeperhub/lib/concurrency-policy";
+import { EXECUTION_CANCELLED_ERROR } from "@/keeperhub/lib/execution-cancel";
+import {
+  applyConcurrencyPolicy,
+  getQueueTurn,
+} from "@/keeperhub/lib/execution-concurrency";
+
+type Database = Parameters<typeof applyConcurrencyPolicy>[0];
+
+/**
+ * Minimal stand-in for the drizzle query builder: each select resolves to the
+ * next entry of `selects`, each update to the next entry of `updates`. Raw
+ * statements (the policy's advisory lock) are counted.
+ */
+function createDatabase(selects: unknown[][], updates: unknown[][] = []) {
+  const updatedValues: Record<string, unknown>[] = [];
+  const counts = { locks: 0 };
+  const database = {
+    execute: () => {
+      counts.locks += 1;
+      return Promise.resolve([]);
+    },
+    select: () => ({
+      from: () => ({
+        where: () => Promise.resolve(selects.shift() ?? []),
+      }),
+    }),
+    update: () => ({
+      set: (values: Record<string, unknown>) => ({
+        where: () => ({
+          returning: () => {
+            updatedValues.push(values);
+            return Promise.resolve(updates.shift() ?? []);
+          },
+        }),
+      }),
+    }),
+  };
+  return { database: database as unknown as Database, updatedValues, counts };
+}
+
+const EARLIER = new Date("2026-01-01T00:00:00Z");
+const LATER = new Date("2026-01-01T00:00:05Z");
+
+describe("getConcurrencyPolicy", () => {
+  it("accepts the known policies", () => {
+    for (const policy of ["allow", "skip", "queue", "cancel-previous"]) {
+      expect(isConcurrencyPolicy(policy)).toBe(true);
+      expect(getConcurrencyPolicy(policy)).toBe(policy);
+    }
+  });
+
+  it("falls back to allow for unknown values", () => {
+    expect(isConcurrencyPolicy("parallel")).toBe(false);
+    expect(getConcurrencyPolicy("parallel")).toBe("allow");
+    expect(getConcurrencyPolicy(null)).toBe("allow");
+    expect(getConcurrencyPolicy(undefined)).toBe("allow");
+  });
+});
+
+describe("applyConcurrencyPolicy", () => {
+  it("does not look up runs for allow and queue", async () => {
+    for (const concurrencyPolicy of ["allow", "queue"]) {
+      const { database, counts } = createDatabase([[{ id: "exec_1" }]]);
+      const result = await applyConcurrencyPolicy(database, {
+        id: "wf_1",
+        concurrencyPolicy,
+      });
+      expect(result).toEqual({ allowed: true, cancelledExecutionIds: [] });
+      expect(counts.locks).toBe(0);
+    }
+  });
+
+  it("skips while a run is in progress", async () => {
+    const { database, counts } = createDatabase([
+      [{ id: "exec_1", startedAt: EARLIER }],
+    ]);
+    const result = await applyConcurrencyPolicy(database, {
+      id: "wf_1",
+      concurrencyPolicy: "skip",
+    });
+    expect(result).toEqual({
+      allowed: false,
+      error: SKIPPED_RUN_ERROR,
+      activeExecutionIds: ["exec_1"],
+    });
+    // The workflow is locked before its runs are looked up
+    expect(counts.locks).toBe(1);
+  });
+
+  it("allows a skip-policy run when nothing is in progress", async () => {
+    const { database } = createDatabase([[]]);
+    const result = await applyConcurrencyPolicy(database, {
+      id: "wf_1",
+      concurrencyPolicy: "skip",
+    });
+    expect(result).toEqual({ allowed: true, cancelledExecutionIds: [] });
+  });
+
+  it("cancels the runs in progress for cancel-previous", async () => {
+    const { database, updatedValues } = createDatabase(
+      [[{ id: "exec_1", startedAt: EARLIER }], []],
+      [[{ id: "exec_1" }]]
+    );
+    const result = await applyConcurrencyPolicy(database, {
+      id: "wf_1",
+      concurrencyPolicy: "cancel-previous",
+    });
+    expect(result).toEqual({
+      allowed: true,
+      cancelledExecutionIds: ["exec_1"],
+    });
+    expect(updatedValues[0]).toMatchObject({
+      status: "cancelled",
+      error: EXECUTION_CANCELLED_ERROR,
+    });
+  });
+});
+
+describe("getQueueTurn", () => {
+  it("waits while an earlier run is in progress", async () => {
+    const { database } = createDatabase([
+      [{ status: "running", startedAt: LATER }],
+      [
+        { id: "exec_1", startedAt: EARLIER },
+        { id: "exec_2", startedAt: LATER },
+      ],
+    ]);
+    expect(await getQueueTurn(database, "exec_2", "wf_1")).toBe("waiting");
+  });
+
+  it("is ready when only later runs are in progress", async () => {
+    const { database } = createDatabase([
+      [{ status: "running", startedAt: EARLIER }],
+      [
+        { id: "exec_1", startedAt: EARLIER },
+        { id: "exec_2", startedAt: LATER },
+      ],
+    ]);
+    expect(await getQueueTurn(database, "exec_1", "wf_1")).toBe("ready");
+  });
+
+  it("orders runs triggered at the same time by id", async () => {
+    const active = [
+      { id: "exec_a", startedAt: EARLIER },
+      { id: "exec_b", startedAt: EARLIER },
+    ];
+    const first = createDatabase([
+      [{ status: "running", startedAt: EARLIER }],
+      [...active],
+    ]);
+    expect(await getQueueTurn(first.database, "exec_a", "wf_1")).toBe("ready");
+    const second = createDatabase([
+      [{ status: "running", startedAt: EARLIER }],
+      [...active],
+    ]);
+    expect(await getQueueTurn(second.database, "exec_b", "wf_1")).toBe(
+      "waiting"
+    );
+  });
+
+  it("expires a run that waited longer than the maximum", async () => {
+    const active = [
+      { id: "exec_1", startedAt: EARLIER },
+      { id: "exec_2", startedAt: LATER },
+    ];
+    const expired = createDatabase([
+      [{ status: "running", startedAt: LATER }],
+      [...active],
+    ]);
+    expect(await getQueueTurn(expired.database, "exec_2", "wf_1", 1000)).toBe(
+      "expired"
+    );
+    const waiting = createDatabase([
+      [{ status: "running", startedAt: new Date() }],
+      [...active],
+    ]);
+    expect(await getQueueTurn(waiting.database, "exec_2", "wf_1", 60_000)).toBe(
+      "waiting"
+    );
+  });
+
+  it("reports a run cancelled while it waited", async () => {
+    const { database } = createDatabase([
+      [{ status: "cancelled", startedAt: LATER }],
+    ]);
+    expect(await getQueueTurn(database, "exec_2", "wf_1")).toBe("cancelled");
+  });
+});
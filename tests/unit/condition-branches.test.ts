@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  getConditionBranchTargets,
+  getConditionEdgeBranch,
+  selectConditionTargets,
+} from "@/keeperhub/lib/condition-branches";
+
+const edges = [
+  { source: "cond", target: "a", sourceHandle: "true" },
+  { source: "cond", target: "b", sourceHandle: "false" },
+  { source: "cond", target: "c" },
+  { source: "other", target: "d", sourceHandle: "false" },
+];
+
+describe("getConditionEdgeBranch", () => {
+  it("maps an explicit false handle to the false branch", () => {
+    expect(
+      getConditionEdgeBranch({
+        source: "x",
+        target: "y",
+        sourceHandle: "false",
+      })
+    ).toBe("false");
+  });
+
+  it("treats untagged edges as the true branch", () => {
+    expect(getConditionEdgeBranch({ source: "x", target: "y" })).toBe("true");
+    expect(
+      getConditionEdgeBranch({ source: "x", target: "y", sourceHandle: null })
+    ).toBe("true");
+  });
+});
+
+describe("getConditionBranchTargets", () => {
+  it("splits outgoing edges by handle, ignoring other sources", () => {
+    expect(getConditionBranchTargets("cond", edges)).toEqual({
+      true: ["a", "c"],
+      false: ["b"],
+    });
+  });
+
+  it("returns empty branches for a node without edges", () => {
+    expect(getConditionBranchTargets("missing", edges)).toEqual({
+      true: [],
+      false: [],
+    });
+  });
+});
+
+describe("selectConditionTargets", () => {
+  it("returns the true branch when the condition holds", () => {
+    expect(
+      selectConditionTargets("cond", ["a", "b", "c"], true, edges)
+    ).toEqual(["a", "c"]);
+  });
+
+  it("returns the false branch when the condition fails", () => {
+    expect(
+      selectConditionTargets("cond", ["a", "b", "c"], false, edges)
+    ).toEqual(["b"]);
+  });
+
+  it("only returns targets present in the candidate list", () => {
+    expect(selectConditionTargets("cond", ["c"], true, edges)).toEqual(["c"]);
+    expect(selectConditionTargets("cond", ["a"], false, edges)).toEqual([]);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  MAX_DELAY_DAYS,
+  parseDelayTimestamp,
+  resolveDelayResumeAt,
+} from "@/keeperhub/lib/delay";
+
+const NOW = Date.parse("2026-01-01T00:00:00.000Z");
+const DAY_MS = 86_400_000;
+
+describe("parseDelayTimestamp", () => {
+  it("treats small numbers as unix seconds", () => {
+    expect(parseDelayTimestamp(1_767_225_600)).toBe(1_767_225_600_000);
+    expect(parseDelayTimestamp("1767225600")).toBe(1_767_225_600_000);
+  });
+
+  it("treats large numbers as unix milliseconds", () => {
+    expect(parseDelayTimestamp(1_767_225_600_000)).toBe(1_767_225_600_000);
+  });
+
+  it("parses ISO strings and dates", () => {
+    expect(parseDelayTimestamp("2026-01-01T00:00:00Z")).toBe(NOW);
+    expect(parseDelayTimestamp(new Date(NOW))).toBe(NOW);
+  });
+
+  it("returns null for unrecognizable values", () => {
+    expect(parseDelayTimestamp("")).toBeNull();
+    expect(parseDelayTimestamp(undefined)).toBeNull();
+    expect(parseDelayTimestamp("next tuesday")).toBeNull();
+    expect(parseDelayTimestamp(new Date("invalid"))).toBeNull();
+  });
+});
+
+describe("resolveDelayResumeAt", () => {
+  it("adds a fixed duration in the configured unit", () => {
+    expect(
+      resolveDelayResumeAt({ delayAmount: "5", delayUnit: "minutes" }, NOW)
+    ).toEqual({ resumeAt: NOW + 300_000 });
+  });
+
+  it("defaults to seconds", () => {
+    expect(resolveDelayResumeAt({ delayAmount: "10" }, NOW)).toEqual({
+      resumeAt: NOW + 10_000,
+    });
+  });
+
+  it("rejects negative or non-numeric durations", () => {
+    expect(resolveDelayResumeAt({ delayAmount: "-1" }, NOW).error).toBe(
+      "Delay amount must be a non-negative number"
+    );
+    expect(resolveDelayResumeAt({ delayAmount: "soon" }, NOW).error).toBe(
+      "Delay amount must be a non-negative number"
+    );
+  });
+
+  it("rejects durations over the maximum", () => {
+    expect(
+      resolveDelayResumeAt(
+        { delayAmount: String(MAX_DELAY_DAYS + 1), delayUnit: "days" },
+        NOW
+      ).error
+    ).toBe(`Delay cannot exceed ${MAX_DELAY_DAYS} days`);
+  });
+
+  it("waits until an absolute time", () => {
+    expect(
+      resolveDelayResumeAt(
+        { delayMode: "until", delayUntil: String((NOW + DAY_MS) / 1000) },
+        NOW
+      )
+    ).toEqual({ resumeAt: NOW + DAY_MS });
+  });
+
+  it("resumes immediately when the time has passed", () => {
+    expect(
+      resolveDelayResumeAt(
+        { delayMode: "until", delayUntil: "2025-06-01T00:00:00Z" },
+        NOW
+      )
+    ).toEqual({ resumeAt: NOW });
+  });
+
+  it("reports unparseable or too distant targets", () => {
+    expect(
+      resolveDelayResumeAt({ delayMode: "until", delayUntil: "{{x}}" }, NOW)
+        .error
+    ).toBe('Cannot parse "{{x}}" as a date or unix timestamp');
+    expect(
+      resolveDelayResumeAt(
+        { delayMode: "until", delayUntil: "2027-01-01T00:00:00Z" },
+        NOW
+      ).error
+    ).toContain(`more than ${MAX_DELAY_DAYS} days away`);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildNotificationPreview,
+  buildSideEffectPreview,
+  isNotificationStepFunction,
+  isSideEffectPreview,
+  isSideEffectStep,
+  isSimulatedResult,
+  isSimulatedWrite,
+} from "@/keeperhub/lib/dry-run";
+
+describe("isNotificationStepFunction", () => {
+  it("matches steps that only deliver a message", () => {
+    for (const stepFunction of [
+      "sendSlackMessageStep",
+      "sendDiscordMessageStep",
+      "sendEmailStep",
+      "sendTelegramMessageStep",
+      "sendWebhookStep",
+    ]) {
+      expect(isNotificationStepFunction(stepFunction)).toBe(true);
+    }
+  });
+
+  it("does not match writes, reads or unknown steps", () => {
+    expect(isNotificationStepFunction("writeContractStep")).toBe(false);
+    expect(isNotificationStepFunction("checkBalanceStep")).toBe(false);
+    expect(isNotificationStepFunction(undefined)).toBe(false);
+  });
+});
+
+describe("buildNotificationPreview", () => {
+  it("keeps the message and drops the integration and internal fields", () => {
+    const preview = buildNotificationPreview("discord/send-message", {
+      integrationId: "int_1",
+      actionType: "discord/send-message",
+      discordMessage: "Balance is low: 0.1 ETH",
+      _context: { executionId: "exec_1" },
+    });
+
+    expect(preview).toEqual({
+      success: true,
+      simulated: true,
+      notification: {
+        actionType: "discord/send-message",
+        payload: { discordMessage: "Balance is low: 0.1 ETH" },
+      },
+    });
+    expect(isSimulatedResult(preview)).toBe(true);
+    expect(isSimulatedWrite(preview)).toBe(false);
+  });
+});
+
+describe("isSideEffectStep", () => {
+  it("skips requests that change something and runs reads", () => {
+    expect(isSideEffectStep("HTTP Request", undefined, {})).toBe(false);
+    expect(
+      isSideEffectStep("HTTP Request", undefined, { httpMethod: "get" })
+    ).toBe(false);
+    expect(
+      isSideEffectStep("HTTP Request", undefined, { httpMethod: "POST" })
+    ).toBe(true);
+    expect(
+      isSideEffectStep("Database Query", undefined, {
+        dbQuery: "  SELECT * FROM users",
+      })
+    ).toBe(false);
+    expect(
+      isSideEffectStep("Database Query", undefined, {
+        dbQuery: "DELETE FROM users",
+      })
+    ).toBe(true);
+  });
+
+  it("matches plugin steps that write to another service", () => {
+    expect(
+      isSideEffectStep("clerk/delete-user", "clerkDeleteUserStep", {})
+    ).toBe(true);
+    expect(isSideEffectStep("clerk/get-user", "clerkGetUserStep", {})).toBe(
+      false
+    );
+    expect(isSideEffectStep("web3/check-balance", undefined, {})).toBe(false);
+  });
+});
+
+describe("buildSideEffectPreview", () => {
+  it("returns the request without the integration and internal fields", () => {
+    const preview = buildSideEffectPreview("HTTP Request", {
+      actionType: "HTTP Request",
+      endpoint: "https://example.com/orders",
+      httpMethod: "POST",
+      _context: { executionId: "exec_1" },
+    });
+
+    expect(preview).toEqual({
+      success: true,
+      simulated: true,
+      request: {
+        actionType: "HTTP Request",
+        payload: { endpoint: "https://example.com/orders", httpMethod: "POST" },
+      },
+    });
+    expect(isSideEffectPreview(preview)).toBe(true);
+    expect(
+      isSideEffectPreview(buildNotificationPreview("slack/send-message", {}))
+    ).toBe(false);
+  });
+});
+
+describe("isSimulatedWrite", () => {
+  it("matches simulated transactions only", () => {
+    const simulated = {
+      success: true,
+      simulated: true,
+      transactionHash: "",
+      transactionLink: "",
+      simulation: {
+        chainId: 1,
+        from: "0x1",
+        to: "0x2",
+        value: "0",
+        data: "0x",
+        estimatedGas: "21000",
+        returnData: "0x",
+      },
+    };
+    expect(isSimulatedWrite(simulated)).toBe(true);
+    expect(isSimulatedWrite({ success: true, transactionHash: "0xabc" })).toBe(
+      false
+    );
+    expect(isSimulatedResult(null)).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildErrorOutput,
+  getErrorSources,
+  isErrorEdge,
+  isRecoveryHandler,
+  selectErrorTargets,
+  selectSuccessTargets,
+} from "@/keeperhub/lib/error-handler-edges";
+
+const edges = [
+  { source: "write", target: "next" },
+  { source: "write", target: "discord", sourceHandle: "error" },
+  { source: "write", target: "pager", sourceHandle: "error" },
+  { source: "write", target: "audit", sourceHandle: null },
+  { source: "read", target: "discord", sourceHandle: "error" },
+];
+
+describe("isErrorEdge", () => {
+  it("only matches the error handle", () => {
+    expect(
+      isErrorEdge({ source: "a", target: "b", sourceHandle: "error" })
+    ).toBe(true);
+    expect(isErrorEdge({ source: "a", target: "b" })).toBe(false);
+    expect(
+      isErrorEdge({ source: "a", target: "b", sourceHandle: "true" })
+    ).toBe(false);
+  });
+});
+
+describe("selectSuccessTargets", () => {
+  it("drops targets that are only reachable via the error handle", () => {
+    expect(
+      selectSuccessTargets(
+        "write",
+        ["next", "discord", "pager", "audit"],
+        edges
+      )
+    ).toEqual(["next", "audit"]);
+  });
+
+  it("keeps candidate order and ignores non-candidates", () => {
+    expect(selectSuccessTargets("write", ["audit"], edges)).toEqual(["audit"]);
+  });
+});
+
+describe("selectErrorTargets", () => {
+  it("returns only the failure path targets", () => {
+    expect(
+      selectErrorTargets("write", ["next", "discord", "pager", "audit"], edges)
+    ).toEqual(["discord", "pager"]);
+  });
+
+  it("returns nothing when no error edge is connected", () => {
+    expect(selectErrorTargets("next", [], edges)).toEqual([]);
+  });
+});
+
+describe("getErrorSources", () => {
+  it("lists every node whose failure path leads to a handler", () => {
+    expect(getErrorSources("discord", edges)).toEqual(["write", "read"]);
+    expect(getErrorSources("next", edges)).toEqual([]);
+  });
+});
+
+describe("buildErrorOutput", () => {
+  it("exposes the error message and failed node name", () => {
+    expect(buildErrorOutput("Write Contract", "execution reverted")).toEqual({
+      success: false,
+      error: "execution reverted",
+      nodeName: "Write Contract",
+    });
+  });
+});
+
+describe("isRecoveryHandler", () => {
+  it("accepts the string and boolean forms", () => {
+    expect(isRecoveryHandler({ recoverFailure: "true" })).toBe(true);
+    expect(isRecoveryHandler({ recoverFailure: true })).toBe(true);
+    expect(isRecoveryHandler({ recoverFailure: "" })).toBe(false);
+    expect(isRecoveryHandler({})).toBe(false);
+  });
+});
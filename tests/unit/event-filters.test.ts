@@ -0,0 +1,274 @@
+import { ethers } from "ethers";
+import { describe, expect, it } from "vitest";
+import {
+  buildEventLogFilters,
+  getEventAddresses,
+  getEventNames,
+  matchesEventFilters,
+  parseEventFilters,
+  parseIntegerValue,
+  validateEventFilters,
+} from "@/keeperhub/lib/event-filters";
+import { getTriggerOutputFields } from "@/keeperhub/lib/trigger-output-fields";
+
+const TOKEN = "0x6B175474E89094C44Da98b954EedeAC495271d0F";
+const OTHER_TOKEN = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+const VAULT = "0x1111111111111111111111111111111111111111";
+const SENDER = "0x2222222222222222222222222222222222222222";
+
+const ERC20_ABI = JSON.stringify([
+  {
+    type: "event",
+    name: "Transfer",
+    inputs: [
+      { name: "from", type: "address", indexed: true },
+      { name: "to", type: "address", indexed: true },
+      { name: "value", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "Approval",
+    inputs: [
+      { name: "owner", type: "address", indexed: true },
+      { name: "spender", type: "address", indexed: true },
+      { name: "value", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "Memo",
+    inputs: [
+      { name: "note", type: "string", indexed: true },
+      { name: "ids", type: "uint256[]", indexed: false },
+    ],
+  },
+]);
+
+function triggerConfig(
+  eventFilters: unknown[],
+  overrides: Record<string, unknown> = {}
+): Record<string, unknown> {
+  return {
+    triggerType: "Event",
+    contractAddress: TOKEN,
+    contractABI: ERC20_ABI,
+    eventName: "Transfer",
+    eventFilters: JSON.stringify(eventFilters),
+    ...overrides,
+  };
+}
+
+function topic(type: string, value: unknown): string {
+  return ethers.AbiCoder.defaultAbiCoder().encode([type], [value]);
+}
+
+describe("parseIntegerValue", () => {
+  it("reads decimal, hex and scientific notation", () => {
+    expect(parseIntegerValue("42")).toBe(BigInt(42));
+    expect(parseIntegerValue("-7")).toBe(BigInt(-7));
+    expect(parseIntegerValue("0x10")).toBe(BigInt(16));
+    expect(parseIntegerValue("1e24")).toBe(BigInt(10) ** BigInt(24));
+    expect(parseIntegerValue("1.5e3")).toBe(BigInt(1500));
+    expect(parseIntegerValue("1_000")).toBe(BigInt(1000));
+  });
+
+  it("rejects fractions and non-numbers", () => {
+    expect(parseIntegerValue("1.5")).toBeNull();
+    expect(parseIntegerValue("1.25e1")).toBeNull();
+    expect(parseIntegerValue("abc")).toBeNull();
+    expect(parseIntegerValue("0x")).toBeNull();
+    expect(parseIntegerValue("1e1000")).toBeNull();
+  });
+});
+
+describe("trigger config", () => {
+  it("reads several events and addresses", () => {
+    const config = {
+      eventName: "Transfer, Approval",
+      contractAddress: TOKEN,
+      additionalAddresses: `${OTHER_TOKEN}\n${TOKEN.toLowerCase()}`,
+    };
+    expect(getEventNames(config)).toEqual(["Transfer", "Approval"]);
+    expect(getEventAddresses(config)).toEqual([TOKEN, OTHER_TOKEN]);
+  });
+
+  it("ignores filters without an argument and defaults the operator", () => {
+    expect(
+      parseEventFilters(
+        JSON.stringify([{ arg: "to", value: VAULT }, { arg: " " }])
+      )
+    ).toEqual([{ arg: "to", operator: "eq", value: VAULT }]);
+    expect(parseEventFilters("{")).toEqual([]);
+  });
+});
+
+describe("validateEventFilters", () => {
+  it("accepts valid filters", () => {
+    expect(
+      validateEventFilters(
+        triggerConfig([
+          { arg: "to", operator: "eq", value: VAULT },
+          { arg: "value", operator: "gt", value: "1e24" },
+        ])
+      )
+    ).toEqual([]);
+  });
+
+  it("reports unknown arguments, bad values and operators", () => {
+    expect(
+      validateEventFilters(
+        triggerConfig(
+          [
+            { arg: "amount", operator: "eq", value: "1" },
+            { arg: "to", operator: "gt", value: VAULT },
+            { arg: "value", operator: "eq", value: "lots" },
+            { arg: "ids", operator: "eq", value: "1" },
+            { event: "Approval", arg: "owner", operator: "eq", value: VAULT },
+          ],
+          { eventName: "Transfer,Memo" }
+        )
+      )
+    ).toEqual([
+      "No watched event has an argument named amount",
+      "to (address) can only be compared with eq, neq or in",
+      'value filter value "lots" must be a whole number',
+      "ids (uint256[]) cannot be filtered",
+      "Filter on owner: Approval is not a watched event",
+    ]);
+  });
+});
+
+describe("buildEventLogFilters", () => {
+  it("pushes indexed equality filters into the topics", () => {
+    const [transfer] = buildEventLogFilters(
+      triggerConfig(
+        [
+          { arg: "to", operator: "eq", value: VAULT },
+          { arg: "value", operator: "gt", value: "1e24" },
+        ],
+        { additionalAddresses: OTHER_TOKEN }
+      )
+    );
+    expect(transfer).toEqual({
+      eventName: "Transfer",
+      address: [TOKEN, OTHER_TOKEN],
+      topics: [
+        ethers.id("Transfer(address,address,uint256)"),
+        null,
+        topic("address", VAULT),
+      ],
+    });
+  });
+
+  it("builds one filter per event with OR lists for in", () => {
+    const filters = buildEventLogFilters(
+      triggerConfig(
+        [
+          {
+            event: "Transfer",
+            arg: "from",
+            operator: "in",
+            value: `${VAULT},${SENDER}`,
+          },
+          { arg: "note", operator: "eq", value: "hello" },
+        ],
+        { eventName: "Transfer,Approval,Memo" }
+      )
+    );
+    expect(filters.map((filter) => filter.topics)).toEqual([
+      [
+        ethers.id("Transfer(address,address,uint256)"),
+        [topic("address", VAULT), topic("address", SENDER)],
+      ],
+      [ethers.id("Approval(address,address,uint256)")],
+      [ethers.id("Memo(string,uint256[])"), ethers.id("hello")],
+    ]);
+  });
+});
+
+describe("matchesEventFilters", () => {
+  const config = triggerConfig(
+    [
+      { arg: "to", operator: "eq", value: VAULT },
+      { arg: "value", operator: "gt", value: "1e24" },
+    ],
+    { eventName: "Transfer,Approval" }
+  );
+  const big = BigInt(10) ** BigInt(25);
+
+  it("matches events whose arguments pass every filter", () => {
+    expect(
+      matchesEventFilters(config, {
+        eventName: "Transfer",
+        args: {
+          from: SENDER,
+          to: VAULT.toUpperCase().replace("0X", "0x"),
+          value: big,
+        },
+      })
+    ).toBe(true);
+  });
+
+  it("rejects events failing a filter", () => {
+    expect(
+      matchesEventFilters(config, {
+        eventName: "Transfer",
+        args: { from: SENDER, to: VAULT, value: BigInt(5) },
+      })
+    ).toBe(false);
+    expect(
+      matchesEventFilters(config, {
+        eventName: "Transfer",
+        args: { from: SENDER, to: SENDER, value: big },
+      })
+    ).toBe(false);
+  });
+
+  it("applies filters only to events that have the argument", () => {
+    expect(
+      matchesEventFilters(config, {
+        eventName: "Approval",
+        args: { owner: SENDER, spender: SENDER, value: big },
+      })
+    ).toBe(true);
+  });
+
+  it("rejects events the trigger does not watch", () => {
+    expect(matchesEventFilters(config, { eventName: "Memo", args: {} })).toBe(
+      false
+    );
+  });
+
+  it("compares indexed strings by their hash", () => {
+    const memoConfig = triggerConfig(
+      [{ arg: "note", operator: "eq", value: "hello" }],
+      { eventName: "Memo" }
+    );
+    expect(
+      matchesEventFilters(memoConfig, {
+        eventName: "Memo",
+        args: { note: { hash: ethers.id("hello") } },
+      })
+    ).toBe(true);
+  });
+});
+
+describe("Event trigger output fields", () => {
+  it("cover the arguments of every watched event", () => {
+    const fields = getTriggerOutputFields("Event", {
+      contractABI: ERC20_ABI,
+      eventName: "Transfer,Approval",
+    }).map((field) => field.field);
+    expect(fields).toEqual(
+      expect.arrayContaining([
+        "args.from",
+        "args.to",
+        "args.value",
+        "args.owner",
+        "args.spender",
+      ])
+    );
+    expect(fields.filter((field) => field === "args.value")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import {
+  createCancelledResult,
+  EXECUTION_CANCELLED_ERROR,
+  isCancellableStatus,
+  isCancelledResult,
+} from "@/keeperhub/lib/execution-cancel";
+
+describe("isCancellableStatus", () => {
+  it("allows pending and running executions", () => {
+    expect(isCancellableStatus("pending")).toBe(true);
+    expect(isCancellableStatus("running")).toBe(true);
+  });
+
+  it("rejects finished executions", () => {
+    for (const status of ["success", "error", "timeout", "cancelled"]) {
+      expect(isCancellableStatus(status)).toBe(false);
+    }
+  });
+});
+
+describe("cancelled step results", () => {
+  it("is a failed result the executor can recognise", () => {
+    const result = createCancelledResult();
+    expect(result).toEqual({
+      success: false,
+      error: EXECUTION_CANCELLED_ERROR,
+      cancelled: true,
+    });
+    expect(isCancelledResult(result)).toBe(true);
+  });
+
+  it("does not match other failures", () => {
+    expect(isCancelledResult({ success: false, error: "boom" })).toBe(false);
+    expect(
+      isCancelledResult({ success: false, error: "late", timedOut: true })
+    ).toBe(false);
+    expect(isCancelledResult(null)).toBe(false);
+    expect(isCancelledResult("cancelled")).toBe(false);
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildResumeState,
+  findUnmatchedWrites,
+  formatUnmatchedWritesError,
+  getReplayedOutput,
+  getReplayKey,
+  isResumableStatus,
+  type ResumeLogEntry,
+} from "@/keeperhub/lib/execution-resume";
+
+function entry(
+  nodeId: string,
+  status: string,
+  output: unknown,
+  loop?: { iterationIndex: number; forEachNodeId: string }
+): ResumeLogEntry {
+  return {
+    nodeId,
+    nodeName: nodeId,
+    status,
+    output,
+    replayOutput: null,
+    iterationIndex: loop?.iterationIndex ?? null,
+    forEachNodeId: loop?.forEachNodeId ?? null,
+  };
+}
+
+describe("isResumableStatus", () => {
+  it("allows failed, timed out and cancelled executions", () => {
+    for (const status of ["error", "timeout", "cancelled"]) {
+      expect(isResumableStatus(status)).toBe(true);
+    }
+  });
+
+  it("rejects executions that are running or succeeded", () => {
+    for (const status of ["pending", "running", "success"]) {
+      expect(isResumableStatus(status)).toBe(false);
+    }
+  });
+});
+
+describe("buildResumeState", () => {
+  it("replays nodes that completed and re-runs the failed node", () => {
+    const state = buildResumeState([
+      entry("trigger", "success", { triggered: true }),
+      entry("transfer", "success", { transactionHash: "0xabc" }),
+      entry("read", "error", undefined),
+    ]);
+
+    expect(getReplayedOutput(state, "trigger")).toEqual({
+      output: { triggered: true },
+    });
+    expect(getReplayedOutput(state, "transfer")).toEqual({
+      output: { transactionHash: "0xabc" },
+    });
+    expect(getReplayedOutput(state, "read")).toBeUndefined();
+  });
+
+  it("replays a node whose final retry attempt succeeded", () => {
+    const state = buildResumeState([
+      entry("read", "error", undefined),
+      entry("read", "success", { balance: "1" }),
+    ]);
+    expect(getReplayedOutput(state, "read")).toEqual({
+      output: { balance: "1" },
+    });
+  });
+
+  it("replays the unredacted output when it was kept", () => {
+    const state = buildResumeState([
+      {
+        ...entry("read", "success", { apiKey: "********abcd" }),
+        replayOutput: { apiKey: "sk_live_abcd" },
+      },
+    ]);
+    expect(getReplayedOutput(state, "read")).toEqual({
+      output: { apiKey: "sk_live_abcd" },
+    });
+  });
+
+  it("keeps a null output as a replayed result", () => {
+    const state = buildResumeState([entry("notify", "success", null)]);
+    expect(getReplayedOutput(state, "notify")).toEqual({ output: null });
+  });
+
+  it("re-runs nodes that succeeded more than once", () => {
+    const state = buildResumeState([
+      entry("read", "success", { value: 1 }),
+      entry("read", "success", { value: 2 }),
+    ]);
+    expect(getReplayedOutput(state, "read")).toBeUndefined();
+  });
+
+  it("replays loop body nodes per iteration", () => {
+    const loop = (iterationIndex: number) => ({
+      iterationIndex,
+      forEachNodeId: "loop",
+    });
+    const state = buildResumeState([
+      entry("loop", "success", { items: [1, 2] }),
+      entry("send", "success", { hash: "0x1" }, loop(0)),
+      entry("send", "error", undefined, loop(1)),
+    ]);
+
+    expect(getReplayedOutput(state, "send", 0)).toEqual({
+      output: { hash: "0x1" },
+    });
+    expect(getReplayedOutput(state, "send", 1)).toBeUndefined();
+    expect(getReplayedOutput(state, "send")).toBeUndefined();
+  });
+
+  it("re-runs every node inside a nested loop", () => {
+    const state = buildResumeState([
+      entry("outer", "success", {}),
+      entry(
+        "inner",
+        "success",
+        {},
+        { iterationIndex: 0, forEachNodeId: "outer" }
+      ),
+      entry(
+        "send",
+        "success",
+        {},
+        { iterationIndex: 0, forEachNodeId: "inner" }
+      ),
+    ]);
+
+    expect(getReplayedOutput(state, "inner", 0)).toEqual({ output: {} });
+    expect(getReplayedOutput(state, "send", 0)).toBeUndefined();
+  });
+});
+
+describe("findUnmatchedWrites", () => {
+  it("accepts writes that completed once or never succeeded", () => {
+    expect(
+      findUnmatchedWrites(
+        [
+          entry("send", "success", { hash: "0x1" }),
+          entry("approve", "error", undefined),
+          entry("read", "success", {}),
+          entry("read", "success", {}),
+        ],
+        ["send", "approve"]
+      )
+    ).toEqual([]);
+  });
+
+  it("reports writes that succeeded more than once or in a nested loop", () => {
+    expect(
+      findUnmatchedWrites(
+        [
+          entry("send", "success", {}),
+          entry("send", "success", {}),
+          entry("outer", "success", {}),
+          entry(
+            "inner",
+            "success",
+            {},
+            { iterationIndex: 0, forEachNodeId: "outer" }
+          ),
+          entry(
+            "mint",
+            "success",
+            {},
+            { iterationIndex: 0, forEachNodeId: "inner" }
+          ),
+        ],
+        ["send", "mint"]
+      )
+    ).toEqual(["mint", "send"]);
+  });
+
+  it("reports writes that timed out without a later success", () => {
+    expect(
+      findUnmatchedWrites(
+        [
+          entry("send", "timeout", undefined),
+          entry("retried", "timeout", undefined),
+          entry("retried", "success", {}),
+        ],
+        ["send", "retried"]
+      )
+    ).toEqual(["send"]);
+    expect(formatUnmatchedWritesError(["send"])).toContain('"send"');
+  });
+
+  it("reports writes interrupted while running", () => {
+    expect(
+      findUnmatchedWrites(
+        [entry("send", "running", undefined), entry("wait", "running", {})],
+        ["send"]
+      )
+    ).toEqual(["send"]);
+  });
+
+  it("reports writes that sent a transaction but logged an error", () => {
+    expect(
+      findUnmatchedWrites(
+        [
+          entry("send", "error", undefined),
+          entry("approve", "success", { hash: "0x1" }),
+        ],
+        ["send", "approve"],
+        ["send", "approve"]
+      )
+    ).toEqual(["send"]);
+  });
+
+  it("reports loop writes with more transactions than replayed successes", () => {
+    const loop = (iterationIndex: number) => ({
+      iterationIndex,
+      forEachNodeId: "each",
+    });
+    expect(
+      findUnmatchedWrites(
+        [
+          entry("each", "success", {}),
+          entry("mint", "success", {}, loop(0)),
+          entry("mint", "error", undefined, loop(1)),
+        ],
+        ["mint"],
+        ["mint", "mint"]
+      )
+    ).toEqual(["mint"]);
+  });
+});
+
+describe("getReplayKey", () => {
+  it("includes the iteration only for loop body nodes", () => {
+    expect(getReplayKey("node")).toBe("node");
+    expect(getReplayKey("node", 0)).toBe("node#0");
+  });
+});
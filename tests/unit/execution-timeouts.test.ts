@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  formatNodeTimeoutError,
+  formatWorkflowTimeoutError,
+  getNodeTimeoutSeconds,
+  getWorkflowTimeoutSeconds,
+  MAX_NODE_TIMEOUT_SECONDS,
+  MAX_WORKFLOW_TIMEOUT_SECONDS,
+} from "@/keeperhub/lib/execution-timeouts";
+import { classifyRetryableError } from "@/keeperhub/lib/retry-policy";
+
+describe("getNodeTimeoutSeconds", () => {
+  it("returns null when no timeout is configured", () => {
+    expect(getNodeTimeoutSeconds({})).toBeNull();
+    expect(getNodeTimeoutSeconds({ timeoutSeconds: "" })).toBeNull();
+    expect(getNodeTimeoutSeconds({ timeoutSeconds: "abc" })).toBeNull();
+  });
+
+  it("ignores zero and negative values", () => {
+    expect(getNodeTimeoutSeconds({ timeoutSeconds: "0" })).toBeNull();
+    expect(getNodeTimeoutSeconds({ timeoutSeconds: "-5" })).toBeNull();
+  });
+
+  it("parses string and numeric values", () => {
+    expect(getNodeTimeoutSeconds({ timeoutSeconds: "30" })).toBe(30);
+    expect(getNodeTimeoutSeconds({ timeoutSeconds: 45 })).toBe(45);
+  });
+
+  it("clamps to the node maximum", () => {
+    expect(getNodeTimeoutSeconds({ timeoutSeconds: "999999" })).toBe(
+      MAX_NODE_TIMEOUT_SECONDS
+    );
+  });
+});
+
+describe("getWorkflowTimeoutSeconds", () => {
+  it("returns null without a trigger config", () => {
+    expect(getWorkflowTimeoutSeconds(undefined)).toBeNull();
+    expect(getWorkflowTimeoutSeconds({ triggerType: "Manual" })).toBeNull();
+  });
+
+  it("reads workflowTimeoutSeconds from the trigger config", () => {
+    expect(getWorkflowTimeoutSeconds({ workflowTimeoutSeconds: "600" })).toBe(
+      600
+    );
+  });
+
+  it("clamps to the workflow maximum", () => {
+    expect(
+      getWorkflowTimeoutSeconds({ workflowTimeoutSeconds: "9999999" })
+    ).toBe(MAX_WORKFLOW_TIMEOUT_SECONDS);
+  });
+});
+
+describe("timeout error messages", () => {
+  it("formats node and workflow timeouts", () => {
+    expect(formatNodeTimeoutError(30)).toBe("Step timed out after 30s");
+    expect(formatWorkflowTimeoutError(600)).toBe(
+      "Workflow timed out after 600s"
+    );
+  });
+
+  it("classifies a node timeout as a retryable timeout", () => {
+    expect(classifyRetryableError(formatNodeTimeoutError(30))).toBe("timeout");
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, expect, it, vi } from "vitest";
+
+// Mock server-only to allow importing the SDK code generator in tests
+vi.mock("server-only", () => ({}));
+
+import {
+  createJoinPlacement,
+  createJoinTracker,
+  getIncomingSources,
+  getJoinMode,
+  isJoinNode,
+  type JoinMode,
+} from "@/keeperhub/lib/join-semantics";
+import { generateWorkflowCode } from "@/lib/workflow-codegen";
+import { generateWorkflowSDKCode } from "@/lib/workflow-codegen-sdk";
+import type { WorkflowEdge, WorkflowNode } from "@/lib/workflow-store";
+
+// trigger -> eth, base, arb -> compare
+const fanIn = [
+  { source: "trigger", target: "eth" },
+  { source: "trigger", target: "base" },
+  { source: "trigger", target: "arb" },
+  { source: "eth", target: "compare" },
+  { source: "base", target: "compare" },
+  { source: "arb", target: "compare" },
+];
+
+const modes =
+  (byNode: Record<string, JoinMode>) =>
+  (nodeId: string): JoinMode =>
+    byNode[nodeId] ?? "all";
+
+describe("getJoinMode", () => {
+  it("defaults to all", () => {
+    expect(getJoinMode(undefined)).toBe("all");
+    expect(getJoinMode({})).toBe("all");
+    expect(getJoinMode({ joinMode: "bogus" })).toBe("all");
+  });
+
+  it("reads any", () => {
+    expect(getJoinMode({ joinMode: "any" })).toBe("any");
+  });
+});
+
+describe("getIncomingSources / isJoinNode", () => {
+  it("lists distinct sources", () => {
+    expect(getIncomingSources("compare", fanIn)).toEqual([
+      "eth",
+      "base",
+      "arb",
+    ]);
+    expect(
+      getIncomingSources("b", [
+        { source: "a", target: "b" },
+        { source: "a", target: "b" },
+      ])
+    ).toEqual(["a"]);
+  });
+
+  it("only counts nodes with several sources as joins", () => {
+    expect(isJoinNode("compare", fanIn)).toBe(true);
+    expect(isJoinNode("eth", fanIn)).toBe(false);
+  });
+});
+
+describe("createJoinTracker", () => {
+  it("runs an all join once every branch arrived", () => {
+    const tracker = createJoinTracker(["trigger"], fanIn, modes({}));
+    expect(tracker.arrive("compare", "eth", "taken")).toBe("wait");
+    expect(tracker.arrive("compare", "base", "taken")).toBe("wait");
+    expect(tracker.arrive("compare", "arb", "taken")).toBe("run");
+    expect(tracker.arrive("compare", "arb", "taken")).toBe("ignore");
+  });
+
+  it("runs an all join when some branches were not taken", () => {
+    const tracker = createJoinTracker(["trigger"], fanIn, modes({}));
+    tracker.arrive("compare", "eth", "skipped");
+    tracker.arrive("compare", "base", "taken");
+    expect(tracker.arrive("compare", "arb", "skipped")).toBe("run");
+  });
+
+  it("skips an all join when no branch was taken", () => {
+    const tracker = createJoinTracker(["trigger"], fanIn, modes({}));
+    tracker.arrive("compare", "eth", "skipped");
+    tracker.arrive("compare", "base", "skipped");
+    expect(tracker.arrive("compare", "arb", "skipped")).toBe("skip");
+    expect(tracker.skipKind("compare")).toBe("skipped");
+  });
+
+  it("skips an all join when a branch failed", () => {
+    const tracker = createJoinTracker(["trigger"], fanIn, modes({}));
+    tracker.arrive("compare", "eth", "taken");
+    tracker.arrive("compare", "base", "failed");
+    expect(tracker.arrive("compare", "arb", "taken")).toBe("skip");
+    expect(tracker.skipKind("compare")).toBe("failed");
+  });
+
+  it("runs an any join on the first taken branch", () => {
+    const tracker = createJoinTracker(
+      ["trigger"],
+      fanIn,
+      modes({ compare: "any" })
+    );
+    expect(tracker.arrive("compare", "eth", "skipped")).toBe("wait");
+    expect(tracker.arrive("compare", "base", "taken")).toBe("run");
+    expect(tracker.arrive("compare", "arb", "taken")).toBe("ignore");
+  });
+
+  it("skips an any join when no branch was taken", () => {
+    const tracker = createJoinTracker(
+      ["trigger"],
+      fanIn,
+      modes({ compare: "any" })
+    );
+    tracker.arrive("compare", "eth", "failed");
+    tracker.arrive("compare", "base", "skipped");
+    expect(tracker.arrive("compare", "arb", "skipped")).toBe("skip");
+  });
+
+  it("treats single-source nodes as plain edges", () => {
+    const tracker = createJoinTracker(["trigger"], fanIn, modes({}));
+    expect(tracker.arrive("eth", "trigger", "taken")).toBe("run");
+    expect(tracker.arrive("base", "trigger", "skipped")).toBe("skip");
+  });
+
+  it("does not wait for nodes the run can never reach", () => {
+    const tracker = createJoinTracker(
+      ["trigger"],
+      [...fanIn, { source: "orphan", target: "compare" }],
+      modes({})
+    );
+    tracker.arrive("compare", "eth", "taken");
+    tracker.arrive("compare", "base", "taken");
+    expect(tracker.arrive("compare", "arb", "taken")).toBe("run");
+  });
+});
+
+describe("createJoinPlacement", () => {
+  it("releases an all join when the block holding its branches closes", () => {
+    const placement = createJoinPlacement(fanIn, modes({}));
+    placement.open();
+    placement.generated("trigger");
+    placement.open();
+    for (const branch of ["eth", "base", "arb"]) {
+      placement.generated(branch);
+      expect(placement.defer("compare")).toBe(true);
+    }
+    expect(placement.close()).toEqual(["compare"]);
+    expect(placement.defer("compare")).toBe(false);
+    expect(placement.defer("compare")).toBe(true);
+    expect(placement.close()).toEqual([]);
+  });
+
+  it("moves a join out of a block that misses one of its branches", () => {
+    const placement = createJoinPlacement(fanIn, modes({}));
+    placement.open();
+    placement.open();
+    placement.generated("eth");
+    expect(placement.defer("compare")).toBe(true);
+    expect(placement.close()).toEqual([]);
+    placement.generated("base");
+    placement.generated("arb");
+    expect(placement.close()).toEqual(["compare"]);
+  });
+
+  it("generates an any join at its first reach only", () => {
+    const placement = createJoinPlacement(fanIn, modes({ compare: "any" }));
+    placement.open();
+    expect(placement.defer("compare")).toBe(false);
+    expect(placement.defer("compare")).toBe(true);
+    expect(placement.close()).toEqual([]);
+  });
+
+  it("never defers plain nodes", () => {
+    const placement = createJoinPlacement(fanIn, modes({}));
+    placement.open();
+    expect(placement.defer("eth")).toBe(false);
+    expect(placement.defer("eth")).toBe(false);
+  });
+});
+
+function node(
+  id: string,
+  type: "trigger" | "action",
+  config: Record<string, unknown>
+): WorkflowNode {
+  return {
+    id,
+    type,
+    position: { x: 0, y: 0 },
+    data: { label: id, type, config },
+  };
+}
+
+const fanInNodes: WorkflowNode[] = [
+  node("trigger", "trigger", { triggerType: "Manual" }),
+  node("eth", "action", { actionType: "HTTP Request" }),
+  node("base", "action", { actionType: "HTTP Request" }),
+  node("arb", "action", { actionType: "HTTP Request" }),
+  node("compare", "action", { actionType: "HTTP Request" }),
+];
+
+const fanInEdges: WorkflowEdge[] = fanIn.map((edge) => ({
+  id: `${edge.source}-${edge.target}`,
+  ...edge,
+}));
+
+function countOccurrences(code: string, text: string): number {
+  return code.split(text).length - 1;
+}
+
+describe("join codegen", () => {
+  it("generates an all join once, after the parallel branches", () => {
+    const { code } = generateWorkflowCode(fanInNodes, fanInEdges);
+    expect(countOccurrences(code, "// compare")).toBe(1);
+    expect(code.indexOf("// compare")).toBeGreaterThan(code.indexOf("]);"));
+    expect(code).toContain("// Join: runs after all incoming branches");
+  });
+
+  it("generates an any join inside the first branch", () => {
+    const nodes = fanInNodes.map((n) =>
+      n.id === "compare"
+        ? node("compare", "action", {
+            actionType: "HTTP Request",
+            joinMode: "any",
+          })
+        : n
+    );
+    const { code } = generateWorkflowCode(nodes, fanInEdges);
+    expect(countOccurrences(code, "// compare")).toBe(1);
+    expect(code.indexOf("// compare")).toBeLessThan(code.indexOf("// base"));
+  });
+
+  it("generates an all join after every branch in SDK code", () => {
+    const code = generateWorkflowSDKCode("Fan In", fanInNodes, fanInEdges);
+    const body = code.slice(code.indexOf('"use workflow"'));
+    expect(body.indexOf("// compare")).toBeGreaterThan(body.indexOf("// arb"));
+  });
+});
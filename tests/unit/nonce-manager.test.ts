@@ -233,6 +233,7 @@ describe("NonceManager", () => {
         walletAddress: "0x1234",
         chainId: 1,
         executionId: "exec_123",
+        startNonce: 5,
         currentNonce: 5,
         startedAt: new Date(),
       };
@@ -255,6 +256,7 @@ describe("NonceManager", () => {
         walletAddress: "0x1234",
         chainId: 1,
         executionId: "exec_123",
+        startNonce: 5,
         currentNonce: 5,
         startedAt: new Date(),
       };
@@ -283,6 +285,7 @@ describe("NonceManager", () => {
         walletAddress: "0x1234",
         chainId: 1,
         executionId: "exec_123",
+        startNonce: 5,
         currentNonce: 5,
         startedAt: new Date(),
       };
@@ -312,6 +315,107 @@ describe("NonceManager", () => {
     });
   });
 
+  describe("recordUnrecordedBroadcasts", () => {
+    function createSession(): NonceSession {
+      return {
+        walletAddress: "0x1234",
+        chainId: 1,
+        executionId: "exec_123",
+        startNonce: 5,
+        currentNonce: 5,
+        startedAt: new Date(),
+      };
+    }
+
+    function mockRecordedNonces(nonces: number[]) {
+      mockSelect.mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockResolvedValue(nonces.map((nonce) => ({ nonce }))),
+        }),
+      });
+    }
+
+    it("should record a send that threw after broadcast", async () => {
+      const mockValues = vi.fn().mockReturnValue({
+        onConflictDoUpdate: vi.fn().mockResolvedValue(undefined),
+      });
+      mockInsert.mockReturnValue({ values: mockValues });
+      mockRecordedNonces([]);
+
+      const manager = new NonceManager();
+      const session = createSession();
+      const nonce = manager.getNextNonce(session);
+      // The send threw (e.g. an RPC timeout) after the node accepted the tx,
+      // so nothing was recorded but the chain nonce moved on
+      const provider = createMockProvider({ transactionCount: 6 });
+
+      const count = await manager.recordUnrecordedBroadcasts(
+        session,
+        provider as unknown as import("ethers").Provider
+      );
+
+      expect(count).toBe(1);
+      expect(mockValues).toHaveBeenCalledWith(
+        expect.objectContaining({
+          nonce,
+          executionId: "exec_123",
+          status: "unrecorded",
+        })
+      );
+    });
+
+    it("should record nothing when the send failed before broadcast", async () => {
+      mockRecordedNonces([]);
+
+      const manager = new NonceManager();
+      const session = createSession();
+      manager.getNextNonce(session);
+      const provider = createMockProvider({ transactionCount: 5 });
+
+      const count = await manager.recordUnrecordedBroadcasts(
+        session,
+        provider as unknown as import("ethers").Provider
+      );
+
+      expect(count).toBe(0);
+      expect(mockInsert).not.toHaveBeenCalled();
+    });
+
+    it("should skip nonces with a recorded transaction", async () => {
+      mockRecordedNonces([5]);
+
+      const manager = new NonceManager();
+      const session = createSession();
+      manager.getNextNonce(session);
+      const provider = createMockProvider({ transactionCount: 6 });
+
+      const count = await manager.recordUnrecordedBroadcasts(
+        session,
+        provider as unknown as import("ethers").Provider
+      );
+
+      expect(count).toBe(0);
+      expect(mockInsert).not.toHaveBeenCalled();
+    });
+
+    it("should assume handed out nonces were sent when the chain is unreachable", async () => {
+      mockRecordedNonces([]);
+
+      const manager = new NonceManager();
+      const session = createSession();
+      manager.getNextNonce(session);
+      const provider = createMockProvider();
+      provider.getTransactionCount.mockRejectedValue(new Error("offline"));
+
+      const count = await manager.recordUnrecordedBroadcasts(
+        session,
+        provider as unknown as import("ethers").Provider
+      );
+
+      expect(count).toBe(1);
+    });
+  });
+
   describe("endSession", () => {
     it("should release lock and clear active session", async () => {
       const manager = new NonceManager();
@@ -342,6 +446,50 @@ describe("NonceManager", () => {
     });
   });
 
+  describe("releaseExecutionLocks", () => {
+    it("should end sessions left open by the execution", async () => {
+      const manager = new NonceManager();
+      const provider = createMockProvider();
+
+      await manager.startSession(
+        "0x1234567890123456789012345678901234567890",
+        1,
+        "exec_cancelled",
+        provider as unknown as import("ethers").Provider
+      );
+      await manager.startSession(
+        "0xabcdef7890123456789012345678901234567890",
+        1,
+        "exec_other",
+        provider as unknown as import("ethers").Provider
+      );
+
+      vi.clearAllMocks();
+      mockPostgresEnd.mockResolvedValue(undefined);
+      mockUpdate.mockReturnValue({
+        set: vi.fn().mockReturnValue({
+          where: vi.fn().mockResolvedValue(undefined),
+        }),
+      });
+
+      await manager.releaseExecutionLocks("exec_cancelled");
+
+      // Only the cancelled execution's connection is closed
+      expect(mockPostgresEnd).toHaveBeenCalledTimes(1);
+      // Its session's lock row, then any other row still naming it
+      expect(mockUpdate).toHaveBeenCalledTimes(2);
+    });
+
+    it("should clear lock metadata when no session is open", async () => {
+      const manager = new NonceManager();
+
+      await manager.releaseExecutionLocks("exec_cancelled");
+
+      expect(mockPostgresEnd).not.toHaveBeenCalled();
+      expect(mockUpdate).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe("stale lock detection", () => {
     it("should detect and clear stale lock metadata", async () => {
       // First attempt fails, lock exists and is stale
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import {
+  generatePayloadExample,
+  getWebhookMockRequest,
+  isWebhookPayloadValidationEnabled,
+  MAX_PAYLOAD_VIOLATIONS,
+  parsePayloadSchema,
+  type SchemaField,
+  validatePayload,
+} from "@/keeperhub/lib/payload-schema";
+import { getTriggerOutputFields } from "@/keeperhub/lib/trigger-output-fields";
+
+const TRANSFER_SCHEMA: SchemaField[] = [
+  { name: "to", type: "string" },
+  { name: "amount", type: "number" },
+  { name: "memo", type: "string", optional: true },
+  {
+    name: "token",
+    type: "object",
+    fields: [
+      { name: "symbol", type: "string" },
+      { name: "decimals", type: "number" },
+    ],
+  },
+  {
+    name: "logs",
+    type: "array",
+    itemType: "object",
+    fields: [{ name: "index", type: "number" }],
+  },
+  { name: "tags", type: "array", itemType: "string" },
+];
+
+const VALID_PAYLOAD = {
+  to: "0xvault",
+  amount: 5,
+  token: { symbol: "USDC", decimals: 6 },
+  logs: [{ index: 0 }, { index: 1 }],
+  tags: ["a"],
+  extra: "undeclared fields are allowed",
+};
+
+describe("parsePayloadSchema", () => {
+  it("returns named fields of a stored schema", () => {
+    expect(
+      parsePayloadSchema(
+        JSON.stringify([
+          { name: "to", type: "string" },
+          { name: " ", type: "number" },
+        ])
+      )
+    ).toEqual([{ name: "to", type: "string" }]);
+  });
+
+  it("returns nothing for unset or invalid schemas", () => {
+    expect(parsePayloadSchema(undefined)).toEqual([]);
+    expect(parsePayloadSchema("")).toEqual([]);
+    expect(parsePayloadSchema("{not json")).toEqual([]);
+    expect(parsePayloadSchema('{"name":"to"}')).toEqual([]);
+  });
+});
+
+describe("validatePayload", () => {
+  it("accepts conforming payloads", () => {
+    expect(validatePayload(TRANSFER_SCHEMA, VALID_PAYLOAD)).toEqual([]);
+    expect(
+      validatePayload(TRANSFER_SCHEMA, { ...VALID_PAYLOAD, memo: null })
+    ).toEqual([]);
+  });
+
+  it("accepts anything without a schema", () => {
+    expect(validatePayload([], "text")).toEqual([]);
+  });
+
+  it("lists missing and mistyped fields", () => {
+    expect(
+      validatePayload(TRANSFER_SCHEMA, {
+        amount: "5",
+        token: { symbol: "USDC" },
+        logs: [{ index: "0" }, "log"],
+        tags: "a",
+      })
+    ).toEqual([
+      "to is required",
+      "amount must be a number, received string",
+      "token.decimals is required",
+      "logs[0].index must be a number, received string",
+      "logs[1] must be an object, received string",
+      "tags must be an array, received string",
+    ]);
+  });
+
+  it("rejects payloads that are not objects", () => {
+    expect(validatePayload(TRANSFER_SCHEMA, [1])).toEqual([
+      "Payload must be a JSON object, received array",
+    ]);
+  });
+
+  it("caps the listed violations", () => {
+    const schema: SchemaField[] = Array.from(
+      { length: MAX_PAYLOAD_VIOLATIONS + 5 },
+      (_, index) => ({ name: `field${index}`, type: "string" })
+    );
+    const violations = validatePayload(schema, {});
+    expect(violations).toHaveLength(MAX_PAYLOAD_VIOLATIONS + 1);
+    expect(violations.at(-1)).toBe("...and 5 more");
+  });
+});
+
+describe("generatePayloadExample", () => {
+  it("generates a payload that conforms to the schema", () => {
+    const example = generatePayloadExample(TRANSFER_SCHEMA);
+    expect(example).toEqual({
+      to: "example",
+      amount: 0,
+      memo: "example",
+      token: { symbol: "example", decimals: 0 },
+      logs: [{ index: 0 }],
+      tags: ["example"],
+    });
+    expect(validatePayload(TRANSFER_SCHEMA, example)).toEqual([]);
+  });
+});
+
+describe("isWebhookPayloadValidationEnabled", () => {
+  it("is only on when the trigger opts in", () => {
+    expect(isWebhookPayloadValidationEnabled({ webhookSchema: "[]" })).toBe(
+      false
+    );
+    expect(
+      isWebhookPayloadValidationEnabled({ webhookValidatePayload: "" })
+    ).toBe(false);
+    expect(
+      isWebhookPayloadValidationEnabled({ webhookValidatePayload: "true" })
+    ).toBe(true);
+    expect(
+      isWebhookPayloadValidationEnabled({ webhookValidatePayload: true })
+    ).toBe(true);
+    expect(isWebhookPayloadValidationEnabled(undefined)).toBe(false);
+  });
+});
+
+describe("getWebhookMockRequest", () => {
+  const webhookSchema = JSON.stringify([{ name: "to", type: "string" }]);
+
+  it("prefers the typed mock request", () => {
+    expect(
+      getWebhookMockRequest({ webhookSchema, webhookMockRequest: '{"a":1}' })
+    ).toBe('{"a":1}');
+  });
+
+  it("falls back to an example generated from the schema", () => {
+    expect(
+      JSON.parse(
+        getWebhookMockRequest({ webhookSchema, webhookMockRequest: " " }) ?? ""
+      )
+    ).toEqual({ to: "example" });
+    expect(getWebhookMockRequest({})).toBeUndefined();
+  });
+});
+
+describe("Webhook trigger output fields", () => {
+  it("follow the declared schema, then the request fields", () => {
+    const fields = getTriggerOutputFields("Webhook", {
+      webhookSchema: JSON.stringify(TRANSFER_SCHEMA),
+    }).map((field) => field.field);
+    expect(fields).toEqual([
+      "to",
+      "amount",
+      "memo",
+      "token",
+      "token.symbol",
+      "token.decimals",
+      "logs",
+      "logs[0].index",
+      "tags",
+      "body",
+      "query",
+      "headers",
+      "method",
+      "triggeredAt",
+    ]);
+  });
+
+  it("fall back to the request fields without a schema", () => {
+    expect(
+      getTriggerOutputFields("Webhook", {}).map((field) => field.field)
+    ).toContain("body");
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  classifyRetryableError,
+  getRetryDelayMs,
+  isControlFlowAction,
+  isRetryableError,
+  isWriteStepFunction,
+  parseRetryPolicy,
+} from "@/keeperhub/lib/retry-policy";
+
+describe("parseRetryPolicy", () => {
+  it("returns null when retries are not configured", () => {
+    expect(parseRetryPolicy({})).toBeNull();
+    expect(parseRetryPolicy({ retryMaxAttempts: "1" })).toBeNull();
+    expect(parseRetryPolicy({ retryMaxAttempts: "abc" })).toBeNull();
+  });
+
+  it("applies defaults for missing fields", () => {
+    expect(parseRetryPolicy({ retryMaxAttempts: "3" })).toEqual({
+      maxAttempts: 3,
+      backoff: "exponential",
+      delaySeconds: 5,
+      retryOn: ["network", "timeout", "rate-limit", "server"],
+    });
+  });
+
+  it("clamps attempts and delay to their limits", () => {
+    const policy = parseRetryPolicy({
+      retryMaxAttempts: "50",
+      retryDelaySeconds: "9999",
+    });
+    expect(policy?.maxAttempts).toBe(10);
+    expect(policy?.delaySeconds).toBe(300);
+  });
+
+  it("parses retryOn kinds and the any keyword", () => {
+    expect(
+      parseRetryPolicy({ retryMaxAttempts: "2", retryOn: "rate-limit, bogus" })
+        ?.retryOn
+    ).toEqual(["rate-limit"]);
+    expect(
+      parseRetryPolicy({ retryMaxAttempts: "2", retryOn: "any" })?.retryOn
+    ).toBeNull();
+  });
+});
+
+describe("getRetryDelayMs", () => {
+  it("doubles the delay with exponential backoff", () => {
+    const policy = parseRetryPolicy({
+      retryMaxAttempts: "5",
+      retryDelaySeconds: "2",
+    });
+    if (!policy) {
+      throw new Error("expected a policy");
+    }
+    expect(getRetryDelayMs(policy, 1)).toBe(2000);
+    expect(getRetryDelayMs(policy, 2)).toBe(4000);
+    expect(getRetryDelayMs(policy, 3)).toBe(8000);
+  });
+
+  it("keeps the delay constant with fixed backoff and caps it", () => {
+    const policy = parseRetryPolicy({
+      retryMaxAttempts: "10",
+      retryBackoff: "fixed",
+      retryDelaySeconds: "2",
+    });
+    if (!policy) {
+      throw new Error("expected a policy");
+    }
+    expect(getRetryDelayMs(policy, 4)).toBe(2000);
+    expect(getRetryDelayMs({ ...policy, backoff: "exponential" }, 9)).toBe(
+      300_000
+    );
+  });
+});
+
+describe("isRetryableError", () => {
+  const policy = parseRetryPolicy({ retryMaxAttempts: "3" });
+
+  it("classifies common transient errors", () => {
+    expect(
+      classifyRetryableError("Discord API error: 429 Too Many Requests")
+    ).toBe("rate-limit");
+    expect(classifyRetryableError("request timed out after 30000ms")).toBe(
+      "timeout"
+    );
+    expect(classifyRetryableError("read ECONNRESET")).toBe("network");
+    expect(classifyRetryableError("HTTP 503 Service Unavailable")).toBe(
+      "server"
+    );
+    expect(classifyRetryableError("execution reverted: not owner")).toBeNull();
+  });
+
+  it("only retries the configured error kinds", () => {
+    if (!policy) {
+      throw new Error("expected a policy");
+    }
+    expect(isRetryableError(policy, "fetch failed")).toBe(true);
+    expect(isRetryableError(policy, "Invalid recipient address")).toBe(false);
+    expect(
+      isRetryableError({ ...policy, retryOn: ["server"] }, "fetch failed")
+    ).toBe(false);
+    expect(
+      isRetryableError({ ...policy, retryOn: null }, "Invalid recipient")
+    ).toBe(true);
+  });
+});
+
+describe("action classification", () => {
+  it("recognises transaction-sending step functions", () => {
+    expect(isWriteStepFunction("writeContractStep")).toBe(true);
+    expect(isWriteStepFunction("protocolWriteStep")).toBe(true);
+    expect(isWriteStepFunction("readContractStep")).toBe(false);
+    expect(isWriteStepFunction(undefined)).toBe(false);
+  });
+
+  it("recognises control-flow actions", () => {
+    expect(isControlFlowAction("web3/transfer-funds")).toBe(false);
+    expect(isControlFlowAction("Condition")).toBe(true);
+    expect(isControlFlowAction("For Each")).toBe(true);
+    expect(isControlFlowAction("Delay")).toBe(true);
+    expect(isControlFlowAction(undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  checkSubWorkflowCall,
+  MAX_SUB_WORKFLOW_DEPTH,
+  parseSubWorkflowInput,
+} from "@/keeperhub/lib/sub-workflow";
+
+describe("checkSubWorkflowCall", () => {
+  it("allows calling a workflow outside the call stack", () => {
+    expect(checkSubWorkflowCall(["alerts"], "notify")).toBeNull();
+  });
+
+  it("rejects a workflow calling itself", () => {
+    expect(checkSubWorkflowCall(["alerts"], "alerts")).toBe(
+      "Sub-workflow cycle detected: alerts -> alerts"
+    );
+  });
+
+  it("rejects indirect cycles and reports only the loop", () => {
+    expect(checkSubWorkflowCall(["root", "a", "b"], "a")).toBe(
+      "Sub-workflow cycle detected: a -> b -> a"
+    );
+  });
+
+  it("limits nesting depth", () => {
+    const stack = Array.from(
+      { length: MAX_SUB_WORKFLOW_DEPTH },
+      (_, i) => `wf-${i}`
+    );
+    expect(checkSubWorkflowCall(stack, "leaf")).toBe(
+      `Sub-workflows cannot be nested more than ${MAX_SUB_WORKFLOW_DEPTH} levels deep`
+    );
+    expect(checkSubWorkflowCall(stack.slice(1), "leaf")).toBeNull();
+  });
+});
+
+describe("parseSubWorkflowInput", () => {
+  it("treats an empty mapping as an empty object", () => {
+    expect(parseSubWorkflowInput(undefined)).toEqual({ input: {} });
+    expect(parseSubWorkflowInput("")).toEqual({ input: {} });
+  });
+
+  it("parses a JSON object", () => {
+    expect(
+      parseSubWorkflowInput('{"message":"low balance","amount":2}')
+    ).toEqual({ input: { message: "low balance", amount: 2 } });
+  });
+
+  it("passes objects through", () => {
+    expect(parseSubWorkflowInput({ a: 1 })).toEqual({ input: { a: 1 } });
+  });
+
+  it("rejects non-objects and invalid JSON", () => {
+    expect(parseSubWorkflowInput("[1,2]")).toEqual({
+      error: "Sub-workflow input must be a JSON object",
+    });
+    expect(parseSubWorkflowInput("42")).toEqual({
+      error: "Sub-workflow input must be a JSON object",
+    });
+    expect(parseSubWorkflowInput("{oops")).toHaveProperty("error");
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  compareNumeric,
+  matchSwitchCase,
+  parseSwitchCases,
+  type SwitchCase,
+  selectSwitchTargets,
+} from "@/keeperhub/lib/switch-cases";
+import { validateSwitchCases } from "@/lib/condition-validator";
+
+const cases: SwitchCase[] = [
+  { id: "high", label: "High", type: "equals", value: "high" },
+  { id: "big", label: "Big", type: "range", min: "100", max: "1000" },
+  { id: "hex", label: "Hex", type: "regex", value: "^0x" },
+];
+
+describe("parseSwitchCases", () => {
+  it("parses the JSON string stored by the editor", () => {
+    expect(parseSwitchCases(JSON.stringify(cases))).toEqual(cases);
+  });
+
+  it("returns no cases for empty values", () => {
+    expect(parseSwitchCases(undefined)).toEqual([]);
+    expect(parseSwitchCases("")).toEqual([]);
+  });
+
+  it("defaults the type to equals", () => {
+    expect(parseSwitchCases([{ id: "a", label: "A", value: 1 }])).toEqual([
+      { id: "a", label: "A", type: "equals", value: "1" },
+    ]);
+  });
+
+  it("rejects malformed input", () => {
+    expect(() => parseSwitchCases("{not json")).toThrow("JSON array");
+    expect(() => parseSwitchCases({ id: "a" })).toThrow("JSON array");
+    expect(() => parseSwitchCases([{ id: "a", type: "glob" }])).toThrow(
+      'unknown type "glob"'
+    );
+  });
+});
+
+describe("compareNumeric", () => {
+  it("compares integers beyond the safe integer range exactly", () => {
+    expect(
+      compareNumeric("1000000000000000000001", "1000000000000000000000")
+    ).toBe(1);
+  });
+
+  it("compares decimals", () => {
+    expect(compareNumeric("0.5", "1")).toBe(-1);
+    expect(compareNumeric("1.0", "1")).toBe(0);
+  });
+
+  it("returns null for non-numeric values", () => {
+    expect(compareNumeric("abc", "1")).toBeNull();
+    expect(compareNumeric("", "1")).toBeNull();
+  });
+});
+
+describe("matchSwitchCase", () => {
+  it("returns the first matching case in order", () => {
+    expect(matchSwitchCase("high", cases)?.id).toBe("high");
+    expect(matchSwitchCase(500, cases)?.id).toBe("big");
+    expect(matchSwitchCase("0xabc", cases)?.id).toBe("hex");
+  });
+
+  it("treats range min as inclusive and max as exclusive", () => {
+    expect(matchSwitchCase("100", cases)?.id).toBe("big");
+    expect(matchSwitchCase("1000", cases)).toBeUndefined();
+  });
+
+  it("returns undefined when no case matches", () => {
+    expect(matchSwitchCase("low", cases)).toBeUndefined();
+    expect(matchSwitchCase(null, cases)).toBeUndefined();
+  });
+});
+
+describe("selectSwitchTargets", () => {
+  const edges = [
+    { source: "sw", target: "a", sourceHandle: "high" },
+    { source: "sw", target: "b", sourceHandle: "default" },
+    { source: "sw", target: "c" },
+    { source: "other", target: "d", sourceHandle: "high" },
+  ];
+
+  it("follows only the edges of the matched case", () => {
+    expect(selectSwitchTargets("sw", ["a", "b", "c"], "high", edges)).toEqual([
+      "a",
+    ]);
+  });
+
+  it("treats untagged edges as the default branch", () => {
+    expect(
+      selectSwitchTargets("sw", ["a", "b", "c"], "default", edges)
+    ).toEqual(["b", "c"]);
+  });
+});
+
+describe("validateSwitchCases", () => {
+  it("accepts a valid case list", () => {
+    expect(validateSwitchCases(cases)).toEqual({ valid: true });
+  });
+
+  it("requires at least one case", () => {
+    expect(validateSwitchCases([]).valid).toBe(false);
+  });
+
+  it("rejects duplicate and reserved ids", () => {
+    expect(validateSwitchCases([cases[0], cases[0]]).valid).toBe(false);
+    expect(validateSwitchCases([{ ...cases[0], id: "default" }]).valid).toBe(
+      false
+    );
+  });
+
+  it("rejects inverted ranges and invalid patterns", () => {
+    expect(
+      validateSwitchCases([{ ...cases[1], min: "1000", max: "100" }]).valid
+    ).toBe(false);
+    expect(validateSwitchCases([{ ...cases[2], value: "(" }]).valid).toBe(
+      false
+    );
+  });
+});
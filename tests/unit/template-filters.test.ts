@@ -0,0 +1,233 @@
+import { describe, expect, it, vi } from "vitest";
+
+// Mock server-only to allow importing workflow-executor in tests
+vi.mock("server-only", () => ({}));
+
+import {
+  appendTemplateFilter,
+  applyTemplateFilters,
+  findTemplateFilterTrigger,
+  getTemplateFilterError,
+  splitTemplateFilters,
+} from "@/keeperhub/lib/template-filters";
+import { getDisplayTextForTemplate } from "@/keeperhub/lib/template-utils";
+import { type NodeOutputs, processTemplate } from "@/lib/utils/template";
+import {
+  evaluateConditionExpression,
+  extractTemplateParameters,
+  resolveDisplayTemplate,
+  resolveTemplateToRawValue,
+} from "@/lib/workflow-executor.workflow";
+
+const ADDRESS = "0x52908400098527886e0f7030069857d2e4169ee7";
+const CHECKSUMMED = "0x52908400098527886E0F7030069857D2E4169EE7";
+
+function apply(value: unknown, expression: string): unknown {
+  return applyTemplateFilters(
+    value,
+    splitTemplateFilters(`x | ${expression}`).filters
+  );
+}
+
+describe("splitTemplateFilters", () => {
+  it("leaves references without filters unchanged", () => {
+    expect(splitTemplateFilters("Check Balance.balance")).toEqual({
+      reference: "Check Balance.balance",
+      filters: [],
+    });
+  });
+
+  it("parses filters and their arguments", () => {
+    expect(
+      splitTemplateFilters(
+        'Check Balance.balance | formatUnits:18 | default:"n/a | none"|json'
+      )
+    ).toEqual({
+      reference: "Check Balance.balance",
+      filters: [
+        { name: "formatUnits", arg: "18" },
+        { name: "default", arg: "n/a | none" },
+        { name: "json" },
+      ],
+    });
+  });
+});
+
+describe("applyTemplateFilters", () => {
+  it("converts between integer amounts and decimals", () => {
+    expect(apply("1500000000000000000", "formatUnits:18")).toBe("1.5");
+    expect(apply(BigInt(2_500_000), "formatUnits:6")).toBe("2.5");
+    expect(apply("0x0de0b6b3a7640000", "formatUnits")).toBe("1.0");
+    expect(apply("1.5", "parseUnits:6")).toBe("1500000");
+    expect(apply(2, "parseUnits")).toBe("2000000000000000000");
+  });
+
+  it("formats addresses, numbers and text", () => {
+    expect(apply(ADDRESS, "checksum")).toBe(CHECKSUMMED);
+    expect(apply("3.14159", "toFixed:2")).toBe("3.14");
+    expect(apply(2.5, "toFixed")).toBe("3");
+    expect(apply({ a: BigInt(1) }, "json")).toBe('{"a":"1"}');
+    expect(apply(CHECKSUMMED, "lower")).toBe(ADDRESS);
+    expect(apply("eth", "upper")).toBe("ETH");
+  });
+
+  it("chains filters left to right", () => {
+    expect(apply("1234567890000000000", "formatUnits:18 | toFixed:2")).toBe(
+      "1.23"
+    );
+  });
+
+  it("passes missing values through to default", () => {
+    expect(apply(null, 'formatUnits:18 | default:"0"')).toBe("0");
+    expect(apply("", 'default:"none"')).toBe("none");
+    expect(apply("5", 'default:"none"')).toBe("5");
+    expect(apply(undefined, "checksum")).toBe(undefined);
+  });
+
+  it("names the filter that cannot convert a value", () => {
+    expect(() => apply("abc", "formatUnits:18")).toThrow(
+      'Filter "formatUnits" expects an integer amount, got "abc"'
+    );
+    expect(() => apply("1.1234567", "parseUnits:6")).toThrow(
+      'Filter "parseUnits" expects a decimal amount with at most 6 decimals'
+    );
+    expect(() => apply("0x123", "checksum")).toThrow(
+      'Filter "checksum" expects an address'
+    );
+    expect(() => apply("many", "toFixed:2")).toThrow(
+      'Filter "toFixed" expects a number'
+    );
+  });
+
+  it("rejects invalid filters", () => {
+    expect(() => apply("1", "round")).toThrow(
+      'Unknown template filter "round"'
+    );
+  });
+});
+
+describe("getTemplateFilterError", () => {
+  it("accepts valid filters and templates without filters", () => {
+    expect(getTemplateFilterError("{{@n1:Read.balance}}")).toBe(undefined);
+    expect(
+      getTemplateFilterError(
+        '{{@n1:Read.balance | formatUnits:6 | default:"0"}}'
+      )
+    ).toBe(undefined);
+  });
+
+  it("reports unknown filters and bad arguments", () => {
+    expect(getTemplateFilterError("{{@n1:Read.balance | round}}")).toBe(
+      'Unknown template filter "round"'
+    );
+    expect(getTemplateFilterError("{{@n1:Read.balance | formatUnits:x}}")).toBe(
+      'Filter "formatUnits" expects a whole number from 0 to 77, got "x"'
+    );
+    expect(getTemplateFilterError("{{@n1:Read.balance | default}}")).toBe(
+      'Filter "default" needs an argument, e.g. default:"0"'
+    );
+    expect(getTemplateFilterError("{{@n1:Read.owner | checksum:1}}")).toBe(
+      'Filter "checksum" does not take an argument'
+    );
+    expect(getTemplateFilterError("{{@n1:Read.owner |}}")).toBe(
+      "Empty template filter after |"
+    );
+  });
+});
+
+describe("filter autocomplete helpers", () => {
+  it("finds a pipe typed right after a template", () => {
+    const text = "Balance: {{@n1:Read.balance}}|form";
+    expect(findTemplateFilterTrigger(text, text.length)).toEqual({
+      templateStart: 9,
+      template: "{{@n1:Read.balance}}",
+      query: "form",
+    });
+    expect(findTemplateFilterTrigger("{{@n1:Read.balance}} |", 22)).toBe(
+      undefined
+    );
+  });
+
+  it("appends filters inside the template", () => {
+    expect(appendTemplateFilter("{{@n1:Read.balance}}", "formatUnits:18")).toBe(
+      "{{@n1:Read.balance | formatUnits:18}}"
+    );
+    expect(
+      appendTemplateFilter("{{@n1:Read.balance | formatUnits:18}}", "toFixed:2")
+    ).toBe("{{@n1:Read.balance | formatUnits:18 | toFixed:2}}");
+  });
+
+  it("keeps filters in the badge text", () => {
+    const nodes = [{ id: "n1", data: { label: "Read Vault" } }];
+    expect(
+      getDisplayTextForTemplate("{{@n1:Read.balance | formatUnits:18}}", nodes)
+    ).toBe("Read Vault.balance | formatUnits:18");
+    expect(getDisplayTextForTemplate("{{@n1:Read | json}}", nodes)).toBe(
+      "Read Vault | json"
+    );
+  });
+});
+
+describe("template resolution with filters", () => {
+  const outputs: NodeOutputs = {
+    n1: {
+      label: "Check Balance",
+      data: { balance: "2500000000000000000", owner: ADDRESS },
+    },
+  };
+
+  it("applies filters in processTemplate", () => {
+    expect(
+      processTemplate(
+        "{{@n1:Check Balance.balance | formatUnits:18}} ETH",
+        outputs
+      )
+    ).toBe("2.5 ETH");
+    expect(
+      processTemplate('{{Check Balance.missing | default:"none"}}', outputs)
+    ).toBe("none");
+  });
+
+  it("applies filters in the executor resolvers", () => {
+    expect(
+      resolveTemplateToRawValue("n1", "Check Balance.owner | checksum", outputs)
+    ).toBe(CHECKSUMMED);
+    expect(
+      resolveDisplayTemplate("Check Balance.balance | formatUnits", outputs)
+    ).toBe("2.5");
+    expect(
+      extractTemplateParameters(
+        "SELECT 1 WHERE amount = {{@n1:Check Balance.balance | formatUnits:18}}",
+        outputs
+      ).paramValues
+    ).toEqual(["2.5"]);
+  });
+
+  it("applies filters in conditions", () => {
+    expect(
+      evaluateConditionExpression(
+        "{{@n1:Check Balance.balance | formatUnits:18}} > 2",
+        outputs
+      ).result
+    ).toBe(true);
+  });
+
+  it("falls back to default in conditions when the reference is missing", () => {
+    const withEmpty = { ...outputs, n2: { label: "Empty", data: null } };
+    expect(
+      evaluateConditionExpression(
+        '{{@missing:Gone.value | default:"0"}} === "0"',
+        withEmpty
+      ).result
+    ).toBe(true);
+    expect(
+      evaluateConditionExpression(
+        '{{@n2:Empty.value | default:"none"}} === "none"',
+        withEmpty
+      ).result
+    ).toBe(true);
+    expect(() =>
+      evaluateConditionExpression("{{@missing:Gone.value}} === 0", withEmpty)
+    ).toThrow("no output was found");
+  });
+});
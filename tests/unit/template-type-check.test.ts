@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import { checkTemplateReferences } from "@/keeperhub/lib/template-type-check";
+import type { WorkflowNode } from "@/lib/workflow-store";
+
+const TRANSFER_ABI = JSON.stringify([
+  {
+    type: "event",
+    name: "Transfer",
+    inputs: [
+      { name: "from", type: "address", indexed: true },
+      { name: "to", type: "address", indexed: true },
+      { name: "value", type: "uint256", indexed: false },
+    ],
+  },
+]);
+
+function createNode(
+  id: string,
+  label: string,
+  config: Record<string, unknown>,
+  type: "trigger" | "action" = "action"
+): WorkflowNode {
+  return { id, position: { x: 0, y: 0 }, data: { label, type, config } };
+}
+
+const trigger = createNode(
+  "trigger",
+  "Transfer",
+  { triggerType: "Event", contractABI: TRANSFER_ABI, eventName: "Transfer" },
+  "trigger"
+);
+const query = createNode("query", "Load Users", {
+  actionType: "Database Query",
+  dbSchema: JSON.stringify([
+    { name: "name", type: "string" },
+    { name: "balance", type: "number" },
+    { name: "tags", type: "array", itemType: "string" },
+    {
+      name: "wallets",
+      type: "array",
+      itemType: "object",
+      fields: [{ name: "address", type: "string" }],
+    },
+  ]),
+});
+
+function check(
+  config: Record<string, unknown>,
+  nodes: WorkflowNode[] = [trigger, query]
+) {
+  const step = createNode("step", "Step", config);
+  const edges = [
+    { source: "trigger", target: "query" },
+    { source: "query", target: "step" },
+  ];
+  return checkTemplateReferences([...nodes, step], edges);
+}
+
+describe("checkTemplateReferences", () => {
+  it("accepts references to known upstream fields", () => {
+    expect(
+      check({
+        actionType: "Condition",
+        condition:
+          "{{@trigger:Transfer.args.value}} > 1000 && {{@query:Load Users.wallets[0].address}} !== ''",
+        message:
+          "{{@trigger:Transfer.data.transactionHash}} {{@query:Load Users.rows[2]}} {{@query:Load Users.tags[0]}} {{@query:Load Users.error}}",
+      })
+    ).toEqual([]);
+  });
+
+  it("reports fields the node does not output", () => {
+    expect(check({ message: "{{@trigger:Transfer.args.amount}}" })).toEqual([
+      {
+        kind: "unknown-field",
+        nodeId: "step",
+        fieldKey: "message",
+        displayText: "Transfer.args.amount",
+        referencedNodeId: "trigger",
+        message:
+          'Transfer: "args" has no field "amount". Available fields: from, to, value',
+      },
+    ]);
+    expect(
+      check({ message: "{{@query:Load Users.name.first}}" })[0].message
+    ).toBe('Load Users: "name" is a string and has no field "first"');
+  });
+
+  it("reports nodes that do not run before the step", () => {
+    const later = createNode("later", "Notify", { actionType: "Delay" });
+    const [issue] = check({ message: "{{@later:Notify.waitedMs}}" }, [
+      trigger,
+      query,
+      later,
+    ]);
+    expect(issue).toMatchObject({
+      kind: "not-upstream",
+      message:
+        '"Notify" does not run before this step, so its output is not available',
+    });
+  });
+
+  it("reports indexes on values that are not arrays", () => {
+    const [issue] = check({ message: "{{@query:Load Users.balance[0]}}" });
+    expect(issue).toMatchObject({
+      kind: "not-array",
+      message:
+        'Load Users: "balance" is a number, not an array, so [0] cannot be read',
+    });
+  });
+
+  it("reports number-vs-string comparisons in conditions", () => {
+    const issues = check({
+      actionType: "Condition",
+      condition:
+        '{{@trigger:Transfer.blockNumber}} === "100" || {{@query:Load Users.balance}} > "abc" || {{@query:Load Users.name}} == 5',
+    });
+    expect(issues.map((issue) => issue.message)).toEqual([
+      '{{Transfer.blockNumber}} is a number and "100" is a string, so === is always false',
+      '{{Load Users.balance}} is a number and "abc" is a string that is not a number, so > is always false',
+    ]);
+    expect(issues[0]).toMatchObject({
+      kind: "type-mismatch",
+      fieldKey: "condition",
+      referencedNodeId: "trigger",
+    });
+  });
+
+  it("uses the type a filter produces", () => {
+    expect(
+      check({
+        actionType: "Condition",
+        condition:
+          '{{@trigger:Transfer.args.value | formatUnits:18}} === "1.0"',
+      })
+    ).toEqual([]);
+  });
+
+  it("skips nodes whose output is not known ahead of time", () => {
+    const http = createNode("query", "Fetch", { actionType: "HTTP Request" });
+    expect(
+      check({ message: "{{@query:Fetch.anything[3].goes}}" }, [trigger, http])
+    ).toEqual([]);
+  });
+});
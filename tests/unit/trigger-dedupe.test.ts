@@ -0,0 +1,250 @@
+import { describe, expect, it } from "vitest";
+import { checkDuplicateTrigger } from "@/keeperhub/lib/execution-dedupe";
+import { createTriggeredExecution } from "@/keeperhub/lib/execution-trigger";
+import {
+  DEFAULT_DEDUPE_WINDOW_SECONDS,
+  getDedupeHeader,
+  getDedupeWindowSeconds,
+  getTriggerDedupeKey,
+  IDEMPOTENCY_KEY_HEADER,
+  MAX_DEDUPE_KEY_LENGTH,
+  MAX_DEDUPE_WINDOW_SECONDS,
+  normalizeDedupeKey,
+} from "@/keeperhub/lib/trigger-dedupe";
+import type { WorkflowNode } from "@/lib/workflow-store";
+
+type Database = Parameters<typeof checkDuplicateTrigger>[0];
+
+/** Minimal stand-in for the drizzle select builder and raw queries */
+function createDatabase(rows: unknown[]) {
+  let queries = 0;
+  let locks = 0;
+  const database = {
+    execute: () => {
+      locks += 1;
+      return Promise.resolve([]);
+    },
+    select: () => ({
+      from: () => ({
+        where: () => ({
+          orderBy: () => ({
+            limit: () => {
+              queries += 1;
+              return Promise.resolve(rows);
+            },
+          }),
+        }),
+      }),
+    }),
+  };
+  return {
+    database: database as unknown as Database,
+    getQueries: () => queries,
+    getLocks: () => locks,
+  };
+}
+
+function createWorkflow(config: Record<string, unknown>) {
+  const trigger: WorkflowNode = {
+    id: "trigger",
+    position: { x: 0, y: 0 },
+    data: { label: "Trigger", type: "trigger", config },
+  };
+  return { id: "wf_1", nodes: [trigger] };
+}
+
+const TX_HASH =
+  "0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060";
+
+describe("getTriggerDedupeKey", () => {
+  it("keys events by transaction hash and log index", () => {
+    expect(
+      getTriggerDedupeKey("Event", { transactionHash: TX_HASH, logIndex: 3 })
+    ).toBe(`${TX_HASH}:3`);
+  });
+
+  it("reads serialized log fields", () => {
+    expect(
+      getTriggerDedupeKey("Event", {
+        transactionHash: TX_HASH,
+        logIndex: { value: "0", type: "uint256" },
+      })
+    ).toBe(`${TX_HASH}:0`);
+  });
+
+  it("keys blocks by number and schedules by trigger time", () => {
+    expect(getTriggerDedupeKey("Block", { blockNumber: 19_000_000 })).toBe(
+      "19000000"
+    );
+    expect(
+      getTriggerDedupeKey("Schedule", { triggerTime: "2026-01-01T09:00:00Z" })
+    ).toBe("2026-01-01T09:00:00Z");
+  });
+
+  it("has no key when the input lacks the fields", () => {
+    expect(getTriggerDedupeKey("Event", { transactionHash: TX_HASH })).toBe(
+      undefined
+    );
+    expect(getTriggerDedupeKey("Webhook", { body: {} })).toBe(undefined);
+    expect(getTriggerDedupeKey(undefined, {})).toBe(undefined);
+  });
+});
+
+describe("dedupe settings", () => {
+  it("defaults the window and caps it", () => {
+    expect(getDedupeWindowSeconds(undefined)).toBe(
+      DEFAULT_DEDUPE_WINDOW_SECONDS
+    );
+    expect(getDedupeWindowSeconds({ dedupeWindowSeconds: "" })).toBe(
+      DEFAULT_DEDUPE_WINDOW_SECONDS
+    );
+    expect(getDedupeWindowSeconds({ dedupeWindowSeconds: "600" })).toBe(600);
+    expect(getDedupeWindowSeconds({ dedupeWindowSeconds: "0" })).toBe(0);
+    expect(getDedupeWindowSeconds({ dedupeWindowSeconds: "1e12" })).toBe(
+      MAX_DEDUPE_WINDOW_SECONDS
+    );
+  });
+
+  it("reads the webhook header name", () => {
+    expect(getDedupeHeader({})).toBe(IDEMPOTENCY_KEY_HEADER);
+    expect(getDedupeHeader({ dedupeHeader: " X-Delivery-Id " })).toBe(
+      "X-Delivery-Id"
+    );
+  });
+
+  it("rejects empty and over-long keys", () => {
+    expect(normalizeDedupeKey("  ")).toBe(undefined);
+    expect(normalizeDedupeKey("a".repeat(MAX_DEDUPE_KEY_LENGTH + 1))).toBe(
+      undefined
+    );
+    expect(normalizeDedupeKey(" order-42 ")).toBe("order-42");
+  });
+});
+
+describe("checkDuplicateTrigger", () => {
+  it("returns the existing execution for a repeated key", async () => {
+    const { database, getLocks } = createDatabase([
+      { id: "exec_1", status: "success" },
+    ]);
+    const result = await checkDuplicateTrigger(
+      database,
+      createWorkflow({ triggerType: "Event" }),
+      { input: { transactionHash: TX_HASH, logIndex: 1 } }
+    );
+    expect(result).toEqual({
+      duplicate: true,
+      dedupeKey: `${TX_HASH}:1`,
+      execution: { id: "exec_1", status: "success" },
+    });
+    // The key is locked before the lookup, so concurrent deliveries of the
+    // same trigger are checked one after the other
+    expect(getLocks()).toBe(1);
+  });
+
+  it("prefers the key provided by the caller", async () => {
+    const { database } = createDatabase([]);
+    const result = await checkDuplicateTrigger(
+      database,
+      createWorkflow({ triggerType: "Event" }),
+      {
+        providedKey: "worker-key",
+        input: { transactionHash: TX_HASH, logIndex: 1 },
+      }
+    );
+    expect(result).toEqual({ duplicate: false, dedupeKey: "worker-key" });
+  });
+
+  it("does not derive a key without trigger input", async () => {
+    const { database, getQueries } = createDatabase([{ id: "exec_1" }]);
+    const result = await checkDuplicateTrigger(
+      database,
+      createWorkflow({ triggerType: "Block" }),
+      {}
+    );
+    expect(result).toEqual({ duplicate: false, dedupeKey: undefined });
+    expect(getQueries()).toBe(0);
+  });
+
+  it("skips the lookup when de-duplication is off", async () => {
+    const { database, getQueries, getLocks } = createDatabase([
+      { id: "exec_1" },
+    ]);
+    const result = await checkDuplicateTrigger(
+      database,
+      createWorkflow({ triggerType: "Block", dedupeWindowSeconds: "0" }),
+      { input: { blockNumber: 100 } }
+    );
+    expect(result).toEqual({ duplicate: false, dedupeKey: "100" });
+    expect(getQueries()).toBe(0);
+    expect(getLocks()).toBe(0);
+  });
+});
+
+describe("createTriggeredExecution", () => {
+  /** Transaction whose lookups find `rows` and whose inserts are recorded */
+  function createTransactionDatabase(rows: unknown[]) {
+    const { database: tx } = createDatabase(rows);
+    const inserted: Record<string, unknown>[] = [];
+    Object.assign(tx, {
+      insert: () => ({
+        values: (values: Record<string, unknown>) => ({
+          returning: () => {
+            inserted.push(values);
+            return Promise.resolve([{ id: "exec_new" }]);
+          },
+        }),
+      }),
+    });
+    const database = {
+      transaction: (run: (transaction: unknown) => Promise<unknown>) => run(tx),
+    } as unknown as Parameters<typeof createTriggeredExecution>[0];
+    return { database, inserted };
+  }
+
+  const workflow = {
+    ...createWorkflow({ triggerType: "Webhook" }),
+    concurrencyPolicy: null,
+  };
+
+  it("creates the execution with its key in the same transaction", async () => {
+    const { database, inserted } = createTransactionDatabase([]);
+    const result = await createTriggeredExecution(
+      database,
+      workflow,
+      { providedKey: "order-42" },
+      { userId: "user_1", status: "running", input: {} }
+    );
+    expect(result).toEqual({
+      created: true,
+      executionId: "exec_new",
+      cancelledExecutionIds: [],
+    });
+    expect(inserted).toEqual([
+      {
+        userId: "user_1",
+        status: "running",
+        input: {},
+        workflowId: "wf_1",
+        dedupeKey: "order-42",
+      },
+    ]);
+  });
+
+  it("does not create an execution for a repeated key", async () => {
+    const { database, inserted } = createTransactionDatabase([
+      { id: "exec_1", status: "running" },
+    ]);
+    const result = await createTriggeredExecution(
+      database,
+      workflow,
+      { providedKey: "order-42" },
+      { userId: "user_1", status: "running", input: {} }
+    );
+    expect(result).toEqual({
+      created: false,
+      duplicate: true,
+      execution: { id: "exec_1", status: "running" },
+    });
+    expect(inserted).toEqual([]);
+  });
+});
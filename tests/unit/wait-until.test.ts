@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  DEFAULT_MAX_WAIT_SECONDS,
+  DEFAULT_POLL_INTERVAL_SECONDS,
+  formatWaitUntilTimeoutError,
+  isPollableAction,
+  MAX_WAIT_SECONDS,
+  MIN_POLL_INTERVAL_SECONDS,
+  parseWaitUntilConfig,
+} from "@/keeperhub/lib/wait-until";
+
+describe("isPollableAction", () => {
+  it("accepts read actions only", () => {
+    expect(isPollableAction("web3/read-contract")).toBe(true);
+    expect(isPollableAction("web3/check-balance")).toBe(true);
+    expect(isPollableAction("HTTP Request")).toBe(true);
+    expect(isPollableAction("web3/write-contract")).toBe(false);
+    expect(isPollableAction(undefined)).toBe(false);
+  });
+});
+
+describe("parseWaitUntilConfig", () => {
+  it("requires a read node", () => {
+    expect(parseWaitUntilConfig({})).toEqual({
+      error: "Wait Until has no read step selected to repeat",
+    });
+    expect(parseWaitUntilConfig({ pollNodeId: "  " })).toEqual({
+      error: "Wait Until has no read step selected to repeat",
+    });
+  });
+
+  it("applies defaults", () => {
+    expect(parseWaitUntilConfig({ pollNodeId: "read-1" })).toEqual({
+      pollNodeId: "read-1",
+      intervalSeconds: DEFAULT_POLL_INTERVAL_SECONDS,
+      maxWaitSeconds: DEFAULT_MAX_WAIT_SECONDS,
+    });
+  });
+
+  it("parses string values from the editor", () => {
+    expect(
+      parseWaitUntilConfig({
+        pollNodeId: "read-1",
+        pollIntervalSeconds: "30",
+        maxWaitSeconds: "600",
+      })
+    ).toEqual({
+      pollNodeId: "read-1",
+      intervalSeconds: 30,
+      maxWaitSeconds: 600,
+    });
+  });
+
+  it("clamps to the allowed bounds", () => {
+    expect(
+      parseWaitUntilConfig({
+        pollNodeId: "read-1",
+        pollIntervalSeconds: "1",
+        maxWaitSeconds: String(MAX_WAIT_SECONDS * 2),
+      })
+    ).toEqual({
+      pollNodeId: "read-1",
+      intervalSeconds: MIN_POLL_INTERVAL_SECONDS,
+      maxWaitSeconds: MAX_WAIT_SECONDS,
+    });
+  });
+
+  it("never polls less often than the max wait", () => {
+    expect(
+      parseWaitUntilConfig({
+        pollNodeId: "read-1",
+        pollIntervalSeconds: "120",
+        maxWaitSeconds: "60",
+      })
+    ).toEqual({
+      pollNodeId: "read-1",
+      intervalSeconds: 60,
+      maxWaitSeconds: 60,
+    });
+  });
+});
+
+describe("formatWaitUntilTimeoutError", () => {
+  it("mentions the wait and number of reads", () => {
+    expect(formatWaitUntilTimeoutError(600, 11)).toBe(
+      "Condition not met after waiting 600s (11 reads)"
+    );
+  });
+});
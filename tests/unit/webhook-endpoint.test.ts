@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildWebhookPathUrl,
+  buildWebhookTriggerInput,
+  formatWebhookMethods,
+  getWebhookAllowedHeaders,
+  getWebhookMethods,
+  getWebhookPayload,
+  isWebhookMethodAllowed,
+  MAX_WEBHOOK_PATH_LENGTH,
+  normalizeWebhookPath,
+} from "@/keeperhub/lib/webhook-endpoint";
+
+describe("getWebhookAllowedHeaders", () => {
+  it("allows the trigger's idempotency header", () => {
+    expect(getWebhookAllowedHeaders({ dedupeHeader: "X-Delivery-Id" })).toEqual(
+      ["Content-Type", "Authorization", "X-Delivery-Id"]
+    );
+  });
+
+  it("adds the signature and timestamp headers of signed triggers", () => {
+    expect(
+      getWebhookAllowedHeaders({
+        webhookAuth: "hmac",
+        webhookSignatureHeader: "X-Hub-Signature-256",
+        webhookTimestampHeader: "X-Timestamp",
+      })
+    ).toEqual([
+      "Content-Type",
+      "Authorization",
+      "Idempotency-Key",
+      "X-Hub-Signature-256",
+      "X-Timestamp",
+    ]);
+  });
+});
+
+describe("getWebhookMethods", () => {
+  it("defaults to POST", () => {
+    expect(getWebhookMethods(undefined)).toEqual(["POST"]);
+    expect(getWebhookMethods({ webhookMethods: "" })).toEqual(["POST"]);
+    expect(getWebhookMethods({ webhookMethods: "DELETE" })).toEqual(["POST"]);
+  });
+
+  it("reads the configured methods in a fixed order", () => {
+    expect(getWebhookMethods({ webhookMethods: " put, get " })).toEqual([
+      "GET",
+      "PUT",
+    ]);
+    expect(formatWebhookMethods(["PUT", "POST"])).toBe("POST,PUT");
+  });
+
+  it("checks a request method against the config", () => {
+    const config = { webhookMethods: "GET" };
+    expect(isWebhookMethodAllowed(config, "GET")).toBe(true);
+    expect(isWebhookMethodAllowed(config, "POST")).toBe(false);
+    expect(isWebhookMethodAllowed({}, "POST")).toBe(true);
+  });
+});
+
+describe("normalizeWebhookPath", () => {
+  it("lowercases and trims slashes", () => {
+    expect(normalizeWebhookPath(" /Alerts/Uptime_1/ ")).toEqual({
+      path: "alerts/uptime_1",
+    });
+  });
+
+  it("treats an empty path as unset", () => {
+    expect(normalizeWebhookPath(undefined)).toEqual({ path: null });
+    expect(normalizeWebhookPath(" / ")).toEqual({ path: null });
+  });
+
+  it("rejects invalid segments and long paths", () => {
+    expect(normalizeWebhookPath("alerts//uptime")).toHaveProperty("error");
+    expect(normalizeWebhookPath("-alerts")).toHaveProperty("error");
+    expect(normalizeWebhookPath("alerts/up time")).toHaveProperty("error");
+    expect(normalizeWebhookPath("../admin")).toHaveProperty("error");
+    expect(
+      normalizeWebhookPath("a".repeat(MAX_WEBHOOK_PATH_LENGTH + 1))
+    ).toEqual({
+      error: `Webhook path must be at most ${MAX_WEBHOOK_PATH_LENGTH} characters`,
+    });
+  });
+
+  it("builds the vanity URL", () => {
+    expect(
+      buildWebhookPathUrl("https://app.example.com", "acme", "alerts/uptime")
+    ).toBe("https://app.example.com/hooks/acme/alerts/uptime");
+  });
+});
+
+describe("buildWebhookTriggerInput", () => {
+  const headers = new Headers({
+    Authorization: "Bearer wfb_secret",
+    Cookie: "session=1",
+    "Content-Type": "application/json",
+    "X-Source": "monitor",
+  });
+
+  it("exposes the request alongside the body's own fields", () => {
+    const input = buildWebhookTriggerInput({
+      method: "POST",
+      body: { amount: 5, method: "transfer" },
+      searchParams: new URLSearchParams("tag=a&tag=b&env=prod"),
+      headers,
+    });
+    expect(input).toEqual({
+      body: { amount: 5, method: "transfer" },
+      query: { tag: ["a", "b"], env: "prod" },
+      headers: { "content-type": "application/json", "x-source": "monitor" },
+      method: "transfer",
+      amount: 5,
+    });
+  });
+
+  it("uses the query parameters of a GET request as its body", () => {
+    const request = {
+      method: "GET",
+      body: {},
+      searchParams: new URLSearchParams("status=down"),
+      headers,
+    };
+    expect(getWebhookPayload(request)).toEqual({ status: "down" });
+    expect(buildWebhookTriggerInput(request)).toMatchObject({
+      body: { status: "down" },
+      status: "down",
+      method: "GET",
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildPendingResponse,
+  buildWebhookResponse,
+  DEFAULT_RESPONSE_MAX_WAIT_SECONDS,
+  getWebhookResponseSettings,
+  MAX_RESPONSE_MAX_WAIT_SECONDS,
+  parseResponseHeaders,
+  type WebhookResponseSettings,
+} from "@/keeperhub/lib/webhook-response";
+
+const SETTINGS: WebhookResponseSettings = {
+  status: 200,
+  headers: {},
+  maxWaitSeconds: 30,
+};
+
+const RUN = {
+  success: true,
+  results: {
+    trigger: { success: true, data: { amount: 5 } },
+    quote: {
+      success: true,
+      data: { success: true, result: { price: BigInt(42), symbol: "ETH" } },
+    },
+    format: { success: true, data: "42 ETH" },
+  },
+};
+
+describe("getWebhookResponseSettings", () => {
+  it("returns null unless the trigger responds synchronously", () => {
+    expect(getWebhookResponseSettings(undefined)).toBeNull();
+    expect(getWebhookResponseSettings({ webhookResponseMode: "async" })).toBe(
+      null
+    );
+  });
+
+  it("uses defaults for empty fields", () => {
+    expect(getWebhookResponseSettings({ webhookResponseMode: "sync" })).toEqual(
+      {
+        nodeId: undefined,
+        field: undefined,
+        status: 200,
+        headers: {},
+        maxWaitSeconds: DEFAULT_RESPONSE_MAX_WAIT_SECONDS,
+      }
+    );
+  });
+
+  it("reads and bounds configured values", () => {
+    expect(
+      getWebhookResponseSettings({
+        webhookResponseMode: "sync",
+        webhookResponseNodeId: "quote",
+        webhookResponseField: " result ",
+        webhookResponseStatus: "201",
+        webhookResponseHeaders: '{"Cache-Control":"no-store"}',
+        webhookResponseMaxWait: "100000",
+      })
+    ).toEqual({
+      nodeId: "quote",
+      field: "result",
+      status: 201,
+      headers: { "Cache-Control": "no-store" },
+      maxWaitSeconds: MAX_RESPONSE_MAX_WAIT_SECONDS,
+    });
+    expect(
+      getWebhookResponseSettings({
+        webhookResponseMode: "sync",
+        webhookResponseStatus: "99",
+      })?.status
+    ).toBe(200);
+  });
+});
+
+describe("parseResponseHeaders", () => {
+  it("rejects anything but an object of strings", () => {
+    expect(parseResponseHeaders("{")).toEqual({
+      error: "Response headers must be valid JSON",
+    });
+    expect(parseResponseHeaders("[]")).toEqual({
+      error: "Response headers must be a JSON object",
+    });
+    expect(parseResponseHeaders('{"X-Count":1}')).toEqual({
+      error: 'Response header "X-Count" must be a string',
+    });
+    expect(parseResponseHeaders("")).toEqual({ headers: {} });
+  });
+});
+
+describe("buildWebhookResponse", () => {
+  it("responds with the chosen node's output field as JSON", () => {
+    expect(
+      buildWebhookResponse(
+        { ...SETTINGS, nodeId: "quote", field: "result", status: 201 },
+        "exec_1",
+        RUN
+      )
+    ).toEqual({
+      status: 201,
+      headers: { "Content-Type": "application/json" },
+      body: '{"price":"42","symbol":"ETH"}',
+    });
+  });
+
+  it("defaults to the last step's output and sends strings as text", () => {
+    expect(buildWebhookResponse(SETTINGS, "exec_1", RUN)).toEqual({
+      status: 200,
+      headers: { "Content-Type": "text/plain; charset=utf-8" },
+      body: "42 ETH",
+    });
+  });
+
+  it("keeps a configured content type", () => {
+    const response = buildWebhookResponse(
+      { ...SETTINGS, headers: { "content-type": "text/csv" } },
+      "exec_1",
+      RUN
+    );
+    expect(response.headers).toEqual({ "content-type": "text/csv" });
+  });
+
+  it("reports how the run ended and its error", () => {
+    const response = buildWebhookResponse(SETTINGS, "exec_1", {
+      success: false,
+      results: { quote: { success: true, data: "42 ETH" } },
+      status: "timeout",
+      error: "Workflow timed out after 60 seconds",
+    });
+    expect(response.status).toBe(500);
+    expect(JSON.parse(response.body)).toEqual({
+      executionId: "exec_1",
+      status: "timeout",
+      error: "Workflow timed out after 60 seconds",
+    });
+  });
+
+  it("responds 500 with the error of a failed run", () => {
+    const response = buildWebhookResponse(SETTINGS, "exec_1", {
+      success: false,
+      results: {
+        handled: { success: false, error: "recovered", recovered: true },
+        quote: { success: false, error: "execution reverted" },
+      },
+    });
+    expect(response.status).toBe(500);
+    expect(JSON.parse(response.body)).toEqual({
+      executionId: "exec_1",
+      status: "error",
+      error: "execution reverted",
+    });
+  });
+
+  it("responds 500 when the response node did not run", () => {
+    const response = buildWebhookResponse(
+      { ...SETTINGS, nodeId: "skipped" },
+      "exec_1",
+      RUN
+    );
+    expect(response.status).toBe(500);
+    expect(JSON.parse(response.body).error).toBe(
+      "The response step did not run"
+    );
+  });
+});
+
+describe("buildPendingResponse", () => {
+  it("responds 202 with the execution id", () => {
+    const response = buildPendingResponse("exec_1");
+    expect(response.status).toBe(202);
+    expect(JSON.parse(response.body)).toEqual({
+      executionId: "exec_1",
+      status: "running",
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { createHmac } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import {
+  generateWebhookSecret,
+  getSignedContent,
+  verifyWebhookSignature,
+  WEBHOOK_SECRET_PREFIX,
+} from "@/keeperhub/lib/webhook-hmac";
+import {
+  DEFAULT_SIGNATURE_HEADER,
+  DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+  getWebhookAuthMode,
+  getWebhookSignatureSettings,
+  MAX_SIGNATURE_TOLERANCE_SECONDS,
+} from "@/keeperhub/lib/webhook-signature";
+
+const SECRET = "whsec_test";
+const BODY = '{"event":"transfer"}';
+const NOW = Date.UTC(2026, 0, 1);
+const NOW_SECONDS = NOW / 1000;
+
+function sign(
+  payload: string,
+  secret = SECRET,
+  algorithm = "sha256",
+  encoding: "hex" | "base64" = "hex"
+): string {
+  return createHmac(algorithm, secret).update(payload).digest(encoding);
+}
+
+function verify(
+  headers: Record<string, string>,
+  config: Record<string, unknown> = {},
+  secrets = [SECRET]
+) {
+  return verifyWebhookSignature({
+    rawBody: BODY,
+    headers: new Headers(headers),
+    settings: getWebhookSignatureSettings(config),
+    secrets,
+    now: NOW,
+  });
+}
+
+describe("getWebhookSignatureSettings", () => {
+  it("uses defaults for empty fields", () => {
+    expect(getWebhookSignatureSettings({})).toEqual({
+      header: DEFAULT_SIGNATURE_HEADER,
+      algorithm: "sha256",
+      timestampHeader: undefined,
+      toleranceSeconds: DEFAULT_SIGNATURE_TOLERANCE_SECONDS,
+    });
+  });
+
+  it("reads configured values and caps the tolerance", () => {
+    expect(
+      getWebhookSignatureSettings({
+        webhookSignatureHeader: " X-Hub-Signature-256 ",
+        webhookSignatureAlgorithm: "sha512",
+        webhookTimestampHeader: "X-Timestamp",
+        webhookSignatureTolerance: "999999",
+      })
+    ).toEqual({
+      header: "X-Hub-Signature-256",
+      algorithm: "sha512",
+      timestampHeader: "X-Timestamp",
+      toleranceSeconds: MAX_SIGNATURE_TOLERANCE_SECONDS,
+    });
+  });
+
+  it("falls back to sha256 for unknown algorithms", () => {
+    expect(
+      getWebhookSignatureSettings({ webhookSignatureAlgorithm: "md5" })
+        .algorithm
+    ).toBe("sha256");
+  });
+});
+
+describe("getWebhookAuthMode", () => {
+  it("defaults to API keys", () => {
+    expect(getWebhookAuthMode(undefined)).toBe("apiKey");
+    expect(getWebhookAuthMode({ webhookAuth: "other" })).toBe("apiKey");
+    expect(getWebhookAuthMode({ webhookAuth: "hmac" })).toBe("hmac");
+  });
+});
+
+describe("verifyWebhookSignature", () => {
+  it("accepts a hex signature of the body", () => {
+    expect(verify({ "X-Signature": sign(BODY) })).toEqual({ valid: true });
+  });
+
+  it("accepts a base64 signature", () => {
+    expect(
+      verify({ "X-Signature": sign(BODY, SECRET, "sha256", "base64") })
+    ).toEqual({ valid: true });
+  });
+
+  it("accepts GitHub-style prefixed signatures", () => {
+    expect(
+      verify(
+        { "X-Hub-Signature-256": `sha256=${sign(BODY)}` },
+        { webhookSignatureHeader: "X-Hub-Signature-256" }
+      )
+    ).toEqual({ valid: true });
+  });
+
+  it("uses the configured algorithm", () => {
+    expect(
+      verify(
+        { "X-Signature": sign(BODY, SECRET, "sha1") },
+        { webhookSignatureAlgorithm: "sha1" }
+      )
+    ).toEqual({ valid: true });
+    expect(verify({ "X-Signature": sign(BODY, SECRET, "sha1") })).toEqual({
+      valid: false,
+      error: "Invalid webhook signature",
+    });
+  });
+
+  it("rejects a missing header and a wrong secret", () => {
+    expect(verify({})).toEqual({
+      valid: false,
+      error: "Missing X-Signature header",
+    });
+    expect(verify({ "X-Signature": sign(BODY, "whsec_other") })).toEqual({
+      valid: false,
+      error: "Invalid webhook signature",
+    });
+  });
+
+  it("accepts the previous secret during a rotation", () => {
+    expect(
+      verify({ "X-Signature": sign(BODY, "whsec_old") }, {}, [
+        SECRET,
+        "whsec_old",
+      ])
+    ).toEqual({ valid: true });
+  });
+
+  it("signs timestamp and body when a timestamp header is set", () => {
+    const config = { webhookTimestampHeader: "X-Timestamp" };
+    const timestamp = String(NOW_SECONDS - 10);
+
+    expect(
+      verify(
+        {
+          "X-Signature": sign(`${timestamp}.${BODY}`),
+          "X-Timestamp": timestamp,
+        },
+        config
+      )
+    ).toEqual({ valid: true });
+    expect(
+      verify({ "X-Signature": sign(`${timestamp}.${BODY}`) }, config)
+    ).toEqual({ valid: false, error: "Missing X-Timestamp header" });
+  });
+
+  it("rejects timestamps outside the tolerance", () => {
+    const timestamp = String(NOW_SECONDS - 301);
+    expect(
+      verify(
+        {
+          "X-Signature": sign(`${timestamp}.${BODY}`),
+          "X-Timestamp": timestamp,
+        },
+        { webhookTimestampHeader: "X-Timestamp" }
+      )
+    ).toEqual({
+      valid: false,
+      error:
+        "Webhook timestamp is outside the allowed tolerance of 300 seconds",
+    });
+  });
+
+  it("accepts millisecond and ISO timestamps", () => {
+    const config = { webhookTimestampHeader: "X-Timestamp" };
+    for (const timestamp of [String(NOW), new Date(NOW).toISOString()]) {
+      expect(
+        verify(
+          {
+            "X-Signature": sign(`${timestamp}.${BODY}`),
+            "X-Timestamp": timestamp,
+          },
+          config
+        )
+      ).toEqual({ valid: true });
+    }
+    expect(
+      verify({ "X-Signature": sign(BODY), "X-Timestamp": "soon" }, config)
+    ).toEqual({ valid: false, error: "Invalid webhook timestamp" });
+  });
+
+  it("reads the timestamp from Stripe-style signatures", () => {
+    const timestamp = String(NOW_SECONDS);
+    const header = `t=${timestamp},v1=${sign("wrong")},v1=${sign(`${timestamp}.${BODY}`)}`;
+    expect(verify({ "X-Signature": header })).toEqual({ valid: true });
+
+    const stale = String(NOW_SECONDS - 3600);
+    expect(
+      verify({ "X-Signature": `t=${stale},v1=${sign(`${stale}.${BODY}`)}` })
+    ).toEqual({
+      valid: false,
+      error:
+        "Webhook timestamp is outside the allowed tolerance of 300 seconds",
+    });
+  });
+});
+
+describe("verifyWebhookSignature for GET requests", () => {
+  const SEARCH = "?amount=1&to=0xabc";
+
+  function verifyGet(search: string, signature: string) {
+    return verifyWebhookSignature({
+      rawBody: "",
+      method: "GET",
+      search,
+      headers: new Headers({ [DEFAULT_SIGNATURE_HEADER]: signature }),
+      settings: getWebhookSignatureSettings({}),
+      secrets: [SECRET],
+      now: NOW,
+    });
+  }
+
+  it("signs the method and query string", () => {
+    expect(
+      getSignedContent({ method: "GET", rawBody: "", search: SEARCH })
+    ).toBe(`GET ${SEARCH}`);
+    expect(verifyGet(SEARCH, sign(`GET ${SEARCH}`))).toEqual({ valid: true });
+  });
+
+  it("rejects a tampered query string", () => {
+    expect(verifyGet("?amount=1000&to=0xabc", sign(`GET ${SEARCH}`))).toEqual({
+      valid: false,
+      error: "Invalid webhook signature",
+    });
+  });
+
+  it("rejects a signature of the empty body", () => {
+    expect(verifyGet(SEARCH, sign(""))).toEqual({
+      valid: false,
+      error: "Invalid webhook signature",
+    });
+  });
+});
+
+describe("generateWebhookSecret", () => {
+  it("generates distinct prefixed secrets", () => {
+    const first = generateWebhookSecret();
+    expect(first.startsWith(WEBHOOK_SECRET_PREFIX)).toBe(true);
+    expect(first).toHaveLength(WEBHOOK_SECRET_PREFIX.length + 64);
+    expect(generateWebhookSecret()).not.toBe(first);
+  });
+});
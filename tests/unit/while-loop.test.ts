@@ -0,0 +1,157 @@
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("server-only", () => ({}));
+
+import { checkTemplateReferences } from "@/keeperhub/lib/template-type-check";
+import {
+  DEFAULT_WHILE_MAX_ITERATIONS,
+  formatWhileLimitError,
+  isLoopAction,
+  MAX_WHILE_ITERATIONS,
+  parseWhileMaxIterations,
+  parseWhileState,
+} from "@/keeperhub/lib/while-loop";
+import { identifyLoopBody } from "@/lib/workflow-executor.workflow";
+import type { WorkflowNode } from "@/lib/workflow-store";
+
+const INVALID_JSON_REGEX = /^Initial state is not valid JSON: /;
+
+function makeActionNode(
+  id: string,
+  actionType: string,
+  config: Record<string, unknown> = {}
+): WorkflowNode {
+  return {
+    id,
+    type: "action",
+    position: { x: 0, y: 0 },
+    data: {
+      label: actionType,
+      type: "action",
+      config: { actionType, ...config },
+    },
+  };
+}
+
+function buildEdgeMap(edges: [string, string][]): Map<string, string[]> {
+  const map = new Map<string, string[]>();
+  for (const [source, target] of edges) {
+    const targets = map.get(source) ?? [];
+    targets.push(target);
+    map.set(source, targets);
+  }
+  return map;
+}
+
+describe("parseWhileState", () => {
+  it("parses a resolved JSON object", () => {
+    expect(
+      parseWhileState('{"page": 2, "hasMore": true}', "Next state")
+    ).toEqual({ state: { page: 2, hasMore: true } });
+  });
+
+  it("treats an empty mapping as an empty state", () => {
+    expect(parseWhileState("", "Initial state")).toEqual({ state: {} });
+    expect(parseWhileState(undefined, "Initial state")).toEqual({ state: {} });
+  });
+
+  it("rejects arrays, scalars and invalid JSON", () => {
+    expect(parseWhileState("[1, 2]", "Next state")).toEqual({
+      error: "Next state must be a JSON object",
+    });
+    expect(parseWhileState("3", "Next state")).toEqual({
+      error: "Next state must be a JSON object",
+    });
+    const invalid = parseWhileState('{"page": }', "Initial state");
+    expect("error" in invalid && invalid.error).toMatch(INVALID_JSON_REGEX);
+  });
+});
+
+describe("parseWhileMaxIterations", () => {
+  it("defaults when empty or not a number", () => {
+    expect(parseWhileMaxIterations(undefined)).toBe(
+      DEFAULT_WHILE_MAX_ITERATIONS
+    );
+    expect(parseWhileMaxIterations("")).toBe(DEFAULT_WHILE_MAX_ITERATIONS);
+    expect(parseWhileMaxIterations("many")).toBe(DEFAULT_WHILE_MAX_ITERATIONS);
+  });
+
+  it("clamps to 1 and the hard cap", () => {
+    expect(parseWhileMaxIterations("25")).toBe(25);
+    expect(parseWhileMaxIterations("0")).toBe(1);
+    expect(parseWhileMaxIterations("100000")).toBe(MAX_WHILE_ITERATIONS);
+  });
+
+  it("names the limit in the error", () => {
+    expect(formatWhileLimitError(10)).toBe(
+      "While condition still held after 10 iterations (max iterations)"
+    );
+  });
+});
+
+describe("isLoopAction", () => {
+  it("covers For Each and While only", () => {
+    expect(isLoopAction("For Each")).toBe(true);
+    expect(isLoopAction("While")).toBe(true);
+    expect(isLoopAction("Wait Until")).toBe(false);
+    expect(isLoopAction(undefined)).toBe(false);
+  });
+});
+
+describe("identifyLoopBody with While", () => {
+  it("finds the body between a While and its Collect", () => {
+    const nodes = [
+      makeActionNode("while-1", "While"),
+      makeActionNode("http-1", "HTTP Request"),
+      makeActionNode("collect-1", "Collect"),
+      makeActionNode("after-1", "HTTP Request"),
+    ];
+    const result = identifyLoopBody(
+      "while-1",
+      buildEdgeMap([
+        ["while-1", "http-1"],
+        ["http-1", "collect-1"],
+        ["collect-1", "after-1"],
+      ]),
+      new Map(nodes.map((node) => [node.id, node]))
+    );
+    expect(result.bodyNodeIds).toEqual(["http-1"]);
+    expect(result.collectNodeId).toBe("collect-1");
+  });
+
+  it("skips past the Collect of a While nested in a For Each", () => {
+    const nodes = [
+      makeActionNode("fe-1", "For Each"),
+      makeActionNode("while-1", "While"),
+      makeActionNode("http-1", "HTTP Request"),
+      makeActionNode("inner-collect", "Collect"),
+      makeActionNode("outer-collect", "Collect"),
+    ];
+    const result = identifyLoopBody(
+      "fe-1",
+      buildEdgeMap([
+        ["fe-1", "while-1"],
+        ["while-1", "http-1"],
+        ["http-1", "inner-collect"],
+        ["inner-collect", "outer-collect"],
+      ]),
+      new Map(nodes.map((node) => [node.id, node]))
+    );
+    expect(result.bodyNodeIds).toEqual(["while-1", "http-1", "inner-collect"]);
+    expect(result.collectNodeId).toBe("outer-collect");
+  });
+});
+
+describe("checkTemplateReferences with While", () => {
+  it("allows a While to reference itself and its loop body", () => {
+    const whileNode = makeActionNode("while-1", "While", {
+      condition: "{{@while-1:While.state.hasMore}} === true",
+      nextState: '{"hasMore": {{@http-1:HTTP Request.data.hasMore}}}',
+    });
+    const nodes = [whileNode, makeActionNode("http-1", "HTTP Request")];
+    const issues = checkTemplateReferences(nodes, [
+      { source: "while-1", target: "http-1" },
+    ]);
+    expect(issues).toEqual([]);
+  });
+});
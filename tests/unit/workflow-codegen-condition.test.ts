@@ -209,6 +209,55 @@ describe("workflow-codegen condition validation", () => {
         CONDITION_NOT_CONFIGURED_REGEX
       );
     });
+
+    it("should place nodes in the branch named by their source handle", () => {
+      const trueAction = createActionNode("action-true");
+      trueAction.data.label = "Notify Healthy";
+      const falseAction = createActionNode("action-false");
+      falseAction.data.label = "Notify Unhealthy";
+
+      const nodes: WorkflowNode[] = [
+        createTriggerNode("trigger-1"),
+        createConditionNode("condition-1", "1 > 0"),
+        trueAction,
+        falseAction,
+      ];
+
+      // false edge listed first: branch placement must follow the handle
+      const edges: WorkflowEdge[] = [
+        createEdge("trigger-1", "condition-1"),
+        createEdge("condition-1", "action-false", "false"),
+        createEdge("condition-1", "action-true", "true"),
+      ];
+
+      const { code, validationErrors } = generateWorkflowCode(nodes, edges);
+      expect(validationErrors).toBeUndefined();
+
+      const ifIndex = code.indexOf("if (1 > 0) {");
+      const elseIndex = code.indexOf("} else {");
+      expect(ifIndex).toBeGreaterThan(-1);
+      expect(elseIndex).toBeGreaterThan(ifIndex);
+      expect(code.indexOf("Notify Healthy")).toBeGreaterThan(ifIndex);
+      expect(code.indexOf("Notify Healthy")).toBeLessThan(elseIndex);
+      expect(code.indexOf("Notify Unhealthy")).toBeGreaterThan(elseIndex);
+    });
+
+    it("should omit the else block when only the true branch is connected", () => {
+      const nodes: WorkflowNode[] = [
+        createTriggerNode("trigger-1"),
+        createConditionNode("condition-1", "1 > 0"),
+        createActionNode("action-1"),
+      ];
+
+      const edges: WorkflowEdge[] = [
+        createEdge("trigger-1", "condition-1"),
+        createEdge("condition-1", "action-1"),
+      ];
+
+      const { code } = generateWorkflowCode(nodes, edges);
+      expect(code).toContain("if (1 > 0) {");
+      expect(code).not.toContain("} else {");
+    });
   });
 
   describe("nested conditions", () => {
@@ -0,0 +1,154 @@
+/**
+ * Unit tests for the workflow execute API route
+ *
+ * Tests that dry runs mark their execution record, with mocked auth and db
+ */
+
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const {
+  mockWorkflowFindFirst,
+  mockExecutionFindFirst,
+  mockInsertValues,
+  mockUpdateSet,
+  mockCreateTriggeredExecution,
+} = vi.hoisted(() => ({
+  mockWorkflowFindFirst: vi.fn(),
+  mockExecutionFindFirst: vi.fn(),
+  mockInsertValues: vi.fn(),
+  mockUpdateSet: vi.fn(),
+  mockCreateTriggeredExecution: vi.fn(),
+}));
+
+vi.mock("workflow/api", () => ({
+  start: vi.fn().mockResolvedValue({ runId: "run_1" }),
+}));
+
+vi.mock("@/lib/workflow-executor.workflow", () => ({
+  executeWorkflow: vi.fn(),
+}));
+
+vi.mock("@/lib/auth", () => ({
+  auth: { api: { getSession: vi.fn() } },
+}));
+
+vi.mock("@/keeperhub/lib/internal-service-auth", () => ({
+  authenticateInternalService: vi
+    .fn()
+    .mockReturnValue({ authenticated: true, service: "scheduler" }),
+}));
+
+vi.mock("@/keeperhub/lib/api-key-auth", () => ({
+  authenticateApiKey: vi.fn(),
+}));
+
+vi.mock("@/keeperhub/lib/middleware/org-context", () => ({
+  getOrgContext: vi.fn(),
+}));
+
+vi.mock("@/keeperhub/lib/metrics", () => ({
+  getMetricsCollector: () => ({ incrementCounter: vi.fn() }),
+  LabelKeys: { TRIGGER_TYPE: "trigger_type", WORKFLOW_ID: "workflow_id" },
+  MetricNames: { WORKFLOW_EXECUTIONS_TOTAL: "workflow_executions_total" },
+}));
+
+vi.mock("@/keeperhub/lib/execution-trigger", () => ({
+  createTriggeredExecution: mockCreateTriggeredExecution,
+}));
+
+vi.mock("@/lib/db/integrations", () => ({
+  validateWorkflowIntegrations: vi.fn().mockResolvedValue({ valid: true }),
+}));
+
+vi.mock("@/lib/db", () => ({
+  db: {
+    query: {
+      workflows: { findFirst: mockWorkflowFindFirst },
+      workflowExecutions: { findFirst: mockExecutionFindFirst },
+    },
+    insert: () => ({ values: mockInsertValues }),
+    update: () => ({ set: mockUpdateSet }),
+  },
+}));
+
+import { POST } from "@/app/api/workflow/[workflowId]/execute/route";
+
+const WORKFLOW = {
+  id: "wf_1",
+  userId: "user_1",
+  organizationId: "org_1",
+  isAnonymous: false,
+  nodes: [],
+  edges: [],
+  variables: [],
+  concurrencyPolicy: null,
+};
+
+function execute(body: Record<string, unknown>) {
+  return POST(
+    new Request("http://localhost:3000/api/workflow/wf_1/execute", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+    { params: Promise.resolve({ workflowId: "wf_1" }) }
+  );
+}
+
+describe("POST /api/workflow/[workflowId]/execute dry runs", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockWorkflowFindFirst.mockResolvedValue(WORKFLOW);
+    mockInsertValues.mockReturnValue({
+      returning: vi.fn().mockResolvedValue([{ id: "exec_new" }]),
+    });
+    mockUpdateSet.mockReturnValue({
+      where: vi.fn().mockResolvedValue(undefined),
+    });
+  });
+
+  it("creates the execution record with dryRun set", async () => {
+    const response = await execute({ dryRun: true });
+
+    expect(await response.json()).toEqual({
+      executionId: "exec_new",
+      status: "running",
+      dryRun: true,
+    });
+    expect(mockCreateTriggeredExecution).not.toHaveBeenCalled();
+    expect(mockInsertValues).toHaveBeenCalledWith(
+      expect.objectContaining({ dryRun: true })
+    );
+  });
+
+  it("marks a record created by the caller as a dry run", async () => {
+    mockExecutionFindFirst.mockResolvedValue({
+      id: "exec_1",
+      status: "running",
+      dryRun: false,
+    });
+
+    const response = await execute({ dryRun: true, executionId: "exec_1" });
+
+    expect(response.status).toBe(200);
+    expect(mockUpdateSet).toHaveBeenCalledWith({ dryRun: true });
+  });
+
+  it("passes dryRun to triggered executions of real runs", async () => {
+    mockExecutionFindFirst.mockResolvedValue(undefined);
+    mockCreateTriggeredExecution.mockResolvedValue({
+      created: true,
+      executionId: "exec_2",
+      cancelledExecutionIds: [],
+    });
+
+    await execute({});
+
+    expect(mockCreateTriggeredExecution).toHaveBeenCalledWith(
+      expect.anything(),
+      WORKFLOW,
+      expect.anything(),
+      expect.objectContaining({ dryRun: false })
+    );
+  });
+});
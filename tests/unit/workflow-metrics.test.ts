@@ -81,6 +81,25 @@ describe("Workflow Metrics Instrumentation", () => {
       );
     });
 
+    it("should record cancelled workflow without an error", () => {
+      recordWorkflowComplete({
+        workflowId: "wf_123",
+        durationMs: 800,
+        success: false,
+        cancelled: true,
+        error: "Execution cancelled",
+      });
+
+      expect(mockCollector.recordLatency).toHaveBeenCalledWith(
+        MetricNames.WORKFLOW_EXECUTION_DURATION,
+        800,
+        expect.objectContaining({
+          status: "cancelled",
+        })
+      );
+      expect(mockCollector.recordError).not.toHaveBeenCalled();
+    });
+
     it("should record failed workflow with Error object", () => {
       const error = new Error("Connection refused");
 
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  createSuspendedResult,
+  enableRunSuspension,
+  isSuspendedResult,
+  MAX_IN_PROCESS_WAIT_MS,
+  shouldSuspendUntil,
+} from "@/keeperhub/lib/workflow-sleep";
+
+describe("shouldSuspendUntil", () => {
+  it("only suspends long waits once the runner enables it", () => {
+    const later = new Date(Date.now() + MAX_IN_PROCESS_WAIT_MS * 2);
+    expect(shouldSuspendUntil(later)).toBe(false);
+
+    enableRunSuspension();
+    expect(shouldSuspendUntil(later)).toBe(true);
+    expect(shouldSuspendUntil(new Date(Date.now() + 1000))).toBe(false);
+  });
+});
+
+describe("createSuspendedResult", () => {
+  it("is a failed result that carries the resume time", () => {
+    const resumeAt = new Date("2026-01-01T00:00:00Z");
+    const result = createSuspendedResult(resumeAt);
+
+    expect(result).toMatchObject({
+      success: false,
+      suspendedUntil: "2026-01-01T00:00:00.000Z",
+    });
+    expect(isSuspendedResult(result)).toBe(true);
+    expect(isSuspendedResult({ success: false, error: "boom" })).toBe(false);
+    expect(isSuspendedResult(null)).toBe(false);
+  });
+});
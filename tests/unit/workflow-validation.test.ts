@@ -0,0 +1,213 @@
+import { describe, expect, it } from "vitest";
+import {
+  summarizeDiagnostics,
+  validateWorkflowGraph,
+} from "@/keeperhub/lib/workflow-validation";
+import type { WorkflowNode } from "@/lib/workflow-store";
+
+function createNode(
+  id: string,
+  config: Record<string, unknown>,
+  type: "trigger" | "action" = "action"
+): WorkflowNode {
+  return {
+    id,
+    position: { x: 0, y: 0 },
+    data: { label: id, type, config },
+  };
+}
+
+const trigger = createNode("Start", { triggerType: "Manual" }, "trigger");
+const balance = createNode("Balance", {
+  actionType: "web3/check-balance",
+  network: "ethereum",
+  address: "0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb",
+});
+
+function validate(
+  nodes: WorkflowNode[],
+  edges: [string, string][] = nodes
+    .slice(1)
+    .map((node, index) => [nodes[index].id, node.id])
+) {
+  return validateWorkflowGraph(
+    nodes,
+    edges.map(([source, target]) => ({ source, target })),
+    { enabledChainIds: new Set([1]) }
+  );
+}
+
+describe("validateWorkflowGraph", () => {
+  it("accepts a complete workflow", () => {
+    expect(validate([trigger, balance])).toEqual([]);
+  });
+
+  it("reports a missing trigger, cycles and unreachable nodes", () => {
+    const check = createNode("Check", {
+      actionType: "Condition",
+      condition: "true",
+    });
+    const codes = validate(
+      [balance, check],
+      [
+        ["Balance", "Check"],
+        ["Check", "Balance"],
+      ]
+    ).map((diagnostic) => [diagnostic.code, diagnostic.severity]);
+    expect(codes).toEqual([
+      ["missing-trigger", "error"],
+      ["cycle", "error"],
+      ["unreachable-node", "warning"],
+      ["unreachable-node", "warning"],
+    ]);
+  });
+
+  it("reports missing and unknown action types", () => {
+    expect(
+      validate([
+        trigger,
+        createNode("Empty", {}),
+        createNode("Typo", { actionType: "web3/check-balanse" }),
+      ]).map((diagnostic) => diagnostic.message)
+    ).toEqual([
+      '"Empty" has no action type',
+      '"Typo" has an unknown action type "web3/check-balanse"',
+    ]);
+  });
+
+  it("reports missing required fields, integrations and chains", () => {
+    const transfer = createNode("Transfer", {
+      actionType: "web3/transfer-funds",
+      network: "solana-devnet-typo",
+      recipientAddress: "0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb",
+    });
+    expect(validate([trigger, transfer])).toEqual([
+      {
+        code: "unknown-chain",
+        severity: "error",
+        message: '"Transfer" uses an unknown network "solana-devnet-typo"',
+        nodeId: "Transfer",
+        fieldKey: "network",
+      },
+      {
+        code: "missing-required-field",
+        severity: "error",
+        message: '"Transfer" is missing required field "Amount (ETH)"',
+        nodeId: "Transfer",
+        fieldKey: "amount",
+      },
+      {
+        code: "missing-integration",
+        severity: "error",
+        message: '"Transfer" needs a web3 connection (integrationId)',
+        nodeId: "Transfer",
+        fieldKey: "integrationId",
+      },
+    ]);
+  });
+
+  it("reports chains that are not enabled", () => {
+    const base = createNode("Base", { ...balance.data.config, network: 8453 });
+    expect(validate([trigger, base])[0]).toMatchObject({
+      code: "unknown-chain",
+      message: '"Base" uses chain 8453, which is not supported',
+    });
+  });
+
+  it("checks condition syntax with templates in place", () => {
+    const condition = (expression: string) =>
+      validate([
+        trigger,
+        balance,
+        createNode("Check", { actionType: "Condition", condition: expression }),
+      ]);
+    expect(condition("{{@Balance:Balance.balance}} > 1")).toEqual([]);
+    expect(condition("{{@Balance:Balance.balance}} >")[0]).toMatchObject({
+      code: "invalid-condition",
+      nodeId: "Check",
+      fieldKey: "condition",
+    });
+    expect(condition("")[0].message).toBe(
+      '"Check" has no condition expression'
+    );
+  });
+
+  it("reports event filters that do not fit the watched events", () => {
+    const eventTrigger = createNode(
+      "Transfers",
+      {
+        triggerType: "Event",
+        network: "1",
+        contractAddress: "0x6B175474E89094C44Da98b954EedeAC495271d0F",
+        contractABI: JSON.stringify([
+          {
+            type: "event",
+            name: "Transfer",
+            inputs: [
+              { name: "to", type: "address", indexed: true },
+              { name: "value", type: "uint256", indexed: false },
+            ],
+          },
+        ]),
+        eventName: "Transfer",
+        eventFilters: JSON.stringify([
+          { arg: "value", operator: "gt", value: "1e24" },
+          { arg: "amount", operator: "gt", value: "1" },
+        ]),
+      },
+      "trigger"
+    );
+    expect(validate([eventTrigger, balance])).toEqual([
+      {
+        code: "invalid-event-filter",
+        severity: "error",
+        message: '"Transfers": No watched event has an argument named amount',
+        nodeId: "Transfers",
+        fieldKey: "eventFilters",
+      },
+    ]);
+  });
+
+  it("reports malformed nodes and edges instead of throwing", () => {
+    const diagnostics = validateWorkflowGraph(
+      [trigger, { id: "Broken" }, null, balance],
+      [{ source: "Start", target: "Balance" }, { source: "Start" }],
+      { enabledChainIds: new Set([1]) }
+    );
+    expect(diagnostics).toEqual([
+      {
+        code: "malformed-node",
+        severity: "error",
+        message: "Node 1 needs a string id and a data object",
+        nodeId: "Broken",
+      },
+      {
+        code: "malformed-node",
+        severity: "error",
+        message: "Node 2 needs a string id and a data object",
+      },
+      {
+        code: "malformed-edge",
+        severity: "error",
+        message: "Edge 1 needs a string source and target",
+      },
+    ]);
+  });
+
+  it("skips configuration checks for disabled nodes", () => {
+    const disabled = createNode("Off", { actionType: "web3/transfer-funds" });
+    disabled.data.enabled = false;
+    expect(validate([trigger, disabled])).toEqual([]);
+  });
+});
+
+describe("summarizeDiagnostics", () => {
+  it("is valid when there are only warnings", () => {
+    const result = summarizeDiagnostics(validate([trigger, balance], []));
+    expect(result).toMatchObject({
+      valid: true,
+      errorCount: 0,
+      warningCount: 1,
+    });
+  });
+});
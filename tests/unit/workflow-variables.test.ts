@@ -0,0 +1,157 @@
+import { describe, expect, it, vi } from "vitest";
+
+// Mock server-only to allow importing workflow-executor in tests
+vi.mock("server-only", () => ({}));
+
+import {
+  formatMissingVariablesError,
+  getMissingVariables,
+  getVariableValues,
+  VARIABLES_NODE_ID,
+  VARIABLES_NODE_LABEL,
+  validateWorkflowVariables,
+  type WorkflowVariable,
+} from "@/keeperhub/lib/workflow-variables";
+import {
+  evaluateConditionExpression,
+  resolveDisplayTemplate,
+} from "@/lib/workflow-executor.workflow";
+
+const VAULT = "0x1234567890abcdef1234567890abcdef12345678";
+
+describe("workflow-variables", () => {
+  describe("validateWorkflowVariables", () => {
+    it("accepts valid variables and drops unknown keys", () => {
+      const result = validateWorkflowVariables([
+        { name: "vaultAddress", type: "address", value: VAULT, extra: 1 },
+        { name: "threshold", type: "number", value: "1.5", required: true },
+      ]);
+      expect(result).toEqual({
+        valid: true,
+        variables: [
+          { name: "vaultAddress", type: "address", value: VAULT },
+          { name: "threshold", type: "number", value: "1.5", required: true },
+        ],
+      });
+    });
+
+    it("allows empty values", () => {
+      const result = validateWorkflowVariables([
+        { name: "vault", type: "address", value: "", required: true },
+      ]);
+      expect(result.valid).toBe(true);
+    });
+
+    it("rejects a non-array", () => {
+      expect(validateWorkflowVariables({}).valid).toBe(false);
+    });
+
+    it("rejects names that are not identifiers", () => {
+      const result = validateWorkflowVariables([
+        { name: "vault address", type: "text", value: "" },
+      ]);
+      expect(result.valid).toBe(false);
+    });
+
+    it("rejects duplicate names", () => {
+      const result = validateWorkflowVariables([
+        { name: "vault", type: "text", value: "a" },
+        { name: "vault", type: "text", value: "b" },
+      ]);
+      expect(result).toEqual({
+        valid: false,
+        error: 'Variable "vault" is declared more than once',
+      });
+    });
+
+    it("rejects unknown types", () => {
+      const result = validateWorkflowVariables([
+        { name: "vault", type: "object", value: "" },
+      ]);
+      expect(result.valid).toBe(false);
+    });
+
+    it("rejects values that do not match the type", () => {
+      expect(
+        validateWorkflowVariables([
+          { name: "vault", type: "address", value: "0x12" },
+        ]).valid
+      ).toBe(false);
+      expect(
+        validateWorkflowVariables([
+          { name: "threshold", type: "number", value: "abc" },
+        ]).valid
+      ).toBe(false);
+      expect(
+        validateWorkflowVariables([
+          { name: "paused", type: "boolean", value: "yes" },
+        ]).valid
+      ).toBe(false);
+    });
+  });
+
+  describe("getVariableValues", () => {
+    it("converts values to their declared type", () => {
+      const variables: WorkflowVariable[] = [
+        { name: "vault", type: "address", value: ` ${VAULT} ` },
+        { name: "threshold", type: "number", value: "1.5" },
+        { name: "paused", type: "boolean", value: "false" },
+        { name: "label", type: "text", value: "main" },
+        { name: "unset", type: "number", value: "" },
+      ];
+      expect(getVariableValues(variables)).toEqual({
+        vault: VAULT,
+        threshold: 1.5,
+        paused: false,
+        label: "main",
+        unset: "",
+      });
+    });
+
+    it("returns no values for a workflow without variables", () => {
+      expect(getVariableValues(undefined)).toEqual({});
+    });
+  });
+
+  describe("getMissingVariables", () => {
+    it("lists required variables without a value", () => {
+      const variables: WorkflowVariable[] = [
+        { name: "vault", type: "address", value: "", required: true },
+        { name: "threshold", type: "number", value: "2", required: true },
+        { name: "note", type: "text", value: "" },
+      ];
+      expect(getMissingVariables(variables)).toEqual(["vault"]);
+      expect(formatMissingVariablesError(["vault"])).toBe(
+        "Workflow variables must be set before running: vault"
+      );
+    });
+  });
+});
+
+describe("template resolution with workflow variables", () => {
+  const outputs = {
+    [VARIABLES_NODE_ID]: {
+      label: VARIABLES_NODE_LABEL,
+      data: getVariableValues([
+        { name: "vault", type: "address", value: VAULT },
+        { name: "threshold", type: "number", value: "100" },
+      ]),
+    },
+    read_1: {
+      label: "Read Balance",
+      data: { balance: 150 },
+    },
+  };
+
+  it("resolves {{Vars.name}} display references", () => {
+    expect(resolveDisplayTemplate("Vars.vault", outputs)).toBe(VAULT);
+  });
+
+  it("resolves stored references in conditions with the variable's type", () => {
+    const result = evaluateConditionExpression(
+      "{{@read_1:Read Balance.balance}} > {{@__vars:Vars.threshold}}",
+      outputs
+    );
+    expect(result.result).toBe(true);
+  });
+});